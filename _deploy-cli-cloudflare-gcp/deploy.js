@@ -971,6 +971,7 @@ function parseConfig(config) {
   if (config.DISABLE_4K_UPSCALER !== undefined) secrets.DISABLE_4K_UPSCALER = config.DISABLE_4K_UPSCALER;
   if (config.MOBILE_API_KEY) secrets.MOBILE_API_KEY = config.MOBILE_API_KEY;
   if (config.ENABLE_MOBILE_API_KEY_AUTH) secrets.ENABLE_MOBILE_API_KEY_AUTH = config.ENABLE_MOBILE_API_KEY_AUTH;
+  if (config.ADMIN_API_KEY) secrets.ADMIN_API_KEY = config.ADMIN_API_KEY;
   if (config.FCM_PROJECT_ID) secrets.FCM_PROJECT_ID = config.FCM_PROJECT_ID;
   if (config.FCM_CLIENT_EMAIL) secrets.FCM_CLIENT_EMAIL = config.FCM_CLIENT_EMAIL;
   if (config.FCM_PRIVATE_KEY) secrets.FCM_PRIVATE_KEY = config.FCM_PRIVATE_KEY;
@@ -1028,7 +1029,12 @@ function parseConfig(config) {
   };
 }
 
-function generateWranglerConfig(config, skipD1 = false, databaseId = null, promptCacheNamespaceId = null, expectedWorkerName = null, expectedAccountId = null, cwd = null) {
+// Queue for async AI jobs (POST ... "async": true); one per worker unless jobsQueueName is set in the environment config
+function getJobsQueueName(config) {
+  return config.jobsQueueName || `${config.workerName}-jobs`;
+}
+
+function generateWranglerConfig(config, skipD1 = false, databaseId = null, promptCacheNamespaceId = null, expectedWorkerName = null, expectedAccountId = null, cwd = null, jobsQueueName = null) {
   if (expectedWorkerName !== null && config.workerName !== expectedWorkerName) {
     throw new Error(`CRITICAL: Worker name mismatch. Expected '${expectedWorkerName}', got '${config.workerName}'. Deployment ABORTED.`);
   }
@@ -1097,9 +1103,20 @@ function generateWranglerConfig(config, skipD1 = false, databaseId = null, promp
     }];
   }
 
-  // Add scheduled trigger for 30-day result cleanup (runs daily at 3 AM UTC)
+  // Async jobs run in the queue consumer (15 minute wall time) instead of waitUntil, which is cut off shortly after the
+  // 202 is sent. One job per batch: jobs are long and a batch runs them one after another.
+  if (jobsQueueName) {
+    wranglerConfig.queues = {
+      producers: [{ binding: 'JOBS_QUEUE', queue: jobsQueueName }],
+      consumers: [{ queue: jobsQueueName, max_batch_size: 1, max_batch_timeout: 1, max_retries: 3 }]
+    };
+  }
+
+  // Add scheduled triggers: 30-day result cleanup (daily at 3 AM UTC), webhook retries and preset usage rollup (every 10 minutes), credit hold sweep (every 5 minutes)
+  // and Google Play voided purchases (hourly)
+  // Must match SCHEDULED_CRONS in backend-cloudflare-workers/config.ts
   wranglerConfig.triggers = {
-    crons: ['0 3 * * *']
+    crons: ['0 3 * * *', '*/10 * * * *', '*/5 * * * *', '30 * * * *']
   };
 
   // Note: Custom domains for Workers are configured separately in Cloudflare dashboard
@@ -2912,6 +2929,23 @@ const utils = {
     return { success: true, deployed: successCount, total: keys.length };
   },
 
+  async ensureQueue(cwd, queueName) {
+    try {
+      const result = await runCommand(`wrangler queues create "${queueName}"`, cwd);
+      return { exists: true, created: result.success, skipped: false };
+    } catch (error) {
+      const errorMsg = error.message || '';
+      if (errorMsg.includes('already exists') || errorMsg.includes('already taken') || errorMsg.includes('code: 11009')) {
+        return { exists: true, created: false, skipped: false };
+      }
+      if (errorMsg.includes('Authentication error') || errorMsg.includes('code: 10000')) {
+        logWarn('API token does not have Queues permissions. Async jobs will run via waitUntil.');
+        return { exists: false, created: false, skipped: true };
+      }
+      throw error;
+    }
+  },
+
   async deployWorker(cwd, workerName, config, skipD1 = false, databaseId = null, promptCacheNamespaceId = null, envName = null, expectedWorkerName = null, expectedAccountId = null) {
     if (expectedWorkerName !== null && config.workerName !== expectedWorkerName) {
       throw new Error(`CRITICAL: Worker name mismatch. Expected '${expectedWorkerName}', got '${config.workerName}'. Deployment ABORTED.`);
@@ -2961,7 +2995,11 @@ const utils = {
         }
       }
       
-      const wranglerConfig = generateWranglerConfig(config, skipD1, databaseId, promptCacheNamespaceId, expectedWorkerName, expectedAccountId, cwd);
+      const jobsQueueName = getJobsQueueName(config);
+      const jobsQueue = await this.ensureQueue(cwd, jobsQueueName);
+      const boundJobsQueue = jobsQueue.exists ? jobsQueueName : null;
+
+      const wranglerConfig = generateWranglerConfig(config, skipD1, databaseId, promptCacheNamespaceId, expectedWorkerName, expectedAccountId, cwd, boundJobsQueue);
       fs.writeFileSync(wranglerPath, JSON.stringify(wranglerConfig, null, 2));
       createdConfig = true;
 
@@ -2976,7 +3014,7 @@ const utils = {
           result = await runCommandWithRetry(deployCmd, cwd, 2, 3000);
         } else if ((errorMsg.includes('Authentication error') || errorMsg.includes('code: 10000')) && !skipD1) {
           logWarn('Worker deployment failed due to D1 permissions. Retrying without D1 binding...');
-          const wranglerConfigNoD1 = generateWranglerConfig(config, true, null, null, expectedWorkerName, expectedAccountId, cwd);
+          const wranglerConfigNoD1 = generateWranglerConfig(config, true, null, null, expectedWorkerName, expectedAccountId, cwd, boundJobsQueue);
           fs.writeFileSync(wranglerPath, JSON.stringify(wranglerConfigNoD1, null, 2));
           result = await runCommandWithRetry(deployCmd, cwd, 2, 3000);
         } else {
@@ -0,0 +1,129 @@
+// backend-cloudflare-workers/admin.ts
+// Admin API helpers: profile search, bans, forced subscription expiry and the formatting of the rows admins look at
+import type { AuditLogEntry, Payment, Subscription } from './types';
+import { ADMIN_CONFIG } from './config';
+import { applyCreditChange } from './ledger';
+
+export type AdminBanOutcome = 'updated' | 'unchanged' | 'not_found';
+
+const toIso = (seconds: number | null | undefined): string | null =>
+  seconds ? new Date(seconds * 1000).toISOString() : null;
+
+// Exact match on every given field (email ignores case). Returns null when no search field is given.
+export const searchProfiles = async (
+  db: D1Database, filters: Record<string, string | null>, limit: number
+): Promise<Record<string, any>[] | null> => {
+  const conditions: string[] = [];
+  const bindings: string[] = [];
+  for (const field of ADMIN_CONFIG.SEARCH_FIELDS) {
+    const value = filters[field]?.trim();
+    if (!value) continue;
+    conditions.push(field === 'email' ? 'email = ? COLLATE NOCASE' : `${field} = ?`);
+    bindings.push(value);
+  }
+  if (conditions.length === 0) return null;
+  const result = await db.prepare(
+    `SELECT * FROM profiles WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC LIMIT ${limit}`
+  ).bind(...bindings).all();
+  return result.results || [];
+};
+
+export const setProfileBanned = async (db: D1Database, profileId: string, banned: boolean): Promise<AdminBanOutcome> => {
+  const value = banned ? 1 : 0;
+  const update = await db.prepare(
+    'UPDATE profiles SET is_banned = ?, updated_at = unixepoch() WHERE id = ? AND is_banned <> ?'
+  ).bind(value, profileId, value).run();
+  if (update.meta?.changes) return 'updated';
+  const profile = await db.prepare('SELECT id FROM profiles WHERE id = ?').bind(profileId).first();
+  return profile ? 'unchanged' : 'not_found';
+};
+
+// Mark a subscription EXPIRED now and zero the profile's sub points, unless another subscription still gives access.
+// Returns null when it does not exist or is already expired. A later store notification (e.g. a renewal) can
+// still reactivate it.
+export const forceExpireSubscription = async (
+  db: D1Database, subscriptionId: string, note: string
+): Promise<Subscription | null> => {
+  const now = Math.floor(Date.now() / 1000);
+  const claim = await db.prepare(
+    'UPDATE subscriptions SET status = \'EXPIRED\', auto_renewing = 0, expires_at = MIN(expires_at, ?1), updated_at = ?1 WHERE id = ?2 AND status <> \'EXPIRED\''
+  ).bind(now, subscriptionId).run();
+  if (!claim.meta?.changes) return null;
+
+  const subscription = await db.prepare('SELECT * FROM subscriptions WHERE id = ?').bind(subscriptionId).first() as Subscription;
+  const other = await db.prepare(
+    'SELECT 1 FROM subscriptions WHERE profile_id = ? AND id <> ? AND status IN (\'ACTIVE\', \'GRACE\')'
+  ).bind(subscription.profile_id, subscriptionId).first();
+  if (!other) {
+    await applyCreditChange(db, { profileId: subscription.profile_id, type: 'expiry', setSub: 0, subscription_id: subscriptionId, note });
+  }
+  return subscription;
+};
+
+export const formatAdminProfile = (profile: Record<string, any>) => ({
+  id: profile.id,
+  device_id: profile.device_id ?? null,
+  user_id: profile.user_id ?? null,
+  name: profile.name ?? null,
+  email: profile.email ?? null,
+  phone: profile.phone ?? null,
+  is_banned: profile.is_banned === 1,
+  sub_point_remaining: profile.sub_point_remaining,
+  consumable_point_remaining: profile.consumable_point_remaining,
+  total_credits_purchased: profile.total_credits_purchased,
+  total_credits_spent: profile.total_credits_spent,
+  credits_owed: profile.credits_owed ?? 0,  // Refunded credits that were already spent
+  referral_code: profile.referral_code ?? null,
+  signup_ip: profile.signup_ip ?? null,
+  created_at: toIso(profile.created_at),
+  updated_at: toIso(profile.updated_at),
+});
+
+// raw_response (the store's verification payload) is left out
+export const formatAdminPayment = (payment: Payment) => ({
+  id: payment.id,
+  sku: payment.sku,
+  order_id: payment.order_id,
+  purchase_token: payment.purchase_token,
+  status: payment.status,
+  credits_granted: payment.credits_granted,
+  amount_micros: payment.amount_micros,
+  currency: payment.currency,
+  platform: payment.platform,
+  created_at: toIso(payment.created_at),
+  updated_at: toIso(payment.updated_at),
+});
+
+export const formatAdminSubscription = (subscription: Subscription) => ({
+  id: subscription.id,
+  profile_id: subscription.profile_id,
+  sku: subscription.sku,
+  purchase_token: subscription.purchase_token,
+  status: subscription.status,
+  platform: subscription.platform,
+  points_per_cycle: subscription.points_per_cycle,
+  auto_renewing: subscription.auto_renewing === 1,
+  started_at: toIso(subscription.started_at),
+  expires_at: toIso(subscription.expires_at),
+  last_reset_at: toIso(subscription.last_reset_at),
+  cycle_count_used: subscription.cycle_count_used,
+  cancelled_at: toIso(subscription.cancelled_at),
+  created_at: toIso(subscription.created_at),
+  updated_at: toIso(subscription.updated_at),
+});
+
+export const formatAuditLogEntry = (entry: AuditLogEntry) => {
+  let details: unknown = entry.details;
+  try {
+    details = entry.details ? JSON.parse(entry.details) : null;
+  } catch {
+    // Not JSON: returned as stored
+  }
+  return {
+    id: entry.id,
+    action: entry.action,
+    details,
+    ip_address: entry.ip_address,
+    created_at: toIso(entry.created_at),
+  };
+};
@@ -0,0 +1,78 @@
+// backend-cloudflare-workers/allowance.ts
+// Free daily allowance: profiles without a subscription get FREE_ALLOWANCE_CONFIG.ACTIONS free runs per day,
+// counted per profile and per device (a limit shared by every profile on the device)
+import type { Env } from './types';
+import { FREE_ALLOWANCE_CONFIG } from './config';
+
+let _actionsCache: { actions: Record<string, number>; raw: string } | null = null;
+
+// Free runs per day of each action (FREE_ALLOWANCE_ACTIONS env override, else the config)
+export const getFreeAllowanceActions = (env: Env): Record<string, number> => {
+  if (!env.FREE_ALLOWANCE_ACTIONS) return FREE_ALLOWANCE_CONFIG.ACTIONS;
+  const raw = String(env.FREE_ALLOWANCE_ACTIONS);
+  if (!_actionsCache || _actionsCache.raw !== raw) {
+    try {
+      _actionsCache = { actions: JSON.parse(raw), raw };
+    } catch {
+      return FREE_ALLOWANCE_CONFIG.ACTIONS;
+    }
+  }
+  return _actionsCache.actions;
+};
+
+export const allowsConsumableWithoutSubscription = (env: Env): boolean =>
+  env.ALLOW_CONSUMABLE_WITHOUT_SUBSCRIPTION !== undefined
+    ? String(env.ALLOW_CONSUMABLE_WITHOUT_SUBSCRIPTION) === 'true'
+    : FREE_ALLOWANCE_CONFIG.ALLOW_CONSUMABLE_WITHOUT_SUBSCRIPTION;
+
+// The day a request counts toward: UTC, or the request's local date (Cloudflare's IP-based time zone)
+export const getAllowanceDay = (env: Env, request: Request<unknown, IncomingRequestCfProperties> | null, now: Date = new Date()): string => {
+  const boundary = env.FREE_ALLOWANCE_DAY_BOUNDARY || FREE_ALLOWANCE_CONFIG.DAY_BOUNDARY;
+  const timeZone = boundary === 'local' ? request?.cf?.timezone : undefined;
+  if (timeZone) {
+    try {
+      // en-CA formats as YYYY-MM-DD
+      return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+    } catch {
+      // Unknown time zone: fall back to UTC
+    }
+  }
+  return now.toISOString().slice(0, 10);
+};
+
+// Use one free run; false when the profile (or its device) has none left today
+export const claimFreeAllowance = async (
+  db: D1Database, profileId: string, deviceId: string | null, action: string, day: string, limit: number
+): Promise<boolean> => {
+  if (limit <= 0) return false;
+  // The guard sums the profile's and the device's usage, and the upsert runs as one statement
+  const claim = await db.prepare(
+    `INSERT INTO free_allowance_usage (profile_id, device_id, action, usage_day, used, updated_at)
+     SELECT ?1, ?2, ?3, ?4, 1, unixepoch()
+     WHERE (SELECT COALESCE(SUM(used), 0) FROM free_allowance_usage
+            WHERE action = ?3 AND usage_day = ?4 AND (profile_id = ?1 OR (?2 IS NOT NULL AND device_id = ?2))) < ?5
+     ON CONFLICT(profile_id, action, usage_day) DO UPDATE SET used = used + 1, device_id = excluded.device_id, updated_at = excluded.updated_at`
+  ).bind(profileId, deviceId, action, day, limit).run();
+  return !!claim.meta?.changes;
+};
+
+// Give back a free run of `day` (the request that used it failed or was blocked)
+export const releaseFreeAllowance = async (db: D1Database, profileId: string, action: string, day: string): Promise<boolean> => {
+  const release = await db.prepare(
+    'UPDATE free_allowance_usage SET used = used - 1, updated_at = unixepoch() WHERE profile_id = ? AND action = ? AND usage_day = ? AND used > 0'
+  ).bind(profileId, action, day).run();
+  return !!release.meta?.changes;
+};
+
+// Free runs left today for each allowance action
+export const getFreeAllowanceRemaining = async (
+  db: D1Database, env: Env, profileId: string, deviceId: string | null, day: string
+): Promise<Record<string, number>> => {
+  const actions = getFreeAllowanceActions(env);
+  const usage = await db.prepare(
+    `SELECT action, COALESCE(SUM(used), 0) AS used FROM free_allowance_usage
+     WHERE usage_day = ?3 AND (profile_id = ?1 OR (?2 IS NOT NULL AND device_id = ?2)) GROUP BY action`
+  ).bind(profileId, deviceId, day).all<{ action: string; used: number }>();
+  const used = Object.fromEntries((usage.results || []).map((row) => [row.action, row.used]));
+  return Object.fromEntries(Object.entries(actions).map(([action, limit]) => [action, Math.max(0, limit - (used[action] || 0))]));
+};
@@ -0,0 +1,124 @@
+// backend-cloudflare-workers/analytics.ts
+// Preset usage analytics: a log of every preset run, its daily rollup (scheduled()), the trending presets of the
+// app and the per-preset usage report for admins
+import type { FaceSwapResponse, PresetUsageEvent, PresetUsageOutcome, PresetUsageTotals } from './types';
+import { PRESET_ANALYTICS_CONFIG } from './config';
+import { VISIBLE_PRESET_CONDITIONS } from './catalog';
+import { getVertexModelId } from './utils';
+
+const DAY_SECONDS = 86400;
+
+export type PresetUsageReportSort = 'uses' | 'failure_rate' | 'safety_block_rate';
+
+// Catalog fields are null when the preset was deleted
+export type PresetUsageReportRow = PresetUsageTotals & { category_id: string | null; sub_category_id: string | null; is_active: number | null };
+
+const toDay = (seconds: number): string => new Date(seconds * 1000).toISOString().slice(0, 10);
+
+// Safety filter blocks come back with status codes 1000+ (SAFETY_STATUS_CODES, VERTEX_SAFETY_STATUS_CODES)
+export const getPresetUsageOutcome = (result: Pick<FaceSwapResponse, 'Success' | 'ResultImageUrl' | 'StatusCode'>): PresetUsageOutcome => {
+  if (result.Success && result.ResultImageUrl) return 'succeeded';
+  return (result.StatusCode || 0) >= 1000 ? 'safety_blocked' : 'failed';
+};
+
+// Vertex resolves the model parameter ("2.5", "3") to a model id; other providers are recorded with it as given
+export const resolveUsageModel = (provider: string, modelParam: string | number | null | undefined): string | null => {
+  if (provider === 'vertex') return getVertexModelId(modelParam ?? undefined);
+  const model = modelParam === undefined || modelParam === null ? '' : String(modelParam).trim();
+  return model || null;
+};
+
+// Never throws, so it can run in ctx.waitUntil without failing the request
+export const recordPresetUsage = async (db: D1Database, event: PresetUsageEvent): Promise<void> => {
+  try {
+    await db.prepare(
+      'INSERT INTO preset_usage_events (preset_id, action, profile_id, provider, model, outcome, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    ).bind(event.preset_id, event.action, event.profile_id, event.provider, event.model, event.outcome, Math.floor(Date.now() / 1000)).run();
+  } catch (error) {
+    console.error(`[Analytics] Failed to record usage of preset ${event.preset_id}:`, error instanceof Error ? error.message : String(error));
+  }
+};
+
+// Recompute the daily totals of the last ROLLUP_DAYS days (today included) from the events, then drop events and
+// daily rows past retention. Returns the number of (day, preset) rows written.
+export const rollupPresetUsage = async (db: D1Database, now: number = Math.floor(Date.now() / 1000)): Promise<number> => {
+  const fromDay = toDay(now - (PRESET_ANALYTICS_CONFIG.ROLLUP_DAYS - 1) * DAY_SECONDS);
+  const [rollup] = await db.batch([
+    db.prepare(
+      `INSERT INTO preset_usage_daily (day, preset_id, uses, succeeded, failed, safety_blocked, profiles, updated_at)
+       SELECT date(created_at, 'unixepoch'), preset_id, COUNT(*), SUM(outcome = 'succeeded'), SUM(outcome = 'failed'),
+              SUM(outcome = 'safety_blocked'), COUNT(DISTINCT profile_id), ?1
+       FROM preset_usage_events WHERE created_at >= unixepoch(?2)
+       GROUP BY date(created_at, 'unixepoch'), preset_id
+       ON CONFLICT(day, preset_id) DO UPDATE SET uses = excluded.uses, succeeded = excluded.succeeded, failed = excluded.failed,
+         safety_blocked = excluded.safety_blocked, profiles = excluded.profiles, updated_at = excluded.updated_at`
+    ).bind(now, fromDay),
+    db.prepare('DELETE FROM preset_usage_events WHERE created_at < ?').bind(now - PRESET_ANALYTICS_CONFIG.EVENT_RETENTION_DAYS * DAY_SECONDS),
+    db.prepare('DELETE FROM preset_usage_daily WHERE day < ?').bind(toDay(now - PRESET_ANALYTICS_CONFIG.DAILY_RETENTION_DAYS * DAY_SECONDS)),
+  ]);
+  return rollup.meta?.changes || 0;
+};
+
+// First day (UTC) of a window ending today, e.g. 7d = today and the 6 days before it. Null for an unknown window.
+export const getUsageWindowStart = (window: string, now: number = Math.floor(Date.now() / 1000)): string | null => {
+  const days = PRESET_ANALYTICS_CONFIG.WINDOWS[window];
+  return days ? toDay(now - (days - 1) * DAY_SECONDS) : null;
+};
+
+// Visible presets ranked by how many profiles used them per day, then by successful runs. category matches a
+// category or a sub-category.
+export const getTrendingPresets = async (
+  db: D1Database, fromDay: string, category: string | null, limit: number
+): Promise<(Record<string, any> & PresetUsageTotals)[]> => {
+  const conditions = ['d.day >= ?', ...VISIBLE_PRESET_CONDITIONS];
+  const bindings: string[] = [fromDay];
+  if (category) {
+    conditions.push('(presets.category_id = ? OR presets.sub_category_id = ?)');
+    bindings.push(category, category);
+  }
+  const result = await db.prepare(
+    `SELECT presets.*, d.preset_id, SUM(d.uses) AS uses, SUM(d.succeeded) AS succeeded, SUM(d.failed) AS failed,
+            SUM(d.safety_blocked) AS safety_blocked, SUM(d.profiles) AS profiles
+     FROM preset_usage_daily d JOIN presets ON presets.id = d.preset_id
+     WHERE ${conditions.join(' AND ')}
+     GROUP BY d.preset_id HAVING SUM(d.succeeded) > 0
+     ORDER BY profiles DESC, succeeded DESC, d.preset_id
+     LIMIT ${limit}`
+  ).bind(...bindings).all();
+  return (result.results || []) as (Record<string, any> & PresetUsageTotals)[];
+};
+
+// Totals per preset over the window, deleted and inactive presets included (category is then unknown)
+export const getPresetUsageReport = async (
+  db: D1Database, fromDay: string, category: string | null, sort: PresetUsageReportSort, limit: number
+): Promise<PresetUsageReportRow[]> => {
+  const conditions = ['d.day >= ?'];
+  const bindings: string[] = [fromDay];
+  if (category) {
+    conditions.push('(p.category_id = ? OR p.sub_category_id = ?)');
+    bindings.push(category, category);
+  }
+  const orderBy = sort === 'uses' ? 'uses DESC' : `CAST(SUM(d.${sort === 'failure_rate' ? 'failed' : 'safety_blocked'}) AS REAL) / SUM(d.uses) DESC, uses DESC`;
+  const result = await db.prepare(
+    `SELECT d.preset_id, p.category_id, p.sub_category_id, p.is_active, SUM(d.uses) AS uses, SUM(d.succeeded) AS succeeded,
+            SUM(d.failed) AS failed, SUM(d.safety_blocked) AS safety_blocked, SUM(d.profiles) AS profiles
+     FROM preset_usage_daily d LEFT JOIN presets p ON p.id = d.preset_id
+     WHERE ${conditions.join(' AND ')}
+     GROUP BY d.preset_id
+     ORDER BY ${orderBy}, d.preset_id
+     LIMIT ${limit}`
+  ).bind(...bindings).all<PresetUsageReportRow>();
+  return result.results || [];
+};
+
+const rate = (count: number, uses: number): number => uses > 0 ? Math.round((count / uses) * 10000) / 10000 : 0;
+
+export const formatPresetUsage = (totals: PresetUsageTotals) => ({
+  uses: totals.uses,
+  succeeded: totals.succeeded,
+  failed: totals.failed,
+  safety_blocked: totals.safety_blocked,
+  profiles: totals.profiles,
+  failure_rate: rate(totals.failed, totals.uses),
+  safety_block_rate: rate(totals.safety_blocked, totals.uses),
+});
@@ -0,0 +1,262 @@
+// backend-cloudflare-workers/catalog.ts
+// Preset catalog: categories and sub-categories, gender, tags, display order, active/premium flags, credit surcharges
+// and localized titles of presets (preset_categories, preset_tags and the catalog columns of presets)
+import type { PresetCatalogEntry, PresetCatalogUpdateRequest, PresetCategory, PresetCategoryRequest, PresetGender, PresetPricing } from './types';
+import { PRESET_CATALOG_CONFIG } from './config';
+
+// Upsert of a preset's file columns that keeps its catalog columns (INSERT OR REPLACE would reset them).
+// Bindings: id, ext, created_at, thumbnail_r2.
+export const PRESET_UPSERT_SQL =
+  'INSERT INTO presets (id, ext, created_at, thumbnail_r2) VALUES (?, ?, ?, ?) ON CONFLICT(id) DO UPDATE SET ext = excluded.ext, created_at = excluded.created_at, thumbnail_r2 = excluded.thumbnail_r2';
+
+// Presets the app may show: active and outside inactive categories (WHERE conditions on presets)
+export const VISIBLE_PRESET_CONDITIONS = [
+  'presets.is_active = 1',
+  'NOT EXISTS (SELECT 1 FROM preset_categories c WHERE c.id IN (presets.category_id, presets.sub_category_id) AND c.is_active = 0)',
+];
+
+export interface ParsedPresetName {
+  categoryId: string;
+  subCategoryId: string;
+  gender: PresetGender;
+  position: number | null;
+}
+
+const toCatalogId = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, '-');
+
+// [type]_[sub_category]_[gender]_[position], e.g. face-swap_wedding_both_1 or fs_beach-day-selfie_f1_2b.
+// Returns null for names that do not follow it.
+export const parsePresetName = (presetId: string): ParsedPresetName | null => {
+  const parts = presetId.split('_');
+  if (parts.length < 4) return null;
+  const [type, subCategory, genderPart, positionPart] = parts;
+  const genderKey = genderPart.toLowerCase();
+  const gender = PRESET_CATALOG_CONFIG.GENDER_ALIASES[genderKey] ?? PRESET_CATALOG_CONFIG.GENDER_ALIASES[genderKey.replace(/^([a-z])\d+$/, '$1')];
+  const categoryId = toCatalogId(type);
+  const subCategoryId = `${categoryId}.${toCatalogId(subCategory)}`;
+  if (!gender || !PRESET_CATALOG_CONFIG.ID_PATTERN.test(subCategoryId)) return null;
+  const position = parseInt(positionPart, 10);
+  return { categoryId, subCategoryId, gender, position: isNaN(position) ? null : position };
+};
+
+// Fill the catalog columns of an uploaded preset from its name. Only empty columns are set, so admin edits
+// survive re-uploads; missing categories are created. Returns the parsed name, or null when it did not parse.
+export const applyPresetNameToCatalog = async (db: D1Database, presetId: string): Promise<ParsedPresetName | null> => {
+  const parsed = parsePresetName(presetId);
+  if (!parsed) return null;
+  await db.batch([
+    db.prepare('INSERT OR IGNORE INTO preset_categories (id) VALUES (?)').bind(parsed.categoryId),
+    db.prepare('INSERT OR IGNORE INTO preset_categories (id, parent_id) VALUES (?, ?)').bind(parsed.subCategoryId, parsed.categoryId),
+    // sort_order starts at the name's position (the right-hand side reads position before this update)
+    db.prepare(
+      `UPDATE presets SET category_id = COALESCE(category_id, ?), sub_category_id = COALESCE(sub_category_id, ?),
+       gender = COALESCE(gender, ?), sort_order = CASE WHEN position IS NULL THEN COALESCE(?, sort_order) ELSE sort_order END,
+       position = COALESCE(position, ?) WHERE id = ?`
+    ).bind(parsed.categoryId, parsed.subCategoryId, parsed.gender, parsed.position, parsed.position, presetId),
+  ]);
+  return parsed;
+};
+
+// ?locale= or the first Accept-Language tag
+export const resolveCatalogLocale = (request: Request, requestUrl: URL): string => {
+  const requested = requestUrl.searchParams.get('locale') || request.headers.get('Accept-Language')?.split(',')[0]?.split(';')[0];
+  return requested?.trim().toLowerCase() || PRESET_CATALOG_CONFIG.DEFAULT_LOCALE;
+};
+
+const parseTitles = (titles: string | null): Record<string, string> | null => {
+  if (!titles) return null;
+  try {
+    return JSON.parse(titles) as Record<string, string>;
+  } catch {
+    return null;
+  }
+};
+
+// Title in the locale, its language (vi-VN -> vi), or the default locale
+export const getLocalizedTitle = (titles: string | null, locale: string): string | null => {
+  const parsed = parseTitles(titles);
+  if (!parsed) return null;
+  return parsed[locale] ?? parsed[locale.split('-')[0]] ?? parsed[PRESET_CATALOG_CONFIG.DEFAULT_LOCALE] ?? null;
+};
+
+// Error message for an invalid titles object, or null
+export const validateCatalogTitles = (titles: Record<string, unknown> | null | undefined): string | null => {
+  if (!titles) return null;
+  for (const [locale, title] of Object.entries(titles)) {
+    if (!/^[a-z]{2,3}(-[a-z0-9]{2,8})?$/i.test(locale)) return `Invalid title locale: ${locale}`;
+    if (typeof title !== 'string' || !title.trim() || title.length > PRESET_CATALOG_CONFIG.MAX_TITLE_LENGTH) {
+      return `Title ${locale} must be 1-${PRESET_CATALOG_CONFIG.MAX_TITLE_LENGTH} characters`;
+    }
+  }
+  return null;
+};
+
+const normalizeTitles = (titles: Record<string, string> | null): string | null => {
+  if (!titles || Object.keys(titles).length === 0) return null;
+  return JSON.stringify(Object.fromEntries(Object.entries(titles).map(([locale, title]) => [locale.toLowerCase(), title.trim()])));
+};
+
+export const normalizeCatalogTags = (tags: string[]): string[] =>
+  [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+
+export const getPresetTags = async (db: D1Database, presetIds: string[]): Promise<Map<string, string[]>> => {
+  const tags = new Map<string, string[]>();
+  if (presetIds.length === 0) return tags;
+  const placeholders = presetIds.map(() => '?').join(', ');
+  const result = await db.prepare(
+    `SELECT preset_id, tag FROM preset_tags WHERE preset_id IN (${placeholders}) ORDER BY tag`
+  ).bind(...presetIds).all<{ preset_id: string; tag: string }>();
+  for (const row of result.results || []) {
+    tags.set(row.preset_id, [...(tags.get(row.preset_id) || []), row.tag]);
+  }
+  return tags;
+};
+
+export type CatalogUpdateOutcome =
+  | { kind: 'updated'; preset: PresetCatalogEntry }
+  | { kind: 'not_found' }
+  | { kind: 'invalid'; message: string };
+
+// Apply an admin edit of a preset's catalog columns and tags. Categories must exist; a sub-category must belong to
+// the preset's category.
+export const updatePresetCatalog = async (
+  db: D1Database, presetId: string, changes: PresetCatalogUpdateRequest
+): Promise<CatalogUpdateOutcome> => {
+  const preset = await db.prepare('SELECT * FROM presets WHERE id = ?').bind(presetId).first() as PresetCatalogEntry | null;
+  if (!preset) return { kind: 'not_found' };
+
+  const categoryId = changes.category_id !== undefined ? changes.category_id || null : preset.category_id;
+  const subCategoryId = changes.sub_category_id !== undefined ? changes.sub_category_id || null : preset.sub_category_id;
+  if (categoryId) {
+    const category = await db.prepare('SELECT parent_id FROM preset_categories WHERE id = ?').bind(categoryId).first() as { parent_id: string | null } | null;
+    if (!category) return { kind: 'invalid', message: `Unknown category: ${categoryId}` };
+    if (category.parent_id) return { kind: 'invalid', message: `${categoryId} is a sub-category` };
+  }
+  if (subCategoryId) {
+    const subCategory = await db.prepare('SELECT parent_id FROM preset_categories WHERE id = ?').bind(subCategoryId).first() as { parent_id: string | null } | null;
+    if (!subCategory) return { kind: 'invalid', message: `Unknown sub-category: ${subCategoryId}` };
+    if (!subCategory.parent_id || subCategory.parent_id !== categoryId) {
+      return { kind: 'invalid', message: `${subCategoryId} is not a sub-category of ${categoryId ?? 'no category'}` };
+    }
+  }
+  const titlesError = validateCatalogTitles(changes.titles);
+  if (titlesError) return { kind: 'invalid', message: titlesError };
+  const tags = changes.tags ? normalizeCatalogTags(changes.tags) : null;
+  if (tags) {
+    if (tags.length > PRESET_CATALOG_CONFIG.MAX_TAGS) return { kind: 'invalid', message: `At most ${PRESET_CATALOG_CONFIG.MAX_TAGS} tags` };
+    const invalidTag = tags.find((tag) => !PRESET_CATALOG_CONFIG.TAG_PATTERN.test(tag));
+    if (invalidTag) return { kind: 'invalid', message: `Invalid tag: ${invalidTag}` };
+  }
+
+  const updated: PresetCatalogEntry = {
+    ...preset,
+    category_id: categoryId,
+    sub_category_id: subCategoryId,
+    gender: changes.gender !== undefined ? changes.gender || null : preset.gender,
+    position: changes.position !== undefined ? changes.position ?? null : preset.position,
+    sort_order: changes.sort_order ?? preset.sort_order,
+    is_active: changes.is_active !== undefined ? (changes.is_active ? 1 : 0) : preset.is_active,
+    is_premium: changes.is_premium !== undefined ? (changes.is_premium ? 1 : 0) : preset.is_premium,
+    credit_surcharge: changes.credit_surcharge !== undefined ? changes.credit_surcharge ?? 0 : preset.credit_surcharge,
+    titles: changes.titles !== undefined ? normalizeTitles(changes.titles) : preset.titles,
+  };
+  const statements = [
+    db.prepare(
+      'UPDATE presets SET category_id = ?, sub_category_id = ?, gender = ?, position = ?, sort_order = ?, is_active = ?, is_premium = ?, credit_surcharge = ?, titles = ? WHERE id = ?'
+    ).bind(updated.category_id, updated.sub_category_id, updated.gender, updated.position, updated.sort_order, updated.is_active, updated.is_premium, updated.credit_surcharge, updated.titles, presetId),
+  ];
+  if (tags) {
+    statements.push(db.prepare('DELETE FROM preset_tags WHERE preset_id = ?').bind(presetId));
+    for (const tag of tags) statements.push(db.prepare('INSERT INTO preset_tags (preset_id, tag) VALUES (?, ?)').bind(presetId, tag));
+  }
+  await db.batch(statements);
+  return { kind: 'updated', preset: updated };
+};
+
+export type CategoryUpsertOutcome =
+  | { kind: 'saved'; category: PresetCategory; created: boolean }
+  | { kind: 'invalid'; message: string };
+
+// Create or edit a category. A sub-category's parent must be a top-level category; a category with sub-categories
+// cannot become one.
+export const upsertPresetCategory = async (
+  db: D1Database, rawId: string, changes: PresetCategoryRequest
+): Promise<CategoryUpsertOutcome> => {
+  const id = toCatalogId(rawId);
+  if (!PRESET_CATALOG_CONFIG.ID_PATTERN.test(id)) return { kind: 'invalid', message: 'id must be 1-64 characters of a-z, 0-9, . or -' };
+  const existing = await db.prepare('SELECT * FROM preset_categories WHERE id = ?').bind(id).first() as PresetCategory | null;
+
+  const parentId = changes.parent_id !== undefined ? (changes.parent_id ? toCatalogId(changes.parent_id) : null) : existing?.parent_id ?? null;
+  if (parentId) {
+    if (parentId === id) return { kind: 'invalid', message: 'A category cannot be its own parent' };
+    const parent = await db.prepare('SELECT parent_id FROM preset_categories WHERE id = ?').bind(parentId).first() as { parent_id: string | null } | null;
+    if (!parent) return { kind: 'invalid', message: `Unknown parent category: ${parentId}` };
+    if (parent.parent_id) return { kind: 'invalid', message: `${parentId} is a sub-category` };
+    const child = existing ? await db.prepare('SELECT 1 FROM preset_categories WHERE parent_id = ? LIMIT 1').bind(id).first() : null;
+    if (child) return { kind: 'invalid', message: `${id} has sub-categories` };
+  }
+  const titlesError = validateCatalogTitles(changes.titles);
+  if (titlesError) return { kind: 'invalid', message: titlesError };
+
+  const now = Math.floor(Date.now() / 1000);
+  const category: PresetCategory = {
+    id,
+    parent_id: parentId,
+    titles: changes.titles !== undefined ? normalizeTitles(changes.titles) : existing?.titles ?? null,
+    sort_order: changes.sort_order ?? existing?.sort_order ?? 0,
+    is_active: changes.is_active !== undefined ? (changes.is_active ? 1 : 0) : existing?.is_active ?? 1,
+    created_at: existing?.created_at ?? now,
+    updated_at: now,
+  };
+  await db.prepare(
+    `INSERT INTO preset_categories (id, parent_id, titles, sort_order, is_active, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET parent_id = excluded.parent_id, titles = excluded.titles, sort_order = excluded.sort_order,
+     is_active = excluded.is_active, updated_at = excluded.updated_at`
+  ).bind(category.id, category.parent_id, category.titles, category.sort_order, category.is_active, category.created_at, now).run();
+  return { kind: 'saved', category, created: !existing };
+};
+
+// Categories with their sub-categories nested, in display order. activeOnly leaves out inactive categories
+// (and every sub-category of an inactive category).
+export const listPresetCategories = async (db: D1Database, activeOnly: boolean): Promise<PresetCategory[]> => {
+  const result = await db.prepare(
+    `SELECT * FROM preset_categories ${activeOnly ? 'WHERE is_active = 1' : ''} ORDER BY sort_order, id`
+  ).all<PresetCategory>();
+  return result.results || [];
+};
+
+// locale null (admin): every title, the parent and the is_active flag
+export const formatPresetCategory = (category: PresetCategory, locale: string | null) => ({
+  id: category.id,
+  ...(locale === null
+    ? { parent_id: category.parent_id, titles: parseTitles(category.titles), is_active: category.is_active === 1 }
+    : { title: getLocalizedTitle(category.titles, locale) }),
+  sort_order: category.sort_order,
+});
+
+export const formatPresetCategoryTree = (categories: PresetCategory[], locale: string | null) =>
+  categories.filter((category) => !category.parent_id).map((category) => ({
+    ...formatPresetCategory(category, locale),
+    sub_categories: categories.filter((sub) => sub.parent_id === category.id).map((sub) => formatPresetCategory(sub, locale)),
+  }));
+
+// Catalog fields of a preset in API responses. locale null (admin): every title and the is_active flag.
+export const formatPresetCatalog = (preset: PresetCatalogEntry, tags: string[], locale: string | null) => ({
+  category: preset.category_id ?? null,
+  sub_category: preset.sub_category_id ?? null,
+  gender: preset.gender ?? null,
+  position: preset.position ?? null,
+  sort_order: preset.sort_order ?? 0,
+  is_premium: preset.is_premium === 1,
+  credit_surcharge: preset.credit_surcharge ?? 0,
+  tags,
+  ...(locale === null
+    ? { titles: parseTitles(preset.titles), is_active: preset.is_active !== 0 }
+    : { title: getLocalizedTitle(preset.titles ?? null, locale) }),
+});
+
+export const getPresetPricing = (presets: Pick<PresetCatalogEntry, 'is_premium' | 'credit_surcharge'>[]): PresetPricing => ({
+  subscriberOnly: presets.some((preset) => preset.is_premium === 1),
+  surcharge: presets.reduce((total, preset) => total + (preset.credit_surcharge || 0), 0),
+});
+
@@ -307,8 +307,23 @@ export const GOOGLE_PLAY_CONFIG = {
       `https://androidpublisher.googleapis.com/androidpublisher/v3/applications/${packageName}/purchases/subscriptionsv2/tokens/${token}`,
     PURCHASES_SUBSCRIPTIONS_ACKNOWLEDGE: (packageName: string, subscriptionId: string, token: string) =>
       `https://androidpublisher.googleapis.com/androidpublisher/v3/applications/${packageName}/purchases/subscriptions/${subscriptionId}/tokens/${token}:acknowledge`,
+    VOIDED_PURCHASES: (packageName: string) =>
+      `https://androidpublisher.googleapis.com/androidpublisher/v3/applications/${packageName}/purchases/voidedpurchases`,
   },
 
+  // Voided Purchases API: refunds, chargebacks and revocations of one-time products (reconciled by cron)
+  VOIDED_PURCHASES: {
+    MAX_LOOKBACK_SECONDS: 30 * 86400 - 3600,  // The API rejects a startTime older than 30 days
+    OVERLAP_SECONDS: 3600,                    // Each run re-reads the last hour before the newest voided purchase seen
+    MAX_RESULTS: 1000,                        // Per page (API maximum)
+    MAX_PAGES: 10,                            // Per run; the next run continues from the newest voided purchase
+    TIMEOUT_MS: 15000,
+  },
+
+  // voidedSource / voidedReason of a voided purchase
+  VOIDED_SOURCES: ['user', 'developer', 'google'],
+  VOIDED_REASONS: ['other', 'remorse', 'not_received', 'defective', 'accidental_purchase', 'fraud', 'friendly_fraud', 'chargeback'],
+
   // Google Play RTDN (Real-Time Developer Notification) types
   // Ref: https://developer.android.com/google/play/billing/rtdn-reference
   NOTIFICATION_TYPES: {
@@ -351,6 +366,90 @@ export const GOOGLE_PLAY_CONFIG = {
   },
 };
 
+// Apple App Store (App Store Server API + App Store Server Notifications v2)
+// Auth: APPLE_IAP_ISSUER_ID, APPLE_IAP_KEY_ID, APPLE_IAP_PRIVATE_KEY (.p8), APPLE_BUNDLE_ID.
+// APPLE_IAP_ENVIRONMENT=Production|Sandbox pins the API; unset tries Production, then Sandbox on 404.
+// Product IDs in App Store Connect must match products.sku.
+export const APP_STORE_CONFIG = {
+  API_BASE_URLS: {
+    Production: 'https://api.storekit.itunes.apple.com',
+    Sandbox: 'https://api.storekit-sandbox.itunes.apple.com',
+  } as Record<string, string>,
+
+  ENDPOINTS: {
+    TRANSACTION: (transactionId: string) => `/inApps/v1/transactions/${transactionId}`,
+    SUBSCRIPTION_STATUSES: (transactionId: string) => `/inApps/v1/subscriptions/${transactionId}`,
+  },
+
+  TOKEN_AUDIENCE: 'appstoreconnect-v1',
+  TOKEN_TTL_SECONDS: 20 * 60,   // Apple rejects tokens valid for more than 60 minutes
+  TIMEOUT_MS: 10000,
+
+  // Every Apple-signed JWS carries an x5c chain ending in Apple Root CA - G3 (SHA-256 of the DER certificate)
+  ROOT_CA_SHA256: '63343abfb89a6a03ebb57e9b3f5fa7be7c4f5c756f3017b3a8c488c3653e9179',
+  // Extensions that mark Apple's App Store receipt signing leaf and its intermediate (WWDR) certificate
+  LEAF_CERT_OID: '1.2.840.113635.100.6.11.1',
+  INTERMEDIATE_CERT_OID: '1.2.840.113635.100.6.2.1',
+
+  // lastTransactions[].status from Get All Subscription Statuses
+  SUBSCRIPTION_STATUS: {
+    ACTIVE: 1,
+    EXPIRED: 2,
+    BILLING_RETRY: 3,
+    GRACE_PERIOD: 4,
+    REVOKED: 5,
+  },
+
+  // App Store Server Notifications v2 notificationType / subtype values
+  // Ref: https://developer.apple.com/documentation/appstoreservernotifications/notificationtype
+  NOTIFICATION_TYPES: {
+    SUBSCRIBED: 'SUBSCRIBED',                         // INITIAL_BUY or RESUBSCRIBE
+    DID_RENEW: 'DID_RENEW',                           // Renewed (BILLING_RECOVERY after a failed renewal)
+    DID_FAIL_TO_RENEW: 'DID_FAIL_TO_RENEW',           // GRACE_PERIOD subtype keeps access, otherwise billing retry
+    GRACE_PERIOD_EXPIRED: 'GRACE_PERIOD_EXPIRED',     // Billing retry continues without access
+    DID_CHANGE_RENEWAL_STATUS: 'DID_CHANGE_RENEWAL_STATUS', // AUTO_RENEW_ENABLED / AUTO_RENEW_DISABLED
+    RENEWAL_EXTENDED: 'RENEWAL_EXTENDED',             // Developer extended the renewal date
+    EXPIRED: 'EXPIRED',
+    REVOKE: 'REVOKE',                                 // Family Sharing access revoked
+    REFUND: 'REFUND',                                 // Consumable or subscription refunded
+  },
+  NOTIFICATION_SUBTYPES: {
+    INITIAL_BUY: 'INITIAL_BUY',
+    GRACE_PERIOD: 'GRACE_PERIOD',
+    AUTO_RENEW_ENABLED: 'AUTO_RENEW_ENABLED',
+    AUTO_RENEW_DISABLED: 'AUTO_RENEW_DISABLED',
+  },
+};
+
+// Stripe Checkout (web credit packs)
+// Env: STRIPE_SECRET_KEY, STRIPE_WEBHOOK_SECRET, STRIPE_SUCCESS_URL, STRIPE_CANCEL_URL
+// (STRIPE_SUCCESS_URL may contain {CHECKOUT_SESSION_ID}, which Stripe replaces with the session id)
+export const STRIPE_CONFIG = {
+  API_BASE_URL: 'https://api.stripe.com/v1',
+  ENDPOINTS: {
+    CHECKOUT_SESSIONS: '/checkout/sessions',
+  },
+  TIMEOUT_MS: 10000,
+
+  // Stripe-Signature timestamps older than this are rejected (replay protection)
+  SIGNATURE_TOLERANCE_SECONDS: 5 * 60,
+
+  // Checkout sessions expire after 30 minutes at the earliest; the payment stays PENDING until then
+  SESSION_TTL_SECONDS: 30 * 60,
+
+  // Currencies Stripe charges in whole units (unit_amount is not multiplied by 100)
+  // Ref: https://docs.stripe.com/currencies#zero-decimal
+  ZERO_DECIMAL_CURRENCIES: ['BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA', 'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF'],
+
+  EVENT_TYPES: {
+    CHECKOUT_COMPLETED: 'checkout.session.completed',                       // Paid, or 'unpaid' for delayed methods
+    CHECKOUT_ASYNC_PAYMENT_SUCCEEDED: 'checkout.session.async_payment_succeeded',
+    CHECKOUT_ASYNC_PAYMENT_FAILED: 'checkout.session.async_payment_failed',
+    CHECKOUT_EXPIRED: 'checkout.session.expired',
+    CHARGE_REFUNDED: 'charge.refunded',
+  },
+};
+
 // FCM HTTP v1 Configuration
 export const FCM_CONFIG = {
   // OAuth token endpoint
@@ -374,3 +473,185 @@ export const FCM_CONFIG = {
   ],
 };
 
+
+// Async job configuration (routes with asyncJob: true called with "async": true)
+export const JOB_CONFIG = {
+  // Jobs stuck in queued/running longer than this are marked failed by scheduled()
+  STALE_AFTER_SECONDS: 15 * 60,
+
+  // Finished jobs are deleted after this many days
+  RETENTION_DAYS: 30,
+
+  LIST_LIMIT: 50,
+};
+
+// Mock image provider (MOCK_IMAGE_PROVIDER=true or provider "mock" via IMAGE_PROVIDER_* env)
+// Generates a gradient image from a hash of the request instead of calling Vertex/WaveSpeed
+export const MOCK_PROVIDER_CONFIG = {
+  LONG_SIDE: 1024,          // Output size when no explicit size is requested
+  JPEG_QUALITY: 80,
+};
+
+// Image provider failover: a provider failing with 408/429/5xx (quota, timeouts, outages) hands the request to the next provider in the mode's chain
+// Circuit breaker state is kept per provider in KV (PROVIDER_HEALTH_KV_BINDING_NAME, else the prompt cache namespace)
+export const PROVIDER_FAILOVER_CONFIG = {
+  KV_PREFIX: 'provider_health:',
+  WINDOW_SECONDS: 300,    // Failure rate is measured over a 5 minute window
+  MIN_FAILURES: 5,        // Never trip on fewer failures than this within the window
+  FAILURE_RATE: 0.5,      // Trip when at least half of the recorded calls in the window failed
+  COOLDOWN_SECONDS: 120,  // Tripped providers are skipped for this long, then get a fresh window
+};
+
+// POST /faceswap/batch: one selfie set against many presets
+export const FACESWAP_BATCH_CONFIG = {
+  MAX_ITEMS: 20,    // Presets per batch (also capped by RESULT_MAX_HISTORY so a batch never prunes its own results)
+  CONCURRENCY: 3,   // Provider calls in flight per batch
+};
+
+// Cron triggers (must match wranglerConfig.triggers in deploy.js)
+export const SCHEDULED_CRONS = {
+  DAILY_CLEANUP: '0 3 * * *',     // Result/payment/job cleanup
+  WEBHOOK_RETRY: '*/10 * * * *',  // Redelivers pending webhooks and rolls preset usage up
+  CREDIT_HOLD_SWEEP: '*/5 * * * *', // Releases expired credit holds
+  VOIDED_PURCHASES_SYNC: '30 * * * *', // Reconciles Google Play refunds and chargebacks
+};
+
+// Result webhooks (callback_url per request or per profile)
+// Deliveries are signed with a per-profile secret derived from WEBHOOK_SIGNING_SECRET (falls back to PROFILE_TOKEN_SECRET)
+export const WEBHOOK_CONFIG = {
+  TIMEOUT_MS: 10000,
+  // Delay before retry N (attempt 1 is sent right after the result); the delivery fails after the last one
+  RETRY_DELAYS_SECONDS: [60, 5 * 60, 30 * 60, 2 * 60 * 60, 6 * 60 * 60],
+  RETRY_BATCH_SIZE: 50,           // Pending deliveries retried per cron run
+  RETRY_CONCURRENCY: 5,
+  RETENTION_DAYS: 30,             // Delivered/failed rows are deleted after this many days
+  LIST_LIMIT: 20,                 // Recent deliveries shown by GET /profiles/:id/webhook
+  MAX_ERROR_LENGTH: 500,
+};
+
+// Idempotency-Key header on AI and payment routes (idempotent: true): retries within the TTL replay the stored response
+export const IDEMPOTENCY_CONFIG = {
+  HEADER: 'Idempotency-Key',
+  MAX_KEY_LENGTH: 255,
+  TTL_SECONDS: 24 * 60 * 60,
+  // A key still in progress after this long (worker died mid-request) may be reused
+  IN_PROGRESS_TIMEOUT_SECONDS: 15 * 60,
+};
+
+// Public list endpoints (/results, /selfies, /presets, /thumbnails, /profiles): newest first, paged with an opaque
+// ?cursor= (created_at, id of the last row) returned as pagination.next_cursor
+export const LIST_PAGINATION_CONFIG = {
+  DEFAULT_LIMIT: 50,
+  MAX_LIMIT: 100,
+};
+
+// Credit ledger (GET /api/user/ledger): newest entries first, paged with ?before=<entry id>
+export const CREDIT_LEDGER_CONFIG = {
+  LIST_LIMIT: 100,
+  ENTRY_TYPES: ['opening_balance', 'grant', 'deduct', 'refund', 'subscription_reset', 'expiry', 'adjustment'],
+};
+
+// Credit holds: AI endpoints hold credits before the provider call, then capture (result saved) or release (failure)
+export const CREDIT_HOLD_CONFIG = {
+  // Longest a request may hold credits before the sweep releases them (also covers async jobs and batches,
+  // which open their hold when they start running)
+  MAX_PROCESSING_SECONDS: 30 * 60,
+  SWEEP_BATCH_SIZE: 100,          // Expired holds released per cron run
+};
+
+// Subscription plan changes (upgrades/downgrades between subscription SKUs)
+// Env override: SUBSCRIPTION_PRORATION_MODE
+export const SUBSCRIPTION_CHANGE_CONFIG = {
+  // What happens to the current cycle's sub points:
+  // time: add (upgrade) or take (downgrade) the points_per_cycle difference for the share of the cycle left,
+  //       capped at the new points_per_cycle
+  // reset: start a new cycle with the new points_per_cycle
+  // keep: keep the current points; the new points_per_cycle applies from the next renewal
+  PRORATION_MODE: 'time' as 'time' | 'reset' | 'keep',
+};
+
+// Free daily allowance for profiles without a subscription (used by holdCredits)
+// Env overrides: FREE_ALLOWANCE_ACTIONS (JSON, e.g. {"aging": 3, "remove_text": 3}; {} disables the allowance),
+// FREE_ALLOWANCE_DAY_BOUNDARY ('utc' | 'local': the request's time zone from Cloudflare),
+// ALLOW_CONSUMABLE_WITHOUT_SUBSCRIPTION ('true' lets bought credits be spent without a subscription)
+export const FREE_ALLOWANCE_CONFIG = {
+  // Action (DEFAULT_CREDIT_COSTS key) -> free runs per day. A free run is used when the request is accepted
+  // and given back when it fails or its result is blocked.
+  ACTIONS: { aging: 2, remove_text: 2 } as Record<string, number>,
+  DAY_BOUNDARY: 'utc' as 'utc' | 'local',
+  ALLOW_CONSUMABLE_WITHOUT_SUBSCRIPTION: false,
+  RETENTION_DAYS: 7,
+};
+
+// Promo codes: consumable credits granted by code (POST /api/promo/redeem, managed under /admin/promo-codes)
+export const PROMO_CONFIG = {
+  CODE_PATTERN: /^[A-Z0-9_-]{4,32}$/,
+  MAX_CREDITS: 100000,
+  LIST_LIMIT: 100,
+};
+
+// Referral program: both profiles get consumable credits when the invitee makes its first purchase
+// Env overrides: REFERRAL_INVITER_CREDITS, REFERRAL_INVITEE_CREDITS
+export const REFERRAL_CONFIG = {
+  INVITER_CREDITS: 50,
+  INVITEE_CREDITS: 30,
+  CODE_LENGTH: 8,
+  REDEEM_WINDOW_SECONDS: 7 * 24 * 60 * 60,   // POST /api/referrals/redeem only for profiles younger than this
+  MAX_REWARDED_PER_INVITER: 100,               // Rewards stop (referrals are rejected) past this many
+  LIST_LIMIT: 50,
+};
+
+// Admin API (/admin/*, authenticated with ADMIN_API_KEY, separate from MOBILE_API_KEY)
+export const ADMIN_CONFIG = {
+  SEARCH_FIELDS: ['device_id', 'user_id', 'email', 'phone'],
+  LIST_LIMIT: 100,
+  MAX_CREDIT_ADJUSTMENT: 1000000,        // Largest |amount| of one POST /admin/profiles/:id/credits
+  AUDIT_PROFILE_ID: 'admin',             // audit_log.profile_id of admin actions that are not about one profile (searches)
+};
+
+// Preset catalog (categories, gender, tags, display order) in D1. Preset names following
+// [type]_[sub_category]_[gender]_[position] (e.g. face-swap_wedding_both_1) fill it on /process-thumbnail-zip;
+// admin edits are never overwritten by a later upload.
+export const PRESET_CATALOG_CONFIG = {
+  GENDERS: ['male', 'female', 'unisex'] as const,
+  // Gender segment of a preset name; a letter followed by digits (e.g. f1) counts as the letter
+  GENDER_ALIASES: { m: 'male', male: 'male', nam: 'male', f: 'female', female: 'female', nu: 'female', u: 'unisex', both: 'unisex', unisex: 'unisex', all: 'unisex' } as Record<string, 'male' | 'female' | 'unisex'>,
+  ID_PATTERN: /^[a-z0-9][a-z0-9.-]{0,63}$/,   // Category ids; sub-categories parsed from names are <category>.<sub_category>
+  TAG_PATTERN: /^[a-z0-9][a-z0-9 _-]{0,31}$/,
+  MAX_TAGS: 20,
+  MAX_TITLE_LENGTH: 100,
+  MAX_CREDIT_SURCHARGE: 1000,                  // Extra credits per run of a preset
+  DEFAULT_LOCALE: 'en',                        // Title used when the requested locale has none
+};
+
+// Preset usage analytics: runs are logged per preset and rolled up per UTC day every 10 minutes (WEBHOOK_RETRY cron)
+export const PRESET_ANALYTICS_CONFIG = {
+  WINDOWS: { '1d': 1, '7d': 7, '30d': 30, '90d': 90 } as Record<string, number>,
+  DEFAULT_WINDOW: '7d',
+  ROLLUP_DAYS: 3,               // Days (today included) recomputed on each rollup; covers missed cron runs
+  EVENT_RETENTION_DAYS: 7,
+  DAILY_RETENTION_DAYS: 400,
+  TRENDING_LIMIT: 20,
+  MAX_TRENDING_LIMIT: 50,
+  REPORT_LIMIT: 100,
+};
+
+// Selfie quality gate (POST /upload-url, type=selfie, for the actions below). Faces come from SELFIE_ANALYZER:
+// "vision" (Google Vision face detection, default), "local" (offline stand-in reporting SELFIE_LOCAL_FACE_COUNT faces,
+// default 1; also used when DISABLE_VISION_API or MOCK_IMAGE_PROVIDER is "true") or "off". Size and blur are measured
+// on the pixels.
+export const SELFIE_QUALITY_CONFIG = {
+  ACTIONS: ['faceswap', 'wedding', 'aging', 'beauty', 'expression', 'hair-style', 'hair_style'],
+  MAX_FACES: 10,                // Faces requested from Vision
+  MIN_FACE_CONFIDENCE: 0.5,     // Vision detections below this are ignored
+  LOCAL_FACE_RATIO: 0.4,        // Local analyzer: face box side as a share of the image's short side
+  MAX_DECODE_BYTES: 15 * 1024 * 1024, // Larger files skip the pixel checks (Worker memory)
+  ANALYSIS_LONG_SIDE: 512,      // Blur is measured on a copy scaled to this long side, whatever the resolution
+  SHARP_VARIANCE: 200,          // Laplacian variance of a sharp selfie at ANALYSIS_LONG_SIDE: blur = 1 - variance / this
+  BLUR_WARN: 0.75,
+  BLUR_REJECT: 0.9,
+  FACE_WARN_PX: 128,            // Width of the largest face in the uploaded image
+  FACE_REJECT_PX: 64,
+  SHORT_SIDE_WARN_PX: 512,
+  SHORT_SIDE_REJECT_PX: 256,
+};
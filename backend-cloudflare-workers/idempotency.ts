@@ -0,0 +1,53 @@
+// backend-cloudflare-workers/idempotency.ts
+// Idempotency-Key support: the first request claims (profile_id, key); retries replay its stored response
+import type { IdempotencyKeyRecord } from './types';
+import { IDEMPOTENCY_CONFIG } from './config';
+
+export type IdempotencyClaim =
+  | { kind: 'claimed' }                                   // First request (or the previous claim expired): run the handler
+  | { kind: 'replay'; status: number; body: string }      // Same key and request already completed
+  | { kind: 'mismatch' }                                  // Same key, different request
+  | { kind: 'in_progress' };                              // Same key and request still running
+
+// Hash of what makes two requests "the same": method, path and the validated body
+export const hashIdempotentRequest = async (method: string, path: string, body: unknown): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${method} ${path}\n${JSON.stringify(body ?? null)}`));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const claimIdempotencyKey = async (DB: D1Database, profileId: string, key: string, requestHash: string): Promise<IdempotencyClaim> => {
+  const now = Math.floor(Date.now() / 1000);
+  // Insert, or take over a row that expired or was abandoned mid-request
+  const claim = await DB.prepare(
+    `INSERT INTO idempotency_keys (profile_id, idempotency_key, request_hash, status, created_at, expires_at) VALUES (?, ?, ?, 'in_progress', ?, ?)
+     ON CONFLICT(profile_id, idempotency_key) DO UPDATE SET request_hash = excluded.request_hash, status = 'in_progress', response_status = NULL,
+       response_body = NULL, created_at = excluded.created_at, expires_at = excluded.expires_at
+     WHERE idempotency_keys.expires_at <= ? OR (idempotency_keys.status = 'in_progress' AND idempotency_keys.created_at <= ?)`
+  ).bind(profileId, key, requestHash, now, now + IDEMPOTENCY_CONFIG.TTL_SECONDS, now, now - IDEMPOTENCY_CONFIG.IN_PROGRESS_TIMEOUT_SECONDS).run();
+  if (claim.meta?.changes) return { kind: 'claimed' };
+
+  const existing = await DB.prepare(
+    'SELECT * FROM idempotency_keys WHERE profile_id = ? AND idempotency_key = ?'
+  ).bind(profileId, key).first() as IdempotencyKeyRecord | null;
+  if (!existing) return { kind: 'in_progress' }; // Deleted between the two statements; the client retries
+  if (existing.request_hash !== requestHash) return { kind: 'mismatch' };
+  if (existing.status !== 'completed' || existing.response_status === null) return { kind: 'in_progress' };
+  return { kind: 'replay', status: existing.response_status, body: existing.response_body || '' };
+};
+
+// Outcomes that depend on state the client can fix (profile token, balance, rate limit) or on transient
+// failures are not stored, so a retry with the same key runs again
+const isReplayableStatus = (status: number): boolean => status < 500 && status !== 401 && status !== 402 && status !== 429;
+
+export const completeIdempotencyKey = async (DB: D1Database, profileId: string, key: string, response: Response): Promise<void> => {
+  if (!isReplayableStatus(response.status)) {
+    await response.body?.cancel();
+    await DB.prepare(
+      'DELETE FROM idempotency_keys WHERE profile_id = ? AND idempotency_key = ? AND status = \'in_progress\''
+    ).bind(profileId, key).run();
+    return;
+  }
+  await DB.prepare(
+    'UPDATE idempotency_keys SET status = \'completed\', response_status = ?, response_body = ? WHERE profile_id = ? AND idempotency_key = ?'
+  ).bind(response.status, await response.text(), profileId, key).run();
+};
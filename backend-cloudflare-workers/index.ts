@@ -3,11 +3,38 @@
 import { customAlphabet } from 'nanoid';
 const nanoid = customAlphabet('ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789_', 21);
 import JSZip from 'jszip';
-import type { Env, FaceSwapRequest, FaceSwapResponse, Profile, BackgroundRequest, DeviceRegisterRequest, SilentPushRequest, DepositRequest, SubscriptionVerifyRequest, BalanceResponse } from './types';
-import { CORS_HEADERS, getCorsHeaders, jsonResponse, errorResponse, successResponse, validateImageUrl, fetchWithTimeout, getImageDimensions, getClosestAspectRatio, resolveAspectRatio, promisePoolWithConcurrency, normalizePresetId, purgeCdnCache, getCreditCost, DEFAULT_CREDIT_COSTS, auditLog } from './utils';
-import { callFaceSwap, callNanoBanana, callNanoBananaMerge, checkSafeSearch, checkImageSafetyWithFlashLite, generateVertexPrompt, callUpscaler4k, callWaveSpeedSeedreamEdit, callWaveSpeedBriaEraser, callWaveSpeedEdit, callWaveSpeedGeminiImageEdit, sendFcmSilentPush, sendResultNotification, verifyGooglePlayPurchase, acknowledgeGooglePlayPurchase, verifyGooglePlaySubscription, acknowledgeGooglePlaySubscription } from './services';
-import { validateEnv, validateRequest } from './validators';
-import { VERTEX_AI_PROMPTS, IMAGE_PROCESSING_PROMPTS, ASPECT_RATIO_CONFIG, CACHE_CONFIG, TIMEOUT_CONFIG, WAVESPEED_PROMPTS, GOOGLE_PLAY_CONFIG, API_ENDPOINTS } from './config';
+import type { Env, FaceSwapRequest, FaceSwapResponse, Profile, BackgroundRequest, DeviceRegisterRequest, SilentPushRequest, DepositRequest, SubscriptionVerifyRequest, AppStorePurchaseRequest, StripeCheckoutRequest, StripeCheckoutSession, StripeCharge, StripeEvent, PromoCode, PromoRedemption, PromoRedeemRequest, PromoCodeCreateRequest, ReferralRedeemRequest, AdminCreditAdjustRequest, AdminActionRequest, AuditLogEntry, Payment, Subscription, SubscriptionChangeSource, PresetCatalogEntry, PresetCatalogUpdateRequest, PresetCategoryRequest, PresetPricing, PresetUsageOutcome, BalanceResponse, Job, JobQueueMessage, FaceSwapBatchRequest, FaceSwapBatch, FaceSwapBatchItem, FaceSwapBatchItemStatus, WebhookDelivery, CreditLedgerLinks, CreditLedgerEntry } from './types';
+import { CORS_HEADERS, getCorsHeaders, jsonResponse, errorResponse, successResponse, validationErrorResponse, validateImageUrl, fetchWithTimeout, getImageDimensions, getClosestAspectRatio, resolveAspectRatio, promisePoolWithConcurrency, normalizePresetId, purgeCdnCache, getCreditCost, DEFAULT_CREDIT_COSTS, CREDIT_REASON_CODES, auditLog } from './utils';
+import { callFaceSwap, checkSafeSearch, checkImageSafetyWithFlashLite, generateVertexPrompt, sendFcmSilentPush, sendResultNotification, verifyGooglePlayPurchase, acknowledgeGooglePlayPurchase, verifyGooglePlaySubscription, acknowledgeGooglePlaySubscription } from './services';
+import {
+  validateBody, FACESWAP_SCHEMA, FACESWAP_BATCH_SCHEMA, BACKGROUND_SCHEMA, IMAGE_EDIT_SCHEMA, PRESET_EDIT_SCHEMA, HAIR_STYLE_SCHEMA, REMOVE_OBJECT_SCHEMA,
+  EXPRESSION_SCHEMA, EDITOR_SCHEMA, REPLACE_OBJECT_SCHEMA, UPSCALER4K_SCHEMA, UPLOAD_URL_SCHEMA, MULTIPART_CREATE_SCHEMA, MULTIPART_COMPLETE_SCHEMA,
+  MULTIPART_ABORT_SCHEMA, PROFILE_CREATE_SCHEMA, PROFILE_UPDATE_SCHEMA, DEVICE_REGISTER_SCHEMA, DEVICE_UNREGISTER_SCHEMA, SILENT_PUSH_SCHEMA,
+  DEPOSIT_SCHEMA, SUBSCRIPTION_VERIFY_SCHEMA, APP_STORE_PURCHASE_SCHEMA, STRIPE_CHECKOUT_SCHEMA, PROMO_REDEEM_SCHEMA, PROMO_CODE_CREATE_SCHEMA, PROMO_REVERSE_SCHEMA, LIST_PROMO_CODES_QUERY, REFERRAL_REDEEM_SCHEMA, ADMIN_CREDIT_ADJUST_SCHEMA, ADMIN_ACTION_SCHEMA, ADMIN_PROFILE_SEARCH_QUERY, ADMIN_LIST_QUERY, ADMIN_AUDIT_LOG_QUERY, WEBHOOK_SETTINGS_SCHEMA, PROFILE_QUERY, LIST_PRESETS_QUERY, TRENDING_PRESETS_QUERY, ADMIN_PRESET_USAGE_QUERY, LIST_SELFIES_QUERY, LIST_RESULTS_QUERY, LIST_PAGE_QUERY, PRESET_CATEGORY_SCHEMA, PRESET_CATALOG_UPDATE_SCHEMA, LIST_JOBS_QUERY,
+  CREDIT_LEDGER_QUERY, MULTIPART_PART_QUERY, R2_UPLOAD_QUERY,
+} from './validators';
+import { buildOpenApiDocument } from './openapi';
+import { resolveImageProvider, resolveImageProviderChain, runImageProviderChain } from './providers';
+import type { ImageProvider, ImageProviderMode, ImageProviderRequest } from './providers';
+import { sendResultWebhook, retryWebhookDeliveries, getWebhookSecret, formatWebhookDelivery } from './webhooks';
+import { verifyAppStoreTransaction, verifyAppStoreSubscription, verifyAppStoreNotification } from './appstore';
+import { createStripeCheckoutSession, verifyStripeSignature, toStripeAmount } from './stripe';
+import { redeemPromoCode, reversePromoRedemption, normalizePromoCode, formatPromoCode, formatPromoRedemption } from './promo';
+import { getOrCreateReferralCode, redeemReferralCode, rewardReferral, reverseReferralReward, getReferralRewards, getReferralStats } from './referrals';
+import { searchProfiles, setProfileBanned, forceExpireSubscription, formatAdminProfile, formatAdminPayment, formatAdminSubscription, formatAuditLogEntry } from './admin';
+import { syncVoidedPurchases } from './voided';
+import { PRESET_UPSERT_SQL, applyPresetNameToCatalog, resolveCatalogLocale, getPresetTags, updatePresetCatalog, upsertPresetCategory, listPresetCategories, formatPresetCategory, formatPresetCategoryTree, formatPresetCatalog, getPresetPricing, VISIBLE_PRESET_CONDITIONS } from './catalog';
+import { recordPresetUsage, getPresetUsageOutcome, resolveUsageModel, rollupPresetUsage, getUsageWindowStart, getTrendingPresets, getPresetUsageReport, formatPresetUsage } from './analytics';
+import type { PresetUsageReportSort } from './analytics';
+import { isSelfieQualityAction, getSelfieAnalyzer, analyzeSelfie, gateSelfie } from './selfies';
+import type { SelfieGateOutcome } from './selfies';
+import { parseListQuery, buildListWhere, listOrderAndLimit, countListRows, paginateRows } from './pagination';
+import { getFreeAllowanceActions, allowsConsumableWithoutSubscription, getAllowanceDay, claimFreeAllowance, releaseFreeAllowance, getFreeAllowanceRemaining } from './allowance';
+import { hashIdempotentRequest, claimIdempotencyKey, completeIdempotencyKey } from './idempotency';
+import { applyCreditChange, openCreditHold, settleCreditHold, captureCreditHold, releaseExpiredCreditHolds, getHeldCredits, reconcileCreditLedger, formatCreditLedgerEntry } from './ledger';
+import { compileRoutes, matchRoute, decodePathParam, DEFAULT_MAX_BODY_BYTES, LARGE_UPLOAD_MAX_BODY_BYTES } from './router';
+import type { RouteContext, RouteDefinition } from './router';
+import { VERTEX_AI_PROMPTS, IMAGE_PROCESSING_PROMPTS, ASPECT_RATIO_CONFIG, CACHE_CONFIG, TIMEOUT_CONFIG, WAVESPEED_PROMPTS, GOOGLE_PLAY_CONFIG, API_ENDPOINTS, JOB_CONFIG, FACESWAP_BATCH_CONFIG, WEBHOOK_CONFIG, SCHEDULED_CRONS, IDEMPOTENCY_CONFIG, CREDIT_LEDGER_CONFIG, CREDIT_HOLD_CONFIG, APP_STORE_CONFIG, STRIPE_CONFIG, PROMO_CONFIG, REFERRAL_CONFIG, FREE_ALLOWANCE_CONFIG, ADMIN_CONFIG, SUBSCRIPTION_CHANGE_CONFIG, PRESET_CATALOG_CONFIG, PRESET_ANALYTICS_CONFIG } from './config';
 
 // Retry helper for Vertex AI prompt generation - MUST succeed before uploading to R2
 const generateVertexPromptWithRetry = async (
@@ -176,6 +203,16 @@ const checkApiKey = (env: Env, request: Request): boolean => {
   return constantTimeCompare(apiKey, env.MOBILE_API_KEY);
 };
 
+// Admin routes: X-Admin-Key / Bearer ADMIN_API_KEY, always required (admin routes are disabled while it is unset)
+const checkAdminKey = (env: Env, request: Request): boolean => {
+  const adminKey = request.headers.get('X-Admin-Key') ||
+                   request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!adminKey || !env.ADMIN_API_KEY) {
+    return false;
+  }
+  return constantTimeCompare(adminKey, String(env.ADMIN_API_KEY));
+};
+
 // Profile token: HMAC-SHA256 binding profile_id to a secret, prevents profile_id spoofing.
 // Client receives profile_token on profile creation, must send it as X-Profile-Token header.
 // Enable via ENABLE_PROFILE_TOKEN_AUTH=true
@@ -198,31 +235,6 @@ const checkProfileToken = async (env: Env, request: Request, profileId: string |
   return verifyProfileToken(profileId, token, env.PROFILE_TOKEN_SECRET);
 };
 
-const PROTECTED_MOBILE_APIS = [
-  '/upload-url',
-  '/faceswap',
-  '/background',
-  '/enhance',
-  '/beauty',
-  '/filter',
-  '/restore',
-  '/aging',
-  '/upscaler4k',
-  '/remove-object',
-  '/expression',
-  '/expand',
-  '/replace-object',
-  '/remove-text',
-  '/editor',
-  '/hair-style',
-  '/profiles',
-  '/api/products',
-  '/api/user/balance',
-  '/api/deposit',
-  '/api/subscription/verify',
-  '/api/subscription/status',
-];
-
 const checkRequestSize = (request: Request, maxSizeBytes: number): { valid: boolean; error?: string } => {
   const contentLength = request.headers.get('Content-Length');
   if (contentLength) {
@@ -292,30 +304,27 @@ const resolveAspectRatioForNonFaceswap = async (
   return resolveAspectRatio(aspectRatio, selfieImageUrl, env, { allowOriginal: true });
 };
 
-// Credit deduction helpers (saga pattern: deduct before AI, refund on failure)
+// Credit hold helpers (hold before AI, capture when the result is saved, release on failure)
 const CYCLE_DURATION_SECONDS = 30 * 86400; // 30 days
 
-// Credit status codes (numeric, predefined between client & server)
-// 4010 - invalid token
-// 4020 - profile not found
-// 4030 - account banned
-// 4040 - subscription on hold
-// 4050 - grace expired
-// 4060 - no subscription
-// 4070 - insufficient credits
-// 4080 - concurrent conflict
-
-const deductCredits = async (
-  db: D1Database, profileId: string, action: string, env: Env, request: Request
-): Promise<{ success: boolean; cost: number; fromSub: number; fromConsumable: number; balance: number; error?: string; reason?: number; subscription_status?: string }> => {
+// Credit status codes: CREDIT_REASON_CODES (utils.ts), returned as `reason` with HTTP 402
+
+// quantity > 1 holds credits for several runs of the same action in one hold (batch endpoints). pricing is what the
+// presets used add: a premium preset needs an ACTIVE subscription, and the surcharge is added to the cost.
+// holdId must be settled with captureCreditHold or releaseCredits; otherwise scheduled() releases it after
+// CREDIT_HOLD_CONFIG.MAX_PROCESSING_SECONDS. A free run (free, freeDay) is given back with releaseCreditCheck.
+const holdCredits = async (
+  db: D1Database, profileId: string, action: string, env: Env, request: Request<unknown, IncomingRequestCfProperties>, quantity: number = 1, links: CreditLedgerLinks = {},
+  pricing: PresetPricing | null = null
+): Promise<{ success: boolean; cost: number; fromSub: number; fromConsumable: number; balance: number; holdId?: string | null; free?: boolean; freeDay?: string; error?: string; reason?: number; subscription_status?: string }> => {
   // Verify profile token binding (prevents profile_id spoofing)
   if (!(await checkProfileToken(env, request, profileId))) {
-    return { success: false, cost: 0, fromSub: 0, fromConsumable: 0, balance: 0, error: 'Invalid profile token', reason: 4010 };
+    return { success: false, cost: 0, fromSub: 0, fromConsumable: 0, balance: 0, error: 'Invalid profile token', reason: CREDIT_REASON_CODES.INVALID_TOKEN };
   }
 
-  const profile = await db.prepare('SELECT sub_point_remaining, consumable_point_remaining, is_banned FROM profiles WHERE id = ?').bind(profileId).first() as any;
-  if (!profile) return { success: false, cost: 0, fromSub: 0, fromConsumable: 0, balance: 0, error: 'Profile not found', reason: 4020 };
-  if (profile.is_banned) return { success: false, cost: 0, fromSub: 0, fromConsumable: 0, balance: 0, error: 'Account is banned', reason: 4030 };
+  const profile = await db.prepare('SELECT sub_point_remaining, consumable_point_remaining, is_banned, device_id FROM profiles WHERE id = ?').bind(profileId).first() as any;
+  if (!profile) return { success: false, cost: 0, fromSub: 0, fromConsumable: 0, balance: 0, error: 'Profile not found', reason: CREDIT_REASON_CODES.PROFILE_NOT_FOUND };
+  if (profile.is_banned) return { success: false, cost: 0, fromSub: 0, fromConsumable: 0, balance: 0, error: 'Account is banned', reason: CREDIT_REASON_CODES.ACCOUNT_BANNED };
 
   // Step 1-2: Check subscription status (include ON_HOLD to detect and zero out sub points)
   const sub = await db.prepare(
@@ -330,7 +339,7 @@ const deductCredits = async (
     // ON_HOLD → user lost access, zero sub points
     if (sub.status === 'ON_HOLD') {
       if (subPoints > 0) {
-        await db.prepare('UPDATE profiles SET sub_point_remaining = 0, updated_at = ? WHERE id = ?').bind(now.toString(), profileId).run();
+        await applyCreditChange(db, { profileId, type: 'expiry', setSub: 0, subscription_id: sub.id, note: 'Subscription on hold' });
         subPoints = 0;
       }
       subscriptionStatus = 'ON_HOLD';
@@ -338,21 +347,21 @@ const deductCredits = async (
     // Step 2: Grace period expired → mark EXPIRED, zero out sub points
     else if (sub.status === 'GRACE' && now > sub.expires_at) {
       await db.prepare('UPDATE subscriptions SET status = \'EXPIRED\', updated_at = unixepoch() WHERE id = ?').bind(sub.id).run();
-      await db.prepare('UPDATE profiles SET sub_point_remaining = 0, updated_at = ? WHERE id = ?').bind(now.toString(), profileId).run();
+      await applyCreditChange(db, { profileId, type: 'expiry', setSub: 0, subscription_id: sub.id, note: 'Grace period expired' });
       subPoints = 0;
       subscriptionStatus = 'EXPIRED';
     }
     // Step 3: Active → lazy reset if now >= last_reset_at + 30 days
     else if (sub.status === 'ACTIVE' && now >= sub.last_reset_at + CYCLE_DURATION_SECONDS) {
       subPoints = sub.points_per_cycle;
-      await db.prepare('UPDATE profiles SET sub_point_remaining = ?, updated_at = ? WHERE id = ?').bind(subPoints, now.toString(), profileId).run();
+      await applyCreditChange(db, { profileId, type: 'subscription_reset', setSub: subPoints, subscription_id: sub.id, note: `Cycle ${sub.cycle_count_used + 1} (lazy reset)` });
       await db.prepare('UPDATE subscriptions SET last_reset_at = ?, cycle_count_used = cycle_count_used + 1, updated_at = unixepoch() WHERE id = ?').bind(now, sub.id).run();
       await auditLog(db, profileId, 'SUB_LAZY_RESET', { points_per_cycle: sub.points_per_cycle, cycle: sub.cycle_count_used + 1 }, null);
     }
   } else {
     // No active/grace subscription → sub points should be 0
     if (subPoints > 0) {
-      await db.prepare('UPDATE profiles SET sub_point_remaining = 0, updated_at = ? WHERE id = ?').bind(now.toString(), profileId).run();
+      await applyCreditChange(db, { profileId, type: 'expiry', setSub: 0, note: 'No active subscription' });
       subPoints = 0;
     }
     subscriptionStatus = 'NONE';
@@ -361,86 +370,100 @@ const deductCredits = async (
   // Determine cost (use 'subscriber' tier if active/grace sub with access, else 'free')
   const hasAccess = sub && (sub.status === 'ACTIVE' || (sub.status === 'GRACE' && now <= sub.expires_at));
 
-  // Block all point usage without active subscription
+  const country = request.headers.get('CF-IPCountry') || '';
+  const ip = request.headers.get('cf-connecting-ip') || null;
+
+  // Premium presets are not covered by the free allowance or bought credits, and not during grace or hold
+  if (pricing?.subscriberOnly && sub?.status !== 'ACTIVE') {
+    return { success: false, cost: 0, fromSub: 0, fromConsumable: 0, balance: subPoints + profile.consumable_point_remaining, reason: CREDIT_REASON_CODES.SUBSCRIBER_ONLY_PRESET, subscription_status: subscriptionStatus };
+  }
+
+  // Without a subscription: a free daily run of a cheap action, else bought credits when the policy allows it
   if (!hasAccess) {
-    let reason = 4060; // no active subscription
-    if (sub?.status === 'ON_HOLD') reason = 4040;
-    else if (subscriptionStatus === 'EXPIRED') reason = 4050;
-    return { success: false, cost: 0, fromSub: 0, fromConsumable: 0, balance: subPoints + profile.consumable_point_remaining, reason, subscription_status: subscriptionStatus };
+    let reason: number = CREDIT_REASON_CODES.NO_SUBSCRIPTION;
+    if (sub?.status === 'ON_HOLD') reason = CREDIT_REASON_CODES.SUBSCRIPTION_ON_HOLD;
+    else if (subscriptionStatus === 'EXPIRED') reason = CREDIT_REASON_CODES.GRACE_EXPIRED;
+
+    const freeLimit = getFreeAllowanceActions(env)[action] ?? 0;
+    if (freeLimit > 0 && quantity === 1 && !pricing?.surcharge) {
+      const day = getAllowanceDay(env, request);
+      if (await claimFreeAllowance(db, profileId, profile.device_id || null, action, day, freeLimit)) {
+        await auditLog(db, profileId, 'FREE_ALLOWANCE_USE', { action, day, limit: freeLimit, country: country || undefined }, ip);
+        return { success: true, cost: 0, fromSub: 0, fromConsumable: 0, balance: subPoints + profile.consumable_point_remaining, free: true, freeDay: day, subscription_status: subscriptionStatus };
+      }
+      if (reason === CREDIT_REASON_CODES.NO_SUBSCRIPTION) reason = CREDIT_REASON_CODES.FREE_ALLOWANCE_USED;
+    }
+
+    // Otherwise block all point usage (sub points are already 0, so a consumable-only hold follows when allowed)
+    if (!allowsConsumableWithoutSubscription(env)) {
+      return { success: false, cost: 0, fromSub: 0, fromConsumable: 0, balance: subPoints + profile.consumable_point_remaining, reason, subscription_status: subscriptionStatus };
+    }
   }
 
   const tier = hasAccess ? 'subscriber' : 'free';
-  const country = request.headers.get('CF-IPCountry') || '';
-  const cost = getCreditCost(action, tier, env, country);
+  const cost = getCreditCost(action, tier, env, country) * quantity + (pricing?.surcharge || 0);
   const totalAvailable = subPoints + profile.consumable_point_remaining;
 
-  // Free actions (cost = 0) skip deduction entirely
+  // Free actions (cost = 0) skip the hold entirely
   if (cost === 0) {
     return { success: true, cost: 0, fromSub: 0, fromConsumable: 0, balance: totalAvailable, };
   }
 
   // Step 4: Fail fast
   if (totalAvailable < cost) {
-    let reason = 4070; // insufficient credits
-    if (sub?.status === 'ON_HOLD') reason = 4040;
-    else if (subscriptionStatus === 'EXPIRED') reason = 4050;
-    else if (subscriptionStatus === 'NONE') reason = 4060;
+    let reason: number = CREDIT_REASON_CODES.INSUFFICIENT_CREDITS;
+    if (sub?.status === 'ON_HOLD') reason = CREDIT_REASON_CODES.SUBSCRIPTION_ON_HOLD;
+    else if (subscriptionStatus === 'EXPIRED') reason = CREDIT_REASON_CODES.GRACE_EXPIRED;
+    else if (subscriptionStatus === 'NONE') reason = CREDIT_REASON_CODES.NO_SUBSCRIPTION;
     return { success: false, cost, fromSub: 0, fromConsumable: 0, balance: totalAvailable, reason };
   }
 
-  // Step 5: Deduct sub first, remainder from consumable — ATOMIC with WHERE guard
+  // Step 5: Hold sub first, remainder from consumable — ATOMIC with WHERE guard
   const fromSub = Math.min(subPoints, cost);
   const fromConsumable = cost - fromSub;
 
-  const result = await db.prepare(
-    'UPDATE profiles SET sub_point_remaining = sub_point_remaining - ?, consumable_point_remaining = consumable_point_remaining - ?, total_credits_spent = total_credits_spent + ?, updated_at = ? WHERE id = ? AND sub_point_remaining >= ? AND consumable_point_remaining >= ?'
-  ).bind(fromSub, fromConsumable, cost, now.toString(), profileId, fromSub, fromConsumable).run();
+  const result = await openCreditHold(db, {
+    ...links, profileId, type: 'deduct', sub: -fromSub, consumable: -fromConsumable, spent: cost, action,
+    note: quantity > 1 ? `${quantity} × ${action}` : null,
+  }, now + CREDIT_HOLD_CONFIG.MAX_PROCESSING_SECONDS);
 
-  if (!result.meta?.changes || result.meta.changes === 0) {
-    return { success: false, cost, fromSub: 0, fromConsumable: 0, balance: 0, reason: 4080 };
+  if (!result.applied || !result.holdId) {
+    return { success: false, cost, fromSub: 0, fromConsumable: 0, balance: 0, reason: CREDIT_REASON_CODES.CONCURRENT_CONFLICT };
   }
 
-  const ip = request.headers.get('cf-connecting-ip') || null;
-  await auditLog(db, profileId, 'CREDIT_DEDUCT', { action, cost, from_sub: fromSub, from_consumable: fromConsumable, balance_before: totalAvailable, country: country || undefined }, ip);
+  await auditLog(db, profileId, 'CREDIT_DEDUCT', { action, cost, quantity: quantity > 1 ? quantity : undefined, surcharge: pricing?.surcharge || undefined, from_sub: fromSub, from_consumable: fromConsumable, balance_before: totalAvailable, country: country || undefined }, ip);
 
-  return { success: true, cost, fromSub, fromConsumable, balance: totalAvailable - cost, };
+  return { success: true, cost, fromSub, fromConsumable, balance: totalAvailable - cost, holdId: result.holdId };
 };
 
-const refundCredits = async (
-  db: D1Database, profileId: string, action: string, fromSub: number, fromConsumable: number, reason: string, request: Request
+// Release all or part of a hold back to the pools it was taken from; the rest of it is captured
+const releaseCredits = async (
+  db: D1Database, profileId: string, action: string, holdId: string | null | undefined, reason: string, request: Request | null,
+  portion?: { sub: number; consumable: number }
 ): Promise<void> => {
-  const cost = fromSub + fromConsumable;
-  if (cost <= 0) return;
-  // Refund to exact same pools the points were deducted from
-  await db.prepare('UPDATE profiles SET sub_point_remaining = sub_point_remaining + ?, consumable_point_remaining = consumable_point_remaining + ?, total_credits_spent = total_credits_spent - ?, updated_at = ? WHERE id = ?')
-    .bind(fromSub, fromConsumable, cost, Math.floor(Date.now() / 1000).toString(), profileId).run();
-  const ip = request.headers.get('cf-connecting-ip') || null;
-  await auditLog(db, profileId, 'CREDIT_REFUND', { action, cost, reason }, ip);
+  const settled = await settleCreditHold(db, holdId, { release: portion || 'all', note: reason });
+  if (!settled || (portion && portion.sub + portion.consumable <= 0)) return;
+  const ip = request?.headers.get('cf-connecting-ip') || null;
+  await auditLog(db, profileId, 'CREDIT_REFUND', { action, hold_id: holdId, ...(portion ? { cost: portion.sub + portion.consumable } : {}), reason }, ip);
 };
 
-const trimTrailingSlash = (value: string) => value.replace(/\/+$/, '');
-
-// Extract ID from path parameter (e.g., /profiles/{id} -> id)
-const extractPathId = (path: string, prefix: string): string | null => {
-  if (!path.startsWith(prefix)) return null;
-  const parts = path.split(prefix);
-  if (parts.length < 2) return null;
-  const idPart = parts[1].split('/').filter(p => p)[0] || parts[1].split('?')[0];
-  return idPart && idPart.trim() ? idPart.trim() : null;
-};
-
-const extractResultIdFromPath = (path: string): string | null => {
-  const prefix = '/results/';
-  if (!path.startsWith(prefix)) return null;
-  const after = path.slice(prefix.length).split('?')[0];
-  if (!after || !after.trim()) return null;
-  try {
-    return decodeURIComponent(after.trim());
-  } catch {
-    return after.trim();
+// Give back what holdCredits took for a request that failed or was blocked: the hold, or the free run
+const releaseCreditCheck = async (
+  db: D1Database, profileId: string, action: string, creditResult: { success: boolean; cost: number; holdId?: string | null; freeDay?: string } | null | undefined,
+  reason: string, request: Request | null
+): Promise<void> => {
+  if (!creditResult?.success) return;
+  if (creditResult.cost > 0) {
+    await releaseCredits(db, profileId, action, creditResult.holdId, reason, request);
+  } else if (creditResult.freeDay && await releaseFreeAllowance(db, profileId, action, creditResult.freeDay)) {
+    const ip = request?.headers.get('cf-connecting-ip') || null;
+    await auditLog(db, profileId, 'FREE_ALLOWANCE_RELEASE', { action, day: creditResult.freeDay, reason }, ip);
   }
 };
 
+const trimTrailingSlash = (value: string) => value.replace(/\/+$/, '');
+
+// Extract ID from path parameter (e.g., /profiles/{id} -> id)
 const getR2Bucket = (env: Env): R2Bucket => {
   const bindingName = env.R2_BUCKET_BINDING || env.R2_BUCKET_NAME || DEFAULT_R2_BUCKET_NAME;
   const bucket = (env as any)[bindingName] as R2Bucket;
@@ -529,6 +552,15 @@ const ensureSystemSelfie = async (DB: D1Database, profileId: string, imageUrl: s
   }
 };
 
+// Results kept per profile (RESULT_MAX_HISTORY, default 10); the oldest are deleted when a new one is saved
+const getResultMaxHistory = (env: Env): number => {
+  const maxHistory = parseInt(env.RESULT_MAX_HISTORY || '10', 10);
+  if (isNaN(maxHistory) || maxHistory < 1) {
+    return 10;
+  }
+  return Math.floor(Math.max(1, maxHistory));
+};
+
 const saveResultToDatabase = async (
   DB: D1Database,
   resultUrl: string,
@@ -536,7 +568,10 @@ const saveResultToDatabase = async (
   env: Env,
   R2_BUCKET: R2Bucket,
   action?: string,
-  request?: Request
+  request?: Request,
+  provider?: string,
+  presetId?: string | null,
+  model?: string | null
 ): Promise<string | null> => {
   try {
     // Check if this is an external URL (WaveSpeed cloudfront, etc.)
@@ -584,12 +619,7 @@ const saveResultToDatabase = async (
       return existingResult.id;
     }
 
-    // Get max history limit (default 10)
-    let maxHistory = parseInt(env.RESULT_MAX_HISTORY || '10', 10);
-    if (isNaN(maxHistory) || maxHistory < 1) {
-      maxHistory = 10;
-    }
-    maxHistory = Math.floor(Math.max(1, maxHistory));
+    const maxHistory = getResultMaxHistory(env);
 
     // Check current count of results for this profile
     const countResult = await DB.prepare(
@@ -651,8 +681,8 @@ const saveResultToDatabase = async (
 
     // Insert new result
     const insertResult = await DB.prepare(
-      'INSERT INTO results (id, ext, profile_id, action, created_at) VALUES (?, ?, ?, ?, ?)'
-    ).bind(id, ext, profileId, action || null, Math.floor(Date.now() / 1000)).run();
+      'INSERT INTO results (id, ext, profile_id, action, provider, preset_id, model, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    ).bind(id, ext, profileId, action || null, provider || null, presetId || null, model || null, Math.floor(Date.now() / 1000)).run();
 
     if (insertResult.success) {
       return id;
@@ -841,6 +871,18 @@ const extractR2KeyFromUrl = (url: string): string | null => {
   }
 };
 
+// preset_image_url of one of our preset images (the original or a thumbnail, all named <preset id>.<ext>): its catalog
+// row, so the preset's premium flag and surcharge apply as they do with preset_image_id. undefined when the URL is not
+// a preset image, null when it is one whose preset is not in the catalog.
+type PresetImageRow = Pick<PresetCatalogEntry, 'id' | 'ext' | 'is_premium' | 'credit_surcharge'>;
+const findPresetByImageUrl = async (DB: D1Database, url: string): Promise<PresetImageRow | null | undefined> => {
+  const key = extractR2KeyFromUrl(url);
+  if (!key || !/^(preset|presets|preset_thumb)\//.test(key)) return undefined;
+  const filename = key.split('/').pop() || '';
+  const presetId = filename.includes('.') ? filename.slice(0, filename.lastIndexOf('.')) : filename;
+  return await DB.prepare('SELECT id, ext, is_premium, credit_surcharge FROM presets WHERE id = ?').bind(presetId).first<PresetImageRow>();
+};
+
 // Removed redundant wrapper functions - use getR2PublicUrl directly
 
 // Detect flat/solid color images to prevent abuse (blank canvas uploads used to generate inappropriate content)
@@ -971,22 +1013,6 @@ const isDebugEnabled = (env: Env): boolean => {
   return env.ENABLE_DEBUG_RESPONSE === 'true';
 };
 
-type ImageProviderMode = 'FACESWAP' | 'FILTER' | 'AGING' | 'RESTORE' | 'BEAUTY' | 'ENHANCE' | 'MERGE' | 'REMOVE_OBJECT' | 'EXPRESSION' | 'EXPAND' | 'REPLACE_OBJECT' | 'REMOVE_TEXT' | 'HAIR_STYLE' | 'EDITOR';
-const WAVESPEED_DEFAULT_MODES: ImageProviderMode[] = ['FACESWAP', 'FILTER', 'AGING', 'RESTORE', 'BEAUTY', 'REMOVE_OBJECT', 'EXPRESSION', 'EXPAND', 'REPLACE_OBJECT', 'REMOVE_TEXT', 'HAIR_STYLE', 'EDITOR'];
-const GEMINI_IMAGE_DEFAULT_MODES: ImageProviderMode[] = ['ENHANCE'];
-const getEffectiveProvider = (body: { provider?: string } | undefined, env: Env, mode: ImageProviderMode): string => {
-  const fromBody = body?.provider != null && String(body.provider).trim() !== '' ? String(body.provider).trim() : null;
-  if (fromBody) return fromBody;
-  const modeKey = 'IMAGE_PROVIDER_' + mode;
-  const fromMode = env[modeKey];
-  if (fromMode != null && String(fromMode).trim() !== '') return String(fromMode).trim();
-  // Mode-specific defaults take priority over global IMAGE_PROVIDER
-  if (GEMINI_IMAGE_DEFAULT_MODES.includes(mode)) return 'wavespeed_gemini_2_5_flash_image';
-  if (WAVESPEED_DEFAULT_MODES.includes(mode)) return 'wavespeed';
-  if (env.IMAGE_PROVIDER != null && String(env.IMAGE_PROVIDER).trim() !== '') return String(env.IMAGE_PROVIDER).trim();
-  return 'vertex';
-};
-
 // Build a single flat debug object - no nested provider/vertex structure
 const buildFlatDebug = (result: FaceSwapResponse, promptPayload?: any): Record<string, any> | undefined => {
   const debug = (result as any).Debug;
@@ -1119,1814 +1145,1649 @@ const transformPromptForFilter = (promptPayload: any): any => {
   return promptPayload;
 };
 
-export default {
-  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-    const DB = getD1Database(env);
-    const R2_BUCKET = getR2Bucket(env);
-    const requestUrl = new URL(request.url);
-    const path = requestUrl.pathname;
-    const corsHeaders = getCorsHeaders(request, env);
+// ---- Async jobs ----
+// AI endpoints accept "async": true: the request is stored in the jobs table and re-dispatched
+// internally (same handler, server-side credentials) so the client can poll GET /jobs/:id.
+const internalJobRequests = new WeakMap<Request, string>(); // internal request -> job id
 
-    if (request.method === 'OPTIONS') {
-      if (path.startsWith('/upload-proxy/')) {
-        return new Response(null, { 
-          status: 204, 
-          headers: { 
-            ...corsHeaders, 
-            'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-            'Access-Control-Max-Age': '86400' 
-          } 
-        });
-      }
-      return new Response(null, { status: 204, headers: { ...corsHeaders, 'Access-Control-Max-Age': '86400' } });
-    }
+const createJob = async (
+  DB: D1Database, request: Request, profileId: string, action: string, path: string, body: Record<string, any>
+): Promise<string> => {
+  const jobId = nanoid();
+  const { async: _async, ...requestBody } = body;
+  // Country, IP and time zone are kept so the job is priced, audited and counted like the original request
+  const country = request.headers.get('CF-IPCountry') || null;
+  const ip = request.headers.get('cf-connecting-ip') || null;
+  const timezone = (request.cf?.timezone as string | undefined) || null;
+  await DB.prepare(
+    'INSERT INTO jobs (id, profile_id, action, path, status, request_body, country, ip_address, timezone, created_at) VALUES (?, ?, ?, ?, \'queued\', ?, ?, ?, ?, ?)'
+  ).bind(jobId, profileId, action, path, JSON.stringify(requestBody), country, ip, timezone, Math.floor(Date.now() / 1000)).run();
+  return jobId;
+};
 
-    if (!(await checkRateLimit(env, request, path))) {
-      const debugEnabled = isDebugEnabled(env);
-      return jsonResponse({
-        data: null,
-        status: 'error',
-        message: 'Rate limit exceeded',
-        code: 429,
-        ...(debugEnabled ? { debug: { source: 'backend_rate_limiter', errorSource: 'backend', path, method: request.method } } : {})
-      }, 429, request, env);
+// Build the internal request for a job. Credentials are regenerated server-side because the
+// original client headers are not persisted (profile token was verified when the job was created).
+const buildJobRequest = async (env: Env, job: Job, origin: string): Promise<Request<unknown, IncomingRequestCfProperties>> => {
+  const headers = new Headers({ 'Content-Type': 'application/json' });
+  if (env.MOBILE_API_KEY) headers.set('X-API-Key', env.MOBILE_API_KEY);
+  if (env.PROFILE_TOKEN_SECRET) headers.set('X-Profile-Token', await generateProfileToken(job.profile_id, env.PROFILE_TOKEN_SECRET));
+  if (job.country) headers.set('CF-IPCountry', job.country);
+  if (job.ip_address) headers.set('cf-connecting-ip', job.ip_address);
+  const cf = { country: job.country ?? undefined, timezone: job.timezone ?? undefined } as IncomingRequestCfProperties;
+  const jobRequest = new Request(`${origin}${job.path}`, { method: 'POST', headers, body: job.request_body, cf });
+  internalJobRequests.set(jobRequest, job.id);
+  return jobRequest;
+};
+
+const runJob = async (env: Env, ctx: ExecutionContext, jobId: string, origin: string): Promise<void> => {
+  const DB = getD1Database(env);
+  const startedAt = Math.floor(Date.now() / 1000);
+
+  // Claim the job (queue delivery is at-least-once)
+  const claim = await DB.prepare(
+    'UPDATE jobs SET status = \'running\', started_at = ? WHERE id = ? AND status = \'queued\''
+  ).bind(startedAt, jobId).run();
+  if (!claim.meta?.changes) return;
+
+  const job = await DB.prepare('SELECT * FROM jobs WHERE id = ?').bind(jobId).first() as Job | null;
+  if (!job) return;
+
+  let success = false;
+  let resultId: string | null = null;
+  let resultUrl: string | null = null;
+  let errorCode: number | null = null;
+  let errorMessage: string | null = null;
+  let responseJson: string | null = null;
+
+  try {
+    const response = await worker.fetch(await buildJobRequest(env, job, origin), env, ctx);
+    const payload = await response.json().catch(() => null) as any;
+    responseJson = payload ? JSON.stringify(payload) : null;
+    // Batch jobs have no single result image; their items are read from GET /faceswap/batch/:id
+    success = response.ok && payload?.status === 'success' && (!!payload?.data?.resultImageUrl || !!payload?.data?.batch_id);
+    if (success) {
+      resultId = payload.data.id != null ? String(payload.data.id) : null;
+      resultUrl = payload.data.resultImageUrl || null;
+    } else {
+      errorCode = typeof payload?.code === 'number' ? payload.code : response.status;
+      errorMessage = payload?.message || null;
     }
+  } catch (error) {
+    errorCode = 500;
+    errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[Jobs] Job ${jobId} crashed:`, errorMessage);
+  }
+
+  await DB.prepare(
+    'UPDATE jobs SET status = ?, result_id = ?, result_url = ?, error_code = ?, error_message = ?, response_json = ?, completed_at = ? WHERE id = ?'
+  ).bind(success ? 'succeeded' : 'failed', resultId, resultUrl, errorCode, errorMessage, responseJson, Math.floor(Date.now() / 1000), jobId).run();
+
+  // AI handlers already push on success; the runner only reports failures
+  if (!success) {
+    await sendResultNotification(env, job.profile_id, job.action, {
+      success: false,
+      error: errorMessage || String(errorCode),
+    });
+  }
+};
+
+// Hand the job to JOBS_QUEUE when bound, otherwise run it after the response via waitUntil
+const enqueueJob = async (env: Env, ctx: ExecutionContext, jobId: string, origin: string): Promise<void> => {
+  if (env.JOBS_QUEUE) {
+    const message: JobQueueMessage = { job_id: jobId, origin };
+    await env.JOBS_QUEUE.send(message);
+    return;
+  }
+  ctx.waitUntil(runJob(env, ctx, jobId, origin).catch((error) => {
+    console.error(`[Jobs] Job ${jobId} failed to run:`, error instanceof Error ? error.message : String(error));
+  }));
+};
+
+const formatJob = (job: Job) => {
+  let response: any = null;
+  try {
+    response = job.response_json ? JSON.parse(job.response_json) : null;
+  } catch {
+    response = null;
+  }
+  const toIso = (ts: number | null) => ts ? new Date(ts * 1000).toISOString() : null;
+  return {
+    job_id: job.id,
+    profile_id: job.profile_id,
+    action: job.action,
+    status: job.status,
+    result: job.status === 'succeeded' ? { id: job.result_id, resultImageUrl: job.result_url, ...(response?.data || {}) } : null,
+    error: job.status === 'failed' ? { code: job.error_code, message: job.error_message || '', ...(response?.reason ? { reason: response.reason } : {}) } : null,
+    created_at: toIso(job.created_at),
+    started_at: toIso(job.started_at),
+    completed_at: toIso(job.completed_at),
+  };
+};
+
+// ---- Batch face swap ----
+// Credits for every item are reserved in one hold when the batch starts. Settling releases the failed
+// items from the same pools (consumable first, mirroring holdCredits' sub-first order) and captures the rest.
+// Pending items only remain when the worker died mid-batch; scheduled() settles those as failed.
+const settleFaceSwapBatch = async (DB: D1Database, batchId: string, request: Request | null): Promise<void> => {
+  const now = Math.floor(Date.now() / 1000);
+  await DB.prepare(
+    'UPDATE faceswap_batch_items SET status = \'failed\', error_code = 504, completed_at = ? WHERE batch_id = ? AND status = \'pending\''
+  ).bind(now, batchId).run();
+
+  const batch = await DB.prepare('SELECT * FROM faceswap_batches WHERE id = ? AND status = \'running\'').bind(batchId).first() as FaceSwapBatch | null;
+  if (!batch) return;
+  const counts = await DB.prepare(
+    'SELECT COUNT(CASE WHEN status = \'succeeded\' THEN 1 END) AS succeeded, COUNT(CASE WHEN status = \'failed\' THEN 1 END) AS failed, SUM(CASE WHEN status = \'failed\' THEN credits END) AS failed_credits FROM faceswap_batch_items WHERE batch_id = ?'
+  ).bind(batchId).first() as { succeeded: number; failed: number; failed_credits: number | null } | null;
+  const succeeded = counts?.succeeded || 0;
+  const failed = counts?.failed || 0;
+
+  // Items record their own cost (preset surcharges differ); older batches split the charge evenly
+  const refund = counts?.failed_credits != null
+    ? counts.failed_credits
+    : batch.item_count > 0 ? (batch.credits_charged / batch.item_count) * failed : 0;
+  const refundConsumable = Math.min(batch.credits_from_consumable, refund);
+  const refundSub = refund - refundConsumable;
+
+  // Claim before refunding so a concurrent settle cannot refund twice
+  const claim = await DB.prepare(
+    'UPDATE faceswap_batches SET status = \'completed\', succeeded_count = ?, failed_count = ?, credits_refunded = ?, completed_at = ? WHERE id = ? AND status = \'running\''
+  ).bind(succeeded, failed, refund, now, batchId).run();
+  if (!claim.meta?.changes) return;
+
+  const hold = await DB.prepare('SELECT id FROM credit_holds WHERE batch_id = ? AND status = \'held\'').bind(batchId).first() as { id: string } | null;
+  await releaseCredits(DB, batch.profile_id, 'faceswap', hold?.id, `Batch ${batchId}: ${failed} of ${batch.item_count} items failed`, request, { sub: refundSub, consumable: refundConsumable });
+};
+
+const formatFaceSwapBatch = (batch: FaceSwapBatch, items: FaceSwapBatchItem[]) => {
+  const toIso = (ts: number | null) => ts ? new Date(ts * 1000).toISOString() : null;
+  return {
+    batch_id: batch.id,
+    profile_id: batch.profile_id,
+    status: batch.status,
+    item_count: batch.item_count,
+    succeeded_count: items.filter((item) => item.status === 'succeeded').length,
+    failed_count: items.filter((item) => item.status === 'failed').length,
+    credits_charged: batch.credits_charged,
+    credits_refunded: batch.credits_refunded,
+    items: items.map((item) => ({
+      index: item.item_index,
+      preset_id: item.preset_id,
+      status: item.status,
+      id: item.result_id,
+      resultImageUrl: item.result_url,
+      error: item.status === 'failed' ? { code: item.error_code } : null,
+    })),
+    created_at: toIso(batch.created_at),
+    completed_at: toIso(batch.completed_at),
+  };
+};
 
-    const checkProtectedPath = (path: string, method: string): boolean => {
-      if (path === '/upload-url') {
-        return false;
+// Handle direct file upload endpoint - handles both preset and selfie uploads (supports multiple files)
+const handleUploadUrl = async ({ request, env, DB, R2_BUCKET, requestUrl, path }: RouteContext): Promise<Response> => {
+  try {
+    const contentType = request.headers.get('Content-Type') || '';
+    let files: File[] = [];
+    let imageUrls: string[] = [];
+    let type: string = '';
+    let profileId: string = '';
+    let presetName: string = '';
+    let enableVertexPrompt: boolean = false;
+    let isFilterMode: boolean = false;
+    let customPromptText: string | null = null;
+    let action: string | null = null;
+    let dimensionsArray: (string | null)[] = []; // Array of dimensions in same order as files
+
+    // Support both multipart/form-data (file upload) and application/json (URL upload)
+    if (contentType.toLowerCase().includes('multipart/form-data')) {
+      const formData = await request.formData();
+      // Get all files (support multiple)
+      const fileEntries = formData.getAll('files');
+      for (const entry of fileEntries) {
+        if (entry && typeof entry !== 'string') {
+          files.push(entry as any as File);
+        }
       }
-      if (path === '/profiles') {
-        return method === 'POST';
+      // Fallback to single 'file' for backward compatibility
+      if (files.length === 0) {
+        const singleFile = formData.get('file') as any;
+        if (singleFile && typeof singleFile !== 'string') {
+          files.push(singleFile as File);
+        }
       }
-      if (path.startsWith('/profiles/') && path.split('/').length === 3) {
-        return method === 'GET' || method === 'DELETE';
+      // Get image URLs if provided
+      const urlEntries = formData.getAll('image_urls');
+      imageUrls = urlEntries.filter((url): url is string => typeof url === 'string' && url.trim() !== '');
+      // Fallback to single 'image_url' for backward compatibility
+      if (imageUrls.length === 0) {
+        const singleUrl = formData.get('image_url') as string | null;
+        if (singleUrl) imageUrls = [singleUrl];
       }
-      if (path.startsWith('/api/deposit/status/')) {
-        return true;
+      type = formData.get('type') as string;
+      profileId = formData.get('profile_id') as string;
+      presetName = formData.get('presetName') as string;
+      enableVertexPrompt = formData.get('enableVertexPrompt') === 'true';
+
+      // Explicitly get and convert is_filter_mode to boolean
+      const isFilterModeRaw = formData.get('is_filter_mode');
+      isFilterMode = isFilterModeRaw === 'true' || (typeof isFilterModeRaw === 'string' && isFilterModeRaw.toLowerCase() === 'true');
+      customPromptText = formData.get('custom_prompt_text') as string | null;
+
+      // Log parsed parameters for debugging
+      if (type === 'preset') {
+        console.log('[Upload-url] Preset upload parameters:', {
+          enableVertexPrompt,
+          isFilterModeRaw: isFilterModeRaw,
+          isFilterModeRawType: typeof isFilterModeRaw,
+          isFilterMode: isFilterMode,
+          isFilterModeType: typeof isFilterMode,
+          hasCustomPrompt: !!customPromptText,
+          customPromptLength: customPromptText?.length || 0,
+          allFormDataKeys: Array.from(formData.keys())
+        });
       }
-      return PROTECTED_MOBILE_APIS.includes(path);
-    };
+      // Ensure action is always a string (formData.get can return File if name collision)
+      const actionEntry = formData.get('action');
+      action = (actionEntry && typeof actionEntry === 'string') ? actionEntry : null;
+      // Parse dimensions as JSON array (format: ["widthxheight", "widthxheight", ...])
+      // Also supports single string for backward compatibility
+      const dimensionsEntry = formData.get('dimensions');
+      if (dimensionsEntry && typeof dimensionsEntry === 'string') {
+        try {
+          const parsed = JSON.parse(dimensionsEntry);
+          if (Array.isArray(parsed)) {
+            dimensionsArray = parsed;
+          } else {
+            // Single string (backward compatibility)
+            dimensionsArray = [dimensionsEntry];
+          }
+        } catch {
+          // Not JSON, treat as single dimension string (backward compatibility)
+          dimensionsArray = [dimensionsEntry];
+        }
+      }
+    } else if (contentType.toLowerCase().includes('application/json')) {
+      const body = await request.json() as {
+        image_urls?: string[];
+        image_url?: string;
+        type?: string;
+        profile_id?: string;
+        presetName?: string;
+        enableVertexPrompt?: boolean;
+        is_filter_mode?: boolean;
+        custom_prompt_text?: string;
+        action?: string;
+        dimensions?: string | (string | null)[];
+      };
+      imageUrls = body.image_urls || (body.image_url ? [body.image_url] : []);
+      type = body.type || '';
+      profileId = body.profile_id || '';
+      presetName = body.presetName || '';
+      enableVertexPrompt = body.enableVertexPrompt === true;
+      isFilterMode = body.is_filter_mode === true;
+      customPromptText = body.custom_prompt_text || null;
+      action = body.action || null;
+      // Handle dimensions as array or single string
+      if (body.dimensions) {
+        if (Array.isArray(body.dimensions)) {
+          dimensionsArray = body.dimensions;
+        } else {
+          dimensionsArray = [body.dimensions];
+        }
+      }
+    } else {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Unsupported Content-Type: expected multipart/form-data or application/json', 400, debugEnabled ? { contentType, path } : undefined, request, env);
+    }
+
+    if (imageUrls.length > 0) {
+      for (const url of imageUrls) {
+        if (!validateImageUrl(url, env)) {
+          const debugEnabled = isDebugEnabled(env);
+          return errorResponse('Invalid image URL', 400, debugEnabled ? { url, path } : undefined, request, env);
+        }
+      }
+    }
+
+    // Validate and normalize profileId - ensure it's always a valid string
+    if (!profileId || typeof profileId !== 'string' || profileId.trim() === '') {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('profile_id is required and must be a non-empty string', 400, debugEnabled ? { type, profileId, path } : undefined, request, env);
+    }
+    profileId = profileId.trim(); // Normalize
+
+    if (!type || typeof type !== 'string' || type.trim() === '') {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('type is required and must be a non-empty string', 400, debugEnabled ? { type, profileId, path } : undefined, request, env);
+    }
+    type = type.trim(); // Normalize
+
+    if (type !== 'preset' && type !== 'selfie' && type !== 'mask') {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('type must be "preset", "selfie", or "mask"', 400, debugEnabled ? { type, path } : undefined, request, env);
+    }
 
-    const isProtectedPath = checkProtectedPath(path, request.method);
-    if (isProtectedPath && !checkApiKey(env, request)) {
+    // Log parsed parameters for debugging
+    console.log('[Upload-url] Parsed parameters:', {
+      type,
+      profileId,
+      action,
+      filesCount: files.length,
+      imageUrlsCount: imageUrls.length,
+      enableVertexPrompt: type === 'preset' ? enableVertexPrompt : undefined,
+      isFilterMode: type === 'preset' ? isFilterMode : undefined,
+      hasCustomPrompt: type === 'preset' ? !!customPromptText : undefined,
+      customPromptLength: type === 'preset' ? (customPromptText?.length || 0) : undefined
+    });
+
+    if ((type === 'selfie' || type === 'mask') && !checkApiKey(env, request)) {
       const debugEnabled = isDebugEnabled(env);
       return jsonResponse({
         data: null,
         status: 'error',
         message: 'Unauthorized',
         code: 401,
-        ...(debugEnabled ? { debug: { path, method: request.method } } : {})
+        ...(debugEnabled ? { debug: { path, method: request.method, type } } : {})
       }, 401, request, env);
     }
 
-    if (request.method === 'POST' || request.method === 'PUT') {
-      // Skip size check for /process-thumbnail-file and /process-thumbnail-zip (no limit, up to Cloudflare's 100MB max)
-      if (path === '/process-thumbnail-file' || path === '/process-thumbnail-zip') {
-        // No size limit check - allow up to Cloudflare Workers maximum (100MB)
-      } else {
-        // Large file upload endpoints: 100MB limit (Cloudflare Workers Pro/Free plan limit)
-        // For files >100MB, use presigned URL flow (not currently used by frontend)
-        const isLargeUploadEndpoint = path === '/upload-url' || path.startsWith('/r2-upload/');
-        const maxSize = isLargeUploadEndpoint ? 100 * 1024 * 1024 : 1024 * 1024;
-        const sizeCheck = checkRequestSize(request, maxSize);
-        if (!sizeCheck.valid) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse(sizeCheck.error || 'Request too large', 413, debugEnabled ? { path, method: request.method, maxSize } : undefined, request, env);
-        }
+    // Validate that profile exists
+    const profileResult = await DB.prepare(
+      'SELECT id FROM profiles WHERE id = ?'
+    ).bind(profileId).first();
+    if (!profileResult) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Profile not found', 404, debugEnabled ? { profileId, path } : undefined, request, env);
+    }
+
+    // Prepare all file data (from files and URLs)
+    interface FileData {
+      fileData: ArrayBuffer;
+      filename: string;
+      contentType: string;
+    }
+
+    const allFileData: FileData[] = [];
+
+    // Process uploaded files
+    for (const file of files) {
+      const fileData = await file.arrayBuffer();
+      if (!fileData || fileData.byteLength === 0) {
+        continue; // Skip empty files
       }
+      allFileData.push({
+        fileData,
+        filename: file.name || `upload_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        contentType: file.type || 'image/jpeg'
+      });
     }
 
-    // Handle direct file upload endpoint - handles both preset and selfie uploads (supports multiple files)
-    if (path === '/upload-url' && request.method === 'POST') {
+    for (const imageUrl of imageUrls) {
       try {
-        const contentType = request.headers.get('Content-Type') || '';
-        let files: File[] = [];
-        let imageUrls: string[] = [];
-        let type: string = '';
-        let profileId: string = '';
-        let presetName: string = '';
-        let enableVertexPrompt: boolean = false;
-        let isFilterMode: boolean = false;
-        let customPromptText: string | null = null;
-        let action: string | null = null;
-        let dimensionsArray: (string | null)[] = []; // Array of dimensions in same order as files
-
-        // Support both multipart/form-data (file upload) and application/json (URL upload)
-        if (contentType.toLowerCase().includes('multipart/form-data')) {
-          const formData = await request.formData();
-          // Get all files (support multiple)
-          const fileEntries = formData.getAll('files');
-          for (const entry of fileEntries) {
-            if (entry && typeof entry !== 'string') {
-              files.push(entry as any as File);
-            }
-          }
-          // Fallback to single 'file' for backward compatibility
-          if (files.length === 0) {
-            const singleFile = formData.get('file') as any;
-            if (singleFile && typeof singleFile !== 'string') {
-              files.push(singleFile as File);
-            }
-          }
-          // Get image URLs if provided
-          const urlEntries = formData.getAll('image_urls');
-          imageUrls = urlEntries.filter((url): url is string => typeof url === 'string' && url.trim() !== '');
-          // Fallback to single 'image_url' for backward compatibility
-          if (imageUrls.length === 0) {
-            const singleUrl = formData.get('image_url') as string | null;
-            if (singleUrl) imageUrls = [singleUrl];
-          }
-          type = formData.get('type') as string;
-          profileId = formData.get('profile_id') as string;
-          presetName = formData.get('presetName') as string;
-          enableVertexPrompt = formData.get('enableVertexPrompt') === 'true';
-          
-          // Explicitly get and convert is_filter_mode to boolean
-          const isFilterModeRaw = formData.get('is_filter_mode');
-          isFilterMode = isFilterModeRaw === 'true' || (typeof isFilterModeRaw === 'string' && isFilterModeRaw.toLowerCase() === 'true');
-          customPromptText = formData.get('custom_prompt_text') as string | null;
-          
-          // Log parsed parameters for debugging
-          if (type === 'preset') {
-            console.log('[Upload-url] Preset upload parameters:', {
-              enableVertexPrompt,
-              isFilterModeRaw: isFilterModeRaw,
-              isFilterModeRawType: typeof isFilterModeRaw,
-              isFilterMode: isFilterMode,
-              isFilterModeType: typeof isFilterMode,
-              hasCustomPrompt: !!customPromptText,
-              customPromptLength: customPromptText?.length || 0,
-              allFormDataKeys: Array.from(formData.keys())
-            });
-          }
-          // Ensure action is always a string (formData.get can return File if name collision)
-          const actionEntry = formData.get('action');
-          action = (actionEntry && typeof actionEntry === 'string') ? actionEntry : null;
-          // Parse dimensions as JSON array (format: ["widthxheight", "widthxheight", ...])
-          // Also supports single string for backward compatibility
-          const dimensionsEntry = formData.get('dimensions');
-          if (dimensionsEntry && typeof dimensionsEntry === 'string') {
-            try {
-              const parsed = JSON.parse(dimensionsEntry);
-              if (Array.isArray(parsed)) {
-                dimensionsArray = parsed;
-              } else {
-                // Single string (backward compatibility)
-                dimensionsArray = [dimensionsEntry];
-              }
-            } catch {
-              // Not JSON, treat as single dimension string (backward compatibility)
-              dimensionsArray = [dimensionsEntry];
-            }
-          }
-        } else if (contentType.toLowerCase().includes('application/json')) {
-          const body = await request.json() as {
-            image_urls?: string[];
-            image_url?: string;
-            type?: string;
-            profile_id?: string;
-            presetName?: string;
-            enableVertexPrompt?: boolean;
-            is_filter_mode?: boolean;
-            custom_prompt_text?: string;
-            action?: string;
-            dimensions?: string | (string | null)[];
-          };
-          imageUrls = body.image_urls || (body.image_url ? [body.image_url] : []);
-          type = body.type || '';
-          profileId = body.profile_id || '';
-          presetName = body.presetName || '';
-          enableVertexPrompt = body.enableVertexPrompt === true;
-          isFilterMode = body.is_filter_mode === true;
-          customPromptText = body.custom_prompt_text || null;
-          action = body.action || null;
-          // Handle dimensions as array or single string
-          if (body.dimensions) {
-            if (Array.isArray(body.dimensions)) {
-              dimensionsArray = body.dimensions;
-            } else {
-              dimensionsArray = [body.dimensions];
-            }
-          }
-        } else {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { contentType, path } : undefined, request, env);
-        }
+        const imageResponse = await fetchWithTimeout(imageUrl, {}, TIMEOUT_CONFIG.IMAGE_FETCH);
+        if (!imageResponse.ok) {
+          continue;
+        }
+        const fileData = await imageResponse.arrayBuffer();
+        if (!fileData || fileData.byteLength === 0) {
+          continue;
+        }
+        const contentType = imageResponse.headers.get('content-type') || 'image/jpeg';
+        const urlParts = imageUrl.split('/');
+        let filename = urlParts[urlParts.length - 1] || `image_${Date.now()}.${contentType.split('/')[1] || 'jpg'}`;
+        filename = filename.split('?')[0];
+        allFileData.push({
+          fileData,
+          filename,
+          contentType
+        });
+      } catch (fetchError) {
+        console.error('[Upload] Error fetching image from URL:', fetchError instanceof Error ? fetchError.message.substring(0, 200) : String(fetchError).substring(0, 200));
+      }
+    }
 
-        if (imageUrls.length > 0) {
-          for (const url of imageUrls) {
-            if (!validateImageUrl(url, env)) {
-              const debugEnabled = isDebugEnabled(env);
-              return errorResponse('', 400, debugEnabled ? { url, path } : undefined, request, env);
-            }
-          }
-        }
+    if (allFileData.length === 0) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('No files or image URLs provided', 400, debugEnabled ? { filesCount: files.length, imageUrlsCount: imageUrls.length, path } : undefined, request, env);
+    }
 
-        // Validate and normalize profileId - ensure it's always a valid string
-        if (!profileId || typeof profileId !== 'string' || profileId.trim() === '') {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('profile_id is required and must be a non-empty string', 400, debugEnabled ? { type, profileId, path } : undefined, request, env);
+    // Process all files in parallel
+    const processFile = async (fileData: FileData, index: number): Promise<any> => {
+      const id = nanoid(16);
+      // Extract extension from content type, with proper fallback
+      let ext = 'jpg'; // Default fallback
+      if (fileData.contentType && typeof fileData.contentType === 'string') {
+        const parts = fileData.contentType.split('/');
+        if (parts.length > 1 && parts[1] && parts[1].trim()) {
+          ext = parts[1].trim().toLowerCase();
+          // Normalize common extensions
+          if (ext === 'jpeg') ext = 'jpg';
         }
-        profileId = profileId.trim(); // Normalize
-        
-        if (!type || typeof type !== 'string' || type.trim() === '') {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('type is required and must be a non-empty string', 400, debugEnabled ? { type, profileId, path } : undefined, request, env);
+      }
+      // Fallback: try to extract from filename
+      if (ext === 'jpg' && fileData.filename) {
+        const filenameExt = fileData.filename.split('.').pop()?.toLowerCase();
+        if (filenameExt && ['jpg', 'jpeg', 'png', 'webp', 'gif'].includes(filenameExt)) {
+          ext = filenameExt === 'jpeg' ? 'jpg' : filenameExt;
         }
-        type = type.trim(); // Normalize
-
-        if (type !== 'preset' && type !== 'selfie' && type !== 'mask') {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('type must be "preset", "selfie", or "mask"', 400, debugEnabled ? { type, path } : undefined, request, env);
+      }
+      const key = `${type}/${id}.${ext}`;
+
+      // Flat/solid color image detection — block blank canvas uploads for selfies only
+      // Skip for mask/remove-text actions (these images can be simple/flat)
+      // Runs BEFORE R2 upload and vision API to save resources
+      const skipFlatCheck = action === 'mask' || action === 'remove-text' || action === 'remove_text' || action === 'remove-object' || action === 'remove_object';
+      if (type === 'selfie' && !skipFlatCheck) {
+        const fileDims = dimensionsArray[index] || null;
+        const flatCheck = isFlatColorImage(fileData.fileData, fileDims);
+        console.log('[FlatColorCheck] Result:', {
+          isFlat: flatCheck.isFlat,
+          reason: flatCheck.reason,
+          filename: fileData.filename,
+          details: flatCheck.details
+        });
+        if (flatCheck.isFlat) {
+          return {
+            success: false,
+            error: 'Upload failed',
+            filename: fileData.filename,
+            visionBlocked: true,
+            visionStatusCode: 1010,
+            ...(isDebugEnabled(env) ? {
+              flatColorDetails: flatCheck.details,
+              flatColorReason: flatCheck.reason
+            } : {})
+          };
         }
+      }
 
-        // Log parsed parameters for debugging
-        console.log('[Upload-url] Parsed parameters:', {
-          type,
-          profileId,
-          action,
-          filesCount: files.length,
-          imageUrlsCount: imageUrls.length,
-          enableVertexPrompt: type === 'preset' ? enableVertexPrompt : undefined,
-          isFilterMode: type === 'preset' ? isFilterMode : undefined,
-          hasCustomPrompt: type === 'preset' ? !!customPromptText : undefined,
-          customPromptLength: type === 'preset' ? (customPromptText?.length || 0) : undefined
+      // Track URLs for CDN purge
+      const urlsToPurge: string[] = [];
+
+      // Upload to R2
+      try {
+        await R2_BUCKET.put(key, fileData.fileData, {
+          httpMetadata: {
+            contentType: fileData.contentType,
+            cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
+          },
         });
 
-        if ((type === 'selfie' || type === 'mask') && !checkApiKey(env, request)) {
-          const debugEnabled = isDebugEnabled(env);
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: 'Unauthorized',
-            code: 401,
-            ...(debugEnabled ? { debug: { path, method: request.method, type } } : {})
-          }, 401, request, env);
-        }
+        // Purge CDN cache for the uploaded URL
+        const newUrl = getR2PublicUrl(env, key, requestUrl.origin);
+        urlsToPurge.push(newUrl);
+      } catch (r2Error) {
+        return {
+          success: false,
+          error: `R2 upload failed: ${r2Error instanceof Error ? r2Error.message.substring(0, 200) : String(r2Error).substring(0, 200)}`,
+          filename: fileData.filename
+        };
+      }
 
-        // Validate that profile exists
-        const profileResult = await DB.prepare(
-          'SELECT id FROM profiles WHERE id = ?'
-        ).bind(profileId).first();
-        if (!profileResult) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Profile not found', 404, debugEnabled ? { profileId, path } : undefined, request, env);
+      // Purge CDN cache (wait for result)
+      let cdnPurgeResult = null;
+      if (urlsToPurge.length > 0) {
+        try {
+          const purgeResult = await purgeCdnCache(urlsToPurge, env);
+          cdnPurgeResult = {
+            success: purgeResult.success,
+            purged: purgeResult.purged,
+            skipped: purgeResult.skipped,
+            urls: urlsToPurge,
+            error: purgeResult.error || null
+          };
+        } catch (purgeError) {
+          cdnPurgeResult = {
+            success: false,
+            urls: urlsToPurge,
+            error: purgeError instanceof Error ? purgeError.message : String(purgeError)
+          };
+          console.error('[Upload] CDN purge failed:', purgeError);
         }
+      }
 
-        // Prepare all file data (from files and URLs)
-        interface FileData {
-          fileData: ArrayBuffer;
-          filename: string;
-          contentType: string;
-        }
+      const publicUrl = getR2PublicUrl(env, key, requestUrl.origin);
+      const createdAt = Math.floor(Date.now() / 1000);
 
-        const allFileData: FileData[] = [];
+      // Scan ALL selfie uploads with vision API before saving to database
+      // Exception: custom prompt flow skips pre-upload check (checked after generation instead)
+      let visionCheckResult: any = null;
+      if (type === 'selfie') {
+        const actionValue = action || 'faceswap';
+        const hasCustomPrompt = !!(customPromptText && customPromptText.trim());
+        const needsVisionCheck = !hasCustomPrompt; // All selfie uploads except custom prompt flow
+        const disableVisionApi = env.DISABLE_VISION_API === 'true';
 
-        // Process uploaded files
-        for (const file of files) {
-          const fileData = await file.arrayBuffer();
-          if (!fileData || fileData.byteLength === 0) {
-            continue; // Skip empty files
-          }
-          allFileData.push({
-            fileData,
-            filename: file.name || `upload_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
-            contentType: file.type || 'image/jpeg'
+        // Always log for debugging
+        console.log('[VisionCheck] Upload-url check:', {
+          type,
+          action,
+          actionValue,
+          hasCustomPrompt,
+          needsVisionCheck,
+          DISABLE_VISION_API: env.DISABLE_VISION_API,
+          disableVisionApi,
+          shouldCheck: needsVisionCheck && !disableVisionApi,
+          publicUrl
+        });
+
+        if (needsVisionCheck && !disableVisionApi) {
+          // Run Vision API safety scan
+          console.log('[VisionCheck] Running Vision API scan for:', publicUrl);
+          const safeSearchResult = await checkSafeSearch(publicUrl, env);
+          console.log('[VisionCheck] Scan result:', {
+            isSafe: safeSearchResult.isSafe,
+            statusCode: safeSearchResult.statusCode,
+            error: safeSearchResult.error
           });
-        }
+          const debugEnabled = isDebugEnabled(env);
+          if (debugEnabled) {
+            visionCheckResult = {
+              checked: true,
+              isSafe: safeSearchResult.isSafe,
+              statusCode: safeSearchResult.statusCode,
+              violationCategory: safeSearchResult.violationCategory,
+              violationLevel: safeSearchResult.violationLevel,
+              details: safeSearchResult.details,
+              error: safeSearchResult.error,
+              rawResponse: safeSearchResult.rawResponse,
+              debug: safeSearchResult.debug,
+            };
+          }
 
-        for (const imageUrl of imageUrls) {
-          try {
-            const imageResponse = await fetchWithTimeout(imageUrl, {}, TIMEOUT_CONFIG.IMAGE_FETCH);
-            if (!imageResponse.ok) {
-              continue;
-            }
-            const fileData = await imageResponse.arrayBuffer();
-            if (!fileData || fileData.byteLength === 0) {
-              continue;
+          // If vision scan failed with an error, block the upload
+          if (safeSearchResult.error) {
+            // Delete from R2 if vision scan failed
+            try {
+              await R2_BUCKET.delete(key);
+            } catch (deleteError) {
             }
-            const contentType = imageResponse.headers.get('content-type') || 'image/jpeg';
-            const urlParts = imageUrl.split('/');
-            let filename = urlParts[urlParts.length - 1] || `image_${Date.now()}.${contentType.split('/')[1] || 'jpg'}`;
-            filename = filename.split('?')[0];
-            allFileData.push({
-              fileData,
-              filename,
-              contentType
-            });
-          } catch (fetchError) {
-            console.error('[Upload] Error fetching image from URL:', fetchError instanceof Error ? fetchError.message.substring(0, 200) : String(fetchError).substring(0, 200));
+            return {
+              success: false,
+              error: 'Vision scan failed',
+              filename: fileData.filename,
+              visionError: true,
+              ...(debugEnabled ? {
+                visionDetails: {
+                  error: safeSearchResult.error,
+                  debug: safeSearchResult.debug,
+                }
+              } : {})
+            };
           }
-        }
 
-        if (allFileData.length === 0) {
+          if (!safeSearchResult.isSafe) {
+            // Delete from R2 if unsafe
+            try {
+              await R2_BUCKET.delete(key);
+            } catch (deleteError) {
+            }
+            // Return special marker to indicate vision block failure with statusCode
+            // Ensure we have a valid statusCode (1001-1005), default to 1001 if somehow missing
+            const visionStatusCode = safeSearchResult.statusCode && safeSearchResult.statusCode >= 1001 && safeSearchResult.statusCode <= 1005 
+              ? safeSearchResult.statusCode 
+              : 1001; // Default to ADULT if statusCode is missing/invalid
+            return {
+              success: false,
+              error: 'Upload failed',
+              filename: fileData.filename,
+              visionBlocked: true,
+              visionStatusCode: visionStatusCode,
+              ...(debugEnabled ? {
+                visionDetails: {
+                  violationCategory: safeSearchResult.violationCategory,
+                  violationLevel: safeSearchResult.violationLevel,
+                  details: safeSearchResult.details,
+                  rawResponse: safeSearchResult.rawResponse,
+                  debug: safeSearchResult.debug,
+                  fullResult: safeSearchResult, // Complete Vision API result
+                }
+              } : {})
+            };
+          }
+        } else if (needsVisionCheck && disableVisionApi) {
+          // Vision API disabled - return mock (always pass)
           const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { filesCount: files.length, imageUrlsCount: imageUrls.length, path } : undefined, request, env);
+          if (debugEnabled) {
+            visionCheckResult = {
+              checked: false,
+              isSafe: true,
+              skipped: true,
+              reason: 'Vision API disabled (DISABLE_VISION_API=true)',
+            };
+          }
         }
+      }
 
-        // Process all files in parallel
-        const processFile = async (fileData: FileData, index: number): Promise<any> => {
-          const id = nanoid(16);
-          // Extract extension from content type, with proper fallback
-          let ext = 'jpg'; // Default fallback
-          if (fileData.contentType && typeof fileData.contentType === 'string') {
-            const parts = fileData.contentType.split('/');
-            if (parts.length > 1 && parts[1] && parts[1].trim()) {
-              ext = parts[1].trim().toLowerCase();
-              // Normalize common extensions
-              if (ext === 'jpeg') ext = 'jpg';
-            }
-          }
-          // Fallback: try to extract from filename
-          if (ext === 'jpg' && fileData.filename) {
-            const filenameExt = fileData.filename.split('.').pop()?.toLowerCase();
-            if (filenameExt && ['jpg', 'jpeg', 'png', 'webp', 'gif'].includes(filenameExt)) {
-              ext = filenameExt === 'jpeg' ? 'jpg' : filenameExt;
+      // Quality gate for the face actions: a selfie without exactly one large enough, sharp face is deleted and the
+      // upload rejected with its SELFIE_QUALITY_CODES code; borderline ones are kept and returned with warnings
+      let selfieQuality: SelfieGateOutcome | null = null;
+      if (type === 'selfie' && isSelfieQualityAction(action)) {
+        const analyzer = getSelfieAnalyzer(env);
+        if (analyzer) {
+          selfieQuality = gateSelfie(await analyzeSelfie(fileData.fileData, publicUrl, analyzer, env));
+          console.log('[SelfieQuality] Result:', {
+            filename: fileData.filename,
+            kind: selfieQuality.kind,
+            code: selfieQuality.kind === 'rejected' ? selfieQuality.code : undefined,
+            analysis: selfieQuality.analysis
+          });
+          if (selfieQuality.kind === 'rejected') {
+            try {
+              await R2_BUCKET.delete(key);
+            } catch (deleteError) {
             }
-          }
-          const key = `${type}/${id}.${ext}`;
-
-          // Flat/solid color image detection — block blank canvas uploads for selfies only
-          // Skip for mask/remove-text actions (these images can be simple/flat)
-          // Runs BEFORE R2 upload and vision API to save resources
-          const skipFlatCheck = action === 'mask' || action === 'remove-text' || action === 'remove_text' || action === 'remove-object' || action === 'remove_object';
-          if (type === 'selfie' && !skipFlatCheck) {
-            const fileDims = dimensionsArray[index] || null;
-            const flatCheck = isFlatColorImage(fileData.fileData, fileDims);
-            console.log('[FlatColorCheck] Result:', {
-              isFlat: flatCheck.isFlat,
-              reason: flatCheck.reason,
+            return {
+              success: false,
+              error: 'Upload failed',
               filename: fileData.filename,
-              details: flatCheck.details
-            });
-            if (flatCheck.isFlat) {
-              return {
-                success: false,
-                error: 'Upload failed',
-                filename: fileData.filename,
-                visionBlocked: true,
-                visionStatusCode: 1010,
-                ...(isDebugEnabled(env) ? {
-                  flatColorDetails: flatCheck.details,
-                  flatColorReason: flatCheck.reason
-                } : {})
-              };
-            }
+              visionBlocked: true,
+              visionStatusCode: selfieQuality.code,
+              ...(isDebugEnabled(env) ? { selfieAnalysis: selfieQuality.analysis } : {})
+            };
           }
+        }
+      }
 
-          // Track URLs for CDN purge
-          const urlsToPurge: string[] = [];
+      if (type === 'preset') {
+        // Generate Vertex AI prompt in parallel
+        let promptJson: string | null = null;
+        let vertexCallInfo: { success: boolean; error?: string; promptKeys?: string[]; debug?: any } = { success: false };
 
-          // Upload to R2
+        if (enableVertexPrompt) {
           try {
-            await R2_BUCKET.put(key, fileData.fileData, {
-              httpMetadata: {
-                contentType: fileData.contentType,
-                cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
-              },
+            // Explicitly convert to boolean (same as ZIP upload flow) and log values
+            const filterModeBool = isFilterMode === true;
+            console.log(`[Upload-url] Generating Vertex prompt for preset ${id}:`, {
+              isFilterMode: isFilterMode,
+              isFilterModeType: typeof isFilterMode,
+              filterModeBool: filterModeBool,
+              customPromptText: customPromptText ? `provided (${customPromptText.length} chars)` : 'none',
+              publicUrl: publicUrl
             });
-
-            // Purge CDN cache for the uploaded URL
-            const newUrl = getR2PublicUrl(env, key, requestUrl.origin);
-            urlsToPurge.push(newUrl);
-          } catch (r2Error) {
-            return {
-              success: false,
-              error: `R2 upload failed: ${r2Error instanceof Error ? r2Error.message.substring(0, 200) : String(r2Error).substring(0, 200)}`,
-              filename: fileData.filename
-            };
-          }
-
-          // Purge CDN cache (wait for result)
-          let cdnPurgeResult = null;
-          if (urlsToPurge.length > 0) {
-            try {
-              const purgeResult = await purgeCdnCache(urlsToPurge, env);
-              cdnPurgeResult = {
-                success: purgeResult.success,
-                purged: purgeResult.purged,
-                skipped: purgeResult.skipped,
-                urls: urlsToPurge,
-                error: purgeResult.error || null
+            const promptResult = await generateVertexPrompt(publicUrl, env, filterModeBool, customPromptText);
+            if (promptResult.success && promptResult.prompt) {
+              promptJson = JSON.stringify(promptResult.prompt);
+              vertexCallInfo = {
+                success: true,
+                promptKeys: Object.keys(promptResult.prompt),
+                debug: promptResult.debug
               };
-            } catch (purgeError) {
-              cdnPurgeResult = {
+              console.log(`[Upload-url] Successfully generated prompt for preset ${id}, keys: ${Object.keys(promptResult.prompt).join(', ')}`);
+            } else {
+              vertexCallInfo = {
                 success: false,
-                urls: urlsToPurge,
-                error: purgeError instanceof Error ? purgeError.message : String(purgeError)
+                error: promptResult.error || 'Unknown error',
+                debug: promptResult.debug
               };
-              console.error('[Upload] CDN purge failed:', purgeError);
+              console.error(`[Upload-url] Prompt generation failed for preset ${id}:`, promptResult.error || 'Unknown error');
             }
+          } catch (vertexError) {
+            const errorMsg = vertexError instanceof Error ? vertexError.message : String(vertexError);
+            vertexCallInfo = {
+              success: false,
+              error: errorMsg.substring(0, 200),
+              debug: { errorDetails: errorMsg.substring(0, 200) }
+            };
+            console.error(`[Upload-url] Prompt generation exception for preset ${id}:`, errorMsg.substring(0, 200));
           }
+        } else {
+          console.log(`[Upload-url] Prompt generation not requested for preset ${id}`);
+        }
 
-          const publicUrl = getR2PublicUrl(env, key, requestUrl.origin);
-          const createdAt = Math.floor(Date.now() / 1000);
-
-          // Scan ALL selfie uploads with vision API before saving to database
-          // Exception: custom prompt flow skips pre-upload check (checked after generation instead)
-          let visionCheckResult: any = null;
-          if (type === 'selfie') {
-            const actionValue = action || 'faceswap';
-            const hasCustomPrompt = !!(customPromptText && customPromptText.trim());
-            const needsVisionCheck = !hasCustomPrompt; // All selfie uploads except custom prompt flow
-            const disableVisionApi = env.DISABLE_VISION_API === 'true';
-
-            // Always log for debugging
-            console.log('[VisionCheck] Upload-url check:', {
-              type,
-              action,
-              actionValue,
-              hasCustomPrompt,
-              needsVisionCheck,
-              DISABLE_VISION_API: env.DISABLE_VISION_API,
-              disableVisionApi,
-              shouldCheck: needsVisionCheck && !disableVisionApi,
-              publicUrl
+        // Store prompt_json in R2 metadata
+        if (promptJson) {
+          try {
+            // Re-upload with metadata (the file was already uploaded at line 1000, but we need to add metadata)
+            await R2_BUCKET.put(key, fileData.fileData, {
+              httpMetadata: {
+                contentType: fileData.contentType,
+                cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
+              },
+              customMetadata: {
+                prompt_json: promptJson
+              }
             });
+            console.log(`[Upload-url] Successfully stored prompt_json metadata for preset ${id} at key ${key}`);
+          } catch (metadataError) {
+            const errorMsg = metadataError instanceof Error ? metadataError.message : String(metadataError);
+            console.error(`[Upload-url] Failed to store prompt_json metadata for preset ${id}:`, errorMsg.substring(0, 200));
+            // Don't fail the upload, but log the error
+          }
+        } else if (enableVertexPrompt) {
+          // Prompt generation was requested but failed
+          console.warn(`[Upload-url] Prompt generation was requested for preset ${id} but promptJson is null`);
+        }
+
+        // Create 4x thumbnail using the preset image itself
+        // Since Cloudflare Workers don't have native image processing,
+        // we use the preset image as the thumbnail
+        const thumbnailR2Key = key; // Use the same preset image as thumbnail
+        const thumbnailData = {
+          webp_4x: thumbnailR2Key
+        };
+        const thumbnailR2Json = JSON.stringify(thumbnailData);
 
-            if (needsVisionCheck && !disableVisionApi) {
-              // Run Vision API safety scan
-              console.log('[VisionCheck] Running Vision API scan for:', publicUrl);
-              const safeSearchResult = await checkSafeSearch(publicUrl, env);
-              console.log('[VisionCheck] Scan result:', {
-                isSafe: safeSearchResult.isSafe,
-                statusCode: safeSearchResult.statusCode,
-                error: safeSearchResult.error
-              });
-              const debugEnabled = isDebugEnabled(env);
-              if (debugEnabled) {
-                visionCheckResult = {
-                  checked: true,
-                  isSafe: safeSearchResult.isSafe,
-                  statusCode: safeSearchResult.statusCode,
-                  violationCategory: safeSearchResult.violationCategory,
-                  violationLevel: safeSearchResult.violationLevel,
-                  details: safeSearchResult.details,
-                  error: safeSearchResult.error,
-                  rawResponse: safeSearchResult.rawResponse,
-                  debug: safeSearchResult.debug,
-                };
-              }
-              
-              // If vision scan failed with an error, block the upload
-              if (safeSearchResult.error) {
-                // Delete from R2 if vision scan failed
-                try {
-                  await R2_BUCKET.delete(key);
-                } catch (deleteError) {
-                }
-                return {
-                  success: false,
-                  error: 'Vision scan failed',
-                  filename: fileData.filename,
-                  visionError: true,
-                  ...(debugEnabled ? {
-                    visionDetails: {
-                      error: safeSearchResult.error,
-                      debug: safeSearchResult.debug,
-                    }
-                  } : {})
-                };
-              }
-              
-              if (!safeSearchResult.isSafe) {
-                // Delete from R2 if unsafe
-                try {
-                  await R2_BUCKET.delete(key);
-                } catch (deleteError) {
-                }
-                // Return special marker to indicate vision block failure with statusCode
-                // Ensure we have a valid statusCode (1001-1005), default to 1001 if somehow missing
-                const visionStatusCode = safeSearchResult.statusCode && safeSearchResult.statusCode >= 1001 && safeSearchResult.statusCode <= 1005 
-                  ? safeSearchResult.statusCode 
-                  : 1001; // Default to ADULT if statusCode is missing/invalid
-                return {
-                  success: false,
-                  error: 'Upload failed',
-                  filename: fileData.filename,
-                  visionBlocked: true,
-                  visionStatusCode: visionStatusCode,
-                  ...(debugEnabled ? {
-                    visionDetails: {
-                      violationCategory: safeSearchResult.violationCategory,
-                      violationLevel: safeSearchResult.violationLevel,
-                      details: safeSearchResult.details,
-                      rawResponse: safeSearchResult.rawResponse,
-                      debug: safeSearchResult.debug,
-                      fullResult: safeSearchResult, // Complete Vision API result
-                    }
-                  } : {})
-                };
-              }
-            } else if (needsVisionCheck && disableVisionApi) {
-              // Vision API disabled - return mock (always pass)
-              const debugEnabled = isDebugEnabled(env);
-              if (debugEnabled) {
-                visionCheckResult = {
-                  checked: false,
-                  isSafe: true,
-                  skipped: true,
-                  reason: 'Vision API disabled (DISABLE_VISION_API=true)',
-                };
-              }
-            }
-          }
+        // Save to database (store id, ext, and thumbnail_r2)
+        // Upsert to handle case where preset already exists
+        const existingPreset = await DB.prepare('SELECT created_at FROM presets WHERE id = ?').bind(id).first();
+        const finalCreatedAt = existingPreset && (existingPreset as any).created_at 
+          ? (existingPreset as any).created_at 
+          : createdAt;
 
-          if (type === 'preset') {
-            // Generate Vertex AI prompt in parallel
-            let promptJson: string | null = null;
-            let vertexCallInfo: { success: boolean; error?: string; promptKeys?: string[]; debug?: any } = { success: false };
+        const dbResult = await DB.prepare(
+          PRESET_UPSERT_SQL
+        ).bind(id, ext, finalCreatedAt, thumbnailR2Json).run();
 
-            if (enableVertexPrompt) {
-              try {
-                // Explicitly convert to boolean (same as ZIP upload flow) and log values
-                const filterModeBool = isFilterMode === true;
-                console.log(`[Upload-url] Generating Vertex prompt for preset ${id}:`, {
-                  isFilterMode: isFilterMode,
-                  isFilterModeType: typeof isFilterMode,
-                  filterModeBool: filterModeBool,
-                  customPromptText: customPromptText ? `provided (${customPromptText.length} chars)` : 'none',
-                  publicUrl: publicUrl
-                });
-                const promptResult = await generateVertexPrompt(publicUrl, env, filterModeBool, customPromptText);
-                if (promptResult.success && promptResult.prompt) {
-                  promptJson = JSON.stringify(promptResult.prompt);
-                  vertexCallInfo = {
-                    success: true,
-                    promptKeys: Object.keys(promptResult.prompt),
-                    debug: promptResult.debug
-                  };
-                  console.log(`[Upload-url] Successfully generated prompt for preset ${id}, keys: ${Object.keys(promptResult.prompt).join(', ')}`);
-                } else {
-                  vertexCallInfo = {
-                    success: false,
-                    error: promptResult.error || 'Unknown error',
-                    debug: promptResult.debug
-                  };
-                  console.error(`[Upload-url] Prompt generation failed for preset ${id}:`, promptResult.error || 'Unknown error');
-                }
-              } catch (vertexError) {
-                const errorMsg = vertexError instanceof Error ? vertexError.message : String(vertexError);
-                vertexCallInfo = {
-                  success: false,
-                  error: errorMsg.substring(0, 200),
-                  debug: { errorDetails: errorMsg.substring(0, 200) }
-                };
-                console.error(`[Upload-url] Prompt generation exception for preset ${id}:`, errorMsg.substring(0, 200));
-              }
-            } else {
-              console.log(`[Upload-url] Prompt generation not requested for preset ${id}`);
-            }
+        if (!dbResult.success) {
+          return {
+            success: false,
+            error: 'Database insert failed',
+            filename: fileData.filename
+          };
+        }
 
-            // Store prompt_json in R2 metadata
-            if (promptJson) {
-              try {
-                // Re-upload with metadata (the file was already uploaded at line 1000, but we need to add metadata)
-                await R2_BUCKET.put(key, fileData.fileData, {
-                  httpMetadata: {
-                    contentType: fileData.contentType,
-                    cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
-                  },
-                  customMetadata: {
-                    prompt_json: promptJson
-                  }
-                });
-                console.log(`[Upload-url] Successfully stored prompt_json metadata for preset ${id} at key ${key}`);
-              } catch (metadataError) {
-                const errorMsg = metadataError instanceof Error ? metadataError.message : String(metadataError);
-                console.error(`[Upload-url] Failed to store prompt_json metadata for preset ${id}:`, errorMsg.substring(0, 200));
-                // Don't fail the upload, but log the error
-              }
-            } else if (enableVertexPrompt) {
-              // Prompt generation was requested but failed
-              console.warn(`[Upload-url] Prompt generation was requested for preset ${id} but promptJson is null`);
-            }
+        const response: any = {
+          success: true,
+          url: publicUrl,
+          id: id,
+          filename: `${id}.${ext}`,
+          hasPrompt: !!promptJson,
+          prompt_json: promptJson ? JSON.parse(promptJson) : null,
+          vertex_info: vertexCallInfo,
+          thumbnail_4x: getR2PublicUrl(env, thumbnailR2Key, requestUrl.origin),
+          thumbnail_created: true,
+          filter_mode_used: isFilterMode,
+          prompt_type: isFilterMode ? 'filter' : (customPromptText ? 'custom' : 'default')
+        };
 
-            // Create 4x thumbnail using the preset image itself
-            // Since Cloudflare Workers don't have native image processing,
-            // we use the preset image as the thumbnail
-            const thumbnailR2Key = key; // Use the same preset image as thumbnail
-            const thumbnailData = {
-              webp_4x: thumbnailR2Key
-            };
-            const thumbnailR2Json = JSON.stringify(thumbnailData);
-
-            // Save to database (store id, ext, and thumbnail_r2)
-            // Use INSERT OR REPLACE to handle case where preset already exists
-            const existingPreset = await DB.prepare('SELECT created_at FROM presets WHERE id = ?').bind(id).first();
-            const finalCreatedAt = existingPreset && (existingPreset as any).created_at 
-              ? (existingPreset as any).created_at 
-              : createdAt;
-            
-            const dbResult = await DB.prepare(
-              'INSERT OR REPLACE INTO presets (id, ext, created_at, thumbnail_r2) VALUES (?, ?, ?, ?)'
-            ).bind(id, ext, finalCreatedAt, thumbnailR2Json).run();
-
-            if (!dbResult.success) {
-              return {
-                success: false,
-                error: 'Database insert failed',
-                filename: fileData.filename
-              };
-            }
+        // Include debug info if debug is enabled
+        const debugEnabled = isDebugEnabled(env);
+        if (debugEnabled) {
+          if (visionCheckResult) {
+            response.visionCheck = visionCheckResult;
+          }
+          if (cdnPurgeResult) {
+            response.cdnPurge = cdnPurgeResult;
+          }
+        }
 
-            const response: any = {
-              success: true,
-              url: publicUrl,
-              id: id,
-              filename: `${id}.${ext}`,
-              hasPrompt: !!promptJson,
-              prompt_json: promptJson ? JSON.parse(promptJson) : null,
-              vertex_info: vertexCallInfo,
-              thumbnail_4x: getR2PublicUrl(env, thumbnailR2Key, requestUrl.origin),
-              thumbnail_created: true,
-              filter_mode_used: isFilterMode,
-              prompt_type: isFilterMode ? 'filter' : (customPromptText ? 'custom' : 'default')
-            };
+        return response;
+      } else if (type === 'selfie') {
+        // Ensure actionValue is always a valid non-empty string
+        let actionValue: string = (action && typeof action === 'string' && action.trim()) ? action.trim() : 'faceswap';
+        const actionLower = actionValue.toLowerCase();
 
-            // Include debug info if debug is enabled
-            const debugEnabled = isDebugEnabled(env);
-            if (debugEnabled) {
-              if (visionCheckResult) {
-                response.visionCheck = visionCheckResult;
-              }
-              if (cdnPurgeResult) {
-                response.cdnPurge = cdnPurgeResult;
-              }
-            }
+        // Normalize 4k action to lowercase for consistency
+        if (actionLower === '4k') {
+          actionValue = '4k';
+        }
 
-            return response;
-          } else if (type === 'selfie') {
-            // Ensure actionValue is always a valid non-empty string
-            let actionValue: string = (action && typeof action === 'string' && action.trim()) ? action.trim() : 'faceswap';
-            const actionLower = actionValue.toLowerCase();
-            
-            // Normalize 4k action to lowercase for consistency
-            if (actionLower === '4k') {
-              actionValue = '4k';
-            }
-            
-            // Ensure actionValue is never empty or null for database insert
-            if (!actionValue || actionValue.trim() === '') {
-              actionValue = 'faceswap';
-            }
+        // Ensure actionValue is never empty or null for database insert
+        if (!actionValue || actionValue.trim() === '') {
+          actionValue = 'faceswap';
+        }
 
-            // Optimized: Use LIMIT to fetch only what we need (faster than COUNT on large tables)
-            // Get (maxCount) oldest selfies - if we have exactly maxCount, we need to delete 1 before inserting
-            let maxCount: number;
-            let queryCondition: string;
-            let queryBindings: any[];
-
-            // Apply selfie limits for FaceSwap and Filter actions - other actions auto-delete after processing
-            if (actionLower === 'faceswap' || actionLower === 'filter') {
-              maxCount = actionLower === 'faceswap'
-                ? parseInt(env.SELFIE_MAX_FACESWAP || '5', 10)
-                : parseInt(env.SELFIE_MAX_FILTER || '5', 10);
-              queryCondition = 'profile_id = ? AND action = ?';
-              queryBindings = [profileId, actionValue];
-
-              // Validate maxCount is a valid positive integer (SQLite LIMIT requires INTEGER)
-              if (isNaN(maxCount) || maxCount < 1) {
-                maxCount = 1; // Default to 1 if invalid
-              }
-              maxCount = Math.floor(Math.max(1, maxCount)); // Ensure it's a positive integer
-
-              // Fetch existing selfies up to maxCount (avoids full table scan of COUNT(*))
-              const existingQuery = `SELECT id, ext FROM selfies WHERE ${queryCondition} ORDER BY created_at ASC LIMIT ?`;
-              const existingResult = await DB.prepare(existingQuery).bind(...queryBindings, maxCount).all();
-              const currentCount = existingResult.results?.length || 0;
-
-              // Delete oldest if at limit
-              if (currentCount >= maxCount) {
-                const toDeleteCount = currentCount - maxCount + 1;
-                const toDelete = existingResult.results!.slice(0, toDeleteCount);
-                const idsToDelete = toDelete.map((s: any) => s.id);
-
-                // Delete from DB in batch
-                const placeholders = idsToDelete.map(() => '?').join(',');
-                await DB.prepare(`DELETE FROM selfies WHERE id IN (${placeholders})`).bind(...idsToDelete).run();
-
-                // Delete from R2 - await to ensure cleanup completes (prevent orphaned files)
-                const urlsToPurge: string[] = [];
-                const r2Deletions = toDelete.map(async (oldSelfie: any) => {
-                  const oldKey = reconstructR2Key(oldSelfie.id, oldSelfie.ext, 'selfie');
-                  try {
-                    await R2_BUCKET.delete(oldKey);
-                    // Collect URL for CDN purge
-                    const publicUrl = getR2PublicUrl(env, oldKey, requestUrl.origin);
-                    urlsToPurge.push(publicUrl);
-                  } catch (r2Error) {
-                    console.error(`[R2] Failed to delete ${oldKey}:`, r2Error instanceof Error ? r2Error.message.substring(0, 100) : String(r2Error).substring(0, 100));
-                  }
-                });
+        // Optimized: Use LIMIT to fetch only what we need (faster than COUNT on large tables)
+        // Get (maxCount) oldest selfies - if we have exactly maxCount, we need to delete 1 before inserting
+        let maxCount: number;
+        let queryCondition: string;
+        let queryBindings: any[];
 
-                // Wait for all R2 deletions to complete (parallel within batch)
-                await Promise.all(r2Deletions);
-
-                // Purge CDN cache for deleted selfies (wait for result)
-                if (urlsToPurge.length > 0) {
-                  try {
-                    const purgeResult = await purgeCdnCache(urlsToPurge, env);
-                    console.log('[Delete Old Selfies] CDN purge result:', {
-                      success: purgeResult.success,
-                      purged: purgeResult.purged,
-                      skipped: purgeResult.skipped
-                    });
-                  } catch (error) {
-                    console.error('[Delete Old Selfies] CDN purge failed:', error);
-                  }
-                }
-              }
-            }
-            // Non-FaceSwap/Filter actions: no limit enforcement - selfies will be auto-deleted after API processing
+        // Apply selfie limits for FaceSwap and Filter actions - other actions auto-delete after processing
+        if (actionLower === 'faceswap' || actionLower === 'filter') {
+          maxCount = actionLower === 'faceswap'
+            ? parseInt(env.SELFIE_MAX_FACESWAP || '5', 10)
+            : parseInt(env.SELFIE_MAX_FILTER || '5', 10);
+          queryCondition = 'profile_id = ? AND action = ?';
+          queryBindings = [profileId, actionValue];
 
-            // Insert new selfie - ensure all values are correct types
-            // Validate and explicitly convert all values to prevent SQLITE_MISMATCH
-            const validId = String(id || '').trim();
-            if (!validId) {
-              return {
-                success: false,
-                error: 'Invalid id generated',
-                filename: fileData.filename
-              };
-            }
-            
-            const validExt = String(ext || 'jpg').trim();
-            if (!validExt) {
-              return {
-                success: false,
-                error: 'Invalid file extension',
-                filename: fileData.filename
-              };
-            }
-            
-            // Use profileId from outer scope (already validated and normalized)
-            const validProfileId = String(profileId || '').trim();
-            if (!validProfileId) {
-              console.error('[Selfie Upload] Invalid profileId:', { profileId, type: typeof profileId, filename: fileData.filename });
-              return {
-                success: false,
-                error: 'Invalid profile_id',
-                filename: fileData.filename
-              };
-            }
-            
-            // Ensure actionValue is always a valid string (action column is TEXT, nullable is OK but we use default)
-            const validAction = String(actionValue || 'faceswap').trim() || 'faceswap';
-            
-            // Ensure createdAt is a valid integer (created_at is INTEGER NOT NULL)
-            let validCreatedAt: number;
-            if (typeof createdAt === 'number' && !isNaN(createdAt) && createdAt > 0) {
-              validCreatedAt = Math.floor(createdAt);
-            } else {
-              validCreatedAt = Math.floor(Date.now() / 1000);
-            }
-            
-            // Filename for DB storage
-            const validFilename = fileData.filename || null;
+          // Validate maxCount is a valid positive integer (SQLite LIMIT requires INTEGER)
+          if (isNaN(maxCount) || maxCount < 1) {
+            maxCount = 1; // Default to 1 if invalid
+          }
+          maxCount = Math.floor(Math.max(1, maxCount)); // Ensure it's a positive integer
 
-            try {
-              // Get dimensions for this specific file (by index)
-              const fileDimensions = dimensionsArray[index] || null;
-
-              // INSERT new selfie with filename
-              const dbResult = await DB.prepare(
-                'INSERT INTO selfies (id, ext, profile_id, action, filename, dimensions, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
-              ).bind(validId, validExt, validProfileId, validAction, validFilename, fileDimensions, Math.floor(validCreatedAt)).run();
-
-              if (!dbResult.success) {
-                return {
-                  success: false,
-                  error: 'Database insert failed',
-                  filename: fileData.filename
-                };
-              }
-            } catch (dbError) {
-              console.error('[Selfie Upload] Database error:', {
-                error: dbError instanceof Error ? dbError.message : String(dbError),
-                id: validId,
-                ext: validExt,
-                profile_id: validProfileId,
-                action: validAction,
-                filename: validFilename,
-                created_at: Math.floor(validCreatedAt)
-              });
-              return {
-                success: false,
-                error: `Database error: ${dbError instanceof Error ? dbError.message : String(dbError)}`,
-                filename: fileData.filename
-              };
-            }
+          // Fetch existing selfies up to maxCount (avoids full table scan of COUNT(*))
+          const existingQuery = `SELECT id, ext FROM selfies WHERE ${queryCondition} ORDER BY created_at ASC LIMIT ?`;
+          const existingResult = await DB.prepare(existingQuery).bind(...queryBindings, maxCount).all();
+          const currentCount = existingResult.results?.length || 0;
 
-            const response: any = {
-              success: true,
-              url: publicUrl,
-              id: id,
-              filename: `${id}.${ext}`,
-              action: actionValue
-            };
+          // Delete oldest if at limit
+          if (currentCount >= maxCount) {
+            const toDeleteCount = currentCount - maxCount + 1;
+            const toDelete = existingResult.results!.slice(0, toDeleteCount);
+            const idsToDelete = toDelete.map((s: any) => s.id);
 
-            // Include debug info if debug is enabled
-            const debugEnabled = isDebugEnabled(env);
-            if (debugEnabled) {
-              if (visionCheckResult) {
-                response.visionCheck = visionCheckResult;
+            // Delete from DB in batch
+            const placeholders = idsToDelete.map(() => '?').join(',');
+            await DB.prepare(`DELETE FROM selfies WHERE id IN (${placeholders})`).bind(...idsToDelete).run();
+
+            // Delete from R2 - await to ensure cleanup completes (prevent orphaned files)
+            const urlsToPurge: string[] = [];
+            const r2Deletions = toDelete.map(async (oldSelfie: any) => {
+              const oldKey = reconstructR2Key(oldSelfie.id, oldSelfie.ext, 'selfie');
+              try {
+                await R2_BUCKET.delete(oldKey);
+                // Collect URL for CDN purge
+                const publicUrl = getR2PublicUrl(env, oldKey, requestUrl.origin);
+                urlsToPurge.push(publicUrl);
+              } catch (r2Error) {
+                console.error(`[R2] Failed to delete ${oldKey}:`, r2Error instanceof Error ? r2Error.message.substring(0, 100) : String(r2Error).substring(0, 100));
               }
-              if (cdnPurgeResult) {
-                response.cdnPurge = cdnPurgeResult;
+            });
+
+            // Wait for all R2 deletions to complete (parallel within batch)
+            await Promise.all(r2Deletions);
+
+            // Purge CDN cache for deleted selfies (wait for result)
+            if (urlsToPurge.length > 0) {
+              try {
+                const purgeResult = await purgeCdnCache(urlsToPurge, env);
+                console.log('[Delete Old Selfies] CDN purge result:', {
+                  success: purgeResult.success,
+                  purged: purgeResult.purged,
+                  skipped: purgeResult.skipped
+                });
+              } catch (error) {
+                console.error('[Delete Old Selfies] CDN purge failed:', error);
               }
             }
+          }
+        }
+        // Non-FaceSwap/Filter actions: no limit enforcement - selfies will be auto-deleted after API processing
 
-            return response;
-          } else if (type === 'mask') {
-            // Mask upload for remove_object API - store in mask/ folder in R2
-            // Reuse selfies table with action = 'remove_object'
-            const actionValue = 'remove_object';
+        // Insert new selfie - ensure all values are correct types
+        // Validate and explicitly convert all values to prevent SQLITE_MISMATCH
+        const validId = String(id || '').trim();
+        if (!validId) {
+          return {
+            success: false,
+            error: 'Invalid id generated',
+            filename: fileData.filename
+          };
+        }
 
-            const validId = String(id || '').trim();
-            const validExt = String(ext || 'jpg').trim();
-            const validProfileId = String(profileId || '').trim();
-            const validFilename = fileData.filename || null;
-            const validCreatedAt = (typeof createdAt === 'number' && !isNaN(createdAt) && createdAt > 0)
-              ? Math.floor(createdAt)
-              : Math.floor(Date.now() / 1000);
+        const validExt = String(ext || 'jpg').trim();
+        if (!validExt) {
+          return {
+            success: false,
+            error: 'Invalid file extension',
+            filename: fileData.filename
+          };
+        }
 
-            // Get dimensions for this specific file (by index)
-            const fileDimensions = dimensionsArray[index] || null;
+        // Use profileId from outer scope (already validated and normalized)
+        const validProfileId = String(profileId || '').trim();
+        if (!validProfileId) {
+          console.error('[Selfie Upload] Invalid profileId:', { profileId, type: typeof profileId, filename: fileData.filename });
+          return {
+            success: false,
+            error: 'Invalid profile_id',
+            filename: fileData.filename
+          };
+        }
 
-            try {
-              const dbResult = await DB.prepare(
-                'INSERT INTO selfies (id, ext, profile_id, action, filename, dimensions, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
-              ).bind(validId, validExt, validProfileId, actionValue, validFilename, fileDimensions, validCreatedAt).run();
-
-              if (!dbResult.success) {
-                return {
-                  success: false,
-                  error: 'Database insert failed',
-                  filename: fileData.filename
-                };
-              }
-            } catch (dbError) {
-              console.error('[Mask Upload] Database error:', {
-                error: dbError instanceof Error ? dbError.message : String(dbError),
-                id: validId, profile_id: validProfileId
-              });
-              return {
-                success: false,
-                error: `Database error: ${dbError instanceof Error ? dbError.message : String(dbError)}`,
-                filename: fileData.filename
-              };
-            }
+        // Ensure actionValue is always a valid string (action column is TEXT, nullable is OK but we use default)
+        const validAction = String(actionValue || 'faceswap').trim() || 'faceswap';
 
-            const response: any = {
-              success: true,
-              url: publicUrl,
-              id: id,
-              filename: `${id}.${ext}`,
-              action: actionValue
-            };
+        // Ensure createdAt is a valid integer (created_at is INTEGER NOT NULL)
+        let validCreatedAt: number;
+        if (typeof createdAt === 'number' && !isNaN(createdAt) && createdAt > 0) {
+          validCreatedAt = Math.floor(createdAt);
+        } else {
+          validCreatedAt = Math.floor(Date.now() / 1000);
+        }
 
-            const debugEnabled = isDebugEnabled(env);
-            if (debugEnabled && cdnPurgeResult) {
-              response.cdnPurge = cdnPurgeResult;
-            }
+        // Filename for DB storage
+        const validFilename = fileData.filename || null;
+
+        try {
+          // Get dimensions for this specific file (by index)
+          const fileDimensions = dimensionsArray[index] || null;
+
+          // INSERT new selfie with filename and its quality analysis (NULLs when not analyzed)
+          const analysis = selfieQuality?.analysis;
+          const qualityWarnings = selfieQuality?.kind === 'accepted' && selfieQuality.warnings.length > 0 ? JSON.stringify(selfieQuality.warnings) : null;
+          const dbResult = await DB.prepare(
+            'INSERT INTO selfies (id, ext, profile_id, action, filename, dimensions, face_count, face_box, blur, width, height, quality_warnings, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+          ).bind(
+            validId, validExt, validProfileId, validAction, validFilename, fileDimensions,
+            analysis?.face_count ?? null, analysis?.face_box ? JSON.stringify(analysis.face_box) : null, analysis?.blur ?? null,
+            analysis?.width ?? null, analysis?.height ?? null, qualityWarnings, Math.floor(validCreatedAt)
+          ).run();
 
-            return response;
+          if (!dbResult.success) {
+            return {
+              success: false,
+              error: 'Database insert failed',
+              filename: fileData.filename
+            };
           }
+        } catch (dbError) {
+          console.error('[Selfie Upload] Database error:', {
+            error: dbError instanceof Error ? dbError.message : String(dbError),
+            id: validId,
+            ext: validExt,
+            profile_id: validProfileId,
+            action: validAction,
+            filename: validFilename,
+            created_at: Math.floor(validCreatedAt)
+          });
+          return {
+            success: false,
+            error: `Database error: ${dbError instanceof Error ? dbError.message : String(dbError)}`,
+            filename: fileData.filename
+          };
+        }
 
-          return { success: true, url: publicUrl };
+        const response: any = {
+          success: true,
+          url: publicUrl,
+          id: id,
+          filename: `${id}.${ext}`,
+          action: actionValue
         };
+        if (selfieQuality?.kind === 'accepted' && selfieQuality.warnings.length > 0) {
+          response.warnings = selfieQuality.warnings;
+        }
 
-        // Process files: presets with controlled parallelism (avoid overwhelming system), selfies sequentially (enforce limits without race conditions)
-        let results: any[] = [];
-        if (type === 'preset' || type === 'mask') {
-          // Presets and masks can be processed with controlled parallelism - no limit enforcement conflicts
-          // Limit to 5 concurrent uploads to prevent system overload with large zip files
-          const PRESET_CONCURRENCY_LIMIT = 5;
-          results = await promisePoolWithConcurrency(
-            allFileData,
-            async (fileData, index) => processFile(fileData, index),
-            PRESET_CONCURRENCY_LIMIT
-          );
-        } else {
-          // Selfies must be processed sequentially to prevent race conditions on limit enforcement
-          // Race condition scenario: 2 parallel uploads both COUNT=4, both INSERT → 6 selfies when limit is 5
-          results = [];
-          for (let i = 0; i < allFileData.length; i++) {
-            const result = await processFile(allFileData[i], i);
-            results.push(result);
+        // Include debug info if debug is enabled
+        const debugEnabled = isDebugEnabled(env);
+        if (debugEnabled) {
+          if (visionCheckResult) {
+            response.visionCheck = visionCheckResult;
+          }
+          if (selfieQuality) {
+            response.selfieAnalysis = selfieQuality.analysis;
+          }
+          if (cdnPurgeResult) {
+            response.cdnPurge = cdnPurgeResult;
           }
         }
 
-        // Check if any selfie was blocked by vision API - return specific error code
-        const visionBlockedResult = results.find(r => (r as any).visionBlocked === true);
-        if (visionBlockedResult) {
-          const visionStatusCode = (visionBlockedResult as any).visionStatusCode || 1001;
-          const visionDetails = (visionBlockedResult as any).visionDetails || {};
-          const debugEnabled = isDebugEnabled(env);
-          
-          const flatColorDetails = (visionBlockedResult as any).flatColorDetails;
-          const flatColorReason = (visionBlockedResult as any).flatColorReason;
-          const debugPayload = debugEnabled ? compact({
-            vision: {
-              checked: true,
-              isSafe: false,
-              statusCode: visionStatusCode,
-              ...(flatColorReason ? { flatColorReason, flatColorDetails } : {}),
-              violationCategory: visionDetails.violationCategory,
-              violationLevel: visionDetails.violationLevel,
-              details: visionDetails.details,
-              rawResponse: visionDetails.rawResponse,
-              apiDebug: visionDetails.debug,
-              fullResult: visionDetails.fullSafeSearchResult,
-            },
-          }) : undefined;
-          
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: 'Upload failed',
-            code: visionStatusCode,
-            ...(debugPayload ? { debug: debugPayload } : {}),
-          }, 422, request, env); // HTTP status 422, but code field contains 1001-1005
+        return response;
+      } else if (type === 'mask') {
+        // Mask upload for remove_object API - store in mask/ folder in R2
+        // Reuse selfies table with action = 'remove_object'
+        const actionValue = 'remove_object';
+
+        const validId = String(id || '').trim();
+        const validExt = String(ext || 'jpg').trim();
+        const validProfileId = String(profileId || '').trim();
+        const validFilename = fileData.filename || null;
+        const validCreatedAt = (typeof createdAt === 'number' && !isNaN(createdAt) && createdAt > 0)
+          ? Math.floor(createdAt)
+          : Math.floor(Date.now() / 1000);
+
+        // Get dimensions for this specific file (by index)
+        const fileDimensions = dimensionsArray[index] || null;
+
+        try {
+          const dbResult = await DB.prepare(
+            'INSERT INTO selfies (id, ext, profile_id, action, filename, dimensions, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+          ).bind(validId, validExt, validProfileId, actionValue, validFilename, fileDimensions, validCreatedAt).run();
+
+          if (!dbResult.success) {
+            return {
+              success: false,
+              error: 'Database insert failed',
+              filename: fileData.filename
+            };
+          }
+        } catch (dbError) {
+          console.error('[Mask Upload] Database error:', {
+            error: dbError instanceof Error ? dbError.message : String(dbError),
+            id: validId, profile_id: validProfileId
+          });
+          return {
+            success: false,
+            error: `Database error: ${dbError instanceof Error ? dbError.message : String(dbError)}`,
+            filename: fileData.filename
+          };
         }
 
-        const successful = results.filter(r => r.success);
-        const failed = results.filter(r => !r.success);
+        const response: any = {
+          success: true,
+          url: publicUrl,
+          id: id,
+          filename: `${id}.${ext}`,
+          action: actionValue
+        };
 
         const debugEnabled = isDebugEnabled(env);
-        const vertexDebugData = results
-          .filter(r => r.success && (r.hasPrompt !== undefined || r.prompt_json || r.vertex_info))
-          .map(r => ({
-            hasPrompt: r.hasPrompt,
-            prompt_json: r.prompt_json,
-            vertex_info: r.vertex_info
-          }));
-
-        const visionDebugData = results
-          .filter(r => r.success && (r as any).visionCheck)
-          .map(r => buildVisionDebug((r as any).visionCheck));
-
-        const debugPayload = debugEnabled 
-          ? compact({
-              ...(vertexDebugData.length > 0 ? { vertex: vertexDebugData } : {}),
-              ...(visionDebugData.length > 0 ? { vision: visionDebugData.length === 1 ? visionDebugData[0] : visionDebugData } : {})
-            })
-          : undefined;
-
-        // Determine response status based on success/failure counts
-        const allFailed = successful.length === 0 && failed.length > 0;
-        const partialSuccess = successful.length > 0 && failed.length > 0;
-        const httpStatus = allFailed ? 422 : 200;
-        const responseStatus = allFailed ? 'error' : (partialSuccess ? 'partial' : 'success');
-        const responseCode = allFailed ? 422 : 200;
-        const responseMessage = allFailed
-          ? `Upload failed: ${failed.length} file${failed.length !== 1 ? 's' : ''} failed`
-          : (partialSuccess
-            ? `Partial success: ${successful.length} of ${results.length} file${results.length !== 1 ? 's' : ''} uploaded`
-            : 'Processing successful');
+        if (debugEnabled && cdnPurgeResult) {
+          response.cdnPurge = cdnPurgeResult;
+        }
 
-        return jsonResponse({
-          data: {
-            results: results.map(r => {
-              if (r.success) {
-                const result: any = {
-                  id: r.id,
-                  url: r.url,
-                  filename: r.filename
-                };
-                // Include filter mode info if available (for presets)
-                if ((r as any).filter_mode_used !== undefined) {
-                  result.filter_mode_used = (r as any).filter_mode_used;
-                }
-                if ((r as any).prompt_type) {
-                  result.prompt_type = (r as any).prompt_type;
-                }
-                return result;
-              } else {
-                return {
-                  success: false,
-                  error: r.error,
-                  filename: r.filename
-                };
-              }
-            }),
-            count: results.length,
-            successful: successful.length,
-            failed: failed.length
-          },
-          status: responseStatus,
-          message: responseMessage,
-          code: responseCode,
-          ...(debugPayload ? { debug: debugPayload } : {})
-        }, httpStatus, request, env);
-      } catch (error) {
-        logCriticalError('/upload-url', error, request, env, {
-          path,
-          errorType: 'upload_error'
-        });
-        const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
-        const debugEnabled = isDebugEnabled(env);
-        return errorResponse(
-          `Upload failed: ${errorMsg}`, 
-          500,
-          debugEnabled ? { 
-            error: errorMsg,
-            path,
-            ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 500) } : {})
-          } : undefined,
-          request,
-          env
-        );
+        return response;
       }
-    }
 
-    // Parse thumbnail filename to extract preset_id (filename without extension)
-    // Example: "preset_123.webp" -> preset_id: "preset_123"
-    // Example: "fs_beach-day-selfie_f1_2b.left.png" -> preset_id: "fs_beach-day-selfie_f1_2b"
-    // Example: "fs_beach-day-selfie_f1_2b.left.webp" -> preset_id: "fs_beach-day-selfie_f1_2b"
-    function parseThumbnailFilename(filename: string): { preset_id: string; format: string } | null {
-      if (!filename || !filename.trim()) return null;
+      return { success: true, url: publicUrl };
+    };
 
-      // Remove .left.png, .right.png, .left.webp, or .right.webp suffix first
-      let preset_id = filename.replace(/\.(left|right)\.(png|webp)$/i, '');
-      
-      // If no change, try removing other common extensions
-      if (preset_id === filename) {
-        preset_id = filename.replace(/\.(webp|json|png)$/i, '');
+    // Process files: presets with controlled parallelism (avoid overwhelming system), selfies sequentially (enforce limits without race conditions)
+    let results: any[] = [];
+    if (type === 'preset' || type === 'mask') {
+      // Presets and masks can be processed with controlled parallelism - no limit enforcement conflicts
+      // Limit to 5 concurrent uploads to prevent system overload with large zip files
+      const PRESET_CONCURRENCY_LIMIT = 5;
+      results = await promisePoolWithConcurrency(
+        allFileData,
+        async (fileData, index) => processFile(fileData, index),
+        PRESET_CONCURRENCY_LIMIT
+      );
+    } else {
+      // Selfies must be processed sequentially to prevent race conditions on limit enforcement
+      // Race condition scenario: 2 parallel uploads both COUNT=4, both INSERT → 6 selfies when limit is 5
+      results = [];
+      for (let i = 0; i < allFileData.length; i++) {
+        const result = await processFile(allFileData[i], i);
+        results.push(result);
       }
+    }
 
-      // If still no change, return null
-      if (preset_id === filename || !preset_id) return null;
+    // Check if any selfie was blocked by vision API - return specific error code
+    const visionBlockedResult = results.find(r => (r as any).visionBlocked === true);
+    if (visionBlockedResult) {
+      const visionStatusCode = (visionBlockedResult as any).visionStatusCode || 1001;
+      const visionDetails = (visionBlockedResult as any).visionDetails || {};
+      const debugEnabled = isDebugEnabled(env);
 
-      // Determine format based on original filename
-      const isJson = filename.toLowerCase().endsWith('.json');
-      const format = isJson ? 'lottie' : 'webp';
+      const flatColorDetails = (visionBlockedResult as any).flatColorDetails;
+      const flatColorReason = (visionBlockedResult as any).flatColorReason;
+      const selfieAnalysis = (visionBlockedResult as any).selfieAnalysis;
+      const debugPayload = debugEnabled ? compact({
+        vision: {
+          checked: true,
+          isSafe: false,
+          statusCode: visionStatusCode,
+          ...(flatColorReason ? { flatColorReason, flatColorDetails } : {}),
+          ...(selfieAnalysis ? { selfieAnalysis } : {}),
+          violationCategory: visionDetails.violationCategory,
+          violationLevel: visionDetails.violationLevel,
+          details: visionDetails.details,
+          rawResponse: visionDetails.rawResponse,
+          apiDebug: visionDetails.debug,
+          fullResult: visionDetails.fullSafeSearchResult,
+        },
+      }) : undefined;
 
-      return { preset_id, format };
+      return jsonResponse({
+        data: null,
+        status: 'error',
+        message: 'Upload failed',
+        code: visionStatusCode,
+        ...(debugPayload ? { debug: debugPayload } : {}),
+      }, 422, request, env); // HTTP status 422, but code field contains 1001-1005
     }
 
-    // Retry wrapper for upload operations
-    const retryUploadOperation = async <T>(
-      operation: () => Promise<T>,
-      maxRetries: number = 10,
-      initialDelay: number = 1000
-    ): Promise<T> => {
-      let lastError: Error | null = null;
-      
-      for (let attempt = 0; attempt < maxRetries; attempt++) {
-        try {
-          return await operation();
-        } catch (error) {
-          lastError = error instanceof Error ? error : new Error(String(error));
-          const errorMsg = lastError.message.toLowerCase();
-          
-          // Check if error is retryable (transient errors)
-          const isRetryable = 
-            errorMsg.includes('timeout') ||
-            errorMsg.includes('network') ||
-            errorMsg.includes('connection') ||
-            errorMsg.includes('rate limit') ||
-            errorMsg.includes('429') ||
-            errorMsg.includes('503') ||
-            errorMsg.includes('502') ||
-            errorMsg.includes('500') ||
-            errorMsg.includes('internal server error') ||
-            errorMsg.includes('service unavailable');
-          
-          // Don't retry on permanent errors (4xx except 429)
-          if (!isRetryable && attempt === 0) {
-            throw lastError;
-          }
-          
-          // If not last attempt, wait before retrying (exponential backoff with jitter)
-          if (attempt < maxRetries - 1) {
-            const baseDelay = initialDelay * Math.pow(2, attempt);
-            const jitter = Math.random() * 0.3 * baseDelay;
-            const delay = Math.min(baseDelay + jitter, 30000); // Cap at 30 seconds
-            console.warn(`[Upload Retry] Attempt ${attempt + 1}/${maxRetries} failed: ${lastError.message}. Retrying in ${Math.round(delay)}ms...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-          }
-        }
-      }
-      
-      // All retries exhausted
-      console.error(`[Upload Retry] All ${maxRetries} attempts failed. Last error: ${lastError?.message}`);
-      throw lastError || new Error('Upload operation failed after all retries');
-    };
+    const successful = results.filter(r => r.success);
+    const failed = results.filter(r => !r.success);
 
-    // ============================================================================
-    // MULTIPART UPLOAD API for large files (>100MB, up to 5GB)
-    // Cloudflare Workers have 100MB request limit (Pro plan), so use chunked upload
-    // ============================================================================
+    const debugEnabled = isDebugEnabled(env);
+    const vertexDebugData = results
+      .filter(r => r.success && (r.hasPrompt !== undefined || r.prompt_json || r.vertex_info))
+      .map(r => ({
+        hasPrompt: r.hasPrompt,
+        prompt_json: r.prompt_json,
+        vertex_info: r.vertex_info
+      }));
+
+    const visionDebugData = results
+      .filter(r => r.success && (r as any).visionCheck)
+      .map(r => buildVisionDebug((r as any).visionCheck));
+
+    const selfieDebugData = results
+      .filter(r => r.success && (r as any).selfieAnalysis)
+      .map(r => (r as any).selfieAnalysis);
+
+    const debugPayload = debugEnabled 
+      ? compact({
+          ...(vertexDebugData.length > 0 ? { vertex: vertexDebugData } : {}),
+          ...(visionDebugData.length > 0 ? { vision: visionDebugData.length === 1 ? visionDebugData[0] : visionDebugData } : {}),
+          ...(selfieDebugData.length > 0 ? { selfieAnalysis: selfieDebugData.length === 1 ? selfieDebugData[0] : selfieDebugData } : {})
+        })
+      : undefined;
+
+    // Determine response status based on success/failure counts
+    const allFailed = successful.length === 0 && failed.length > 0;
+    const partialSuccess = successful.length > 0 && failed.length > 0;
+    const httpStatus = allFailed ? 422 : 200;
+    const responseStatus = allFailed ? 'error' : (partialSuccess ? 'partial' : 'success');
+    const responseCode = allFailed ? 422 : 200;
+    const responseMessage = allFailed
+      ? `Upload failed: ${failed.length} file${failed.length !== 1 ? 's' : ''} failed`
+      : (partialSuccess
+        ? `Partial success: ${successful.length} of ${results.length} file${results.length !== 1 ? 's' : ''} uploaded`
+        : 'Processing successful');
+
+    return jsonResponse({
+      data: {
+        results: results.map(r => {
+          if (r.success) {
+            const result: any = {
+              id: r.id,
+              url: r.url,
+              filename: r.filename
+            };
+            // Include filter mode info if available (for presets)
+            if ((r as any).filter_mode_used !== undefined) {
+              result.filter_mode_used = (r as any).filter_mode_used;
+            }
+            if ((r as any).prompt_type) {
+              result.prompt_type = (r as any).prompt_type;
+            }
+            // Selfie accepted by the quality gate with SELFIE_QUALITY_CODES warnings
+            if ((r as any).warnings) {
+              result.warnings = (r as any).warnings;
+            }
+            return result;
+          } else {
+            return {
+              success: false,
+              error: r.error,
+              filename: r.filename
+            };
+          }
+        }),
+        count: results.length,
+        successful: successful.length,
+        failed: failed.length
+      },
+      status: responseStatus,
+      message: responseMessage,
+      code: responseCode,
+      ...(debugPayload ? { debug: debugPayload } : {})
+    }, httpStatus, request, env);
+  } catch (error) {
+    logCriticalError('/upload-url', error, request, env, {
+      path,
+      errorType: 'upload_error'
+    });
+    const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
+    const debugEnabled = isDebugEnabled(env);
+    return errorResponse(
+      `Upload failed: ${errorMsg}`, 
+      500,
+      debugEnabled ? { 
+        error: errorMsg,
+        path,
+        ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 500) } : {})
+      } : undefined,
+      request,
+      env
+    );
+  }
+};
 
-    // Step 1: Create multipart upload session
-    // POST /upload-multipart/create
-    // Body: { key: string, contentType?: string }
-    // Returns: { uploadId: string, key: string }
-    if (path === '/upload-multipart/create' && request.method === 'POST') {
-      try {
-        const body = await request.json() as { key: string; contentType?: string };
-        
-        if (!body.key) {
-          return errorResponse('key is required', 400, undefined, request, env);
-        }
+// Parse thumbnail filename to extract preset_id (filename without extension)
+// Example: "preset_123.webp" -> preset_id: "preset_123"
+// Example: "fs_beach-day-selfie_f1_2b.left.png" -> preset_id: "fs_beach-day-selfie_f1_2b"
+// Example: "fs_beach-day-selfie_f1_2b.left.webp" -> preset_id: "fs_beach-day-selfie_f1_2b"
+function parseThumbnailFilename(filename: string): { preset_id: string; format: string } | null {
+  if (!filename || !filename.trim()) return null;
 
-        const R2_BUCKET = getR2Bucket(env);
-        const key = `temp/multipart_${nanoid(16)}_${body.key.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
-        
-        const multipartUpload = await R2_BUCKET.createMultipartUpload(key, {
-          httpMetadata: {
-            contentType: body.contentType || 'application/octet-stream',
-          },
-        });
+  // Remove .left.png, .right.png, .left.webp, or .right.webp suffix first
+  let preset_id = filename.replace(/\.(left|right)\.(png|webp)$/i, '');
 
-        return successResponse({
-          uploadId: multipartUpload.uploadId,
-          key: multipartUpload.key
-        }, 200, request, env);
-      } catch (error) {
-        logCriticalError('/upload-multipart/create', error, request, env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        const debugEnabled = isDebugEnabled(env);
-        return errorResponse('Failed to create multipart upload', 500, debugEnabled ? { error: errorMsg.substring(0, 200) } : undefined, request, env);
-      }
-    }
+  // If no change, try removing other common extensions
+  if (preset_id === filename) {
+    preset_id = filename.replace(/\.(webp|json|png)$/i, '');
+  }
 
-    // Step 2: Upload a part (max 100MB per part, call multiple times for large files)
-    // PUT /upload-multipart/part?key=...&uploadId=...&partNumber=1
-    // Body: binary chunk data
-    // Returns: { partNumber: number, etag: string }
-    if (path === '/upload-multipart/part' && request.method === 'PUT') {
-      try {
-        const url = new URL(request.url);
-        const key = url.searchParams.get('key');
-        const uploadId = url.searchParams.get('uploadId');
-        const partNumber = parseInt(url.searchParams.get('partNumber') || '0', 10);
+  // If still no change, return null
+  if (preset_id === filename || !preset_id) return null;
 
-        if (!key || !uploadId || partNumber < 1) {
-          return errorResponse('key, uploadId, and partNumber (>=1) are required', 400, undefined, request, env);
-        }
+  // Determine format based on original filename
+  const isJson = filename.toLowerCase().endsWith('.json');
+  const format = isJson ? 'lottie' : 'webp';
 
-        const R2_BUCKET = getR2Bucket(env);
-        const multipartUpload = R2_BUCKET.resumeMultipartUpload(key, uploadId);
-        
-        const body = request.body;
-        if (!body) {
-          return errorResponse('No body provided', 400, undefined, request, env);
-        }
+  return { preset_id, format };
+}
 
-        const uploadedPart = await multipartUpload.uploadPart(partNumber, body);
+// Retry wrapper for upload operations
+const retryUploadOperation = async <T>(
+  operation: () => Promise<T>,
+  maxRetries: number = 10,
+  initialDelay: number = 1000
+): Promise<T> => {
+  let lastError: Error | null = null;
 
-        return successResponse({
-          partNumber: uploadedPart.partNumber,
-          etag: uploadedPart.etag
-        }, 200, request, env);
-      } catch (error) {
-        logCriticalError('/upload-multipart/part', error, request, env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        const debugEnabled = isDebugEnabled(env);
-        return errorResponse('Failed to upload part', 500, debugEnabled ? { error: errorMsg.substring(0, 200) } : undefined, request, env);
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      const errorMsg = lastError.message.toLowerCase();
+
+      // Check if error is retryable (transient errors)
+      const isRetryable = 
+        errorMsg.includes('timeout') ||
+        errorMsg.includes('network') ||
+        errorMsg.includes('connection') ||
+        errorMsg.includes('rate limit') ||
+        errorMsg.includes('429') ||
+        errorMsg.includes('503') ||
+        errorMsg.includes('502') ||
+        errorMsg.includes('500') ||
+        errorMsg.includes('internal server error') ||
+        errorMsg.includes('service unavailable');
+
+      // Don't retry on permanent errors (4xx except 429)
+      if (!isRetryable && attempt === 0) {
+        throw lastError;
       }
-    }
-
-    // Step 3: Complete multipart upload (assembles all parts)
-    // POST /upload-multipart/complete
-    // Body: { key: string, uploadId: string, parts: [{ partNumber: number, etag: string }, ...] }
-    // Returns: { key: string, completed: true }
-    if (path === '/upload-multipart/complete' && request.method === 'POST') {
-      try {
-        const body = await request.json() as { 
-          key: string; 
-          uploadId: string; 
-          parts: Array<{ partNumber: number; etag: string }> 
-        };
 
-        if (!body.key || !body.uploadId || !body.parts?.length) {
-          return errorResponse('key, uploadId, and parts array are required', 400, undefined, request, env);
-        }
-
-        const R2_BUCKET = getR2Bucket(env);
-        const multipartUpload = R2_BUCKET.resumeMultipartUpload(body.key, body.uploadId);
-        
-        await multipartUpload.complete(body.parts);
-
-        return successResponse({
-          key: body.key,
-          completed: true
-        }, 200, request, env);
-      } catch (error) {
-        logCriticalError('/upload-multipart/complete', error, request, env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        const debugEnabled = isDebugEnabled(env);
-        return errorResponse('Failed to complete multipart upload', 500, debugEnabled ? { error: errorMsg.substring(0, 200) } : undefined, request, env);
+      // If not last attempt, wait before retrying (exponential backoff with jitter)
+      if (attempt < maxRetries - 1) {
+        const baseDelay = initialDelay * Math.pow(2, attempt);
+        const jitter = Math.random() * 0.3 * baseDelay;
+        const delay = Math.min(baseDelay + jitter, 30000); // Cap at 30 seconds
+        console.warn(`[Upload Retry] Attempt ${attempt + 1}/${maxRetries} failed: ${lastError.message}. Retrying in ${Math.round(delay)}ms...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
       }
     }
+  }
 
-    // Cancel/abort multipart upload
-    // POST /upload-multipart/abort
-    // Body: { key: string, uploadId: string }
-    if (path === '/upload-multipart/abort' && request.method === 'POST') {
-      try {
-        const body = await request.json() as { key: string; uploadId: string };
+  // All retries exhausted
+  console.error(`[Upload Retry] All ${maxRetries} attempts failed. Last error: ${lastError?.message}`);
+  throw lastError || new Error('Upload operation failed after all retries');
+};
 
-        if (!body.key || !body.uploadId) {
-          return errorResponse('key and uploadId are required', 400, undefined, request, env);
-        }
+// ============================================================================
+// MULTIPART UPLOAD API for large files (>100MB, up to 5GB)
+// Cloudflare Workers have 100MB request limit (Pro plan), so use chunked upload
+// ============================================================================
 
-        const R2_BUCKET = getR2Bucket(env);
-        const multipartUpload = R2_BUCKET.resumeMultipartUpload(body.key, body.uploadId);
-        await multipartUpload.abort();
+// Step 1: Create multipart upload session
+// POST /upload-multipart/create
+// Body: { key: string, contentType?: string }
+// Returns: { uploadId: string, key: string }
+const handleMultipartCreate = async ({ request, env, R2_BUCKET }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as { key: string; contentType?: string };
 
-        return successResponse({ aborted: true }, 200, request, env);
-      } catch (error) {
-        logCriticalError('/upload-multipart/abort', error, request, env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        const debugEnabled = isDebugEnabled(env);
-        return errorResponse('Failed to abort multipart upload', 500, debugEnabled ? { error: errorMsg.substring(0, 200) } : undefined, request, env);
-      }
+    if (!body.key) {
+      return errorResponse('key is required', 400, undefined, request, env);
     }
 
-    // Handle direct R2 upload for files <100MB
-    // Endpoint: PUT /r2-upload/:key
-    if (path.startsWith('/r2-upload/') && request.method === 'PUT') {
-      try {
-        const uploadKey = decodeURIComponent(path.replace('/r2-upload/', ''));
-        const url = new URL(request.url);
-        const contentType = url.searchParams.get('contentType') || 'application/octet-stream';
-        
-        // Allow temp/ and try_results/ prefixes
-        if (!uploadKey || (!uploadKey.startsWith('temp/') && !uploadKey.startsWith('try_results/'))) {
-          return errorResponse('Invalid upload key', 400, { uploadKey }, request, env);
-        }
+    const key = `temp/multipart_${nanoid(16)}_${body.key.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
 
-        const R2_BUCKET = getR2Bucket(env);
-        
-        const body = request.body;
-        if (!body) {
-          return errorResponse('No body provided', 400, undefined, request, env);
-        }
+    const multipartUpload = await R2_BUCKET.createMultipartUpload(key, {
+      httpMetadata: {
+        contentType: body.contentType || 'application/octet-stream',
+      },
+    });
 
-        await R2_BUCKET.put(uploadKey, body, {
-          httpMetadata: {
-            contentType,
-            cacheControl: 'private, max-age=3600',
-          },
-        });
+    return successResponse({
+      uploadId: multipartUpload.uploadId,
+      key: multipartUpload.key
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/upload-multipart/create', error, request, env);
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    const debugEnabled = isDebugEnabled(env);
+    return errorResponse('Failed to create multipart upload', 500, debugEnabled ? { error: errorMsg.substring(0, 200) } : undefined, request, env);
+  }
+};
 
-        return successResponse({
-          key: uploadKey,
-          uploaded: true
-        }, 200, request, env);
-      } catch (error) {
-        logCriticalError('/r2-upload', error, request, env, {
-          uploadKey: path.replace('/r2-upload/', '')
-        });
-        const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
-        const debugEnabled = isDebugEnabled(env);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg } : undefined, request, env);
-      }
+// Step 2: Upload a part (max 100MB per part, call multiple times for large files)
+// PUT /upload-multipart/part?key=...&uploadId=...&partNumber=1
+// Body: binary chunk data
+// Returns: { partNumber: number, etag: string }
+const handleMultipartPart = async ({ request, env, R2_BUCKET }: RouteContext): Promise<Response> => {
+  try {
+    const url = new URL(request.url);
+    const key = url.searchParams.get('key');
+    const uploadId = url.searchParams.get('uploadId');
+    const partNumber = parseInt(url.searchParams.get('partNumber') || '0', 10);
+
+    if (!key || !uploadId || partNumber < 1) {
+      return errorResponse('key, uploadId, and partNumber (>=1) are required', 400, undefined, request, env);
     }
 
-    // Handle single thumbnail file processing - for client-side sequential uploads
+    const multipartUpload = R2_BUCKET.resumeMultipartUpload(key, uploadId);
 
+    const body = request.body;
+    if (!body) {
+      return errorResponse('No body provided', 400, undefined, request, env);
+    }
 
+    const uploadedPart = await multipartUpload.uploadPart(partNumber, body);
 
+    return successResponse({
+      partNumber: uploadedPart.partNumber,
+      etag: uploadedPart.etag
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/upload-multipart/part', error, request, env);
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    const debugEnabled = isDebugEnabled(env);
+    return errorResponse('Failed to upload part', 500, debugEnabled ? { error: errorMsg.substring(0, 200) } : undefined, request, env);
+  }
+};
 
+// Step 3: Complete multipart upload (assembles all parts)
+// POST /upload-multipart/complete
+// Body: { key: string, uploadId: string, parts: [{ partNumber: number, etag: string }, ...] }
+// Returns: { key: string, completed: true }
+const handleMultipartComplete = async ({ request, env, R2_BUCKET }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as { 
+      key: string; 
+      uploadId: string; 
+      parts: Array<{ partNumber: number; etag: string }> 
+    };
 
+    if (!body.key || !body.uploadId || !body.parts?.length) {
+      return errorResponse('key, uploadId, and parts array are required', 400, undefined, request, env);
+    }
 
-    if (path === '/process-thumbnail-file' && request.method === 'POST') {
-      try {
-        return await retryUploadOperation(async () => {
-        const contentType = request.headers.get('Content-Type') || '';
-        const DB = getD1Database(env);
-        const R2_BUCKET = getR2Bucket(env);
-        const requestUrl = new URL(request.url);
-        
-        // Check if this is a preset prompt generation request (R2 key/URL provided)
-        if (contentType.toLowerCase().includes('application/json')) {
-          const body = await request.json() as {
-            r2_key?: string;
-            r2_url?: string;
-            filename?: string;
-            preset_id?: string;
-            is_filter_mode?: boolean;
-            custom_prompt_text?: string;
-          };
-          
-          // For preset prompt generation: require R2 key or URL
-          if (body.r2_key || body.r2_url) {
-            const r2Key = body.r2_key || (body.r2_url ? extractR2KeyFromUrl(body.r2_url) : null);
-            if (!r2Key) {
-              return errorResponse('Invalid R2 key or URL', 400, undefined, request, env);
-            }
-            
-            // Extract preset_id from R2 key or body
-            let presetId = body.preset_id;
-            if (!presetId) {
-              const filename = body.filename || r2Key.split('/').pop() || '';
-              const parsed = parseThumbnailFilename(filename);
-              if (!parsed) {
-                return errorResponse('Could not extract preset_id from filename or R2 key', 400, undefined, request, env);
-              }
-              presetId = parsed.preset_id;
-            }
-            
-            // Verify file exists in R2
-            const existingObject = await R2_BUCKET.head(r2Key);
-            if (!existingObject) {
-              return errorResponse(`File not found in R2: ${r2Key}`, 404, undefined, request, env);
-            }
-            
-            // Generate Vertex AI prompt
-            const publicUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-            const isFilterMode = body.is_filter_mode === true;
-            const promptResult = await generateVertexPromptWithRetry(publicUrl, env, isFilterMode, body.custom_prompt_text || null);
-            
-            if (!promptResult.success || !promptResult.prompt) {
-              return errorResponse(
-                `Vertex AI prompt generation failed: ${promptResult.error || 'Unknown error'}`,
-                500,
-                { vertex_info: { success: false, error: promptResult.error, debug: promptResult.debug } },
-                request,
-                env
-              );
-            }
-            
-            // Update R2 metadata with prompt JSON
-            const promptJson = JSON.stringify(promptResult.prompt);
-            const fileData = await (await R2_BUCKET.get(r2Key))?.arrayBuffer();
-            if (!fileData) {
-              return errorResponse('Failed to read file from R2', 500, undefined, request, env);
-            }
-            
-            const contentType = existingObject.httpMetadata?.contentType || 'application/octet-stream';
-            await R2_BUCKET.put(r2Key, fileData, {
-              httpMetadata: {
-                contentType,
-                cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
-              },
-              customMetadata: {
-                prompt_json: promptJson
-              }
-            });
-            
-            // Delete KV cache for this preset (invalidate old cached prompt)
-            const promptCacheKV = getPromptCacheKV(env);
-            if (promptCacheKV) {
-              const cacheKey = `prompt:${presetId}`;
-              try {
-                await promptCacheKV.delete(cacheKey);
-                console.log(`[process-thumbnail-file] Deleted KV cache for ${cacheKey}`);
-              } catch (kvError) {
-                console.warn(`[process-thumbnail-file] Failed to delete KV cache for ${cacheKey}:`, kvError);
-              }
-            }
+    const multipartUpload = R2_BUCKET.resumeMultipartUpload(body.key, body.uploadId);
 
-            // Update database (prompt_json is stored in R2 metadata, not in D1)
-            const existingPreset = await DB.prepare('SELECT id FROM presets WHERE id = ?').bind(presetId).first();
-            if (existingPreset) {
-              await DB.prepare('UPDATE presets SET updated_at = datetime(\'now\') WHERE id = ?').bind(presetId).run();
-            } else {
-              const ext = r2Key.split('.').pop() || 'webp';
-              await DB.prepare('INSERT INTO presets (id, ext, created_at, updated_at) VALUES (?, ?, datetime(\'now\'), datetime(\'now\'))').bind(presetId, ext).run();
-            }
+    await multipartUpload.complete(body.parts);
 
-            return successResponse({
-              success: true,
-              preset_id: presetId,
-              r2_key: r2Key,
-              url: publicUrl,
-              hasPrompt: true,
-              kvCacheDeleted: true,
-              vertex_info: { success: true, promptKeys: Object.keys(promptResult.prompt) }
-            }, 200, request, env);
-          }
-          
-          return errorResponse('r2_key or r2_url is required for preset prompt generation', 400, undefined, request, env);
-        }
-        
-        // Handle file upload (thumbnail files or zip files)
-        const formData = await request.formData();
-        const zipFile = formData.get('zip') as File | null;
-        // Support both thumbnail_formats (comma-separated) and thumbnail_format (single)
-        const thumbnailFormatsRaw = (formData.get('thumbnail_formats') as string | null) || (formData.get('thumbnail_format') as string | null) || 'webp';
-        const thumbnailFormats = thumbnailFormatsRaw.split(',').map(f => f.trim()).filter(f => f);
-        const isFilterMode = formData.get('is_filter_mode') === 'true';
-        const customPromptText = formData.get('custom_prompt_text') as string | null;
-
-        // Check if this is a zip file upload for preset processing
-        if (zipFile && zipFile.type === 'application/zip') {
-
-          const zipData = await zipFile.arrayBuffer();
-          const zip = await JSZip.loadAsync(zipData);
-
-          const results: any[] = [];
-          let successful = 0;
-          let failed = 0;
-          let presetsProcessed = 0;
-          let presetsWithPrompts = 0;
-
-          // Extract PNG files from preset folder in zip, preserving folder structure
-          const presetFiles: Array<{ filename: string; relativePath: string; zipEntry: JSZip.JSZipObject }> = [];
-          zip.forEach((path: string, entry: JSZip.JSZipObject) => {
-            if (!entry.dir && path.toLowerCase().startsWith('preset/') && (path.toLowerCase().endsWith('.webp') || path.toLowerCase().endsWith('.png'))) {
-              const filename = path.split('/').pop() || path;
-              // Preserve relative path from zip (e.g., "preset/subfolder/file.png")
-              const relativePath = path.replace(/\\/g, '/');
-              presetFiles.push({ filename, relativePath, zipEntry: entry });
-            }
-          });
+    return successResponse({
+      key: body.key,
+      completed: true
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/upload-multipart/complete', error, request, env);
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    const debugEnabled = isDebugEnabled(env);
+    return errorResponse('Failed to complete multipart upload', 500, debugEnabled ? { error: errorMsg.substring(0, 200) } : undefined, request, env);
+  }
+};
 
-          if (presetFiles.length === 0) {
-            return errorResponse('No PNG files found in the preset folder. Zip file must contain PNG files in a "preset/" folder.', 400, undefined, request, env);
-          }
+// Cancel/abort multipart upload
+// POST /upload-multipart/abort
+// Body: { key: string, uploadId: string }
+const handleMultipartAbort = async ({ request, env, R2_BUCKET }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as { key: string; uploadId: string };
 
-          if (presetFiles.length === 0) {
-            return errorResponse('No PNG files found in the preset folder', 400, undefined, request, env);
-          }
+    if (!body.key || !body.uploadId) {
+      return errorResponse('key and uploadId are required', 400, undefined, request, env);
+    }
 
+    const multipartUpload = R2_BUCKET.resumeMultipartUpload(body.key, body.uploadId);
+    await multipartUpload.abort();
 
-          // Process preset files in parallel with controlled concurrency
-          const processPresetFile = async ({ filename, relativePath, zipEntry }: { filename: string; relativePath: string; zipEntry: JSZip.JSZipObject }) => {
-            try {
-              const parsed = parseThumbnailFilename(filename);
-              if (!parsed) {
-                return {
-                  success: false,
-                  filename,
-                  error: 'Invalid filename format. Could not extract preset_id from filename.'
-                };
-              }
+    return successResponse({ aborted: true }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/upload-multipart/abort', error, request, env);
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    const debugEnabled = isDebugEnabled(env);
+    return errorResponse('Failed to abort multipart upload', 500, debugEnabled ? { error: errorMsg.substring(0, 200) } : undefined, request, env);
+  }
+};
 
-              const { preset_id: presetId } = parsed;
-              const fileDataUint8 = await zipEntry.async('uint8array');
+// Handle direct R2 upload for files <100MB
+// Endpoint: PUT /r2-upload/:key
+const handleR2Upload = async ({ request, env, R2_BUCKET, params }: RouteContext): Promise<Response> => {
+  try {
+    const uploadKey = decodeURIComponent(params.key);
+    const url = new URL(request.url);
+    const contentType = url.searchParams.get('contentType') || 'application/octet-stream';
 
-              if (!fileDataUint8 || fileDataUint8.length === 0) {
-                return {
-                  success: false,
-                  filename,
-                  error: 'File is empty'
-                };
-              }
+    // Allow temp/ and try_results/ prefixes
+    if (!uploadKey || (!uploadKey.startsWith('temp/') && !uploadKey.startsWith('try_results/'))) {
+      return errorResponse('Invalid upload key', 400, { uploadKey }, request, env);
+    }
 
-              // Convert Uint8Array to ArrayBuffer
-              const fileData = new ArrayBuffer(fileDataUint8.length);
-              new Uint8Array(fileData).set(fileDataUint8);
 
-              // Upload to temp location first for prompt generation
-              const tempR2Key = `temp/${presetId}_${Date.now()}.${filename.split('.').pop()}`;
-              await R2_BUCKET.put(tempR2Key, fileData, {
-                httpMetadata: {
-                  contentType: 'image/png',
-                  cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
-                },
-              });
+    const body = request.body;
+    if (!body) {
+      return errorResponse('No body provided', 400, undefined, request, env);
+    }
 
-              const tempPublicUrl = getR2PublicUrl(env, tempR2Key, requestUrl.origin);
+    await R2_BUCKET.put(uploadKey, body, {
+      httpMetadata: {
+        contentType,
+        cacheControl: 'private, max-age=3600',
+      },
+    });
 
-              // Generate Vertex AI prompt with retry
-              const promptResult = await generateVertexPromptWithRetry(tempPublicUrl, env, isFilterMode, customPromptText);
+    return successResponse({
+      key: uploadKey,
+      uploaded: true
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/r2-upload', error, request, env, {
+      uploadKey: params.key
+    });
+    const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
+    const debugEnabled = isDebugEnabled(env);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg } : undefined, request, env);
+  }
+};
 
-              // Clean up temp file
-              try {
-                await R2_BUCKET.delete(tempR2Key);
-              } catch (e) {
-                // Ignore cleanup errors
-              }
+// Handle single thumbnail file processing - for client-side sequential uploads
+const handleProcessThumbnailFile = async ({ request, env, DB, R2_BUCKET, requestUrl, path }: RouteContext): Promise<Response> => {
+  try {
+    return await retryUploadOperation(async () => {
+    const contentType = request.headers.get('Content-Type') || '';
+
+    // Check if this is a preset prompt generation request (R2 key/URL provided)
+    if (contentType.toLowerCase().includes('application/json')) {
+      const body = await request.json() as {
+        r2_key?: string;
+        r2_url?: string;
+        filename?: string;
+        preset_id?: string;
+        is_filter_mode?: boolean;
+        custom_prompt_text?: string;
+      };
 
-              if (!promptResult.success || !promptResult.prompt) {
-                return {
-                  success: false,
-                  filename,
-                  error: `Vertex AI prompt generation failed: ${promptResult.error || 'Unknown error'}`
-                };
-              }
+      // For preset prompt generation: require R2 key or URL
+      if (body.r2_key || body.r2_url) {
+        const r2Key = body.r2_key || (body.r2_url ? extractR2KeyFromUrl(body.r2_url) : null);
+        if (!r2Key) {
+          return errorResponse('Invalid R2 key or URL', 400, undefined, request, env);
+        }
 
-              // Upload preset to final location with prompt metadata
-              // Zip structure is always preset/*.webp, so use only "preset" folder (ignore any nested structure)
-              // Filter out any path segments that have file extensions (these are filenames, not folders)
-              const pathParts = relativePath.split('/').filter(p => p);
-              pathParts.pop(); // Remove original filename
-              // Filter out segments with file extensions (misnamed folders/filenames) and keep only valid folder names
-              const cleanPathParts = pathParts.filter(part => !/\.(webp|png|json|jpg|jpeg|gif)$/i.test(part));
-              // Use "preset" if it exists in path, otherwise use first valid folder or default to "preset"
-              const folderPath = cleanPathParts.includes('preset') ? 'preset' : (cleanPathParts.length > 0 ? cleanPathParts[0] : 'preset');
-              // Construct R2 key: preset/presetId.webp
-              const presetR2Key = `${folderPath}/${presetId}.webp`;
-              const promptJson = JSON.stringify(promptResult.prompt);
-
-              
-              // Retry R2 upload operation with exponential backoff
-              let uploadSuccess = false;
-              let lastUploadError: Error | null = null;
-              const maxUploadRetries = 10;
-              
-              for (let uploadAttempt = 0; uploadAttempt < maxUploadRetries; uploadAttempt++) {
-                try {
-                  await R2_BUCKET.put(presetR2Key, fileData, {
-                    httpMetadata: {
-                      contentType: 'image/webp',
-                      cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
-                    },
-                    customMetadata: {
-                      prompt_json: promptJson
-                    }
-                  });
-                  
-                  // Verify upload succeeded by checking if file exists
-                  const verifyUpload = await R2_BUCKET.head(presetR2Key);
-                  if (!verifyUpload) {
-                    throw new Error('Upload verification failed: file not found after upload');
-                  }
-                  
-                  uploadSuccess = true;
-                  break;
-                } catch (uploadError) {
-                  lastUploadError = uploadError instanceof Error ? uploadError : new Error(String(uploadError));
-                  const errorMsg = lastUploadError.message.toLowerCase();
-                  
-                  // Check if error is retryable
-                  const isRetryable = 
-                    errorMsg.includes('unspecified error') ||
-                    errorMsg.includes('timeout') ||
-                    errorMsg.includes('network') ||
-                    errorMsg.includes('connection') ||
-                    errorMsg.includes('500') ||
-                    errorMsg.includes('503') ||
-                    errorMsg.includes('502') ||
-                    uploadAttempt < maxUploadRetries - 1;
-                  
-                  if (!isRetryable || uploadAttempt === maxUploadRetries - 1) {
-                    break;
-                  }
-                  
-                  // Exponential backoff with jitter
-                  const baseDelay = 1000 * Math.pow(2, uploadAttempt);
-                  const jitter = Math.random() * 0.3 * baseDelay;
-                  const delay = Math.min(baseDelay + jitter, 10000);
-                  console.warn(`[process-thumbnail-file] R2 upload attempt ${uploadAttempt + 1}/${maxUploadRetries} failed for ${presetId}: ${lastUploadError.message}. Retrying in ${Math.round(delay)}ms...`);
-                  await new Promise(resolve => setTimeout(resolve, delay));
-                }
-              }
-              
-              if (!uploadSuccess) {
-                const uploadErrorMsg = lastUploadError?.message || 'Unknown error';
-                console.error(`[process-thumbnail-file] Failed to upload preset ${presetId} to R2 after ${maxUploadRetries} attempts:`, uploadErrorMsg);
-                return {
-                  success: false,
-                  filename,
-                  error: `Failed to upload preset to R2: ${uploadErrorMsg}`
-                };
-              }
+        // Extract preset_id from R2 key or body
+        let presetId = body.preset_id;
+        if (!presetId) {
+          const filename = body.filename || r2Key.split('/').pop() || '';
+          const parsed = parseThumbnailFilename(filename);
+          if (!parsed) {
+            return errorResponse('Could not extract preset_id from filename or R2 key', 400, undefined, request, env);
+          }
+          presetId = parsed.preset_id;
+        }
 
-              const presetPublicUrl = getR2PublicUrl(env, presetR2Key, requestUrl.origin);
+        // Verify file exists in R2
+        const existingObject = await R2_BUCKET.head(r2Key);
+        if (!existingObject) {
+          return errorResponse(`File not found in R2: ${r2Key}`, 404, undefined, request, env);
+        }
 
-              // Create placeholder thumbnail entries for all resolutions and ALL selected formats
-              // These will be replaced when actual thumbnail files are uploaded via yyy.zip
-              const resolutions = ['1x', '1.5x', '2x', '3x', '4x'];
+        // Generate Vertex AI prompt
+        const publicUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
+        const isFilterMode = body.is_filter_mode === true;
+        const promptResult = await generateVertexPromptWithRetry(publicUrl, env, isFilterMode, body.custom_prompt_text || null);
 
-              let thumbnailData: Record<string, string> = {};
-              // Generate paths for each selected format (webp, json/lottie, avif, lottie_avif)
-              for (const format of thumbnailFormats) {
-                const ext = format === 'json' ? 'json' : 'webp';
-                const formatPrefix = format === 'json' ? 'lottie' : 'webp';
-                resolutions.forEach(res => {
-                  thumbnailData[`${formatPrefix}_${res}`] = `preset_thumb/${formatPrefix}_${res}/${presetId}.${ext}`;
-                });
-                // Also add avif variants if webp is selected
-                if (format === 'webp') {
-                  resolutions.forEach(res => {
-                    thumbnailData[`webp_avif_${res}`] = `preset_thumb/webp_avif_${res}/${presetId}.avif`;
-                  });
-                }
-                // Also add lottie_avif variants if json/lottie is selected
-                if (format === 'json') {
-                  resolutions.forEach(res => {
-                    thumbnailData[`lottie_avif_${res}`] = `preset_thumb/lottie_avif_${res}/${presetId}.avif`;
-                  });
-                }
-              }
+        if (!promptResult.success || !promptResult.prompt) {
+          return errorResponse(
+            `Vertex AI prompt generation failed: ${promptResult.error || 'Unknown error'}`,
+            500,
+            { vertex_info: { success: false, error: promptResult.error, debug: promptResult.debug } },
+            request,
+            env
+          );
+        }
 
-              // Use first format's 4x as primary thumbnail URL
-              const primaryFormat = thumbnailFormats[0] || 'webp';
-              const primaryPrefix = primaryFormat === 'json' ? 'lottie' : 'webp';
-              let thumbnailUrl: string | null = getR2PublicUrl(env, thumbnailData[`${primaryPrefix}_4x`], requestUrl.origin);
-
-              // Update database
-              const existingPreset = await DB.prepare('SELECT id, thumbnail_r2, created_at FROM presets WHERE id = ?').bind(presetId).first();
-              const createdAt = existingPreset && (existingPreset as any).created_at
-                ? (existingPreset as any).created_at
-                : Math.floor(Date.now() / 1000);
-
-              // Merge with existing thumbnail data if any
-              if (existingPreset && (existingPreset as any).thumbnail_r2) {
-                try {
-                  const existingThumbnailData = JSON.parse((existingPreset as any).thumbnail_r2 as string);
-                  thumbnailData = { ...existingThumbnailData, ...thumbnailData };
-                } catch (e) {
-                  // If parsing fails, use new data
-                }
-              }
+        // Update R2 metadata with prompt JSON
+        const promptJson = JSON.stringify(promptResult.prompt);
+        const fileData = await (await R2_BUCKET.get(r2Key))?.arrayBuffer();
+        if (!fileData) {
+          return errorResponse('Failed to read file from R2', 500, undefined, request, env);
+        }
 
-              // Use INSERT OR REPLACE to avoid UNIQUE constraint violations (prompt_json is stored in R2 metadata, not in D1)
-              await DB.prepare(
-                'INSERT OR REPLACE INTO presets (id, ext, created_at, thumbnail_r2) VALUES (?, ?, ?, ?)'
-              ).bind(
-                presetId,
-                'webp',
-                createdAt,
-                JSON.stringify(thumbnailData)
-              ).run();
-
-              // Delete KV cache for this preset (invalidate old cached prompt)
-              const promptCacheKV = getPromptCacheKV(env);
-              if (promptCacheKV) {
-                const cacheKey = `prompt:${presetId}`;
-                try {
-                  await promptCacheKV.delete(cacheKey);
-                  console.log(`[process-thumbnail-file] Deleted KV cache for ${cacheKey}`);
-                } catch (kvError) {
-                  console.warn(`[process-thumbnail-file] Failed to delete KV cache for ${cacheKey}:`, kvError);
-                }
-              }
+        const contentType = existingObject.httpMetadata?.contentType || 'application/octet-stream';
+        await R2_BUCKET.put(r2Key, fileData, {
+          httpMetadata: {
+            contentType,
+            cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
+          },
+          customMetadata: {
+            prompt_json: promptJson
+          }
+        });
 
-              return {
-                success: true,
-                type: 'preset',
-                preset_id: presetId,
-                url: presetPublicUrl,
-                hasPrompt: true,
-                kvCacheDeleted: true,
-                vertex_info: { success: true, promptKeys: Object.keys(promptResult.prompt) },
-                thumbnail_url: thumbnailUrl,
-                thumbnail_formats: thumbnailFormats,
-                thumbnail_created: true
-              };
+        // Delete KV cache for this preset (invalidate old cached prompt)
+        const promptCacheKV = getPromptCacheKV(env);
+        if (promptCacheKV) {
+          const cacheKey = `prompt:${presetId}`;
+          try {
+            await promptCacheKV.delete(cacheKey);
+            console.log(`[process-thumbnail-file] Deleted KV cache for ${cacheKey}`);
+          } catch (kvError) {
+            console.warn(`[process-thumbnail-file] Failed to delete KV cache for ${cacheKey}:`, kvError);
+          }
+        }
 
-            } catch (fileError) {
-              const errorMsg = fileError instanceof Error ? fileError.message : String(fileError);
-              return {
-                success: false,
-                filename,
-                error: errorMsg.substring(0, 200)
-              };
-            }
-          };
+        // Update database (prompt_json is stored in R2 metadata, not in D1)
+        const existingPreset = await DB.prepare('SELECT id FROM presets WHERE id = ?').bind(presetId).first();
+        if (existingPreset) {
+          await DB.prepare('UPDATE presets SET updated_at = datetime(\'now\') WHERE id = ?').bind(presetId).run();
+        } else {
+          const ext = r2Key.split('.').pop() || 'webp';
+          await DB.prepare('INSERT INTO presets (id, ext, created_at, updated_at) VALUES (?, ?, datetime(\'now\'), datetime(\'now\'))').bind(presetId, ext).run();
+        }
 
-          // Process preset files with concurrency limit (5 at a time to prevent timeout)
-          const concurrency = 5;
-          const startTime = Date.now();
-          const MAX_PROCESSING_TIME = 25000; // 25 seconds max
-          let processedCount = 0;
-          let timeoutReached = false;
-
-          for (let i = 0; i < presetFiles.length; i += concurrency) {
-            // Check if we're running out of time
-            const elapsed = Date.now() - startTime;
-            if (elapsed > MAX_PROCESSING_TIME) {
-              console.warn(`[process-thumbnail-file] Timeout approaching, stopping processing. Processed ${processedCount}/${presetFiles.length} files`);
-              timeoutReached = true;
-              break;
-            }
+        return successResponse({
+          success: true,
+          preset_id: presetId,
+          r2_key: r2Key,
+          url: publicUrl,
+          hasPrompt: true,
+          kvCacheDeleted: true,
+          vertex_info: { success: true, promptKeys: Object.keys(promptResult.prompt) }
+        }, 200, request, env);
+      }
 
-            const batch = presetFiles.slice(i, i + concurrency);
+      return errorResponse('r2_key or r2_url is required for preset prompt generation', 400, undefined, request, env);
+    }
 
-            const batchResults = await Promise.all(batch.map(processPresetFile));
-            processedCount += batch.length;
+    // Handle file upload (thumbnail files or zip files)
+    const formData = await request.formData();
+    const zipFile = formData.get('zip') as File | null;
+    // Support both thumbnail_formats (comma-separated) and thumbnail_format (single)
+    const thumbnailFormatsRaw = (formData.get('thumbnail_formats') as string | null) || (formData.get('thumbnail_format') as string | null) || 'webp';
+    const thumbnailFormats = thumbnailFormatsRaw.split(',').map(f => f.trim()).filter(f => f);
+    const isFilterMode = formData.get('is_filter_mode') === 'true';
+    const customPromptText = formData.get('custom_prompt_text') as string | null;
+
+    // Check if this is a zip file upload for preset processing
+    if (zipFile && zipFile.type === 'application/zip') {
+
+      const zipData = await zipFile.arrayBuffer();
+      const zip = await JSZip.loadAsync(zipData);
+
+      const results: any[] = [];
+      let successful = 0;
+      let failed = 0;
+      let presetsProcessed = 0;
+      let presetsWithPrompts = 0;
+
+      // Extract PNG files from preset folder in zip, preserving folder structure
+      const presetFiles: Array<{ filename: string; relativePath: string; zipEntry: JSZip.JSZipObject }> = [];
+      zip.forEach((path: string, entry: JSZip.JSZipObject) => {
+        if (!entry.dir && path.toLowerCase().startsWith('preset/') && (path.toLowerCase().endsWith('.webp') || path.toLowerCase().endsWith('.png'))) {
+          const filename = path.split('/').pop() || path;
+          // Preserve relative path from zip (e.g., "preset/subfolder/file.png")
+          const relativePath = path.replace(/\\/g, '/');
+          presetFiles.push({ filename, relativePath, zipEntry: entry });
+        }
+      });
+
+      if (presetFiles.length === 0) {
+        return errorResponse('No PNG files found in the preset folder. Zip file must contain PNG files in a "preset/" folder.', 400, undefined, request, env);
+      }
 
-            for (const result of batchResults) {
-              if (result.success) {
-                successful++;
-                results.push(result);
-                presetsProcessed++;
-                if (result.hasPrompt) {
-                  presetsWithPrompts++;
-                }
-              } else {
-                failed++;
-                results.push(result);
-              }
-            }
+      if (presetFiles.length === 0) {
+        return errorResponse('No PNG files found in the preset folder', 400, undefined, request, env);
+      }
 
-            // Small delay to prevent overwhelming the system
-            if (i + concurrency < presetFiles.length) {
-              await new Promise(resolve => setTimeout(resolve, 100));
-            }
+
+      // Process preset files in parallel with controlled concurrency
+      const processPresetFile = async ({ filename, relativePath, zipEntry }: { filename: string; relativePath: string; zipEntry: JSZip.JSZipObject }) => {
+        try {
+          const parsed = parseThumbnailFilename(filename);
+          if (!parsed) {
+            return {
+              success: false,
+              filename,
+              error: 'Invalid filename format. Could not extract preset_id from filename.'
+            };
           }
 
-          const totalTime = Date.now() - startTime;
+          const { preset_id: presetId } = parsed;
+          const fileDataUint8 = await zipEntry.async('uint8array');
 
-          return successResponse({
-            success: true,
-            total: presetFiles.length,
-            processed: processedCount,
-            successful,
-            failed,
-            presets_processed: presetsProcessed,
-            presets_with_prompts: presetsWithPrompts,
-            timeout_reached: timeoutReached,
-            processing_time_ms: totalTime,
-            thumbnail_formats: thumbnailFormats
-          }, 200, request, env);
-        }
+          if (!fileDataUint8 || fileDataUint8.length === 0) {
+            return {
+              success: false,
+              filename,
+              error: 'File is empty'
+            };
+          }
 
-        // Handle single file upload (thumbnail files)
-        const file = formData.get('file') as File | null;
-        const filePath = (formData.get('path') as string | null) || '';
+          // Convert Uint8Array to ArrayBuffer
+          const fileData = new ArrayBuffer(fileDataUint8.length);
+          new Uint8Array(fileData).set(fileDataUint8);
 
-        if (!file) {
-          return errorResponse('file is required', 400, undefined, request, env);
-        }
-        
-        const filename = file.name;
-        const basename = filename.split('/').pop() || filename.split('\\').pop() || filename;
-        const parsed = parseThumbnailFilename(basename);
-        
-        if (!parsed) {
-          return errorResponse('Invalid filename format. Could not extract preset_id from filename.', 400, undefined, request, env);
-        }
-        
-        const { preset_id: presetId, format } = parsed;
-        const normalizedPath = filePath.replace(/\\/g, '/').toLowerCase();
-        
-        // Determine if this is a preset file or thumbnail
-        const pathParts = normalizedPath.split('/').filter(p => p);
-        const isFromPresetFolder = 
-          normalizedPath.includes('preset/') || 
-          normalizedPath.startsWith('preset/') || 
-          normalizedPath.includes('/preset/') ||
-          normalizedPath === 'preset' ||
-          (pathParts.length > 0 && pathParts[0] === 'preset') ||
-          (!normalizedPath && (filename.toLowerCase().endsWith('.webp') || filename.toLowerCase().endsWith('.png')));
-        
-        if (isFromPresetFolder) {
-          // Preset file processing
-          const fileData = await file.arrayBuffer();
-          const contentType = file.type || 'image/png';
-          // Support both thumbnail_formats (comma-separated) and thumbnail_format (single)
-          const singleFileThumbnailFormatsRaw = (formData.get('thumbnail_formats') as string | null) || (formData.get('thumbnail_format') as string | null) || 'webp';
-          const singleFileThumbnailFormats = singleFileThumbnailFormatsRaw.split(',').map(f => f.trim()).filter(f => f);
-          
           // Upload to temp location first for prompt generation
           const tempR2Key = `temp/${presetId}_${Date.now()}.${filename.split('.').pop()}`;
           await R2_BUCKET.put(tempR2Key, fileData, {
             httpMetadata: {
-              contentType,
+              contentType: 'image/png',
               cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
             },
           });
-          
+
           const tempPublicUrl = getR2PublicUrl(env, tempR2Key, requestUrl.origin);
-          const isFilterMode = formData.get('is_filter_mode') === 'true';
-          const customPromptText = formData.get('custom_prompt_text') as string | null;
-          
+
           // Generate Vertex AI prompt with retry
           const promptResult = await generateVertexPromptWithRetry(tempPublicUrl, env, isFilterMode, customPromptText);
-          
+
           // Clean up temp file
           try {
             await R2_BUCKET.delete(tempR2Key);
           } catch (e) {
             // Ignore cleanup errors
           }
-          
+
           if (!promptResult.success || !promptResult.prompt) {
-            return errorResponse(
-              `Vertex AI prompt generation failed: ${promptResult.error || 'Unknown error'}`,
-              500,
-              { vertex_info: { success: false, error: promptResult.error, debug: promptResult.debug } },
-              request,
-              env
-            );
-          }
-          
-          // Upload preset to final location with prompt metadata, preserving exact folder structure
-          // Extract folder structure from filePath (e.g., "preset/subfolder/file.png" -> "preset/subfolder")
-          let folderPath = 'preset';
-          if (filePath) {
-            const normalizedPath = filePath.replace(/\\/g, '/');
-            const pathParts = normalizedPath.split('/').filter(p => p && p !== basename);
-            // Filter out any path segments that match presetId to prevent duplicates
-            const cleanPathParts = pathParts.filter(part => {
-              const partWithoutExt = part.replace(/\.(webp|png|json)$/i, '');
-              return partWithoutExt !== presetId;
-            });
-            if (cleanPathParts.length > 0) {
-              folderPath = cleanPathParts.join('/');
-            }
+            return {
+              success: false,
+              filename,
+              error: `Vertex AI prompt generation failed: ${promptResult.error || 'Unknown error'}`
+            };
           }
-          // Construct R2 key using exact folder structure from zip (preset/*.webp -> preset/presetId.webp)
+
+          // Upload preset to final location with prompt metadata
+          // Zip structure is always preset/*.webp, so use only "preset" folder (ignore any nested structure)
+          // Filter out any path segments that have file extensions (these are filenames, not folders)
+          const pathParts = relativePath.split('/').filter(p => p);
+          pathParts.pop(); // Remove original filename
+          // Filter out segments with file extensions (misnamed folders/filenames) and keep only valid folder names
+          const cleanPathParts = pathParts.filter(part => !/\.(webp|png|json|jpg|jpeg|gif)$/i.test(part));
+          // Use "preset" if it exists in path, otherwise use first valid folder or default to "preset"
+          const folderPath = cleanPathParts.includes('preset') ? 'preset' : (cleanPathParts.length > 0 ? cleanPathParts[0] : 'preset');
+          // Construct R2 key: preset/presetId.webp
           const presetR2Key = `${folderPath}/${presetId}.webp`;
           const promptJson = JSON.stringify(promptResult.prompt);
-          
-          
+
+
           // Retry R2 upload operation with exponential backoff
           let uploadSuccess = false;
           let lastUploadError: Error | null = null;
           const maxUploadRetries = 10;
-          
+
           for (let uploadAttempt = 0; uploadAttempt < maxUploadRetries; uploadAttempt++) {
             try {
               await R2_BUCKET.put(presetR2Key, fileData, {
@@ -2938,19 +2799,19 @@ export default {
                   prompt_json: promptJson
                 }
               });
-              
+
               // Verify upload succeeded by checking if file exists
               const verifyUpload = await R2_BUCKET.head(presetR2Key);
               if (!verifyUpload) {
                 throw new Error('Upload verification failed: file not found after upload');
               }
-              
+
               uploadSuccess = true;
               break;
             } catch (uploadError) {
               lastUploadError = uploadError instanceof Error ? uploadError : new Error(String(uploadError));
               const errorMsg = lastUploadError.message.toLowerCase();
-              
+
               // Check if error is retryable
               const isRetryable = 
                 errorMsg.includes('unspecified error') ||
@@ -2961,11 +2822,11 @@ export default {
                 errorMsg.includes('503') ||
                 errorMsg.includes('502') ||
                 uploadAttempt < maxUploadRetries - 1;
-              
+
               if (!isRetryable || uploadAttempt === maxUploadRetries - 1) {
                 break;
               }
-              
+
               // Exponential backoff with jitter
               const baseDelay = 1000 * Math.pow(2, uploadAttempt);
               const jitter = Math.random() * 0.3 * baseDelay;
@@ -2974,19 +2835,17 @@ export default {
               await new Promise(resolve => setTimeout(resolve, delay));
             }
           }
-          
+
           if (!uploadSuccess) {
             const uploadErrorMsg = lastUploadError?.message || 'Unknown error';
-            console.error(`[process-thumbnail-file] Failed to upload preset ${presetId} to R2 after ${maxUploadRetries} attempts:`, uploadErrorMsg, { presetR2Key, fileSize: fileData.byteLength });
-            return errorResponse(
-              `Failed to upload preset to R2: ${uploadErrorMsg}`,
-              500,
-              { presetId, presetR2Key, error: uploadErrorMsg },
-              request,
-              env
-            );
+            console.error(`[process-thumbnail-file] Failed to upload preset ${presetId} to R2 after ${maxUploadRetries} attempts:`, uploadErrorMsg);
+            return {
+              success: false,
+              filename,
+              error: `Failed to upload preset to R2: ${uploadErrorMsg}`
+            };
           }
-          
+
           const presetPublicUrl = getR2PublicUrl(env, presetR2Key, requestUrl.origin);
 
           // Create placeholder thumbnail entries for all resolutions and ALL selected formats
@@ -2995,11 +2854,11 @@ export default {
 
           let thumbnailData: Record<string, string> = {};
           // Generate paths for each selected format (webp, json/lottie, avif, lottie_avif)
-          for (const format of singleFileThumbnailFormats) {
-            const thumbExt = format === 'json' ? 'json' : 'webp';
+          for (const format of thumbnailFormats) {
+            const ext = format === 'json' ? 'json' : 'webp';
             const formatPrefix = format === 'json' ? 'lottie' : 'webp';
             resolutions.forEach(res => {
-              thumbnailData[`${formatPrefix}_${res}`] = `preset_thumb/${formatPrefix}_${res}/${presetId}.${thumbExt}`;
+              thumbnailData[`${formatPrefix}_${res}`] = `preset_thumb/${formatPrefix}_${res}/${presetId}.${ext}`;
             });
             // Also add avif variants if webp is selected
             if (format === 'webp') {
@@ -3016,17 +2875,16 @@ export default {
           }
 
           // Use first format's 4x as primary thumbnail URL
-          const primaryFormat = singleFileThumbnailFormats[0] || 'webp';
+          const primaryFormat = thumbnailFormats[0] || 'webp';
           const primaryPrefix = primaryFormat === 'json' ? 'lottie' : 'webp';
           let thumbnailUrl: string | null = getR2PublicUrl(env, thumbnailData[`${primaryPrefix}_4x`], requestUrl.origin);
 
-          // Update database - use INSERT OR REPLACE to handle concurrent requests
+          // Update database
           const existingPreset = await DB.prepare('SELECT id, thumbnail_r2, created_at FROM presets WHERE id = ?').bind(presetId).first();
-          const createdAt = existingPreset && (existingPreset as any).created_at 
-            ? (existingPreset as any).created_at 
+          const createdAt = existingPreset && (existingPreset as any).created_at
+            ? (existingPreset as any).created_at
             : Math.floor(Date.now() / 1000);
-          const ext = filename.toLowerCase().endsWith('.json') ? 'json' : 'webp'; // Presets are always WebP (or JSON for Lottie)
-          
+
           // Merge with existing thumbnail data if any
           if (existingPreset && (existingPreset as any).thumbnail_r2) {
             try {
@@ -3036,13 +2894,13 @@ export default {
               // If parsing fails, use new data
             }
           }
-          
+
           // Use INSERT OR REPLACE to avoid UNIQUE constraint violations (prompt_json is stored in R2 metadata, not in D1)
           await DB.prepare(
-            'INSERT OR REPLACE INTO presets (id, ext, created_at, thumbnail_r2) VALUES (?, ?, ?, ?)'
+            PRESET_UPSERT_SQL
           ).bind(
             presetId,
-            ext,
+            'webp',
             createdAt,
             JSON.stringify(thumbnailData)
           ).run();
@@ -3059,7 +2917,7 @@ export default {
             }
           }
 
-          return successResponse({
+          return {
             success: true,
             type: 'preset',
             preset_id: presetId,
@@ -3068,6217 +2926,6465 @@ export default {
             kvCacheDeleted: true,
             vertex_info: { success: true, promptKeys: Object.keys(promptResult.prompt) },
             thumbnail_url: thumbnailUrl,
-            thumbnail_formats: singleFileThumbnailFormats,
+            thumbnail_formats: thumbnailFormats,
             thumbnail_created: true
-          }, 200, request, env);
-        } else {
-          // Thumbnail file processing - preserve exact folder structure from filePath
-          // Extract folder structure from filePath (e.g., "preset_thumb/webp_3x/file.webp" -> "preset_thumb/webp_3x")
-          let folderPath = 'preset_thumb';
-          if (filePath) {
-            const normalizedPath = filePath.replace(/\\/g, '/');
-            const pathParts = normalizedPath.split('/').filter(p => p && p !== basename);
-            // Filter out any path segments that match presetId to prevent duplicates
-            const cleanPathParts = pathParts.filter(part => {
-              const partWithoutExt = part.replace(/\.(webp|png|json)$/i, '');
-              return partWithoutExt !== presetId;
-            });
-            if (cleanPathParts.length > 0) {
-              folderPath = cleanPathParts.join('/');
+          };
+
+        } catch (fileError) {
+          const errorMsg = fileError instanceof Error ? fileError.message : String(fileError);
+          return {
+            success: false,
+            filename,
+            error: errorMsg.substring(0, 200)
+          };
+        }
+      };
+
+      // Process preset files with concurrency limit (5 at a time to prevent timeout)
+      const concurrency = 5;
+      const startTime = Date.now();
+      const MAX_PROCESSING_TIME = 25000; // 25 seconds max
+      let processedCount = 0;
+      let timeoutReached = false;
+
+      for (let i = 0; i < presetFiles.length; i += concurrency) {
+        // Check if we're running out of time
+        const elapsed = Date.now() - startTime;
+        if (elapsed > MAX_PROCESSING_TIME) {
+          console.warn(`[process-thumbnail-file] Timeout approaching, stopping processing. Processed ${processedCount}/${presetFiles.length} files`);
+          timeoutReached = true;
+          break;
+        }
+
+        const batch = presetFiles.slice(i, i + concurrency);
+
+        const batchResults = await Promise.all(batch.map(processPresetFile));
+        processedCount += batch.length;
+
+        for (const result of batchResults) {
+          if (result.success) {
+            successful++;
+            results.push(result);
+            presetsProcessed++;
+            if (result.hasPrompt) {
+              presetsWithPrompts++;
             }
+          } else {
+            failed++;
+            results.push(result);
           }
-          const ext = filename.split('.').pop() || (format === 'lottie' ? 'json' : 'webp');
-          // Construct R2 key using exact folder structure from filePath
-          const thumbnailR2Key = `${folderPath}/${presetId}.${ext}`;
-          
-          // Extract folder type and resolution for metadata (for backward compatibility)
-          const folderMatch = normalizedPath.match(/(webp|lottie|lottie_avif)_([\d.]+x)(?:\/|$)/i);
-          let folderType = 'webp';
-          let resolution = '1x';
-          if (folderMatch) {
-            folderType = folderMatch[1].toLowerCase();
-            resolution = folderMatch[2];
-          }
-          const thumbnailFolder = `${folderType}_${resolution}`;
-          
-          const fileData = await file.arrayBuffer();
-          const contentType = file.type || 'image/webp';
-          
-          await R2_BUCKET.put(thumbnailR2Key, fileData, {
-            httpMetadata: {
-              contentType,
-              cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
-            },
-          });
-          
-          const thumbnailUrl = getR2PublicUrl(env, thumbnailR2Key, requestUrl.origin);
-          
-          // Update database - use INSERT OR REPLACE to handle concurrent requests
-          const existingPreset = await DB.prepare('SELECT id, thumbnail_r2, created_at FROM presets WHERE id = ?').bind(presetId).first();
-          let thumbnailData: Record<string, string> = {};
-          
-          if (existingPreset && (existingPreset as any).thumbnail_r2) {
-            try {
-              thumbnailData = JSON.parse((existingPreset as any).thumbnail_r2 as string);
-            } catch (e) {
-              thumbnailData = {};
-            }
-          }
-          
-          thumbnailData[thumbnailFolder] = thumbnailR2Key;
-          
-          // Preserve created_at from existing record, or use current timestamp
-          const createdAt = existingPreset && (existingPreset as any).created_at 
-            ? (existingPreset as any).created_at 
-            : Math.floor(Date.now() / 1000);
-          const extForDb = filename.toLowerCase().endsWith('.json') ? 'json' : 'webp';
-          
-          // Use INSERT OR REPLACE to avoid UNIQUE constraint violations
-          await DB.prepare(
-            'INSERT OR REPLACE INTO presets (id, ext, created_at, thumbnail_r2) VALUES (?, ?, ?, ?)'
-          ).bind(
-            presetId, 
-            extForDb, 
-            createdAt,
-            JSON.stringify(thumbnailData)
-          ).run();
-          
-          return successResponse({
-            success: true,
-            type: 'thumbnail',
-            preset_id: presetId,
-            url: thumbnailUrl,
-            hasPrompt: false,
-            metadata: { format: folderType, resolution }
-          }, 200, request, env);
-        }
-      }, 10, 1000);
-      } catch (error) {
-        logCriticalError('/process-thumbnail-file', error, request, env, {
-          errorType: 'unhandled_error'
-        });
-        const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
-        const debugEnabled = isDebugEnabled(env);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path } : undefined, request, env);
-      }
-    }
-
-    // Handle zip file upload and process all files server-side
-    if (path === '/process-thumbnail-zip' && request.method === 'POST') {
-      const startTime = Date.now();
-      const MAX_PROCESSING_TIME = 25000; // 25 seconds max (leave 5s buffer for response)
-      const MAX_FILES = 500; // Limit to 500 files per request to prevent timeout
-      
-      try {
-        const formData = await request.formData();
-        const zipFile = formData.get('zip') as File | null;
-        const isFilterMode = formData.get('is_filter_mode') === 'true';
-        const customPromptText = formData.get('custom_prompt_text') as string | null;
-
-        if (!zipFile) {
-          return errorResponse('zip file is required', 400, undefined, request, env);
         }
 
-        console.log('[process-thumbnail-zip] Starting zip processing, file size:', zipFile.size);
-
-        const DB = getD1Database(env);
-        const R2_BUCKET = getR2Bucket(env);
-        const requestUrl = new URL(request.url);
-
-        // Extract zip file
-        console.log('[process-thumbnail-zip] Extracting zip file...');
-        const zipData = await zipFile.arrayBuffer();
-        const zip = await JSZip.loadAsync(zipData);
-
-        const results: any[] = [];
-        let successful = 0;
-        let failed = 0;
-        let presetsProcessed = 0;
-        let thumbnailsProcessed = 0;
-        let presetsWithPrompts = 0;
-
-        // Process all files in the zip
-        const fileEntries: Array<{ path: string; zipEntry: JSZip.JSZipObject }> = [];
-        zip.forEach((relativePath: string, zipEntry: JSZip.JSZipObject) => {
-          if (!zipEntry.dir) {
-            fileEntries.push({ path: relativePath, zipEntry });
-          }
-        });
-
-        console.log(`[process-thumbnail-zip] Found ${fileEntries.length} files in zip`);
-
-        // Limit number of files to prevent timeout
-        if (fileEntries.length > MAX_FILES) {
-          return errorResponse(
-            `Too many files in zip. Maximum ${MAX_FILES} files allowed, found ${fileEntries.length}. Please split into smaller zip files.`,
-            400,
-            { maxFiles: MAX_FILES, found: fileEntries.length },
-            request,
-            env
-          );
+        // Small delay to prevent overwhelming the system
+        if (i + concurrency < presetFiles.length) {
+          await new Promise(resolve => setTimeout(resolve, 100));
         }
+      }
 
-        // Process files with controlled concurrency (10 at a time)
-        const processFile = async ({ path: relativePath, zipEntry }: { path: string; zipEntry: JSZip.JSZipObject }) => {
-          try {
-            const filename = zipEntry.name.split('/').pop() || zipEntry.name.split('\\').pop() || zipEntry.name;
-            const basename = filename;
-            const parsed = parseThumbnailFilename(basename);
-
-            if (!parsed) {
-              return {
-                success: false,
-                filename: relativePath,
-                error: 'Invalid filename format'
-              };
-            }
-
-            const { preset_id: presetId, format } = parsed;
-            const normalizedPath = relativePath.replace(/\\/g, '/').toLowerCase();
-
-            // Determine if this is a preset file or thumbnail
-            const pathParts = normalizedPath.split('/').filter(p => p);
-            const isFromPresetFolder =
-              normalizedPath.includes('preset/') ||
-              normalizedPath.startsWith('preset/') ||
-              normalizedPath.includes('/preset/') ||
-              normalizedPath === 'preset' ||
-              (pathParts.length > 0 && pathParts[0] === 'preset') ||
-              (!normalizedPath && filename.toLowerCase().endsWith('.png'));
-
-            const fileDataUint8 = await zipEntry.async('uint8array');
-            if (!fileDataUint8 || fileDataUint8.length === 0) {
-              return {
-                success: false,
-                filename: relativePath,
-                error: 'File is empty'
-              };
-            }
-
-            // Convert Uint8Array to ArrayBuffer (create new ArrayBuffer to avoid SharedArrayBuffer issues)
-            const fileData = new ArrayBuffer(fileDataUint8.length);
-            new Uint8Array(fileData).set(fileDataUint8);
-
-            if (isFromPresetFolder) {
-              // Preset file processing
-              const contentType = filename.toLowerCase().endsWith('.png') ? 'image/png' : 'image/webp';
-
-              // Check if we have enough time for prompt generation (need at least 20 seconds)
-              const elapsed = Date.now() - startTime;
-              const skipPromptGeneration = elapsed > (MAX_PROCESSING_TIME - 20000);
-
-              let promptResult: any = { success: false, error: 'Skipped due to timeout' };
-              
-              if (!skipPromptGeneration) {
-                // Upload to temp location first for prompt generation
-                const tempR2Key = `temp/${presetId}_${Date.now()}.${filename.split('.').pop()}`;
-                await R2_BUCKET.put(tempR2Key, fileData, {
-                  httpMetadata: {
-                    contentType,
-                    cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
-                  },
-                });
-
-                const tempPublicUrl = getR2PublicUrl(env, tempR2Key, requestUrl.origin);
-
-                // Generate Vertex AI prompt with retry
-                promptResult = await generateVertexPromptWithRetry(tempPublicUrl, env, isFilterMode === true, customPromptText);
-
-                // Clean up temp file
-                try {
-                  await R2_BUCKET.delete(tempR2Key);
-                } catch (e) {
-                  // Ignore cleanup errors
-                }
-              }
-
-              if (!skipPromptGeneration && (!promptResult.success || !promptResult.prompt)) {
-                return {
-                  success: false,
-                  filename: relativePath,
-                  error: `Vertex AI prompt generation failed: ${promptResult.error || 'Unknown error'}`
-                };
-              }
+      const totalTime = Date.now() - startTime;
+
+      return successResponse({
+        success: true,
+        total: presetFiles.length,
+        processed: processedCount,
+        successful,
+        failed,
+        presets_processed: presetsProcessed,
+        presets_with_prompts: presetsWithPrompts,
+        timeout_reached: timeoutReached,
+        processing_time_ms: totalTime,
+        thumbnail_formats: thumbnailFormats
+      }, 200, request, env);
+    }
 
-              // Upload to final location with prompt metadata (if available)
-              // Zip structure is always preset/*.webp, so use only "preset" folder (ignore any nested structure)
-              // Filter out any path segments that have file extensions (these are filenames, not folders)
-              const pathParts = normalizedPath.split('/').filter(p => p); // Remove empty parts
-              pathParts.pop(); // Remove original filename
-              // Filter out segments with file extensions (misnamed folders/filenames) and keep only valid folder names
-              const cleanPathParts = pathParts.filter(part => !/\.(webp|png|json|jpg|jpeg|gif)$/i.test(part));
-              // Use "preset" if it exists in path, otherwise use first valid folder or default to "preset"
-              const folderPath = cleanPathParts.includes('preset') ? 'preset' : (cleanPathParts.length > 0 ? cleanPathParts[0] : (isFromPresetFolder ? 'preset' : ''));
-              // Construct R2 key: preset/presetId.ext
-              const r2Key = folderPath ? `${folderPath}/${presetId}.${filename.split('.').pop()}` : `${presetId}.${filename.split('.').pop()}`;
-              const promptJson = skipPromptGeneration ? null : JSON.stringify(promptResult.prompt);
-
-              await R2_BUCKET.put(r2Key, fileData, {
-                httpMetadata: {
-                  contentType,
-                  cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
-                },
-                ...(promptJson ? {
-                  customMetadata: {
-                    prompt_json: promptJson
-                  }
-                } : {})
-              });
+    // Handle single file upload (thumbnail files)
+    const file = formData.get('file') as File | null;
+    const filePath = (formData.get('path') as string | null) || '';
 
-              const publicUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-
-              // Update database - use INSERT OR REPLACE
-              const existingPreset = await DB.prepare('SELECT id, thumbnail_r2, created_at FROM presets WHERE id = ?').bind(presetId).first();
-              const createdAt = existingPreset && (existingPreset as any).created_at
-                ? (existingPreset as any).created_at
-                : Math.floor(Date.now() / 1000);
-              const ext = filename.toLowerCase().endsWith('.json') ? 'json' : 'webp'; // Presets are always WebP (or JSON for Lottie)
-
-              // Use existing thumbnail_r2 if available, otherwise use preset image as default thumbnail
-              let thumbnailR2Json: string;
-              if (existingPreset && (existingPreset as any).thumbnail_r2) {
-                // Preserve existing thumbnail data
-                thumbnailR2Json = (existingPreset as any).thumbnail_r2 as string;
-              } else {
-                // Set preset image as default 4x thumbnail for new presets
-                thumbnailR2Json = JSON.stringify({ webp_4x: r2Key });
-              }
+    if (!file) {
+      return errorResponse('file is required', 400, undefined, request, env);
+    }
 
-              await DB.prepare(
-                'INSERT OR REPLACE INTO presets (id, ext, created_at, thumbnail_r2) VALUES (?, ?, ?, ?)'
-              ).bind(presetId, ext, createdAt, thumbnailR2Json).run();
+    const filename = file.name;
+    const basename = filename.split('/').pop() || filename.split('\\').pop() || filename;
+    const parsed = parseThumbnailFilename(basename);
 
-              return {
-                success: true,
-                type: 'preset',
-                preset_id: presetId,
-                url: publicUrl,
-                hasPrompt: !skipPromptGeneration && promptResult.success && !!promptResult.prompt,
-                vertex_info: skipPromptGeneration 
-                  ? { success: false, error: 'Skipped due to timeout' }
-                  : (promptResult.success && promptResult.prompt 
-                    ? { success: true, promptKeys: Object.keys(promptResult.prompt) }
-                    : { success: false, error: promptResult.error || 'Unknown error' })
-              };
-            } else {
-              // Thumbnail file processing - preserve exact folder structure from zip
-              // Use relativePath directly from zip (e.g., "preset_thumb/webp_3x/file.webp" -> "preset_thumb/webp_3x/presetId.webp")
-              const pathParts = normalizedPath.split('/').filter(p => p); // Remove empty parts
-              pathParts.pop(); // Remove original filename
-              // Filter out any path segments that match presetId to prevent duplicates
-              const cleanPathParts = pathParts.filter(part => {
-                const partWithoutExt = part.replace(/\.(webp|png|json)$/i, '');
-                return partWithoutExt !== presetId;
-              });
-              const folderPath = cleanPathParts.length > 0 ? cleanPathParts.join('/') : 'preset_thumb';
-              const ext = filename.split('.').pop() || (format === 'lottie' ? 'json' : 'webp');
-              // Construct R2 key using exact folder structure from zip
-              const thumbnailR2Key = `${folderPath}/${presetId}.${ext}`;
-              
-              // Extract folder type and resolution for metadata (for backward compatibility)
-              const folderMatch = normalizedPath.match(/(webp|lottie|lottie_avif)_([\d.]+x)(?:\/|$)/i);
-              let folderType = 'webp';
-              let resolution = '1x';
-              if (folderMatch) {
-                folderType = folderMatch[1].toLowerCase();
-                resolution = folderMatch[2];
-              }
-              const thumbnailFolder = `${folderType}_${resolution}`;
+    if (!parsed) {
+      return errorResponse('Invalid filename format. Could not extract preset_id from filename.', 400, undefined, request, env);
+    }
 
-              const contentType = filename.toLowerCase().endsWith('.json') ? 'application/json' : 'image/webp';
+    const { preset_id: presetId, format } = parsed;
+    const normalizedPath = filePath.replace(/\\/g, '/').toLowerCase();
+
+    // Determine if this is a preset file or thumbnail
+    const pathParts = normalizedPath.split('/').filter(p => p);
+    const isFromPresetFolder = 
+      normalizedPath.includes('preset/') || 
+      normalizedPath.startsWith('preset/') || 
+      normalizedPath.includes('/preset/') ||
+      normalizedPath === 'preset' ||
+      (pathParts.length > 0 && pathParts[0] === 'preset') ||
+      (!normalizedPath && (filename.toLowerCase().endsWith('.webp') || filename.toLowerCase().endsWith('.png')));
+
+    if (isFromPresetFolder) {
+      // Preset file processing
+      const fileData = await file.arrayBuffer();
+      const contentType = file.type || 'image/png';
+      // Support both thumbnail_formats (comma-separated) and thumbnail_format (single)
+      const singleFileThumbnailFormatsRaw = (formData.get('thumbnail_formats') as string | null) || (formData.get('thumbnail_format') as string | null) || 'webp';
+      const singleFileThumbnailFormats = singleFileThumbnailFormatsRaw.split(',').map(f => f.trim()).filter(f => f);
+
+      // Upload to temp location first for prompt generation
+      const tempR2Key = `temp/${presetId}_${Date.now()}.${filename.split('.').pop()}`;
+      await R2_BUCKET.put(tempR2Key, fileData, {
+        httpMetadata: {
+          contentType,
+          cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
+        },
+      });
 
-              await R2_BUCKET.put(thumbnailR2Key, fileData, {
-                httpMetadata: {
-                  contentType,
-                  cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
-                },
-              });
+      const tempPublicUrl = getR2PublicUrl(env, tempR2Key, requestUrl.origin);
+      const isFilterMode = formData.get('is_filter_mode') === 'true';
+      const customPromptText = formData.get('custom_prompt_text') as string | null;
 
-              const thumbnailUrl = getR2PublicUrl(env, thumbnailR2Key, requestUrl.origin);
+      // Generate Vertex AI prompt with retry
+      const promptResult = await generateVertexPromptWithRetry(tempPublicUrl, env, isFilterMode, customPromptText);
 
-              // Update database - use INSERT OR REPLACE
-              const existingPreset = await DB.prepare('SELECT id, thumbnail_r2, created_at FROM presets WHERE id = ?').bind(presetId).first();
-              let thumbnailData: Record<string, string> = {};
+      // Clean up temp file
+      try {
+        await R2_BUCKET.delete(tempR2Key);
+      } catch (e) {
+        // Ignore cleanup errors
+      }
 
-              if (existingPreset && (existingPreset as any).thumbnail_r2) {
-                try {
-                  thumbnailData = JSON.parse((existingPreset as any).thumbnail_r2 as string);
-                } catch (e) {
-                  thumbnailData = {};
-                }
-              }
+      if (!promptResult.success || !promptResult.prompt) {
+        return errorResponse(
+          `Vertex AI prompt generation failed: ${promptResult.error || 'Unknown error'}`,
+          500,
+          { vertex_info: { success: false, error: promptResult.error, debug: promptResult.debug } },
+          request,
+          env
+        );
+      }
 
-              thumbnailData[thumbnailFolder] = thumbnailR2Key;
+      // Upload preset to final location with prompt metadata, preserving exact folder structure
+      // Extract folder structure from filePath (e.g., "preset/subfolder/file.png" -> "preset/subfolder")
+      let folderPath = 'preset';
+      if (filePath) {
+        const normalizedPath = filePath.replace(/\\/g, '/');
+        const pathParts = normalizedPath.split('/').filter(p => p && p !== basename);
+        // Filter out any path segments that match presetId to prevent duplicates
+        const cleanPathParts = pathParts.filter(part => {
+          const partWithoutExt = part.replace(/\.(webp|png|json)$/i, '');
+          return partWithoutExt !== presetId;
+        });
+        if (cleanPathParts.length > 0) {
+          folderPath = cleanPathParts.join('/');
+        }
+      }
+      // Construct R2 key using exact folder structure from zip (preset/*.webp -> preset/presetId.webp)
+      const presetR2Key = `${folderPath}/${presetId}.webp`;
+      const promptJson = JSON.stringify(promptResult.prompt);
 
-              const createdAt = existingPreset && (existingPreset as any).created_at
-                ? (existingPreset as any).created_at
-                : Math.floor(Date.now() / 1000);
-              const extForDb = filename.toLowerCase().endsWith('.json') ? 'json' : 'webp';
 
-              await DB.prepare(
-                'INSERT OR REPLACE INTO presets (id, ext, created_at, thumbnail_r2) VALUES (?, ?, ?, ?)'
-              ).bind(
-                presetId,
-                extForDb,
-                createdAt,
-                JSON.stringify(thumbnailData)
-              ).run();
+      // Retry R2 upload operation with exponential backoff
+      let uploadSuccess = false;
+      let lastUploadError: Error | null = null;
+      const maxUploadRetries = 10;
 
-              return {
-                success: true,
-                type: 'thumbnail',
-                preset_id: presetId,
-                url: thumbnailUrl,
-                hasPrompt: false,
-                metadata: { format: folderType, resolution }
-              };
+      for (let uploadAttempt = 0; uploadAttempt < maxUploadRetries; uploadAttempt++) {
+        try {
+          await R2_BUCKET.put(presetR2Key, fileData, {
+            httpMetadata: {
+              contentType: 'image/webp',
+              cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
+            },
+            customMetadata: {
+              prompt_json: promptJson
             }
-          } catch (fileError) {
-            const errorMsg = fileError instanceof Error ? fileError.message : String(fileError);
-            return {
-              success: false,
-              filename: relativePath,
-              error: errorMsg.substring(0, 200)
-            };
+          });
+
+          // Verify upload succeeded by checking if file exists
+          const verifyUpload = await R2_BUCKET.head(presetR2Key);
+          if (!verifyUpload) {
+            throw new Error('Upload verification failed: file not found after upload');
           }
-        };
 
-        // Process files with concurrency limit (5 at a time to prevent timeout)
-        const concurrency = 5;
-        let processedCount = 0;
-        let timeoutReached = false;
+          uploadSuccess = true;
+          break;
+        } catch (uploadError) {
+          lastUploadError = uploadError instanceof Error ? uploadError : new Error(String(uploadError));
+          const errorMsg = lastUploadError.message.toLowerCase();
 
-        for (let i = 0; i < fileEntries.length; i += concurrency) {
-          // Check if we're running out of time
-          const elapsed = Date.now() - startTime;
-          if (elapsed > MAX_PROCESSING_TIME) {
-            console.warn(`[process-thumbnail-zip] Timeout approaching, stopping processing. Processed ${processedCount}/${fileEntries.length} files`);
-            timeoutReached = true;
-            break;
-          }
+          // Check if error is retryable
+          const isRetryable = 
+            errorMsg.includes('unspecified error') ||
+            errorMsg.includes('timeout') ||
+            errorMsg.includes('network') ||
+            errorMsg.includes('connection') ||
+            errorMsg.includes('500') ||
+            errorMsg.includes('503') ||
+            errorMsg.includes('502') ||
+            uploadAttempt < maxUploadRetries - 1;
 
-          const batch = fileEntries.slice(i, i + concurrency);
-          console.log(`[process-thumbnail-zip] Processing batch ${Math.floor(i / concurrency) + 1}, files ${i + 1}-${Math.min(i + concurrency, fileEntries.length)}`);
-          
-          const batchResults = await Promise.all(batch.map(processFile));
-          processedCount += batch.length;
-
-          for (const result of batchResults) {
-            if (result.success) {
-              successful++;
-              results.push(result);
-              if (result.type === 'preset') {
-                presetsProcessed++;
-                if (result.hasPrompt) {
-                  presetsWithPrompts++;
-                }
-              } else if (result.type === 'thumbnail') {
-                thumbnailsProcessed++;
-              }
-            } else {
-              failed++;
-              results.push(result);
-            }
+          if (!isRetryable || uploadAttempt === maxUploadRetries - 1) {
+            break;
           }
 
-          // Small delay to prevent overwhelming the system
-          if (i + concurrency < fileEntries.length) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-          }
+          // Exponential backoff with jitter
+          const baseDelay = 1000 * Math.pow(2, uploadAttempt);
+          const jitter = Math.random() * 0.3 * baseDelay;
+          const delay = Math.min(baseDelay + jitter, 10000);
+          console.warn(`[process-thumbnail-file] R2 upload attempt ${uploadAttempt + 1}/${maxUploadRetries} failed for ${presetId}: ${lastUploadError.message}. Retrying in ${Math.round(delay)}ms...`);
+          await new Promise(resolve => setTimeout(resolve, delay));
         }
+      }
 
-        const totalTime = Date.now() - startTime;
-        console.log(`[process-thumbnail-zip] Processing complete. Time: ${totalTime}ms, Processed: ${processedCount}/${fileEntries.length}, Success: ${successful}, Failed: ${failed}`);
-
-        return successResponse({
-          total: fileEntries.length,
-          processed: processedCount,
-          successful,
-          failed,
-          presets_processed: presetsProcessed,
-          presets_with_prompts: presetsWithPrompts,
-          thumbnails_processed: thumbnailsProcessed,
-          timeout_reached: timeoutReached,
-          processing_time_ms: totalTime,
-          results: timeoutReached ? results.slice(0, 100) : results // Limit results if timeout
-        }, 200, request, env);
-
-      } catch (error) {
-        logCriticalError('/process-thumbnail-zip', error, request, env, {
-          errorType: 'unhandled_error'
-        });
-        const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
-        const debugEnabled = isDebugEnabled(env);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path } : undefined, request, env);
+      if (!uploadSuccess) {
+        const uploadErrorMsg = lastUploadError?.message || 'Unknown error';
+        console.error(`[process-thumbnail-file] Failed to upload preset ${presetId} to R2 after ${maxUploadRetries} attempts:`, uploadErrorMsg, { presetR2Key, fileSize: fileData.byteLength });
+        return errorResponse(
+          `Failed to upload preset to R2: ${uploadErrorMsg}`,
+          500,
+          { presetId, presetR2Key, error: uploadErrorMsg },
+          request,
+          env
+        );
       }
-    }
 
-    // Handle profile creation
-    if (path === '/profiles' && request.method === 'POST') {
-      let body: Partial<Profile & { userID?: string; id?: string; device_id?: string; user_id?: string }> | undefined;
-      try {
-        body = await request.json() as Partial<Profile & { userID?: string; id?: string; device_id?: string; user_id?: string }>;
-        const deviceId = body.device_id || request.headers.get('x-device-id') || null;
-        const userId = body.userID || body.user_id || null; // External user ID for searching
-        const profileId = body.id || nanoid(16); // Profile ID is always auto-generated or provided via id field
-
-        const tableCheck = await DB.prepare(
-          "SELECT name FROM sqlite_master WHERE type='table' AND name='profiles'"
-        ).first();
-        
-        if (!tableCheck) {
-          console.error('ERROR: profiles table does not exist in database!');
-          console.error('Database schema needs to be initialized. Run: wrangler d1 execute faceswap-db --remote --file=schema.sql');
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 500, debugEnabled ? { path } : undefined, request, env);
-        }
+      const presetPublicUrl = getR2PublicUrl(env, presetR2Key, requestUrl.origin);
 
-        // Check for existing profile by id or user_id
-        if (body.id || userId) {
-          let existingProfile = null;
+      // Create placeholder thumbnail entries for all resolutions and ALL selected formats
+      // These will be replaced when actual thumbnail files are uploaded via yyy.zip
+      const resolutions = ['1x', '1.5x', '2x', '3x', '4x'];
 
-          // Check by profile ID
-          if (body.id) {
-            existingProfile = await DB.prepare(
-              'SELECT id FROM profiles WHERE id = ?'
-            ).bind(profileId).first();
-          }
+      let thumbnailData: Record<string, string> = {};
+      // Generate paths for each selected format (webp, json/lottie, avif, lottie_avif)
+      for (const format of singleFileThumbnailFormats) {
+        const thumbExt = format === 'json' ? 'json' : 'webp';
+        const formatPrefix = format === 'json' ? 'lottie' : 'webp';
+        resolutions.forEach(res => {
+          thumbnailData[`${formatPrefix}_${res}`] = `preset_thumb/${formatPrefix}_${res}/${presetId}.${thumbExt}`;
+        });
+        // Also add avif variants if webp is selected
+        if (format === 'webp') {
+          resolutions.forEach(res => {
+            thumbnailData[`webp_avif_${res}`] = `preset_thumb/webp_avif_${res}/${presetId}.avif`;
+          });
+        }
+        // Also add lottie_avif variants if json/lottie is selected
+        if (format === 'json') {
+          resolutions.forEach(res => {
+            thumbnailData[`lottie_avif_${res}`] = `preset_thumb/lottie_avif_${res}/${presetId}.avif`;
+          });
+        }
+      }
 
-          // Also check by user_id if provided
-          if (!existingProfile && userId) {
-            existingProfile = await DB.prepare(
-              'SELECT id FROM profiles WHERE user_id = ?'
-            ).bind(userId).first();
-          }
+      // Use first format's 4x as primary thumbnail URL
+      const primaryFormat = singleFileThumbnailFormats[0] || 'webp';
+      const primaryPrefix = primaryFormat === 'json' ? 'lottie' : 'webp';
+      let thumbnailUrl: string | null = getR2PublicUrl(env, thumbnailData[`${primaryPrefix}_4x`], requestUrl.origin);
 
-          if (existingProfile) {
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Profile already exists', 409, debugEnabled ? { profileId, userId, path } : undefined, request, env);
-          }
-        }
+      // Update database - upsert (keeps catalog columns) to handle concurrent requests
+      const existingPreset = await DB.prepare('SELECT id, thumbnail_r2, created_at FROM presets WHERE id = ?').bind(presetId).first();
+      const createdAt = existingPreset && (existingPreset as any).created_at 
+        ? (existingPreset as any).created_at 
+        : Math.floor(Date.now() / 1000);
+      const ext = filename.toLowerCase().endsWith('.json') ? 'json' : 'webp'; // Presets are always WebP (or JSON for Lottie)
 
-        const createdAt = Math.floor(Date.now() / 1000);
-        const updatedAt = Math.floor(Date.now() / 1000);
-        
-        // Convert preferences to JSON string if it's an object
-        const preferencesString = body.preferences 
-          ? (typeof body.preferences === 'string' ? body.preferences : JSON.stringify(body.preferences))
-          : null;
-
-        const result = await DB.prepare(
-          'INSERT INTO profiles (id, device_id, user_id, name, email, phone, avatar_url, preferences, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
-        ).bind(
-          profileId,
-          deviceId,
-          userId,
-          body.name || null,
-          body.email || null,
-          body.phone || null,
-          body.avatar_url || null,
-          preferencesString,
-          createdAt,
-          updatedAt
-        ).run();
-
-
-        if (!result.success) {
-          console.error('[DB] Profile insert failed');
-          const errorDetails = result.meta?.error || (result as any).error || 'Unknown database error';
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 500, debugEnabled ? { error: errorDetails, profileId, path } : undefined, request, env);
+      // Merge with existing thumbnail data if any
+      if (existingPreset && (existingPreset as any).thumbnail_r2) {
+        try {
+          const existingThumbnailData = JSON.parse((existingPreset as any).thumbnail_r2 as string);
+          thumbnailData = { ...existingThumbnailData, ...thumbnailData };
+        } catch (e) {
+          // If parsing fails, use new data
         }
+      }
 
-        if (result.meta?.changes === 0) {
-          console.error('[DB] Profile insert returned 0 changes');
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 500, debugEnabled ? { profileId, path } : undefined, request, env);
+      // Use INSERT OR REPLACE to avoid UNIQUE constraint violations (prompt_json is stored in R2 metadata, not in D1)
+      await DB.prepare(
+        PRESET_UPSERT_SQL
+      ).bind(
+        presetId,
+        ext,
+        createdAt,
+        JSON.stringify(thumbnailData)
+      ).run();
+
+      // Delete KV cache for this preset (invalidate old cached prompt)
+      const promptCacheKV = getPromptCacheKV(env);
+      if (promptCacheKV) {
+        const cacheKey = `prompt:${presetId}`;
+        try {
+          await promptCacheKV.delete(cacheKey);
+          console.log(`[process-thumbnail-file] Deleted KV cache for ${cacheKey}`);
+        } catch (kvError) {
+          console.warn(`[process-thumbnail-file] Failed to delete KV cache for ${cacheKey}:`, kvError);
         }
+      }
 
-        const profile = {
-          id: profileId,
-          device_id: deviceId || undefined,
-          user_id: userId || undefined,
-          name: body.name || undefined,
-          email: body.email || undefined,
-          phone: body.phone || undefined,
-          avatar_url: ensureFullUrl(body.avatar_url, env, requestUrl.origin),
-          preferences: body.preferences || undefined,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        };
-
-        // Generate profile_token for auth binding (if PROFILE_TOKEN_SECRET configured)
-        const profileToken = env.PROFILE_TOKEN_SECRET
-          ? await generateProfileToken(profileId, env.PROFILE_TOKEN_SECRET)
-          : undefined;
-
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: { ...profile, ...(profileToken ? { profile_token: profileToken } : {}) },
-          status: 'success',
-          message: 'Profile created successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: { profileId, deviceId, userId } } : {})
-        }, 200, request, env);
-      } catch (error) {
-        logCriticalError('/profiles (POST)', error, request, env, {
-          body: {
-            device_id: body?.device_id ? '***present***' : 'missing',
-            userID: body?.userID || body?.user_id,
-            id: body?.id,
-            profile_id: body?.id || 'auto-generated'
-          }
+      return successResponse({
+        success: true,
+        type: 'preset',
+        preset_id: presetId,
+        url: presetPublicUrl,
+        hasPrompt: true,
+        kvCacheDeleted: true,
+        vertex_info: { success: true, promptKeys: Object.keys(promptResult.prompt) },
+        thumbnail_url: thumbnailUrl,
+        thumbnail_formats: singleFileThumbnailFormats,
+        thumbnail_created: true
+      }, 200, request, env);
+    } else {
+      // Thumbnail file processing - preserve exact folder structure from filePath
+      // Extract folder structure from filePath (e.g., "preset_thumb/webp_3x/file.webp" -> "preset_thumb/webp_3x")
+      let folderPath = 'preset_thumb';
+      if (filePath) {
+        const normalizedPath = filePath.replace(/\\/g, '/');
+        const pathParts = normalizedPath.split('/').filter(p => p && p !== basename);
+        // Filter out any path segments that match presetId to prevent duplicates
+        const cleanPathParts = pathParts.filter(part => {
+          const partWithoutExt = part.replace(/\.(webp|png|json)$/i, '');
+          return partWithoutExt !== presetId;
         });
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
+        if (cleanPathParts.length > 0) {
+          folderPath = cleanPathParts.join('/');
+        }
       }
-    }
+      const ext = filename.split('.').pop() || (format === 'lottie' ? 'json' : 'webp');
+      // Construct R2 key using exact folder structure from filePath
+      const thumbnailR2Key = `${folderPath}/${presetId}.${ext}`;
+
+      // Extract folder type and resolution for metadata (for backward compatibility)
+      const folderMatch = normalizedPath.match(/(webp|lottie|lottie_avif)_([\d.]+x)(?:\/|$)/i);
+      let folderType = 'webp';
+      let resolution = '1x';
+      if (folderMatch) {
+        folderType = folderMatch[1].toLowerCase();
+        resolution = folderMatch[2];
+      }
+      const thumbnailFolder = `${folderType}_${resolution}`;
 
-    // Handle profile retrieval (supports profile ID, device ID, and user_id)
-    if (path.startsWith('/profiles/') && request.method === 'GET') {
-      try {
-        const idParam = extractPathId(path, '/profiles/');
-        if (!idParam) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+      const fileData = await file.arrayBuffer();
+      const contentType = file.type || 'image/webp';
 
-        let foundBy = '';
+      await R2_BUCKET.put(thumbnailR2Key, fileData, {
+        httpMetadata: {
+          contentType,
+          cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
+        },
+      });
 
-        // Try to find by profile ID first
-        let result = await DB.prepare(
-          'SELECT id, device_id, user_id, name, email, phone, avatar_url, preferences, sub_point_remaining, consumable_point_remaining, total_credits_purchased, total_credits_spent, created_at, updated_at FROM profiles WHERE id = ?'
-        ).bind(idParam).first();
-        if (result) foundBy = 'profile_id';
+      const thumbnailUrl = getR2PublicUrl(env, thumbnailR2Key, requestUrl.origin);
 
-        // If not found by ID, try by device_id
-        if (!result) {
-          result = await DB.prepare(
-            'SELECT id, device_id, user_id, name, email, phone, avatar_url, preferences, sub_point_remaining, consumable_point_remaining, total_credits_purchased, total_credits_spent, created_at, updated_at FROM profiles WHERE device_id = ?'
-          ).bind(idParam).first();
-          if (result) foundBy = 'device_id';
-        }
+      // Update database - upsert (keeps catalog columns) to handle concurrent requests
+      const existingPreset = await DB.prepare('SELECT id, thumbnail_r2, created_at FROM presets WHERE id = ?').bind(presetId).first();
+      let thumbnailData: Record<string, string> = {};
 
-        // If not found by device_id, try by user_id
-        if (!result) {
-          result = await DB.prepare(
-            'SELECT id, device_id, user_id, name, email, phone, avatar_url, preferences, sub_point_remaining, consumable_point_remaining, total_credits_purchased, total_credits_spent, created_at, updated_at FROM profiles WHERE user_id = ?'
-          ).bind(idParam).first();
-          if (result) foundBy = 'user_id';
+      if (existingPreset && (existingPreset as any).thumbnail_r2) {
+        try {
+          thumbnailData = JSON.parse((existingPreset as any).thumbnail_r2 as string);
+        } catch (e) {
+          thumbnailData = {};
         }
+      }
 
-        if (!result) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Profile not found', 404, debugEnabled ? { idParam, searchedBy: 'id, device_id, and user_id', path } : undefined, request, env);
-        }
+      thumbnailData[thumbnailFolder] = thumbnailR2Key;
 
-        const profile: Profile = {
-          id: (result as any).id,
-          device_id: (result as any).device_id || undefined,
-          user_id: (result as any).user_id || undefined,
-          name: (result as any).name || undefined,
-          email: (result as any).email || undefined,
-          phone: (result as any).phone || undefined,
-          avatar_url: ensureFullUrl((result as any).avatar_url, env, requestUrl.origin),
-          preferences: (result as any).preferences || undefined,
-          sub_point_remaining: (result as any).sub_point_remaining ?? 0,
-          consumable_point_remaining: (result as any).consumable_point_remaining ?? 0,
-          total_credits_purchased: (result as any).total_credits_purchased ?? 0,
-          total_credits_spent: (result as any).total_credits_spent ?? 0,
-          created_at: new Date((result as any).created_at * 1000).toISOString(),
-          updated_at: new Date((result as any).updated_at * 1000).toISOString()
-        };
+      // Preserve created_at from existing record, or use current timestamp
+      const createdAt = existingPreset && (existingPreset as any).created_at 
+        ? (existingPreset as any).created_at 
+        : Math.floor(Date.now() / 1000);
+      const extForDb = filename.toLowerCase().endsWith('.json') ? 'json' : 'webp';
 
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: profile,
-          status: 'success',
-          message: 'Profile retrieved successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: { idParam, foundBy } } : {})
-        }, 200, request, env);
-      } catch (error) {
-        logCriticalError('/profiles/{id} (GET)', error, request, env, {
-          idParam: extractPathId(path, '/profiles/')
-        });
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
-      }
+      // Use INSERT OR REPLACE to avoid UNIQUE constraint violations
+      await DB.prepare(
+        PRESET_UPSERT_SQL
+      ).bind(
+        presetId, 
+        extForDb, 
+        createdAt,
+        JSON.stringify(thumbnailData)
+      ).run();
+
+      return successResponse({
+        success: true,
+        type: 'thumbnail',
+        preset_id: presetId,
+        url: thumbnailUrl,
+        hasPrompt: false,
+        metadata: { format: folderType, resolution }
+      }, 200, request, env);
     }
+  }, 10, 1000);
+  } catch (error) {
+    logCriticalError('/process-thumbnail-file', error, request, env, {
+      errorType: 'unhandled_error'
+    });
+    const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
+    const debugEnabled = isDebugEnabled(env);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg, path } : undefined, request, env);
+  }
+};
 
-    // Handle profile update
-    if (path.startsWith('/profiles/') && request.method === 'PUT') {
-      try {
-        const profileId = extractPathId(path, '/profiles/');
-        if (!profileId) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
-        if (!(await checkProfileToken(env, request, profileId))) {
-          return errorResponse('Invalid profile token', 401, undefined, request, env);
-        }
-        const body = await request.json() as Partial<Profile>;
-
-        // Build dynamic SET clause — only update fields present in body
-        const setClauses: string[] = ['updated_at = ?'];
-        const bindValues: any[] = [Math.floor(Date.now() / 1000)];
-
-        if ('name' in body) { setClauses.push('name = ?'); bindValues.push(body.name || null); }
-        if ('email' in body) { setClauses.push('email = ?'); bindValues.push(body.email || null); }
-        if ('phone' in body) { setClauses.push('phone = ?'); bindValues.push(body.phone || null); }
-        if ('avatar_url' in body) { setClauses.push('avatar_url = ?'); bindValues.push(body.avatar_url || null); }
-        if ('preferences' in body) {
-          const preferencesString = body.preferences
-            ? (typeof body.preferences === 'string' ? body.preferences : JSON.stringify(body.preferences))
-            : null;
-          setClauses.push('preferences = ?');
-          bindValues.push(preferencesString);
-        }
-        if ('sub_point_remaining' in body) {
-          setClauses.push('sub_point_remaining = ?');
-          bindValues.push(Number((body as any).sub_point_remaining) || 0);
-        }
-        if ('consumable_point_remaining' in body) {
-          setClauses.push('consumable_point_remaining = ?');
-          bindValues.push(Number((body as any).consumable_point_remaining) || 0);
-        }
-        bindValues.push(profileId);
+// Handle zip file upload and process all files server-side
+const handleProcessThumbnailZip = async ({ request, env, DB, R2_BUCKET, requestUrl, path }: RouteContext): Promise<Response> => {
+  const startTime = Date.now();
+  const MAX_PROCESSING_TIME = 25000; // 25 seconds max (leave 5s buffer for response)
+  const MAX_FILES = 500; // Limit to 500 files per request to prevent timeout
 
-        const result = await DB.prepare(
-          `UPDATE profiles SET ${setClauses.join(', ')} WHERE id = ?`
-        ).bind(...bindValues).run();
+  try {
+    const formData = await request.formData();
+    const zipFile = formData.get('zip') as File | null;
+    const isFilterMode = formData.get('is_filter_mode') === 'true';
+    const customPromptText = formData.get('custom_prompt_text') as string | null;
 
-        if (!result.success || result.meta?.changes === 0) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Profile not found or update failed', 404, debugEnabled ? { profileId, path } : undefined, request, env);
-        }
+    if (!zipFile) {
+      return errorResponse('zip file is required', 400, undefined, request, env);
+    }
 
-        // Auto-create ACTIVE subscription when sub_point_remaining is set via admin UI
-        // so deductCredits won't zero it out (it requires an active subscription row)
-        const subPointsValue = Number((body as any).sub_point_remaining) || 0;
-        if ('sub_point_remaining' in body && subPointsValue > 0) {
-          const existingSub = await DB.prepare(
-            "SELECT id FROM subscriptions WHERE profile_id = ? AND status IN ('ACTIVE', 'GRACE') ORDER BY created_at DESC LIMIT 1"
-          ).bind(profileId).first();
-          if (!existingSub) {
-            const now = Math.floor(Date.now() / 1000);
-            const subId = `admin_${profileId}_${now}`;
-            await DB.prepare(
-              'INSERT INTO subscriptions (id, profile_id, sku, purchase_token, points_per_cycle, status, auto_renewing, started_at, expires_at, last_reset_at, cycle_count_used) VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?, ?, 1)'
-            ).bind(subId, profileId, 'sub_monthly', `admin_${profileId}_${now}`, subPointsValue, 'ACTIVE', now, now + 30 * 86400, now).run();
-          }
-        }
+    console.log('[process-thumbnail-zip] Starting zip processing, file size:', zipFile.size);
 
-        // Return updated profile
-        const updatedResult = await DB.prepare(
-          'SELECT id, device_id, user_id, name, email, phone, avatar_url, preferences, sub_point_remaining, consumable_point_remaining, total_credits_purchased, total_credits_spent, created_at, updated_at FROM profiles WHERE id = ?'
-        ).bind(profileId).first();
 
-        if (!updatedResult) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Profile not found after update', 404, debugEnabled ? { profileId, path } : undefined, request, env);
-        }
+    // Extract zip file
+    console.log('[process-thumbnail-zip] Extracting zip file...');
+    const zipData = await zipFile.arrayBuffer();
+    const zip = await JSZip.loadAsync(zipData);
 
-        const profile: Profile = {
-          id: profileId,
-          device_id: (updatedResult as any).device_id || undefined,
-          user_id: (updatedResult as any).user_id || undefined,
-          name: (updatedResult as any).name || undefined,
-          email: (updatedResult as any).email || undefined,
-          phone: (updatedResult as any).phone || undefined,
-          avatar_url: ensureFullUrl((updatedResult as any).avatar_url, env, requestUrl.origin),
-          preferences: (updatedResult as any).preferences || undefined,
-          sub_point_remaining: (updatedResult as any).sub_point_remaining ?? 0,
-          consumable_point_remaining: (updatedResult as any).consumable_point_remaining ?? 0,
-          total_credits_purchased: (updatedResult as any).total_credits_purchased ?? 0,
-          total_credits_spent: (updatedResult as any).total_credits_spent ?? 0,
-          created_at: new Date((updatedResult as any).created_at * 1000).toISOString(),
-          updated_at: new Date((updatedResult as any).updated_at * 1000).toISOString()
-        };
+    const results: any[] = [];
+    let successful = 0;
+    let failed = 0;
+    let presetsProcessed = 0;
+    let thumbnailsProcessed = 0;
+    let presetsWithPrompts = 0;
 
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: profile,
-          status: 'success',
-          message: 'Profile updated successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: { profileId } } : {})
-        }, 200, request, env);
-      } catch (error) {
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 500) } : {}) } : undefined, request, env);
+    // Process all files in the zip
+    const fileEntries: Array<{ path: string; zipEntry: JSZip.JSZipObject }> = [];
+    zip.forEach((relativePath: string, zipEntry: JSZip.JSZipObject) => {
+      if (!zipEntry.dir) {
+        fileEntries.push({ path: relativePath, zipEntry });
       }
+    });
+
+    console.log(`[process-thumbnail-zip] Found ${fileEntries.length} files in zip`);
+
+    // Limit number of files to prevent timeout
+    if (fileEntries.length > MAX_FILES) {
+      return errorResponse(
+        `Too many files in zip. Maximum ${MAX_FILES} files allowed, found ${fileEntries.length}. Please split into smaller zip files.`,
+        400,
+        { maxFiles: MAX_FILES, found: fileEntries.length },
+        request,
+        env
+      );
     }
 
-    // Handle profile deletion (requires profile_id + user_id + email or phone for safety)
-    if (path.startsWith('/profiles/') && request.method === 'DELETE') {
+    // Process files with controlled concurrency (10 at a time)
+    const processFile = async ({ path: relativePath, zipEntry }: { path: string; zipEntry: JSZip.JSZipObject }) => {
       try {
-        const idParam = extractPathId(path, '/profiles/');
-        if (!idParam) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+        const filename = zipEntry.name.split('/').pop() || zipEntry.name.split('\\').pop() || zipEntry.name;
+        const basename = filename;
+        const parsed = parseThumbnailFilename(basename);
 
-        // Parse request body for verification fields
-        let body: { profile_id?: string; user_id?: string; email?: string; phone?: string } = {};
-        try {
-          body = await request.json() as typeof body;
-        } catch {
-          return errorResponse('Request body is required for profile deletion. Must include: profile_id, user_id, and either email or phone', 400, undefined, request, env);
+        if (!parsed) {
+          return {
+            success: false,
+            filename: relativePath,
+            error: 'Invalid filename format'
+          };
         }
 
-        const debugEnabled = isDebugEnabled(env);
+        const { preset_id: presetId, format } = parsed;
+        const normalizedPath = relativePath.replace(/\\/g, '/').toLowerCase();
 
-        // Validate required fields: profile_id and user_id are MUST
-        if (!body.profile_id || !body.profile_id.trim()) {
-          return errorResponse('Missing required field: profile_id', 400, debugEnabled ? { path, provided: Object.keys(body) } : undefined, request, env);
-        }
-        if (!body.user_id || !body.user_id.trim()) {
-          return errorResponse('Missing required field: user_id', 400, debugEnabled ? { path, provided: Object.keys(body) } : undefined, request, env);
-        }
-        // Either email or phone is required
-        const hasEmail = !!(body.email && body.email.trim());
-        const hasPhone = !!(body.phone && body.phone.trim());
-        if (!hasEmail && !hasPhone) {
-          return errorResponse('Missing required field: either email or phone must be provided', 400, debugEnabled ? { path, provided: Object.keys(body) } : undefined, request, env);
-        }
+        // Determine if this is a preset file or thumbnail
+        const pathParts = normalizedPath.split('/').filter(p => p);
+        const isFromPresetFolder =
+          normalizedPath.includes('preset/') ||
+          normalizedPath.startsWith('preset/') ||
+          normalizedPath.includes('/preset/') ||
+          normalizedPath === 'preset' ||
+          (pathParts.length > 0 && pathParts[0] === 'preset') ||
+          (!normalizedPath && filename.toLowerCase().endsWith('.png'));
 
-        // profile_id in body must match URL param
-        if (body.profile_id.trim() !== idParam) {
-          return errorResponse('profile_id in body does not match URL parameter', 400, debugEnabled ? { urlParam: idParam, bodyProfileId: body.profile_id, path } : undefined, request, env);
-        }
-
-        // Fetch the profile and verify ALL fields match
-        const result = await DB.prepare(
-          'SELECT id, user_id, email, phone FROM profiles WHERE id = ?'
-        ).bind(idParam).first();
-
-        if (!result) {
-          return errorResponse('Profile not found', 404, debugEnabled ? { idParam, path } : undefined, request, env);
-        }
-
-        // Verify user_id matches
-        if ((result as any).user_id !== body.user_id.trim()) {
-          return errorResponse('Verification failed: user_id does not match', 403, debugEnabled ? { path } : undefined, request, env);
-        }
-
-        // Verify email or phone matches
-        if (hasEmail && (result as any).email !== body.email!.trim()) {
-          return errorResponse('Verification failed: email does not match', 403, debugEnabled ? { path } : undefined, request, env);
-        }
-        if (hasPhone && (result as any).phone !== body.phone!.trim()) {
-          return errorResponse('Verification failed: phone does not match', 403, debugEnabled ? { path } : undefined, request, env);
+        const fileDataUint8 = await zipEntry.async('uint8array');
+        if (!fileDataUint8 || fileDataUint8.length === 0) {
+          return {
+            success: false,
+            filename: relativePath,
+            error: 'File is empty'
+          };
         }
 
-        const profileId = (result as any).id;
+        // Convert Uint8Array to ArrayBuffer (create new ArrayBuffer to avoid SharedArrayBuffer issues)
+        const fileData = new ArrayBuffer(fileDataUint8.length);
+        new Uint8Array(fileData).set(fileDataUint8);
 
-        // Delete R2 files for selfies owned by this profile
-        const selfies = await DB.prepare('SELECT id, ext FROM selfies WHERE profile_id = ?').bind(profileId).all();
-        if (selfies.results?.length) {
-          const deletePromises = selfies.results.map((s: any) => {
-            const key = `selfie/${s.id}.${s.ext}`;
-            return R2_BUCKET.delete(key).catch(() => {});
-          });
-          ctx.waitUntil(Promise.all(deletePromises));
-        }
-
-        // Delete R2 files for results owned by this profile
-        const results_rows = await DB.prepare('SELECT id, ext FROM results WHERE profile_id = ?').bind(profileId).all();
-        if (results_rows.results?.length) {
-          const deletePromises = results_rows.results.map((r: any) => {
-            if (r.id && r.ext) {
-              const key = `results/${r.id}.${r.ext}`;
-              return R2_BUCKET.delete(key).catch(() => {});
-            }
-            return Promise.resolve();
-          });
-          ctx.waitUntil(Promise.all(deletePromises));
-        }
+        if (isFromPresetFolder) {
+          // Preset file processing
+          const contentType = filename.toLowerCase().endsWith('.png') ? 'image/png' : 'image/webp';
 
-        // Delete from DB (selfies, device_tokens cascade; others need manual delete)
-        await DB.batch([
-          DB.prepare('DELETE FROM audit_log WHERE profile_id = ?').bind(profileId),
-          DB.prepare('DELETE FROM subscriptions WHERE profile_id = ?').bind(profileId),
-          DB.prepare('DELETE FROM payments WHERE profile_id = ?').bind(profileId),
-          DB.prepare('DELETE FROM results WHERE profile_id = ?').bind(profileId),
-          DB.prepare('DELETE FROM selfies WHERE profile_id = ?').bind(profileId),
-          DB.prepare('DELETE FROM device_tokens WHERE profile_id = ?').bind(profileId),
-          DB.prepare('DELETE FROM profiles WHERE id = ?').bind(profileId),
-        ]);
+          // Check if we have enough time for prompt generation (need at least 20 seconds)
+          const elapsed = Date.now() - startTime;
+          const skipPromptGeneration = elapsed > (MAX_PROCESSING_TIME - 20000);
 
-        return jsonResponse({
-          data: { id: profileId },
-          status: 'success',
-          message: 'Profile and all associated data deleted successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: { idParam, selfiesDeleted: selfies.results?.length || 0, resultsDeleted: results_rows.results?.length || 0 } } : {})
-        }, 200, request, env);
-      } catch (error) {
-        logCriticalError('/profiles/{id} (DELETE)', error, request, env, {
-          idParam: extractPathId(path, '/profiles/')
-        });
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path } : undefined, request, env);
-      }
-    }
+          let promptResult: any = { success: false, error: 'Skipped due to timeout' };
 
-    // Handle profile listing (for admin/debugging)
-    if (path === '/profiles' && request.method === 'GET') {
-      try {
-        const results = await DB.prepare(
-          'SELECT id, device_id, user_id, name, email, phone, avatar_url, preferences, created_at, updated_at FROM profiles ORDER BY created_at DESC'
-        ).all();
-
-        const profiles: Profile[] = results.results?.map((row: any) => ({
-          id: row.id,
-          device_id: row.device_id || undefined,
-          user_id: row.user_id || undefined,
-          name: row.name || undefined,
-          email: row.email || undefined,
-          phone: row.phone || undefined,
-          avatar_url: ensureFullUrl(row.avatar_url, env, requestUrl.origin),
-          preferences: row.preferences || undefined,
-          created_at: new Date(row.created_at * 1000).toISOString(),
-          updated_at: new Date(row.updated_at * 1000).toISOString()
-        })) || [];
+          if (!skipPromptGeneration) {
+            // Upload to temp location first for prompt generation
+            const tempR2Key = `temp/${presetId}_${Date.now()}.${filename.split('.').pop()}`;
+            await R2_BUCKET.put(tempR2Key, fileData, {
+              httpMetadata: {
+                contentType,
+                cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
+              },
+            });
 
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: { profiles },
-          status: 'success',
-          message: 'Profiles retrieved successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: { count: profiles.length } } : {})
-        }, 200, request, env);
-      } catch (error) {
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 500) } : {}) } : undefined, request, env);
-      }
-    }
+            const tempPublicUrl = getR2PublicUrl(env, tempR2Key, requestUrl.origin);
 
-    // FCM Silent Push Notifications
-    // POST /api/device/register - Register/update FCM token
-    if (path === '/api/device/register' && request.method === 'POST') {
-      try {
-        const body = await request.json() as any;
-        
-        // Validate required fields
-        if (!body.profile_id || !body.platform || !body.token) {
-          return errorResponse('Missing required fields: profile_id, platform, token', 400, 
-            { error: 'Missing fields' }, request, env);
-        }
-        
-        if (!['android', 'ios', 'web'].includes(body.platform)) {
-          return errorResponse('Invalid platform. Must be android, ios, or web', 400,
-            { error: 'Invalid platform' }, request, env);
-        }
-        
-        const profile = await DB.prepare(
-          'SELECT id FROM profiles WHERE id = ?'
-        ).bind(body.profile_id).first();
-        const allowTestProfile = /^test-/.test(String(body.profile_id));
-        if (!profile && !allowTestProfile) {
-          return errorResponse('Profile not found', 404,
-            { error: 'Profile not found' }, request, env);
-        }
-        // Upsert token
-        await DB.prepare(`
-          INSERT INTO device_tokens (token, profile_id, platform, app_version, updated_at)
-          VALUES (?, ?, ?, ?, ?)
-          ON CONFLICT(token) DO UPDATE SET
-            profile_id = excluded.profile_id,
-            platform = excluded.platform,
-            app_version = excluded.app_version,
-            updated_at = excluded.updated_at
-        `).bind(
-          body.token,
-          body.profile_id,
-          body.platform,
-          body.app_version || null,
-          Date.now()
-        ).run();
-        
-        return successResponse({ registered: true }, 200, request, env);
-      } catch (error) {
-        return errorResponse('Failed to register device', 500,
-          { error: error instanceof Error ? error.message : String(error) }, request, env);
-      }
-    }
+            // Generate Vertex AI prompt with retry
+            promptResult = await generateVertexPromptWithRetry(tempPublicUrl, env, isFilterMode === true, customPromptText);
 
-    // POST /api/push/silent - Send silent push (admin endpoint)
-    if (path === '/api/push/silent' && request.method === 'POST') {
-      // Use existing MOBILE_API_KEY auth
-      if (!checkApiKey(env, request)) {
-        return errorResponse('Unauthorized', 401, { error: 'Invalid API key' }, request, env);
-      }
-      
-      try {
-        const body = await request.json() as any;
-        
-        if (!body.profile_id || !body.data) {
-          return errorResponse('Missing required fields: profile_id, data', 400,
-            { error: 'Missing fields' }, request, env);
-        }
-        
-        // Get all tokens for profile
-        const { results: tokens } = await DB.prepare(
-          'SELECT token, platform FROM device_tokens WHERE profile_id = ?'
-        ).bind(body.profile_id).all();
-        
-        if (!tokens || tokens.length === 0) {
-          return successResponse({ sent: 0, message: 'No devices registered' }, 200, request, env);
-        }
-        
-        // Filter out excluded token (current device)
-        const targetTokens = body.exclude_token
-          ? tokens.filter((t: any) => t.token !== body.exclude_token)
-          : tokens;
-        
-        // Send to all devices
-        const results: any[] = [];
-        const tokensToRemove: string[] = [];
-        
-        for (const tokenRow of targetTokens) {
-          const result = await sendFcmSilentPush(
-            env, 
-            (tokenRow as any).token, 
-            (tokenRow as any).platform as 'android' | 'ios' | 'web', 
-            body.data
-          );
-          results.push(result);
-          
-          if (result.should_remove) {
-            tokensToRemove.push((tokenRow as any).token);
+            // Clean up temp file
+            try {
+              await R2_BUCKET.delete(tempR2Key);
+            } catch (e) {
+              // Ignore cleanup errors
+            }
           }
-        }
-        
-        // Cleanup invalid tokens
-        if (tokensToRemove.length > 0) {
-          await DB.prepare(
-            `DELETE FROM device_tokens WHERE token IN (${tokensToRemove.map(() => '?').join(',')})`
-          ).bind(...tokensToRemove).run();
-        }
-        
-        return successResponse({
-          sent: results.filter(r => r.success).length,
-          failed: results.filter(r => !r.success).length,
-          cleaned: tokensToRemove.length,
-          results,
-        }, 200, request, env);
-      } catch (error) {
-        return errorResponse('Failed to send push', 500,
-          { error: error instanceof Error ? error.message : String(error) }, request, env);
-      }
-    }
 
-    // DELETE /api/device/unregister - Remove FCM token
-    if (path === '/api/device/unregister' && request.method === 'DELETE') {
-      try {
-        const body = await request.json() as { token: string };
-        
-        if (!body.token) {
-          return errorResponse('Missing required field: token', 400, {}, request, env);
-        }
-        
-        await DB.prepare('DELETE FROM device_tokens WHERE token = ?')
-          .bind(body.token).run();
-        
-        return successResponse({ unregistered: true }, 200, request, env);
-      } catch (error) {
-        return errorResponse('Failed to unregister device', 500,
-          { error: error instanceof Error ? error.message : String(error) }, request, env);
-      }
-    }
+          if (!skipPromptGeneration && (!promptResult.success || !promptResult.prompt)) {
+            return {
+              success: false,
+              filename: relativePath,
+              error: `Vertex AI prompt generation failed: ${promptResult.error || 'Unknown error'}`
+            };
+          }
 
-    // Handle preset listing
-    // Get single preset by ID
-    if (path.startsWith('/presets/') && path.split('/').length === 3 && request.method === 'GET') {
-      try {
-        const R2_BUCKET = getR2Bucket(env);
-        const presetId = extractPathId(path, '/presets/');
-        if (!presetId) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+          // Upload to final location with prompt metadata (if available)
+          // Zip structure is always preset/*.webp, so use only "preset" folder (ignore any nested structure)
+          // Filter out any path segments that have file extensions (these are filenames, not folders)
+          const pathParts = normalizedPath.split('/').filter(p => p); // Remove empty parts
+          pathParts.pop(); // Remove original filename
+          // Filter out segments with file extensions (misnamed folders/filenames) and keep only valid folder names
+          const cleanPathParts = pathParts.filter(part => !/\.(webp|png|json|jpg|jpeg|gif)$/i.test(part));
+          // Use "preset" if it exists in path, otherwise use first valid folder or default to "preset"
+          const folderPath = cleanPathParts.includes('preset') ? 'preset' : (cleanPathParts.length > 0 ? cleanPathParts[0] : (isFromPresetFolder ? 'preset' : ''));
+          // Construct R2 key: preset/presetId.ext
+          const r2Key = folderPath ? `${folderPath}/${presetId}.${filename.split('.').pop()}` : `${presetId}.${filename.split('.').pop()}`;
+          const promptJson = skipPromptGeneration ? null : JSON.stringify(promptResult.prompt);
+
+          await R2_BUCKET.put(r2Key, fileData, {
+            httpMetadata: {
+              contentType,
+              cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
+            },
+            ...(promptJson ? {
+              customMetadata: {
+                prompt_json: promptJson
+              }
+            } : {})
+          });
 
-        const DB = getD1Database(env);
-        const result = await DB.prepare(
-          'SELECT id, ext, thumbnail_r2, created_at FROM presets WHERE id = ?'
-        ).bind(presetId).first();
+          const publicUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
 
-        if (!result) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Preset not found', 404, debugEnabled ? { presetId, path } : undefined, request, env);
-        }
-
-        const storedKey = reconstructR2Key((result as any).id, (result as any).ext, 'preset');
-        const presetUrl = getR2PublicUrl(env, storedKey, requestUrl.origin);
-        
-        // Extract thumbnail information from thumbnail_r2 JSON
-        let thumbnailUrl: string | null = null;
-        let thumbnailFormat: string | null = null;
-        let thumbnailResolution: string | null = null;
-        let thumbnailData: any = {};
+          // Update database - upsert (keeps catalog columns)
+          const existingPreset = await DB.prepare('SELECT id, thumbnail_r2, created_at FROM presets WHERE id = ?').bind(presetId).first();
+          const createdAt = existingPreset && (existingPreset as any).created_at
+            ? (existingPreset as any).created_at
+            : Math.floor(Date.now() / 1000);
+          const ext = filename.toLowerCase().endsWith('.json') ? 'json' : 'webp'; // Presets are always WebP (or JSON for Lottie)
 
-        if ((result as any).thumbnail_r2) {
-          try {
-            thumbnailData = JSON.parse((result as any).thumbnail_r2);
-            // Use webp_1x as primary thumbnail, fallback to lottie_1x
-            const primaryThumbnailKey = thumbnailData['webp_1x'] || thumbnailData['lottie_1x'];
-            if (primaryThumbnailKey) {
-              thumbnailUrl = getR2PublicUrl(env, primaryThumbnailKey, requestUrl.origin);
-              // Extract format and resolution from the key
-              const keyParts = primaryThumbnailKey.split('/');
-              if (keyParts.length > 0) {
-                const prefix = keyParts[0];
-                const formatMatch = prefix.match(/^(webp|lottie)/i);
-                const resolutionMatch = prefix.match(/([\d.]+x)/i);
-                thumbnailFormat = formatMatch ? formatMatch[1].toLowerCase() : null;
-                thumbnailResolution = resolutionMatch ? resolutionMatch[1] : null;
-              }
-            }
-          } catch (e) {
-            // Fallback: treat as single string for backward compatibility
-            thumbnailUrl = getR2PublicUrl(env, (result as any).thumbnail_r2, requestUrl.origin);
-            const r2KeyParts = (result as any).thumbnail_r2.split('/');
-            if (r2KeyParts.length > 0) {
-              const prefix = r2KeyParts[0];
-              const formatMatch = prefix.match(/^(webp|lottie)/i);
-              const resolutionMatch = prefix.match(/([\d.]+x)/i);
-              thumbnailFormat = formatMatch ? formatMatch[1].toLowerCase() : null;
-              thumbnailResolution = resolutionMatch ? resolutionMatch[1] : null;
-            }
-          }
-        }
-        
-        // Read prompt_json from R2 metadata
-        let hasPrompt = false;
-        let promptJson: any = null;
-        try {
-          const r2Object = await R2_BUCKET.head(storedKey);
-          if (r2Object?.customMetadata?.prompt_json) {
-            const promptJsonString = r2Object.customMetadata.prompt_json;
-            if (promptJsonString && promptJsonString.trim() !== '') {
-              try {
-                promptJson = JSON.parse(promptJsonString);
-                hasPrompt = true;
-              } catch {
-                // Invalid JSON, ignore
-              }
-            }
+          // Use existing thumbnail_r2 if available, otherwise use preset image as default thumbnail
+          let thumbnailR2Json: string;
+          if (existingPreset && (existingPreset as any).thumbnail_r2) {
+            // Preserve existing thumbnail data
+            thumbnailR2Json = (existingPreset as any).thumbnail_r2 as string;
+          } else {
+            // Set preset image as default 4x thumbnail for new presets
+            thumbnailR2Json = JSON.stringify({ webp_4x: r2Key });
           }
-        } catch {
-          // R2 check failed, assume no prompt
-        }
-
-        // Build response with all thumbnail URLs from JSON data
-        const responseData: any = {
-          id: (result as any).id,
-          preset_url: presetUrl,
-          image_url: presetUrl, // Alias for backward compatibility
-          hasPrompt,
-          prompt_json: promptJson,
-          thumbnail_url: thumbnailUrl, // Primary thumbnail (1x)
-          thumbnail_format: thumbnailFormat,
-          thumbnail_resolution: thumbnailResolution,
-          thumbnail_r2: (result as any).thumbnail_r2, // Full JSON data
-          created_at: (result as any).created_at ? new Date((result as any).created_at * 1000).toISOString() : new Date().toISOString()
-        };
 
-        // Add individual thumbnail URLs for each resolution/format
-        Object.keys(thumbnailData).forEach(key => {
-          const url = getR2PublicUrl(env, thumbnailData[key], requestUrl.origin);
-          responseData[key] = url;
-        });
+          await DB.prepare(
+            PRESET_UPSERT_SQL
+          ).bind(presetId, ext, createdAt, thumbnailR2Json).run();
+          const catalog = await applyPresetNameToCatalog(DB, presetId);
 
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: responseData,
-          status: 'success',
-          message: 'Preset retrieved successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: { presetId, hasPrompt, thumbnailCount: Object.keys(thumbnailData).length } } : {})
-        }, 200, request, env);
-      } catch (error) {
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 500) } : {}) } : undefined, request, env);
-      }
-    }
+          return {
+            success: true,
+            type: 'preset',
+            preset_id: presetId,
+            url: publicUrl,
+            hasPrompt: !skipPromptGeneration && promptResult.success && !!promptResult.prompt,
+            catalog, // Category, gender and position parsed from the name (null when it does not follow the convention)
+            vertex_info: skipPromptGeneration 
+              ? { success: false, error: 'Skipped due to timeout' }
+              : (promptResult.success && promptResult.prompt 
+                ? { success: true, promptKeys: Object.keys(promptResult.prompt) }
+                : { success: false, error: promptResult.error || 'Unknown error' })
+          };
+        } else {
+          // Thumbnail file processing - preserve exact folder structure from zip
+          // Use relativePath directly from zip (e.g., "preset_thumb/webp_3x/file.webp" -> "preset_thumb/webp_3x/presetId.webp")
+          const pathParts = normalizedPath.split('/').filter(p => p); // Remove empty parts
+          pathParts.pop(); // Remove original filename
+          // Filter out any path segments that match presetId to prevent duplicates
+          const cleanPathParts = pathParts.filter(part => {
+            const partWithoutExt = part.replace(/\.(webp|png|json)$/i, '');
+            return partWithoutExt !== presetId;
+          });
+          const folderPath = cleanPathParts.length > 0 ? cleanPathParts.join('/') : 'preset_thumb';
+          const ext = filename.split('.').pop() || (format === 'lottie' ? 'json' : 'webp');
+          // Construct R2 key using exact folder structure from zip
+          const thumbnailR2Key = `${folderPath}/${presetId}.${ext}`;
 
-    if (path === '/presets' && request.method === 'GET') {
-      try {
-        const R2_BUCKET = getR2Bucket(env);
-        // Gender filter removed - metadata is in R2 path, not DB
-        const url = new URL(request.url);
-
-        const excludeThumbnails = url.searchParams.get('exclude_thumbnails') === 'true';
-        
-        // By default, include all presets. Use exclude_thumbnails=true to filter out presets with thumbnails
-        let query = `
-          SELECT
-            id,
-            ext,
-            thumbnail_r2,
-            created_at
-          FROM presets
-          WHERE ${excludeThumbnails ? 'thumbnail_r2 IS NULL' : '1=1'}
-        `;
-
-        const params: any[] = [];
-        
-        const limitParam = url.searchParams.get('limit');
-        let limit = 50;
-        if (limitParam) {
-          const parsedLimit = parseInt(limitParam, 10);
-          if (!isNaN(parsedLimit) && parsedLimit > 0 && parsedLimit <= 50) {
-            limit = parsedLimit;
+          // Extract folder type and resolution for metadata (for backward compatibility)
+          const folderMatch = normalizedPath.match(/(webp|lottie|lottie_avif)_([\d.]+x)(?:\/|$)/i);
+          let folderType = 'webp';
+          let resolution = '1x';
+          if (folderMatch) {
+            folderType = folderMatch[1].toLowerCase();
+            resolution = folderMatch[2];
           }
-        }
+          const thumbnailFolder = `${folderType}_${resolution}`;
 
-        query += ` ORDER BY created_at DESC LIMIT ${limit}`;
+          const contentType = filename.toLowerCase().endsWith('.json') ? 'application/json' : 'image/webp';
 
-        const imagesResult = await DB.prepare(query).bind(...params).all();
+          await R2_BUCKET.put(thumbnailR2Key, fileData, {
+            httpMetadata: {
+              contentType,
+              cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL,
+            },
+          });
 
-        if (!imagesResult || !imagesResult.results) {
-          const debugEnabled = isDebugEnabled(env);
-          return jsonResponse({
-            data: { presets: [] },
-            status: 'success',
-            message: 'Presets retrieved successfully',
-            code: 200,
-            ...(debugEnabled ? { debug: { count: 0 } } : {})
-          }, 200, request, env);
-        }
+          const thumbnailUrl = getR2PublicUrl(env, thumbnailR2Key, requestUrl.origin);
 
-        // Flatten to match frontend expectations
-        const presets = await Promise.all(imagesResult.results.map(async (row: any) => {
-          const storedKey = reconstructR2Key(row.id, row.ext, 'preset');
-          const fullUrl = getR2PublicUrl(env, storedKey, requestUrl.origin);
-          
-          // Parse thumbnail_r2 JSON to extract 4x thumbnail
-          let thumbnailUrl: string | null = null;
-          let thumbnailFormat: string | null = null;
-          let thumbnailResolution: string | null = null;
-          let thumbnailR2Key: string | null = null;
-          
-          if (row.thumbnail_r2) {
+          // Update database - upsert (keeps catalog columns)
+          const existingPreset = await DB.prepare('SELECT id, thumbnail_r2, created_at FROM presets WHERE id = ?').bind(presetId).first();
+          let thumbnailData: Record<string, string> = {};
+
+          if (existingPreset && (existingPreset as any).thumbnail_r2) {
             try {
-              // Parse thumbnail_r2 as JSON (e.g., {"webp_4x": "preset/{id}.{ext}"})
-              const thumbnailData = typeof row.thumbnail_r2 === 'string' 
-                ? JSON.parse(row.thumbnail_r2) 
-                : row.thumbnail_r2;
-              
-              // Extract webp_4x thumbnail key
-              thumbnailR2Key = thumbnailData['webp_4x'] || thumbnailData['lottie_4x'] || thumbnailData['lottie_avif_4x'] || null;
-              
-              if (thumbnailR2Key) {
-                thumbnailUrl = getR2PublicUrl(env, thumbnailR2Key, requestUrl.origin);
-                // Extract format and resolution from R2 key (e.g., "preset_thumb/webp_4x/fs_aging_f1_3.webp")
-                const r2KeyParts = thumbnailR2Key.split('/');
-                if (r2KeyParts.length > 0) {
-                  // Check if path contains format/resolution info
-                  const keyStr = thumbnailR2Key.toLowerCase();
-                  if (keyStr.includes('webp_4x')) {
-                    thumbnailFormat = 'webp';
-                    thumbnailResolution = '4x';
-                  } else if (keyStr.includes('lottie_4x')) {
-                    thumbnailFormat = 'lottie';
-                    thumbnailResolution = '4x';
-                  } else if (keyStr.includes('lottie_avif_4x')) {
-                    thumbnailFormat = 'lottie_avif';
-                    thumbnailResolution = '4x';
-                  }
-                }
-              }
+              thumbnailData = JSON.parse((existingPreset as any).thumbnail_r2 as string);
             } catch (e) {
-              // If parsing fails, thumbnail_r2 might be a direct string (legacy format)
-              // Try to use it directly
-              try {
-                if (typeof row.thumbnail_r2 === 'string' && row.thumbnail_r2.trim()) {
-                  const legacyKey = row.thumbnail_r2.trim();
-                  thumbnailR2Key = legacyKey;
-                  thumbnailUrl = getR2PublicUrl(env, legacyKey, requestUrl.origin);
-                }
-              } catch (err) {
-                // Ignore errors
-              }
+              thumbnailData = {};
             }
           }
-          
-          // Check if prompt_json exists in R2 metadata (for hasPrompt)
-          let hasPrompt = false;
-          try {
-            const r2Object = await R2_BUCKET.head(storedKey);
-            hasPrompt = !!(r2Object?.customMetadata?.prompt_json);
-          } catch {
-            // If R2 check fails, assume no prompt
-          }
-          
-          // Use thumbnail URL as image_url if available, otherwise use original preset URL
-          const displayUrl = thumbnailUrl || fullUrl;
-          
-          return {
-            id: row.id || '',
-            preset_url: fullUrl, // Always include original preset URL
-            image_url: displayUrl, // Use thumbnail if available, otherwise original
-            hasPrompt,
-            prompt_json: null, // Not included in list view for performance (read from R2 metadata in detail view)
-            thumbnail_url: thumbnailUrl,
-            thumbnail_format: thumbnailFormat,
-            thumbnail_resolution: thumbnailResolution,
-            created_at: row.created_at ? new Date(row.created_at * 1000).toISOString() : new Date().toISOString()
-          };
-        }));
 
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: { presets },
-          status: 'success',
-          message: 'Presets retrieved successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: { count: presets.length } } : {})
-        }, 200, request, env);
-      } catch (error) {
-        // Return empty array instead of error to prevent UI breaking
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: { presets: [] },
-          status: 'success',
-          message: 'Presets retrieved successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: { error: error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200), count: 0 } } : {})
-        }, 200, request, env);
-      }
-    }
-
-    // Handle preset deletion
-    if (path.startsWith('/presets/') && request.method === 'DELETE') {
-      try {
-        const presetId = extractPathId(path, '/presets/');
-        if (!presetId) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+          thumbnailData[thumbnailFolder] = thumbnailR2Key;
 
+          const createdAt = existingPreset && (existingPreset as any).created_at
+            ? (existingPreset as any).created_at
+            : Math.floor(Date.now() / 1000);
+          const extForDb = filename.toLowerCase().endsWith('.json') ? 'json' : 'webp';
 
-        // First, check if preset exists
-        const checkResult = await DB.prepare(
-          'SELECT id, ext FROM presets WHERE id = ?'
-        ).bind(presetId).first();
+          await DB.prepare(
+            PRESET_UPSERT_SQL
+          ).bind(
+            presetId,
+            extForDb,
+            createdAt,
+            JSON.stringify(thumbnailData)
+          ).run();
+          const catalog = await applyPresetNameToCatalog(DB, presetId);
 
-        if (!checkResult) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Preset not found', 404, debugEnabled ? { presetId, path } : undefined, request, env);
+          return {
+            success: true,
+            type: 'thumbnail',
+            preset_id: presetId,
+            url: thumbnailUrl,
+            hasPrompt: false,
+            metadata: { format: folderType, resolution },
+            catalog
+          };
         }
+      } catch (fileError) {
+        const errorMsg = fileError instanceof Error ? fileError.message : String(fileError);
+        return {
+          success: false,
+          filename: relativePath,
+          error: errorMsg.substring(0, 200)
+        };
+      }
+    };
 
-        const storedKey = reconstructR2Key((checkResult as any).id, (checkResult as any).ext, 'preset');
-        const r2Key = storedKey;
-
-        // Delete preset from database
-        // NOTE: Results are NOT deleted when preset is deleted - they belong to profiles and should be preserved
-        const deleteResult = await DB.prepare(
-          'DELETE FROM presets WHERE id = ?'
-        ).bind(presetId).run();
+    // Process files with concurrency limit (5 at a time to prevent timeout)
+    const concurrency = 5;
+    let processedCount = 0;
+    let timeoutReached = false;
+
+    for (let i = 0; i < fileEntries.length; i += concurrency) {
+      // Check if we're running out of time
+      const elapsed = Date.now() - startTime;
+      if (elapsed > MAX_PROCESSING_TIME) {
+        console.warn(`[process-thumbnail-zip] Timeout approaching, stopping processing. Processed ${processedCount}/${fileEntries.length} files`);
+        timeoutReached = true;
+        break;
+      }
 
-        if (!deleteResult.success || deleteResult.meta?.changes === 0) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Preset not found or already deleted', 404, debugEnabled ? { presetId, path } : undefined, request, env);
-        }
+      const batch = fileEntries.slice(i, i + concurrency);
+      console.log(`[process-thumbnail-zip] Processing batch ${Math.floor(i / concurrency) + 1}, files ${i + 1}-${Math.min(i + concurrency, fileEntries.length)}`);
 
-        // Try to delete from R2 (non-fatal if it fails)
-        let r2Deleted = false;
-        let r2Error = null;
-        let cdnPurgeResult = null;
-        if (r2Key) {
-          try {
-            await R2_BUCKET.delete(r2Key);
-            r2Deleted = true;
+      const batchResults = await Promise.all(batch.map(processFile));
+      processedCount += batch.length;
 
-            // Purge CDN cache (wait for result)
-            const publicUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-            try {
-              const purgeResult = await purgeCdnCache([publicUrl], env);
-              cdnPurgeResult = {
-                success: purgeResult.success,
-                purged: purgeResult.purged,
-                skipped: purgeResult.skipped,
-                error: purgeResult.error || null
-              };
-            } catch (purgeError) {
-              cdnPurgeResult = {
-                success: false,
-                error: purgeError instanceof Error ? purgeError.message : String(purgeError)
-              };
-              console.error('[Delete Preset] CDN purge failed:', purgeError);
+      for (const result of batchResults) {
+        if (result.success) {
+          successful++;
+          results.push(result);
+          if (result.type === 'preset') {
+            presetsProcessed++;
+            if (result.hasPrompt) {
+              presetsWithPrompts++;
             }
-          } catch (r2DeleteError) {
-            r2Error = r2DeleteError instanceof Error ? r2DeleteError.message : String(r2DeleteError);
-            // Continue - database deletion succeeded, R2 deletion is optional
+          } else if (result.type === 'thumbnail') {
+            thumbnailsProcessed++;
           }
+        } else {
+          failed++;
+          results.push(result);
         }
+      }
 
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: {},
-          status: 'success',
-          ...(debugEnabled ? { debug: { presetId, r2Deleted, r2Error, cdnPurge: cdnPurgeResult } } : {}),
-          message: 'Preset deleted successfully',
-          code: 200
-        });
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: null,
-          status: 'error',
-          message: '',
-          code: 500,
-          ...(debugEnabled ? { debug: {
-            presetId: path.replace('/presets/', ''),
-            error: errorMessage,
-            errorType: error instanceof Error ? error.constructor.name : typeof error,
-            path,
-            ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 500) } : {})
-          } } : {})
-        }, 500, request, env);
+      // Small delay to prevent overwhelming the system
+      if (i + concurrency < fileEntries.length) {
+        await new Promise(resolve => setTimeout(resolve, 100));
       }
     }
 
-    // Handle selfies listing
-    if (path === '/selfies' && request.method === 'GET') {
-      const url = new URL(request.url);
-      try {
-        // Check for required profile_id query parameter
-        const profileId = url.searchParams.get('profile_id');
-        if (!profileId) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    const totalTime = Date.now() - startTime;
+    console.log(`[process-thumbnail-zip] Processing complete. Time: ${totalTime}ms, Processed: ${processedCount}/${fileEntries.length}, Success: ${successful}, Failed: ${failed}`);
+
+    return successResponse({
+      total: fileEntries.length,
+      processed: processedCount,
+      successful,
+      failed,
+      presets_processed: presetsProcessed,
+      presets_with_prompts: presetsWithPrompts,
+      thumbnails_processed: thumbnailsProcessed,
+      timeout_reached: timeoutReached,
+      processing_time_ms: totalTime,
+      results: timeoutReached ? results.slice(0, 100) : results // Limit results if timeout
+    }, 200, request, env);
 
-        // Validate that profile exists
-        const profileCheck = await DB.prepare(
-          'SELECT id FROM profiles WHERE id = ?'
-        ).bind(profileId).first();
-        if (!profileCheck) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Profile not found', 404, debugEnabled ? { profileId, path } : undefined, request, env);
-        }
+  } catch (error) {
+    logCriticalError('/process-thumbnail-zip', error, request, env, {
+      errorType: 'unhandled_error'
+    });
+    const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
+    const debugEnabled = isDebugEnabled(env);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg, path } : undefined, request, env);
+  }
+};
 
-        // Get optional action filter parameter
-        const actionFilter = url.searchParams.get('action');
-        
-        // Check if new schema (ext column exists) or old schema (selfie_url exists)
-        const schemaCheck = await DB.prepare('PRAGMA table_info(selfies)').all();
-        const hasExt = schemaCheck.results?.some((col: any) => col.name === 'ext');
-        const hasUrl = schemaCheck.results?.some((col: any) => col.name === 'selfie_url');
-        
-        let query: string;
-        const queryParams: any[] = [profileId];
-        
-        const limitParam = url.searchParams.get('limit');
-        let limit = 50;
-        if (limitParam) {
-          const parsedLimit = parseInt(limitParam, 10);
-          if (!isNaN(parsedLimit) && parsedLimit > 0 && parsedLimit <= 50) {
-            limit = parsedLimit;
-          }
-        }
-        
-        // Build WHERE clause with optional action filter
-        let whereClause = 'WHERE profile_id = ?';
-        if (actionFilter && actionFilter.trim()) {
-          const normalizedAction = actionFilter.trim().toLowerCase();
-          // Support both '4k' and '4K' for backward compatibility
-          if (normalizedAction === '4k') {
-            whereClause += ' AND (action = ? OR action = ?)';
-            queryParams.push('4k', '4K');
-          } else {
-            whereClause += ' AND action = ?';
-            queryParams.push(normalizedAction);
-          }
-        }
-        
-        if (hasExt) {
-          query = `SELECT id, ext, profile_id, action, created_at FROM selfies ${whereClause} ORDER BY created_at DESC LIMIT ${limit}`;
-        } else if (hasUrl) {
-          query = `SELECT id, selfie_url, profile_id, action, created_at FROM selfies ${whereClause} ORDER BY created_at DESC LIMIT ${limit}`;
-        } else {
-          const debugEnabled = isDebugEnabled(env);
-          return jsonResponse({
-            data: { selfies: [] },
-            status: 'success',
-            message: 'Selfies retrieved successfully',
-            code: 200,
-            ...(debugEnabled ? { debug: { count: 0, reason: 'schema_mismatch' } } : {})
-          }, 200, request, env);
-        }
+// Handle profile creation
+const handleCreateProfile = async ({ request, env, DB, requestUrl, path }: RouteContext): Promise<Response> => {
+  let body: Partial<Profile & { userID?: string; id?: string; device_id?: string; user_id?: string; referral_code?: string }> | undefined;
+  try {
+    body = await request.json() as Partial<Profile & { userID?: string; id?: string; device_id?: string; user_id?: string; referral_code?: string }>;
+    const deviceId = body.device_id || request.headers.get('x-device-id') || null;
+    const userId = body.userID || body.user_id || null; // External user ID for searching
+    const profileId = body.id || nanoid(16); // Profile ID is always auto-generated or provided via id field
+
+    const tableCheck = await DB.prepare(
+      "SELECT name FROM sqlite_master WHERE type='table' AND name='profiles'"
+    ).first();
+
+    if (!tableCheck) {
+      console.error('ERROR: profiles table does not exist in database!');
+      console.error('Database schema needs to be initialized. Run: wrangler d1 execute faceswap-db --remote --file=schema.sql');
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('', 500, debugEnabled ? { path } : undefined, request, env);
+    }
 
-        const result = await DB.prepare(query).bind(...queryParams).all();
+    // Check for existing profile by id or user_id
+    if (body.id || userId) {
+      let existingProfile = null;
 
-        if (!result || !result.results) {
-          const debugEnabled = isDebugEnabled(env);
-          return jsonResponse({
-            data: { selfies: [] },
-            status: 'success',
-            message: 'Selfies retrieved successfully',
-            code: 200,
-            ...(debugEnabled ? { debug: { count: 0 } } : {})
-          }, 200, request, env);
-        }
+      // Check by profile ID
+      if (body.id) {
+        existingProfile = await DB.prepare(
+          'SELECT id FROM profiles WHERE id = ?'
+        ).bind(profileId).first();
+      }
 
-        const selfies = result.results.map((row: any) => {
-          let fullUrl: string;
-          if (hasExt && row.ext) {
-            const storedKey = reconstructR2Key(row.id, row.ext, 'selfie');
-            fullUrl = getR2PublicUrl(env, storedKey, requestUrl.origin);
-          } else if (hasUrl && row.selfie_url) {
-            const storedKey = row.selfie_url || '';
-            if (storedKey && !storedKey.startsWith('http://') && !storedKey.startsWith('https://')) {
-              fullUrl = getR2PublicUrl(env, storedKey, requestUrl.origin);
-            } else {
-              fullUrl = convertLegacyUrl(storedKey, env);
-            }
-          } else {
-            fullUrl = '';
-          }
-          return {
-            id: row.id || '',
-            selfie_url: fullUrl,
-            action: row.action || null,
-            created_at: row.created_at ? new Date(row.created_at * 1000).toISOString() : new Date().toISOString()
-          };
-        });
+      // Also check by user_id if provided
+      if (!existingProfile && userId) {
+        existingProfile = await DB.prepare(
+          'SELECT id FROM profiles WHERE user_id = ?'
+        ).bind(userId).first();
+      }
 
+      if (existingProfile) {
         const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: { selfies },
-          status: 'success',
-          message: 'Selfies retrieved successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: { count: selfies.length, profileId } } : {})
-        }, 200, request, env);
-      } catch (error) {
-        logCriticalError('/selfies (GET)', error, request, env, {
-          profileId: url.searchParams.get('profile_id'),
-          action: url.searchParams.get('action'),
-          limit: url.searchParams.get('limit')
-        });
-        // Return empty array instead of error to prevent UI breaking
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: { selfies: [] },
-          status: 'success',
-          message: 'Selfies retrieved successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: { error: error instanceof Error ? error.message : String(error), count: 0 } } : {})
-        }, 200, request, env);
+        return errorResponse('Profile already exists', 409, debugEnabled ? { profileId, userId, path } : undefined, request, env);
       }
     }
 
-    // Handle selfie deletion
-    if (path.startsWith('/selfies/') && request.method === 'DELETE') {
-      try {
-        const selfieId = extractPathId(path, '/selfies/');
-        if (!selfieId) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
-
-        // First, check if selfie exists
-        const checkResult = await DB.prepare(
-          'SELECT id, ext FROM selfies WHERE id = ?'
-        ).bind(selfieId).first();
+    const createdAt = Math.floor(Date.now() / 1000);
+    const updatedAt = Math.floor(Date.now() / 1000);
+
+    // Convert preferences to JSON string if it's an object
+    const preferencesString = body.preferences 
+      ? (typeof body.preferences === 'string' ? body.preferences : JSON.stringify(body.preferences))
+      : null;
+
+    const ip = request.headers.get('cf-connecting-ip') || null;
+    const result = await DB.prepare(
+      'INSERT INTO profiles (id, device_id, user_id, name, email, phone, avatar_url, preferences, signup_ip, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    ).bind(
+      profileId,
+      deviceId,
+      userId,
+      body.name || null,
+      body.email || null,
+      body.phone || null,
+      body.avatar_url || null,
+      preferencesString,
+      ip,
+      createdAt,
+      updatedAt
+    ).run();
 
-        if (!checkResult) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Selfie not found', 404, debugEnabled ? { selfieId, path } : undefined, request, env);
-        }
 
-        const r2Key = reconstructR2Key((checkResult as any).id, (checkResult as any).ext, 'selfie');
+    if (!result.success) {
+      console.error('[DB] Profile insert failed');
+      const errorDetails = result.meta?.error || (result as any).error || 'Unknown database error';
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('', 500, debugEnabled ? { error: errorDetails, profileId, path } : undefined, request, env);
+    }
 
-        // Delete selfie from database
-        // NOTE: Results are NOT deleted when selfie is deleted - they belong to profiles and should be preserved
-        const deleteResult = await DB.prepare(
-          'DELETE FROM selfies WHERE id = ?'
-        ).bind(selfieId).run();
+    if (result.meta?.changes === 0) {
+      console.error('[DB] Profile insert returned 0 changes');
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('', 500, debugEnabled ? { profileId, path } : undefined, request, env);
+    }
 
-        if (!deleteResult.success || deleteResult.meta?.changes === 0) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Selfie not found or already deleted', 404, debugEnabled ? { selfieId, path } : undefined, request, env);
-        }
+    const profile = {
+      id: profileId,
+      device_id: deviceId || undefined,
+      user_id: userId || undefined,
+      name: body.name || undefined,
+      email: body.email || undefined,
+      phone: body.phone || undefined,
+      avatar_url: ensureFullUrl(body.avatar_url, env, requestUrl.origin),
+      preferences: body.preferences || undefined,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
 
-        // Try to delete from R2 (non-fatal if it fails)
-        let r2Deleted = false;
-        let r2Error = null;
-        let cdnPurgeResult = null;
-        if (r2Key) {
-          try {
-            await R2_BUCKET.delete(r2Key);
-            r2Deleted = true;
+    // Generate profile_token for auth binding (if PROFILE_TOKEN_SECRET configured)
+    const profileToken = env.PROFILE_TOKEN_SECRET
+      ? await generateProfileToken(profileId, env.PROFILE_TOKEN_SECRET)
+      : undefined;
 
-            // Purge CDN cache (wait for result)
-            const publicUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-            try {
-              const purgeResult = await purgeCdnCache([publicUrl], env);
-              cdnPurgeResult = {
-                success: purgeResult.success,
-                purged: purgeResult.purged,
-                skipped: purgeResult.skipped,
-                error: purgeResult.error || null
-              };
-            } catch (purgeError) {
-              cdnPurgeResult = {
-                success: false,
-                error: purgeError instanceof Error ? purgeError.message : String(purgeError)
-              };
-              console.error('[Delete Selfie] CDN purge failed:', purgeError);
-            }
-          } catch (r2DeleteError) {
-            r2Error = r2DeleteError instanceof Error ? r2DeleteError.message : String(r2DeleteError);
-            // Continue - database deletion succeeded, R2 deletion is optional
-          }
-        }
+    // A referral code never blocks profile creation; the outcome is reported next to the profile
+    const referral = body.referral_code ? await applyReferralCode(DB, profileId, body.referral_code, ip) : undefined;
 
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: {},
-          status: 'success',
-          message: 'Selfie deleted successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: { selfieId, r2Deleted, r2Error, cdnPurge: cdnPurgeResult } } : {})
-        }, 200, request, env);
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: null,
-          status: 'error',
-          message: '',
-          code: 500,
-          ...(debugEnabled ? { debug: {
-            selfieId: path.replace('/selfies/', ''),
-            error: errorMessage,
-            errorType: error instanceof Error ? error.constructor.name : typeof error,
-            path,
-            ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 500) } : {})
-          } } : {})
-        }, 500, request, env);
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: { ...profile, ...(profileToken ? { profile_token: profileToken } : {}), ...(referral ? { referral } : {}) },
+      status: 'success',
+      message: 'Profile created successfully',
+      code: 200,
+      ...(debugEnabled ? { debug: { profileId, deviceId, userId } } : {})
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/profiles (POST)', error, request, env, {
+      body: {
+        device_id: body?.device_id ? '***present***' : 'missing',
+        userID: body?.userID || body?.user_id,
+        id: body?.id,
+        profile_id: body?.id || 'auto-generated'
       }
-    }
+    });
+    const debugEnabled = isDebugEnabled(env);
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
+  }
+};
 
+// Handle profile retrieval (supports profile ID, device ID, and user_id)
+const handleGetProfile = async ({ request, env, DB, requestUrl, path, params }: RouteContext): Promise<Response> => {
+  try {
+    const idParam = params.id;
+    if (!idParam) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Missing required path parameter: id', 400, debugEnabled ? { path } : undefined, request, env);
+    }
 
-    // Handle results listing
-    // Get preset_id from thumbnail_id (for mobile app) - thumbnail is in same row as preset
-    if (path.startsWith('/thumbnails/') && path.endsWith('/preset') && request.method === 'GET') {
-      try {
-        const pathWithoutSuffix = path.replace('/preset', '');
-        const thumbnailId = extractPathId(pathWithoutSuffix, '/thumbnails/');
-        if (!thumbnailId) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    let foundBy = '';
 
-        const DB = getD1Database(env);
-        // Thumbnail is stored in same row as preset, so the ID is the preset ID
-        const preset = await DB.prepare(
-          'SELECT id FROM presets WHERE id = ? AND thumbnail_r2 IS NOT NULL'
-        ).bind(thumbnailId).first();
+    // Try to find by profile ID first
+    let result = await DB.prepare(
+      'SELECT id, device_id, user_id, name, email, phone, avatar_url, preferences, sub_point_remaining, consumable_point_remaining, total_credits_purchased, total_credits_spent, created_at, updated_at FROM profiles WHERE id = ?'
+    ).bind(idParam).first();
+    if (result) foundBy = 'profile_id';
 
-        if (!preset) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Thumbnail not found', 404, debugEnabled ? { thumbnailId, path } : undefined, request, env);
-        }
+    // If not found by ID, try by device_id
+    if (!result) {
+      result = await DB.prepare(
+        'SELECT id, device_id, user_id, name, email, phone, avatar_url, preferences, sub_point_remaining, consumable_point_remaining, total_credits_purchased, total_credits_spent, created_at, updated_at FROM profiles WHERE device_id = ?'
+      ).bind(idParam).first();
+      if (result) foundBy = 'device_id';
+    }
 
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: { preset_id: (preset as any).id },
-          status: 'success',
-          message: 'Preset ID retrieved successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: { thumbnailId, presetId: (preset as any).id } } : {})
-        }, 200, request, env);
-      } catch (error) {
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 500) } : {}) } : undefined, request, env);
-      }
+    // If not found by device_id, try by user_id
+    if (!result) {
+      result = await DB.prepare(
+        'SELECT id, device_id, user_id, name, email, phone, avatar_url, preferences, sub_point_remaining, consumable_point_remaining, total_credits_purchased, total_credits_spent, created_at, updated_at FROM profiles WHERE user_id = ?'
+      ).bind(idParam).first();
+      if (result) foundBy = 'user_id';
     }
 
-    // Get thumbnails - query presets table where any thumbnail column IS NOT NULL
-    if (path === '/thumbnails' && request.method === 'GET') {
+    if (!result) {
       const debugEnabled = isDebugEnabled(env);
-      try {
-        const DB = getD1Database(env);
-        
-        let query = `SELECT
-          id,
-          thumbnail_r2,
-          created_at
-        FROM presets
-        WHERE thumbnail_r2 IS NOT NULL`;
-        const bindings: any[] = [];
+      return errorResponse('Profile not found', 404, debugEnabled ? { idParam, searchedBy: 'id, device_id, and user_id', path } : undefined, request, env);
+    }
 
-        query += ' ORDER BY created_at DESC';
+    const profile: Profile = {
+      id: (result as any).id,
+      device_id: (result as any).device_id || undefined,
+      user_id: (result as any).user_id || undefined,
+      name: (result as any).name || undefined,
+      email: (result as any).email || undefined,
+      phone: (result as any).phone || undefined,
+      avatar_url: ensureFullUrl((result as any).avatar_url, env, requestUrl.origin),
+      preferences: (result as any).preferences || undefined,
+      sub_point_remaining: (result as any).sub_point_remaining ?? 0,
+      consumable_point_remaining: (result as any).consumable_point_remaining ?? 0,
+      total_credits_purchased: (result as any).total_credits_purchased ?? 0,
+      total_credits_spent: (result as any).total_credits_spent ?? 0,
+      created_at: new Date((result as any).created_at * 1000).toISOString(),
+      updated_at: new Date((result as any).updated_at * 1000).toISOString()
+    };
 
-        const stmt = DB.prepare(query);
-        const result = bindings.length > 0
-          ? await stmt.bind(...bindings).all()
-          : await stmt.all();
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: profile,
+      status: 'success',
+      message: 'Profile retrieved successfully',
+      code: 200,
+      ...(debugEnabled ? { debug: { idParam, foundBy } } : {})
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/profiles/{id} (GET)', error, request, env, {
+      idParam: params.id
+    });
+    const debugEnabled = isDebugEnabled(env);
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
+  }
+};
 
-        // Map results to include all thumbnail resolutions from JSON
-        const thumbnails = (result.results || []).map((row: any) => {
-          let thumbnailData: Record<string, string> = {};
-          try {
-            thumbnailData = row.thumbnail_r2 ? JSON.parse(row.thumbnail_r2) : {};
-          } catch (e) {
-            thumbnailData = {};
-          }
+// Handle profile update
+const handleUpdateProfile = async ({ request, env, DB, requestUrl, path, params }: RouteContext): Promise<Response> => {
+  try {
+    const profileId = params.id;
+    if (!profileId) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Missing required path parameter: id', 400, debugEnabled ? { path } : undefined, request, env);
+    }
+    const body = await request.json() as Partial<Profile>;
+
+    // Build dynamic SET clause — only update fields present in body
+    const setClauses: string[] = ['updated_at = ?'];
+    const bindValues: any[] = [Math.floor(Date.now() / 1000)];
+
+    if ('name' in body) { setClauses.push('name = ?'); bindValues.push(body.name || null); }
+    if ('email' in body) { setClauses.push('email = ?'); bindValues.push(body.email || null); }
+    if ('phone' in body) { setClauses.push('phone = ?'); bindValues.push(body.phone || null); }
+    if ('avatar_url' in body) { setClauses.push('avatar_url = ?'); bindValues.push(body.avatar_url || null); }
+    if ('preferences' in body) {
+      const preferencesString = body.preferences
+        ? (typeof body.preferences === 'string' ? body.preferences : JSON.stringify(body.preferences))
+        : null;
+      setClauses.push('preferences = ?');
+      bindValues.push(preferencesString);
+    }
+    bindValues.push(profileId);
 
-          // Build full URLs from R2 keys
-          const buildThumbnailUrl = (key: string | null | undefined): string | null => {
-            if (!key) return null;
-            return getR2PublicUrl(env, key, requestUrl.origin);
-          };
+    const result = await DB.prepare(
+      `UPDATE profiles SET ${setClauses.join(', ')} WHERE id = ?`
+    ).bind(...bindValues).run();
 
-          // Build response object with only 4x thumbnails
-          const response: any = {
-            preset_id: row.id, // Include preset_id for frontend selection
-          };
+    if (!result.success || result.meta?.changes === 0) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Profile not found or update failed', 404, debugEnabled ? { profileId, path } : undefined, request, env);
+    }
 
-          // Primary thumbnail_url_4x: prefer webp, then lottie, then lottie_avif
-          const primary4x = thumbnailData['webp_4x'] || thumbnailData['lottie_4x'] || thumbnailData['lottie_avif_4x'];
-          response.thumbnail_url_4x = buildThumbnailUrl(primary4x);
+    // Return updated profile
+    const updatedResult = await DB.prepare(
+      'SELECT id, device_id, user_id, name, email, phone, avatar_url, preferences, sub_point_remaining, consumable_point_remaining, total_credits_purchased, total_credits_spent, created_at, updated_at FROM profiles WHERE id = ?'
+    ).bind(profileId).first();
 
-          // Add lottie_4x if exists (can coexist with webp_4x)
-          if (thumbnailData['lottie_4x']) {
-            response.thumbnail_url_4x_lottie = buildThumbnailUrl(thumbnailData['lottie_4x']);
-          }
+    if (!updatedResult) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Profile not found after update', 404, debugEnabled ? { profileId, path } : undefined, request, env);
+    }
 
-          // Add lottie_avif_4x if exists (can coexist with lottie_4x and webp_4x)
-          if (thumbnailData['lottie_avif_4x']) {
-            response.thumbnail_url_4x_lottie_avif = buildThumbnailUrl(thumbnailData['lottie_avif_4x']);
-          }
+    const profile: Profile = {
+      id: profileId,
+      device_id: (updatedResult as any).device_id || undefined,
+      user_id: (updatedResult as any).user_id || undefined,
+      name: (updatedResult as any).name || undefined,
+      email: (updatedResult as any).email || undefined,
+      phone: (updatedResult as any).phone || undefined,
+      avatar_url: ensureFullUrl((updatedResult as any).avatar_url, env, requestUrl.origin),
+      preferences: (updatedResult as any).preferences || undefined,
+      sub_point_remaining: (updatedResult as any).sub_point_remaining ?? 0,
+      consumable_point_remaining: (updatedResult as any).consumable_point_remaining ?? 0,
+      total_credits_purchased: (updatedResult as any).total_credits_purchased ?? 0,
+      total_credits_spent: (updatedResult as any).total_credits_spent ?? 0,
+      created_at: new Date((updatedResult as any).created_at * 1000).toISOString(),
+      updated_at: new Date((updatedResult as any).updated_at * 1000).toISOString()
+    };
 
-          return response;
-        });
-          
-        return jsonResponse({
-          data: { thumbnails },
-          status: 'success',
-          message: 'Thumbnails retrieved successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: { count: thumbnails.length } } : {})
-        }, 200, request, env);
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 500) } : {}) } : undefined, request, env);
-      }
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: profile,
+      status: 'success',
+      message: 'Profile updated successfully',
+      code: 200,
+      ...(debugEnabled ? { debug: { profileId } } : {})
+    }, 200, request, env);
+  } catch (error) {
+    const debugEnabled = isDebugEnabled(env);
+    const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 500) } : {}) } : undefined, request, env);
+  }
+};
+
+// Handle profile deletion (requires profile_id + user_id + email or phone for safety)
+const handleDeleteProfile = async ({ request, env, ctx, DB, R2_BUCKET, path, params }: RouteContext): Promise<Response> => {
+  try {
+    const idParam = params.id;
+    if (!idParam) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Missing required path parameter: id', 400, debugEnabled ? { path } : undefined, request, env);
     }
 
-    if (path === '/results' && request.method === 'GET') {
-      const url = new URL(request.url);
-      try {
-        const profileId = url.searchParams.get('profile_id');
-
-
-        let query = 'SELECT id, ext, profile_id, action, created_at FROM results';
-        const params: any[] = [];
-        
-        const limitParam = url.searchParams.get('limit');
-        let limit = 50;
-        if (limitParam) {
-          const parsedLimit = parseInt(limitParam, 10);
-          if (!isNaN(parsedLimit) && parsedLimit > 0 && parsedLimit <= 50) {
-            limit = parsedLimit;
-          }
-        }
+    // Parse request body for verification fields
+    let body: { profile_id?: string; user_id?: string; email?: string; phone?: string } = {};
+    try {
+      body = await request.json() as typeof body;
+    } catch {
+      return errorResponse('Request body is required for profile deletion. Must include: profile_id, user_id, and either email or phone', 400, undefined, request, env);
+    }
 
-        if (profileId) {
-        const profileCheck = await DB.prepare(
-          'SELECT id FROM profiles WHERE id = ?'
-        ).bind(profileId).first();
-        if (!profileCheck) {
-          return errorResponse('Profile not found', 404, undefined, request, env);
-        }
-          query += ' WHERE profile_id = ?';
-          params.push(profileId);
-        }
+    const debugEnabled = isDebugEnabled(env);
 
-        query += ` ORDER BY created_at DESC LIMIT ${limit}`;
+    // Validate required fields: profile_id and user_id are MUST
+    if (!body.profile_id || !body.profile_id.trim()) {
+      return errorResponse('Missing required field: profile_id', 400, debugEnabled ? { path, provided: Object.keys(body) } : undefined, request, env);
+    }
+    if (!body.user_id || !body.user_id.trim()) {
+      return errorResponse('Missing required field: user_id', 400, debugEnabled ? { path, provided: Object.keys(body) } : undefined, request, env);
+    }
+    // Either email or phone is required
+    const hasEmail = !!(body.email && body.email.trim());
+    const hasPhone = !!(body.phone && body.phone.trim());
+    if (!hasEmail && !hasPhone) {
+      return errorResponse('Missing required field: either email or phone must be provided', 400, debugEnabled ? { path, provided: Object.keys(body) } : undefined, request, env);
+    }
 
-        const result = await DB.prepare(query).bind(...params).all();
+    // profile_id in body must match URL param
+    if (body.profile_id.trim() !== idParam) {
+      return errorResponse('profile_id in body does not match URL parameter', 400, debugEnabled ? { urlParam: idParam, bodyProfileId: body.profile_id, path } : undefined, request, env);
+    }
 
-        if (!result || !result.results) {
-          const debugEnabled = isDebugEnabled(env);
-          return jsonResponse({
-            data: [],
-            status: 'success',
-            message: 'Results retrieved successfully',
-            code: 200,
-            ...(debugEnabled ? { debug: { count: 0, profileId: profileId || null } } : {})
-          }, 200, request, env);
-        }
+    // Fetch the profile and verify ALL fields match
+    const result = await DB.prepare(
+      'SELECT id, user_id, email, phone FROM profiles WHERE id = ?'
+    ).bind(idParam).first();
 
-        const results = result.results.map((row: any) => {
-          // Check if id is already a full URL (WaveSpeed external URL)
-          const isExternalUrl = row.id && row.id.startsWith('http');
-          const fullUrl = isExternalUrl
-            ? row.id
-            : getR2PublicUrl(env, reconstructR2Key(row.id, row.ext, 'results'), requestUrl.origin);
-          return {
-            id: String(row.id || ''),
-            result_url: fullUrl,
-            action: row.action || null,
-            created_at: row.created_at ? new Date(row.created_at * 1000).toISOString() : new Date().toISOString()
-          };
-        });
+    if (!result) {
+      return errorResponse('Profile not found', 404, debugEnabled ? { idParam, path } : undefined, request, env);
+    }
 
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: results,
-          status: 'success',
-          message: 'Results retrieved successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: { count: results.length, profileId: profileId || null } } : {})
-        }, 200, request, env);
-      } catch (error) {
-        logCriticalError('/results (GET)', error, request, env, {
-          profileId: url.searchParams.get('profile_id'),
-          limit: url.searchParams.get('limit')
-        });
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: [],
-          status: 'success',
-          message: 'Results retrieved successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: { error: error instanceof Error ? error.message : String(error), count: 0 } } : {})
-        }, 200, request, env);
-      }
+    // Verify user_id matches
+    if ((result as any).user_id !== body.user_id.trim()) {
+      return errorResponse('Verification failed: user_id does not match', 403, debugEnabled ? { path } : undefined, request, env);
     }
 
-    // Handle results deletion (reuse same pattern as presets/selfies)
-    if (path.startsWith('/results/') && request.method === 'DELETE') {
-      try {
-        const resultIdFull = extractResultIdFromPath(path);
-        const resultIdShort = extractPathId(path, '/results/');
-        const resultId = resultIdFull || resultIdShort;
-        if (!resultId) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    // Verify email or phone matches
+    if (hasEmail && (result as any).email !== body.email!.trim()) {
+      return errorResponse('Verification failed: email does not match', 403, debugEnabled ? { path } : undefined, request, env);
+    }
+    if (hasPhone && (result as any).phone !== body.phone!.trim()) {
+      return errorResponse('Verification failed: phone does not match', 403, debugEnabled ? { path } : undefined, request, env);
+    }
 
-        let checkResult = resultIdFull
-          ? await DB.prepare('SELECT id, ext FROM results WHERE id = ?').bind(resultIdFull).first()
-          : null;
-        if (!checkResult && resultIdShort && resultIdShort !== resultIdFull) {
-          checkResult = await DB.prepare('SELECT id, ext FROM results WHERE id = ?').bind(resultIdShort).first();
-        }
+    const profileId = (result as any).id;
 
-        if (!checkResult) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Result not found', 404, debugEnabled ? { resultId, path } : undefined, request, env);
-        }
+    // Delete R2 files for selfies owned by this profile
+    const selfies = await DB.prepare('SELECT id, ext FROM selfies WHERE profile_id = ?').bind(profileId).all();
+    if (selfies.results?.length) {
+      const deletePromises = selfies.results.map((s: any) => {
+        const key = `selfie/${s.id}.${s.ext}`;
+        return R2_BUCKET.delete(key).catch(() => {});
+      });
+      ctx.waitUntil(Promise.all(deletePromises));
+    }
 
-        const actualId = (checkResult as any).id;
-        const isExternalUrl = actualId && String(actualId).startsWith('http');
-        const r2Key = isExternalUrl ? null : reconstructR2Key((checkResult as any).id, (checkResult as any).ext, 'results');
+    // Delete R2 files for results owned by this profile
+    const results_rows = await DB.prepare('SELECT id, ext FROM results WHERE profile_id = ?').bind(profileId).all();
+    if (results_rows.results?.length) {
+      const deletePromises = results_rows.results.map((r: any) => {
+        if (r.id && r.ext) {
+          const key = `results/${r.id}.${r.ext}`;
+          return R2_BUCKET.delete(key).catch(() => {});
+        }
+        return Promise.resolve();
+      });
+      ctx.waitUntil(Promise.all(deletePromises));
+    }
 
-        const deleteResult = await DB.prepare(
-          'DELETE FROM results WHERE id = ?'
-        ).bind(actualId).run();
+    // Delete from DB (selfies, device_tokens cascade; others need manual delete)
+    await DB.batch([
+      DB.prepare('DELETE FROM audit_log WHERE profile_id = ?').bind(profileId),
+      DB.prepare('DELETE FROM subscription_changes WHERE profile_id = ?').bind(profileId),
+      DB.prepare('DELETE FROM preset_usage_events WHERE profile_id = ?').bind(profileId),
+      DB.prepare('DELETE FROM subscriptions WHERE profile_id = ?').bind(profileId),
+      DB.prepare('DELETE FROM payments WHERE profile_id = ?').bind(profileId),
+      DB.prepare('DELETE FROM results WHERE profile_id = ?').bind(profileId),
+      DB.prepare('DELETE FROM selfies WHERE profile_id = ?').bind(profileId),
+      DB.prepare('DELETE FROM device_tokens WHERE profile_id = ?').bind(profileId),
+      DB.prepare('DELETE FROM webhook_deliveries WHERE profile_id = ?').bind(profileId),
+      DB.prepare('DELETE FROM credit_ledger WHERE profile_id = ?').bind(profileId),
+      DB.prepare('DELETE FROM credit_holds WHERE profile_id = ?').bind(profileId),
+      DB.prepare('DELETE FROM promo_redemptions WHERE profile_id = ?').bind(profileId),
+      DB.prepare('DELETE FROM free_allowance_usage WHERE profile_id = ?').bind(profileId),
+      DB.prepare('DELETE FROM voided_purchases WHERE profile_id = ?').bind(profileId),
+      DB.prepare('DELETE FROM referrals WHERE inviter_profile_id = ? OR invitee_profile_id = ?').bind(profileId, profileId),
+      DB.prepare('DELETE FROM profiles WHERE id = ?').bind(profileId),
+    ]);
+
+    return jsonResponse({
+      data: { id: profileId },
+      status: 'success',
+      message: 'Profile and all associated data deleted successfully',
+      code: 200,
+      ...(debugEnabled ? { debug: { idParam, selfiesDeleted: selfies.results?.length || 0, resultsDeleted: results_rows.results?.length || 0 } } : {})
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/profiles/{id} (DELETE)', error, request, env, {
+      idParam: params.id
+    });
+    const debugEnabled = isDebugEnabled(env);
+    const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg, path } : undefined, request, env);
+  }
+};
 
-        if (!deleteResult.success || deleteResult.meta?.changes === 0) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Result not found or already deleted', 404, debugEnabled ? { resultId, path } : undefined, request, env);
-        }
+// ---- Result webhooks ----
+// The secret is derived from the profile id (webhooks.ts), so it is returned with the settings rather than stored
+const buildWebhookSettings = async (DB: D1Database, env: Env, profileId: string, callbackUrl: string | null) => {
+  const deliveries = await DB.prepare(
+    'SELECT * FROM webhook_deliveries WHERE profile_id = ? ORDER BY created_at DESC LIMIT ?'
+  ).bind(profileId, WEBHOOK_CONFIG.LIST_LIMIT).all<WebhookDelivery>();
+  return {
+    profile_id: profileId,
+    callback_url: callbackUrl,
+    secret: await getWebhookSecret(env, profileId),
+    deliveries: (deliveries.results || []).map(formatWebhookDelivery),
+  };
+};
 
-        let r2Deleted = false;
-        let r2Error = null;
-        let cdnPurgeResult = null;
-        if (r2Key) {
-          try {
-            await R2_BUCKET.delete(r2Key);
-            r2Deleted = true;
-            const publicUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-            try {
-              const purgeResult = await purgeCdnCache([publicUrl], env);
-              cdnPurgeResult = {
-                success: purgeResult.success,
-                purged: purgeResult.purged,
-                skipped: purgeResult.skipped,
-                error: purgeResult.error || null
-              };
-            } catch (purgeError) {
-              cdnPurgeResult = {
-                success: false,
-                error: purgeError instanceof Error ? purgeError.message : String(purgeError)
-              };
-              console.error('[Delete Result] CDN purge failed:', purgeError);
-            }
-          } catch (r2DeleteError) {
-            r2Error = r2DeleteError instanceof Error ? r2DeleteError.message : String(r2DeleteError);
-          }
-        }
+const handleGetProfileWebhook = async ({ request, env, DB, path, params }: RouteContext): Promise<Response> => {
+  try {
+    const profileId = decodePathParam(params.id);
+    const profile = await DB.prepare('SELECT id, callback_url FROM profiles WHERE id = ?').bind(profileId).first() as { id: string; callback_url: string | null } | null;
+    if (!profile) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Profile not found', 404, debugEnabled ? { profileId, path } : undefined, request, env);
+    }
 
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: {},
-          status: 'success',
-          message: 'Result deleted successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: {
-            resultId,
-            databaseDeleted: deleteResult.meta?.changes || 0,
-            r2Deleted,
-            r2Key,
-            r2Error: r2Error || null,
-            cdnPurge: cdnPurgeResult
-          } } : {})
-        }, 200, request, env);
-      } catch (error) {
-        logCriticalError('/results/{id} (DELETE)', error, request, env, {
-          resultId: extractResultIdFromPath(path)
-        });
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        const debugEnabled = isDebugEnabled(env);
-        return jsonResponse({
-          data: null,
-          status: 'error',
-          message: '',
-          code: 500,
-          ...(debugEnabled ? { debug: {
-            resultId: extractResultIdFromPath(path),
-            error: errorMessage,
-            path,
-            ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {})
-          } } : {})
-        }, 500, request, env);
-      }
+    return jsonResponse({
+      data: await buildWebhookSettings(DB, env, profile.id, profile.callback_url),
+      status: 'success',
+      message: 'Webhook settings retrieved successfully',
+      code: 200,
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/profiles/{id}/webhook (GET)', error, request, env, { profileId: params.id });
+    const debugEnabled = isDebugEnabled(env);
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg, path } : undefined, request, env);
+  }
+};
+
+const handleUpdateProfileWebhook = async ({ request, env, DB, path, params }: RouteContext): Promise<Response> => {
+  try {
+    const profileId = decodePathParam(params.id);
+    const body = await request.json() as { callback_url?: string | null };
+    const callbackUrl = body.callback_url || null;
+
+    const update = await DB.prepare(
+      'UPDATE profiles SET callback_url = ?, updated_at = ? WHERE id = ?'
+    ).bind(callbackUrl, Math.floor(Date.now() / 1000), profileId).run();
+    if (!update.meta?.changes) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Profile not found', 404, debugEnabled ? { profileId, path } : undefined, request, env);
     }
 
+    return jsonResponse({
+      data: await buildWebhookSettings(DB, env, profileId, callbackUrl),
+      status: 'success',
+      message: callbackUrl ? 'Webhook updated successfully' : 'Webhook removed successfully',
+      code: 200,
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/profiles/{id}/webhook (PUT)', error, request, env, { profileId: params.id });
+    const debugEnabled = isDebugEnabled(env);
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg, path } : undefined, request, env);
+  }
+};
 
+// Handle profile listing (for admin/debugging)
+const handleListProfiles = async ({ request, env, DB, requestUrl, path }: RouteContext): Promise<Response> => {
+  try {
+    // Without ?limit= or ?cursor= every profile is returned, as before paging existed
+    const listQuery = parseListQuery(requestUrl.searchParams, null);
+    if ('error' in listQuery) return errorResponse(listQuery.error, 400, undefined, request, env);
+
+    const { where, bindings } = buildListWhere(listQuery, [], []);
+    const results = await DB.prepare(
+      `SELECT id, device_id, user_id, name, email, phone, avatar_url, preferences, created_at, updated_at FROM profiles ${where} ${listOrderAndLimit(listQuery)}`
+    ).bind(...bindings).all();
+    const page = paginateRows((results.results || []) as any[], listQuery);
+
+    const profiles: Profile[] = page.rows.map((row: any) => ({
+      id: row.id,
+      device_id: row.device_id || undefined,
+      user_id: row.user_id || undefined,
+      name: row.name || undefined,
+      email: row.email || undefined,
+      phone: row.phone || undefined,
+      avatar_url: ensureFullUrl(row.avatar_url, env, requestUrl.origin),
+      preferences: row.preferences || undefined,
+      created_at: new Date(row.created_at * 1000).toISOString(),
+      updated_at: new Date(row.updated_at * 1000).toISOString()
+    }));
 
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: { profiles },
+      pagination: page.pagination,
+      status: 'success',
+      message: 'Profiles retrieved successfully',
+      code: 200,
+      ...(debugEnabled ? { debug: { count: profiles.length } } : {})
+    }, 200, request, env);
+  } catch (error) {
+    const debugEnabled = isDebugEnabled(env);
+    const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 500) } : {}) } : undefined, request, env);
+  }
+};
 
-    // Handle face swap endpoint
-    if (path === '/faceswap' && request.method === 'POST') {
-      const debugEnabled = isDebugEnabled(env);
-      const requestCache = new Map<string, Promise<any>>();
-      const getCachedAsync = async <T>(key: string, compute: () => Promise<T>): Promise<T> => {
-        if (!requestCache.has(key)) {
-          requestCache.set(key, compute());
-        }
-        return requestCache.get(key) as Promise<T>;
-      };
+// FCM Silent Push Notifications
+// POST /api/device/register - Register/update FCM token
+const handleDeviceRegister = async ({ request, env, DB }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as any;
 
-      let body: FaceSwapRequest | undefined;
-      let creditResult: any = null;
-      try {
-        try {
-          const rawBody = await request.text();
-          console.log('[Faceswap] Raw request body:', rawBody.substring(0, 500));
-          body = JSON.parse(rawBody);
-          console.log('[Faceswap] Parsed body:', JSON.stringify({ 
-            preset_image_id: body?.preset_image_id, 
-            profile_id: body?.profile_id, 
-            selfie_ids: body?.selfie_ids,
-            has_preset_id: !!body?.preset_image_id,
-            has_profile_id: !!body?.profile_id,
-            has_selfie_ids: Array.isArray(body?.selfie_ids)
-          }));
-        } catch (jsonError) {
-          const errorMsg = jsonError instanceof Error ? jsonError.message : String(jsonError);
-          console.error('[Faceswap] JSON parse error:', errorMsg);
-          return errorResponse('', 400, { error: `Invalid JSON in request body: ${errorMsg}`, path }, request, env);
-        }
+    // Validate required fields
+    if (!body.profile_id || !body.platform || !body.token) {
+      return errorResponse('Missing required fields: profile_id, platform, token', 400, 
+        { error: 'Missing fields' }, request, env);
+    }
 
-        if (!body) {
-          return errorResponse('', 400, { error: 'Request body is required', path }, request, env);
-        }
+    if (!['android', 'ios', 'web'].includes(body.platform)) {
+      return errorResponse('Invalid platform. Must be android, ios, or web', 400,
+        { error: 'Invalid platform' }, request, env);
+    }
 
-        // Normalize preset_image_id to remove file extensions (mobile apps may send IDs with extensions)
-        if (body.preset_image_id) {
-          const normalized = normalizePresetId(body.preset_image_id);
-          if (normalized) {
-            body.preset_image_id = normalized;
-          }
-        }
+    const profile = await DB.prepare(
+      'SELECT id FROM profiles WHERE id = ?'
+    ).bind(body.profile_id).first();
+    const allowTestProfile = /^test-/.test(String(body.profile_id));
+    if (!profile && !allowTestProfile) {
+      return errorResponse('Profile not found', 404,
+        { error: 'Profile not found' }, request, env);
+    }
+    // Upsert token
+    await DB.prepare(`
+      INSERT INTO device_tokens (token, profile_id, platform, app_version, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(token) DO UPDATE SET
+        profile_id = excluded.profile_id,
+        platform = excluded.platform,
+        app_version = excluded.app_version,
+        updated_at = excluded.updated_at
+    `).bind(
+      body.token,
+      body.profile_id,
+      body.platform,
+      body.app_version || null,
+      Date.now()
+    ).run();
+
+    return successResponse({ registered: true }, 200, request, env);
+  } catch (error) {
+    return errorResponse('Failed to register device', 500,
+      { error: error instanceof Error ? error.message : String(error) }, request, env);
+  }
+};
 
-        const envError = validateEnv(env, 'vertex');
-        if (envError) {
-          console.error('[Faceswap] Env validation error:', envError);
-          return errorResponse('', 500, { error: envError, path }, request, env);
-        }
+// POST /api/push/silent - Send silent push (admin endpoint)
+const handleSilentPush = async ({ request, env, DB }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as any;
 
-        const requestError = validateRequest(body);
-        if (requestError) {
-          console.error('[Faceswap] Request validation error:', requestError, { 
-            preset_image_id: body?.preset_image_id, 
-            preset_image_id_type: typeof body?.preset_image_id,
-            profile_id: body?.profile_id,
-            profile_id_type: typeof body?.profile_id,
-            selfie_ids: body?.selfie_ids,
-            selfie_ids_type: Array.isArray(body?.selfie_ids) ? 'array' : typeof body?.selfie_ids,
-            body_keys: body ? Object.keys(body) : 'null',
-            body_stringified: JSON.stringify(body).substring(0, 500)
-          });
-          return errorResponse('', 400, { error: requestError, path, body: { preset_image_id: body?.preset_image_id, profile_id: body?.profile_id, selfie_ids: body?.selfie_ids } }, request, env);
-        }
+    if (!body.profile_id || !body.data) {
+      return errorResponse('Missing required fields: profile_id, data', 400,
+        { error: 'Missing fields' }, request, env);
+    }
 
-        // Extract validated values (validateRequest already confirmed they exist and are correct types)
-        const hasSelfieIds = Array.isArray(body.selfie_ids) && body.selfie_ids.length > 0;
-        const hasSelfieUrls = Array.isArray(body.selfie_image_urls) && body.selfie_image_urls.length > 0;
-        const hasPresetId = body.preset_image_id && typeof body.preset_image_id === 'string' && body.preset_image_id.trim() !== '';
-        const hasPresetUrl = body.preset_image_url && typeof body.preset_image_url === 'string' && body.preset_image_url.trim() !== '';
-
-        console.log('[Faceswap] All validations passed, proceeding to database queries', { hasPresetId, hasPresetUrl, hasSelfieIds, hasSelfieUrls });
-        
-        if (hasSelfieUrls && body.selfie_image_urls) {
-          for (const url of body.selfie_image_urls) {
-            if (!validateImageUrl(url, env)) {
-              return errorResponse('', 400, { error: `Invalid selfie image URL: ${url}`, path, url }, request, env);
-            }
-          }
-        }
-        
-        if (hasPresetUrl && body.preset_image_url) {
-          if (!validateImageUrl(body.preset_image_url, env)) {
-            return errorResponse('', 400, { error: `Invalid preset image URL: ${body.preset_image_url}`, path, url: body.preset_image_url }, request, env);
-          }
-        }
+    // Get all tokens for profile
+    const { results: tokens } = await DB.prepare(
+      'SELECT token, platform FROM device_tokens WHERE profile_id = ?'
+    ).bind(body.profile_id).all();
 
-        // Optimize database queries with JOINs to validate ownership in single queries
-        const queries: Promise<any>[] = [];
+    if (!tokens || tokens.length === 0) {
+      return successResponse({ sent: 0, message: 'No devices registered' }, 200, request, env);
+    }
 
-        // Profile validation (needed for all cases)
-        queries.push(
-          DB.prepare('SELECT id FROM profiles WHERE id = ?').bind(body.profile_id).first()
-        );
+    // Filter out excluded token (current device)
+    const targetTokens = body.exclude_token
+      ? tokens.filter((t: any) => t.token !== body.exclude_token)
+      : tokens;
+
+    // Send to all devices
+    const results: any[] = [];
+    const tokensToRemove: string[] = [];
+
+    for (const tokenRow of targetTokens) {
+      const result = await sendFcmSilentPush(
+        env, 
+        (tokenRow as any).token, 
+        (tokenRow as any).platform as 'android' | 'ios' | 'web', 
+        body.data
+      );
+      results.push(result);
+
+      if (result.should_remove) {
+        tokensToRemove.push((tokenRow as any).token);
+      }
+    }
 
-        if (hasPresetId) {
-          queries.push(
-            DB.prepare('SELECT id, ext FROM presets WHERE id = ?').bind(body.preset_image_id).first()
-          );
-        }
+    // Cleanup invalid tokens
+    if (tokensToRemove.length > 0) {
+      await DB.prepare(
+        `DELETE FROM device_tokens WHERE token IN (${tokensToRemove.map(() => '?').join(',')})`
+      ).bind(...tokensToRemove).run();
+    }
 
-        if (hasSelfieIds && body.selfie_ids) {
-          // Use JOIN to validate selfies belong to profile and include action/dimensions for validation
-          for (const selfieId of body.selfie_ids) {
-            queries.push(
-              DB.prepare(`
-                SELECT s.id, s.ext, s.action, s.dimensions, p.id as profile_exists
-                FROM selfies s
-                INNER JOIN profiles p ON s.profile_id = p.id
-                WHERE s.id = ? AND p.id = ?
-              `).bind(selfieId, body.profile_id).first()
-            );
-          }
-        }
+    return successResponse({
+      sent: results.filter(r => r.success).length,
+      failed: results.filter(r => !r.success).length,
+      cleaned: tokensToRemove.length,
+      results,
+    }, 200, request, env);
+  } catch (error) {
+    return errorResponse('Failed to send push', 500,
+      { error: error instanceof Error ? error.message : String(error) }, request, env);
+  }
+};
 
-        // Execute all queries in parallel
-        let results: any[];
-        try {
-          results = await Promise.all(queries);
-        } catch (dbError) {
-          // Database errors could be client errors (invalid ID format) or server errors
-          const errorMsg = dbError instanceof Error ? dbError.message : String(dbError);
-          const errorLower = errorMsg.toLowerCase();
-          
-          // Check if it's a client error (invalid input format, type mismatch, etc.)
-          const isClientError = errorLower.includes('datatype mismatch') ||
-                               errorLower.includes('sqlite_mismatch') ||
-                               errorLower.includes('invalid') ||
-                               errorLower.includes('syntax error') ||
-                               errorLower.includes('no such column');
-          
-          logCriticalError('/faceswap', dbError, request, env, {
-            body: {
-              preset_image_id: body?.preset_image_id,
-              profile_id: body?.profile_id,
-              selfie_ids: body?.selfie_ids
-            },
-            dbErrorType: isClientError ? 'client_error' : 'server_error',
-            errorMessage: errorMsg
-          });
-          
-          const status = isClientError ? 400 : 500;
-          return errorResponse('', status, { 
-            error: `Database query failed: ${errorMsg}`, 
-            path,
-            dbErrorType: isClientError ? 'client_error' : 'server_error',
-            stack: dbError instanceof Error ? dbError.stack?.substring(0, 1000) : undefined
-          }, request, env);
-        }
+// DELETE /api/device/unregister - Remove FCM token
+const handleDeviceUnregister = async ({ request, env, DB }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as { token: string };
 
-        const profileCheck = results[0];
-        if (!profileCheck) {
-          return errorResponse('Profile not found', 404, undefined, request, env);
-        }
+    if (!body.token) {
+      return errorResponse('Missing required field: token', 400, {}, request, env);
+    }
 
-        let targetUrl: string = '';
-        let presetName: string = '';
-        let presetImageId: string | null = null;
-        let presetResult: any = null;
+    await DB.prepare('DELETE FROM device_tokens WHERE token = ?')
+      .bind(body.token).run();
 
-        if (hasPresetId) {
-          presetResult = results[1];
-          if (!presetResult) {
-            return errorResponse('Preset image not found', 404, undefined, request, env);
-          }
+    return successResponse({ unregistered: true }, 200, request, env);
+  } catch (error) {
+    return errorResponse('Failed to unregister device', 500,
+      { error: error instanceof Error ? error.message : String(error) }, request, env);
+  }
+};
 
-          // Check if a specific format is requested for thumbnails
-          const requestedFormat = body.format ? body.format.trim().toLowerCase() : null;
-          let useThumbnailUrl = false;
+// Handle preset listing
+// Get single preset by ID
+const handleGetPreset = async ({ request, env, DB, R2_BUCKET, requestUrl, path, params }: RouteContext): Promise<Response> => {
+  try {
+    const presetId = params.id;
+    if (!presetId) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Missing required path parameter: id', 400, debugEnabled ? { path } : undefined, request, env);
+    }
 
-          if (requestedFormat && (requestedFormat === 'lottie' || requestedFormat === 'avif')) {
-            // For Lottie or AVIF formats, try to use the 4x thumbnail if available
-            const thumbnailKey = requestedFormat === 'lottie' ? 'thumbnail_url_4x_lottie' : 'thumbnail_url_4x_lottie_avif';
+    const result = await DB.prepare(
+      'SELECT id, ext, thumbnail_r2, category_id, sub_category_id, gender, position, sort_order, is_active, is_premium, credit_surcharge, titles, created_at FROM presets WHERE id = ?'
+    ).bind(presetId).first();
 
-            // Query for thumbnail data
-            const thumbnailQuery = await DB.prepare(`
-              SELECT thumbnail_data FROM presets WHERE id = ?
-            `).bind(body.preset_image_id).first();
+    if (!result) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Preset not found', 404, debugEnabled ? { presetId, path } : undefined, request, env);
+    }
 
-            if (thumbnailQuery && thumbnailQuery.thumbnail_data && typeof thumbnailQuery.thumbnail_data === 'string') {
-              try {
-                const thumbnailData = JSON.parse(thumbnailQuery.thumbnail_data);
-                const thumbnailR2Key = thumbnailData[thumbnailKey];
-                if (thumbnailR2Key && typeof thumbnailR2Key === 'string') {
-                  targetUrl = getR2PublicUrl(env, thumbnailR2Key, requestUrl.origin);
-                  useThumbnailUrl = true;
-                }
-              } catch (parseError) {
-                console.warn('[Faceswap] Failed to parse thumbnail data for format selection:', parseError);
-              }
-            }
-          }
+    const storedKey = reconstructR2Key((result as any).id, (result as any).ext, 'preset');
+    const presetUrl = getR2PublicUrl(env, storedKey, requestUrl.origin);
 
-          // Fallback to original preset image if thumbnail not found or no format specified
-          if (!useThumbnailUrl) {
-            const storedKey = reconstructR2Key((presetResult as any).id, (presetResult as any).ext, 'preset');
-            targetUrl = getR2PublicUrl(env, storedKey, requestUrl.origin);
-          }
+    // Extract thumbnail information from thumbnail_r2 JSON
+    let thumbnailUrl: string | null = null;
+    let thumbnailFormat: string | null = null;
+    let thumbnailResolution: string | null = null;
+    let thumbnailData: any = {};
 
-          presetName = 'Unnamed Preset';
-          presetImageId = body.preset_image_id || null;
-        } else if (hasPresetUrl) {
-          targetUrl = body.preset_image_url!;
-          presetName = 'Result Preset';
-          presetImageId = null;
-        } else {
-          // This should never happen due to earlier validation, but TypeScript needs this
-          const errorMsg = 'Invalid request: missing both preset_image_id and preset_image_url';
-          return errorResponse('', 400, debugEnabled ? { error: errorMsg, path, hasPresetId, hasPresetUrl } : { error: errorMsg }, request, env);
+    if ((result as any).thumbnail_r2) {
+      try {
+        thumbnailData = JSON.parse((result as any).thumbnail_r2);
+        // Use webp_1x as primary thumbnail, fallback to lottie_1x
+        const primaryThumbnailKey = thumbnailData['webp_1x'] || thumbnailData['lottie_1x'];
+        if (primaryThumbnailKey) {
+          thumbnailUrl = getR2PublicUrl(env, primaryThumbnailKey, requestUrl.origin);
+          // Extract format and resolution from the key
+          const keyParts = primaryThumbnailKey.split('/');
+          if (keyParts.length > 0) {
+            const prefix = keyParts[0];
+            const formatMatch = prefix.match(/^(webp|lottie)/i);
+            const resolutionMatch = prefix.match(/([\d.]+x)/i);
+            thumbnailFormat = formatMatch ? formatMatch[1].toLowerCase() : null;
+            thumbnailResolution = resolutionMatch ? resolutionMatch[1] : null;
+          }
+        }
+      } catch (e) {
+        // Fallback: treat as single string for backward compatibility
+        thumbnailUrl = getR2PublicUrl(env, (result as any).thumbnail_r2, requestUrl.origin);
+        const r2KeyParts = (result as any).thumbnail_r2.split('/');
+        if (r2KeyParts.length > 0) {
+          const prefix = r2KeyParts[0];
+          const formatMatch = prefix.match(/^(webp|lottie)/i);
+          const resolutionMatch = prefix.match(/([\d.]+x)/i);
+          thumbnailFormat = formatMatch ? formatMatch[1].toLowerCase() : null;
+          thumbnailResolution = resolutionMatch ? resolutionMatch[1] : null;
         }
+      }
+    }
 
-        // Extract selfie results and validate action match if specified
-        const selfieUrls: string[] = [];
-        const selfieIds: string[] = [];
-        const selfieActions: string[] = [];
-        const selfieDimensions: (string | null)[] = [];
-        const selfieStartIndex = hasPresetId ? 2 : 1;
-        
-        // Get requested action for validation (if provided)
-        const requestedAction = body.action ? body.action.trim().toLowerCase() : null;
-
-        if (hasSelfieIds && body.selfie_ids) {
-          for (let i = 0; i < body.selfie_ids.length; i++) {
-            const selfieResult = results[selfieStartIndex + i];
-            if (!selfieResult) {
-              return errorResponse(`Selfie with ID ${body.selfie_ids[i]} not found or does not belong to profile`, 404, debugEnabled ? { selfieId: body.selfie_ids[i], profileId: body.profile_id, path } : undefined, request, env);
-            }
-            
-            // Validate action match if action is specified in request
-            const selfieActionRaw = (selfieResult as any).action ? String((selfieResult as any).action) : null;
-            const selfieAction = selfieActionRaw ? selfieActionRaw.toLowerCase() : null;
-            if (requestedAction) {
-              // Support both '4k' and '4K' for backward compatibility
-              if (requestedAction === '4k') {
-                if (selfieAction !== '4k') {
-                  const errorMsg = `Selfie with ID ${body.selfie_ids[i]} has action "${selfieActionRaw || 'null'}" but request requires action "4k"`;
-                  return errorResponse(
-                    errorMsg,
-                    400,
-                    { error: errorMsg, selfieId: body.selfie_ids[i], selfieAction: selfieActionRaw, requestedAction, path },
-                    request,
-                    env
-                  );
-                }
-              } else if (selfieAction !== requestedAction) {
-                const errorMsg = `Selfie with ID ${body.selfie_ids[i]} has action "${selfieActionRaw || 'null'}" but request requires action "${requestedAction}"`;
-                return errorResponse(
-                  errorMsg,
-                  400,
-                  { error: errorMsg, selfieId: body.selfie_ids[i], selfieAction: selfieActionRaw, requestedAction, path },
-                  request,
-                  env
-                );
-              }
-            }
-            
-            const storedKey = reconstructR2Key((selfieResult as any).id, (selfieResult as any).ext, 'selfie');
-            const fullUrl = getR2PublicUrl(env, storedKey, requestUrl.origin);
-            selfieUrls.push(fullUrl);
-            selfieIds.push(body.selfie_ids[i]);
-            selfieActions.push(selfieActionRaw || 'faceswap'); // Use raw value from DB, default to faceswap if null
-            // Extract dimensions from database (format: "widthxheight", e.g., "128x340")
-            const selfieDimensionsRaw = (selfieResult as any).dimensions ? String((selfieResult as any).dimensions) : null;
-            selfieDimensions.push(selfieDimensionsRaw);
-          }
-        } else if (hasSelfieUrls) {
-          selfieUrls.push(...body.selfie_image_urls!);
-          // For URL-based selfies, action and dimensions are unknown
-          for (let i = 0; i < body.selfie_image_urls!.length; i++) {
-            selfieActions.push(requestedAction || 'faceswap');
-            selfieDimensions.push(null); // No dimensions available for URL-based selfies
+    // Read prompt_json from R2 metadata
+    let hasPrompt = false;
+    let promptJson: any = null;
+    try {
+      const r2Object = await R2_BUCKET.head(storedKey);
+      if (r2Object?.customMetadata?.prompt_json) {
+        const promptJsonString = r2Object.customMetadata.prompt_json;
+        if (promptJsonString && promptJsonString.trim() !== '') {
+          try {
+            promptJson = JSON.parse(promptJsonString);
+            hasPrompt = true;
+          } catch {
+            // Invalid JSON, ignore
           }
         }
+      }
+    } catch {
+      // R2 check failed, assume no prompt
+    }
 
-        // Support multiple selfies for wedding faceswap (e.g., bride and groom)
-        if (selfieUrls.length === 0) {
-          const errorMsg = 'No valid selfie images found. Both selfie_ids and selfie_image_urls are empty or invalid.';
-          return errorResponse('', 400, debugEnabled ? { error: errorMsg, hasSelfieIds, hasSelfieUrls, selfieIdsCount: body.selfie_ids?.length || 0, selfieUrlsCount: body.selfie_image_urls?.length || 0, path } : { error: errorMsg }, request, env);
-        }
-        const sourceUrl = selfieUrls.length === 1 ? selfieUrls[0] : selfieUrls;
-
-        const requestDebug = compact({
-          targetUrl: targetUrl,
-          sourceUrls: selfieUrls,
-          presetImageId: presetImageId,
-          presetImageUrl: hasPresetUrl ? body.preset_image_url : undefined,
-          presetName: presetName,
-          selfieIds: selfieIds,
-          selfieDimensions: selfieDimensions,
-          requestedAspectRatio: body.aspect_ratio,
-          additionalPrompt: body.additional_prompt,
-        });
+    // Build response with all thumbnail URLs from JSON data
+    const responseData: any = {
+      id: (result as any).id,
+      preset_url: presetUrl,
+      image_url: presetUrl, // Alias for backward compatibility
+      hasPrompt,
+      prompt_json: promptJson,
+      thumbnail_url: thumbnailUrl, // Primary thumbnail (1x)
+      thumbnail_format: thumbnailFormat,
+      thumbnail_resolution: thumbnailResolution,
+      thumbnail_r2: (result as any).thumbnail_r2, // Full JSON data
+      ...formatPresetCatalog(result as unknown as PresetCatalogEntry, (await getPresetTags(DB, [presetId])).get(presetId) || [], resolveCatalogLocale(request, requestUrl)),
+      created_at: (result as any).created_at ? new Date((result as any).created_at * 1000).toISOString() : new Date().toISOString()
+    };
 
+    // Add individual thumbnail URLs for each resolution/format
+    Object.keys(thumbnailData).forEach(key => {
+      const url = getR2PublicUrl(env, thumbnailData[key], requestUrl.origin);
+      responseData[key] = url;
+    });
 
-        let promptResult: any = null;
-        let storedPromptPayload: any = null;
-        const promptCacheKV = getPromptCacheKV(env);
-        
-        if (presetImageId) {
-          promptResult = presetResult;
-          
-          if (promptResult && !storedPromptPayload) {
-            const cacheKey = `prompt:${presetImageId}`;
-            
-            if (promptCacheKV) {
-              try {
-                const cached = await promptCacheKV.get(cacheKey, 'json');
-                if (cached) storedPromptPayload = cached;
-              } catch (error) {
-                // KV cache read failed, fallback to R2
-              }
-            }
-            
-            if (!storedPromptPayload) {
-              const r2Key = reconstructR2Key((promptResult as any).id, (promptResult as any).ext, 'preset');
-              try {
-                const r2Object = await getCachedAsync(`r2head:${r2Key}`, async () =>
-                  await R2_BUCKET.head(r2Key)
-                );
-                const promptJson = r2Object?.customMetadata?.prompt_json;
-                if (promptJson?.trim()) {
-                  storedPromptPayload = JSON.parse(promptJson);
-                  if (promptCacheKV) {
-                    promptCacheKV.put(cacheKey, promptJson, { expirationTtl: CACHE_CONFIG.PROMPT_CACHE_TTL }).catch(() => {});
-                  }
-                }
-              } catch (error) {
-                // R2 metadata read failed, continue without cache
-              }
-            }
-          }
-        }
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: responseData,
+      status: 'success',
+      message: 'Preset retrieved successfully',
+      code: 200,
+      ...(debugEnabled ? { debug: { presetId, hasPrompt, thumbnailCount: Object.keys(thumbnailData).length } } : {})
+    }, 200, request, env);
+  } catch (error) {
+    const debugEnabled = isDebugEnabled(env);
+    const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 500) } : {}) } : undefined, request, env);
+  }
+};
 
-        if (!storedPromptPayload) {
-          const presetImageUrl = promptResult ? getR2PublicUrl(env, reconstructR2Key((promptResult as any).id, (promptResult as any).ext, 'preset'), requestUrl.origin) : targetUrl;
-          
-          const generateResult = await generateVertexPrompt(presetImageUrl, env);
-          if (generateResult.success && generateResult.prompt) {
-            storedPromptPayload = generateResult.prompt;
-            if (presetImageId && promptResult) {
-              const promptJsonString = JSON.stringify(storedPromptPayload);
-              const cacheKey = `prompt:${presetImageId}`;
-              
-              if (promptCacheKV) {
-                promptCacheKV.put(cacheKey, promptJsonString, { expirationTtl: CACHE_CONFIG.PROMPT_CACHE_TTL }).catch(() => {});
-              }
-              
-              const r2Key = reconstructR2Key((promptResult as any).id, (promptResult as any).ext, 'preset');
-              try {
-                const existingObject = await getCachedAsync(`r2head:${r2Key}`, async () =>
-                  await R2_BUCKET.head(r2Key)
-                );
-                if (existingObject) {
-                  const objectBody = await R2_BUCKET.get(r2Key);
-                  if (objectBody) {
-                    await R2_BUCKET.put(r2Key, objectBody.body, {
-                      httpMetadata: existingObject.httpMetadata,
-                      customMetadata: { ...existingObject.customMetadata, prompt_json: promptJsonString }
-                    });
-                  }
-                }
-              } catch (error) {
-                console.error(`[R2 Metadata] Write failed for preset ${presetImageId}:`, error);
-              }
-            }
-          } else {
-            const errorMsg = generateResult.error || 'Failed to generate Vertex AI prompt from preset image';
-            return errorResponse('', 400, { 
-              error: errorMsg, 
-              path,
-              presetImageId: presetImageId || null,
-              presetImageUrl: presetImageUrl || null
-            }, request, env);
+// Premium presets need an ACTIVE subscription (holdCredits -> reason 4100)
+const hasActiveSubscription = async (DB: D1Database, profileId: string | null): Promise<boolean> =>
+  !!profileId && !!(await DB.prepare('SELECT 1 FROM subscriptions WHERE profile_id = ? AND status = \'ACTIVE\' LIMIT 1').bind(profileId).first());
+
+// A preset row as GET /presets lists it (thumbnail as image_url, catalog fields, lock state of the caller)
+const formatPresetListItem = async (
+  row: any, env: Env, R2_BUCKET: R2Bucket, requestUrl: URL, tags: string[], locale: string, activeSubscriber: boolean
+) => {
+  const storedKey = reconstructR2Key(row.id, row.ext, 'preset');
+  const fullUrl = getR2PublicUrl(env, storedKey, requestUrl.origin);
+
+  // Parse thumbnail_r2 JSON to extract 4x thumbnail
+  let thumbnailUrl: string | null = null;
+  let thumbnailFormat: string | null = null;
+  let thumbnailResolution: string | null = null;
+  let thumbnailR2Key: string | null = null;
+
+  if (row.thumbnail_r2) {
+    try {
+      // Parse thumbnail_r2 as JSON (e.g., {"webp_4x": "preset/{id}.{ext}"})
+      const thumbnailData = typeof row.thumbnail_r2 === 'string' 
+        ? JSON.parse(row.thumbnail_r2) 
+        : row.thumbnail_r2;
+
+      // Extract webp_4x thumbnail key
+      thumbnailR2Key = thumbnailData['webp_4x'] || thumbnailData['lottie_4x'] || thumbnailData['lottie_avif_4x'] || null;
+
+      if (thumbnailR2Key) {
+        thumbnailUrl = getR2PublicUrl(env, thumbnailR2Key, requestUrl.origin);
+        // Extract format and resolution from R2 key (e.g., "preset_thumb/webp_4x/fs_aging_f1_3.webp")
+        const r2KeyParts = thumbnailR2Key.split('/');
+        if (r2KeyParts.length > 0) {
+          // Check if path contains format/resolution info
+          const keyStr = thumbnailR2Key.toLowerCase();
+          if (keyStr.includes('webp_4x')) {
+            thumbnailFormat = 'webp';
+            thumbnailResolution = '4x';
+          } else if (keyStr.includes('lottie_4x')) {
+            thumbnailFormat = 'lottie';
+            thumbnailResolution = '4x';
+          } else if (keyStr.includes('lottie_avif_4x')) {
+            thumbnailFormat = 'lottie_avif';
+            thumbnailResolution = '4x';
           }
         }
-        // Resolve aspect ratio (faceswap doesn't support "original")
-        const validAspectRatio = await resolveAspectRatio(body.aspect_ratio, null, env, { allowOriginal: false });
-        const modelParam = body.model;
-        const effectiveProvider = getEffectiveProvider(body, env, 'FACESWAP');
-
-        // Determine if user explicitly specified aspect_ratio
-        // If aspect_ratio is explicitly set, use it (don't pass selfie dimensions as size)
-        // If not specified or "original", scale to max 1536px for best quality
-        const userExplicitlySetAspectRatio = body.aspect_ratio && body.aspect_ratio.trim() !== '' && body.aspect_ratio.toLowerCase() !== 'original';
-        let sizeForProvider: string | undefined;
-        if (!userExplicitlySetAspectRatio && selfieDimensions.length > 0) {
-          const firstDims = selfieDimensions[0];
-          if (firstDims) {
-            const match = firstDims.match(/^(\d+)x(\d+)$/);
-            if (match) {
-              const { calculateOptimalSize } = await import('./utils');
-              const optimal = calculateOptimalSize(parseInt(match[1]), parseInt(match[2]), 1536, 256);
-              sizeForProvider = optimal.sizeString;
-            }
-          }
+      }
+    } catch (e) {
+      // If parsing fails, thumbnail_r2 might be a direct string (legacy format)
+      // Try to use it directly
+      try {
+        if (typeof row.thumbnail_r2 === 'string' && row.thumbnail_r2.trim()) {
+          const legacyKey = row.thumbnail_r2.trim();
+          thumbnailR2Key = legacyKey;
+          thumbnailUrl = getR2PublicUrl(env, legacyKey, requestUrl.origin);
         }
+      } catch (err) {
+        // Ignore errors
+      }
+    }
+  }
 
-        // Credit deduction (after validation, before processing)
-        creditResult = await deductCredits(DB, body.profile_id, 'faceswap', env, request);
-        if (!creditResult.success) {
-          return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
-        }
+  // Check if prompt_json exists in R2 metadata (for hasPrompt)
+  let hasPrompt = false;
+  try {
+    const r2Object = await R2_BUCKET.head(storedKey);
+    hasPrompt = !!(r2Object?.customMetadata?.prompt_json);
+  } catch {
+    // If R2 check fails, assume no prompt
+  }
 
-        let faceSwapResult;
-        let vertexPromptPayload: any;
+  // Use thumbnail URL as image_url if available, otherwise use original preset URL
+  const displayUrl = thumbnailUrl || fullUrl;
 
-        if (effectiveProvider === 'wavespeed_gemini_2_5_flash_image') {
-          if (!storedPromptPayload) {
-            return errorResponse('Prompt JSON not found in preset image metadata', 400, debugEnabled ? { error: 'Preset must have prompt_json metadata for Gemini image edit (faceswap)', path } : undefined, request, env);
-          }
-          const augmentedPromptPayload = augmentVertexPrompt(storedPromptPayload, body.additional_prompt);
-          vertexPromptPayload = augmentedPromptPayload;
-          const selfieCount = selfieUrls.length;
-          const isCoupleMode = selfieCount >= 2;
-          const geminiImages = isCoupleMode ? [selfieUrls[0], selfieUrls[1], targetUrl] : [selfieUrls[0], targetUrl];
-          faceSwapResult = await callNanoBanana(
-            augmentedPromptPayload,
-            targetUrl,
-            geminiImages,
-            env,
-            validAspectRatio,
-            modelParam,
-            { provider: 'wavespeed_gemini_2_5_flash_image', size: sizeForProvider }
-          );
-        } else if (effectiveProvider === 'wavespeed') {
-          const selfieCount = selfieUrls.length;
-          const isCoupleMode = selfieCount >= 2;
-          let wavespeedFaceswapPrompt: string;
-          let wavespeedImages: string[];
-          if (isCoupleMode) {
-            wavespeedFaceswapPrompt = WAVESPEED_PROMPTS.FACESWAP_COUPLE;
-            wavespeedImages = [selfieUrls[0], selfieUrls[1], targetUrl];
-          } else {
-            wavespeedFaceswapPrompt = WAVESPEED_PROMPTS.FACESWAP_SINGLE;
-            wavespeedImages = [selfieUrls[0], targetUrl];
-          }
-          const finalPrompt = body.additional_prompt
-            ? `${wavespeedFaceswapPrompt}\n\nAdditional instructions: ${body.additional_prompt}`
-            : wavespeedFaceswapPrompt;
-          vertexPromptPayload = finalPrompt;
-          faceSwapResult = await callNanoBanana(
-            finalPrompt,
-            targetUrl,
-            wavespeedImages,
-            env,
-            validAspectRatio,
-            modelParam,
-            { provider: 'wavespeed', size: sizeForProvider }
-          );
-        } else {
-          const augmentedPromptPayload = augmentVertexPrompt(storedPromptPayload, body.additional_prompt);
-          vertexPromptPayload = augmentedPromptPayload;
-          faceSwapResult = await callNanoBanana(
-            augmentedPromptPayload,
-            targetUrl,
-            sourceUrl,
-            env,
-            validAspectRatio,
-            modelParam,
-            { provider: body.provider, size: sizeForProvider }
-          );
-        }
+  return {
+    id: row.id || '',
+    preset_url: fullUrl, // Always include original preset URL
+    image_url: displayUrl, // Use thumbnail if available, otherwise original
+    hasPrompt,
+    prompt_json: null, // Not included in list view for performance (read from R2 metadata in detail view)
+    thumbnail_url: thumbnailUrl,
+    thumbnail_format: thumbnailFormat,
+    thumbnail_resolution: thumbnailResolution,
+    ...formatPresetCatalog(row, tags, locale),
+    locked: row.is_premium === 1 && !activeSubscriber,
+    created_at: row.created_at ? new Date(row.created_at * 1000).toISOString() : new Date().toISOString()
+  };
+};
 
-          if (!faceSwapResult.Success || !faceSwapResult.ResultImageUrl) {
-            if (body?.profile_id && creditResult?.cost > 0) {
-              await refundCredits(DB, body.profile_id, 'faceswap', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
-            }
-            console.error('[Vertex] Nano Banana provider failed:', faceSwapResult.Message || 'Unknown error');
-
-            const failureCode = faceSwapResult.StatusCode || 500;
-            const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-            const flatDebug = debugEnabled ? buildFlatDebug(faceSwapResult, vertexPromptPayload) : undefined;
-            const debugPayload = debugEnabled ? compact({
-              ...flatDebug,
-            }) : undefined;
-
-            return jsonResponse({
-              data: null,
-              status: 'error',
-              message: '',
-              code: failureCode,
-              ...(debugPayload ? { debug: debugPayload } : {}),
-            }, httpStatus);
-          }
+const handleListPresets = async ({ request, env, DB, R2_BUCKET, requestUrl, path }: RouteContext): Promise<Response> => {
+  try {
+    const url = new URL(request.url);
+
+    const excludeThumbnails = url.searchParams.get('exclude_thumbnails') === 'true';
+    const listQuery = parseListQuery(url.searchParams);
+    if ('error' in listQuery) return errorResponse(listQuery.error, 400, undefined, request, env);
+    const sort = url.searchParams.get('sort') || 'newest';
+    if (sort !== 'newest' && sort !== 'order') return errorResponse('sort must be newest or order', 400, undefined, request, env);
+    const order = sort === 'order' ? { column: 'sort_order', direction: 'ASC' as const } : undefined;
+
+    // Catalog filters: only active presets outside inactive categories
+    const filters = [...VISIBLE_PRESET_CONDITIONS];
+    const filterBindings: any[] = [];
+    // By default, include all presets. Use exclude_thumbnails=true to filter out presets with thumbnails
+    if (excludeThumbnails) filters.push('thumbnail_r2 IS NULL');
+    const category = url.searchParams.get('category')?.trim().toLowerCase();
+    if (category) {
+      filters.push('category_id = ?');
+      filterBindings.push(category);
+    }
+    const subCategory = url.searchParams.get('sub_category')?.trim().toLowerCase();
+    if (subCategory) {
+      filters.push('sub_category_id = ?');
+      filterBindings.push(subCategory);
+    }
+    const gender = url.searchParams.get('gender')?.trim().toLowerCase();
+    if (gender) {
+      if (!(PRESET_CATALOG_CONFIG.GENDERS as readonly string[]).includes(gender)) {
+        return errorResponse(`gender must be one of: ${PRESET_CATALOG_CONFIG.GENDERS.join(', ')}`, 400, undefined, request, env);
+      }
+      // Unisex presets suit either gender
+      filters.push(gender === 'unisex' ? 'gender = ?' : '(gender = ? OR gender = \'unisex\')');
+      filterBindings.push(gender);
+    }
+    const tag = url.searchParams.get('tag')?.trim().toLowerCase();
+    if (tag) {
+      filters.push('EXISTS (SELECT 1 FROM preset_tags t WHERE t.preset_id = presets.id AND t.tag = ?)');
+      filterBindings.push(tag);
+    }
+    const premium = url.searchParams.get('premium');
+    if (premium === 'true' || premium === 'false') filters.push(`is_premium = ${premium === 'true' ? 1 : 0}`);
+
+    const { where, bindings, count } = buildListWhere(listQuery, filters, filterBindings, order);
+    const query = `
+      SELECT
+        id,
+        ext,
+        thumbnail_r2,
+        category_id,
+        sub_category_id,
+        gender,
+        position,
+        sort_order,
+        is_active,
+        is_premium,
+        credit_surcharge,
+        titles,
+        created_at
+      FROM presets
+      ${where}
+      ${listOrderAndLimit(listQuery, order)}
+    `;
+
+    const [imagesResult, total] = await Promise.all([
+      DB.prepare(query).bind(...bindings).all(),
+      countListRows(DB, 'presets', count),
+    ]);
+
+    if (!imagesResult || !imagesResult.results) {
+      const debugEnabled = isDebugEnabled(env);
+      return jsonResponse({
+        data: { presets: [] },
+        pagination: { next_cursor: null, limit: listQuery.limit, total },
+        status: 'success',
+        message: 'Presets retrieved successfully',
+        code: 200,
+        ...(debugEnabled ? { debug: { count: 0 } } : {})
+      }, 200, request, env);
+    }
 
-          if (faceSwapResult.ResultImageUrl?.startsWith('r2://')) {
-            const r2Key = faceSwapResult.ResultImageUrl.replace('r2://', '');
-            faceSwapResult.ResultImageUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-          }
+    // Flatten to match frontend expectations
+    const page = paginateRows(imagesResult.results as any[], listQuery, total, order);
+    const locale = resolveCatalogLocale(request, url);
+    const tagsByPreset = await getPresetTags(DB, page.rows.map((row: any) => row.id));
+    // Lock state for the profile in ?profile_id= (token checked by the route); without it premium presets show locked
+    const profileId = url.searchParams.get('profile_id');
+    const activeSubscriber = await hasActiveSubscription(DB, profileId);
+    const presets = await Promise.all(page.rows.map((row: any) =>
+      formatPresetListItem(row, env, R2_BUCKET, requestUrl, tagsByPreset.get(row.id) || [], locale, activeSubscriber)
+    ));
 
-        if (!faceSwapResult.Success || !faceSwapResult.ResultImageUrl) {
-          if (body?.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'faceswap', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
-          }
-          const failureCode = faceSwapResult.StatusCode || 500;
-          const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-          const flatDebug = debugEnabled ? buildFlatDebug(faceSwapResult, vertexPromptPayload) : undefined;
-          const debugPayload = debugEnabled ? compact({
-            ...flatDebug,
-          }) : undefined;
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: { presets },
+      pagination: page.pagination,
+      status: 'success',
+      message: 'Presets retrieved successfully',
+      code: 200,
+      ...(debugEnabled ? { debug: { count: presets.length } } : {})
+    }, 200, request, env);
+  } catch (error) {
+    // Return empty array instead of error to prevent UI breaking
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: { presets: [] },
+      status: 'success',
+      message: 'Presets retrieved successfully',
+      code: 200,
+      ...(debugEnabled ? { debug: { error: error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200), count: 0 } } : {})
+    }, 200, request, env);
+  }
+};
 
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: failureCode,
-            ...(debugPayload ? { debug: debugPayload } : {}),
-          }, httpStatus);
-        }
+// Handle preset deletion
+const handleDeletePreset = async ({ request, env, DB, R2_BUCKET, requestUrl, path, params }: RouteContext): Promise<Response> => {
+  try {
+    const presetId = params.id;
+    if (!presetId) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Missing required path parameter: id', 400, debugEnabled ? { path } : undefined, request, env);
+    }
 
-        // Vision API scanning on result images is disabled - only used for 4k action on selfie uploads
-        const safetyDebug: SafetyCheckDebug = {
-          checked: false,
-          isSafe: true,
-          error: 'Safety check skipped for Vertex AI mode',
-        };
 
-        const storageDebug: {
-          attemptedDownload: boolean;
-          downloadStatus: number | null;
-          savedToR2: boolean;
-          r2Key: string | null;
-          publicUrl: string | null;
-          error: string | null;
-        } = {
-          attemptedDownload: false,
-          downloadStatus: null,
-          savedToR2: false,
-          r2Key: null,
-          publicUrl: null,
-          error: null,
-        };
+    // First, check if preset exists
+    const checkResult = await DB.prepare(
+      'SELECT id, ext FROM presets WHERE id = ?'
+    ).bind(presetId).first();
 
-        let resultUrl = faceSwapResult.ResultImageUrl;
-
-        if (resultUrl?.startsWith('r2://')) {
-          const r2Key = resultUrl.replace('r2://', '');
-          resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-          storageDebug.attemptedDownload = false;
-          storageDebug.savedToR2 = true;
-          storageDebug.r2Key = r2Key;
-          storageDebug.publicUrl = resultUrl;
-        } else if (resultUrl?.startsWith('http')) {
-          // External URL (WaveSpeed cloudfront, etc.) - use directly without R2 upload
-          storageDebug.attemptedDownload = false;
-          storageDebug.savedToR2 = false;
-          storageDebug.publicUrl = resultUrl;
-        }
+    if (!checkResult) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Preset not found', 404, debugEnabled ? { presetId, path } : undefined, request, env);
+    }
 
-        const databaseDebug: {
-          attempted: boolean;
-          success: boolean;
-          resultId: string | null;
-          error: string | null;
-          lookupError: string | null;
-        } = {
-          attempted: false,
-          success: false,
-          resultId: null,
-          error: null,
-          lookupError: null,
-        };
+    const storedKey = reconstructR2Key((checkResult as any).id, (checkResult as any).ext, 'preset');
+    const r2Key = storedKey;
 
-        let savedResultId: string | null = null;
-        if (body.profile_id) {
-          databaseDebug.attempted = true;
-          try {
-            savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'faceswap', request);
+    // Delete preset from database
+    // NOTE: Results are NOT deleted when preset is deleted - they belong to profiles and should be preserved
+    const deleteResult = await DB.prepare(
+      'DELETE FROM presets WHERE id = ?'
+    ).bind(presetId).run();
 
-            if (savedResultId !== null) {
-              databaseDebug.success = true;
-              databaseDebug.resultId = String(savedResultId);
-              databaseDebug.error = null;
-            } else {
-              databaseDebug.error = 'Database insert failed';
-            }
-          } catch (dbError) {
-            databaseDebug.error = dbError instanceof Error ? dbError.message : String(dbError);
-          }
-        }
+    if (!deleteResult.success || deleteResult.meta?.changes === 0) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Preset not found or already deleted', 404, debugEnabled ? { presetId, path } : undefined, request, env);
+    }
+    await DB.prepare('DELETE FROM preset_tags WHERE preset_id = ?').bind(presetId).run();
 
-        const flatDebug = debugEnabled ? buildFlatDebug(faceSwapResult, vertexPromptPayload) : undefined;
-        const visionDebug = debugEnabled ? buildVisionDebug(safetyDebug) : undefined;
-        const storageDebugPayload = debugEnabled ? compact(storageDebug as unknown as Record<string, any>) : undefined;
-        const databaseDebugPayload = debugEnabled ? compact(databaseDebug as unknown as Record<string, any>) : undefined;
-        const debugPayload = debugEnabled ? compact({
-          ...flatDebug,
-          vision: visionDebug,
-          storage: Object.keys(storageDebugPayload || {}).length ? storageDebugPayload : undefined,
-          database: Object.keys(databaseDebugPayload || {}).length ? databaseDebugPayload : undefined,
-        }) : undefined;
+    // Try to delete from R2 (non-fatal if it fails)
+    let r2Deleted = false;
+    let r2Error = null;
+    let cdnPurgeResult = null;
+    if (r2Key) {
+      try {
+        await R2_BUCKET.delete(r2Key);
+        r2Deleted = true;
 
-        if (body.profile_id) {
-          ctx.waitUntil(sendResultNotification(env, body.profile_id, 'faceswap', { success: true, resultId: savedResultId !== null ? String(savedResultId) : undefined }));
-        }
-        return jsonResponse({
-          data: {
-            id: savedResultId !== null ? String(savedResultId) : null,
-            resultImageUrl: resultUrl,
-            selfies: hasSelfieIds && selfieIds.length > 0 ? selfieIds.map((id, idx) => ({
-              id,
-              action: selfieActions[idx] || null,
-              url: selfieUrls[idx] || null,
-            })) : undefined,
-          },
-          status: 'success',
-          message: faceSwapResult.Message || 'Processing successful',
-          code: 200,
-          ...(debugPayload ? { debug: debugPayload } : {}),
-        });
-      } catch (error) {
-        // Refund credits on failure
-        if (body?.profile_id && creditResult?.cost > 0) {
-          await refundCredits(DB, body.profile_id, 'faceswap', creditResult.fromSub, creditResult.fromConsumable, 'Processing error', request);
+        // Purge CDN cache (wait for result)
+        const publicUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
+        try {
+          const purgeResult = await purgeCdnCache([publicUrl], env);
+          cdnPurgeResult = {
+            success: purgeResult.success,
+            purged: purgeResult.purged,
+            skipped: purgeResult.skipped,
+            error: purgeResult.error || null
+          };
+        } catch (purgeError) {
+          cdnPurgeResult = {
+            success: false,
+            error: purgeError instanceof Error ? purgeError.message : String(purgeError)
+          };
+          console.error('[Delete Preset] CDN purge failed:', purgeError);
         }
-        logCriticalError('/faceswap', error, request, env, {
-          body: {
-            preset_image_id: body?.preset_image_id,
-            profile_id: body?.profile_id,
-            selfie_ids: body?.selfie_ids,
-            has_preset_id: !!body?.preset_image_id,
-            has_selfie_ids: Array.isArray(body?.selfie_ids)
-          }
-        });
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('', 500, {
-          error: errorMsg,
-          path,
-          ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {})
-        }, request, env);
+      } catch (r2DeleteError) {
+        r2Error = r2DeleteError instanceof Error ? r2DeleteError.message : String(r2DeleteError);
+        // Continue - database deletion succeeded, R2 deletion is optional
       }
     }
 
-    // Handle background endpoint
-    if (path === '/background' && request.method === 'POST') {
-      let body: BackgroundRequest | undefined;
-      let creditResult: any = null;
-      try {
-        body = await request.json() as BackgroundRequest;
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: {},
+      status: 'success',
+      ...(debugEnabled ? { debug: { presetId, r2Deleted, r2Error, cdnPurge: cdnPurgeResult } } : {}),
+      message: 'Preset deleted successfully',
+      code: 200
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: null,
+      status: 'error',
+      message: '',
+      code: 500,
+      ...(debugEnabled ? { debug: {
+        presetId: params.id,
+        error: errorMessage,
+        errorType: error instanceof Error ? error.constructor.name : typeof error,
+        path,
+        ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 500) } : {})
+      } } : {})
+    }, 500, request, env);
+  }
+};
 
-        // Normalize preset_image_id to remove file extensions (mobile apps may send IDs with extensions)
-        if (body.preset_image_id) {
-          const normalized = normalizePresetId(body.preset_image_id);
-          if (normalized) {
-            body.preset_image_id = normalized;
-          }
-        }
+// Handle selfies listing
+const handleListSelfies = async ({ request, env, DB, requestUrl, path }: RouteContext): Promise<Response> => {
+  const url = new URL(request.url);
+  try {
+    // Check for required profile_id query parameter
+    const profileId = url.searchParams.get('profile_id');
+    if (!profileId) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Missing required query parameter: profile_id', 400, debugEnabled ? { path } : undefined, request, env);
+    }
 
-        const hasPresetId = body.preset_image_id && body.preset_image_id.trim() !== '';
-        const hasPresetUrl = body.preset_image_url && body.preset_image_url.trim() !== '';
-        const hasCustomPrompt = body.custom_prompt && body.custom_prompt.trim() !== '';
+    // Validate that profile exists
+    const profileCheck = await DB.prepare(
+      'SELECT id FROM profiles WHERE id = ?'
+    ).bind(profileId).first();
+    if (!profileCheck) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Profile not found', 404, debugEnabled ? { profileId, path } : undefined, request, env);
+    }
 
-        if (!hasPresetId && !hasPresetUrl && !hasCustomPrompt) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    // Get optional action filter parameter
+    const actionFilter = url.searchParams.get('action');
+    const listQuery = parseListQuery(url.searchParams);
+    if ('error' in listQuery) return errorResponse(listQuery.error, 400, undefined, request, env);
+
+    // Check if new schema (ext column exists) or old schema (selfie_url exists)
+    const schemaCheck = await DB.prepare('PRAGMA table_info(selfies)').all();
+    const hasExt = schemaCheck.results?.some((col: any) => col.name === 'ext');
+    const hasUrl = schemaCheck.results?.some((col: any) => col.name === 'selfie_url');
+
+    let query: string;
+    const filters = ['profile_id = ?'];
+    const filterBindings: any[] = [profileId];
+
+    // Build WHERE clause with optional action filter
+    if (actionFilter && actionFilter.trim()) {
+      const normalizedAction = actionFilter.trim().toLowerCase();
+      // Support both '4k' and '4K' for backward compatibility
+      if (normalizedAction === '4k') {
+        filters.push('(action = ? OR action = ?)');
+        filterBindings.push('4k', '4K');
+      } else {
+        filters.push('action = ?');
+        filterBindings.push(normalizedAction);
+      }
+    }
+    const { where: whereClause, bindings: queryParams, count } = buildListWhere(listQuery, filters, filterBindings);
 
-        if ((hasPresetId && hasPresetUrl) || (hasPresetId && hasCustomPrompt) || (hasPresetUrl && hasCustomPrompt)) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    if (hasExt) {
+      query = `SELECT id, ext, profile_id, action, created_at FROM selfies ${whereClause} ${listOrderAndLimit(listQuery)}`;
+    } else if (hasUrl) {
+      query = `SELECT id, selfie_url, profile_id, action, created_at FROM selfies ${whereClause} ${listOrderAndLimit(listQuery)}`;
+    } else {
+      const debugEnabled = isDebugEnabled(env);
+      return jsonResponse({
+        data: { selfies: [] },
+        status: 'success',
+        message: 'Selfies retrieved successfully',
+        code: 200,
+        ...(debugEnabled ? { debug: { count: 0, reason: 'schema_mismatch' } } : {})
+      }, 200, request, env);
+    }
 
-        if (!body.profile_id) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
+    const [result, total] = await Promise.all([
+      DB.prepare(query).bind(...queryParams).all(),
+      countListRows(DB, 'selfies', count),
+    ]);
+
+    if (!result || !result.results) {
+      const debugEnabled = isDebugEnabled(env);
+      return jsonResponse({
+        data: { selfies: [] },
+        pagination: { next_cursor: null, limit: listQuery.limit, total },
+        status: 'success',
+        message: 'Selfies retrieved successfully',
+        code: 200,
+        ...(debugEnabled ? { debug: { count: 0 } } : {})
+      }, 200, request, env);
+    }
+
+    const page = paginateRows(result.results as any[], listQuery, total);
+    const selfies = page.rows.map((row: any) => {
+      let fullUrl: string;
+      if (hasExt && row.ext) {
+        const storedKey = reconstructR2Key(row.id, row.ext, 'selfie');
+        fullUrl = getR2PublicUrl(env, storedKey, requestUrl.origin);
+      } else if (hasUrl && row.selfie_url) {
+        const storedKey = row.selfie_url || '';
+        if (storedKey && !storedKey.startsWith('http://') && !storedKey.startsWith('https://')) {
+          fullUrl = getR2PublicUrl(env, storedKey, requestUrl.origin);
+        } else {
+          fullUrl = convertLegacyUrl(storedKey, env);
         }
+      } else {
+        fullUrl = '';
+      }
+      return {
+        id: row.id || '',
+        selfie_url: fullUrl,
+        action: row.action || null,
+        created_at: row.created_at ? new Date(row.created_at * 1000).toISOString() : new Date().toISOString()
+      };
+    });
+
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: { selfies },
+      pagination: page.pagination,
+      status: 'success',
+      message: 'Selfies retrieved successfully',
+      code: 200,
+      ...(debugEnabled ? { debug: { count: selfies.length, profileId } } : {})
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/selfies (GET)', error, request, env, {
+      profileId: url.searchParams.get('profile_id'),
+      action: url.searchParams.get('action'),
+      limit: url.searchParams.get('limit')
+    });
+    // Return empty array instead of error to prevent UI breaking
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: { selfies: [] },
+      status: 'success',
+      message: 'Selfies retrieved successfully',
+      code: 200,
+      ...(debugEnabled ? { debug: { error: error instanceof Error ? error.message : String(error), count: 0 } } : {})
+    }, 200, request, env);
+  }
+};
 
-        // Accept image_id/image_url as aliases for selfie_id/selfie_image_url
-        if (body.image_id && !body.selfie_id) body.selfie_id = body.image_id;
-        if (body.image_url && !body.selfie_image_url) body.selfie_image_url = body.image_url;
+// Handle selfie deletion
+const handleDeleteSelfie = async ({ request, env, DB, R2_BUCKET, requestUrl, path, params }: RouteContext): Promise<Response> => {
+  try {
+    const selfieId = params.id;
+    if (!selfieId) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Missing required path parameter: id', 400, debugEnabled ? { path } : undefined, request, env);
+    }
 
-        const hasSelfieId = body.selfie_id && body.selfie_id.trim() !== '';
-        const hasSelfieUrl = body.selfie_image_url && body.selfie_image_url.trim() !== '';
+    // First, check if selfie exists
+    const checkResult = await DB.prepare(
+      'SELECT id, ext FROM selfies WHERE id = ?'
+    ).bind(selfieId).first();
 
-        if (!hasSelfieId && !hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    if (!checkResult) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Selfie not found', 404, debugEnabled ? { selfieId, path } : undefined, request, env);
+    }
 
-        if (hasSelfieId && hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    const r2Key = reconstructR2Key((checkResult as any).id, (checkResult as any).ext, 'selfie');
 
-        const DB = getD1Database(env);
-        const R2_BUCKET = getR2Bucket(env);
-        const requestUrl = new URL(request.url);
+    // Delete selfie from database
+    // NOTE: Results are NOT deleted when selfie is deleted - they belong to profiles and should be preserved
+    const deleteResult = await DB.prepare(
+      'DELETE FROM selfies WHERE id = ?'
+    ).bind(selfieId).run();
 
-        // Optimize database queries: validate profile, preset, and selfie in parallel with JOINs where applicable
-        const queries: Promise<any>[] = [
-          DB.prepare('SELECT id FROM profiles WHERE id = ?').bind(body.profile_id).first()
-        ];
+    if (!deleteResult.success || deleteResult.meta?.changes === 0) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Selfie not found or already deleted', 404, debugEnabled ? { selfieId, path } : undefined, request, env);
+    }
 
-        if (hasPresetId) {
-          queries.push(
-            DB.prepare('SELECT id, ext FROM presets WHERE id = ?').bind(body.preset_image_id).first()
-          );
-        }
+    // Try to delete from R2 (non-fatal if it fails)
+    let r2Deleted = false;
+    let r2Error = null;
+    let cdnPurgeResult = null;
+    if (r2Key) {
+      try {
+        await R2_BUCKET.delete(r2Key);
+        r2Deleted = true;
 
-        if (hasSelfieId) {
-          // Use JOIN to validate selfie belongs to profile
-          queries.push(
-            DB.prepare(`
-              SELECT s.id, s.ext, p.id as profile_exists
-              FROM selfies s
-              INNER JOIN profiles p ON s.profile_id = p.id
-              WHERE s.id = ? AND p.id = ?
-            `).bind(body.selfie_id, body.profile_id).first()
-          );
+        // Purge CDN cache (wait for result)
+        const publicUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
+        try {
+          const purgeResult = await purgeCdnCache([publicUrl], env);
+          cdnPurgeResult = {
+            success: purgeResult.success,
+            purged: purgeResult.purged,
+            skipped: purgeResult.skipped,
+            error: purgeResult.error || null
+          };
+        } catch (purgeError) {
+          cdnPurgeResult = {
+            success: false,
+            error: purgeError instanceof Error ? purgeError.message : String(purgeError)
+          };
+          console.error('[Delete Selfie] CDN purge failed:', purgeError);
         }
+      } catch (r2DeleteError) {
+        r2Error = r2DeleteError instanceof Error ? r2DeleteError.message : String(r2DeleteError);
+        // Continue - database deletion succeeded, R2 deletion is optional
+      }
+    }
 
-        // Execute all queries in parallel
-        const results = await Promise.all(queries);
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: {},
+      status: 'success',
+      message: 'Selfie deleted successfully',
+      code: 200,
+      ...(debugEnabled ? { debug: { selfieId, r2Deleted, r2Error, cdnPurge: cdnPurgeResult } } : {})
+    }, 200, request, env);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: null,
+      status: 'error',
+      message: '',
+      code: 500,
+      ...(debugEnabled ? { debug: {
+        selfieId: params.id,
+        error: errorMessage,
+        errorType: error instanceof Error ? error.constructor.name : typeof error,
+        path,
+        ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 500) } : {})
+      } } : {})
+    }, 500, request, env);
+  }
+};
 
-        const profileCheck = results[0];
-        if (!profileCheck) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Profile not found', 404, debugEnabled ? { profileId: body.profile_id, path } : undefined, request, env);
-        }
+// Handle results listing
+// Get preset_id from thumbnail_id (for mobile app) - thumbnail is in same row as preset
+const handleGetThumbnailPreset = async ({ request, env, DB, path, params }: RouteContext): Promise<Response> => {
+  try {
+    const thumbnailId = params.id;
+    if (!thumbnailId) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Missing required path parameter: id', 400, debugEnabled ? { path } : undefined, request, env);
+    }
 
-        let selfieUrl: string;
-        let selfieResultForDelete: any = null;
-        if (hasSelfieId) {
-          const selfieResult = results[hasPresetId ? 2 : 1];
-          if (!selfieResult) {
-            const cachedResult = await getCachedResultFromKV(env, body.selfie_id!, body.preset_image_id || null, 'background');
-            if (cachedResult) {
-              return jsonResponse({
-                data: { resultImageUrl: cachedResult, cached: true },
-                status: 'success',
-                message: 'Cached result returned (selfie was auto-deleted after previous processing)',
-                code: 200,
-              });
-            }
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse(`Selfie with ID ${body.selfie_id} not found or does not belong to profile`, 404, debugEnabled ? { selfieId: body.selfie_id, profileId: body.profile_id, path } : undefined, request, env);
-          }
-          selfieResultForDelete = selfieResult;
-          const storedKey = reconstructR2Key((selfieResult as any).id, (selfieResult as any).ext, 'selfie');
-          selfieUrl = getR2PublicUrl(env, storedKey, requestUrl.origin);
-        } else {
-          selfieUrl = body.selfie_image_url!;
-        }
+    // Thumbnail is stored in same row as preset, so the ID is the preset ID
+    const preset = await DB.prepare(
+      'SELECT id FROM presets WHERE id = ? AND thumbnail_r2 IS NOT NULL'
+    ).bind(thumbnailId).first();
 
-        let targetUrl: string;
-        let presetName: string;
-        let presetImageId: string | null = null;
+    if (!preset) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Thumbnail not found', 404, debugEnabled ? { thumbnailId, path } : undefined, request, env);
+    }
 
-        // Credit deduction (after validation, before processing)
-        creditResult = await deductCredits(DB, body.profile_id, 'background', env, request);
-        if (!creditResult.success) {
-          return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
-        }
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: { preset_id: (preset as any).id },
+      status: 'success',
+      message: 'Preset ID retrieved successfully',
+      code: 200,
+      ...(debugEnabled ? { debug: { thumbnailId, presetId: (preset as any).id } } : {})
+    }, 200, request, env);
+  } catch (error) {
+    const debugEnabled = isDebugEnabled(env);
+    const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 500) } : {}) } : undefined, request, env);
+  }
+};
 
-        if (hasCustomPrompt) {
-          const envError = validateEnv(env, 'wavespeed');
-          if (envError) {
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('', 500, debugEnabled ? { error: envError, path } : undefined, request, env);
-          }
-          const customPrompt = VERTEX_AI_PROMPTS.BACKGROUND_CUSTOM_PROMPT_TEMPLATE.replace(/\{\{place_holder\}\}/g, body.custom_prompt!.trim());
-          const validAspectRatio = await resolveAspectRatio(body.aspect_ratio, selfieUrl, env, { allowOriginal: true });
-          let sizeForProvider: string | undefined;
-          const userExplicitlySetAspectRatio = body.aspect_ratio && body.aspect_ratio.trim() !== '' && body.aspect_ratio.toLowerCase() !== 'original';
-          if (!userExplicitlySetAspectRatio) {
-            try {
-              const { getImageDimensionsExtended, calculateOptimalSize } = await import('./utils');
-              const imageDimensionsExtended = await getImageDimensionsExtended(selfieUrl, env);
-              if (imageDimensionsExtended) {
-                const optimal = calculateOptimalSize(imageDimensionsExtended.width, imageDimensionsExtended.height, 1536, 256);
-                sizeForProvider = optimal.sizeString;
-              }
-            } catch (e) {}
-          }
-          const mergeResult = await callWaveSpeedSeedreamEdit([selfieUrl], customPrompt, env, validAspectRatio, sizeForProvider);
-          if (!mergeResult.Success || !mergeResult.ResultImageUrl) {
-            if (body?.profile_id && creditResult?.cost > 0) {
-              await refundCredits(DB, body.profile_id, 'background', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
-            }
-            const failureCode = mergeResult.StatusCode || 500;
-            const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-            const debugEnabled = isDebugEnabled(env);
-            const flatDebug = debugEnabled ? buildFlatDebug(mergeResult) : undefined;
-            return jsonResponse({
-              data: null,
-              status: 'error',
-              message: '',
-              code: failureCode,
-              ...(debugEnabled && flatDebug ? { debug: compact(flatDebug) } : {}),
-            }, httpStatus);
-          }
-          let resultUrl = mergeResult.ResultImageUrl;
-          if (resultUrl?.startsWith('r2://')) {
-            const r2Key = resultUrl.replace('r2://', '');
-            resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-          }
+// Get thumbnails - query presets table where any thumbnail column IS NOT NULL
+const handleListThumbnails = async ({ request, env, DB, requestUrl, path }: RouteContext): Promise<Response> => {
+  const debugEnabled = isDebugEnabled(env);
+  try {
+    // Without ?limit= or ?cursor= every thumbnail is returned, as before paging existed
+    const listQuery = parseListQuery(requestUrl.searchParams, null);
+    if ('error' in listQuery) return errorResponse(listQuery.error, 400, undefined, request, env);
+
+    const { where, bindings, count } = buildListWhere(listQuery, ['thumbnail_r2 IS NOT NULL'], []);
+    const query = `SELECT
+      id,
+      thumbnail_r2,
+      created_at
+    FROM presets
+    ${where}
+    ${listOrderAndLimit(listQuery)}`;
+
+    const [result, total] = await Promise.all([
+      DB.prepare(query).bind(...bindings).all(),
+      countListRows(DB, 'presets', count),
+    ]);
+    const page = paginateRows((result.results || []) as any[], listQuery, total);
+
+    // Map results to include all thumbnail resolutions from JSON
+    const thumbnails = page.rows.map((row: any) => {
+      let thumbnailData: Record<string, string> = {};
+      try {
+        thumbnailData = row.thumbnail_r2 ? JSON.parse(row.thumbnail_r2) : {};
+      } catch (e) {
+        thumbnailData = {};
+      }
 
-          // Post-generation safety check for custom prompt results
-          const safetyCheck = await checkSafeSearch(resultUrl, env);
-          if (!safetyCheck.isSafe) {
-            if (body.profile_id && creditResult?.cost > 0) {
-              await refundCredits(DB, body.profile_id, 'background', creditResult.fromSub, creditResult.fromConsumable, 'Content safety violation', request);
-            }
-            const debugEnabled = isDebugEnabled(env);
-            return jsonResponse({
-              data: null,
-              status: 'error',
-              message: '',
-              code: safetyCheck.statusCode || 1001,
-              ...(debugEnabled ? { debug: { safetyCategory: safetyCheck.violationCategory, safetyLevel: safetyCheck.violationLevel, safetyDetails: safetyCheck.details } } : {}),
-            }, 422);
-          }
+      // Build full URLs from R2 keys
+      const buildThumbnailUrl = (key: string | null | undefined): string | null => {
+        if (!key) return null;
+        return getR2PublicUrl(env, key, requestUrl.origin);
+      };
 
-          let savedResultId: string | null = null;
-          if (body.profile_id) {
-            try {
-              savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'background', request);
-            } catch (dbError) {}
-          }
-          if (hasSelfieId && body.selfie_id) {
-            ctx.waitUntil(cacheResultInKV(env, body.selfie_id, body.preset_image_id || null, 'background', resultUrl));
-          }
-          if (hasSelfieId && selfieResultForDelete) {
-            const selfieId = (selfieResultForDelete as any).id;
-            const selfieExt = (selfieResultForDelete as any).ext;
-            ctx.waitUntil(deleteSelfieAfterProcessing(selfieId, selfieExt, env, DB, R2_BUCKET, requestUrl.origin));
-          }
-          const debugEnabled = isDebugEnabled(env);
-          const flatDebug = debugEnabled ? buildFlatDebug(mergeResult) : undefined;
-          const debugPayload = debugEnabled && flatDebug ? compact(flatDebug) : undefined;
-          if (body.profile_id) {
-            ctx.waitUntil(sendResultNotification(env, body.profile_id, 'background', { success: true, resultId: savedResultId !== null ? String(savedResultId) : undefined }));
-          }
-          return jsonResponse({
-            data: { id: savedResultId !== null ? String(savedResultId) : null, resultImageUrl: resultUrl },
-            status: 'success',
-            message: mergeResult.Message || 'Processing successful',
-            code: 200,
-            ...(debugPayload ? { debug: debugPayload } : {}),
-          });
-        }
+      // Build response object with only 4x thumbnails
+      const response: any = {
+        preset_id: row.id, // Include preset_id for frontend selection
+      };
 
-        if (hasPresetId) {
-          const presetResult = results[1];
+      // Primary thumbnail_url_4x: prefer webp, then lottie, then lottie_avif
+      const primary4x = thumbnailData['webp_4x'] || thumbnailData['lottie_4x'] || thumbnailData['lottie_avif_4x'];
+      response.thumbnail_url_4x = buildThumbnailUrl(primary4x);
 
-          // If preset not found in database, try looking in remove_bg/background folder
-          if (!presetResult) {
-            // Check if preset_image_id looks like a filename (contains extension)
-            const presetId = body.preset_image_id!;
-            let r2Key: string;
+      // Add lottie_4x if exists (can coexist with webp_4x)
+      if (thumbnailData['lottie_4x']) {
+        response.thumbnail_url_4x_lottie = buildThumbnailUrl(thumbnailData['lottie_4x']);
+      }
 
-            if (presetId.includes('.')) {
-              // Has extension: remove_bg/background/filename.ext
-              r2Key = `remove_bg/background/${presetId}`;
-            } else {
-              // No extension, try common extensions
-              const extensions = ['webp', 'jpg', 'png', 'jpeg'];
-              let foundExt: string | null = null;
-
-              // Try to find file with any common extension
-              for (const ext of extensions) {
-                const testKey = `remove_bg/background/${presetId}.${ext}`;
-                try {
-                  const testObj = await R2_BUCKET.head(testKey);
-                  if (testObj) {
-                    foundExt = ext;
-                    break;
-                  }
-                } catch (e) {
-                  // File doesn't exist, try next extension
-                }
-              }
+      // Add lottie_avif_4x if exists (can coexist with lottie_4x and webp_4x)
+      if (thumbnailData['lottie_avif_4x']) {
+        response.thumbnail_url_4x_lottie_avif = buildThumbnailUrl(thumbnailData['lottie_avif_4x']);
+      }
 
-              if (!foundExt) {
-                const debugEnabled = isDebugEnabled(env);
-                return errorResponse('Preset image not found in database or remove_bg/background folder', 404, debugEnabled ? {
-                  presetId: body.preset_image_id,
-                  searchedFolder: 'remove_bg/background',
-                  triedExtensions: extensions,
-                  path
-                } : undefined, request, env);
-              }
+      return response;
+    });
+
+    return jsonResponse({
+      data: { thumbnails },
+      pagination: page.pagination,
+      status: 'success',
+      message: 'Thumbnails retrieved successfully',
+      code: 200,
+      ...(debugEnabled ? { debug: { count: thumbnails.length } } : {})
+    }, 200, request, env);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 500) } : {}) } : undefined, request, env);
+  }
+};
 
-              r2Key = `remove_bg/background/${presetId}.${foundExt}`;
-            }
+const handleListResults = async ({ request, env, DB, requestUrl }: RouteContext): Promise<Response> => {
+  const url = new URL(request.url);
+  try {
+    const profileId = url.searchParams.get('profile_id');
+    const listQuery = parseListQuery(url.searchParams);
+    if ('error' in listQuery) return errorResponse(listQuery.error, 400, undefined, request, env);
+
+    const filters: string[] = [];
+    const filterBindings: any[] = [];
+    if (profileId) {
+    const profileCheck = await DB.prepare(
+      'SELECT id FROM profiles WHERE id = ?'
+    ).bind(profileId).first();
+    if (!profileCheck) {
+      return errorResponse('Profile not found', 404, undefined, request, env);
+    }
+      filters.push('profile_id = ?');
+      filterBindings.push(profileId);
+    }
+    const actionFilter = url.searchParams.get('action')?.trim().toLowerCase();
+    if (actionFilter) {
+      filters.push('action = ?');
+      filterBindings.push(actionFilter);
+    }
 
-            targetUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-            presetName = 'Background Preset';
-            presetImageId = body.preset_image_id || null;
-          } else {
-            // Found in database, use normal preset lookup
-            const storedKey = reconstructR2Key((presetResult as any).id, (presetResult as any).ext, 'preset');
-            targetUrl = getR2PublicUrl(env, storedKey, requestUrl.origin);
-            presetName = 'Preset';
-            presetImageId = body.preset_image_id || null;
-          }
-        } else {
-          targetUrl = body.preset_image_url!;
-          presetName = 'Result Preset';
-          presetImageId = null;
-        }
+    const { where, bindings, count } = buildListWhere(listQuery, filters, filterBindings);
+    const query = `SELECT id, ext, profile_id, action, preset_id, provider, model, created_at FROM results ${where} ${listOrderAndLimit(listQuery)}`;
 
-        // Check IMAGE_PROVIDER configuration
-        const effectiveProvider = getEffectiveProvider(body, env, 'MERGE');
-
-        const requestDebug = compact({
-          targetUrl: targetUrl,
-          selfieUrl: selfieUrl,
-          presetImageId: presetImageId,
-          presetImageUrl: hasPresetUrl ? body.preset_image_url : undefined,
-          presetName: presetName,
-          selfieId: body.selfie_id,
-          customPrompt: hasCustomPrompt ? body.custom_prompt : undefined,
-          provider: effectiveProvider,
-        });
+    // Counting is cheap within one profile (indexed); across all results it is not
+    const [result, total] = await Promise.all([
+      DB.prepare(query).bind(...bindings).all(),
+      profileId ? countListRows(DB, 'results', count) : Promise.resolve(null),
+    ]);
 
-        const envError = validateEnv(env, (effectiveProvider === 'wavespeed' || effectiveProvider === 'wavespeed_gemini_2_5_flash_image') ? 'wavespeed' : 'vertex');
-        if (envError) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 500, debugEnabled ? { error: envError, path } : undefined, request, env);
-        }
+    if (!result || !result.results) {
+      const debugEnabled = isDebugEnabled(env);
+      return jsonResponse({
+        data: [],
+        pagination: { next_cursor: null, limit: listQuery.limit, total },
+        status: 'success',
+        message: 'Results retrieved successfully',
+        code: 200,
+        ...(debugEnabled ? { debug: { count: 0, profileId: profileId || null } } : {})
+      }, 200, request, env);
+    }
+
+    const page = paginateRows(result.results as any[], listQuery, total);
+    const results = page.rows.map((row: any) => {
+      // Check if id is already a full URL (WaveSpeed external URL)
+      const isExternalUrl = row.id && row.id.startsWith('http');
+      const fullUrl = isExternalUrl
+        ? row.id
+        : getR2PublicUrl(env, reconstructR2Key(row.id, row.ext, 'results'), requestUrl.origin);
+      return {
+        id: String(row.id || ''),
+        result_url: fullUrl,
+        action: row.action || null,
+        preset_id: row.preset_id || null,
+        provider: row.provider || null,
+        model: row.model || null,
+        created_at: row.created_at ? new Date(row.created_at * 1000).toISOString() : new Date().toISOString()
+      };
+    });
+
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: results,
+      pagination: page.pagination,
+      status: 'success',
+      message: 'Results retrieved successfully',
+      code: 200,
+      ...(debugEnabled ? { debug: { count: results.length, profileId: profileId || null } } : {})
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/results (GET)', error, request, env, {
+      profileId: url.searchParams.get('profile_id'),
+      limit: url.searchParams.get('limit')
+    });
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: [],
+      status: 'success',
+      message: 'Results retrieved successfully',
+      code: 200,
+      ...(debugEnabled ? { debug: { error: error instanceof Error ? error.message : String(error), count: 0 } } : {})
+    }, 200, request, env);
+  }
+};
 
-        const useWaveSpeedStyleMerge = effectiveProvider === 'wavespeed' || effectiveProvider === 'wavespeed_gemini_2_5_flash_image';
-        const mergePrompt = useWaveSpeedStyleMerge
-          ? WAVESPEED_PROMPTS.MERGE_PROMPT_DEFAULT
-          : VERTEX_AI_PROMPTS.MERGE_PROMPT_DEFAULT;
+// Handle results deletion (reuse same pattern as presets/selfies)
+const handleDeleteResult = async ({ request, env, DB, R2_BUCKET, requestUrl, path, params }: RouteContext): Promise<Response> => {
+  try {
+    const resultIdFull = decodePathParam(params.id);
+    const resultIdShort = params.id.split('/')[0];
+    const resultId = resultIdFull || resultIdShort;
+    if (!resultId) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Missing required path parameter: id', 400, debugEnabled ? { path } : undefined, request, env);
+    }
 
-        // Resolve aspect ratio from selfie image if "original" is specified
-        const validAspectRatio = await resolveAspectRatio(body.aspect_ratio, selfieUrl, env, { allowOriginal: true });
-        const modelParam = body.model;
+    let checkResult = resultIdFull
+      ? await DB.prepare('SELECT id, ext FROM results WHERE id = ?').bind(resultIdFull).first()
+      : null;
+    if (!checkResult && resultIdShort && resultIdShort !== resultIdFull) {
+      checkResult = await DB.prepare('SELECT id, ext FROM results WHERE id = ?').bind(resultIdShort).first();
+    }
 
-        // Calculate optimal output size at max 1536px for best quality
-        let sizeForProvider: string | undefined;
-        const userExplicitlySetAspectRatio = body.aspect_ratio && body.aspect_ratio.trim() !== '' && body.aspect_ratio.toLowerCase() !== 'original';
-        if (!userExplicitlySetAspectRatio) {
-          try {
-            const { getImageDimensionsExtended, calculateOptimalSize } = await import('./utils');
-            const imageDimensionsExtended = await getImageDimensionsExtended(selfieUrl, env);
-            if (imageDimensionsExtended) {
-              const optimal = calculateOptimalSize(imageDimensionsExtended.width, imageDimensionsExtended.height, 1536, 256);
-              sizeForProvider = optimal.sizeString;
-            }
-          } catch (e) {
-            // Ignore dimension errors, will use default aspect ratio
-          }
-        }
+    if (!checkResult) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Result not found', 404, debugEnabled ? { resultId, path } : undefined, request, env);
+    }
 
-        let mergeResult: FaceSwapResponse;
-        if (useWaveSpeedStyleMerge) {
-          // Use Seedream v4 for background merge (better quality, 4K support)
-          mergeResult = await callWaveSpeedSeedreamEdit(
-            [selfieUrl, targetUrl],
-            mergePrompt,
-            env,
-            validAspectRatio,
-            sizeForProvider
-          );
-        } else {
-          // Vertex AI: use dedicated merge function
-          mergeResult = await callNanoBananaMerge(mergePrompt, selfieUrl, targetUrl, env, validAspectRatio, modelParam);
-        }
+    const actualId = (checkResult as any).id;
+    const isExternalUrl = actualId && String(actualId).startsWith('http');
+    const r2Key = isExternalUrl ? null : reconstructR2Key((checkResult as any).id, (checkResult as any).ext, 'results');
 
-        if (!mergeResult.Success || !mergeResult.ResultImageUrl) {
-          if (body?.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'background', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
-          }
-          const failureCode = mergeResult.StatusCode || 500;
-          const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-          const debugEnabled = isDebugEnabled(env);
-          const flatDebug = debugEnabled ? buildFlatDebug(mergeResult) : undefined;
-          const debugPayload = debugEnabled ? compact({
-            ...flatDebug,
-          }) : undefined;
+    const deleteResult = await DB.prepare(
+      'DELETE FROM results WHERE id = ?'
+    ).bind(actualId).run();
 
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: failureCode,
-            ...(debugPayload ? { debug: debugPayload } : {}),
-          }, httpStatus);
-        }
+    if (!deleteResult.success || deleteResult.meta?.changes === 0) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Result not found or already deleted', 404, debugEnabled ? { resultId, path } : undefined, request, env);
+    }
 
-        if (mergeResult.ResultImageUrl?.startsWith('r2://')) {
-          const r2Key = mergeResult.ResultImageUrl.replace('r2://', '');
-          mergeResult.ResultImageUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
+    let r2Deleted = false;
+    let r2Error = null;
+    let cdnPurgeResult = null;
+    if (r2Key) {
+      try {
+        await R2_BUCKET.delete(r2Key);
+        r2Deleted = true;
+        const publicUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
+        try {
+          const purgeResult = await purgeCdnCache([publicUrl], env);
+          cdnPurgeResult = {
+            success: purgeResult.success,
+            purged: purgeResult.purged,
+            skipped: purgeResult.skipped,
+            error: purgeResult.error || null
+          };
+        } catch (purgeError) {
+          cdnPurgeResult = {
+            success: false,
+            error: purgeError instanceof Error ? purgeError.message : String(purgeError)
+          };
+          console.error('[Delete Result] CDN purge failed:', purgeError);
         }
+      } catch (r2DeleteError) {
+        r2Error = r2DeleteError instanceof Error ? r2DeleteError.message : String(r2DeleteError);
+      }
+    }
 
-        // Vision API scanning on result images is disabled - only used for 4k action on selfie uploads
-        const safetyDebug: SafetyCheckDebug = {
-          checked: false,
-          isSafe: true,
-          error: 'Safety check skipped for Vertex AI mode',
-        };
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: {},
+      status: 'success',
+      message: 'Result deleted successfully',
+      code: 200,
+      ...(debugEnabled ? { debug: {
+        resultId,
+        databaseDeleted: deleteResult.meta?.changes || 0,
+        r2Deleted,
+        r2Key,
+        r2Error: r2Error || null,
+        cdnPurge: cdnPurgeResult
+      } } : {})
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/results/{id} (DELETE)', error, request, env, {
+      resultId: decodePathParam(params.id)
+    });
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const debugEnabled = isDebugEnabled(env);
+    return jsonResponse({
+      data: null,
+      status: 'error',
+      message: '',
+      code: 500,
+      ...(debugEnabled ? { debug: {
+        resultId: decodePathParam(params.id),
+        error: errorMessage,
+        path,
+        ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {})
+      } } : {})
+    }, 500, request, env);
+  }
+};
 
-        const storageDebug: {
-          attemptedDownload: boolean;
-          downloadStatus: number | null;
-          savedToR2: boolean;
-          r2Key: string | null;
-          publicUrl: string | null;
-          error: string | null;
-        } = {
-          attemptedDownload: false,
-          downloadStatus: null,
-          savedToR2: false,
-          r2Key: null,
-          publicUrl: null,
-          error: null,
-        };
+interface FaceSwapInput {
+  selfieUrls: string[];     // One selfie, or two for couple presets
+  targetUrl: string;        // Preset image
+  promptPayload: any;       // Preset prompt_json (required by Vertex and Gemini)
+  additionalPrompt?: string;
+  aspectRatio: string;
+  model?: string | number;
+  size?: string;
+}
+
+// Prompt and inputs differ per provider, so the request is rebuilt for each provider tried.
+// Returns null when the provider needs prompt_json and the preset has none.
+const buildFaceSwapRequest = (provider: ImageProvider, input: FaceSwapInput): ImageProviderRequest | null => {
+  const { selfieUrls, targetUrl, aspectRatio, model, size } = input;
+  const isCoupleMode = selfieUrls.length >= 2;
+  const selfiesAndTarget = isCoupleMode ? [selfieUrls[0], selfieUrls[1], targetUrl] : [selfieUrls[0], targetUrl];
+  if (provider.name === 'wavespeed_gemini_2_5_flash_image') {
+    if (!input.promptPayload) return null;
+    return { mode: 'FACESWAP', prompt: augmentVertexPrompt(input.promptPayload, input.additionalPrompt), imageUrls: selfiesAndTarget, aspectRatio, model, size };
+  }
+  if (provider.name === 'vertex') {
+    // Vertex gets the selfie(s) only; the preset is described by prompt_json
+    if (!input.promptPayload) return null;
+    return { mode: 'FACESWAP', prompt: augmentVertexPrompt(input.promptPayload, input.additionalPrompt), imageUrls: selfieUrls, aspectRatio, model, size };
+  }
+  const wavespeedFaceswapPrompt = isCoupleMode ? WAVESPEED_PROMPTS.FACESWAP_COUPLE : WAVESPEED_PROMPTS.FACESWAP_SINGLE;
+  const prompt = input.additionalPrompt
+    ? `${wavespeedFaceswapPrompt}\n\nAdditional instructions: ${input.additionalPrompt}`
+    : wavespeedFaceswapPrompt;
+  return { mode: 'FACESWAP', prompt, imageUrls: selfiesAndTarget, aspectRatio, model, size };
+};
 
-        let resultUrl = mergeResult.ResultImageUrl;
-        if (resultUrl?.startsWith('r2://')) {
-          const r2Key = resultUrl.replace('r2://', '');
-          resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-          storageDebug.savedToR2 = true;
-          storageDebug.r2Key = r2Key;
-          storageDebug.publicUrl = resultUrl;
-        } else if (resultUrl?.startsWith('http')) {
-          // External URL - use directly
-          storageDebug.publicUrl = resultUrl;
-        }
+// Handle face swap endpoint
+const handleFaceswap = async ({ request, env, ctx, DB, R2_BUCKET, requestUrl, path }: RouteContext): Promise<Response> => {
+  const debugEnabled = isDebugEnabled(env);
+  const requestCache = new Map<string, Promise<any>>();
+  const getCachedAsync = async <T>(key: string, compute: () => Promise<T>): Promise<T> => {
+    if (!requestCache.has(key)) {
+      requestCache.set(key, compute());
+    }
+    return requestCache.get(key) as Promise<T>;
+  };
 
-        const databaseDebug: {
-          attempted: boolean;
-          success: boolean;
-          resultId: string | null;
-          error: string | null;
-          lookupError: string | null;
-        } = {
-          attempted: false,
-          success: false,
-          resultId: null,
-          error: null,
-          lookupError: null,
-        };
+  let body: FaceSwapRequest | undefined;
+  let creditResult: any = null;
+  try {
+    try {
+      const rawBody = await request.text();
+      console.log('[Faceswap] Raw request body:', rawBody.substring(0, 500));
+      body = JSON.parse(rawBody);
+      console.log('[Faceswap] Parsed body:', JSON.stringify({ 
+        preset_image_id: body?.preset_image_id, 
+        profile_id: body?.profile_id, 
+        selfie_ids: body?.selfie_ids,
+        has_preset_id: !!body?.preset_image_id,
+        has_profile_id: !!body?.profile_id,
+        has_selfie_ids: Array.isArray(body?.selfie_ids)
+      }));
+    } catch (jsonError) {
+      const errorMsg = jsonError instanceof Error ? jsonError.message : String(jsonError);
+      console.error('[Faceswap] JSON parse error:', errorMsg);
+      return errorResponse('Invalid JSON in request body', 400, { error: `Invalid JSON in request body: ${errorMsg}`, path }, request, env);
+    }
 
-        let savedResultId: string | null = null;
-        if (body.profile_id) {
-          databaseDebug.attempted = true;
-          try {
-            savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'background', request);
+    if (!body) {
+      return errorResponse('Request body is required', 400, { error: 'Request body is required', path }, request, env);
+    }
 
-            if (savedResultId !== null) {
-              databaseDebug.success = true;
-              databaseDebug.resultId = String(savedResultId);
-              databaseDebug.error = null;
-            } else {
-              databaseDebug.error = 'Database insert failed';
-            }
-          } catch (dbError) {
-            databaseDebug.error = dbError instanceof Error ? dbError.message : String(dbError);
-          }
-        }
+    // Normalize preset_image_id to remove file extensions (mobile apps may send IDs with extensions)
+    if (body.preset_image_id) {
+      const normalized = normalizePresetId(body.preset_image_id);
+      if (normalized) {
+        body.preset_image_id = normalized;
+      }
+    }
 
-        // Cache result in KV for retry handling (before selfie deletion)
-        if (hasSelfieId && body.selfie_id) {
-          ctx.waitUntil(cacheResultInKV(env, body.selfie_id, body.preset_image_id || null, 'background', resultUrl));
-        }
+    const providerChain = resolveImageProviderChain(body, env, 'FACESWAP');
+    const imageProvider = providerChain[0];
+    const envError = imageProvider.configError(env);
+    if (envError) {
+      console.error('[Faceswap] Env validation error:', envError);
+      return errorResponse('', 500, { error: envError, path }, request, env);
+    }
 
-        // Auto-delete selfie after processing (non-FaceSwap API)
-        if (hasSelfieId && selfieResultForDelete) {
-          const selfieId = (selfieResultForDelete as any).id;
-          const selfieExt = (selfieResultForDelete as any).ext;
-          ctx.waitUntil(deleteSelfieAfterProcessing(selfieId, selfieExt, env, DB, R2_BUCKET, requestUrl.origin));
-        }
+    // Extract validated values (route bodySchema validateRequest already confirmed they exist and are correct types)
+    const hasSelfieIds = Array.isArray(body.selfie_ids) && body.selfie_ids.length > 0;
+    const hasSelfieUrls = Array.isArray(body.selfie_image_urls) && body.selfie_image_urls.length > 0;
+    const hasPresetId = body.preset_image_id && typeof body.preset_image_id === 'string' && body.preset_image_id.trim() !== '';
+    const hasPresetUrl = body.preset_image_url && typeof body.preset_image_url === 'string' && body.preset_image_url.trim() !== '';
 
-        const debugEnabled = isDebugEnabled(env);
-        const flatDebug = debugEnabled ? buildFlatDebug(mergeResult) : undefined;
-        const visionDebug = debugEnabled ? buildVisionDebug(safetyDebug) : undefined;
-        const storageDebugPayload = debugEnabled ? compact(storageDebug as unknown as Record<string, any>) : undefined;
-        const databaseDebugPayload = debugEnabled ? compact(databaseDebug as unknown as Record<string, any>) : undefined;
-        const debugPayload = debugEnabled ? compact({
-          ...flatDebug,
-          vision: visionDebug,
-          storage: Object.keys(storageDebugPayload || {}).length ? storageDebugPayload : undefined,
-          database: Object.keys(databaseDebugPayload || {}).length ? databaseDebugPayload : undefined,
-        }) : undefined;
+    console.log('[Faceswap] All validations passed, proceeding to database queries', { hasPresetId, hasPresetUrl, hasSelfieIds, hasSelfieUrls });
 
-        if (body.profile_id) {
-          ctx.waitUntil(sendResultNotification(env, body.profile_id, 'background', { success: true, resultId: savedResultId !== null ? String(savedResultId) : undefined }));
-        }
-        return jsonResponse({
-          data: {
-            id: savedResultId !== null ? String(savedResultId) : null,
-            resultImageUrl: resultUrl,
-          },
-          status: 'success',
-          message: mergeResult.Message || 'Processing successful',
-          code: 200,
-          ...(debugPayload ? { debug: debugPayload } : {}),
-        });
-      } catch (error) {
-        if (body?.profile_id && creditResult?.cost > 0) {
-          await refundCredits(DB, body.profile_id, 'background', creditResult.fromSub, creditResult.fromConsumable, 'Processing error', request);
+    if (hasSelfieUrls && body.selfie_image_urls) {
+      for (const url of body.selfie_image_urls) {
+        if (!validateImageUrl(url, env)) {
+          return errorResponse('Invalid selfie image URL', 400, { error: `Invalid selfie image URL: ${url}`, path, url }, request, env);
         }
-        logCriticalError('/background', error, request, env, {
-          body: {
-            preset_image_id: body?.preset_image_id,
-            preset_image_url: body?.preset_image_url,
-            custom_prompt: body?.custom_prompt ? '***present***' : 'missing',
-            profile_id: body?.profile_id,
-            selfie_id: body?.selfie_id,
-            selfie_image_url: body?.selfie_image_url ? '***present***' : 'missing'
-          }
-        });
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
       }
     }
 
-    // Handle upscaler4k endpoint
-    if (path === '/upscaler4k' && request.method === 'POST') {
-      let body: { image_url: string; profile_id?: string; aspect_ratio?: string } | undefined;
-      let creditResult: any = null;
-      try {
-        body = await request.json() as { image_url: string; profile_id?: string; aspect_ratio?: string };
-        
-        if (!body.image_url) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
-
-        if (!body.profile_id) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    if (hasPresetUrl && body.preset_image_url) {
+      if (!validateImageUrl(body.preset_image_url, env)) {
+        return errorResponse('Invalid preset image URL', 400, { error: `Invalid preset image URL: ${body.preset_image_url}`, path, url: body.preset_image_url }, request, env);
+      }
+    }
 
-        // Validate that the image_url is a selfie with action='4k' or '4K'
-        const r2Key = extractR2KeyFromUrl(body.image_url);
-        if (!r2Key || !r2Key.startsWith('selfie/')) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Image must be a selfie', 400, debugEnabled ? { path, imageUrl: body.image_url } : undefined, request, env);
-        }
+    // Optimize database queries with JOINs to validate ownership in single queries
+    const queries: Promise<any>[] = [];
 
-        // Extract selfie ID from R2 key (format: selfie/{id}.{ext})
-        const keyParts = r2Key.replace('selfie/', '').split('.');
-        if (keyParts.length < 2) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Invalid selfie URL format', 400, debugEnabled ? { path, imageUrl: body.image_url } : undefined, request, env);
-        }
-        const selfieId = keyParts.slice(0, -1).join('.');
+    // Profile validation (needed for all cases)
+    queries.push(
+      DB.prepare('SELECT id FROM profiles WHERE id = ?').bind(body.profile_id).first()
+    );
 
-        // Single JOIN query to validate profile exists, selfie exists, belongs to profile, and has action='4k'
-        const validation = await DB.prepare(`
-          SELECT s.id, s.action, s.ext, p.id as profile_exists
-          FROM selfies s
-          INNER JOIN profiles p ON s.profile_id = p.id
-          WHERE s.id = ? AND p.id = ? AND LOWER(s.action) = '4k'
-        `).bind(selfieId, body.profile_id).first<{ id: string; action: string | null; ext: string; profile_exists: string }>();
-        
-        if (!validation) {
-          const debugEnabled = isDebugEnabled(env);
-          // Check if profile exists separately to provide better error message
-          const profileCheck = await DB.prepare('SELECT id FROM profiles WHERE id = ?').bind(body.profile_id).first();
-          if (!profileCheck) {
-            return errorResponse('Profile not found', 404, debugEnabled ? { profileId: body.profile_id, path } : undefined, request, env);
-          }
-          // Profile exists but selfie validation failed
-          const selfieCheck = await DB.prepare('SELECT id, action FROM selfies WHERE id = ?').bind(selfieId).first<{ id: string; action: string | null }>();
-          if (!selfieCheck) {
-            return errorResponse('Selfie not found', 404, debugEnabled ? { selfieId, profileId: body.profile_id, path } : undefined, request, env);
-          }
-          const selfieAction = selfieCheck.action?.toLowerCase();
-          return errorResponse('Only selfies with action="4k" or "4K" can be used for 4K upscaling', 400, debugEnabled ? { selfieId, selfieAction, path } : undefined, request, env);
-        }
+    if (hasPresetId) {
+      queries.push(
+        DB.prepare('SELECT id, ext, is_premium, credit_surcharge FROM presets WHERE id = ?').bind(body.preset_image_id).first()
+      );
+    }
 
-        const envError = validateEnv(env, 'vertex');
-        if (envError) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 500, debugEnabled ? { error: envError, path } : undefined, request, env);
-        }
+    if (hasSelfieIds && body.selfie_ids) {
+      // Use JOIN to validate selfies belong to profile and include action/dimensions for validation
+      for (const selfieId of body.selfie_ids) {
+        queries.push(
+          DB.prepare(`
+            SELECT s.id, s.ext, s.action, s.dimensions, p.id as profile_exists
+            FROM selfies s
+            INNER JOIN profiles p ON s.profile_id = p.id
+            WHERE s.id = ? AND p.id = ?
+          `).bind(selfieId, body.profile_id).first()
+        );
+      }
+    }
 
-        // Credit deduction (after validation, before processing)
-        creditResult = await deductCredits(DB, body.profile_id, 'upscaler4k', env, request);
-        if (!creditResult.success) {
-          return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
-        }
+    // Execute all queries in parallel
+    let results: any[];
+    try {
+      results = await Promise.all(queries);
+    } catch (dbError) {
+      // Database errors could be client errors (invalid ID format) or server errors
+      const errorMsg = dbError instanceof Error ? dbError.message : String(dbError);
+      const errorLower = errorMsg.toLowerCase();
+
+      // Check if it's a client error (invalid input format, type mismatch, etc.)
+      const isClientError = errorLower.includes('datatype mismatch') ||
+                           errorLower.includes('sqlite_mismatch') ||
+                           errorLower.includes('invalid') ||
+                           errorLower.includes('syntax error') ||
+                           errorLower.includes('no such column');
+
+      logCriticalError('/faceswap', dbError, request, env, {
+        body: {
+          preset_image_id: body?.preset_image_id,
+          profile_id: body?.profile_id,
+          selfie_ids: body?.selfie_ids
+        },
+        dbErrorType: isClientError ? 'client_error' : 'server_error',
+        errorMessage: errorMsg
+      });
+
+      const status = isClientError ? 400 : 500;
+      return errorResponse('', status, { 
+        error: `Database query failed: ${errorMsg}`, 
+        path,
+        dbErrorType: isClientError ? 'client_error' : 'server_error',
+        stack: dbError instanceof Error ? dbError.stack?.substring(0, 1000) : undefined
+      }, request, env);
+    }
 
-        const upscalerResult = await callUpscaler4k(body.image_url, env);
+    const profileCheck = results[0];
+    if (!profileCheck) {
+      return errorResponse('Profile not found', 404, undefined, request, env);
+    }
 
-        if (!upscalerResult.Success || !upscalerResult.ResultImageUrl) {
-          if (body?.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'upscaler4k', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
-          }
-          const failureCode = upscalerResult.StatusCode || 500;
-          const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-          const debugEnabled = isDebugEnabled(env);
-          const flatDebug = debugEnabled ? buildFlatDebug(upscalerResult) : undefined;
-          const debugPayload = debugEnabled ? compact({
-            ...flatDebug,
-          }) : undefined;
+    let targetUrl: string = '';
+    let presetName: string = '';
+    let presetImageId: string | null = null;
+    let presetResult: any = null;
 
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: failureCode,
-            ...(debugPayload ? { debug: debugPayload } : {}),
-          }, httpStatus, request, env);
-        }
+    if (hasPresetId) {
+      presetResult = results[1];
+      if (!presetResult) {
+        return errorResponse('Preset image not found', 404, undefined, request, env);
+      }
 
-        let resultUrl = upscalerResult.ResultImageUrl;
-        if (upscalerResult.ResultImageUrl?.startsWith('r2://')) {
-          const r2Key = upscalerResult.ResultImageUrl.replace('r2://', '');
-          const requestUrl = new URL(request.url);
-          resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-        }
+      // Check if a specific format is requested for thumbnails
+      const requestedFormat = body.format ? body.format.trim().toLowerCase() : null;
+      let useThumbnailUrl = false;
 
-        const savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'upscaler4k', request);
+      if (requestedFormat && (requestedFormat === 'lottie' || requestedFormat === 'avif')) {
+        // For Lottie or AVIF formats, try to use the 4x thumbnail if available
+        const thumbnailKey = requestedFormat === 'lottie' ? 'thumbnail_url_4x_lottie' : 'thumbnail_url_4x_lottie_avif';
 
-        const debugEnabled = isDebugEnabled(env);
-        const flatDebug = debugEnabled ? buildFlatDebug(upscalerResult) : undefined;
-        const debugPayload = debugEnabled ? compact({
-          ...flatDebug,
-        }) : undefined;
+        // Query for thumbnail data
+        const thumbnailQuery = await DB.prepare(`
+          SELECT thumbnail_data FROM presets WHERE id = ?
+        `).bind(body.preset_image_id).first();
 
-        if (body.profile_id) {
-          ctx.waitUntil(sendResultNotification(env, body.profile_id, 'upscaler4k', { success: true, resultId: savedResultId !== null ? String(savedResultId) : undefined }));
-        }
-        return jsonResponse({
-          data: {
-            id: savedResultId !== null ? String(savedResultId) : null,
-            resultImageUrl: resultUrl,
-          },
-          status: 'success',
-          message: upscalerResult.Message || 'Upscaling completed',
-          code: 200,
-          ...(debugPayload ? { debug: debugPayload } : {}),
-        });
-      } catch (error) {
-        if (body?.profile_id && creditResult?.cost > 0) {
-          await refundCredits(DB, body.profile_id, 'upscaler4k', creditResult.fromSub, creditResult.fromConsumable, 'Processing error', request);
-        }
-        logCriticalError('/upscaler4k', error, request, env, {
-          body: {
-            image_url: body?.image_url,
-            profile_id: body?.profile_id
+        if (thumbnailQuery && thumbnailQuery.thumbnail_data && typeof thumbnailQuery.thumbnail_data === 'string') {
+          try {
+            const thumbnailData = JSON.parse(thumbnailQuery.thumbnail_data);
+            const thumbnailR2Key = thumbnailData[thumbnailKey];
+            if (thumbnailR2Key && typeof thumbnailR2Key === 'string') {
+              targetUrl = getR2PublicUrl(env, thumbnailR2Key, requestUrl.origin);
+              useThumbnailUrl = true;
+            }
+          } catch (parseError) {
+            console.warn('[Faceswap] Failed to parse thumbnail data for format selection:', parseError);
           }
-        });
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
+        }
+      }
+
+      // Fallback to original preset image if thumbnail not found or no format specified
+      if (!useThumbnailUrl) {
+        const storedKey = reconstructR2Key((presetResult as any).id, (presetResult as any).ext, 'preset');
+        targetUrl = getR2PublicUrl(env, storedKey, requestUrl.origin);
+      }
+
+      presetName = 'Unnamed Preset';
+      presetImageId = body.preset_image_id || null;
+    } else if (hasPresetUrl) {
+      targetUrl = body.preset_image_url!;
+      presetName = 'Result Preset';
+      // The URL of one of our preset images counts as that preset (pricing, stored prompt, usage); it is sent as is
+      presetResult = await findPresetByImageUrl(DB, targetUrl);
+      if (presetResult === null) {
+        return errorResponse('Preset image not found', 404, debugEnabled ? { url: targetUrl, path } : undefined, request, env);
       }
+      presetImageId = presetResult?.id ?? null;
+    } else {
+      // This should never happen due to earlier validation, but TypeScript needs this
+      const errorMsg = 'Invalid request: missing both preset_image_id and preset_image_url';
+      return errorResponse('Missing required field: preset_image_id or preset_image_url', 400, debugEnabled ? { error: errorMsg, path, hasPresetId, hasPresetUrl } : { error: errorMsg }, request, env);
     }
 
-    // Handle enhance endpoint
-    if (path === '/enhance' && request.method === 'POST') {
-      let body: { image_id?: string; image_url?: string; selfie_id?: string; selfie_image_url?: string; profile_id?: string; aspect_ratio?: string; model?: string | number; provider?: 'vertex' | 'wavespeed' } | undefined;
-      let creditResult: any = null;
-      try {
-        body = await request.json() as { image_id?: string; image_url?: string; selfie_id?: string; selfie_image_url?: string; profile_id?: string; aspect_ratio?: string; model?: string | number; provider?: 'vertex' | 'wavespeed' };
+    // Extract selfie results and validate action match if specified
+    const selfieUrls: string[] = [];
+    const selfieIds: string[] = [];
+    const selfieActions: string[] = [];
+    const selfieDimensions: (string | null)[] = [];
+    const selfieStartIndex = hasPresetId ? 2 : 1;
 
-        // Accept image_id/image_url as aliases for selfie_id/selfie_image_url
-        if (body.image_id && !body.selfie_id) body.selfie_id = body.image_id;
-        if (body.image_url && !body.selfie_image_url) body.selfie_image_url = body.image_url;
+    // Get requested action for validation (if provided)
+    const requestedAction = body.action ? body.action.trim().toLowerCase() : null;
 
-        const hasSelfieId = body.selfie_id && body.selfie_id.trim() !== '';
-        const hasSelfieUrl = body.selfie_image_url && body.selfie_image_url.trim() !== '';
-        
-        if (!hasSelfieId && !hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: selfie_id or selfie_image_url (or image_url)', 400, debugEnabled ? { path } : undefined, request, env);
+    if (hasSelfieIds && body.selfie_ids) {
+      for (let i = 0; i < body.selfie_ids.length; i++) {
+        const selfieResult = results[selfieStartIndex + i];
+        if (!selfieResult) {
+          return errorResponse(`Selfie with ID ${body.selfie_ids[i]} not found or does not belong to profile`, 404, debugEnabled ? { selfieId: body.selfie_ids[i], profileId: body.profile_id, path } : undefined, request, env);
         }
 
-        if (hasSelfieId && hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Cannot provide both selfie_id and selfie_image_url/image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+        // Validate action match if action is specified in request
+        const selfieActionRaw = (selfieResult as any).action ? String((selfieResult as any).action) : null;
+        const selfieAction = selfieActionRaw ? selfieActionRaw.toLowerCase() : null;
+        if (requestedAction) {
+          // Support both '4k' and '4K' for backward compatibility
+          if (requestedAction === '4k') {
+            if (selfieAction !== '4k') {
+              const errorMsg = `Selfie with ID ${body.selfie_ids[i]} has action "${selfieActionRaw || 'null'}" but request requires action "4k"`;
+              return errorResponse(
+                errorMsg,
+                400,
+                { error: errorMsg, selfieId: body.selfie_ids[i], selfieAction: selfieActionRaw, requestedAction, path },
+                request,
+                env
+              );
+            }
+          } else if (selfieAction !== requestedAction) {
+            const errorMsg = `Selfie with ID ${body.selfie_ids[i]} has action "${selfieActionRaw || 'null'}" but request requires action "${requestedAction}"`;
+            return errorResponse(
+              errorMsg,
+              400,
+              { error: errorMsg, selfieId: body.selfie_ids[i], selfieAction: selfieActionRaw, requestedAction, path },
+              request,
+              env
+            );
+          }
+        }
+
+        const storedKey = reconstructR2Key((selfieResult as any).id, (selfieResult as any).ext, 'selfie');
+        const fullUrl = getR2PublicUrl(env, storedKey, requestUrl.origin);
+        selfieUrls.push(fullUrl);
+        selfieIds.push(body.selfie_ids[i]);
+        selfieActions.push(selfieActionRaw || 'faceswap'); // Use raw value from DB, default to faceswap if null
+        // Extract dimensions from database (format: "widthxheight", e.g., "128x340")
+        const selfieDimensionsRaw = (selfieResult as any).dimensions ? String((selfieResult as any).dimensions) : null;
+        selfieDimensions.push(selfieDimensionsRaw);
+      }
+    } else if (hasSelfieUrls) {
+      selfieUrls.push(...body.selfie_image_urls!);
+      // For URL-based selfies, action and dimensions are unknown
+      for (let i = 0; i < body.selfie_image_urls!.length; i++) {
+        selfieActions.push(requestedAction || 'faceswap');
+        selfieDimensions.push(null); // No dimensions available for URL-based selfies
+      }
+    }
+
+    // Support multiple selfies for wedding faceswap (e.g., bride and groom)
+    if (selfieUrls.length === 0) {
+      const errorMsg = 'No valid selfie images found. Both selfie_ids and selfie_image_urls are empty or invalid.';
+      return errorResponse('No valid selfie images found', 400, debugEnabled ? { error: errorMsg, hasSelfieIds, hasSelfieUrls, selfieIdsCount: body.selfie_ids?.length || 0, selfieUrlsCount: body.selfie_image_urls?.length || 0, path } : { error: errorMsg }, request, env);
+    }
 
-        if (!body.profile_id) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    const requestDebug = compact({
+      targetUrl: targetUrl,
+      sourceUrls: selfieUrls,
+      presetImageId: presetImageId,
+      presetImageUrl: hasPresetUrl ? body.preset_image_url : undefined,
+      presetName: presetName,
+      selfieIds: selfieIds,
+      selfieDimensions: selfieDimensions,
+      requestedAspectRatio: body.aspect_ratio,
+      additionalPrompt: body.additional_prompt,
+    });
 
-        const profileCheck = await DB.prepare(
-          'SELECT id FROM profiles WHERE id = ?'
-        ).bind(body.profile_id).first();
 
-        if (!profileCheck) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Profile not found', 404, debugEnabled ? { profileId: body.profile_id, path } : undefined, request, env);
-        }
+    let promptResult: any = null;
+    let storedPromptPayload: any = null;
+    const promptCacheKV = getPromptCacheKV(env);
 
-        // Resolve selfie image URL
-        let imageUrl: string = '';
-        let selfieResult: any = null;
+    if (presetImageId) {
+      promptResult = presetResult;
 
-        if (hasSelfieId) {
-          selfieResult = await DB.prepare(`
-            SELECT s.id, s.ext, p.id as profile_exists
-            FROM selfies s
-            INNER JOIN profiles p ON s.profile_id = p.id
-            WHERE s.id = ? AND p.id = ?
-          `).bind(body.selfie_id, body.profile_id).first();
-
-          if (!selfieResult) {
-            // Selfie not found - check for cached result (selfie may have been auto-deleted)
-            const cachedResult = await getCachedResultFromKV(env, body.selfie_id!, null, 'enhance');
-            if (cachedResult) {
-              return jsonResponse({
-                data: { resultImageUrl: cachedResult, cached: true },
-                status: 'success',
-                message: 'Cached result returned (selfie was auto-deleted after previous processing)',
-                code: 200,
-              });
-            }
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Selfie not found or does not belong to profile', 404, debugEnabled ? { selfieId: body.selfie_id, profileId: body.profile_id, path } : undefined, request, env);
-          }
+      if (promptResult && !storedPromptPayload) {
+        const cacheKey = `prompt:${presetImageId}`;
 
-          const selfieR2Key = reconstructR2Key((selfieResult as any).id, (selfieResult as any).ext, 'selfie');
-          imageUrl = getR2PublicUrl(env, selfieR2Key, requestUrl.origin);
-        } else {
-          imageUrl = body.selfie_image_url || body.image_url!;
-          if (!validateImageUrl(imageUrl, env)) {
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Invalid image URL', 400, debugEnabled ? { path } : undefined, request, env);
+        if (promptCacheKV) {
+          try {
+            const cached = await promptCacheKV.get(cacheKey, 'json');
+            if (cached) storedPromptPayload = cached;
+          } catch (error) {
+            // KV cache read failed, fallback to R2
           }
         }
 
-        // Safety pre-check with Gemini 2.5 Flash Lite before processing
-        const safetyCheck = await checkImageSafetyWithFlashLite(imageUrl, env);
-        if (!safetyCheck.safe) {
-          console.log('[Enhance] Safety check failed:', safetyCheck.reason || safetyCheck.error);
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse(
-            safetyCheck.reason || 'Image failed safety check',
-            400,
-            debugEnabled ? {
-              path,
-              safetyCheck: {
-                safe: false,
-                reason: safetyCheck.reason,
-                category: safetyCheck.category,
-                error: safetyCheck.error
+        if (!storedPromptPayload) {
+          const r2Key = reconstructR2Key((promptResult as any).id, (promptResult as any).ext, 'preset');
+          try {
+            const r2Object = await getCachedAsync(`r2head:${r2Key}`, async () =>
+              await R2_BUCKET.head(r2Key)
+            );
+            const promptJson = r2Object?.customMetadata?.prompt_json;
+            if (promptJson?.trim()) {
+              storedPromptPayload = JSON.parse(promptJson);
+              if (promptCacheKV) {
+                promptCacheKV.put(cacheKey, promptJson, { expirationTtl: CACHE_CONFIG.PROMPT_CACHE_TTL }).catch(() => {});
               }
-            } : undefined,
-            request,
-            env
-          );
+            }
+          } catch (error) {
+            // R2 metadata read failed, continue without cache
+          }
         }
+      }
+    }
 
-        const modelParam = body.model;
-
-        const envError = validateEnv(env, 'wavespeed');
-        if (envError) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 500, debugEnabled ? { error: envError, path } : undefined, request, env);
-        }
+    if (!storedPromptPayload) {
+      const presetImageUrl = promptResult ? getR2PublicUrl(env, reconstructR2Key((promptResult as any).id, (promptResult as any).ext, 'preset'), requestUrl.origin) : targetUrl;
 
-        const validAspectRatio = await resolveAspectRatio(body.aspect_ratio, imageUrl, env, { allowOriginal: true });
+      const generateResult = await generateVertexPrompt(presetImageUrl, env);
+      if (generateResult.success && generateResult.prompt) {
+        storedPromptPayload = generateResult.prompt;
+        if (presetImageId && promptResult) {
+          const promptJsonString = JSON.stringify(storedPromptPayload);
+          const cacheKey = `prompt:${presetImageId}`;
 
-        // Always get image dimensions for enhance (needed for provider routing + size calc)
-        const { getImageDimensionsExtended } = await import('./utils');
-        const imageDimensionsExtended = await getImageDimensionsExtended(imageUrl, env);
+          if (promptCacheKV) {
+            promptCacheKV.put(cacheKey, promptJsonString, { expirationTtl: CACHE_CONFIG.PROMPT_CACHE_TTL }).catch(() => {});
+          }
 
-        // Calculate optimal output size at max 1536px for best quality
-        const userExplicitlySetAspectRatio = body.aspect_ratio && body.aspect_ratio.trim() !== '' && body.aspect_ratio.toLowerCase() !== 'original';
-        let sizeForProvider: string | undefined;
-        if (!userExplicitlySetAspectRatio && imageDimensionsExtended) {
+          const r2Key = reconstructR2Key((promptResult as any).id, (promptResult as any).ext, 'preset');
+          try {
+            const existingObject = await getCachedAsync(`r2head:${r2Key}`, async () =>
+              await R2_BUCKET.head(r2Key)
+            );
+            if (existingObject) {
+              const objectBody = await R2_BUCKET.get(r2Key);
+              if (objectBody) {
+                await R2_BUCKET.put(r2Key, objectBody.body, {
+                  httpMetadata: existingObject.httpMetadata,
+                  customMetadata: { ...existingObject.customMetadata, prompt_json: promptJsonString }
+                });
+              }
+            }
+          } catch (error) {
+            console.error(`[R2 Metadata] Write failed for preset ${presetImageId}:`, error);
+          }
+        }
+      } else {
+        const errorMsg = generateResult.error || 'Failed to generate Vertex AI prompt from preset image';
+        return errorResponse('Failed to generate prompt from preset image', 400, { 
+          error: errorMsg, 
+          path,
+          presetImageId: presetImageId || null,
+          presetImageUrl: presetImageUrl || null
+        }, request, env);
+      }
+    }
+    // Resolve aspect ratio (faceswap doesn't support "original")
+    const validAspectRatio = await resolveAspectRatio(body.aspect_ratio, null, env, { allowOriginal: false });
+    const modelParam = body.model;
+
+    // Determine if user explicitly specified aspect_ratio
+    // If aspect_ratio is explicitly set, use it (don't pass selfie dimensions as size)
+    // If not specified or "original", scale to max 1536px for best quality
+    const userExplicitlySetAspectRatio = body.aspect_ratio && body.aspect_ratio.trim() !== '' && body.aspect_ratio.toLowerCase() !== 'original';
+    let sizeForProvider: string | undefined;
+    if (!userExplicitlySetAspectRatio && selfieDimensions.length > 0) {
+      const firstDims = selfieDimensions[0];
+      if (firstDims) {
+        const match = firstDims.match(/^(\d+)x(\d+)$/);
+        if (match) {
           const { calculateOptimalSize } = await import('./utils');
-          const optimal = calculateOptimalSize(imageDimensionsExtended.width, imageDimensionsExtended.height, 1536, 256);
+          const optimal = calculateOptimalSize(parseInt(match[1]), parseInt(match[2]), 1536, 256);
           sizeForProvider = optimal.sizeString;
         }
+      }
+    }
 
-        // Credit deduction (after validation, before processing)
-        creditResult = await deductCredits(DB, body.profile_id, 'enhance', env, request);
-        if (!creditResult.success) {
-          return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
-        }
+    if (imageProvider.name === 'wavespeed_gemini_2_5_flash_image' && !storedPromptPayload) {
+      return errorResponse('Prompt JSON not found in preset image metadata', 400, debugEnabled ? { error: 'Preset must have prompt_json metadata for Gemini image edit (faceswap)', path } : undefined, request, env);
+    }
 
-        // Always use Flux Klein v3 for enhance
-        const enhancedResult = await callWaveSpeedEdit(
-          [imageUrl], typeof IMAGE_PROCESSING_PROMPTS.ENHANCE === 'string' ? IMAGE_PROCESSING_PROMPTS.ENHANCE : JSON.stringify(IMAGE_PROCESSING_PROMPTS.ENHANCE),
-          env, validAspectRatio, sizeForProvider, API_ENDPOINTS.WAVESPEED_FLUX_KLEIN_EDIT_V3
-        );
+    // Credit deduction (after validation, before processing)
+    creditResult = await holdCredits(DB, body.profile_id, 'faceswap', env, request, 1, {}, presetResult ? getPresetPricing([presetResult]) : null);
+    if (!creditResult.success) {
+      return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
+    }
 
-        if (!enhancedResult.Success || !enhancedResult.ResultImageUrl) {
-          if (body?.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'enhance', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
-          }
-          const failureCode = enhancedResult.StatusCode || 500;
-          const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-          const debugEnabled = isDebugEnabled(env);
-          const flatDebug = debugEnabled ? buildFlatDebug(enhancedResult) : undefined;
-          const debugPayload = debugEnabled ? compact({
-            ...flatDebug,
-          }) : undefined;
+    let vertexPromptPayload: any;
+    const faceSwapInput: FaceSwapInput = {
+      selfieUrls, targetUrl, promptPayload: storedPromptPayload, additionalPrompt: body.additional_prompt, aspectRatio: validAspectRatio, model: modelParam, size: sizeForProvider,
+    };
+    const buildProviderRequest = (provider: ImageProvider): ImageProviderRequest | null => {
+      const providerRequest = buildFaceSwapRequest(provider, faceSwapInput);
+      if (providerRequest) vertexPromptPayload = providerRequest.prompt;
+      return providerRequest;
+    };
 
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: failureCode,
-            ...(debugPayload ? { debug: debugPayload } : {}),
-          }, httpStatus);
-        }
+    const { result: faceSwapResult, provider: usedProvider, attempts: providerAttempts } = await runImageProviderChain(providerChain, env, buildProviderRequest);
+    const usedModel = resolveUsageModel(usedProvider.name, modelParam);
+    if (presetImageId) {
+      ctx.waitUntil(recordPresetUsage(DB, { preset_id: presetImageId, action: 'faceswap', profile_id: body.profile_id, provider: usedProvider.name, model: usedModel, outcome: getPresetUsageOutcome(faceSwapResult) }));
+    }
 
-        let resultUrl = enhancedResult.ResultImageUrl;
-        if (enhancedResult.ResultImageUrl?.startsWith('r2://')) {
-          const r2Key = enhancedResult.ResultImageUrl.replace('r2://', '');
-          const requestUrl = new URL(request.url);
-          resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
+      if (!faceSwapResult.Success || !faceSwapResult.ResultImageUrl) {
+        if (body?.profile_id) {
+          await releaseCreditCheck(DB, body.profile_id, 'faceswap', creditResult, 'Processing failed', request);
         }
+        console.error(`[Faceswap] ${usedProvider.name} provider failed:`, faceSwapResult.Message || 'Unknown error');
 
-        const savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'enhance', request);
+        const failureCode = faceSwapResult.StatusCode || 500;
+        const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
+        const flatDebug = debugEnabled ? buildFlatDebug(faceSwapResult, vertexPromptPayload) : undefined;
+        const debugPayload = debugEnabled ? compact({
+          ...flatDebug,
+          providerAttempts,
+        }) : undefined;
 
-        // Cache result in KV for retry handling (before selfie deletion)
-        if (hasSelfieId && body.selfie_id) {
-          ctx.waitUntil(cacheResultInKV(env, body.selfie_id, null, 'enhance', resultUrl));
-        }
+        return jsonResponse({
+          data: null,
+          status: 'error',
+          message: '',
+          code: failureCode,
+          ...(debugPayload ? { debug: debugPayload } : {}),
+        }, httpStatus);
+      }
 
-        // Auto-delete selfie after processing (non-FaceSwap API)
-        if (hasSelfieId && selfieResult) {
-          const selfieId = (selfieResult as any).id;
-          const selfieExt = (selfieResult as any).ext;
-          ctx.waitUntil(deleteSelfieAfterProcessing(selfieId, selfieExt, env, DB, R2_BUCKET, requestUrl.origin));
-        }
+      if (faceSwapResult.ResultImageUrl?.startsWith('r2://')) {
+        const r2Key = faceSwapResult.ResultImageUrl.replace('r2://', '');
+        faceSwapResult.ResultImageUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
+      }
 
-        const debugEnabled = isDebugEnabled(env);
-        const aspectRatioDebug = debugEnabled ? {
-          requested: body.aspect_ratio || 'undefined',
-          resolved: validAspectRatio,
-          imageUrl: imageUrl,
-          imageDimensions: imageDimensionsExtended ? {
-            width: imageDimensionsExtended.width,
-            height: imageDimensionsExtended.height,
-            rawWidth: imageDimensionsExtended.rawWidth,
-            rawHeight: imageDimensionsExtended.rawHeight,
-            exifOrientation: imageDimensionsExtended.orientation,
-            rotated90: imageDimensionsExtended.rotated,
-            calculatedRatio: (imageDimensionsExtended.width / imageDimensionsExtended.height).toFixed(4),
-            orientation: imageDimensionsExtended.width > imageDimensionsExtended.height ? 'landscape' : imageDimensionsExtended.width < imageDimensionsExtended.height ? 'portrait' : 'square',
-          } : null,
-        } : undefined;
-
-        const flatDebug = debugEnabled ? buildFlatDebug(enhancedResult) : undefined;
-        return jsonResponse({
-          data: {
-            id: savedResultId !== null ? String(savedResultId) : null,
-            resultImageUrl: resultUrl,
-          },
-          status: 'success',
-          message: enhancedResult.Message || 'Image enhancement completed',
-          code: 200,
-          ...(debugEnabled ? { debug: compact({
-            ...flatDebug,
-            aspectRatio: aspectRatioDebug,
-          }) } : {}),
-        });
-      } catch (error) {
-        if (body?.profile_id && creditResult?.cost > 0) {
-          await refundCredits(DB, body.profile_id, 'enhance', creditResult.fromSub, creditResult.fromConsumable, 'Processing error', request);
-        }
-        logCriticalError('/enhance', error, request, env, {
-          body: {
-            image_url: body?.image_url,
-            profile_id: body?.profile_id,
-            aspect_ratio: body?.aspect_ratio
-          }
-        });
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
+    if (!faceSwapResult.Success || !faceSwapResult.ResultImageUrl) {
+      if (body?.profile_id) {
+        await releaseCreditCheck(DB, body.profile_id, 'faceswap', creditResult, 'Processing failed', request);
       }
-    }
+      const failureCode = faceSwapResult.StatusCode || 500;
+      const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
+      const flatDebug = debugEnabled ? buildFlatDebug(faceSwapResult, vertexPromptPayload) : undefined;
+      const debugPayload = debugEnabled ? compact({
+        ...flatDebug,
+      }) : undefined;
 
-    // Handle beauty endpoint
-    if (path === '/beauty' && request.method === 'POST') {
-      let body: { image_id?: string; image_url?: string; selfie_id?: string; selfie_image_url?: string; profile_id?: string; aspect_ratio?: string; model?: string | number; provider?: 'vertex' | 'wavespeed' } | undefined;
-      let creditResult: any = null;
-      try {
-        body = await request.json() as { image_id?: string; image_url?: string; selfie_id?: string; selfie_image_url?: string; profile_id?: string; aspect_ratio?: string; model?: string | number; provider?: 'vertex' | 'wavespeed' };
+      return jsonResponse({
+        data: null,
+        status: 'error',
+        message: '',
+        code: failureCode,
+        ...(debugPayload ? { debug: debugPayload } : {}),
+      }, httpStatus);
+    }
 
-        // Accept image_id/image_url as aliases for selfie_id/selfie_image_url
-        if (body.image_id && !body.selfie_id) body.selfie_id = body.image_id;
-        if (body.image_url && !body.selfie_image_url) body.selfie_image_url = body.image_url;
+    // Vision API scanning on result images is disabled - only used for 4k action on selfie uploads
+    const safetyDebug: SafetyCheckDebug = {
+      checked: false,
+      isSafe: true,
+      error: 'Safety check skipped for Vertex AI mode',
+    };
 
-        const hasSelfieId = body.selfie_id && body.selfie_id.trim() !== '';
-        const hasSelfieUrl = body.selfie_image_url && body.selfie_image_url.trim() !== '';
-        
-        if (!hasSelfieId && !hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: selfie_id or selfie_image_url (or image_url)', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    const storageDebug: {
+      attemptedDownload: boolean;
+      downloadStatus: number | null;
+      savedToR2: boolean;
+      r2Key: string | null;
+      publicUrl: string | null;
+      error: string | null;
+    } = {
+      attemptedDownload: false,
+      downloadStatus: null,
+      savedToR2: false,
+      r2Key: null,
+      publicUrl: null,
+      error: null,
+    };
 
-        if (hasSelfieId && hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Cannot provide both selfie_id and selfie_image_url/image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    let resultUrl = faceSwapResult.ResultImageUrl;
+
+    if (resultUrl?.startsWith('r2://')) {
+      const r2Key = resultUrl.replace('r2://', '');
+      resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
+      storageDebug.attemptedDownload = false;
+      storageDebug.savedToR2 = true;
+      storageDebug.r2Key = r2Key;
+      storageDebug.publicUrl = resultUrl;
+    } else if (resultUrl?.startsWith('http')) {
+      // External URL (WaveSpeed cloudfront, etc.) - use directly without R2 upload
+      storageDebug.attemptedDownload = false;
+      storageDebug.savedToR2 = false;
+      storageDebug.publicUrl = resultUrl;
+    }
 
-        if (!body.profile_id) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    const databaseDebug: {
+      attempted: boolean;
+      success: boolean;
+      resultId: string | null;
+      error: string | null;
+      lookupError: string | null;
+    } = {
+      attempted: false,
+      success: false,
+      resultId: null,
+      error: null,
+      lookupError: null,
+    };
 
-        const profileCheck = await DB.prepare(
-          'SELECT id FROM profiles WHERE id = ?'
-        ).bind(body.profile_id).first();
+    let savedResultId: string | null = null;
+    if (body.profile_id) {
+      databaseDebug.attempted = true;
+      try {
+        savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'faceswap', request, usedProvider.name, presetImageId, usedModel);
 
-        if (!profileCheck) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Profile not found', 404, debugEnabled ? { profileId: body.profile_id, path } : undefined, request, env);
+        if (savedResultId !== null) {
+          databaseDebug.success = true;
+          databaseDebug.resultId = String(savedResultId);
+          databaseDebug.error = null;
+        } else {
+          databaseDebug.error = 'Database insert failed';
         }
+      } catch (dbError) {
+        databaseDebug.error = dbError instanceof Error ? dbError.message : String(dbError);
+      }
+    }
+    await captureCreditHold(DB, creditResult?.holdId, savedResultId);
+
+    const flatDebug = debugEnabled ? buildFlatDebug(faceSwapResult, vertexPromptPayload) : undefined;
+    const visionDebug = debugEnabled ? buildVisionDebug(safetyDebug) : undefined;
+    const storageDebugPayload = debugEnabled ? compact(storageDebug as unknown as Record<string, any>) : undefined;
+    const databaseDebugPayload = debugEnabled ? compact(databaseDebug as unknown as Record<string, any>) : undefined;
+    const debugPayload = debugEnabled ? compact({
+      ...flatDebug,
+      vision: visionDebug,
+      storage: Object.keys(storageDebugPayload || {}).length ? storageDebugPayload : undefined,
+      database: Object.keys(databaseDebugPayload || {}).length ? databaseDebugPayload : undefined,
+    }) : undefined;
+
+    if (body.profile_id) {
+      ctx.waitUntil(sendResultNotification(env, body.profile_id, 'faceswap', { success: true, resultId: savedResultId !== null ? String(savedResultId) : undefined }));
+    }
+    return jsonResponse({
+      data: {
+        id: savedResultId !== null ? String(savedResultId) : null,
+        resultImageUrl: resultUrl,
+        selfies: hasSelfieIds && selfieIds.length > 0 ? selfieIds.map((id, idx) => ({
+          id,
+          action: selfieActions[idx] || null,
+          url: selfieUrls[idx] || null,
+        })) : undefined,
+      },
+      status: 'success',
+      message: faceSwapResult.Message || 'Processing successful',
+      code: 200,
+      ...(debugPayload ? { debug: debugPayload } : {}),
+    });
+  } catch (error) {
+    // Refund credits on failure
+    if (body?.profile_id) {
+      await releaseCreditCheck(DB, body.profile_id, 'faceswap', creditResult, 'Processing error', request);
+    }
+    logCriticalError('/faceswap', error, request, env, {
+      body: {
+        preset_image_id: body?.preset_image_id,
+        profile_id: body?.profile_id,
+        selfie_ids: body?.selfie_ids,
+        has_preset_id: !!body?.preset_image_id,
+        has_selfie_ids: Array.isArray(body?.selfie_ids)
+      }
+    });
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return errorResponse('', 500, {
+      error: errorMsg,
+      path,
+      ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {})
+    }, request, env);
+  }
+};
 
-        // Resolve selfie image URL
-        let imageUrl: string = '';
-        let selfieResult: any = null;
+// POST /faceswap/batch - Swap one selfie set into many presets. Credits for the whole batch are reserved up
+// front and only failed items are refunded. Items are saved as they finish so GET /faceswap/batch/:id can
+// report progress (async mode: batch id = job id).
+const handleFaceswapBatch = async ({ request, env, ctx, DB, R2_BUCKET, requestUrl, path, jobId }: RouteContext): Promise<Response> => {
+  const debugEnabled = isDebugEnabled(env);
+  let body: FaceSwapBatchRequest | undefined;
+  let creditResult: any = null;
+  let batchId: string | null = null;
+  try {
+    body = await request.json() as FaceSwapBatchRequest;
+    const profileId = body.profile_id;
+    // The same preset twice would charge twice for the same result
+    const presetIds = [...new Set(body.preset_image_ids)];
+
+    const providerChain = resolveImageProviderChain(body, env, 'FACESWAP');
+    const envError = providerChain[0].configError(env);
+    if (envError) {
+      return errorResponse('', 500, debugEnabled ? { error: envError, path } : undefined, request, env);
+    }
 
-        if (hasSelfieId) {
-          selfieResult = await DB.prepare(`
-            SELECT s.id, s.ext, p.id as profile_exists
-            FROM selfies s
-            INNER JOIN profiles p ON s.profile_id = p.id
-            WHERE s.id = ? AND p.id = ?
-          `).bind(body.selfie_id, body.profile_id).first();
-
-          if (!selfieResult) {
-            // Selfie not found - check for cached result (selfie may have been auto-deleted)
-            const cachedResult = await getCachedResultFromKV(env, body.selfie_id!, null, 'beauty');
-            if (cachedResult) {
-              return jsonResponse({
-                data: { resultImageUrl: cachedResult, cached: true },
-                status: 'success',
-                message: 'Cached result returned (selfie was auto-deleted after previous processing)',
-                code: 200,
-              });
-            }
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Selfie not found or does not belong to profile', 404, debugEnabled ? { selfieId: body.selfie_id, profileId: body.profile_id, path } : undefined, request, env);
-          }
+    // Every item saves a result; more items than the history limit would prune the batch's own results
+    const maxHistory = getResultMaxHistory(env);
+    if (presetIds.length > maxHistory) {
+      return validationErrorResponse([{ field: 'preset_image_ids', code: 'too_many_items', message: `preset_image_ids must contain at most ${maxHistory} item(s)` }], request, env);
+    }
 
-          const selfieR2Key = reconstructR2Key((selfieResult as any).id, (selfieResult as any).ext, 'selfie');
-          imageUrl = getR2PublicUrl(env, selfieR2Key, requestUrl.origin);
-        } else {
-          imageUrl = body.selfie_image_url || body.image_url!;
-          if (!validateImageUrl(imageUrl, env)) {
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Invalid image URL', 400, debugEnabled ? { path } : undefined, request, env);
-          }
-        }
+    const profileCheck = await DB.prepare('SELECT id FROM profiles WHERE id = ?').bind(profileId).first();
+    if (!profileCheck) {
+      return errorResponse('Profile not found', 404, undefined, request, env);
+    }
 
-        const envError = validateEnv(env, 'vertex');
-        if (envError) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 500, debugEnabled ? { error: envError, path } : undefined, request, env);
+    // Selfies are resolved once for the whole batch
+    const selfieUrls: string[] = [];
+    let firstSelfieDimensions: string | null = null;
+    if (Array.isArray(body.selfie_ids) && body.selfie_ids.length > 0) {
+      const selfieRows = await Promise.all(body.selfie_ids.map((selfieId) => DB.prepare(`
+        SELECT s.id, s.ext, s.dimensions
+        FROM selfies s
+        INNER JOIN profiles p ON s.profile_id = p.id
+        WHERE s.id = ? AND p.id = ?
+      `).bind(selfieId, profileId).first()));
+      for (let i = 0; i < selfieRows.length; i++) {
+        const selfieRow = selfieRows[i] as any;
+        if (!selfieRow) {
+          return errorResponse(`Selfie with ID ${body.selfie_ids[i]} not found or does not belong to profile`, 404, debugEnabled ? { selfieId: body.selfie_ids[i], profileId, path } : undefined, request, env);
+        }
+        selfieUrls.push(getR2PublicUrl(env, reconstructR2Key(selfieRow.id, selfieRow.ext, 'selfie'), requestUrl.origin));
+        if (i === 0 && selfieRow.dimensions) firstSelfieDimensions = String(selfieRow.dimensions);
+      }
+    } else {
+      for (const url of body.selfie_image_urls || []) {
+        if (!validateImageUrl(url, env)) {
+          return errorResponse('Invalid selfie image URL', 400, debugEnabled ? { error: `Invalid selfie image URL: ${url}`, path, url } : undefined, request, env);
         }
+        selfieUrls.push(url);
+      }
+    }
 
-        // Safety pre-check with Gemini 2.5 Flash Lite before processing
-        const safetyCheck = await checkImageSafetyWithFlashLite(imageUrl, env);
-        if (!safetyCheck.safe) {
-          console.log('[Beauty] Safety check failed:', safetyCheck.reason || safetyCheck.error);
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse(
-            safetyCheck.reason || 'Image failed safety check',
-            400,
-            debugEnabled ? {
-              path,
-              safetyCheck: {
-                safe: false,
-                reason: safetyCheck.reason,
-                category: safetyCheck.category,
-                error: safetyCheck.error
-              }
-            } : undefined,
-            request,
-            env
-          );
-        }
+    const placeholders = presetIds.map(() => '?').join(',');
+    const presetRows = await DB.prepare(
+      `SELECT id, ext, is_premium, credit_surcharge FROM presets WHERE id IN (${placeholders})`
+    ).bind(...presetIds).all<{ id: string; ext: string; is_premium: number; credit_surcharge: number }>();
+    const presetsById = new Map((presetRows.results || []).map((row) => [row.id, row]));
+    const missingPresetIds = presetIds.filter((presetId) => !presetsById.has(presetId));
+    if (missingPresetIds.length > 0) {
+      return errorResponse('Preset image not found', 404, debugEnabled ? { missingPresetIds, path } : undefined, request, env);
+    }
 
-        const validAspectRatio = await resolveAspectRatio(body.aspect_ratio, imageUrl, env, { allowOriginal: true });
-        const modelParam = body.model;
-        const effectiveProvider = getEffectiveProvider(body, env, 'BEAUTY');
+    // Same output sizing as /faceswap: explicit aspect_ratio wins, otherwise scale the first selfie to max 1536px
+    const validAspectRatio = await resolveAspectRatio(body.aspect_ratio, null, env, { allowOriginal: false });
+    const userExplicitlySetAspectRatio = body.aspect_ratio && body.aspect_ratio.trim() !== '' && body.aspect_ratio.toLowerCase() !== 'original';
+    let sizeForProvider: string | undefined;
+    const dimensionsMatch = !userExplicitlySetAspectRatio && firstSelfieDimensions ? firstSelfieDimensions.match(/^(\d+)x(\d+)$/) : null;
+    if (dimensionsMatch) {
+      const { calculateOptimalSize } = await import('./utils');
+      sizeForProvider = calculateOptimalSize(parseInt(dimensionsMatch[1]), parseInt(dimensionsMatch[2]), 1536, 256).sizeString;
+    }
 
-        const userExplicitlySetAspectRatio = body.aspect_ratio && body.aspect_ratio.trim() !== '' && body.aspect_ratio.toLowerCase() !== 'original';
-        let sizeForProvider: string | undefined;
-        if (!userExplicitlySetAspectRatio) {
-          const { getImageDimensionsExtended, calculateOptimalSize } = await import('./utils');
-          const dims = await getImageDimensionsExtended(imageUrl, env);
-          if (dims) {
-            const optimal = calculateOptimalSize(dims.width, dims.height, 1536, 256);
-            sizeForProvider = optimal.sizeString;
+    // Credit reservation for every item (after validation, before processing)
+    const createdBatchId = jobId || nanoid();
+    const pricing = getPresetPricing([...presetsById.values()]);
+    creditResult = await holdCredits(DB, profileId, 'faceswap', env, request, presetIds.length, { batch_id: createdBatchId }, pricing);
+    if (!creditResult.success) {
+      return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
+    }
+    // Each item costs the action plus its preset's surcharge, so failed items refund exactly what they were charged
+    const baseItemCost = (creditResult.cost - pricing.surcharge) / presetIds.length;
+
+    batchId = createdBatchId;
+    await DB.batch([
+      DB.prepare(
+        'INSERT INTO faceswap_batches (id, profile_id, status, item_count, credits_charged, credits_from_sub, credits_from_consumable, created_at) VALUES (?, ?, \'running\', ?, ?, ?, ?, ?)'
+      ).bind(createdBatchId, profileId, presetIds.length, creditResult.cost, creditResult.fromSub, creditResult.fromConsumable, Math.floor(Date.now() / 1000)),
+      ...presetIds.map((presetId, index) => DB.prepare(
+        'INSERT INTO faceswap_batch_items (batch_id, item_index, preset_id, credits) VALUES (?, ?, ?, ?)'
+      ).bind(createdBatchId, index, presetId, baseItemCost + (presetsById.get(presetId)!.credit_surcharge || 0))),
+    ]);
+
+    const needsPromptJson = providerChain.some((provider) => provider.name === 'vertex' || provider.name === 'wavespeed_gemini_2_5_flash_image');
+    const additionalPrompt = body.additional_prompt;
+    const modelParam = body.model;
+
+    const runItem = async (presetId: string, index: number): Promise<void> => {
+      let status: FaceSwapBatchItemStatus = 'failed';
+      let resultId: string | null = null;
+      let resultUrl: string | null = null;
+      let providerName: string | null = null;
+      let errorCode: number | null = null;
+      try {
+        const preset = presetsById.get(presetId)!;
+        const presetR2Key = reconstructR2Key(preset.id, preset.ext, 'preset');
+        const targetUrl = getR2PublicUrl(env, presetR2Key, requestUrl.origin);
+        let promptPayload = await loadPresetPrompt(env, R2_BUCKET, preset.id, presetR2Key);
+        if (!promptPayload && needsPromptJson) {
+          const generateResult = await generateVertexPrompt(targetUrl, env);
+          if (generateResult.success && generateResult.prompt) {
+            promptPayload = generateResult.prompt;
+            getPromptCacheKV(env)?.put(`prompt:${preset.id}`, JSON.stringify(promptPayload), { expirationTtl: CACHE_CONFIG.PROMPT_CACHE_TTL }).catch(() => {});
           }
         }
 
-        // Credit deduction (after validation, before processing)
-        creditResult = await deductCredits(DB, body.profile_id, 'beauty', env, request);
-        if (!creditResult.success) {
-          return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
+        const faceSwapInput: FaceSwapInput = {
+          selfieUrls, targetUrl, promptPayload, additionalPrompt, aspectRatio: validAspectRatio, model: modelParam, size: sizeForProvider,
+        };
+        const { result, provider } = await runImageProviderChain(providerChain, env, (candidate) => buildFaceSwapRequest(candidate, faceSwapInput));
+        providerName = provider.name;
+        const usedModel = resolveUsageModel(provider.name, modelParam);
+        ctx.waitUntil(recordPresetUsage(DB, { preset_id: preset.id, action: 'faceswap', profile_id: profileId, provider: provider.name, model: usedModel, outcome: getPresetUsageOutcome(result) }));
+        if (result.Success && result.ResultImageUrl) {
+          resultUrl = result.ResultImageUrl.startsWith('r2://')
+            ? getR2PublicUrl(env, result.ResultImageUrl.replace('r2://', ''), requestUrl.origin)
+            : result.ResultImageUrl;
+          resultId = await saveResultToDatabase(DB, resultUrl, profileId, env, R2_BUCKET, 'faceswap', request, providerName, preset.id, usedModel);
+          status = 'succeeded';
+        } else {
+          errorCode = result.StatusCode || 500;
         }
+      } catch (error) {
+        errorCode = 500;
+        console.error(`[FaceswapBatch] Item ${index} (${presetId}) failed:`, error instanceof Error ? error.message : String(error));
+      }
+      await DB.prepare(
+        'UPDATE faceswap_batch_items SET status = ?, result_id = ?, result_url = ?, provider = ?, error_code = ?, completed_at = ? WHERE batch_id = ? AND item_index = ?'
+      ).bind(status, resultId, resultUrl, providerName, errorCode, Math.floor(Date.now() / 1000), createdBatchId, index).run();
+    };
 
-        const beautyResult = await callNanoBanana(
-          IMAGE_PROCESSING_PROMPTS.BEAUTY,
-          imageUrl,
-          imageUrl,
-          env,
-          validAspectRatio,
-          modelParam,
-          { provider: body.provider, size: sizeForProvider }
-        );
-
-        if (!beautyResult.Success || !beautyResult.ResultImageUrl) {
-          if (body?.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'beauty', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
-          }
-          const failureCode = beautyResult.StatusCode || 500;
-          const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-          const debugEnabled = isDebugEnabled(env);
-          const flatDebug = debugEnabled ? buildFlatDebug(beautyResult) : undefined;
-          const debugPayload = debugEnabled ? compact({
-            ...flatDebug,
-          }) : undefined;
+    await promisePoolWithConcurrency(presetIds, runItem, FACESWAP_BATCH_CONFIG.CONCURRENCY);
+    await settleFaceSwapBatch(DB, createdBatchId, request);
 
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: failureCode,
-            ...(debugPayload ? { debug: debugPayload } : {}),
-          }, httpStatus);
-        }
+    const batch = await DB.prepare('SELECT * FROM faceswap_batches WHERE id = ?').bind(createdBatchId).first() as FaceSwapBatch;
+    const items = await DB.prepare('SELECT * FROM faceswap_batch_items WHERE batch_id = ? ORDER BY item_index').bind(createdBatchId).all();
+    const data = formatFaceSwapBatch(batch, (items.results || []) as unknown as FaceSwapBatchItem[]);
 
-        let resultUrl = beautyResult.ResultImageUrl;
-        if (beautyResult.ResultImageUrl?.startsWith('r2://')) {
-          const r2Key = beautyResult.ResultImageUrl.replace('r2://', '');
-          const requestUrl = new URL(request.url);
-          resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-        }
+    ctx.waitUntil(sendResultNotification(env, profileId, 'faceswap', data.succeeded_count > 0
+      ? { success: true }
+      : { success: false, error: 'All batch items failed' }));
 
-        const savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'beauty', request);
+    return jsonResponse({
+      data,
+      status: 'success',
+      message: `Batch completed: ${data.succeeded_count} of ${data.item_count} succeeded`,
+      code: 200,
+    }, 200, request, env);
+  } catch (error) {
+    // Once the batch row exists settling refunds whatever did not succeed, otherwise refund the whole reservation
+    if (batchId) {
+      await settleFaceSwapBatch(DB, batchId, request).catch(() => {});
+    } else if (body?.profile_id) {
+      await releaseCreditCheck(DB, body.profile_id, 'faceswap', creditResult, 'Processing error', request);
+    }
+    logCriticalError('/faceswap/batch', error, request, env, {
+      body: {
+        profile_id: body?.profile_id,
+        preset_image_ids: body?.preset_image_ids,
+        selfie_ids: body?.selfie_ids,
+      }
+    });
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, batchId } : undefined, request, env);
+  }
+};
 
-        // Cache result in KV for retry handling (before selfie deletion)
-        if (hasSelfieId && body.selfie_id) {
-          ctx.waitUntil(cacheResultInKV(env, body.selfie_id, null, 'beauty', resultUrl));
-        }
+// GET /faceswap/batch/:id - Batch progress with per-item results
+const handleGetFaceswapBatch = async ({ request, env, DB, params }: RouteContext): Promise<Response> => {
+  const batchId = params.id;
+  if (!batchId) return errorResponse('batch_id is required', 400, undefined, request, env);
+  try {
+    const batch = await DB.prepare('SELECT * FROM faceswap_batches WHERE id = ?').bind(batchId).first() as FaceSwapBatch | null;
+    if (!batch) {
+      // Async batch whose job has not started yet
+      const job = await DB.prepare('SELECT profile_id, status, created_at FROM jobs WHERE id = ?').bind(batchId).first() as Pick<Job, 'profile_id' | 'status' | 'created_at'> | null;
+      if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+        return errorResponse('Batch not found', 404, undefined, request, env);
+      }
+      if (!(await checkProfileToken(env, request, job.profile_id))) {
+        return errorResponse('Invalid profile token', 401, undefined, request, env);
+      }
+      return jsonResponse({
+        data: { batch_id: batchId, profile_id: job.profile_id, status: 'queued', items: [], created_at: new Date(job.created_at * 1000).toISOString(), completed_at: null },
+        status: 'success',
+        message: 'Batch queued',
+        code: 200,
+      }, 200, request, env);
+    }
+    if (!(await checkProfileToken(env, request, batch.profile_id))) {
+      return errorResponse('Invalid profile token', 401, undefined, request, env);
+    }
+    const items = await DB.prepare('SELECT * FROM faceswap_batch_items WHERE batch_id = ? ORDER BY item_index').bind(batchId).all();
+    return jsonResponse({
+      data: formatFaceSwapBatch(batch, (items.results || []) as unknown as FaceSwapBatchItem[]),
+      status: 'success',
+      message: 'Batch retrieved successfully',
+      code: 200,
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/faceswap/batch/:id', error, request, env, { batchId });
+    return errorResponse('Failed to fetch batch', 500, undefined, request, env);
+  }
+};
 
-        // Auto-delete selfie after processing (non-FaceSwap API)
-        if (hasSelfieId && selfieResult) {
-          const selfieId = (selfieResult as any).id;
-          const selfieExt = (selfieResult as any).ext;
-          ctx.waitUntil(deleteSelfieAfterProcessing(selfieId, selfieExt, env, DB, R2_BUCKET, requestUrl.origin));
-        }
+// Handle background endpoint
+const handleBackground = async ({ request, env, ctx, DB, R2_BUCKET, requestUrl, path }: RouteContext): Promise<Response> => {
+  let body: BackgroundRequest | undefined;
+  let creditResult: any = null;
+  try {
+    body = await request.json() as BackgroundRequest;
 
-        const debugEnabled = isDebugEnabled(env);
-        const flatDebug = debugEnabled ? buildFlatDebug(beautyResult) : undefined;
-        if (body.profile_id) {
-          ctx.waitUntil(sendResultNotification(env, body.profile_id, 'beauty', { success: true, resultId: savedResultId !== null ? String(savedResultId) : undefined }));
-        }
-        return jsonResponse({
-          data: {
-            id: savedResultId !== null ? String(savedResultId) : null,
-            resultImageUrl: resultUrl,
-          },
-          status: 'success',
-          message: beautyResult.Message || 'Image beautification completed',
-          code: 200,
-          ...(debugEnabled && flatDebug ? { debug: compact({
-            ...flatDebug,
-          }) } : {}),
-        });
-      } catch (error) {
-        if (body?.profile_id && creditResult?.cost > 0) {
-          await refundCredits(DB, body.profile_id, 'beauty', creditResult.fromSub, creditResult.fromConsumable, 'Processing error', request);
-        }
-        logCriticalError('/beauty', error, request, env, {
-          body: {
-            selfie_id: body?.selfie_id,
-            image_url: body?.image_url,
-            profile_id: body?.profile_id,
-            aspect_ratio: body?.aspect_ratio
-          }
-        });
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
+    // Normalize preset_image_id to remove file extensions (mobile apps may send IDs with extensions)
+    if (body.preset_image_id) {
+      const normalized = normalizePresetId(body.preset_image_id);
+      if (normalized) {
+        body.preset_image_id = normalized;
       }
     }
 
-    // Handle filter endpoint: 1 image (user) + prompt from preset prompt_json metadata (full JSON object), Flux WaveSpeed only
-    if (path === '/filter' && request.method === 'POST') {
+    const hasPresetId = body.preset_image_id && body.preset_image_id.trim() !== '';
+    const hasPresetUrl = body.preset_image_url && body.preset_image_url.trim() !== '';
+    const hasCustomPrompt = body.custom_prompt && body.custom_prompt.trim() !== '';
+
+    if (!hasPresetId && !hasPresetUrl && !hasCustomPrompt) {
       const debugEnabled = isDebugEnabled(env);
-      const requestCache = new Map<string, Promise<any>>();
-      const getCachedAsync = async <T>(key: string, compute: () => Promise<T>): Promise<T> => {
-        if (!requestCache.has(key)) requestCache.set(key, compute());
-        return requestCache.get(key) as Promise<T>;
-      };
-      let body: {
-        preset_image_id?: string;
-        preset_image_url?: string;
-        selfie_id?: string;
-        selfie_image_url?: string;
-        image_id?: string;
-        image_url?: string;
-        profile_id: string;
-        aspect_ratio?: string;
-        model?: string | number;
-        additional_prompt?: string;
-      } | undefined;
-      let creditResult: any = null;
-      try {
-        body = await request.json() as typeof body;
-        if (!body || typeof body !== 'object') {
-          return errorResponse('Invalid request body', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+      return errorResponse('Missing required field: preset_image_id, preset_image_url, or custom_prompt', 400, debugEnabled ? { path } : undefined, request, env);
+    }
 
-        const envError = validateEnv(env, 'wavespeed');
-        if (envError) {
-          return errorResponse('Missing environment configuration', 500, debugEnabled ? { error: envError, path } : undefined, request, env);
-        }
-        if (!body.profile_id) {
-          return errorResponse('Missing required field: profile_id', 400, debugEnabled ? { path } : undefined, request, env);
-        }
-        const hasPresetId = body.preset_image_id && body.preset_image_id.trim() !== '';
-        const hasPresetUrl = body.preset_image_url && body.preset_image_url.trim() !== '';
-        if (!hasPresetId && !hasPresetUrl) {
-          return errorResponse('Missing required field: preset_image_id or preset_image_url (for prompt_json metadata)', 400, debugEnabled ? { path } : undefined, request, env);
-        }
-        if (hasPresetId && hasPresetUrl) {
-          return errorResponse('Cannot provide both preset_image_id and preset_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
-        const profileCheck = await DB.prepare('SELECT id FROM profiles WHERE id = ?').bind(body.profile_id).first();
-        if (!profileCheck) {
-          return errorResponse('Profile not found', 404, debugEnabled ? { profileId: body.profile_id, path } : undefined, request, env);
-        }
+    if ((hasPresetId && hasPresetUrl) || (hasPresetId && hasCustomPrompt) || (hasPresetUrl && hasCustomPrompt)) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Provide only one of preset_image_id, preset_image_url, or custom_prompt', 400, debugEnabled ? { path } : undefined, request, env);
+    }
 
-        // Accept image_id/image_url as aliases for selfie_id/selfie_image_url
-        if (body.image_id && !body.selfie_id) body.selfie_id = body.image_id;
-        if (body.image_url && !body.selfie_image_url) body.selfie_image_url = body.image_url;
+    if (!body.profile_id) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Missing required field: profile_id', 400, debugEnabled ? { path } : undefined, request, env);
+    }
 
-        const hasSelfieId = body.selfie_id && body.selfie_id.trim() !== '';
-        const hasSelfieUrl = body.selfie_image_url && body.selfie_image_url.trim() !== '';
-        if (!hasSelfieId && !hasSelfieUrl) {
-          return errorResponse('Missing required field: selfie_id, selfie_image_url, or image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
-        if (hasSelfieId && hasSelfieUrl) {
-          return errorResponse('Cannot provide both selfie_id and selfie_image_url/image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    // Accept image_id/image_url as aliases for selfie_id/selfie_image_url
+    if (body.image_id && !body.selfie_id) body.selfie_id = body.image_id;
+    if (body.image_url && !body.selfie_image_url) body.selfie_image_url = body.image_url;
 
-        if (hasPresetId) {
-          const normalized = normalizePresetId(body.preset_image_id!);
-          if (normalized) body.preset_image_id = normalized;
-        }
+    const hasSelfieId = body.selfie_id && body.selfie_id.trim() !== '';
+    const hasSelfieUrl = body.selfie_image_url && body.selfie_image_url.trim() !== '';
 
-        let r2Key: string | null = null;
-        let presetResult: any = null;
-        if (hasPresetId) {
-          presetResult = await DB.prepare('SELECT id, ext FROM presets WHERE id = ?').bind(body.preset_image_id).first();
-          if (!presetResult) {
-            return errorResponse('Preset image not found', 404, debugEnabled ? { presetImageId: body.preset_image_id, path } : undefined, request, env);
-          }
-          r2Key = reconstructR2Key((presetResult as any).id, (presetResult as any).ext, 'preset');
-        } else if (hasPresetUrl) {
-          try {
-            const presetUrl = new URL(body.preset_image_url!);
-            const pathParts = presetUrl.pathname.split('/').filter(p => p);
-            if (pathParts.length >= 2 && ['preset', 'selfie', 'results'].includes(pathParts[0])) {
-              r2Key = `${pathParts[0]}/${pathParts[1]}`;
-            }
-          } catch {
-            // ignore
-          }
-        }
+    if (!hasSelfieId && !hasSelfieUrl) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Missing required field: selfie_id or selfie_image_url (or image_id/image_url)', 400, debugEnabled ? { path } : undefined, request, env);
+    }
+
+    if (hasSelfieId && hasSelfieUrl) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Cannot provide both selfie_id and selfie_image_url (or image_id and image_url)', 400, debugEnabled ? { path } : undefined, request, env);
+    }
 
-        let storedPromptPayload: any = null;
-        const promptCacheKV = getPromptCacheKV(env);
-        const presetImageId = hasPresetId ? body.preset_image_id : (presetResult ? (presetResult as any).id : null);
-        if (presetImageId && r2Key) {
-          const cacheKey = `prompt:${presetImageId}`;
-          if (promptCacheKV) {
-            try {
-              const cached = await promptCacheKV.get(cacheKey, 'json');
-              if (cached) storedPromptPayload = cached;
-            } catch {
-              // fallback to R2
-            }
-          }
-          if (!storedPromptPayload) {
-            try {
-              const r2Object = await getCachedAsync(`r2head:${r2Key}`, () => R2_BUCKET.head(r2Key!));
-              const promptJson = r2Object?.customMetadata?.prompt_json;
-              if (promptJson?.trim()) {
-                storedPromptPayload = JSON.parse(promptJson);
-                if (promptCacheKV) {
-                  promptCacheKV.put(cacheKey, promptJson, { expirationTtl: CACHE_CONFIG.PROMPT_CACHE_TTL }).catch(() => {});
-                }
-              }
-            } catch {
-              // R2 read failed
-            }
-          }
-        } else if (r2Key) {
-          const cacheKey = `prompt:${r2Key}`;
-          if (promptCacheKV) {
-            try {
-              const cached = await promptCacheKV.get(cacheKey, 'json');
-              if (cached) storedPromptPayload = cached;
-            } catch {
-              // fallback to R2
-            }
-          }
-          if (!storedPromptPayload) {
-            try {
-              const r2Object = await getCachedAsync(`r2head:${r2Key}`, () => R2_BUCKET.head(r2Key!));
-              const promptJson = r2Object?.customMetadata?.prompt_json;
-              if (promptJson?.trim()) {
-                storedPromptPayload = JSON.parse(promptJson);
-                if (promptCacheKV) {
-                  promptCacheKV.put(cacheKey, promptJson, { expirationTtl: CACHE_CONFIG.PROMPT_CACHE_TTL }).catch(() => {});
-                }
-              }
-            } catch {
-              // R2 read failed
-            }
-          }
-        }
-        if (!storedPromptPayload) {
-          return errorResponse('Prompt JSON not found in preset image metadata', 400, debugEnabled ? { path } : undefined, request, env);
-        }
 
-        let imageUrl: string = '';
-        if (hasSelfieId) {
-          const selfieResult = await DB.prepare(`
-            SELECT s.id, s.ext FROM selfies s
-            INNER JOIN profiles p ON s.profile_id = p.id
-            WHERE s.id = ? AND p.id = ?
-          `).bind(body.selfie_id, body.profile_id).first();
-          if (!selfieResult) {
-            return errorResponse('Selfie not found or does not belong to profile', 404, debugEnabled ? { selfieId: body.selfie_id, profileId: body.profile_id, path } : undefined, request, env);
-          }
-          const selfieR2Key = reconstructR2Key((selfieResult as any).id, (selfieResult as any).ext, 'selfie');
-          imageUrl = getR2PublicUrl(env, selfieR2Key, requestUrl.origin);
-        } else {
-          imageUrl = body.selfie_image_url || body.image_url!;
-          if (!validateImageUrl(imageUrl, env)) {
-            return errorResponse('Invalid image URL', 400, debugEnabled ? { path } : undefined, request, env);
-          }
-        }
+    // Optimize database queries: validate profile, preset, and selfie in parallel with JOINs where applicable
+    const queries: Promise<any>[] = [
+      DB.prepare('SELECT id FROM profiles WHERE id = ?').bind(body.profile_id).first()
+    ];
 
-        const validAspectRatio = await resolveAspectRatio(body.aspect_ratio, imageUrl, env, { allowOriginal: true });
-        const userExplicitlySetAspectRatio = body.aspect_ratio && body.aspect_ratio.trim() !== '' && body.aspect_ratio.toLowerCase() !== 'original';
-        let sizeForProvider: string | undefined;
-        if (!userExplicitlySetAspectRatio) {
-          const { getImageDimensionsExtended, calculateOptimalSize } = await import('./utils');
-          const dims = await getImageDimensionsExtended(imageUrl, env);
-          if (dims) {
-            const optimal = calculateOptimalSize(dims.width, dims.height, 1536, 256);
-            sizeForProvider = optimal.sizeString;
-          }
-        }
+    if (hasPresetId) {
+      queries.push(
+        DB.prepare('SELECT id, ext, is_premium, credit_surcharge FROM presets WHERE id = ?').bind(body.preset_image_id).first()
+      );
+    }
 
-        const fullPromptJsonString = JSON.stringify(storedPromptPayload, null, 2);
-        const finalPrompt = body.additional_prompt
-          ? `${fullPromptJsonString}\n\nAdditional instructions: ${body.additional_prompt}`
-          : fullPromptJsonString;
+    if (hasSelfieId) {
+      // Use JOIN to validate selfie belongs to profile
+      queries.push(
+        DB.prepare(`
+          SELECT s.id, s.ext, p.id as profile_exists
+          FROM selfies s
+          INNER JOIN profiles p ON s.profile_id = p.id
+          WHERE s.id = ? AND p.id = ?
+        `).bind(body.selfie_id, body.profile_id).first()
+      );
+    }
 
-        // Credit deduction (after validation, before processing)
-        creditResult = await deductCredits(DB, body.profile_id, 'filter', env, request);
-        if (!creditResult.success) {
-          return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
-        }
+    // Execute all queries in parallel
+    const results = await Promise.all(queries);
 
-        const filterResult = await callNanoBanana(
-          finalPrompt,
-          imageUrl,
-          [imageUrl],
-          env,
-          validAspectRatio,
-          body.model,
-          { provider: 'wavespeed', size: sizeForProvider }
-        );
+    const profileCheck = results[0];
+    if (!profileCheck) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Profile not found', 404, debugEnabled ? { profileId: body.profile_id, path } : undefined, request, env);
+    }
 
-        if (!filterResult.Success || !filterResult.ResultImageUrl) {
-          if (body?.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'filter', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
-          }
-          const failureCode = filterResult.StatusCode || 500;
-          const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-          const flatDebug = debugEnabled ? buildFlatDebug(filterResult) : undefined;
+    let selfieUrl: string;
+    let selfieResultForDelete: any = null;
+    if (hasSelfieId) {
+      const selfieResult = results[hasPresetId ? 2 : 1];
+      if (!selfieResult) {
+        const cachedResult = await getCachedResultFromKV(env, body.selfie_id!, body.preset_image_id || null, 'background');
+        if (cachedResult) {
           return jsonResponse({
-            data: null,
-            status: 'error',
-            message: filterResult.Message || 'Style filter processing failed',
-            code: failureCode,
-            ...(flatDebug ? { debug: compact(flatDebug) } : {}),
-          }, httpStatus);
+            data: { resultImageUrl: cachedResult, cached: true },
+            status: 'success',
+            message: 'Cached result returned (selfie was auto-deleted after previous processing)',
+            code: 200,
+          });
         }
+        const debugEnabled = isDebugEnabled(env);
+        return errorResponse(`Selfie with ID ${body.selfie_id} not found or does not belong to profile`, 404, debugEnabled ? { selfieId: body.selfie_id, profileId: body.profile_id, path } : undefined, request, env);
+      }
+      selfieResultForDelete = selfieResult;
+      const storedKey = reconstructR2Key((selfieResult as any).id, (selfieResult as any).ext, 'selfie');
+      selfieUrl = getR2PublicUrl(env, storedKey, requestUrl.origin);
+    } else {
+      selfieUrl = body.selfie_image_url!;
+    }
 
-        let resultUrl = filterResult.ResultImageUrl;
-        if (filterResult.ResultImageUrl?.startsWith('r2://')) {
-          resultUrl = getR2PublicUrl(env, filterResult.ResultImageUrl.replace('r2://', ''), requestUrl.origin);
-        }
+    let targetUrl: string;
+    let presetName: string;
+    let presetImageId: string | null = null;
+
+    // The URL of one of our preset images counts as that preset (pricing, usage); it is sent as is
+    const urlPreset = hasPresetUrl ? await findPresetByImageUrl(DB, body.preset_image_url!) : undefined;
+    if (urlPreset === null) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Preset image not found', 404, debugEnabled ? { url: body.preset_image_url, path } : undefined, request, env);
+    }
+    const pricedPreset = hasPresetId ? results[1] : urlPreset;
+
+    // Credit deduction (after validation, before processing)
+    creditResult = await holdCredits(DB, body.profile_id, 'background', env, request, 1, {}, pricedPreset ? getPresetPricing([pricedPreset]) : null);
+    if (!creditResult.success) {
+      return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
+    }
 
-        // Post-processing safety scan on result image using Google Vision API
-        const safetyCheck = await checkSafeSearch(resultUrl, env);
-        if (!safetyCheck.isSafe) {
-          if (body.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'filter', creditResult.fromSub, creditResult.fromConsumable, 'Content safety violation', request);
+    if (hasCustomPrompt) {
+      const imageProvider = resolveImageProvider(body, env, 'BACKGROUND');
+      const envError = imageProvider.configError(env);
+      if (envError) {
+        const debugEnabled = isDebugEnabled(env);
+        return errorResponse('', 500, debugEnabled ? { error: envError, path } : undefined, request, env);
+      }
+      const customPrompt = VERTEX_AI_PROMPTS.BACKGROUND_CUSTOM_PROMPT_TEMPLATE.replace(/\{\{place_holder\}\}/g, body.custom_prompt!.trim());
+      const validAspectRatio = await resolveAspectRatio(body.aspect_ratio, selfieUrl, env, { allowOriginal: true });
+      let sizeForProvider: string | undefined;
+      const userExplicitlySetAspectRatio = body.aspect_ratio && body.aspect_ratio.trim() !== '' && body.aspect_ratio.toLowerCase() !== 'original';
+      if (!userExplicitlySetAspectRatio) {
+        try {
+          const { getImageDimensionsExtended, calculateOptimalSize } = await import('./utils');
+          const imageDimensionsExtended = await getImageDimensionsExtended(selfieUrl, env);
+          if (imageDimensionsExtended) {
+            const optimal = calculateOptimalSize(imageDimensionsExtended.width, imageDimensionsExtended.height, 1536, 256);
+            sizeForProvider = optimal.sizeString;
           }
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: safetyCheck.statusCode || 1001,
-            ...(debugEnabled ? { debug: compact({ ...buildFlatDebug(filterResult), visionScan: safetyCheck.debug || null, safetyCategory: safetyCheck.violationCategory, safetyLevel: safetyCheck.violationLevel, safetyDetails: safetyCheck.details }) } : {}),
-          }, 422);
+        } catch (e) {}
+      }
+      const mergeResult = await imageProvider.run({ mode: 'BACKGROUND', prompt: customPrompt, imageUrls: [selfieUrl], aspectRatio: validAspectRatio, size: sizeForProvider }, env);
+      if (!mergeResult.Success || !mergeResult.ResultImageUrl) {
+        if (body?.profile_id) {
+          await releaseCreditCheck(DB, body.profile_id, 'background', creditResult, 'Processing failed', request);
         }
+        const failureCode = mergeResult.StatusCode || 500;
+        const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
+        const debugEnabled = isDebugEnabled(env);
+        const flatDebug = debugEnabled ? buildFlatDebug(mergeResult) : undefined;
+        return jsonResponse({
+          data: null,
+          status: 'error',
+          message: '',
+          code: failureCode,
+          ...(debugEnabled && flatDebug ? { debug: compact(flatDebug) } : {}),
+        }, httpStatus);
+      }
+      let resultUrl = mergeResult.ResultImageUrl;
+      if (resultUrl?.startsWith('r2://')) {
+        const r2Key = resultUrl.replace('r2://', '');
+        resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
+      }
 
-        const savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'filter', request);
+      // Post-generation safety check for custom prompt results
+      const safetyCheck = await checkSafeSearch(resultUrl, env);
+      if (!safetyCheck.isSafe) {
         if (body.profile_id) {
-          ctx.waitUntil(sendResultNotification(env, body.profile_id, 'filter', { success: true, resultId: savedResultId !== null ? String(savedResultId) : undefined }));
+          await releaseCreditCheck(DB, body.profile_id, 'background', creditResult, 'Content safety violation', request);
         }
+        const debugEnabled = isDebugEnabled(env);
         return jsonResponse({
-          data: {
-            resultImageUrl: resultUrl,
-            resultId: savedResultId,
-          },
-          status: 'success',
-          message: filterResult.Message || 'Style filter applied successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: compact({ ...buildFlatDebug(filterResult), visionScan: safetyCheck.debug || null, safetyDetails: safetyCheck.details, database: savedResultId ? { saved: true, resultId: savedResultId } : { saved: false } }) } : {}),
-        });
-      } catch (error) {
-        if (body?.profile_id && creditResult?.cost > 0) {
-          await refundCredits(DB, body.profile_id, 'filter', creditResult.fromSub, creditResult.fromConsumable, 'Processing error', request);
-        }
-        logCriticalError('/filter', error, request, env, { body: { profile_id: body?.profile_id, preset_image_id: body?.preset_image_id } });
-        const errMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('Internal server error', 500, debugEnabled ? { error: errMsg, path } : undefined, request, env);
+          data: null,
+          status: 'error',
+          message: '',
+          code: safetyCheck.statusCode || 1001,
+          ...(debugEnabled ? { debug: { safetyCategory: safetyCheck.violationCategory, safetyLevel: safetyCheck.violationLevel, safetyDetails: safetyCheck.details } } : {}),
+        }, 422);
       }
-    }
-
-    // Handle restore endpoint
-    if (path === '/restore' && request.method === 'POST') {
-      let body: { image_id?: string; image_url?: string; selfie_id?: string; selfie_image_url?: string; profile_id?: string; aspect_ratio?: string; model?: string | number; provider?: 'vertex' | 'wavespeed' } | undefined;
-      let creditResult: any = null;
-      try {
-        body = await request.json() as { image_id?: string; image_url?: string; selfie_id?: string; selfie_image_url?: string; profile_id?: string; aspect_ratio?: string; model?: string | number; provider?: 'vertex' | 'wavespeed' };
-
-        // Accept image_id/image_url as aliases for selfie_id/selfie_image_url
-        if (body.image_id && !body.selfie_id) body.selfie_id = body.image_id;
-        if (body.image_url && !body.selfie_image_url) body.selfie_image_url = body.image_url;
 
-        const hasSelfieId = body.selfie_id && body.selfie_id.trim() !== '';
-        const hasSelfieUrl = body.selfie_image_url && body.selfie_image_url.trim() !== '';
-        
-        if (!hasSelfieId && !hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: selfie_id or selfie_image_url (or image_url)', 400, debugEnabled ? { path } : undefined, request, env);
-        }
-
-        if (hasSelfieId && hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Cannot provide both selfie_id and selfie_image_url/image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+      let savedResultId: string | null = null;
+      if (body.profile_id) {
+        try {
+          savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'background', request, imageProvider.name);
+        } catch (dbError) {}
+      }
+      await captureCreditHold(DB, creditResult?.holdId, savedResultId);
+      if (hasSelfieId && body.selfie_id) {
+        ctx.waitUntil(cacheResultInKV(env, body.selfie_id, body.preset_image_id || null, 'background', resultUrl));
+      }
+      if (hasSelfieId && selfieResultForDelete) {
+        const selfieId = (selfieResultForDelete as any).id;
+        const selfieExt = (selfieResultForDelete as any).ext;
+        ctx.waitUntil(deleteSelfieAfterProcessing(selfieId, selfieExt, env, DB, R2_BUCKET, requestUrl.origin));
+      }
+      const debugEnabled = isDebugEnabled(env);
+      const flatDebug = debugEnabled ? buildFlatDebug(mergeResult) : undefined;
+      const debugPayload = debugEnabled && flatDebug ? compact(flatDebug) : undefined;
+      if (body.profile_id) {
+        ctx.waitUntil(sendResultNotification(env, body.profile_id, 'background', { success: true, resultId: savedResultId !== null ? String(savedResultId) : undefined }));
+      }
+      return jsonResponse({
+        data: { id: savedResultId !== null ? String(savedResultId) : null, resultImageUrl: resultUrl },
+        status: 'success',
+        message: mergeResult.Message || 'Processing successful',
+        code: 200,
+        ...(debugPayload ? { debug: debugPayload } : {}),
+      });
+    }
 
-        if (!body.profile_id) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    if (hasPresetId) {
+      const presetResult = results[1];
 
-        const profileCheck = await DB.prepare(
-          'SELECT id FROM profiles WHERE id = ?'
-        ).bind(body.profile_id).first();
-        if (!profileCheck) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Profile not found', 404, debugEnabled ? { profileId: body.profile_id, path } : undefined, request, env);
-        }
+      // If preset not found in database, try looking in remove_bg/background folder
+      if (!presetResult) {
+        // Check if preset_image_id looks like a filename (contains extension)
+        const presetId = body.preset_image_id!;
+        let r2Key: string;
 
-        // Resolve selfie image URL
-        let imageUrl: string = '';
-        let selfieResult: any = null;
+        if (presetId.includes('.')) {
+          // Has extension: remove_bg/background/filename.ext
+          r2Key = `remove_bg/background/${presetId}`;
+        } else {
+          // No extension, try common extensions
+          const extensions = ['webp', 'jpg', 'png', 'jpeg'];
+          let foundExt: string | null = null;
 
-        if (hasSelfieId) {
-          selfieResult = await DB.prepare(`
-            SELECT s.id, s.ext, p.id as profile_exists
-            FROM selfies s
-            INNER JOIN profiles p ON s.profile_id = p.id
-            WHERE s.id = ? AND p.id = ?
-          `).bind(body.selfie_id, body.profile_id).first();
-
-          if (!selfieResult) {
-            // Selfie not found - check for cached result (selfie may have been auto-deleted)
-            const cachedResult = await getCachedResultFromKV(env, body.selfie_id!, null, 'restore');
-            if (cachedResult) {
-              return jsonResponse({
-                data: { resultImageUrl: cachedResult, cached: true },
-                status: 'success',
-                message: 'Cached result returned (selfie was auto-deleted after previous processing)',
-                code: 200,
-              });
+          // Try to find file with any common extension
+          for (const ext of extensions) {
+            const testKey = `remove_bg/background/${presetId}.${ext}`;
+            try {
+              const testObj = await R2_BUCKET.head(testKey);
+              if (testObj) {
+                foundExt = ext;
+                break;
+              }
+            } catch (e) {
+              // File doesn't exist, try next extension
             }
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Selfie not found or does not belong to profile', 404, debugEnabled ? { selfieId: body.selfie_id, profileId: body.profile_id, path } : undefined, request, env);
           }
 
-          const selfieR2Key = reconstructR2Key((selfieResult as any).id, (selfieResult as any).ext, 'selfie');
-          imageUrl = getR2PublicUrl(env, selfieR2Key, requestUrl.origin);
-        } else {
-          imageUrl = body.selfie_image_url || body.image_url!;
-          if (!validateImageUrl(imageUrl, env)) {
+          if (!foundExt) {
             const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Invalid image URL', 400, debugEnabled ? { path } : undefined, request, env);
+            return errorResponse('Preset image not found in database or remove_bg/background folder', 404, debugEnabled ? {
+              presetId: body.preset_image_id,
+              searchedFolder: 'remove_bg/background',
+              triedExtensions: extensions,
+              path
+            } : undefined, request, env);
           }
-        }
 
-        const envError = validateEnv(env, 'wavespeed');
-        if (envError) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 500, debugEnabled ? { error: envError, path } : undefined, request, env);
+          r2Key = `remove_bg/background/${presetId}.${foundExt}`;
         }
 
-        const validAspectRatio = await resolveAspectRatio(body.aspect_ratio, imageUrl, env, { allowOriginal: true });
+        targetUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
+        presetName = 'Background Preset';
+        presetImageId = body.preset_image_id || null;
+      } else {
+        // Found in database, use normal preset lookup
+        const storedKey = reconstructR2Key((presetResult as any).id, (presetResult as any).ext, 'preset');
+        targetUrl = getR2PublicUrl(env, storedKey, requestUrl.origin);
+        presetName = 'Preset';
+        presetImageId = body.preset_image_id || null;
+      }
+    } else {
+      targetUrl = body.preset_image_url!;
+      presetName = 'Result Preset';
+      presetImageId = urlPreset?.id ?? null;
+    }
+
+    const providerChain = resolveImageProviderChain(body, env, 'MERGE');
+    const imageProvider = providerChain[0];
+
+    const requestDebug = compact({
+      targetUrl: targetUrl,
+      selfieUrl: selfieUrl,
+      presetImageId: presetImageId,
+      presetImageUrl: hasPresetUrl ? body.preset_image_url : undefined,
+      presetName: presetName,
+      selfieId: body.selfie_id,
+      customPrompt: hasCustomPrompt ? body.custom_prompt : undefined,
+      provider: imageProvider.name,
+    });
+
+    const envError = imageProvider.configError(env);
+    if (envError) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('', 500, debugEnabled ? { error: envError, path } : undefined, request, env);
+    }
 
-        // Always get image dimensions for restore (needed for provider routing + size calc)
-        const { getImageDimensionsExtended } = await import('./utils');
-        const imageDimensionsExtended = await getImageDimensionsExtended(imageUrl, env);
+    // Resolve aspect ratio from selfie image if "original" is specified
+    const validAspectRatio = await resolveAspectRatio(body.aspect_ratio, selfieUrl, env, { allowOriginal: true });
+    const modelParam = body.model;
 
-        // Calculate optimal output size at max 1536px for best quality
-        const userExplicitlySetAspectRatio = body.aspect_ratio && body.aspect_ratio.trim() !== '' && body.aspect_ratio.toLowerCase() !== 'original';
-        let sizeForProvider: string | undefined;
-        if (!userExplicitlySetAspectRatio && imageDimensionsExtended) {
-          const { calculateOptimalSize } = await import('./utils');
+    // Calculate optimal output size at max 1536px for best quality
+    let sizeForProvider: string | undefined;
+    const userExplicitlySetAspectRatio = body.aspect_ratio && body.aspect_ratio.trim() !== '' && body.aspect_ratio.toLowerCase() !== 'original';
+    if (!userExplicitlySetAspectRatio) {
+      try {
+        const { getImageDimensionsExtended, calculateOptimalSize } = await import('./utils');
+        const imageDimensionsExtended = await getImageDimensionsExtended(selfieUrl, env);
+        if (imageDimensionsExtended) {
           const optimal = calculateOptimalSize(imageDimensionsExtended.width, imageDimensionsExtended.height, 1536, 256);
           sizeForProvider = optimal.sizeString;
         }
+      } catch (e) {
+        // Ignore dimension errors, will use default aspect ratio
+      }
+    }
 
-        // Credit deduction (after validation, before processing)
-        creditResult = await deductCredits(DB, body.profile_id, 'restore', env, request);
-        if (!creditResult.success) {
-          return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
-        }
+    // WaveSpeed runs Seedream v4 for the merge (better quality, 4K support), Vertex its dedicated merge call
+    const { result: mergeResult, provider: usedProvider, attempts: providerAttempts } = await runImageProviderChain(providerChain, env, (provider) => ({
+      mode: 'MERGE',
+      prompt: provider.name === 'vertex' ? VERTEX_AI_PROMPTS.MERGE_PROMPT_DEFAULT : WAVESPEED_PROMPTS.MERGE_PROMPT_DEFAULT,
+      imageUrls: [selfieUrl, targetUrl],
+      aspectRatio: validAspectRatio,
+      size: sizeForProvider,
+      model: modelParam,
+    }));
+    const usedModel = resolveUsageModel(usedProvider.name, modelParam);
+    if (presetImageId) {
+      ctx.waitUntil(recordPresetUsage(DB, { preset_id: presetImageId, action: 'background', profile_id: body.profile_id, provider: usedProvider.name, model: usedModel, outcome: getPresetUsageOutcome(mergeResult) }));
+    }
 
-        // Always use Flux Klein v3 for restore
-        const restoredResult = await callWaveSpeedEdit(
-          [imageUrl], typeof IMAGE_PROCESSING_PROMPTS.RESTORE === 'string' ? IMAGE_PROCESSING_PROMPTS.RESTORE : JSON.stringify(IMAGE_PROCESSING_PROMPTS.RESTORE),
-          env, validAspectRatio, sizeForProvider, API_ENDPOINTS.WAVESPEED_FLUX_KLEIN_EDIT_V3
-        );
+    if (!mergeResult.Success || !mergeResult.ResultImageUrl) {
+      if (body?.profile_id) {
+        await releaseCreditCheck(DB, body.profile_id, 'background', creditResult, 'Processing failed', request);
+      }
+      const failureCode = mergeResult.StatusCode || 500;
+      const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
+      const debugEnabled = isDebugEnabled(env);
+      const flatDebug = debugEnabled ? buildFlatDebug(mergeResult) : undefined;
+      const debugPayload = debugEnabled ? compact({
+        ...flatDebug,
+        providerAttempts,
+      }) : undefined;
 
-        if (!restoredResult.Success || !restoredResult.ResultImageUrl) {
-          if (body?.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'restore', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
-          }
-          const failureCode = restoredResult.StatusCode || 500;
-          const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-          const debugEnabled = isDebugEnabled(env);
-          const flatDebug = debugEnabled ? buildFlatDebug(restoredResult) : undefined;
-          const debugPayload = debugEnabled ? compact({
-            ...flatDebug,
-          }) : undefined;
+      return jsonResponse({
+        data: null,
+        status: 'error',
+        message: '',
+        code: failureCode,
+        ...(debugPayload ? { debug: debugPayload } : {}),
+      }, httpStatus);
+    }
 
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: failureCode,
-            ...(debugPayload ? { debug: debugPayload } : {}),
-          }, httpStatus);
-        }
+    if (mergeResult.ResultImageUrl?.startsWith('r2://')) {
+      const r2Key = mergeResult.ResultImageUrl.replace('r2://', '');
+      mergeResult.ResultImageUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
+    }
 
-        let resultUrl = restoredResult.ResultImageUrl;
-        if (restoredResult.ResultImageUrl?.startsWith('r2://')) {
-          const r2Key = restoredResult.ResultImageUrl.replace('r2://', '');
-          const requestUrl = new URL(request.url);
-          resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-        }
+    // Vision API scanning on result images is disabled - only used for 4k action on selfie uploads
+    const safetyDebug: SafetyCheckDebug = {
+      checked: false,
+      isSafe: true,
+      error: 'Safety check skipped for Vertex AI mode',
+    };
 
-        const savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'restore', request);
+    const storageDebug: {
+      attemptedDownload: boolean;
+      downloadStatus: number | null;
+      savedToR2: boolean;
+      r2Key: string | null;
+      publicUrl: string | null;
+      error: string | null;
+    } = {
+      attemptedDownload: false,
+      downloadStatus: null,
+      savedToR2: false,
+      r2Key: null,
+      publicUrl: null,
+      error: null,
+    };
 
-        // Cache result in KV for retry handling (before selfie deletion)
-        if (hasSelfieId && body.selfie_id) {
-          ctx.waitUntil(cacheResultInKV(env, body.selfie_id, null, 'restore', resultUrl));
-        }
+    let resultUrl = mergeResult.ResultImageUrl;
+    if (resultUrl?.startsWith('r2://')) {
+      const r2Key = resultUrl.replace('r2://', '');
+      resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
+      storageDebug.savedToR2 = true;
+      storageDebug.r2Key = r2Key;
+      storageDebug.publicUrl = resultUrl;
+    } else if (resultUrl?.startsWith('http')) {
+      // External URL - use directly
+      storageDebug.publicUrl = resultUrl;
+    }
 
-        // Auto-delete selfie after processing (non-FaceSwap API)
-        if (hasSelfieId && selfieResult) {
-          const selfieId = (selfieResult as any).id;
-          const selfieExt = (selfieResult as any).ext;
-          ctx.waitUntil(deleteSelfieAfterProcessing(selfieId, selfieExt, env, DB, R2_BUCKET, requestUrl.origin));
-        }
+    const databaseDebug: {
+      attempted: boolean;
+      success: boolean;
+      resultId: string | null;
+      error: string | null;
+      lookupError: string | null;
+    } = {
+      attempted: false,
+      success: false,
+      resultId: null,
+      error: null,
+      lookupError: null,
+    };
 
-        const debugEnabled = isDebugEnabled(env);
-        const flatDebug = debugEnabled ? buildFlatDebug(restoredResult) : undefined;
-        return jsonResponse({
-          data: {
-            id: savedResultId !== null ? String(savedResultId) : null,
-            resultImageUrl: resultUrl,
-          },
-          status: 'success',
-          message: restoredResult.Message || 'Image restoration completed',
-          code: 200,
-          ...(debugEnabled && flatDebug ? { debug: compact({
-            ...flatDebug,
-          }) } : {}),
-        });
-      } catch (error) {
-        if (body?.profile_id && creditResult?.cost > 0) {
-          await refundCredits(DB, body.profile_id, 'restore', creditResult.fromSub, creditResult.fromConsumable, 'Processing error', request);
+    let savedResultId: string | null = null;
+    if (body.profile_id) {
+      databaseDebug.attempted = true;
+      try {
+        savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'background', request, usedProvider.name, presetImageId, usedModel);
+
+        if (savedResultId !== null) {
+          databaseDebug.success = true;
+          databaseDebug.resultId = String(savedResultId);
+          databaseDebug.error = null;
+        } else {
+          databaseDebug.error = 'Database insert failed';
         }
-        logCriticalError('/restore', error, request, env, {
-          body: {
-            selfie_id: body?.selfie_id,
-            image_url: body?.image_url,
-            profile_id: body?.profile_id,
-            aspect_ratio: body?.aspect_ratio
-          }
-        });
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
+      } catch (dbError) {
+        databaseDebug.error = dbError instanceof Error ? dbError.message : String(dbError);
       }
     }
+    await captureCreditHold(DB, creditResult?.holdId, savedResultId);
 
-    // Handle aging endpoint - uses preset with prompt_json (like /filter)
-    if (path === '/aging' && request.method === 'POST') {
-      const debugEnabled = isDebugEnabled(env);
-      let body: {
-        preset_image_id?: string;
-        preset_image_url?: string;
-        selfie_id?: string;
-        selfie_image_url?: string;
-        image_id?: string;
-        image_url?: string;
-        profile_id: string;
-        aspect_ratio?: string;
-        model?: string | number;
-        additional_prompt?: string;
-        provider?: 'vertex' | 'wavespeed';
-      } | undefined;
-      let creditResult: any = null;
+    // Cache result in KV for retry handling (before selfie deletion)
+    if (hasSelfieId && body.selfie_id) {
+      ctx.waitUntil(cacheResultInKV(env, body.selfie_id, body.preset_image_id || null, 'background', resultUrl));
+    }
 
-      try {
-        body = await request.json() as typeof body;
+    // Auto-delete selfie after processing (non-FaceSwap API)
+    if (hasSelfieId && selfieResultForDelete) {
+      const selfieId = (selfieResultForDelete as any).id;
+      const selfieExt = (selfieResultForDelete as any).ext;
+      ctx.waitUntil(deleteSelfieAfterProcessing(selfieId, selfieExt, env, DB, R2_BUCKET, requestUrl.origin));
+    }
 
-        // Normalize preset_image_id to remove file extensions
-        if (body?.preset_image_id) {
-          const normalized = normalizePresetId(body.preset_image_id);
-          if (normalized) body.preset_image_id = normalized;
-        }
+    const debugEnabled = isDebugEnabled(env);
+    const flatDebug = debugEnabled ? buildFlatDebug(mergeResult) : undefined;
+    const visionDebug = debugEnabled ? buildVisionDebug(safetyDebug) : undefined;
+    const storageDebugPayload = debugEnabled ? compact(storageDebug as unknown as Record<string, any>) : undefined;
+    const databaseDebugPayload = debugEnabled ? compact(databaseDebug as unknown as Record<string, any>) : undefined;
+    const debugPayload = debugEnabled ? compact({
+      ...flatDebug,
+      vision: visionDebug,
+      storage: Object.keys(storageDebugPayload || {}).length ? storageDebugPayload : undefined,
+      database: Object.keys(databaseDebugPayload || {}).length ? databaseDebugPayload : undefined,
+    }) : undefined;
+
+    if (body.profile_id) {
+      ctx.waitUntil(sendResultNotification(env, body.profile_id, 'background', { success: true, resultId: savedResultId !== null ? String(savedResultId) : undefined }));
+    }
+    return jsonResponse({
+      data: {
+        id: savedResultId !== null ? String(savedResultId) : null,
+        resultImageUrl: resultUrl,
+      },
+      status: 'success',
+      message: mergeResult.Message || 'Processing successful',
+      code: 200,
+      ...(debugPayload ? { debug: debugPayload } : {}),
+    });
+  } catch (error) {
+    if (body?.profile_id) {
+      await releaseCreditCheck(DB, body.profile_id, 'background', creditResult, 'Processing error', request);
+    }
+    logCriticalError('/background', error, request, env, {
+      body: {
+        preset_image_id: body?.preset_image_id,
+        preset_image_url: body?.preset_image_url,
+        custom_prompt: body?.custom_prompt ? '***present***' : 'missing',
+        profile_id: body?.profile_id,
+        selfie_id: body?.selfie_id,
+        selfie_image_url: body?.selfie_image_url ? '***present***' : 'missing'
+      }
+    });
+    const debugEnabled = isDebugEnabled(env);
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
+  }
+};
 
-        // Accept image_id/image_url as aliases for selfie_id/selfie_image_url
-        if (body?.image_id && !body.selfie_id) body.selfie_id = body.image_id;
-        if (body?.image_url && !body.selfie_image_url) body.selfie_image_url = body.image_url;
+// Handle upscaler4k endpoint
+const handleUpscaler4k = async ({ request, env, ctx, DB, R2_BUCKET, requestUrl, path }: RouteContext): Promise<Response> => {
+  let body: { image_url: string; profile_id?: string; aspect_ratio?: string } | undefined;
+  let creditResult: any = null;
+  try {
+    body = await request.json() as { image_url: string; profile_id?: string; aspect_ratio?: string };
 
-        const envError = validateEnv(env, 'vertex');
-        if (envError) {
-          return errorResponse('Missing environment configuration', 500, debugEnabled ? { error: envError, path } : undefined, request, env);
-        }
+    if (!body.image_url) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Missing required field: image_url', 400, debugEnabled ? { path } : undefined, request, env);
+    }
 
-        // Validate profile_id is required
-        if (!body?.profile_id) {
-          return errorResponse('Missing required field: profile_id', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    if (!body.profile_id) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Missing required field: profile_id', 400, debugEnabled ? { path } : undefined, request, env);
+    }
 
-        // Validate profile exists
-        const profileCheck = await DB.prepare('SELECT id FROM profiles WHERE id = ?').bind(body.profile_id).first();
-        if (!profileCheck) {
-          return errorResponse('Profile not found', 404, debugEnabled ? { profileId: body.profile_id, path } : undefined, request, env);
-        }
+    // Validate that the image_url is a selfie with action='4k' or '4K'
+    const r2Key = extractR2KeyFromUrl(body.image_url);
+    if (!r2Key || !r2Key.startsWith('selfie/')) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Image must be a selfie', 400, debugEnabled ? { path, imageUrl: body.image_url } : undefined, request, env);
+    }
 
-        // Validate preset inputs (ID or URL required)
-        const hasPresetId = body.preset_image_id && body.preset_image_id.trim() !== '';
-        const hasPresetUrl = body.preset_image_url && body.preset_image_url.trim() !== '';
+    // Extract selfie ID from R2 key (format: selfie/{id}.{ext})
+    const keyParts = r2Key.replace('selfie/', '').split('.');
+    if (keyParts.length < 2) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Invalid selfie URL format', 400, debugEnabled ? { path, imageUrl: body.image_url } : undefined, request, env);
+    }
+    const selfieId = keyParts.slice(0, -1).join('.');
 
-        if (!hasPresetId && !hasPresetUrl) {
-          return errorResponse('Missing required field: preset_image_id or preset_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    // Single JOIN query to validate profile exists, selfie exists, belongs to profile, and has action='4k'
+    const validation = await DB.prepare(`
+      SELECT s.id, s.action, s.ext, p.id as profile_exists
+      FROM selfies s
+      INNER JOIN profiles p ON s.profile_id = p.id
+      WHERE s.id = ? AND p.id = ? AND LOWER(s.action) = '4k'
+    `).bind(selfieId, body.profile_id).first<{ id: string; action: string | null; ext: string; profile_exists: string }>();
 
-        if (hasPresetId && hasPresetUrl) {
-          return errorResponse('Cannot provide both preset_image_id and preset_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    if (!validation) {
+      const debugEnabled = isDebugEnabled(env);
+      // Check if profile exists separately to provide better error message
+      const profileCheck = await DB.prepare('SELECT id FROM profiles WHERE id = ?').bind(body.profile_id).first();
+      if (!profileCheck) {
+        return errorResponse('Profile not found', 404, debugEnabled ? { profileId: body.profile_id, path } : undefined, request, env);
+      }
+      // Profile exists but selfie validation failed
+      const selfieCheck = await DB.prepare('SELECT id, action FROM selfies WHERE id = ?').bind(selfieId).first<{ id: string; action: string | null }>();
+      if (!selfieCheck) {
+        return errorResponse('Selfie not found', 404, debugEnabled ? { selfieId, profileId: body.profile_id, path } : undefined, request, env);
+      }
+      const selfieAction = selfieCheck.action?.toLowerCase();
+      return errorResponse('Only selfies with action="4k" or "4K" can be used for 4K upscaling', 400, debugEnabled ? { selfieId, selfieAction, path } : undefined, request, env);
+    }
 
-        // Validate selfie inputs (ID or URL required)
-        const hasSelfieId = body.selfie_id && body.selfie_id.trim() !== '';
-        const hasSelfieUrl = body.selfie_image_url && body.selfie_image_url.trim() !== '';
+    const imageProvider = resolveImageProvider(undefined, env, 'UPSCALE');
+    const envError = imageProvider.configError(env);
+    if (envError) {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('', 500, debugEnabled ? { error: envError, path } : undefined, request, env);
+    }
 
-        if (!hasSelfieId && !hasSelfieUrl) {
-          return errorResponse('Missing required field: selfie_id or selfie_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    // Credit deduction (after validation, before processing)
+    creditResult = await holdCredits(DB, body.profile_id, 'upscaler4k', env, request);
+    if (!creditResult.success) {
+      return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
+    }
 
-        if (hasSelfieId && hasSelfieUrl) {
-          return errorResponse('Cannot provide both selfie_id and selfie_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    const upscalerResult = await imageProvider.run({ mode: 'UPSCALE', imageUrls: [body.image_url] }, env);
 
-        // Resolve preset image URL
-        let presetImageUrl: string = '';
-        let presetResult: any = null;
-        let r2Key: string | null = null;
+    if (!upscalerResult.Success || !upscalerResult.ResultImageUrl) {
+      if (body?.profile_id) {
+        await releaseCreditCheck(DB, body.profile_id, 'upscaler4k', creditResult, 'Processing failed', request);
+      }
+      const failureCode = upscalerResult.StatusCode || 500;
+      const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
+      const debugEnabled = isDebugEnabled(env);
+      const flatDebug = debugEnabled ? buildFlatDebug(upscalerResult) : undefined;
+      const debugPayload = debugEnabled ? compact({
+        ...flatDebug,
+      }) : undefined;
 
-        if (hasPresetId) {
-          presetResult = await DB.prepare('SELECT id, ext FROM presets WHERE id = ?').bind(body.preset_image_id).first();
-          if (!presetResult) {
-            return errorResponse('Preset image not found', 404, debugEnabled ? { presetImageId: body.preset_image_id, path } : undefined, request, env);
-          }
-          r2Key = reconstructR2Key((presetResult as any).id, (presetResult as any).ext, 'preset');
-          presetImageUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-        } else if (hasPresetUrl) {
-          presetImageUrl = body.preset_image_url!;
-          if (!validateImageUrl(presetImageUrl, env)) {
-            return errorResponse('Invalid preset image URL', 400, debugEnabled ? { path } : undefined, request, env);
-          }
-          try {
-            const presetUrl = new URL(presetImageUrl);
-            const pathParts = presetUrl.pathname.split('/').filter(p => p);
-            if (pathParts.length >= 2 && ['preset', 'selfie', 'results'].includes(pathParts[0])) {
-              r2Key = `${pathParts[0]}/${pathParts[1]}`;
-            }
-          } catch {
-            // Not an R2 URL, continue without r2Key
-          }
-        }
+      return jsonResponse({
+        data: null,
+        status: 'error',
+        message: '',
+        code: failureCode,
+        ...(debugPayload ? { debug: debugPayload } : {}),
+      }, httpStatus, request, env);
+    }
 
-        // Resolve selfie image URL
-        let selfieImageUrl: string = '';
-        let selfieResult: any = null;
+    let resultUrl = upscalerResult.ResultImageUrl;
+    if (upscalerResult.ResultImageUrl?.startsWith('r2://')) {
+      const r2Key = upscalerResult.ResultImageUrl.replace('r2://', '');
+      resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
+    }
 
-        if (hasSelfieId) {
-          selfieResult = await DB.prepare(`
-            SELECT s.id, s.ext, p.id as profile_exists
-            FROM selfies s
-            INNER JOIN profiles p ON s.profile_id = p.id
-            WHERE s.id = ? AND p.id = ?
-          `).bind(body.selfie_id, body.profile_id).first();
-
-          if (!selfieResult) {
-            // Selfie not found - check for cached result (selfie may have been auto-deleted)
-            const cachedResult = await getCachedResultFromKV(env, body.selfie_id!, body.preset_image_id || null, 'aging');
-            if (cachedResult) {
-              return jsonResponse({
-                data: { resultImageUrl: cachedResult, cached: true },
-                status: 'success',
-                message: 'Cached result returned (selfie was auto-deleted after previous processing)',
-                code: 200,
-              });
-            }
-            return errorResponse('Selfie not found or does not belong to profile', 404, debugEnabled ? { selfieId: body.selfie_id, profileId: body.profile_id, path } : undefined, request, env);
-          }
+    const savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'upscaler4k', request, imageProvider.name);
+    await captureCreditHold(DB, creditResult?.holdId, savedResultId);
 
-          const selfieR2Key = reconstructR2Key((selfieResult as any).id, (selfieResult as any).ext, 'selfie');
-          selfieImageUrl = getR2PublicUrl(env, selfieR2Key, requestUrl.origin);
-        } else if (hasSelfieUrl) {
-          selfieImageUrl = body.selfie_image_url!;
-          if (!validateImageUrl(selfieImageUrl, env)) {
-            return errorResponse('Invalid selfie image URL', 400, debugEnabled ? { path } : undefined, request, env);
-          }
-        }
+    const debugEnabled = isDebugEnabled(env);
+    const flatDebug = debugEnabled ? buildFlatDebug(upscalerResult) : undefined;
+    const debugPayload = debugEnabled ? compact({
+      ...flatDebug,
+    }) : undefined;
 
-        // Safety pre-check
-        const safetyCheck = await checkImageSafetyWithFlashLite(selfieImageUrl, env);
-        if (!safetyCheck.safe) {
-          return errorResponse(
-            safetyCheck.reason || 'Image failed safety check',
-            400,
-            debugEnabled ? { path, safetyCheck: { safe: false, reason: safetyCheck.reason, category: safetyCheck.category, error: safetyCheck.error } } : undefined,
-            request,
-            env
-          );
-        }
+    if (body.profile_id) {
+      ctx.waitUntil(sendResultNotification(env, body.profile_id, 'upscaler4k', { success: true, resultId: savedResultId !== null ? String(savedResultId) : undefined }));
+    }
+    return jsonResponse({
+      data: {
+        id: savedResultId !== null ? String(savedResultId) : null,
+        resultImageUrl: resultUrl,
+      },
+      status: 'success',
+      message: upscalerResult.Message || 'Upscaling completed',
+      code: 200,
+      ...(debugPayload ? { debug: debugPayload } : {}),
+    });
+  } catch (error) {
+    if (body?.profile_id) {
+      await releaseCreditCheck(DB, body.profile_id, 'upscaler4k', creditResult, 'Processing error', request);
+    }
+    logCriticalError('/upscaler4k', error, request, env, {
+      body: {
+        image_url: body?.image_url,
+        profile_id: body?.profile_id
+      }
+    });
+    const debugEnabled = isDebugEnabled(env);
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
+  }
+};
 
-        // Simple in-memory cache for R2 head requests within this request
-        const r2HeadCache = new Map<string, any>();
-        const getCachedAsync = async <T>(key: string, compute: () => Promise<T>): Promise<T> => {
-          if (r2HeadCache.has(key)) return r2HeadCache.get(key) as T;
-          const result = await compute();
-          r2HeadCache.set(key, result);
-          return result;
-        };
+// Shared pipeline for single-image edit endpoints. An action declares its inputs, prompt and provider
+// call; input resolution, credits, refunds, result storage, selfie cleanup and the success push are
+// handled here so every action behaves the same way.
+interface ImageOperationBody {
+  selfie_id?: string;
+  selfie_image_url?: string;
+  image_id?: string;
+  image_url?: string;
+  profile_id?: string;
+  preset_image_id?: string;
+  preset_image_url?: string;
+  aspect_ratio?: string;
+  model?: string | number;
+  provider?: string;
+  additional_prompt?: string;
+  custom_prompt?: string;
+  [key: string]: any;
+}
+
+interface ImageOperationInput {
+  context: RouteContext;
+  body: ImageOperationBody & { profile_id: string };
+  imageUrl: string;
+  provider: ImageProvider;
+  aspectRatio: string;
+  size?: string;
+  presetId: string | null;
+  presetPrompt: any;               // Preset prompt_json (only when spec.preset is set)
+  extras: Record<string, any>;     // Values resolved by spec.prepare
+}
+
+interface ImageOperationSpec {
+  action: string;                          // Credit action, KV result cache key and push notification type
+  resultAction?: string;                   // results.action when it differs from action
+  providerMode: ImageProviderMode;         // Mode passed to resolveImageProvider
+  preset?: 'id' | 'id_or_url';             // Requires a preset whose prompt_json drives the edit
+  inputSafetyCheck?: boolean;              // Gemini Flash Lite check on the input image
+  outputSafetyCheck?: boolean;             // Vision SafeSearch on the result (refund + 422 when unsafe)
+  optimalSize?: boolean;                   // Derive output size from input dimensions unless aspect_ratio is explicit
+  defaultAspectRatio?: string;
+  keepSelfie?: boolean;                    // Selfie is reused across runs, skip auto-delete
+  successMessage: string;
+  prepare?: (input: ImageOperationInput) => Promise<Response | void>;
+  request: (input: ImageOperationInput) => Omit<ImageProviderRequest, 'mode'>;
+  afterSuccess?: (input: ImageOperationInput) => void;
+  responseData?: (input: ImageOperationInput, resultId: string | null) => Record<string, any>;
+  debug?: (input: ImageOperationInput) => Record<string, any>;
+}
+
+const promptToString = (prompt: unknown): string => typeof prompt === 'string' ? prompt : JSON.stringify(prompt);
+
+// Full prompt_json as text, with optional user instructions appended
+const presetPromptWithInstructions = (promptPayload: any, additionalPrompt?: string): string => {
+  const fullPromptJsonString = JSON.stringify(promptPayload, null, 2);
+  return additionalPrompt
+    ? `${fullPromptJsonString}\n\nAdditional instructions: ${additionalPrompt}`
+    : fullPromptJsonString;
+};
 
-        // Read prompt_json from R2 metadata or cache
-        let storedPromptPayload: any = null;
-        const promptCacheKV = getPromptCacheKV(env);
-        const presetImageId = hasPresetId ? body.preset_image_id : (presetResult ? (presetResult as any).id : null);
+// Read prompt_json for a preset: KV prompt cache first, then R2 object metadata
+const loadPresetPrompt = async (env: Env, R2_BUCKET: R2Bucket, cacheId: string, r2Key: string): Promise<any> => {
+  const promptCacheKV = getPromptCacheKV(env);
+  const cacheKey = `prompt:${cacheId}`;
+  if (promptCacheKV) {
+    try {
+      const cached = await promptCacheKV.get(cacheKey, 'json');
+      if (cached) return cached;
+    } catch {
+      // fallback to R2
+    }
+  }
+  try {
+    const r2Object = await R2_BUCKET.head(r2Key);
+    const promptJson = r2Object?.customMetadata?.prompt_json;
+    if (promptJson?.trim()) {
+      const parsed = JSON.parse(promptJson);
+      if (promptCacheKV) {
+        promptCacheKV.put(cacheKey, promptJson, { expirationTtl: CACHE_CONFIG.PROMPT_CACHE_TTL }).catch(() => {});
+      }
+      return parsed;
+    }
+  } catch {
+    // R2 metadata read failed
+  }
+  return null;
+};
 
-        if (presetImageId && r2Key) {
-          const cacheKey = `prompt:${presetImageId}`;
+const runImageOperation = async (context: RouteContext, spec: ImageOperationSpec): Promise<Response> => {
+  const { request, env, ctx, DB, R2_BUCKET, requestUrl, path } = context;
+  const debugEnabled = isDebugEnabled(env);
+  const resultAction = spec.resultAction || spec.action;
+  let body: ImageOperationBody | undefined;
+  let creditResult: any = null;
+  try {
+    body = await request.json() as ImageOperationBody;
+    if (!body || typeof body !== 'object') {
+      return errorResponse('Invalid request body', 400, debugEnabled ? { path } : undefined, request, env);
+    }
 
-          if (promptCacheKV) {
-            try {
-              const cached = await promptCacheKV.get(cacheKey, 'json');
-              if (cached) storedPromptPayload = cached;
-            } catch (error) {
-              // KV cache read failed, fallback to R2
-            }
-          }
+    // Accept image_id/image_url as aliases for selfie_id/selfie_image_url
+    if (body.image_id && !body.selfie_id) body.selfie_id = body.image_id;
+    if (body.image_url && !body.selfie_image_url) body.selfie_image_url = body.image_url;
 
-          if (!storedPromptPayload) {
-            try {
-              const r2Object = await getCachedAsync(`r2head:${r2Key}`, async () => await R2_BUCKET.head(r2Key));
-              const promptJson = r2Object?.customMetadata?.prompt_json;
-              if (promptJson?.trim()) {
-                storedPromptPayload = JSON.parse(promptJson);
-                if (promptCacheKV) {
-                  promptCacheKV.put(cacheKey, promptJson, { expirationTtl: CACHE_CONFIG.PROMPT_CACHE_TTL }).catch(() => {});
-                }
-              }
-            } catch (error) {
-              // R2 metadata read failed
-            }
-          }
-        }
+    const hasSelfieId = typeof body.selfie_id === 'string' && body.selfie_id.trim() !== '';
+    const hasSelfieUrl = typeof body.selfie_image_url === 'string' && body.selfie_image_url.trim() !== '';
+    if (!hasSelfieId && !hasSelfieUrl) {
+      return errorResponse('Missing required field: selfie_id or selfie_image_url (or image_id/image_url)', 400, debugEnabled ? { path } : undefined, request, env);
+    }
+    if (hasSelfieId && hasSelfieUrl) {
+      return errorResponse('Cannot provide both selfie_id and selfie_image_url (or image_id and image_url)', 400, debugEnabled ? { path } : undefined, request, env);
+    }
 
-        const validAspectRatio = await resolveAspectRatio(body.aspect_ratio, selfieImageUrl, env, { allowOriginal: true });
-        const modelParam = body.model;
-        const effectiveProvider = getEffectiveProvider(body, env, 'AGING');
+    if (!body.profile_id) {
+      return errorResponse('Missing required field: profile_id', 400, debugEnabled ? { path } : undefined, request, env);
+    }
+    const profileId = body.profile_id;
 
-        const userExplicitlySetAspectRatio = body.aspect_ratio && body.aspect_ratio.trim() !== '' && body.aspect_ratio.toLowerCase() !== 'original';
-        let sizeForProvider: string | undefined;
-        if (!userExplicitlySetAspectRatio) {
-          const { getImageDimensionsExtended, calculateOptimalSize } = await import('./utils');
-          const dims = await getImageDimensionsExtended(selfieImageUrl, env);
-          if (dims) {
-            const optimal = calculateOptimalSize(dims.width, dims.height, 1536, 256);
-            sizeForProvider = optimal.sizeString;
-          }
-        }
+    // Validate preset inputs (ID, or URL when allowed)
+    if (body.preset_image_id) {
+      const normalized = normalizePresetId(body.preset_image_id);
+      if (normalized) body.preset_image_id = normalized;
+    }
+    const hasPresetId = typeof body.preset_image_id === 'string' && body.preset_image_id.trim() !== '';
+    const hasPresetUrl = spec.preset === 'id_or_url' && typeof body.preset_image_url === 'string' && body.preset_image_url.trim() !== '';
+    if (spec.preset) {
+      if (!hasPresetId && !hasPresetUrl) {
+        const field = spec.preset === 'id' ? 'preset_image_id' : 'preset_image_id or preset_image_url';
+        return errorResponse(`Missing required field: ${field}`, 400, debugEnabled ? { path } : undefined, request, env);
+      }
+      if (hasPresetId && hasPresetUrl) {
+        return errorResponse('Cannot provide both preset_image_id and preset_image_url', 400, debugEnabled ? { path } : undefined, request, env);
+      }
+    }
+
+    const providerChain = resolveImageProviderChain(body, env, spec.providerMode);
+    const provider = providerChain[0];
+    const envError = provider.configError(env);
+    if (envError) {
+      return errorResponse('Missing environment configuration', 500, debugEnabled ? { error: envError, path } : undefined, request, env);
+    }
 
-        let agingResult;
+    const profileCheck = await DB.prepare('SELECT id FROM profiles WHERE id = ?').bind(profileId).first();
+    if (!profileCheck) {
+      return errorResponse('Profile not found', 404, debugEnabled ? { profileId, path } : undefined, request, env);
+    }
 
-        if (!storedPromptPayload) {
-          return errorResponse('Prompt JSON not found in preset image metadata', 400, debugEnabled ? { path } : undefined, request, env);
+    // Resolve preset prompt_json
+    let presetId: string | null = null;
+    let presetPrompt: any = null;
+    let presetPricing: PresetPricing | null = null;
+    if (spec.preset) {
+      let presetR2Key: string | null = null;
+      if (hasPresetId) {
+        const presetResult = await DB.prepare('SELECT id, ext, is_premium, credit_surcharge FROM presets WHERE id = ?').bind(body.preset_image_id).first();
+        if (!presetResult) {
+          return errorResponse('Preset image not found', 404, debugEnabled ? { presetImageId: body.preset_image_id, path } : undefined, request, env);
         }
-
-        // Credit deduction (after validation, before processing)
-        creditResult = await deductCredits(DB, body.profile_id, 'aging', env, request);
-        if (!creditResult.success) {
-          return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
+        presetId = (presetResult as any).id;
+        presetPricing = getPresetPricing([presetResult as any]);
+        presetR2Key = reconstructR2Key((presetResult as any).id, (presetResult as any).ext, 'preset');
+      } else {
+        if (!validateImageUrl(body.preset_image_url!, env)) {
+          return errorResponse('Invalid preset image URL', 400, debugEnabled ? { path } : undefined, request, env);
         }
-
-        const useWaveSpeedStyleAging = effectiveProvider === 'wavespeed' || effectiveProvider === 'wavespeed_gemini_2_5_flash_image';
-        if (useWaveSpeedStyleAging) {
-          const isGeminiProvider = effectiveProvider === 'wavespeed_gemini_2_5_flash_image';
-          let finalPrompt: string;
-          if (isGeminiProvider) {
-            // Gemini API needs plain text, not JSON
-            const p = storedPromptPayload as any;
-            const parts: string[] = [];
-            if (p.prompt) parts.push(p.prompt);
-            if (p.style) parts.push(`Style: ${p.style}`);
-            if (p.lighting) parts.push(`Lighting: ${p.lighting}`);
-            if (p.composition) parts.push(`Composition: ${p.composition}`);
-            if (p.camera) parts.push(`Camera: ${p.camera}`);
-            if (p.background) parts.push(`Background: ${p.background}`);
-            finalPrompt = parts.join('. ');
-            if (body.additional_prompt) finalPrompt += ` ${body.additional_prompt}`;
-          } else {
-            const fullPromptJsonString = JSON.stringify(storedPromptPayload, null, 2);
-            finalPrompt = body.additional_prompt
-              ? `${fullPromptJsonString}\n\nAdditional instructions: ${body.additional_prompt}`
-              : fullPromptJsonString;
-          }
-          agingResult = await callNanoBanana(
-            finalPrompt,
-            selfieImageUrl,
-            [selfieImageUrl],
-            env,
-            validAspectRatio,
-            modelParam,
-            { provider: 'wavespeed_gemini_2_5_flash_image', size: sizeForProvider }
-          );
-        } else {
-          const augmentedPrompt = augmentVertexPrompt(storedPromptPayload, body.additional_prompt);
-
-          agingResult = await callNanoBanana(
-            augmentedPrompt,
-            selfieImageUrl,
-            selfieImageUrl,
-            env,
-            validAspectRatio,
-            modelParam,
-            { skipFacialPreservation: false }
-          );
+        const urlPreset = await findPresetByImageUrl(DB, body.preset_image_url!);
+        if (urlPreset === null) {
+          return errorResponse('Preset image not found', 404, debugEnabled ? { url: body.preset_image_url, path } : undefined, request, env);
         }
-
-        if (!agingResult.Success || !agingResult.ResultImageUrl) {
-          if (body?.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'aging', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
+        if (urlPreset) {
+          presetId = urlPreset.id;
+          presetPricing = getPresetPricing([urlPreset]);
+          presetR2Key = reconstructR2Key(urlPreset.id, urlPreset.ext, 'preset');
+        } else {
+          try {
+            const presetUrl = new URL(body.preset_image_url!);
+            const pathParts = presetUrl.pathname.split('/').filter(p => p);
+            if (pathParts.length >= 2 && ['selfie', 'results'].includes(pathParts[0])) {
+              presetR2Key = `${pathParts[0]}/${pathParts[1]}`;
+            }
+          } catch {
+            // Not an R2 URL, no metadata to read
           }
-          const failureCode = agingResult.StatusCode || 500;
-          const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-          const flatDebug = debugEnabled ? buildFlatDebug(agingResult) : undefined;
+        }
+      }
+      if (presetR2Key) {
+        presetPrompt = await loadPresetPrompt(env, R2_BUCKET, presetId || presetR2Key, presetR2Key);
+      }
+      if (!presetPrompt) {
+        return errorResponse('Prompt JSON not found in preset image metadata', 400, debugEnabled ? { presetImageId: body.preset_image_id, path } : undefined, request, env);
+      }
+    }
 
+    // Resolve input image URL
+    let imageUrl: string = '';
+    let selfieResult: any = null;
+    if (hasSelfieId) {
+      selfieResult = await DB.prepare(`
+        SELECT s.id, s.ext
+        FROM selfies s
+        INNER JOIN profiles p ON s.profile_id = p.id
+        WHERE s.id = ? AND p.id = ?
+      `).bind(body.selfie_id, profileId).first();
+
+      if (!selfieResult) {
+        // Selfie not found - check for cached result (selfie may have been auto-deleted)
+        const cachedResult = await getCachedResultFromKV(env, body.selfie_id!, presetId, spec.action);
+        if (cachedResult) {
           return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: failureCode,
-            ...(debugEnabled && flatDebug ? { debug: compact({ ...flatDebug }) } : {}),
-          }, httpStatus);
+            data: { resultImageUrl: cachedResult, cached: true },
+            status: 'success',
+            message: 'Cached result returned (selfie was auto-deleted after previous processing)',
+            code: 200,
+          });
         }
+        return errorResponse('Selfie not found or does not belong to profile', 404, debugEnabled ? { selfieId: body.selfie_id, profileId, path } : undefined, request, env);
+      }
 
-        let resultUrl = agingResult.ResultImageUrl;
-        if (agingResult.ResultImageUrl?.startsWith('r2://')) {
-          const r2ResultKey = agingResult.ResultImageUrl.replace('r2://', '');
-          resultUrl = getR2PublicUrl(env, r2ResultKey, requestUrl.origin);
-        }
+      const selfieR2Key = reconstructR2Key(selfieResult.id, selfieResult.ext, 'selfie');
+      imageUrl = getR2PublicUrl(env, selfieR2Key, requestUrl.origin);
+    } else {
+      imageUrl = body.selfie_image_url!;
+      if (!validateImageUrl(imageUrl, env)) {
+        return errorResponse('Invalid image URL', 400, debugEnabled ? { path } : undefined, request, env);
+      }
+    }
 
-        const savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'aging', request);
+    if (spec.inputSafetyCheck) {
+      const safetyCheck = await checkImageSafetyWithFlashLite(imageUrl, env);
+      if (!safetyCheck.safe) {
+        console.log(`[${resultAction}] Safety check failed:`, safetyCheck.reason || safetyCheck.error);
+        return errorResponse(
+          safetyCheck.reason || 'Image failed safety check',
+          400,
+          debugEnabled ? { path, safetyCheck: { safe: false, reason: safetyCheck.reason, category: safetyCheck.category, error: safetyCheck.error } } : undefined,
+          request,
+          env
+        );
+      }
+    }
 
-        // Cache result in KV for retry handling (before selfie deletion)
-        if (hasSelfieId && body.selfie_id) {
-          ctx.waitUntil(cacheResultInKV(env, body.selfie_id, body.preset_image_id || null, 'aging', resultUrl));
-        }
+    const requestedAspectRatio = body.aspect_ratio || spec.defaultAspectRatio;
+    const input: ImageOperationInput = {
+      context,
+      body: body as ImageOperationBody & { profile_id: string },
+      imageUrl,
+      provider,
+      aspectRatio: await resolveAspectRatio(requestedAspectRatio, imageUrl, env, { allowOriginal: true }),
+      presetId,
+      presetPrompt,
+      extras: {},
+    };
 
-        // Aging does NOT auto-delete selfie after processing (selfie is reused for multiple aging presets)
+    if (spec.prepare) {
+      const prepareResponse = await spec.prepare(input);
+      if (prepareResponse) return prepareResponse;
+    }
 
-        const flatDebug = debugEnabled ? buildFlatDebug(agingResult) : undefined;
-        return jsonResponse({
-          data: {
-            id: savedResultId !== null ? String(savedResultId) : null,
-            resultImageUrl: resultUrl,
-          },
-          status: 'success',
-          message: agingResult.Message || 'Aging transformation completed',
-          code: 200,
-          ...(debugEnabled && flatDebug ? { debug: compact({ ...flatDebug }) } : {}),
-        });
-      } catch (error) {
-        if (body?.profile_id && creditResult?.cost > 0) {
-          await refundCredits(DB, body.profile_id, 'aging', creditResult.fromSub, creditResult.fromConsumable, 'Processing error', request);
-        }
-        logCriticalError('/aging', error, request, env, {
-          body: {
-            preset_image_id: body?.preset_image_id,
-            selfie_id: body?.selfie_id,
-            profile_id: body?.profile_id,
-            aspect_ratio: body?.aspect_ratio
-          }
-        });
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
+    const userExplicitlySetAspectRatio = requestedAspectRatio && requestedAspectRatio.trim() !== '' && requestedAspectRatio.toLowerCase() !== 'original';
+    if (spec.optimalSize && !userExplicitlySetAspectRatio) {
+      const { getImageDimensionsExtended, calculateOptimalSize } = await import('./utils');
+      const dims = await getImageDimensionsExtended(imageUrl, env);
+      if (dims) {
+        input.size = calculateOptimalSize(dims.width, dims.height, 1536, 256).sizeString;
       }
     }
 
-    // Handle remove-object endpoint - removes objects from image using mask
-    if (path === '/remove-object' && request.method === 'POST') {
-      let body: {
-        selfie_id?: string;
-        selfie_image_url?: string;
-        image_id?: string;
-        image_url?: string;
-        mask_id?: string;
-        mask_image_url?: string;
-        profile_id?: string;
-        aspect_ratio?: string;
-        model?: string | number;
-        provider?: 'vertex' | 'wavespeed';
-      } | undefined;
-      let creditResult: any = null;
-      try {
-        body = await request.json() as typeof body;
+    // Credit deduction (after validation, before processing)
+    creditResult = await holdCredits(DB, profileId, spec.action, env, request, 1, {}, presetPricing);
+    if (!creditResult.success) {
+      return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
+    }
 
-        // Accept image_id/image_url as aliases for selfie_id/selfie_image_url
-        if (body?.image_id && !body.selfie_id) body.selfie_id = body.image_id;
-        if (body?.image_url && !body.selfie_image_url) body.selfie_image_url = body.image_url;
+    // The model the spec sent (input.body.model for the specs that forward it), recorded with the result and usage
+    let sentModel: string | number | undefined;
+    const { result, provider: usedProvider, attempts: providerAttempts } = await runImageProviderChain(providerChain, env, (candidate) => {
+      input.provider = candidate;
+      const providerRequest = spec.request(input);
+      sentModel = providerRequest.model;
+      return { mode: spec.providerMode, ...providerRequest };
+    });
+    input.provider = usedProvider;
+    const usedModel = resolveUsageModel(usedProvider.name, sentModel);
+    const recordUsage = (outcome: PresetUsageOutcome) => {
+      if (presetId) ctx.waitUntil(recordPresetUsage(DB, { preset_id: presetId, action: spec.action, profile_id: profileId, provider: usedProvider.name, model: usedModel, outcome }));
+    };
 
-        const hasSelfieId = body?.selfie_id && body.selfie_id.trim() !== '';
-        const hasSelfieUrl = body?.selfie_image_url && body.selfie_image_url.trim() !== '';
-        const hasMaskId = body?.mask_id && body.mask_id.trim() !== '';
-        const hasMaskUrl = body?.mask_image_url && body.mask_image_url.trim() !== '';
+    if (!result.Success || !result.ResultImageUrl) {
+      recordUsage(getPresetUsageOutcome(result));
+      await releaseCreditCheck(DB, profileId, spec.action, creditResult, 'Processing failed', request);
+      const failureCode = result.StatusCode || 500;
+      const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
+      const flatDebug = debugEnabled ? buildFlatDebug(result) : undefined;
+      return jsonResponse({
+        data: null,
+        status: 'error',
+        message: '',
+        code: failureCode,
+        ...(flatDebug ? { debug: compact({ ...flatDebug, providerAttempts }) } : {}),
+      }, httpStatus, request, env);
+    }
 
-        if (!hasSelfieId && !hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: selfie_id or selfie_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    let resultUrl = result.ResultImageUrl;
+    if (result.ResultImageUrl.startsWith('r2://')) {
+      resultUrl = getR2PublicUrl(env, result.ResultImageUrl.replace('r2://', ''), requestUrl.origin);
+    }
 
-        if (hasSelfieId && hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Cannot provide both selfie_id and selfie_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    // Post-processing safety scan on result image using Google Vision API
+    let outputSafetyCheck: Awaited<ReturnType<typeof checkSafeSearch>> | null = null;
+    if (spec.outputSafetyCheck) {
+      outputSafetyCheck = await checkSafeSearch(resultUrl, env);
+      if (!outputSafetyCheck.isSafe) {
+        recordUsage('safety_blocked');
+        await releaseCreditCheck(DB, profileId, spec.action, creditResult, 'Content safety violation', request);
+        return jsonResponse({
+          data: null,
+          status: 'error',
+          message: '',
+          code: outputSafetyCheck.statusCode || 1001,
+          ...(debugEnabled ? { debug: compact({ ...buildFlatDebug(result), visionScan: outputSafetyCheck.debug || null, safetyCategory: outputSafetyCheck.violationCategory, safetyLevel: outputSafetyCheck.violationLevel, safetyDetails: outputSafetyCheck.details }) } : {}),
+        }, 422, request, env);
+      }
+    }
 
-        if (!hasMaskId && !hasMaskUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: mask_id or mask_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    recordUsage('succeeded');
+    const savedResultId = await saveResultToDatabase(DB, resultUrl, profileId, env, R2_BUCKET, resultAction, request, usedProvider.name, presetId, usedModel);
+    await captureCreditHold(DB, creditResult?.holdId, savedResultId);
+    const resultId = savedResultId !== null ? String(savedResultId) : null;
 
-        if (hasMaskId && hasMaskUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Cannot provide both mask_id and mask_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    // Cache result in KV for retry handling (before selfie deletion)
+    if (hasSelfieId && body.selfie_id) {
+      ctx.waitUntil(cacheResultInKV(env, body.selfie_id, presetId, spec.action, resultUrl));
+    }
 
-        if (!body?.profile_id) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    // Auto-delete selfie after processing unless the action reuses it
+    if (selfieResult && !spec.keepSelfie) {
+      ctx.waitUntil(deleteSelfieAfterProcessing(selfieResult.id, selfieResult.ext, env, DB, R2_BUCKET, requestUrl.origin));
+    }
 
-        const profileCheck = await DB.prepare(
-          'SELECT id FROM profiles WHERE id = ?'
-        ).bind(body.profile_id).first();
+    if (spec.afterSuccess) spec.afterSuccess(input);
 
-        if (!profileCheck) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Profile not found', 404, debugEnabled ? { profileId: body.profile_id, path } : undefined, request, env);
-        }
+    ctx.waitUntil(sendResultNotification(env, profileId, spec.action, { success: true, resultId: resultId || undefined }));
 
-        // Resolve selfie (original) image URL
-        let selfieUrl: string = '';
-        let selfieResult: any = null;
+    const flatDebug = debugEnabled ? buildFlatDebug(result) : undefined;
+    return jsonResponse({
+      data: {
+        id: resultId,
+        resultImageUrl: resultUrl,
+        ...(spec.responseData ? spec.responseData(input, resultId) : {}),
+      },
+      status: 'success',
+      message: result.Message || spec.successMessage,
+      code: 200,
+      ...(debugEnabled ? { debug: compact({
+        ...flatDebug,
+        provider: usedProvider.name,
+        providerAttempts: providerAttempts.length > 1 ? providerAttempts : undefined,
+        aspectRatio: { requested: requestedAspectRatio || 'undefined', resolved: input.aspectRatio, size: input.size },
+        ...(outputSafetyCheck ? { visionScan: outputSafetyCheck.debug || null, safetyDetails: outputSafetyCheck.details } : {}),
+        ...(spec.debug ? spec.debug(input) : {}),
+      }) } : {}),
+    });
+  } catch (error) {
+    if (body?.profile_id) {
+      await releaseCreditCheck(DB, body.profile_id, spec.action, creditResult, 'Processing error', request);
+    }
+    logCriticalError(`/${resultAction}`, error, request, env, {
+      body: {
+        selfie_id: body?.selfie_id,
+        selfie_image_url: body?.selfie_image_url,
+        preset_image_id: body?.preset_image_id,
+        profile_id: body?.profile_id,
+        aspect_ratio: body?.aspect_ratio,
+      }
+    });
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
+  }
+};
 
-        if (hasSelfieId) {
-          selfieResult = await DB.prepare(`
-            SELECT s.id, s.ext, p.id as profile_exists
-            FROM selfies s
-            INNER JOIN profiles p ON s.profile_id = p.id
-            WHERE s.id = ? AND p.id = ?
-          `).bind(body.selfie_id, body.profile_id).first();
-
-          if (!selfieResult) {
-            const cachedResult = await getCachedResultFromKV(env, body.selfie_id!, null, 'remove_object');
-            if (cachedResult) {
-              return jsonResponse({
-                data: { resultImageUrl: cachedResult, cached: true },
-                status: 'success',
-                message: 'Cached result returned (selfie was auto-deleted after previous processing)',
-                code: 200,
-              });
-            }
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Selfie not found or does not belong to profile', 404, debugEnabled ? { selfieId: body.selfie_id, profileId: body.profile_id, path } : undefined, request, env);
-          }
+// Handle enhance endpoint
+const handleEnhance = (context: RouteContext): Promise<Response> => runImageOperation(context, {
+  action: 'enhance',
+  providerMode: 'ENHANCE',
+  inputSafetyCheck: true,
+  optimalSize: true,
+  successMessage: 'Image enhancement completed',
+  // Always use Flux Klein v3 for enhance
+  request: ({ imageUrl, aspectRatio, size }) => ({
+    prompt: promptToString(IMAGE_PROCESSING_PROMPTS.ENHANCE), imageUrls: [imageUrl], aspectRatio, size, endpoint: API_ENDPOINTS.WAVESPEED_FLUX_KLEIN_EDIT_V3,
+  }),
+});
+
+// Handle beauty endpoint
+const handleBeauty = (context: RouteContext): Promise<Response> => runImageOperation(context, {
+  action: 'beauty',
+  providerMode: 'BEAUTY',
+  inputSafetyCheck: true,
+  optimalSize: true,
+  successMessage: 'Image beautification completed',
+  request: ({ body, imageUrl, aspectRatio, size }) => ({
+    prompt: IMAGE_PROCESSING_PROMPTS.BEAUTY, imageUrls: [imageUrl], aspectRatio, size, model: body.model,
+  }),
+});
+
+// Handle filter endpoint: 1 image (user) + prompt from preset prompt_json metadata (full JSON object), Flux WaveSpeed only
+const handleFilter = (context: RouteContext): Promise<Response> => runImageOperation(context, {
+  action: 'filter',
+  providerMode: 'FILTER',
+  preset: 'id_or_url',
+  outputSafetyCheck: true,
+  optimalSize: true,
+  keepSelfie: true,
+  successMessage: 'Style filter applied successfully',
+  request: ({ body, imageUrl, aspectRatio, size, presetPrompt }) => ({
+    prompt: presetPromptWithInstructions(presetPrompt, body.additional_prompt), imageUrls: [imageUrl], aspectRatio, size, model: body.model,
+  }),
+  // resultId kept for clients built against the original filter response
+  responseData: (_input, resultId) => ({ resultId }),
+});
+
+// Handle restore endpoint
+const handleRestore = (context: RouteContext): Promise<Response> => runImageOperation(context, {
+  action: 'restore',
+  providerMode: 'RESTORE',
+  optimalSize: true,
+  successMessage: 'Image restoration completed',
+  request: ({ imageUrl, aspectRatio, size }) => ({
+    prompt: promptToString(IMAGE_PROCESSING_PROMPTS.RESTORE), imageUrls: [imageUrl], aspectRatio, size, endpoint: API_ENDPOINTS.WAVESPEED_FLUX_KLEIN_EDIT_V3,
+  }),
+});
+
+// Handle aging endpoint: prompt from preset prompt_json metadata
+const handleAging = (context: RouteContext): Promise<Response> => runImageOperation(context, {
+  action: 'aging',
+  providerMode: 'AGING',
+  preset: 'id_or_url',
+  inputSafetyCheck: true,
+  optimalSize: true,
+  // Aging does NOT auto-delete selfie after processing (selfie is reused for multiple aging presets)
+  keepSelfie: true,
+  successMessage: 'Aging transformation completed',
+  request: ({ body, imageUrl, provider, aspectRatio, size, presetPrompt }) => {
+    if (provider.name === 'vertex') {
+      return { prompt: augmentVertexPrompt(presetPrompt, body.additional_prompt), imageUrls: [imageUrl], aspectRatio, model: body.model, skipFacialPreservation: false };
+    }
+    // Gemini API needs plain text, not JSON
+    const parts: string[] = [];
+    if (presetPrompt.prompt) parts.push(presetPrompt.prompt);
+    if (presetPrompt.style) parts.push(`Style: ${presetPrompt.style}`);
+    if (presetPrompt.lighting) parts.push(`Lighting: ${presetPrompt.lighting}`);
+    if (presetPrompt.composition) parts.push(`Composition: ${presetPrompt.composition}`);
+    if (presetPrompt.camera) parts.push(`Camera: ${presetPrompt.camera}`);
+    if (presetPrompt.background) parts.push(`Background: ${presetPrompt.background}`);
+    let finalPrompt = parts.join('. ');
+    if (body.additional_prompt) finalPrompt += ` ${body.additional_prompt}`;
+    return { prompt: finalPrompt, imageUrls: [imageUrl], aspectRatio, size, model: body.model };
+  },
+});
+
+// Handle remove-object endpoint - removes objects from image using mask
+const handleRemoveObject = (context: RouteContext): Promise<Response> => runImageOperation(context, {
+  action: 'remove_object',
+  resultAction: 'remove-object',
+  providerMode: 'REMOVE_OBJECT',
+  successMessage: 'Object removal completed',
+  // Resolve mask image URL (uploaded to the selfies table under the mask/ prefix)
+  prepare: async ({ context, body, extras }) => {
+    const { request, env, DB, requestUrl, path } = context;
+    const debugEnabled = isDebugEnabled(env);
+    if (body.mask_id) {
+      const maskResult: any = await DB.prepare(`
+        SELECT s.id, s.ext
+        FROM selfies s
+        INNER JOIN profiles p ON s.profile_id = p.id
+        WHERE s.id = ? AND p.id = ?
+      `).bind(body.mask_id, body.profile_id).first();
+      if (!maskResult) {
+        return errorResponse('Mask not found or does not belong to profile', 404, debugEnabled ? { maskId: body.mask_id, profileId: body.profile_id, path } : undefined, request, env);
+      }
+      extras.mask = maskResult;
+      extras.maskUrl = getR2PublicUrl(env, reconstructR2Key(maskResult.id, maskResult.ext, 'mask'), requestUrl.origin);
+    } else {
+      if (!validateImageUrl(body.mask_image_url, env)) {
+        return errorResponse('Invalid mask image URL', 400, debugEnabled ? { path } : undefined, request, env);
+      }
+      extras.maskUrl = body.mask_image_url;
+    }
+  },
+  // Use WaveSpeed Bria Eraser API (no prompt needed, just image + mask)
+  request: ({ imageUrl, extras }) => ({ imageUrls: [imageUrl], maskUrl: extras.maskUrl }),
+  // Auto-delete mask after processing
+  afterSuccess: ({ context, extras }) => {
+    if (!extras.mask) return;
+    const { ctx, DB, R2_BUCKET } = context;
+    const { id: maskId, ext: maskExt } = extras.mask;
+    ctx.waitUntil((async () => {
+      try {
+        await DB.prepare('DELETE FROM selfies WHERE id = ?').bind(maskId).run();
+        await R2_BUCKET.delete(reconstructR2Key(maskId, maskExt, 'mask'));
+        console.log(`[RemoveObject] Auto-deleted mask ${maskId}`);
+      } catch (e) {
+        console.error(`[RemoveObject] Failed to auto-delete mask ${maskId}:`, e);
+      }
+    })());
+  },
+});
+
+// Handle expression endpoint - modify facial expression using predefined prompts
+const handleExpression = (context: RouteContext): Promise<Response> => runImageOperation(context, {
+  action: 'expression',
+  providerMode: 'EXPRESSION',
+  successMessage: 'Expression modification completed',
+  request: ({ body, imageUrl, aspectRatio }) => ({
+    // expression is normalized to a lowercase EXPRESSION key by EXPRESSION_SCHEMA
+    prompt: IMAGE_PROCESSING_PROMPTS.EXPRESSION[body.expression.toUpperCase()],
+    imageUrls: [imageUrl], aspectRatio, model: body.model, skipFacialPreservation: true,
+  }),
+  responseData: ({ body }) => ({ expression: body.expression }),
+});
+
+// Handle expand endpoint - AI image expansion/outpainting
+const handleExpand = (context: RouteContext): Promise<Response> => runImageOperation(context, {
+  action: 'expand',
+  providerMode: 'EXPAND',
+  successMessage: 'Image expansion completed',
+  // Send PNG (with transparent areas to fill) directly to WaveSpeed
+  request: ({ imageUrl }) => ({ prompt: IMAGE_PROCESSING_PROMPTS.EXPAND, imageUrls: [imageUrl] }),
+});
+
+// Handle editor endpoint - general-purpose image editing with user's custom prompt
+const handleEditor = (context: RouteContext): Promise<Response> => runImageOperation(context, {
+  action: 'editor',
+  providerMode: 'EDITOR',
+  inputSafetyCheck: true,
+  outputSafetyCheck: true,
+  optimalSize: true,
+  successMessage: 'Image edit completed',
+  // Resolve optional reference image (uploaded with type=selfie, action=ref)
+  prepare: async ({ context, body, extras }) => {
+    const { request, env, DB, requestUrl, path } = context;
+    const debugEnabled = isDebugEnabled(env);
+    if (body.ref_image_id && body.ref_image_id.trim() !== '') {
+      const refResult: any = await DB.prepare(`
+        SELECT s.id, s.ext FROM selfies s
+        WHERE s.id = ? AND s.profile_id = ?
+      `).bind(body.ref_image_id, body.profile_id).first();
+      if (!refResult) {
+        return errorResponse('Reference image not found or does not belong to profile', 404, debugEnabled ? { refImageId: body.ref_image_id, path } : undefined, request, env);
+      }
+      extras.ref = refResult;
+      extras.refImageUrl = getR2PublicUrl(env, reconstructR2Key(refResult.id, refResult.ext, 'selfie'), requestUrl.origin);
+    } else if (body.ref_image_url && body.ref_image_url.trim() !== '') {
+      if (!validateImageUrl(body.ref_image_url, env)) {
+        return errorResponse('Invalid ref_image_url', 400, debugEnabled ? { path } : undefined, request, env);
+      }
+      extras.refImageUrl = body.ref_image_url;
+    }
+  },
+  // Gemini only if the user explicitly requests it, otherwise Flux Klein v3
+  request: ({ body, imageUrl, aspectRatio, size, extras }) => ({
+    prompt: promptToString(IMAGE_PROCESSING_PROMPTS.EDITOR).replace('{{custom_prompt}}', body.custom_prompt!.trim()),
+    imageUrls: extras.refImageUrl ? [imageUrl, extras.refImageUrl] : [imageUrl],
+    aspectRatio,
+    size,
+    endpoint: API_ENDPOINTS.WAVESPEED_FLUX_KLEIN_EDIT_V3,
+  }),
+  // Auto-delete reference image after processing
+  afterSuccess: ({ context, extras }) => {
+    if (!extras.ref) return;
+    const { env, ctx, DB, R2_BUCKET, requestUrl } = context;
+    ctx.waitUntil(deleteSelfieAfterProcessing(extras.ref.id, extras.ref.ext, env, DB, R2_BUCKET, requestUrl.origin));
+  },
+  debug: ({ provider }) => ({ provider: provider.name === 'wavespeed' ? 'wavespeed_flux_klein_v3' : provider.name }),
+});
+
+// Handle replace-object endpoint - replace highlighted area with custom content using WaveSpeed edit
+const handleReplaceObject = (context: RouteContext): Promise<Response> => runImageOperation(context, {
+  action: 'replace_object',
+  resultAction: 'replace-object',
+  providerMode: 'REPLACE_OBJECT',
+  outputSafetyCheck: true,
+  successMessage: 'Object replacement completed',
+  request: ({ body, imageUrl }) => ({
+    prompt: IMAGE_PROCESSING_PROMPTS.REPLACE_OBJECT.replace('{{custom_prompt}}', body.custom_prompt!.trim()), imageUrls: [imageUrl],
+  }),
+});
+
+// Handle remove-text endpoint - remove highlighted text from image using Gemini 2.5 Flash
+const handleRemoveText = (context: RouteContext): Promise<Response> => runImageOperation(context, {
+  action: 'remove_text',
+  resultAction: 'remove-text',
+  providerMode: 'REMOVE_TEXT',
+  successMessage: 'Text removal completed',
+  request: ({ imageUrl }) => ({ prompt: IMAGE_PROCESSING_PROMPTS.REMOVE_TEXT, imageUrls: [imageUrl] }),
+});
+
+// Handle hair-style endpoint - apply hair style preset to selfie using WaveSpeed Gemini 2.5 Flash Image Edit
+const handleHairStyle = (context: RouteContext): Promise<Response> => runImageOperation(context, {
+  action: 'hair_style',
+  resultAction: 'hair-style',
+  providerMode: 'HAIR_STYLE',
+  preset: 'id',
+  defaultAspectRatio: 'original',
+  successMessage: 'Hair style applied successfully',
+  prepare: async ({ context, presetId, presetPrompt }) => {
+    if (typeof presetPrompt?.prompt !== 'string' || presetPrompt.prompt.trim() === '') {
+      const { request, env, path } = context;
+      return errorResponse('Invalid prompt_json in preset metadata', 400, isDebugEnabled(env) ? { presetId, path } : undefined, request, env);
+    }
+  },
+  request: ({ imageUrl, aspectRatio, presetPrompt }) => ({ prompt: presetPrompt.prompt, imageUrls: [imageUrl], aspectRatio }),
+});
+
+// Handle config endpoint - returns public configuration
+const handleConfig = async ({ request, env, path }: RouteContext): Promise<Response> => {
+  const backendDomain = env.BACKEND_DOMAIN;
+  const r2Domain = env.R2_DOMAIN;
+  const debugEnabled = isDebugEnabled(env);
+  const promptCacheKV = getPromptCacheKV(env);
+  const kvCacheAvailable = !!promptCacheKV;
+
+  let kvCacheTest = null;
+  let kvCacheDetails = null;
+  if (kvCacheAvailable && promptCacheKV) {
+    try {
+      const testKey = `__test__${Date.now()}`;
+      const testValue = JSON.stringify({ test: true, timestamp: Date.now() });
 
-          const selfieR2Key = reconstructR2Key((selfieResult as any).id, (selfieResult as any).ext, 'selfie');
-          selfieUrl = getR2PublicUrl(env, selfieR2Key, requestUrl.origin);
-        } else {
-          selfieUrl = body.selfie_image_url!;
-          if (!validateImageUrl(selfieUrl, env)) {
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Invalid selfie image URL', 400, debugEnabled ? { path } : undefined, request, env);
-          }
-        }
+      await promptCacheKV.put(testKey, testValue, { expirationTtl: 60 });
+
+      const readBack = await promptCacheKV.get(testKey, 'json');
+      if (readBack && (readBack as any).test) {
+        await promptCacheKV.delete(testKey);
+        kvCacheTest = 'working';
+        kvCacheDetails = {
+          write: 'success',
+          read: 'success',
+          delete: 'success'
+        };
+      } else {
+        kvCacheTest = 'write_success_read_failed';
+        kvCacheDetails = {
+          write: 'success',
+          read: 'failed',
+          readBack: readBack
+        };
+      }
+    } catch (error) {
+      kvCacheTest = `error: ${error instanceof Error ? error.message : String(error)}`;
+      kvCacheDetails = {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined
+      };
+    }
+  } else {
+    kvCacheDetails = {
+      reason: 'Prompt cache KV not bound',
+      bindingName: env.PROMPT_CACHE_KV_BINDING_NAME || 'not set',
+      envKeys: Object.keys(env).filter(k => k.includes('KV') || k.includes('CACHE') || k.includes('PROMPT'))
+    };
+  }
 
-        // Resolve mask image URL
-        let maskUrl: string = '';
-        let maskResult: any = null;
+  return jsonResponse({
+    data: {
+      backendDomain: backendDomain || null,
+      r2Domain: r2Domain || null,
+      kvCache: {
+        available: kvCacheAvailable,
+        test: kvCacheTest,
+        details: kvCacheDetails
+      }
+    },
+    status: 'success',
+    message: 'Configuration retrieved successfully',
+    code: 200,
+    ...(debugEnabled ? { debug: { path, backendDomain: !!backendDomain, r2Domain: !!r2Domain, kvCacheAvailable, envKeys: Object.keys(env) } } : {})
+  }, 200, request, env);
+};
 
-        if (hasMaskId) {
-          maskResult = await DB.prepare(`
-            SELECT s.id, s.ext, p.id as profile_exists
-            FROM selfies s
-            INNER JOIN profiles p ON s.profile_id = p.id
-            WHERE s.id = ? AND p.id = ?
-          `).bind(body.mask_id, body.profile_id).first();
+// GET /openapi.json - OpenAPI 3.1 document built from ROUTES (cached per isolate, keyed by origin)
+let openApiCache: { serverUrl: string; json: string } | null = null;
+const handleOpenApi = async ({ request, env, requestUrl }: RouteContext): Promise<Response> => {
+  const serverUrl = requestUrl.origin;
+  if (!openApiCache || openApiCache.serverUrl !== serverUrl) {
+    openApiCache = { serverUrl, json: JSON.stringify(buildOpenApiDocument(ROUTES, serverUrl)) };
+  }
+  return new Response(openApiCache.json, {
+    status: 200,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=300', ...getCorsHeaders(request, env) },
+  });
+};
 
-          if (!maskResult) {
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Mask not found or does not belong to profile', 404, debugEnabled ? { maskId: body.mask_id, profileId: body.profile_id, path } : undefined, request, env);
-          }
+// ============================================================
+// Payment & Credit System Endpoints
+// ============================================================
 
-          const maskR2Key = reconstructR2Key((maskResult as any).id, (maskResult as any).ext, 'mask');
-          maskUrl = getR2PublicUrl(env, maskR2Key, requestUrl.origin);
-        } else {
-          maskUrl = body.mask_image_url!;
-          if (!validateImageUrl(maskUrl, env)) {
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Invalid mask image URL', 400, debugEnabled ? { path } : undefined, request, env);
-          }
-        }
+// GET /jobs/:id - Poll async job status
+const handleGetJob = async ({ request, env, DB, params }: RouteContext): Promise<Response> => {
+  const jobId = params.id;
+  if (!jobId) return errorResponse('job_id is required', 400, undefined, request, env);
+  try {
+    const job = await DB.prepare('SELECT * FROM jobs WHERE id = ?').bind(jobId).first() as Job | null;
+    if (!job) return errorResponse('Job not found', 404, undefined, request, env);
+    if (!(await checkProfileToken(env, request, job.profile_id))) {
+      return errorResponse('Invalid profile token', 401, undefined, request, env);
+    }
+    return jsonResponse({ data: formatJob(job), status: 'success', message: 'Job retrieved successfully', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/jobs/:id', error, request, env, { jobId });
+    return errorResponse('Failed to fetch job', 500, undefined, request, env);
+  }
+};
 
-        // Credit deduction (after validation, before processing)
-        creditResult = await deductCredits(DB, body.profile_id, 'remove_object', env, request);
-        if (!creditResult.success) {
-          return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
-        }
+// GET /jobs?profile_id= - List recent async jobs for a profile
+const handleListJobs = async ({ request, env, DB, requestUrl }: RouteContext): Promise<Response> => {
+  const profileId = requestUrl.searchParams.get('profile_id');
+  if (!profileId) return errorResponse('profile_id is required', 400, undefined, request, env);
+  try {
+    const status = requestUrl.searchParams.get('status');
+    if (status && !['queued', 'running', 'succeeded', 'failed'].includes(status)) {
+      return errorResponse('Invalid status filter', 400, undefined, request, env);
+    }
+    let limit = JOB_CONFIG.LIST_LIMIT;
+    const parsedLimit = parseInt(requestUrl.searchParams.get('limit') || '', 10);
+    if (!isNaN(parsedLimit) && parsedLimit > 0 && parsedLimit <= JOB_CONFIG.LIST_LIMIT) {
+      limit = parsedLimit;
+    }
+    const result = status
+      ? await DB.prepare(`SELECT * FROM jobs WHERE profile_id = ? AND status = ? ORDER BY created_at DESC LIMIT ${limit}`).bind(profileId, status).all()
+      : await DB.prepare(`SELECT * FROM jobs WHERE profile_id = ? ORDER BY created_at DESC LIMIT ${limit}`).bind(profileId).all();
+    const jobs = ((result.results || []) as unknown as Job[]).map(formatJob);
+    return jsonResponse({ data: jobs, status: 'success', message: 'Jobs retrieved successfully', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/jobs (GET)', error, request, env, { profileId });
+    return errorResponse('Failed to fetch jobs', 500, undefined, request, env);
+  }
+};
 
-        // Use WaveSpeed Bria Eraser API (no prompt needed, just image + mask)
-        const removeResult = await callWaveSpeedBriaEraser(selfieUrl, maskUrl, env);
+// GET /api/products - List active SKUs
+const handleListProducts = async ({ request, env, DB }: RouteContext): Promise<Response> => {
+  try {
+    const products = await DB.prepare('SELECT sku, type, credits, points_per_cycle, name, description, price_micros, currency FROM products WHERE is_active = 1 ORDER BY type, price_micros').all();
+    return jsonResponse({ data: products.results, status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/api/products', error, request, env);
+    return errorResponse('Failed to fetch products', 500, undefined, request, env);
+  }
+};
 
-        if (!removeResult.Success || !removeResult.ResultImageUrl) {
-          if (body?.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'remove_object', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
-          }
-          const failureCode = removeResult.StatusCode || 500;
-          const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-          const debugEnabled = isDebugEnabled(env);
-          const flatDebug = debugEnabled ? buildFlatDebug(removeResult) : undefined;
-          const debugPayload = debugEnabled ? compact({ ...flatDebug }) : undefined;
+// GET /api/user/balance - Get user dual credits + subscription status
+const handleGetBalance = async ({ request, env, DB, requestUrl }: RouteContext): Promise<Response> => {
+  const profileId = requestUrl.searchParams.get('profile_id');
+  if (!profileId) return errorResponse('profile_id is required', 400, undefined, request, env);
+  try {
+    const row = await DB.prepare('SELECT sub_point_remaining, consumable_point_remaining, total_credits_purchased, total_credits_spent, device_id FROM profiles WHERE id = ?').bind(profileId).first() as any;
+    if (!row) return errorResponse('Profile not found', 404, undefined, request, env);
+    const sub = await DB.prepare(
+      'SELECT status FROM subscriptions WHERE profile_id = ? AND status NOT IN (\'EXPIRED\') ORDER BY created_at DESC LIMIT 1'
+    ).bind(profileId).first() as any;
+    const held = await getHeldCredits(DB, profileId);
+    const freeAllowance = await getFreeAllowanceRemaining(DB, env, profileId, row.device_id || null, getAllowanceDay(env, request));
+    const data: BalanceResponse = {
+      sub_point_remaining: row.sub_point_remaining,
+      consumable_point_remaining: row.consumable_point_remaining,
+      total_available: row.sub_point_remaining + row.consumable_point_remaining,
+      sub_point_held: held.sub,
+      consumable_point_held: held.consumable,
+      total_held: held.sub + held.consumable,
+      subscription_status: sub ? sub.status : 'NONE',
+      total_credits_purchased: row.total_credits_purchased,
+      total_credits_spent: row.total_credits_spent,
+      free_allowance_remaining: freeAllowance,
+    };
+    return jsonResponse({ data, status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/api/user/balance', error, request, env);
+    return errorResponse('Failed to fetch balance', 500, undefined, request, env);
+  }
+};
 
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: failureCode,
-            ...(debugPayload ? { debug: debugPayload } : {}),
-          }, httpStatus, request, env);
-        }
+// GET /api/user/ledger - Credit ledger entries (newest first) and whether the balance matches them
+const handleGetCreditLedger = async ({ request, env, DB, requestUrl }: RouteContext): Promise<Response> => {
+  const profileId = requestUrl.searchParams.get('profile_id');
+  if (!profileId) return errorResponse('profile_id is required', 400, undefined, request, env);
+  try {
+    const type = requestUrl.searchParams.get('type');
+    if (type && !CREDIT_LEDGER_CONFIG.ENTRY_TYPES.includes(type)) {
+      return errorResponse('Invalid type filter', 400, undefined, request, env);
+    }
+    let limit = CREDIT_LEDGER_CONFIG.LIST_LIMIT;
+    const parsedLimit = parseInt(requestUrl.searchParams.get('limit') || '', 10);
+    if (!isNaN(parsedLimit) && parsedLimit > 0 && parsedLimit <= CREDIT_LEDGER_CONFIG.LIST_LIMIT) {
+      limit = parsedLimit;
+    }
+    const before = parseInt(requestUrl.searchParams.get('before') || '', 10);
+
+    const summary = await reconcileCreditLedger(DB, profileId);
+    if (!summary) return errorResponse('Profile not found', 404, undefined, request, env);
+
+    const conditions = ['profile_id = ?'];
+    const bindings: (string | number)[] = [profileId];
+    if (type) { conditions.push('entry_type = ?'); bindings.push(type); }
+    if (!isNaN(before) && before > 0) { conditions.push('id < ?'); bindings.push(before); }
+    const result = await DB.prepare(
+      `SELECT * FROM credit_ledger WHERE ${conditions.join(' AND ')} ORDER BY id DESC LIMIT ${limit}`
+    ).bind(...bindings).all();
+    const entries = ((result.results || []) as unknown as CreditLedgerEntry[]).map(formatCreditLedgerEntry);
+
+    if (!summary.reconciled) {
+      console.warn(`[Ledger] Balance of profile ${profileId} does not match its ledger`, summary);
+    }
+    return jsonResponse({
+      data: {
+        profile_id: profileId,
+        ...summary,
+        entries,
+        next_before: entries.length === limit ? entries[entries.length - 1].id : null,
+      },
+      status: 'success',
+      code: 200,
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/api/user/ledger', error, request, env, { profileId });
+    return errorResponse('Failed to fetch credit ledger', 500, undefined, request, env);
+  }
+};
 
-        let resultUrl = removeResult.ResultImageUrl;
-        if (removeResult.ResultImageUrl?.startsWith('r2://')) {
-          const r2Key = removeResult.ResultImageUrl.replace('r2://', '');
-          resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-        }
+// GET /api/credit-costs - Get credit cost table for all actions
+const handleGetCreditCosts = async ({ request, env }: RouteContext): Promise<Response> => {
+  const actions = Object.keys(DEFAULT_CREDIT_COSTS);
+  const country = request.headers.get('CF-IPCountry') || '';
+  const costs: Record<string, { base: number; cost: number }> = {};
+  for (const action of actions) {
+    costs[action] = {
+      base: getCreditCost(action, 'subscriber', env),
+      cost: getCreditCost(action, 'subscriber', env, country),
+    };
+  }
+  return jsonResponse({ data: costs, country: country || 'unknown', status: 'success', code: 200 }, 200, request, env);
+};
 
-        const savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'remove-object', request);
+// ---- Store purchases (Google Play and App Store) ----
 
-        // Cache result in KV for retry handling
-        if (hasSelfieId && body.selfie_id) {
-          ctx.waitUntil(cacheResultInKV(env, body.selfie_id, null, 'remove_object', resultUrl));
-        }
+// FCM silent push to all devices of a profile after its subscription or credits change
+const notifySubscriptionChange = async (DB: D1Database, env: Env, profileId: string, event: string, data: Record<string, string> = {}): Promise<void> => {
+  try {
+    const tokens = await DB.prepare('SELECT token, platform FROM device_tokens WHERE profile_id = ?').bind(profileId).all();
+    for (const tokenRow of (tokens.results || [])) {
+      await sendFcmSilentPush(env, (tokenRow as any).token, (tokenRow as any).platform as 'android' | 'ios' | 'web', {
+        type: 'subscription_update', event, ...data,
+      });
+    }
+  } catch (e) {
+    console.error('[Subscription FCM] Failed:', e instanceof Error ? e.message : String(e));
+  }
+};
 
-        // Auto-delete selfie after processing
-        if (hasSelfieId && selfieResult) {
-          ctx.waitUntil(deleteSelfieAfterProcessing((selfieResult as any).id, (selfieResult as any).ext, env, DB, R2_BUCKET, requestUrl.origin));
-        }
+// Create (or reactivate) the subscription of a verified store purchase and start its first cycle
+const activateSubscription = async (
+  DB: D1Database, env: Env, request: Request,
+  input: { profileId: string; sku: string; purchaseToken: string; platform: 'android' | 'ios'; pointsPerCycle: number; expiresAt: number; autoRenewing: boolean; existingSubId?: string | null }
+): Promise<string> => {
+  const now = Math.floor(Date.now() / 1000);
+  const subId = input.existingSubId || nanoid();
 
-        // Auto-delete mask after processing
-        if (hasMaskId && maskResult) {
-          const maskId = (maskResult as any).id;
-          const maskExt = (maskResult as any).ext;
-          // Delete mask from DB and R2
-          ctx.waitUntil((async () => {
-            try {
-              await DB.prepare('DELETE FROM selfies WHERE id = ?').bind(maskId).run();
-              const maskR2Key = reconstructR2Key(maskId, maskExt, 'mask');
-              await R2_BUCKET.delete(maskR2Key);
-              console.log(`[RemoveObject] Auto-deleted mask ${maskId}`);
-            } catch (e) {
-              console.error(`[RemoveObject] Failed to auto-delete mask ${maskId}:`, e);
-            }
-          })());
-        }
+  if (input.existingSubId) {
+    // Reactivate
+    await DB.prepare(
+      'UPDATE subscriptions SET status = \'ACTIVE\', sku = ?, points_per_cycle = ?, auto_renewing = ?, expires_at = ?, last_reset_at = ?, cycle_count_used = 1, cancelled_at = NULL, updated_at = unixepoch() WHERE id = ?'
+    ).bind(input.sku, input.pointsPerCycle, input.autoRenewing ? 1 : 0, input.expiresAt, now, subId).run();
+  } else {
+    await DB.prepare(
+      'INSERT INTO subscriptions (id, profile_id, sku, purchase_token, points_per_cycle, status, platform, auto_renewing, expires_at, last_reset_at, cycle_count_used) VALUES (?, ?, ?, ?, ?, \'ACTIVE\', ?, ?, ?, ?, 1)'
+    ).bind(subId, input.profileId, input.sku, input.purchaseToken, input.pointsPerCycle, input.platform, input.autoRenewing ? 1 : 0, input.expiresAt, now).run();
+  }
 
-        const debugEnabled = isDebugEnabled(env);
-        const flatDebug = debugEnabled ? buildFlatDebug(removeResult) : undefined;
-        return jsonResponse({
-          data: {
-            id: savedResultId !== null ? String(savedResultId) : null,
-            resultImageUrl: resultUrl,
-          },
-          status: 'success',
-          message: removeResult.Message || 'Object removal completed',
-          code: 200,
-          ...(debugEnabled ? { debug: compact({ ...flatDebug }) } : {}),
-        });
-      } catch (error) {
-        if (body?.profile_id && creditResult?.cost > 0) {
-          await refundCredits(DB, body.profile_id, 'remove_object', creditResult.fromSub, creditResult.fromConsumable, 'Processing error', request);
-        }
-        logCriticalError('/remove-object', error, request, env, {
-          body: {
-            selfie_id: body?.selfie_id,
-            mask_id: body?.mask_id,
-            profile_id: body?.profile_id,
-          }
-        });
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
-      }
-    }
+  // Set sub points to points_per_cycle (first cycle)
+  await applyCreditChange(DB, {
+    profileId: input.profileId, type: 'subscription_reset', setSub: input.pointsPerCycle,
+    subscription_id: subId, note: input.sku,
+  });
 
-    // Handle expression endpoint - modify facial expression using predefined prompts
-    if (path === '/expression' && request.method === 'POST') {
-      let body: {
-        selfie_id?: string;
-        selfie_image_url?: string;
-        image_id?: string;
-        image_url?: string;
-        profile_id?: string;
-        expression: string;
-        aspect_ratio?: string;
-        model?: string | number;
-        provider?: 'vertex' | 'wavespeed';
-      } | undefined;
-      let creditResult: any = null;
-      try {
-        body = await request.json() as typeof body;
+  const ip = request.headers.get('cf-connecting-ip') || null;
+  await auditLog(DB, input.profileId, 'SUBSCRIPTION_ACTIVATE', { sku: input.sku, platform: input.platform, points_per_cycle: input.pointsPerCycle, expires_at: input.expiresAt }, ip);
+  await rewardReferralAfterPurchase(DB, env, input.profileId, { subscription_id: subId });
 
-        // Accept image_id/image_url as aliases for selfie_id/selfie_image_url
-        if (body?.image_id && !body.selfie_id) body.selfie_id = body.image_id;
-        if (body?.image_url && !body.selfie_image_url) body.selfie_image_url = body.image_url;
+  // Sync subscription state to all devices
+  await notifySubscriptionChange(DB, env, input.profileId, 'ACTIVATED', { status: 'ACTIVE' });
+  return subId;
+};
 
-        const hasSelfieId = body?.selfie_id && body.selfie_id.trim() !== '';
-        const hasSelfieUrl = body?.selfie_image_url && body.selfie_image_url.trim() !== '';
+const getSubscriptionProrationMode = (env: Env): 'time' | 'reset' | 'keep' => {
+  const mode = env.SUBSCRIPTION_PRORATION_MODE;
+  return mode === 'time' || mode === 'reset' || mode === 'keep' ? mode : SUBSCRIPTION_CHANGE_CONFIG.PRORATION_MODE;
+};
 
-        if (!hasSelfieId && !hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: selfie_id or selfie_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+// Sub points of the current cycle after a plan change (see SUBSCRIPTION_CHANGE_CONFIG)
+const prorateSubPoints = (
+  mode: 'time' | 'reset' | 'keep', current: number, oldPoints: number, newPoints: number, lastResetAt: number, now: number
+): number => {
+  if (mode === 'reset') return newPoints;
+  if (mode === 'keep') return current;
+  const cycleLeft = Math.min(1, Math.max(0, (lastResetAt + CYCLE_DURATION_SECONDS - now) / CYCLE_DURATION_SECONDS));
+  return Math.min(newPoints, Math.max(0, current + Math.round((newPoints - oldPoints) * cycleLeft)));
+};
 
-        if (hasSelfieId && hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Cannot provide both selfie_id and selfie_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+// Move a subscription to another plan (upgrade/downgrade), keeping its row and cycle. A change that came with a new
+// purchase token moves the row to it (the old token is kept in linked_purchase_token) and makes it ACTIVE again, as
+// the store cancels the replaced purchase. At renewal nothing is prorated: the renewal resets the points to the new
+// points_per_cycle.
+const changeSubscriptionPlan = async (
+  DB: D1Database, env: Env,
+  sub: { id: string; profile_id: string; sku: string; purchase_token: string; points_per_cycle: number; last_reset_at: number },
+  change: { sku: string; pointsPerCycle: number; purchaseToken: string; expiresAt?: number | null; source: SubscriptionChangeSource }
+): Promise<void> => {
+  const now = Math.floor(Date.now() / 1000);
+  const mode = change.source === 'renewal' ? 'keep' : getSubscriptionProrationMode(env);
+  const profile = await DB.prepare('SELECT sub_point_remaining FROM profiles WHERE id = ?').bind(sub.profile_id).first() as { sub_point_remaining: number } | null;
+  const before = profile?.sub_point_remaining ?? 0;
+  const after = prorateSubPoints(mode, before, sub.points_per_cycle, change.pointsPerCycle, sub.last_reset_at, now);
+  const replacedToken = change.purchaseToken !== sub.purchase_token ? sub.purchase_token : null;
+
+  await DB.prepare(
+    `UPDATE subscriptions SET sku = ?, points_per_cycle = ?, purchase_token = ?, linked_purchase_token = COALESCE(?, linked_purchase_token),
+     expires_at = COALESCE(?, expires_at), last_reset_at = CASE WHEN ? = 'reset' THEN ? ELSE last_reset_at END,
+     status = CASE WHEN ? IS NULL THEN status ELSE 'ACTIVE' END, auto_renewing = CASE WHEN ? IS NULL THEN auto_renewing ELSE 1 END,
+     cancelled_at = CASE WHEN ? IS NULL THEN cancelled_at ELSE NULL END, updated_at = unixepoch() WHERE id = ?`
+  ).bind(change.sku, change.pointsPerCycle, change.purchaseToken, replacedToken, change.expiresAt ?? null, mode, now,
+    replacedToken, replacedToken, replacedToken, sub.id).run();
+  if (after !== before) {
+    const note = `Plan change ${sub.sku} -> ${change.sku}`;
+    await applyCreditChange(DB, mode === 'reset'
+      ? { profileId: sub.profile_id, type: 'subscription_reset', setSub: after, subscription_id: sub.id, note }
+      : { profileId: sub.profile_id, type: 'adjustment', sub: after - before, floorAtZero: true, subscription_id: sub.id, note });
+  }
+  await DB.prepare(
+    `INSERT INTO subscription_changes (subscription_id, profile_id, source, old_sku, new_sku, old_points_per_cycle, new_points_per_cycle,
+     old_purchase_token, new_purchase_token, proration_mode, sub_points_before, sub_points_after) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(sub.id, sub.profile_id, change.source, sub.sku, change.sku, sub.points_per_cycle, change.pointsPerCycle,
+    sub.purchase_token, change.purchaseToken, mode, before, after).run();
+
+  await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_PLAN_CHANGED', {
+    subscription_id: sub.id, source: change.source, old_sku: sub.sku, new_sku: change.sku, points_per_cycle: change.pointsPerCycle,
+    proration_mode: mode, sub_points_before: before, sub_points_after: after, linked_purchase_token: replacedToken ? replacedToken.slice(0, 20) : undefined,
+  }, null);
+  await notifySubscriptionChange(DB, env, sub.profile_id, 'PLAN_CHANGED', { status: 'ACTIVE', sku: change.sku });
+};
 
-        if (!body?.profile_id) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+// Subscription a new Google Play purchase replaces (linkedPurchaseToken of an upgrade/downgrade), if we know it
+const findLinkedSubscription = async (DB: D1Database, linkedPurchaseToken: string | undefined, profileId?: string) => {
+  if (!linkedPurchaseToken) return null;
+  return await DB.prepare(
+    `SELECT id, profile_id, sku, purchase_token, points_per_cycle, last_reset_at FROM subscriptions
+     WHERE purchase_token = ? AND status <> 'EXPIRED' AND (? IS NULL OR profile_id = ?)`
+  ).bind(linkedPurchaseToken, profileId ?? null, profileId ?? null).first() as {
+    id: string; profile_id: string; sku: string; purchase_token: string; points_per_cycle: number; last_reset_at: number;
+  } | null;
+};
 
-        // Validate expression type
-        const validExpressions = ['sad', 'laugh', 'smile', 'dimpled_smile', 'open_eye', 'close_eye'];
-        const expressionKey = body?.expression?.trim().toLowerCase().replace(/\s+/g, '_') || '';
-        if (!expressionKey || !validExpressions.includes(expressionKey)) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse(`Invalid expression. Must be one of: ${validExpressions.join(', ')}`, 400, debugEnabled ? { expression: body?.expression, path } : undefined, request, env);
-        }
+// Reward a pending referral on the invitee's first purchase. Never fails the purchase itself.
+const rewardReferralAfterPurchase = async (
+  DB: D1Database, env: Env, profileId: string, source: { payment_id?: string; subscription_id?: string }
+): Promise<void> => {
+  try {
+    const referral = await rewardReferral(DB, env, profileId, source);
+    if (!referral) return;
+    const details = { referral_id: referral.id, code: referral.code, inviter_profile_id: referral.inviter_profile_id, invitee_profile_id: referral.invitee_profile_id, ...source };
+    await auditLog(DB, referral.invitee_profile_id, 'REFERRAL_REWARD', { ...details, credits: referral.invitee_credits }, null);
+    await auditLog(DB, referral.inviter_profile_id, 'REFERRAL_REWARD', { ...details, credits: referral.inviter_credits }, null);
+    await notifySubscriptionChange(DB, env, referral.inviter_profile_id, 'REFERRAL_REWARD', { credits_granted: String(referral.inviter_credits) });
+  } catch (error) {
+    console.error('[Referral] Reward failed:', error instanceof Error ? error.message : String(error));
+  }
+};
 
-        // Map to config key
-        const expressionPrompt = IMAGE_PROCESSING_PROMPTS.EXPRESSION[expressionKey.toUpperCase()];
-        if (!expressionPrompt) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Expression prompt not configured', 500, debugEnabled ? { expressionKey, path } : undefined, request, env);
-        }
+// Take back the rewards of the referral a refunded/voided/revoked purchase paid for. Never fails the refund itself.
+const reverseReferralAfterRefund = async (
+  DB: D1Database, env: Env, source: { payment_id?: string; subscription_id?: string }, reason: string
+): Promise<void> => {
+  try {
+    const referral = await reverseReferralReward(DB, source, reason);
+    if (!referral) return;
+    const details = { referral_id: referral.id, code: referral.code, inviter_profile_id: referral.inviter_profile_id, invitee_profile_id: referral.invitee_profile_id, reason, ...source };
+    await auditLog(DB, referral.invitee_profile_id, 'REFERRAL_REVERSED', { ...details, credits: referral.invitee_credits }, null);
+    await auditLog(DB, referral.inviter_profile_id, 'REFERRAL_REVERSED', { ...details, credits: referral.inviter_credits }, null);
+    await notifySubscriptionChange(DB, env, referral.inviter_profile_id, 'REFERRAL_REVERSED', { credits_deducted: String(referral.inviter_credits) });
+  } catch (error) {
+    console.error('[Referral] Reversal failed:', error instanceof Error ? error.message : String(error));
+  }
+};
 
-        const profileCheck = await DB.prepare(
-          'SELECT id FROM profiles WHERE id = ?'
-        ).bind(body.profile_id).first();
+// Grant the credits of a verified PENDING payment. Claiming PENDING -> COMPLETED first makes the grant happen once
+// when a client retry and a store webhook complete the same payment; returns false when it was already completed.
+const completeDeposit = async (
+  DB: D1Database, env: Env, request: Request,
+  payment: { id: string; profile_id: string; sku: string; order_id: string; credits_granted: number; platform: string },
+  rawResponse: string | null
+): Promise<boolean> => {
+  const claim = await DB.prepare(
+    'UPDATE payments SET status = \'COMPLETED\', raw_response = COALESCE(?, raw_response), updated_at = unixepoch() WHERE id = ? AND status = \'PENDING\''
+  ).bind(rawResponse, payment.id).run();
+  if (!claim.meta?.changes) return false;
 
-        if (!profileCheck) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Profile not found', 404, debugEnabled ? { profileId: body.profile_id, path } : undefined, request, env);
-        }
+  try {
+    // Grant credits to consumable pool
+    await applyCreditChange(DB, {
+      profileId: payment.profile_id, type: 'grant', consumable: payment.credits_granted, purchased: payment.credits_granted,
+      payment_id: payment.id, note: payment.sku,
+    });
+  } catch (error) {
+    await DB.prepare('UPDATE payments SET status = \'PENDING\', updated_at = unixepoch() WHERE id = ?').bind(payment.id).run();
+    throw error;
+  }
+
+  const ip = request.headers.get('cf-connecting-ip') || null;
+  await auditLog(DB, payment.profile_id, 'DEPOSIT', { sku: payment.sku, credits: payment.credits_granted, order_id: payment.order_id, platform: payment.platform }, ip);
+  await rewardReferralAfterPurchase(DB, env, payment.profile_id, { payment_id: payment.id });
+  return true;
+};
 
-        // Resolve selfie image URL
-        let selfieUrl: string = '';
-        let selfieResult: any = null;
+// Store refund of a credit pack: mark the payment REFUNDED and take its credits back (clamped at 0).
+// Returns null when the payment is no longer COMPLETED (already refunded).
+const refundDeposit = async (
+  DB: D1Database, env: Env,
+  payment: { id: string; profile_id: string; sku: string; credits_granted: number; platform: string },
+  details: Record<string, unknown> = {}
+): Promise<{ deducted: number; unrecovered: number } | null> => {
+  const claim = await DB.prepare('UPDATE payments SET status = \'REFUNDED\', updated_at = unixepoch() WHERE id = ? AND status = \'COMPLETED\'').bind(payment.id).run();
+  if (!claim.meta?.changes) return null;
+  const change = await applyCreditChange(DB, {
+    profileId: payment.profile_id, type: 'adjustment', consumable: -payment.credits_granted, floorAtZero: true,
+    payment_id: payment.id, note: 'Purchase refunded',
+  });
+  // Credits already spent cannot be taken back: the profile owes them (profiles.credits_owed)
+  const entry = change.entryId ? await DB.prepare('SELECT consumable_delta FROM credit_ledger WHERE id = ?').bind(change.entryId).first() as { consumable_delta: number } | null : null;
+  const deducted = entry ? -entry.consumable_delta : 0;
+  const unrecovered = payment.credits_granted - deducted;
+  if (unrecovered > 0) {
+    await DB.prepare('UPDATE profiles SET credits_owed = credits_owed + ?, updated_at = unixepoch() WHERE id = ?').bind(unrecovered, payment.profile_id).run();
+  }
+  await auditLog(DB, payment.profile_id, 'REFUND', { payment_id: payment.id, credits_deducted: deducted, credits_unrecovered: unrecovered || undefined, sku: payment.sku, platform: payment.platform, ...details }, null);
+  await notifySubscriptionChange(DB, env, payment.profile_id, 'REFUND', { credits_deducted: String(deducted) });
+  await reverseReferralAfterRefund(DB, env, { payment_id: payment.id }, details.source === 'voided_purchases' ? 'voided' : 'refunded');
+  return { deducted, unrecovered };
+};
 
-        if (hasSelfieId) {
-          selfieResult = await DB.prepare(`
-            SELECT s.id, s.ext, p.id as profile_exists
-            FROM selfies s
-            INNER JOIN profiles p ON s.profile_id = p.id
-            WHERE s.id = ? AND p.id = ?
-          `).bind(body.selfie_id, body.profile_id).first();
-
-          if (!selfieResult) {
-            const cachedResult = await getCachedResultFromKV(env, body.selfie_id!, null, 'expression');
-            if (cachedResult) {
-              return jsonResponse({
-                data: { resultImageUrl: cachedResult, cached: true },
-                status: 'success',
-                message: 'Cached result returned (selfie was auto-deleted after previous processing)',
-                code: 200,
-              });
-            }
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Selfie not found or does not belong to profile', 404, debugEnabled ? { selfieId: body.selfie_id, profileId: body.profile_id, path } : undefined, request, env);
-          }
+// POST /api/deposit - Verify Google Play purchase, grant credits
+const handleDeposit = async ({ request, env, DB }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as DepositRequest;
+    if (!body.profile_id || !body.sku || !body.purchase_token || !body.order_id) {
+      return errorResponse('profile_id, sku, purchase_token, and order_id are required', 400, undefined, request, env);
+    }
 
-          const selfieR2Key = reconstructR2Key((selfieResult as any).id, (selfieResult as any).ext, 'selfie');
-          selfieUrl = getR2PublicUrl(env, selfieR2Key, requestUrl.origin);
-        } else {
-          selfieUrl = body.selfie_image_url!;
-          if (!validateImageUrl(selfieUrl, env)) {
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Invalid image URL', 400, debugEnabled ? { path } : undefined, request, env);
-          }
-        }
+    // Idempotency check
+    const existing = await DB.prepare('SELECT id, status FROM payments WHERE order_id = ?').bind(body.order_id).first() as any;
+    if (existing) {
+      if (existing.status === 'COMPLETED') {
+        return jsonResponse({ data: { payment_id: existing.id, status: 'COMPLETED', message: 'Already processed' }, status: 'success', code: 200 }, 200, request, env);
+      }
+    }
 
-        const effectiveProvider = body.provider || 'wavespeed_gemini_2_5_flash_image';
-        const envError = validateEnv(env, (effectiveProvider === 'wavespeed' || effectiveProvider === 'wavespeed_gemini_2_5_flash_image') ? 'wavespeed' : 'vertex');
-        if (envError) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('', 500, debugEnabled ? { error: envError, path } : undefined, request, env);
-        }
+    // Validate product
+    const product = await DB.prepare('SELECT * FROM products WHERE sku = ? AND type = \'consumable\' AND is_active = 1').bind(body.sku).first() as any;
+    if (!product) return errorResponse('Invalid or inactive product SKU', 400, undefined, request, env);
 
-        const validAspectRatio = await resolveAspectRatio(body.aspect_ratio, selfieUrl, env, { allowOriginal: true });
-        const modelParam = body.model;
+    // Create pending payment
+    const paymentId = nanoid();
+    await DB.prepare(
+      'INSERT INTO payments (id, profile_id, sku, order_id, purchase_token, status, credits_granted, amount_micros, currency) VALUES (?, ?, ?, ?, ?, \'PENDING\', ?, ?, ?)'
+    ).bind(paymentId, body.profile_id, body.sku, body.order_id, body.purchase_token, product.credits, product.price_micros, product.currency).run();
+
+    // Verify with Google Play
+    const verification = await verifyGooglePlayPurchase(env, body.sku, body.purchase_token);
+    if (!verification.valid) {
+      await DB.prepare('UPDATE payments SET status = \'FAILED\', raw_response = ?, updated_at = unixepoch() WHERE id = ?')
+        .bind(JSON.stringify(verification), paymentId).run();
+      return errorResponse(`Purchase verification failed: ${verification.error || 'Invalid purchase'}`, 400, undefined, request, env);
+    }
 
-        // Credit deduction (after validation, before processing)
-        creditResult = await deductCredits(DB, body.profile_id, 'expression', env, request);
-        if (!creditResult.success) {
-          return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
-        }
+    // Acknowledge purchase
+    if (!verification.acknowledged) {
+      await acknowledgeGooglePlayPurchase(env, body.sku, body.purchase_token);
+    }
 
-        const expressionResult = await callNanoBanana(
-          expressionPrompt,
-          selfieUrl,
-          selfieUrl,
-          env,
-          validAspectRatio,
-          modelParam,
-          { skipFacialPreservation: true, provider: effectiveProvider }
-        );
+    // Grant credits and mark payment completed
+    await completeDeposit(DB, env, request, {
+      id: paymentId, profile_id: body.profile_id, sku: body.sku, order_id: body.order_id, credits_granted: product.credits, platform: 'android',
+    }, JSON.stringify(verification.raw));
 
-        if (!expressionResult.Success || !expressionResult.ResultImageUrl) {
-          if (body?.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'expression', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
-          }
-          const failureCode = expressionResult.StatusCode || 500;
-          const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-          const debugEnabled = isDebugEnabled(env);
-          const flatDebug = debugEnabled ? buildFlatDebug(expressionResult) : undefined;
-          const debugPayload = debugEnabled ? compact({ ...flatDebug }) : undefined;
+    return jsonResponse({ data: { payment_id: paymentId, credits_granted: product.credits, status: 'COMPLETED' }, status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/api/deposit', error, request, env);
+    return errorResponse('Deposit failed', 500, undefined, request, env);
+  }
+};
 
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: failureCode,
-            ...(debugPayload ? { debug: debugPayload } : {}),
-          }, httpStatus, request, env);
-        }
+// GET /api/deposit/status/:order_id - Check deposit status
+const handleDepositStatus = async ({ request, env, DB, params }: RouteContext): Promise<Response> => {
+  const orderId = params.order_id;
+  if (!orderId) return errorResponse('order_id is required', 400, undefined, request, env);
+  try {
+    const payment = await DB.prepare('SELECT id, profile_id, sku, order_id, status, credits_granted, created_at, updated_at FROM payments WHERE order_id = ?').bind(orderId).first();
+    if (!payment) return errorResponse('Payment not found', 404, undefined, request, env);
+    return jsonResponse({ data: payment, status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/api/deposit/status', error, request, env);
+    return errorResponse('Failed to fetch deposit status', 500, undefined, request, env);
+  }
+};
 
-        let resultUrl = expressionResult.ResultImageUrl;
-        if (expressionResult.ResultImageUrl?.startsWith('r2://')) {
-          const r2Key = expressionResult.ResultImageUrl.replace('r2://', '');
-          resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-        }
+// POST /api/subscription/verify - Verify & activate subscription
+const handleSubscriptionVerify = async ({ request, env, DB }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as SubscriptionVerifyRequest;
+    if (!body.profile_id || !body.sku || !body.purchase_token) {
+      return errorResponse('profile_id, sku, and purchase_token are required', 400, undefined, request, env);
+    }
 
-        const savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'expression', request);
+    // Validate product is subscription
+    const product = await DB.prepare('SELECT * FROM products WHERE sku = ? AND type = \'subscription\' AND is_active = 1').bind(body.sku).first() as any;
+    if (!product) return errorResponse('Invalid or inactive subscription SKU', 400, undefined, request, env);
 
-        // Cache result in KV
-        if (hasSelfieId && body.selfie_id) {
-          ctx.waitUntil(cacheResultInKV(env, body.selfie_id, null, 'expression', resultUrl));
-        }
+    // Check existing subscription with this token
+    const existingSub = await DB.prepare('SELECT id, status FROM subscriptions WHERE purchase_token = ?').bind(body.purchase_token).first() as any;
+    if (existingSub && existingSub.status === 'ACTIVE') {
+      return jsonResponse({ data: { subscription_id: existingSub.id, status: 'ACTIVE', message: 'Already active' }, status: 'success', code: 200 }, 200, request, env);
+    }
 
-        // Auto-delete selfie after processing
-        if (hasSelfieId && selfieResult) {
-          ctx.waitUntil(deleteSelfieAfterProcessing((selfieResult as any).id, (selfieResult as any).ext, env, DB, R2_BUCKET, requestUrl.origin));
-        }
+    // Verify with Google Play
+    const verification = await verifyGooglePlaySubscription(env, body.sku, body.purchase_token);
+    if (!verification.valid) {
+      return errorResponse(`Subscription verification failed: ${verification.error || 'Invalid subscription'}`, 400, undefined, request, env);
+    }
 
-        const debugEnabled = isDebugEnabled(env);
-        const flatDebug = debugEnabled ? buildFlatDebug(expressionResult) : undefined;
-        return jsonResponse({
-          data: {
-            id: savedResultId !== null ? String(savedResultId) : null,
-            resultImageUrl: resultUrl,
-            expression: expressionKey,
-          },
-          status: 'success',
-          message: expressionResult.Message || 'Expression modification completed',
-          code: 200,
-          ...(debugEnabled ? { debug: compact({ ...flatDebug }) } : {}),
-        });
-      } catch (error) {
-        if (body?.profile_id && creditResult?.cost > 0) {
-          await refundCredits(DB, body.profile_id, 'expression', creditResult.fromSub, creditResult.fromConsumable, 'Processing error', request);
-        }
-        logCriticalError('/expression', error, request, env, {
-          body: {
-            selfie_id: body?.selfie_id,
-            profile_id: body?.profile_id,
-            expression: body?.expression,
-          }
-        });
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
-      }
+    // Acknowledge subscription purchase (required by Google Play)
+    if (!verification.acknowledged) {
+      await acknowledgeGooglePlaySubscription(env, body.sku, body.purchase_token);
     }
 
-    // Handle expand endpoint - AI image expansion/outpainting
-    if (path === '/expand' && request.method === 'POST') {
-      let body: { selfie_id?: string; selfie_image_url?: string; image_id?: string; image_url?: string; profile_id?: string } | undefined;
-      let creditResult: any = null;
-      try {
-        body = await request.json() as { selfie_id?: string; selfie_image_url?: string; image_id?: string; image_url?: string; profile_id?: string };
+    const expiresAt = verification.expiryTimeMillis
+      ? Math.floor(new Date(verification.expiryTimeMillis).getTime() / 1000)
+      : Math.floor(Date.now() / 1000) + CYCLE_DURATION_SECONDS;
+
+    // Upgrade/downgrade: the new purchase replaces one of the profile's subscriptions, which moves to the new plan
+    // (prorated) instead of starting a new cycle with full points
+    const linkedSub = existingSub ? null : await findLinkedSubscription(DB, verification.linkedPurchaseToken, body.profile_id);
+    if (linkedSub) {
+      await changeSubscriptionPlan(DB, env, linkedSub, {
+        sku: body.sku, pointsPerCycle: product.points_per_cycle, purchaseToken: body.purchase_token, expiresAt, source: 'linked_purchase',
+      });
+      return jsonResponse({
+        data: { subscription_id: linkedSub.id, points_per_cycle: product.points_per_cycle, expires_at: expiresAt, status: 'ACTIVE', plan_changed: true },
+        status: 'success', code: 200
+      }, 200, request, env);
+    }
 
-        // Accept image_id/image_url as aliases for selfie_id/selfie_image_url
-        if (body!.image_id && !body!.selfie_id) body!.selfie_id = body!.image_id;
-        if (body!.image_url && !body!.selfie_image_url) body!.selfie_image_url = body!.image_url;
+    const subscriptionId = await activateSubscription(DB, env, request, {
+      profileId: body.profile_id, sku: body.sku, purchaseToken: body.purchase_token, platform: 'android',
+      pointsPerCycle: product.points_per_cycle, expiresAt, autoRenewing: !!verification.autoRenewing, existingSubId: existingSub?.id,
+    });
 
-        const hasSelfieId = body!.selfie_id && body!.selfie_id.trim() !== '';
-        const hasSelfieUrl = body!.selfie_image_url && body!.selfie_image_url.trim() !== '';
+    return jsonResponse({
+      data: { subscription_id: subscriptionId, points_per_cycle: product.points_per_cycle, expires_at: expiresAt, status: 'ACTIVE' },
+      status: 'success', code: 200
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/api/subscription/verify', error, request, env);
+    return errorResponse('Subscription verification failed', 500, undefined, request, env);
+  }
+};
 
-        if (!hasSelfieId && !hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: selfie_id or selfie_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+// GET /api/subscription/status - Current subscription
+const handleSubscriptionStatus = async ({ request, env, DB, requestUrl }: RouteContext): Promise<Response> => {
+  const profileId = requestUrl.searchParams.get('profile_id');
+  if (!profileId) return errorResponse('profile_id is required', 400, undefined, request, env);
+  try {
+    const sub = await DB.prepare(
+      'SELECT id, sku, status, platform, auto_renewing, started_at, expires_at, last_reset_at, cycle_count_used, points_per_cycle, cancelled_at FROM subscriptions WHERE profile_id = ? AND status NOT IN (\'EXPIRED\') ORDER BY created_at DESC LIMIT 1'
+    ).bind(profileId).first();
+    return jsonResponse({ data: sub || null, status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/api/subscription/status', error, request, env);
+    return errorResponse('Failed to fetch subscription', 500, undefined, request, env);
+  }
+};
 
-        if (hasSelfieId && hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Cannot provide both selfie_id and selfie_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+// POST /webhooks/google - Google Play RTDN (Pub/Sub push)
+const handleGoogleWebhook = async ({ request, env, DB, path }: RouteContext): Promise<Response> => {
+  try {
+    // Authenticate webhook with shared secret
+    const authHeader = request.headers.get('Authorization') || '';
+    const webhookSecret = env.GOOGLE_WEBHOOK_SECRET;
+    if (webhookSecret && !authHeader.includes(webhookSecret)) {
+      return errorResponse('Unauthorized webhook', 401, undefined, request, env);
+    }
 
-        if (!body.profile_id) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: profile_id', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    const rawBody = await request.json() as any;
+    // Pub/Sub wraps data in message.data (base64)
+    const messageData = rawBody.message?.data;
+    if (!messageData) {
+      return jsonResponse({ status: 'success', message: 'No data' }, 200, request, env);
+    }
 
-        const profileCheck = await DB.prepare(
-          'SELECT id FROM profiles WHERE id = ?'
-        ).bind(body.profile_id).first();
+    const decoded = JSON.parse(atob(messageData));
+    console.log('[Webhook Google] RTDN:', JSON.stringify(decoded));
 
-        if (!profileCheck) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Profile not found', 404, debugEnabled ? { profileId: body.profile_id, path } : undefined, request, env);
-        }
+    const subscriptionNotification = decoded.subscriptionNotification;
+    const oneTimeProductNotification = decoded.oneTimeProductNotification;
 
-        // Resolve selfie image URL
-        let selfieUrl: string = '';
-        let selfieResult: any = null;
+    // Helper: send FCM silent push to all user devices after subscription state change
+    const notifyProfile = (profileId: string, event: string, data: Record<string, string> = {}) =>
+      notifySubscriptionChange(DB, env, profileId, event, data);
 
-        if (hasSelfieId) {
-          selfieResult = await DB.prepare(`
-            SELECT s.id, s.ext, p.id as profile_exists
-            FROM selfies s
-            INNER JOIN profiles p ON s.profile_id = p.id
-            WHERE s.id = ? AND p.id = ?
-          `).bind(body.selfie_id, body.profile_id).first();
-
-          if (!selfieResult) {
-            const cachedResult = await getCachedResultFromKV(env, body.selfie_id!, null, 'expand');
-            if (cachedResult) {
-              return jsonResponse({
-                data: { resultImageUrl: cachedResult, cached: true },
-                status: 'success',
-                message: 'Cached result returned (selfie was auto-deleted after previous processing)',
-                code: 200,
-              });
+    // Helper: fetch source-of-truth from Google Play subscriptionsv2.get()
+    const fetchGoogleSubState = async (subSku: string, token: string) => {
+      try {
+        return await verifyGooglePlaySubscription(env, subSku, token);
+      } catch (e) {
+        console.error('[Webhook] Failed to verify with Google:', e instanceof Error ? e.message : String(e));
+        return null;
+      }
+    };
+
+    if (subscriptionNotification) {
+      const { notificationType, purchaseToken, subscriptionId } = subscriptionNotification;
+      const now = Math.floor(Date.now() / 1000);
+
+      // (4) SUBSCRIPTION_PURCHASED — backup activation from RTDN (in case client /verify call failed)
+      if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_PURCHASED) {
+        const existingSub = await DB.prepare('SELECT id, status FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
+        if (!existingSub) {
+          // Client didn't verify yet — activate from RTDN
+          const googleState = await fetchGoogleSubState(subscriptionId, purchaseToken);
+          const linkedSub = googleState?.valid ? await findLinkedSubscription(DB, googleState.linkedPurchaseToken) : null;
+          if (linkedSub) {
+            // Upgrade/downgrade of a known subscription: the profile is the replaced subscription's
+            const sku = googleState?.productId || subscriptionId;
+            const product = await DB.prepare('SELECT * FROM products WHERE sku = ? AND type = \'subscription\' AND is_active = 1').bind(sku).first() as any;
+            if (product) {
+              const expiresAt = googleState?.expiryTimeMillis ? Math.floor(new Date(googleState.expiryTimeMillis).getTime() / 1000) : null;
+              await changeSubscriptionPlan(DB, env, linkedSub, { sku, pointsPerCycle: product.points_per_cycle, purchaseToken, expiresAt, source: 'linked_purchase' });
+              if (!googleState?.acknowledged) await acknowledgeGooglePlaySubscription(env, sku, purchaseToken);
+            }
+          } else if (googleState?.valid) {
+            const product = await DB.prepare('SELECT * FROM products WHERE sku = ? AND type = \'subscription\' AND is_active = 1').bind(subscriptionId).first() as any;
+            if (product) {
+              // Find profile via decoded notification's package — we need to check payments or use obfuscated account ID
+              // For RTDN PURCHASED, we cannot determine profile_id from notification alone
+              // This is a backup: log it, the client /verify call is the primary path
+              console.log('[Webhook] SUBSCRIPTION_PURCHASED received but no existing sub found. Client must call /api/subscription/verify.', { subscriptionId, purchaseToken: purchaseToken.slice(0, 20) });
+              await auditLog(DB, 'SYSTEM', 'SUBSCRIPTION_PURCHASED_RTDN', { subscription_id: subscriptionId, note: 'No matching sub - awaiting client verify' }, null);
             }
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Selfie not found or does not belong to profile', 404, debugEnabled ? { selfieId: body.selfie_id, profileId: body.profile_id, path } : undefined, request, env);
           }
-
-          const selfieR2Key = reconstructR2Key((selfieResult as any).id, (selfieResult as any).ext, 'selfie');
-          selfieUrl = getR2PublicUrl(env, selfieR2Key, requestUrl.origin);
         } else {
-          selfieUrl = body.selfie_image_url!;
-          if (!validateImageUrl(selfieUrl, env)) {
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Invalid image URL', 400, debugEnabled ? { path } : undefined, request, env);
+          // Sub exists, verify and update expiry from Google
+          const googleState = await fetchGoogleSubState(subscriptionId, purchaseToken);
+          if (googleState?.valid && googleState.expiryTimeMillis) {
+            const expiresAt = Math.floor(new Date(googleState.expiryTimeMillis).getTime() / 1000);
+            await DB.prepare('UPDATE subscriptions SET expires_at = ?, updated_at = unixepoch() WHERE purchase_token = ?').bind(expiresAt, purchaseToken).run();
+          }
+          if (googleState?.valid && !googleState.acknowledged) {
+            await acknowledgeGooglePlaySubscription(env, subscriptionId, purchaseToken);
           }
         }
+      }
 
-        // Credit deduction (after validation, before processing)
-        creditResult = await deductCredits(DB, body.profile_id, 'expand', env, request);
-        if (!creditResult.success) {
-          return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
-        }
-
-        // Send PNG (with transparent areas to fill) directly to WaveSpeed
-        const expandResult = await callWaveSpeedEdit([selfieUrl], IMAGE_PROCESSING_PROMPTS.EXPAND, env);
-
-        if (!expandResult.Success || !expandResult.ResultImageUrl) {
-          if (body?.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'expand', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
+      // (2) SUBSCRIPTION_RENEWED → status=ACTIVE, reset sub=points_per_cycle, cycle+1
+      if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_RENEWED) {
+        const sub = await DB.prepare('SELECT s.id, s.profile_id, s.points_per_cycle, s.cycle_count_used, s.sku, s.purchase_token, s.last_reset_at FROM subscriptions s WHERE s.purchase_token = ?').bind(purchaseToken).first() as any;
+        if (sub) {
+          // Verify with Google to get accurate expiry
+          const googleState = await fetchGoogleSubState(sub.sku, purchaseToken);
+          const newExpiry = googleState?.expiryTimeMillis
+            ? Math.floor(new Date(googleState.expiryTimeMillis).getTime() / 1000)
+            : now + CYCLE_DURATION_SECONDS;
+
+          // A deferred downgrade takes effect at renewal: the new cycle starts with the new plan's points
+          if (googleState?.productId && googleState.productId !== sub.sku) {
+            const product = await DB.prepare('SELECT points_per_cycle FROM products WHERE sku = ? AND type = \'subscription\' AND is_active = 1').bind(googleState.productId).first() as any;
+            if (product) {
+              await changeSubscriptionPlan(DB, env, sub, { sku: googleState.productId, pointsPerCycle: product.points_per_cycle, purchaseToken, source: 'renewal' });
+              sub.points_per_cycle = product.points_per_cycle;
+            }
           }
-          const failureCode = expandResult.StatusCode || 500;
-          const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-          const debugEnabled = isDebugEnabled(env);
-          const flatDebug = debugEnabled ? buildFlatDebug(expandResult) : undefined;
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: failureCode,
-            ...(flatDebug ? { debug: flatDebug } : {}),
-          }, httpStatus);
-        }
 
-        let resultUrl = expandResult.ResultImageUrl;
-        if (expandResult.ResultImageUrl?.startsWith('r2://')) {
-          const r2Key = expandResult.ResultImageUrl.replace('r2://', '');
-          resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
+          await DB.prepare(
+            'UPDATE subscriptions SET status = \'ACTIVE\', auto_renewing = 1, expires_at = ?, last_reset_at = ?, cycle_count_used = ?, updated_at = unixepoch() WHERE purchase_token = ?'
+          ).bind(newExpiry, now, sub.cycle_count_used + 1, purchaseToken).run();
+          await applyCreditChange(DB, { profileId: sub.profile_id, type: 'subscription_reset', setSub: sub.points_per_cycle, subscription_id: sub.id, note: 'Renewed' });
+          await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_RENEWED', { points_per_cycle: sub.points_per_cycle, cycle: sub.cycle_count_used + 1 }, null);
+          await notifyProfile(sub.profile_id, 'RENEWED', { status: 'ACTIVE' });
         }
+      }
 
-        const savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'expand', request);
+      // (6) IN_GRACE_PERIOD → status=GRACE, reset sub=points_per_cycle, cycle+1 (user retains access)
+      if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_IN_GRACE_PERIOD) {
+        const sub = await DB.prepare('SELECT s.id, s.profile_id, s.points_per_cycle, s.cycle_count_used, s.sku FROM subscriptions s WHERE s.purchase_token = ?').bind(purchaseToken).first() as any;
+        if (sub) {
+          const googleState = await fetchGoogleSubState(sub.sku, purchaseToken);
+          const graceExpiry = googleState?.expiryTimeMillis
+            ? Math.floor(new Date(googleState.expiryTimeMillis).getTime() / 1000)
+            : sub.expires_at;
 
-        // Cache result in KV for retry handling
-        if (hasSelfieId && body.selfie_id) {
-          ctx.waitUntil(cacheResultInKV(env, body.selfie_id, null, 'expand', resultUrl));
+          await DB.prepare(
+            'UPDATE subscriptions SET status = \'GRACE\', expires_at = ?, last_reset_at = ?, cycle_count_used = ?, updated_at = unixepoch() WHERE purchase_token = ?'
+          ).bind(graceExpiry, now, sub.cycle_count_used + 1, purchaseToken).run();
+          await applyCreditChange(DB, { profileId: sub.profile_id, type: 'subscription_reset', setSub: sub.points_per_cycle, subscription_id: sub.id, note: 'Grace period' });
+          await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_GRACE', { points_per_cycle: sub.points_per_cycle, cycle: sub.cycle_count_used + 1 }, null);
+          await notifyProfile(sub.profile_id, 'IN_GRACE_PERIOD', { status: 'GRACE' });
         }
+      }
 
-        // Auto-delete selfie after processing
-        if (hasSelfieId && selfieResult) {
-          const selfieId = (selfieResult as any).id;
-          const selfieExt = (selfieResult as any).ext;
-          ctx.waitUntil(deleteSelfieAfterProcessing(selfieId, selfieExt, env, DB, R2_BUCKET, requestUrl.origin));
+      // (5) ON_HOLD → after grace ends, payment still failed. User LOSES access immediately.
+      if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_ON_HOLD) {
+        const sub = await DB.prepare('SELECT id, profile_id FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
+        if (sub) {
+          await DB.prepare('UPDATE subscriptions SET status = \'ON_HOLD\', updated_at = unixepoch() WHERE purchase_token = ?').bind(purchaseToken).run();
+          await applyCreditChange(DB, { profileId: sub.profile_id, type: 'expiry', setSub: 0, subscription_id: sub.id, note: 'On hold' });
+          await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_ON_HOLD', { notification_type: notificationType, subscription_id: subscriptionId }, null);
+          await notifyProfile(sub.profile_id, 'ON_HOLD', { status: 'ON_HOLD' });
         }
+      }
 
-        const debugEnabled = isDebugEnabled(env);
-        const flatDebug = debugEnabled ? buildFlatDebug(expandResult) : undefined;
-        return jsonResponse({
-          data: {
-            id: savedResultId !== null ? String(savedResultId) : null,
-            resultImageUrl: resultUrl,
-          },
-          status: 'success',
-          message: expandResult.Message || 'Image expansion completed',
-          code: 200,
-          ...(debugEnabled ? { debug: flatDebug } : {}),
-        });
-      } catch (error) {
-        if (body?.profile_id && creditResult?.cost > 0) {
-          await refundCredits(DB, body.profile_id, 'expand', creditResult.fromSub, creditResult.fromConsumable, 'Processing error', request);
-        }
-        logCriticalError('/expand', error, request, env, {
-          body: {
-            selfie_id: body?.selfie_id,
-            profile_id: body?.profile_id,
+      // (1) RECOVERED → from account hold OR grace. status=ACTIVE, restore sub points, NO new cycle.
+      if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_RECOVERED) {
+        const sub = await DB.prepare('SELECT id, profile_id, points_per_cycle, sku FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
+        if (sub) {
+          const googleState = await fetchGoogleSubState(sub.sku, purchaseToken);
+          const newExpiry = googleState?.expiryTimeMillis
+            ? Math.floor(new Date(googleState.expiryTimeMillis).getTime() / 1000)
+            : now + CYCLE_DURATION_SECONDS;
+
+          await DB.prepare(
+            'UPDATE subscriptions SET status = \'ACTIVE\', auto_renewing = 1, expires_at = ?, updated_at = unixepoch() WHERE purchase_token = ?'
+          ).bind(newExpiry, purchaseToken).run();
+          // Restore sub points if they were zeroed during ON_HOLD
+          const profile = await DB.prepare('SELECT sub_point_remaining FROM profiles WHERE id = ?').bind(sub.profile_id).first() as any;
+          if (profile && profile.sub_point_remaining === 0) {
+            await applyCreditChange(DB, { profileId: sub.profile_id, type: 'subscription_reset', setSub: sub.points_per_cycle, subscription_id: sub.id, note: 'Recovered' });
           }
-        });
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
+          await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_RECOVERED', { subscription_id: subscriptionId }, null);
+          await notifyProfile(sub.profile_id, 'RECOVERED', { status: 'ACTIVE' });
+        }
       }
-    }
-
-    // Handle editor endpoint - general-purpose image editing with user's custom prompt
-    if (path === '/editor' && request.method === 'POST') {
-      let body: { selfie_id?: string; selfie_image_url?: string; image_id?: string; image_url?: string; ref_image_id?: string; ref_image_url?: string; profile_id?: string; custom_prompt?: string; aspect_ratio?: string; provider?: string } | undefined;
-      let creditResult: any = null;
-      try {
-        body = await request.json() as { selfie_id?: string; selfie_image_url?: string; image_id?: string; image_url?: string; ref_image_id?: string; ref_image_url?: string; profile_id?: string; custom_prompt?: string; aspect_ratio?: string; provider?: string };
 
-        // Accept image_id/image_url as aliases for selfie_id/selfie_image_url
-        if (body!.image_id && !body!.selfie_id) body!.selfie_id = body!.image_id;
-        if (body!.image_url && !body!.selfie_image_url) body!.selfie_image_url = body!.image_url;
+      // (3) CANCELED → mark CANCELLED, user retains access until expires_at
+      if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_CANCELED) {
+        const sub = await DB.prepare('SELECT profile_id FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
+        await DB.prepare('UPDATE subscriptions SET status = \'CANCELLED\', auto_renewing = 0, cancelled_at = unixepoch(), updated_at = unixepoch() WHERE purchase_token = ?').bind(purchaseToken).run();
+        if (sub) {
+          await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_CANCELED', { subscription_id: subscriptionId }, null);
+          await notifyProfile(sub.profile_id, 'CANCELED', { status: 'CANCELLED' });
+        }
+      }
 
-        const hasSelfieId = body!.selfie_id && body!.selfie_id.trim() !== '';
-        const hasSelfieUrl = body!.selfie_image_url && body!.selfie_image_url.trim() !== '';
+      // (7) RESTARTED → user un-canceled before expiry, restore to ACTIVE
+      if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_RESTARTED) {
+        const sub = await DB.prepare('SELECT profile_id, sku FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
+        if (sub) {
+          const googleState = await fetchGoogleSubState(sub.sku, purchaseToken);
+          const newExpiry = googleState?.expiryTimeMillis
+            ? Math.floor(new Date(googleState.expiryTimeMillis).getTime() / 1000)
+            : sub.expires_at;
 
-        if (!hasSelfieId && !hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: selfie_id, selfie_image_url, or image_url', 400, debugEnabled ? { path } : undefined, request, env);
+          await DB.prepare(
+            'UPDATE subscriptions SET status = \'ACTIVE\', auto_renewing = 1, cancelled_at = NULL, expires_at = ?, updated_at = unixepoch() WHERE purchase_token = ?'
+          ).bind(newExpiry, purchaseToken).run();
+          await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_RESTARTED', { subscription_id: subscriptionId }, null);
+          await notifyProfile(sub.profile_id, 'RESTARTED', { status: 'ACTIVE' });
         }
+      }
 
-        if (hasSelfieId && hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Cannot provide both selfie_id and image URL', 400, debugEnabled ? { path } : undefined, request, env);
+      // (13) EXPIRED or (12) REVOKED → mark EXPIRED, zero sub points
+      if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_REVOKED ||
+          notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_EXPIRED) {
+        const sub = await DB.prepare('SELECT id, profile_id FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
+        if (sub) {
+          await DB.prepare('UPDATE subscriptions SET status = \'EXPIRED\', updated_at = unixepoch() WHERE purchase_token = ?').bind(purchaseToken).run();
+          await applyCreditChange(DB, {
+            profileId: sub.profile_id, type: 'expiry', setSub: 0, subscription_id: sub.id,
+            note: notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_REVOKED ? 'Revoked' : 'Expired',
+          });
+          await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_EXPIRED', { notification_type: notificationType, subscription_id: subscriptionId }, null);
+          await notifyProfile(sub.profile_id, 'EXPIRED', { status: 'EXPIRED' });
+          // Revoked = refunded or charged back
+          if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_REVOKED) {
+            await reverseReferralAfterRefund(DB, env, { subscription_id: sub.id }, 'revoked');
+          }
         }
+      }
 
-        if (!body!.profile_id) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: profile_id', 400, debugEnabled ? { path } : undefined, request, env);
+      // (10) PAUSED → user-initiated pause, revoke access
+      if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_PAUSED) {
+        const sub = await DB.prepare('SELECT id, profile_id FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
+        await DB.prepare('UPDATE subscriptions SET status = \'PAUSED\', updated_at = unixepoch() WHERE purchase_token = ?').bind(purchaseToken).run();
+        if (sub) {
+          await applyCreditChange(DB, { profileId: sub.profile_id, type: 'expiry', setSub: 0, subscription_id: sub.id, note: 'Paused' });
+          await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_PAUSED', { subscription_id: subscriptionId }, null);
+          await notifyProfile(sub.profile_id, 'PAUSED', { status: 'PAUSED' });
         }
+      }
 
-        if (!body!.custom_prompt || body!.custom_prompt.trim() === '') {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: custom_prompt', 400, debugEnabled ? { path } : undefined, request, env);
+      // (9) DEFERRED → developer extended entitlement, update expiry
+      if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_DEFERRED) {
+        const sub = await DB.prepare('SELECT profile_id, sku FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
+        if (sub) {
+          const googleState = await fetchGoogleSubState(sub.sku, purchaseToken);
+          if (googleState?.expiryTimeMillis) {
+            const newExpiry = Math.floor(new Date(googleState.expiryTimeMillis).getTime() / 1000);
+            await DB.prepare('UPDATE subscriptions SET expires_at = ?, updated_at = unixepoch() WHERE purchase_token = ?').bind(newExpiry, purchaseToken).run();
+          }
+          await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_DEFERRED', { subscription_id: subscriptionId }, null);
         }
+      }
 
-        const profileCheck = await DB.prepare(
-          'SELECT id FROM profiles WHERE id = ?'
-        ).bind(body!.profile_id).first();
-
-        if (!profileCheck) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Profile not found', 404, debugEnabled ? { profileId: body!.profile_id, path } : undefined, request, env);
+      // (11) PAUSE_SCHEDULE_CHANGED → pause scheduled, user still has access until pause takes effect
+      if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_PAUSE_SCHEDULE_CHANGED) {
+        const sub = await DB.prepare('SELECT profile_id FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
+        if (sub) {
+          await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_PAUSE_SCHEDULED', { subscription_id: subscriptionId }, null);
+          await notifyProfile(sub.profile_id, 'PAUSE_SCHEDULED', { status: 'ACTIVE' });
         }
+      }
 
-        let selfieUrl: string = '';
-        let selfieResult: any = null;
-
-        if (hasSelfieId) {
-          selfieResult = await DB.prepare(`
-            SELECT s.id, s.ext, p.id as profile_exists
-            FROM selfies s
-            INNER JOIN profiles p ON s.profile_id = p.id
-            WHERE s.id = ? AND p.id = ?
-          `).bind(body!.selfie_id, body!.profile_id).first();
-
-          if (!selfieResult) {
-            const cachedResult = await getCachedResultFromKV(env, body!.selfie_id!, null, 'editor');
-            if (cachedResult) {
-              return jsonResponse({
-                data: { resultImageUrl: cachedResult, cached: true },
-                status: 'success',
-                message: 'Cached result returned (selfie was auto-deleted after previous processing)',
-                code: 200,
-              });
-            }
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Selfie not found or does not belong to profile', 404, debugEnabled ? { selfieId: body!.selfie_id, profileId: body!.profile_id, path } : undefined, request, env);
-          }
+      // (18) CANCELLATION_SCHEDULED → installment plan cancellation scheduled
+      if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_CANCELLATION_SCHEDULED) {
+        const sub = await DB.prepare('SELECT profile_id FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
+        if (sub) {
+          await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_CANCELLATION_SCHEDULED', { subscription_id: subscriptionId }, null);
+          await notifyProfile(sub.profile_id, 'CANCELLATION_SCHEDULED', { status: 'ACTIVE' });
+        }
+      }
 
-          const selfieR2Key = reconstructR2Key((selfieResult as any).id, (selfieResult as any).ext, 'selfie');
-          selfieUrl = getR2PublicUrl(env, selfieR2Key, requestUrl.origin);
-        } else {
-          selfieUrl = body!.selfie_image_url!;
-          if (!validateImageUrl(selfieUrl, env)) {
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Invalid image URL', 400, debugEnabled ? { path } : undefined, request, env);
+      // (17) ITEMS_CHANGED → upgrade/downgrade on the same purchase token: move to the new plan, prorate sub points
+      if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_ITEMS_CHANGED) {
+        const sub = await DB.prepare('SELECT id, profile_id, sku, purchase_token, points_per_cycle, last_reset_at FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
+        if (sub) {
+          const googleState = await fetchGoogleSubState(sub.sku, purchaseToken);
+          const newSku = googleState?.valid ? googleState.productId : undefined;
+          const product = newSku && newSku !== sub.sku
+            ? await DB.prepare('SELECT points_per_cycle FROM products WHERE sku = ? AND type = \'subscription\' AND is_active = 1').bind(newSku).first() as any
+            : null;
+          if (newSku && product) {
+            const expiresAt = googleState?.expiryTimeMillis ? Math.floor(new Date(googleState.expiryTimeMillis).getTime() / 1000) : null;
+            await changeSubscriptionPlan(DB, env, sub, { sku: newSku, pointsPerCycle: product.points_per_cycle, purchaseToken, expiresAt, source: 'items_changed' });
+          } else {
+            // Same SKU (e.g. a deferred change not in effect yet) or a SKU that is not an active subscription product
+            await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_ITEMS_CHANGED', { subscription_id: subscriptionId, sku: sub.sku, new_sku: newSku || undefined, applied: false }, null);
           }
         }
+      }
 
-        // Resolve optional reference image (uploaded with type=selfie, action=ref)
-        let refImageUrl: string | undefined;
-        let refResult: any = null;
-        const hasRefId = body.ref_image_id && body.ref_image_id.trim() !== '';
-        const hasRefUrl = body.ref_image_url && body.ref_image_url.trim() !== '';
+      // Log unhandled types for monitoring (8-deprecated, 19, 20, 22)
+      const handledTypes = [1, 2, 3, 4, 5, 6, 7, 9, 10, 11, 13, 12, 17, 18];
+      if (!handledTypes.includes(notificationType)) {
+        console.log(`[Webhook] Unhandled subscription notification type: ${notificationType}`, { subscriptionId, purchaseToken: purchaseToken.slice(0, 20) });
+        await auditLog(DB, 'SYSTEM', 'RTDN_UNHANDLED', { notification_type: notificationType, subscription_id: subscriptionId }, null);
+      }
+    }
 
-        if (hasRefId && hasRefUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Cannot provide both ref_image_id and ref_image_url', 400, debugEnabled ? { path } : undefined, request, env);
+    if (oneTimeProductNotification) {
+      const { notificationType, purchaseToken } = oneTimeProductNotification;
+      // Handle refund/cancellation of one-time purchase
+      if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.ONE_TIME_PRODUCT_CANCELED) {
+        const payment = await DB.prepare('SELECT id, profile_id, sku, credits_granted, platform FROM payments WHERE purchase_token = ? AND status = \'COMPLETED\'').bind(purchaseToken).first() as any;
+        if (payment) {
+          // Deduct refunded credits from consumable (clamp to 0)
+          await refundDeposit(DB, env, payment);
         }
+      }
+    }
 
-        if (hasRefId) {
-          refResult = await DB.prepare(`
-            SELECT s.id, s.ext FROM selfies s
-            WHERE s.id = ? AND s.profile_id = ?
-          `).bind(body.ref_image_id, body.profile_id).first();
+    return jsonResponse({ status: 'success' }, 200, request, env);
+  } catch (error) {
+    console.error('[Webhook Google] Error:', error instanceof Error ? error.message : String(error));
+    return jsonResponse({ status: 'success' }, 200, request, env); // Always 200 to avoid Pub/Sub retries
+  }
+};
 
-          if (!refResult) {
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Reference image not found or does not belong to profile', 404, debugEnabled ? { refImageId: body.ref_image_id, path } : undefined, request, env);
-          }
+// POST /api/deposit/apple - Verify App Store consumable transaction, grant credits
+const handleAppleDeposit = async ({ request, env, DB }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as AppStorePurchaseRequest;
 
-          const refR2Key = reconstructR2Key(refResult.id, refResult.ext, 'selfie');
-          refImageUrl = getR2PublicUrl(env, refR2Key, requestUrl.origin);
-        } else if (hasRefUrl) {
-          if (!validateImageUrl(body.ref_image_url!, env)) {
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Invalid ref_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-          }
-          refImageUrl = body.ref_image_url!;
-        }
+    // Idempotency check (order_id is the App Store transactionId)
+    const existing = await DB.prepare('SELECT id, status FROM payments WHERE order_id = ?').bind(body.transaction_id).first() as any;
+    if (existing && existing.status === 'COMPLETED') {
+      return jsonResponse({ data: { payment_id: existing.id, status: 'COMPLETED', message: 'Already processed' }, status: 'success', code: 200 }, 200, request, env);
+    }
 
-        // Pre-processing safety check on the input image
-        const inputSafetyCheck = await checkImageSafetyWithFlashLite(selfieUrl, env);
-        if (!inputSafetyCheck.safe) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse(
-            inputSafetyCheck.reason || 'Image failed safety check',
-            400,
-            debugEnabled ? { path, safetyCheck: { safe: false, reason: inputSafetyCheck.reason, category: inputSafetyCheck.category } } : undefined,
-            request, env
-          );
-        }
+    // Verify with App Store Server API (the product comes from the signed transaction, not the client)
+    const verification = await verifyAppStoreTransaction(env, body.transaction_id);
+    if (!verification.valid || !verification.transaction) {
+      return errorResponse(`Purchase verification failed: ${verification.error || 'Invalid transaction'}`, 400, undefined, request, env);
+    }
+    const transaction = verification.transaction;
+    if (transaction.type !== 'Consumable') return errorResponse('Transaction is not a consumable purchase', 400, undefined, request, env);
+
+    const product = await DB.prepare('SELECT * FROM products WHERE sku = ? AND type = \'consumable\' AND is_active = 1').bind(transaction.productId).first() as any;
+    if (!product) return errorResponse('Invalid or inactive product SKU', 400, undefined, request, env);
+
+    // Record the payment; a concurrent request for the same transaction loses the unique order_id
+    const paymentId = nanoid();
+    const amountMicros = transaction.price !== undefined ? transaction.price * 1000 : product.price_micros;
+    const inserted = await DB.prepare(
+      'INSERT INTO payments (id, profile_id, sku, order_id, purchase_token, status, credits_granted, amount_micros, currency, platform, raw_response) VALUES (?, ?, ?, ?, ?, \'PENDING\', ?, ?, ?, \'ios\', ?) ON CONFLICT(order_id) DO NOTHING'
+    ).bind(paymentId, body.profile_id, product.sku, transaction.transactionId, transaction.originalTransactionId, product.credits, amountMicros, transaction.currency || product.currency, JSON.stringify(transaction)).run();
+    if (!inserted.meta?.changes) {
+      return errorResponse('Transaction is already being processed', 409, undefined, request, env);
+    }
 
-        // Build prompt from template with user's custom_prompt
-        const promptTemplate = IMAGE_PROCESSING_PROMPTS.EDITOR;
-        const finalPrompt = (typeof promptTemplate === 'string' ? promptTemplate : JSON.stringify(promptTemplate)).replace('{{custom_prompt}}', body.custom_prompt!.trim());
+    // Grant credits and mark payment completed
+    await completeDeposit(DB, env, request, {
+      id: paymentId, profile_id: body.profile_id, sku: product.sku, order_id: transaction.transactionId, credits_granted: product.credits, platform: 'ios',
+    }, null);
 
-        // Get image dimensions for optimal size calculation
-        const { getImageDimensionsExtended, calculateOptimalSize } = await import('./utils');
-        const imageDimensionsExtended = await getImageDimensionsExtended(selfieUrl, env);
+    return jsonResponse({ data: { payment_id: paymentId, credits_granted: product.credits, status: 'COMPLETED' }, status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/api/deposit/apple', error, request, env);
+    return errorResponse('Deposit failed', 500, undefined, request, env);
+  }
+};
 
-        const validAspectRatio = await resolveAspectRatio(body.aspect_ratio, selfieUrl, env, { allowOriginal: true });
+// POST /api/subscription/verify/apple - Verify App Store auto-renewable subscription, set sub points
+const handleAppleSubscriptionVerify = async ({ request, env, DB }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as AppStorePurchaseRequest;
 
-        const userExplicitlySetAspectRatio = body.aspect_ratio && body.aspect_ratio.trim() !== '' && body.aspect_ratio.toLowerCase() !== 'original';
-        let sizeForProvider: string | undefined;
-        if (!userExplicitlySetAspectRatio && imageDimensionsExtended) {
-          const optimal = calculateOptimalSize(imageDimensionsExtended.width, imageDimensionsExtended.height, 1536, 256);
-          sizeForProvider = optimal.sizeString;
-        }
+    const verification = await verifyAppStoreSubscription(env, body.transaction_id);
+    if (!verification.valid || !verification.transaction) {
+      return errorResponse(`Subscription verification failed: ${verification.error || 'Subscription is not active'}`, 400, undefined, request, env);
+    }
+    const transaction = verification.transaction;
 
-        // Build image array: main image + optional reference image
-        const imageUrls = refImageUrl ? [selfieUrl, refImageUrl] : [selfieUrl];
+    // Validate product is subscription
+    const product = await DB.prepare('SELECT * FROM products WHERE sku = ? AND type = \'subscription\' AND is_active = 1').bind(transaction.productId).first() as any;
+    if (!product) return errorResponse('Invalid or inactive subscription SKU', 400, undefined, request, env);
 
-        // Provider routing: use Gemini only if user explicitly requests it, otherwise Flux Klein v3
-        const effectiveProvider = getEffectiveProvider(body, env, 'EDITOR');
-        const useGemini = effectiveProvider.includes('gemini');
+    // One row per subscription: keyed by the originalTransactionId shared by all its renewals
+    const existingSub = await DB.prepare('SELECT id, status FROM subscriptions WHERE purchase_token = ?').bind(transaction.originalTransactionId).first() as any;
+    if (existingSub && existingSub.status === 'ACTIVE') {
+      return jsonResponse({ data: { subscription_id: existingSub.id, status: 'ACTIVE', message: 'Already active' }, status: 'success', code: 200 }, 200, request, env);
+    }
 
-        // Credit deduction (after validation, before processing)
-        creditResult = await deductCredits(DB, body!.profile_id, 'editor', env, request);
-        if (!creditResult.success) {
-          return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
-        }
+    const expiresAt = verification.expiresAt || Math.floor(Date.now() / 1000) + CYCLE_DURATION_SECONDS;
+    const subscriptionId = await activateSubscription(DB, env, request, {
+      profileId: body.profile_id, sku: product.sku, purchaseToken: transaction.originalTransactionId, platform: 'ios',
+      pointsPerCycle: product.points_per_cycle, expiresAt, autoRenewing: verification.autoRenewing ?? true, existingSubId: existingSub?.id,
+    });
 
-        let editResult: FaceSwapResponse;
-        if (useGemini) {
-          editResult = await callWaveSpeedGeminiImageEdit(
-            imageUrls, finalPrompt, env, validAspectRatio, sizeForProvider
-          );
-        } else {
-          editResult = await callWaveSpeedEdit(
-            imageUrls, finalPrompt, env, validAspectRatio, sizeForProvider, API_ENDPOINTS.WAVESPEED_FLUX_KLEIN_EDIT_V3
-          );
-        }
+    return jsonResponse({
+      data: { subscription_id: subscriptionId, points_per_cycle: product.points_per_cycle, expires_at: expiresAt, status: 'ACTIVE' },
+      status: 'success', code: 200
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/api/subscription/verify/apple', error, request, env);
+    return errorResponse('Subscription verification failed', 500, undefined, request, env);
+  }
+};
 
-        if (!editResult.Success || !editResult.ResultImageUrl) {
-          if (body?.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'editor', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
-          }
-          const failureCode = editResult.StatusCode || 500;
-          const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-          const debugEnabled = isDebugEnabled(env);
-          const flatDebug = debugEnabled ? buildFlatDebug(editResult) : undefined;
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: failureCode,
-            ...(flatDebug ? { debug: flatDebug } : {}),
-          }, httpStatus);
-        }
+// POST /webhooks/apple - App Store Server Notifications v2 (signed payload, verified against Apple's root CA)
+const handleAppleWebhook = async ({ request, env, DB }: RouteContext): Promise<Response> => {
+  const rawBody = await request.json().catch(() => null) as { signedPayload?: string } | null;
+  if (!rawBody?.signedPayload) return errorResponse('signedPayload is required', 400, undefined, request, env);
 
-        let resultUrl = editResult.ResultImageUrl;
-        if (editResult.ResultImageUrl?.startsWith('r2://')) {
-          const r2Key = editResult.ResultImageUrl.replace('r2://', '');
-          resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-        }
+  let decoded: Awaited<ReturnType<typeof verifyAppStoreNotification>>;
+  try {
+    decoded = await verifyAppStoreNotification(env, rawBody.signedPayload);
+  } catch (error) {
+    console.error('[Webhook Apple] Invalid signature:', error instanceof Error ? error.message : String(error));
+    return errorResponse('Invalid notification signature', 401, undefined, request, env);
+  }
 
-        // Post-generation safety check for custom prompt results
-        const safetyCheck = await checkSafeSearch(resultUrl, env);
-        if (!safetyCheck.isSafe) {
-          if (body!.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body!.profile_id, 'editor', creditResult.fromSub, creditResult.fromConsumable, 'Content safety violation', request);
-          }
-          const debugEnabled = isDebugEnabled(env);
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: safetyCheck.statusCode || 1001,
-            ...(debugEnabled ? { debug: { safetyCategory: safetyCheck.violationCategory, safetyLevel: safetyCheck.violationLevel, safetyDetails: safetyCheck.details } } : {}),
-          }, 422);
-        }
+  // Non-200 makes Apple retry the notification, so only processing failures return 500
+  try {
+    const { notification, transaction, renewal } = decoded;
+    const { notificationType, subtype } = notification;
+    const types = APP_STORE_CONFIG.NOTIFICATION_TYPES;
+    const subtypes = APP_STORE_CONFIG.NOTIFICATION_SUBTYPES;
+    console.log('[Webhook Apple] Notification:', notificationType, subtype || '', notification.notificationUUID);
+
+    if (!transaction) {
+      return jsonResponse({ status: 'success', message: 'No transaction' }, 200, request, env);
+    }
 
-        const savedResultId = await saveResultToDatabase(DB, resultUrl, body!.profile_id, env, R2_BUCKET, 'editor', request);
+    // Consumable refund: take the granted credits back (clamp to 0)
+    if (notificationType === types.REFUND && transaction.type === 'Consumable') {
+      const payment = await DB.prepare('SELECT id, profile_id, sku, credits_granted, platform FROM payments WHERE order_id = ? AND status = \'COMPLETED\'').bind(transaction.transactionId).first() as any;
+      if (payment) await refundDeposit(DB, env, payment);
+      return jsonResponse({ status: 'success' }, 200, request, env);
+    }
 
-        if (hasSelfieId && body!.selfie_id) {
-          ctx.waitUntil(cacheResultInKV(env, body!.selfie_id, null, 'editor', resultUrl));
-        }
+    if (transaction.type !== 'Auto-Renewable Subscription') {
+      return jsonResponse({ status: 'success', message: 'Ignored' }, 200, request, env);
+    }
 
-        if (hasSelfieId && selfieResult) {
-          const selfieId = (selfieResult as any).id;
-          const selfieExt = (selfieResult as any).ext;
-          ctx.waitUntil(deleteSelfieAfterProcessing(selfieId, selfieExt, env, DB, R2_BUCKET, requestUrl.origin));
-        }
+    // Subscriptions are registered by /api/subscription/verify/apple; notifications for unknown ones are ignored
+    const purchaseToken = transaction.originalTransactionId;
+    const sub = await DB.prepare(
+      'SELECT id, profile_id, points_per_cycle, cycle_count_used, status, expires_at FROM subscriptions WHERE purchase_token = ?'
+    ).bind(purchaseToken).first() as any;
+    if (!sub) {
+      console.warn('[Webhook Apple] Unknown subscription:', purchaseToken);
+      return jsonResponse({ status: 'success', message: 'Unknown subscription' }, 200, request, env);
+    }
 
-        // Auto-delete reference image after processing
-        if (hasRefId && refResult) {
-          ctx.waitUntil(deleteSelfieAfterProcessing(refResult.id, refResult.ext, env, DB, R2_BUCKET, requestUrl.origin));
-        }
+    const now = Math.floor(Date.now() / 1000);
+    const newExpiry = transaction.expiresDate ? Math.floor(transaction.expiresDate / 1000) : sub.expires_at;
 
-        const debugEnabled = isDebugEnabled(env);
-        const flatDebug = debugEnabled ? buildFlatDebug(editResult) : undefined;
-        return jsonResponse({
-          data: {
-            id: savedResultId !== null ? String(savedResultId) : null,
-            resultImageUrl: resultUrl,
-          },
-          status: 'success',
-          message: editResult.Message || 'Image edit completed',
-          code: 200,
-          ...(debugEnabled ? { debug: { ...flatDebug, provider: useGemini ? 'gemini_2_5_flash_image' : 'wavespeed_flux_klein_v3' } } : {}),
-        });
-      } catch (error) {
-        if (body?.profile_id && creditResult?.cost > 0) {
-          await refundCredits(DB, body.profile_id, 'editor', creditResult.fromSub, creditResult.fromConsumable, 'Processing error', request);
-        }
-        logCriticalError('/editor', error, request, env, {
-          body: {
-            selfie_id: body?.selfie_id,
-            profile_id: body?.profile_id,
-          }
-        });
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
+    if (notificationType === types.SUBSCRIBED) {
+      if (sub.status === 'ACTIVE') {
+        await DB.prepare('UPDATE subscriptions SET expires_at = MAX(expires_at, ?), updated_at = unixepoch() WHERE id = ?').bind(newExpiry, sub.id).run();
+      } else {
+        // Resubscribed after lapsing: start a new cycle
+        await DB.prepare(
+          'UPDATE subscriptions SET status = \'ACTIVE\', auto_renewing = 1, cancelled_at = NULL, expires_at = ?, last_reset_at = ?, cycle_count_used = 1, updated_at = unixepoch() WHERE id = ?'
+        ).bind(newExpiry, now, sub.id).run();
+        await applyCreditChange(DB, { profileId: sub.profile_id, type: 'subscription_reset', setSub: sub.points_per_cycle, subscription_id: sub.id, note: 'Resubscribed' });
+        await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_RESTARTED', { subscription_id: sub.id, platform: 'ios' }, null);
+        await notifySubscriptionChange(DB, env, sub.profile_id, 'RESTARTED', { status: 'ACTIVE' });
       }
     }
 
-    // Handle replace-object endpoint - replace highlighted area with custom content using WaveSpeed edit
-    if (path === '/replace-object' && request.method === 'POST') {
-      let body: { selfie_id?: string; selfie_image_url?: string; image_id?: string; image_url?: string; profile_id?: string; custom_prompt?: string } | undefined;
-      let creditResult: any = null;
-      try {
-        body = await request.json() as { selfie_id?: string; selfie_image_url?: string; image_id?: string; image_url?: string; profile_id?: string; custom_prompt?: string };
-
-        // Accept image_id/image_url as aliases for selfie_id/selfie_image_url
-        if (body.image_id && !body.selfie_id) body.selfie_id = body.image_id;
-        if (body.image_url && !body.selfie_image_url) body.selfie_image_url = body.image_url;
+    else if (notificationType === types.DID_RENEW) {
+      // Apple may deliver a renewal more than once; the cycle only advances when the expiry moves forward
+      if (newExpiry > sub.expires_at || sub.status !== 'ACTIVE') {
+        await DB.prepare(
+          'UPDATE subscriptions SET status = \'ACTIVE\', expires_at = ?, last_reset_at = ?, cycle_count_used = ?, updated_at = unixepoch() WHERE id = ?'
+        ).bind(newExpiry, now, sub.cycle_count_used + 1, sub.id).run();
+        await applyCreditChange(DB, { profileId: sub.profile_id, type: 'subscription_reset', setSub: sub.points_per_cycle, subscription_id: sub.id, note: 'Renewed' });
+        await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_RENEWED', { points_per_cycle: sub.points_per_cycle, cycle: sub.cycle_count_used + 1, platform: 'ios' }, null);
+        await notifySubscriptionChange(DB, env, sub.profile_id, 'RENEWED', { status: 'ACTIVE' });
+      }
+    }
 
-        const hasSelfieId = body.selfie_id && body.selfie_id.trim() !== '';
-        const hasSelfieUrl = body.selfie_image_url && body.selfie_image_url.trim() !== '';
+    else if (notificationType === types.DID_FAIL_TO_RENEW) {
+      if (subtype === subtypes.GRACE_PERIOD) {
+        // Billing grace period: user keeps access until gracePeriodExpiresDate
+        const graceExpiry = renewal?.gracePeriodExpiresDate ? Math.floor(renewal.gracePeriodExpiresDate / 1000) : newExpiry;
+        await DB.prepare(
+          'UPDATE subscriptions SET status = \'GRACE\', expires_at = ?, last_reset_at = ?, cycle_count_used = ?, updated_at = unixepoch() WHERE id = ?'
+        ).bind(graceExpiry, now, sub.cycle_count_used + 1, sub.id).run();
+        await applyCreditChange(DB, { profileId: sub.profile_id, type: 'subscription_reset', setSub: sub.points_per_cycle, subscription_id: sub.id, note: 'Grace period' });
+        await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_GRACE', { points_per_cycle: sub.points_per_cycle, cycle: sub.cycle_count_used + 1, platform: 'ios' }, null);
+        await notifySubscriptionChange(DB, env, sub.profile_id, 'IN_GRACE_PERIOD', { status: 'GRACE' });
+      } else {
+        // Billing retry without grace period: no access
+        await DB.prepare('UPDATE subscriptions SET status = \'ON_HOLD\', updated_at = unixepoch() WHERE id = ?').bind(sub.id).run();
+        await applyCreditChange(DB, { profileId: sub.profile_id, type: 'expiry', setSub: 0, subscription_id: sub.id, note: 'On hold' });
+        await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_ON_HOLD', { notification_type: notificationType, subscription_id: sub.id, platform: 'ios' }, null);
+        await notifySubscriptionChange(DB, env, sub.profile_id, 'ON_HOLD', { status: 'ON_HOLD' });
+      }
+    }
 
-        if (!hasSelfieId && !hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: selfie_id or selfie_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    else if (notificationType === types.GRACE_PERIOD_EXPIRED) {
+      await DB.prepare('UPDATE subscriptions SET status = \'ON_HOLD\', updated_at = unixepoch() WHERE id = ?').bind(sub.id).run();
+      await applyCreditChange(DB, { profileId: sub.profile_id, type: 'expiry', setSub: 0, subscription_id: sub.id, note: 'On hold' });
+      await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_ON_HOLD', { notification_type: notificationType, subscription_id: sub.id, platform: 'ios' }, null);
+      await notifySubscriptionChange(DB, env, sub.profile_id, 'ON_HOLD', { status: 'ON_HOLD' });
+    }
 
-        if (hasSelfieId && hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Cannot provide both selfie_id and selfie_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    else if (notificationType === types.EXPIRED || notificationType === types.REVOKE || notificationType === types.REFUND) {
+      await DB.prepare('UPDATE subscriptions SET status = \'EXPIRED\', auto_renewing = 0, updated_at = unixepoch() WHERE id = ?').bind(sub.id).run();
+      await applyCreditChange(DB, {
+        profileId: sub.profile_id, type: 'expiry', setSub: 0, subscription_id: sub.id,
+        note: notificationType === types.REFUND ? 'Refunded' : notificationType === types.REVOKE ? 'Revoked' : 'Expired',
+      });
+      await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_EXPIRED', { notification_type: notificationType, subscription_id: sub.id, platform: 'ios' }, null);
+      await notifySubscriptionChange(DB, env, sub.profile_id, 'EXPIRED', { status: 'EXPIRED' });
+      if (notificationType === types.REFUND) {
+        await reverseReferralAfterRefund(DB, env, { subscription_id: sub.id }, 'refunded');
+      }
+    }
 
-        if (!body.profile_id) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: profile_id', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    else if (notificationType === types.DID_CHANGE_RENEWAL_STATUS) {
+      if (subtype === subtypes.AUTO_RENEW_DISABLED) {
+        // Still usable until expires_at; the daily cleanup expires it afterwards
+        await DB.prepare('UPDATE subscriptions SET status = \'CANCELLED\', auto_renewing = 0, cancelled_at = unixepoch(), updated_at = unixepoch() WHERE id = ?').bind(sub.id).run();
+        await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_CANCELED', { subscription_id: sub.id, platform: 'ios' }, null);
+        await notifySubscriptionChange(DB, env, sub.profile_id, 'CANCELED', { status: 'CANCELLED' });
+      } else if (subtype === subtypes.AUTO_RENEW_ENABLED) {
+        await DB.prepare('UPDATE subscriptions SET status = \'ACTIVE\', auto_renewing = 1, cancelled_at = NULL, updated_at = unixepoch() WHERE id = ? AND status = \'CANCELLED\'').bind(sub.id).run();
+        await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_RESTARTED', { subscription_id: sub.id, platform: 'ios' }, null);
+        await notifySubscriptionChange(DB, env, sub.profile_id, 'RESTARTED', { status: 'ACTIVE' });
+      }
+    }
 
-        if (!body.custom_prompt || body.custom_prompt.trim() === '') {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: custom_prompt', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    else if (notificationType === types.RENEWAL_EXTENDED) {
+      await DB.prepare('UPDATE subscriptions SET expires_at = ?, updated_at = unixepoch() WHERE id = ?').bind(newExpiry, sub.id).run();
+      await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_EXTENDED', { subscription_id: sub.id, expires_at: newExpiry, platform: 'ios' }, null);
+    }
 
-        const profileCheck = await DB.prepare(
-          'SELECT id FROM profiles WHERE id = ?'
-        ).bind(body.profile_id).first();
+    else {
+      await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_NOTIFICATION_UNHANDLED', { notification_type: notificationType, subtype: subtype || null, subscription_id: sub.id, platform: 'ios' }, null);
+    }
 
-        if (!profileCheck) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Profile not found', 404, debugEnabled ? { profileId: body.profile_id, path } : undefined, request, env);
-        }
+    return jsonResponse({ status: 'success' }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/webhooks/apple', error, request, env);
+    return errorResponse('Notification processing failed', 500, undefined, request, env);
+  }
+};
 
-        let selfieUrl: string = '';
-        let selfieResult: any = null;
+// POST /api/deposit/stripe/checkout - Start a Stripe Checkout session for a credit pack (web)
+const handleStripeCheckout = async ({ request, env, DB }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as StripeCheckoutRequest;
 
-        if (hasSelfieId) {
-          selfieResult = await DB.prepare(`
-            SELECT s.id, s.ext, p.id as profile_exists
-            FROM selfies s
-            INNER JOIN profiles p ON s.profile_id = p.id
-            WHERE s.id = ? AND p.id = ?
-          `).bind(body.selfie_id, body.profile_id).first();
-
-          if (!selfieResult) {
-            const cachedResult = await getCachedResultFromKV(env, body.selfie_id!, null, 'replace_object');
-            if (cachedResult) {
-              return jsonResponse({
-                data: { resultImageUrl: cachedResult, cached: true },
-                status: 'success',
-                message: 'Cached result returned (selfie was auto-deleted after previous processing)',
-                code: 200,
-              });
-            }
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Selfie not found or does not belong to profile', 404, debugEnabled ? { selfieId: body.selfie_id, profileId: body.profile_id, path } : undefined, request, env);
-          }
+    // Validate product
+    const product = await DB.prepare('SELECT * FROM products WHERE sku = ? AND type = \'consumable\' AND is_active = 1').bind(body.sku).first() as any;
+    if (!product) return errorResponse('Invalid or inactive product SKU', 400, undefined, request, env);
+    if (toStripeAmount(product.price_micros, product.currency) <= 0) {
+      return errorResponse('Product has no web price', 400, undefined, request, env);
+    }
 
-          const selfieR2Key = reconstructR2Key((selfieResult as any).id, (selfieResult as any).ext, 'selfie');
-          selfieUrl = getR2PublicUrl(env, selfieR2Key, requestUrl.origin);
-        } else {
-          selfieUrl = body.selfie_image_url!;
-          if (!validateImageUrl(selfieUrl, env)) {
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Invalid image URL', 400, debugEnabled ? { path } : undefined, request, env);
-          }
-        }
+    const paymentId = nanoid();
+    const session = await createStripeCheckoutSession(env, {
+      paymentId, profileId: body.profile_id, sku: product.sku, name: product.name, priceMicros: product.price_micros, currency: product.currency,
+    });
 
-        // Build prompt from template with user's custom_prompt
-        const promptTemplate = IMAGE_PROCESSING_PROMPTS.REPLACE_OBJECT;
-        const finalPrompt = promptTemplate.replace('{{custom_prompt}}', body.custom_prompt.trim());
+    // Create pending payment (order_id is the Checkout session id; purchase_token becomes its PaymentIntent once paid)
+    await DB.prepare(
+      'INSERT INTO payments (id, profile_id, sku, order_id, purchase_token, status, credits_granted, amount_micros, currency, platform) VALUES (?, ?, ?, ?, ?, \'PENDING\', ?, ?, ?, \'web\')'
+    ).bind(paymentId, body.profile_id, product.sku, session.id, session.id, product.credits, product.price_micros, product.currency).run();
 
-        // Credit deduction (after validation, before processing)
-        creditResult = await deductCredits(DB, body.profile_id, 'replace_object', env, request);
-        if (!creditResult.success) {
-          return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
-        }
+    return jsonResponse({
+      data: { payment_id: paymentId, order_id: session.id, checkout_url: session.url, expires_at: session.expires_at, credits: product.credits, status: 'PENDING' },
+      status: 'success', code: 200
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/api/deposit/stripe/checkout', error, request, env);
+    return errorResponse('Checkout failed', 500, undefined, request, env);
+  }
+};
 
-        const replaceResult = await callWaveSpeedEdit([selfieUrl], finalPrompt, env);
+// POST /webhooks/stripe - Stripe events for Checkout sessions and refunds (Stripe-Signature verified)
+const handleStripeWebhook = async ({ request, env, DB }: RouteContext): Promise<Response> => {
+  const webhookSecret = env.STRIPE_WEBHOOK_SECRET;
+  if (!webhookSecret) return errorResponse('Stripe webhook not configured', 503, undefined, request, env);
+
+  // The signature covers the raw body, so it is read as text before parsing
+  const payload = await request.text();
+  const signature = await verifyStripeSignature(payload, request.headers.get('Stripe-Signature'), webhookSecret);
+  if (!signature.valid) {
+    console.error('[Webhook Stripe] Invalid signature:', signature.error);
+    return errorResponse('Invalid webhook signature', 401, undefined, request, env);
+  }
 
-        if (!replaceResult.Success || !replaceResult.ResultImageUrl) {
-          if (body?.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'replace_object', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
+  // Non-2xx makes Stripe retry the event, so only processing failures return 500
+  try {
+    const event = JSON.parse(payload) as StripeEvent;
+    const types = STRIPE_CONFIG.EVENT_TYPES;
+    console.log('[Webhook Stripe] Event:', event.type, event.id);
+
+    if (event.type === types.CHECKOUT_COMPLETED || event.type === types.CHECKOUT_ASYNC_PAYMENT_SUCCEEDED) {
+      const session = event.data.object as StripeCheckoutSession;
+      const payment = await DB.prepare(
+        'SELECT id, profile_id, sku, order_id, credits_granted, amount_micros, currency, platform, status FROM payments WHERE order_id = ? AND platform = \'web\''
+      ).bind(session.id).first() as any;
+      if (!payment) {
+        console.warn('[Webhook Stripe] Unknown checkout session:', session.id);
+      } else if (session.payment_status === 'paid' && payment.status === 'PENDING') {
+        // The session must charge what the payment was created for
+        const expectedAmount = toStripeAmount(payment.amount_micros, payment.currency);
+        if (session.amount_total !== expectedAmount || (session.currency || '').toUpperCase() !== String(payment.currency).toUpperCase()) {
+          await DB.prepare('UPDATE payments SET status = \'FAILED\', raw_response = ?, updated_at = unixepoch() WHERE id = ?')
+            .bind(JSON.stringify(session), payment.id).run();
+          console.error('[Webhook Stripe] Amount mismatch for payment:', payment.id, session.amount_total, expectedAmount);
+        } else {
+          if (session.payment_intent) {
+            await DB.prepare('UPDATE payments SET purchase_token = ? WHERE id = ?').bind(session.payment_intent, payment.id).run();
+          }
+          // Same grant as /api/deposit
+          if (await completeDeposit(DB, env, request, payment, JSON.stringify(session))) {
+            await notifySubscriptionChange(DB, env, payment.profile_id, 'DEPOSIT', { credits_granted: String(payment.credits_granted) });
           }
-          const failureCode = replaceResult.StatusCode || 500;
-          const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-          const debugEnabled = isDebugEnabled(env);
-          const flatDebug = debugEnabled ? buildFlatDebug(replaceResult) : undefined;
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: failureCode,
-            ...(flatDebug ? { debug: flatDebug } : {}),
-          }, httpStatus);
         }
+      }
+      // payment_status 'unpaid': delayed payment method, completed by async_payment_succeeded
+    }
 
-        let resultUrl = replaceResult.ResultImageUrl;
-        if (replaceResult.ResultImageUrl?.startsWith('r2://')) {
-          const r2Key = replaceResult.ResultImageUrl.replace('r2://', '');
-          resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-        }
+    else if (event.type === types.CHECKOUT_ASYNC_PAYMENT_FAILED || event.type === types.CHECKOUT_EXPIRED) {
+      const session = event.data.object as StripeCheckoutSession;
+      await DB.prepare('UPDATE payments SET status = \'FAILED\', raw_response = ?, updated_at = unixepoch() WHERE order_id = ? AND platform = \'web\' AND status = \'PENDING\'')
+        .bind(JSON.stringify(session), session.id).run();
+    }
 
-        // Post-generation safety check for custom prompt results
-        const safetyCheck = await checkSafeSearch(resultUrl, env);
-        if (!safetyCheck.isSafe) {
-          if (body.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'replace_object', creditResult.fromSub, creditResult.fromConsumable, 'Content safety violation', request);
-          }
-          const debugEnabled = isDebugEnabled(env);
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: safetyCheck.statusCode || 1001,
-            ...(debugEnabled ? { debug: { safetyCategory: safetyCheck.violationCategory, safetyLevel: safetyCheck.violationLevel, safetyDetails: safetyCheck.details } } : {}),
-          }, 422);
-        }
+    else if (event.type === types.CHARGE_REFUNDED) {
+      // Partial refunds keep the credits; only a full refund takes them back
+      const charge = event.data.object as StripeCharge;
+      if (charge.refunded && charge.payment_intent) {
+        const payment = await DB.prepare(
+          'SELECT id, profile_id, sku, credits_granted, platform FROM payments WHERE purchase_token = ? AND platform = \'web\' AND status = \'COMPLETED\''
+        ).bind(charge.payment_intent).first() as any;
+        if (payment) await refundDeposit(DB, env, payment);
+      }
+    }
 
-        const savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'replace-object', request);
+    return jsonResponse({ status: 'success' }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/webhooks/stripe', error, request, env);
+    return errorResponse('Event processing failed', 500, undefined, request, env);
+  }
+};
 
-        if (hasSelfieId && body.selfie_id) {
-          ctx.waitUntil(cacheResultInKV(env, body.selfie_id, null, 'replace_object', resultUrl));
-        }
+// ---- Promo codes ----
 
-        if (hasSelfieId && selfieResult) {
-          const selfieId = (selfieResult as any).id;
-          const selfieExt = (selfieResult as any).ext;
-          ctx.waitUntil(deleteSelfieAfterProcessing(selfieId, selfieExt, env, DB, R2_BUCKET, requestUrl.origin));
-        }
+const parsePromoDate = (value: string | null | undefined): number | null | undefined => {
+  if (value === undefined || value === null || value === '') return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : Math.floor(time / 1000);
+};
 
-        const debugEnabled = isDebugEnabled(env);
-        const flatDebug = debugEnabled ? buildFlatDebug(replaceResult) : undefined;
-        return jsonResponse({
-          data: {
-            id: savedResultId !== null ? String(savedResultId) : null,
-            resultImageUrl: resultUrl,
-          },
-          status: 'success',
-          message: replaceResult.Message || 'Object replacement completed',
-          code: 200,
-          ...(debugEnabled ? { debug: flatDebug } : {}),
-        });
-      } catch (error) {
-        if (body?.profile_id && creditResult?.cost > 0) {
-          await refundCredits(DB, body.profile_id, 'replace_object', creditResult.fromSub, creditResult.fromConsumable, 'Processing error', request);
-        }
-        logCriticalError('/replace-object', error, request, env, {
-          body: {
-            selfie_id: body?.selfie_id,
-            profile_id: body?.profile_id,
-          }
-        });
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
-      }
+// POST /api/promo/redeem - Redeem a promo code for consumable credits
+const handleRedeemPromo = async ({ request, env, DB }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as PromoRedeemRequest;
+    const profile = await DB.prepare('SELECT is_banned FROM profiles WHERE id = ?').bind(body.profile_id).first() as { is_banned: number } | null;
+    if (!profile) return errorResponse('Profile not found', 404, undefined, request, env);
+    if (profile.is_banned) return errorResponse('Account is banned', 403, undefined, request, env);
+
+    const country = request.headers.get('CF-IPCountry') || '';
+    const outcome = await redeemPromoCode(DB, env, body.code, body.profile_id, country);
+    switch (outcome.kind) {
+      case 'not_found': return errorResponse('Invalid promo code', 404, undefined, request, env);
+      case 'not_started': return errorResponse('Promo code is not active yet', 400, undefined, request, env);
+      case 'expired': return errorResponse('Promo code has expired', 410, undefined, request, env);
+      case 'country_not_allowed': return errorResponse('Promo code is not available in your country', 403, undefined, request, env);
+      case 'exhausted': return errorResponse('Promo code has been fully redeemed', 410, undefined, request, env);
+      case 'limit_reached': return errorResponse('Promo code already redeemed', 409, undefined, request, env);
+      case 'profile_not_found': return errorResponse('Profile not found', 404, undefined, request, env);
     }
 
-    // Handle remove-text endpoint - remove highlighted text from image using Gemini 2.5 Flash
-    if (path === '/remove-text' && request.method === 'POST') {
-      let body: { image_id?: string; image_url?: string; selfie_id?: string; selfie_image_url?: string; profile_id?: string } | undefined;
-      let creditResult: any = null;
-      try {
-        body = await request.json() as { image_id?: string; image_url?: string; selfie_id?: string; selfie_image_url?: string; profile_id?: string };
-
-        // Support both new (image_id/image_url) and legacy (selfie_id/selfie_image_url) param names
-        const effectiveImageId = body.image_id || body.selfie_id;
-        const effectiveImageUrl = body.image_url || body.selfie_image_url;
-        const hasSelfieId = effectiveImageId && effectiveImageId.trim() !== '';
-        const hasSelfieUrl = effectiveImageUrl && effectiveImageUrl.trim() !== '';
+    const { redemption } = outcome;
+    const ip = request.headers.get('cf-connecting-ip') || null;
+    await auditLog(DB, body.profile_id, 'PROMO_REDEEM', { code: redemption.code, redemption_id: redemption.id, credits: redemption.credits, country: redemption.country }, ip);
 
-        if (!hasSelfieId && !hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: image_id or image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    const balance = await DB.prepare('SELECT consumable_point_remaining FROM profiles WHERE id = ?').bind(body.profile_id).first() as { consumable_point_remaining: number } | null;
+    return jsonResponse({
+      data: { redemption_id: redemption.id, code: redemption.code, credits_granted: redemption.credits, consumable_point_remaining: balance?.consumable_point_remaining ?? null },
+      status: 'success', code: 200
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/api/promo/redeem', error, request, env);
+    return errorResponse('Failed to redeem promo code', 500, undefined, request, env);
+  }
+};
 
-        if (hasSelfieId && hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Cannot provide both image_id and image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+// POST /admin/promo-codes - Create a promo code
+const handleCreatePromoCode = async ({ request, env, DB }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as PromoCodeCreateRequest;
+    const code = normalizePromoCode(body.code);
+    if (!PROMO_CONFIG.CODE_PATTERN.test(code)) {
+      return errorResponse('code must be 4-32 characters of A-Z, 0-9, _ or -', 400, undefined, request, env);
+    }
+    const startsAt = parsePromoDate(body.starts_at);
+    const expiresAt = parsePromoDate(body.expires_at);
+    if (startsAt === undefined || expiresAt === undefined) {
+      return errorResponse('starts_at and expires_at must be ISO 8601 dates', 400, undefined, request, env);
+    }
+    if (startsAt && expiresAt && expiresAt <= startsAt) {
+      return errorResponse('expires_at must be after starts_at', 400, undefined, request, env);
+    }
+    const countries = body.countries?.length ? body.countries.map((entry) => entry.trim().toUpperCase()) : null;
 
-        if (!body.profile_id) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: profile_id', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    const inserted = await DB.prepare(
+      'INSERT INTO promo_codes (code, credits, max_redemptions, per_profile_limit, countries, starts_at, expires_at, note) VALUES (?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT(code) DO NOTHING'
+    ).bind(code, body.credits, body.max_redemptions ?? null, body.per_profile_limit ?? 1, countries ? JSON.stringify(countries) : null, startsAt, expiresAt, body.note ?? null).run();
+    if (!inserted.meta?.changes) return errorResponse('Promo code already exists', 409, undefined, request, env);
 
-        const profileCheck = await DB.prepare(
-          'SELECT id FROM profiles WHERE id = ?'
-        ).bind(body.profile_id).first();
+    const promo = await DB.prepare('SELECT * FROM promo_codes WHERE code = ?').bind(code).first() as PromoCode;
+    return jsonResponse({ data: formatPromoCode(promo), status: 'success', code: 201 }, 201, request, env);
+  } catch (error) {
+    logCriticalError('/admin/promo-codes', error, request, env);
+    return errorResponse('Failed to create promo code', 500, undefined, request, env);
+  }
+};
 
-        if (!profileCheck) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Profile not found', 404, debugEnabled ? { profileId: body.profile_id, path } : undefined, request, env);
-        }
+// GET /admin/promo-codes - List promo codes (newest first)
+const handleListPromoCodes = async ({ request, env, DB, requestUrl }: RouteContext): Promise<Response> => {
+  try {
+    let limit = PROMO_CONFIG.LIST_LIMIT;
+    const parsedLimit = parseInt(requestUrl.searchParams.get('limit') || '', 10);
+    if (!isNaN(parsedLimit) && parsedLimit > 0 && parsedLimit <= PROMO_CONFIG.LIST_LIMIT) {
+      limit = parsedLimit;
+    }
+    const active = requestUrl.searchParams.get('active');
+    const where = active === 'true' ? 'WHERE is_active = 1' : active === 'false' ? 'WHERE is_active = 0' : '';
+    const result = await DB.prepare(`SELECT * FROM promo_codes ${where} ORDER BY created_at DESC, code LIMIT ${limit}`).all();
+    return jsonResponse({ data: ((result.results || []) as unknown as PromoCode[]).map(formatPromoCode), status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/admin/promo-codes', error, request, env);
+    return errorResponse('Failed to list promo codes', 500, undefined, request, env);
+  }
+};
 
-        let selfieUrl: string = '';
-        let selfieResult: any = null;
+// GET /admin/promo-codes/:code/redemptions - Redemptions of a code (newest first)
+const handleListPromoRedemptions = async ({ request, env, DB, params }: RouteContext): Promise<Response> => {
+  try {
+    const code = normalizePromoCode(params.code || '');
+    const promo = await DB.prepare('SELECT code FROM promo_codes WHERE code = ?').bind(code).first();
+    if (!promo) return errorResponse('Promo code not found', 404, undefined, request, env);
+    const result = await DB.prepare(
+      `SELECT * FROM promo_redemptions WHERE code = ? ORDER BY created_at DESC LIMIT ${PROMO_CONFIG.LIST_LIMIT}`
+    ).bind(code).all();
+    return jsonResponse({ data: ((result.results || []) as unknown as PromoRedemption[]).map(formatPromoRedemption), status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/admin/promo-codes/:code/redemptions', error, request, env);
+    return errorResponse('Failed to list promo redemptions', 500, undefined, request, env);
+  }
+};
 
-        if (hasSelfieId) {
-          selfieResult = await DB.prepare(`
-            SELECT s.id, s.ext, p.id as profile_exists
-            FROM selfies s
-            INNER JOIN profiles p ON s.profile_id = p.id
-            WHERE s.id = ? AND p.id = ?
-          `).bind(effectiveImageId, body.profile_id).first();
-
-          if (!selfieResult) {
-            const cachedResult = await getCachedResultFromKV(env, effectiveImageId!, null, 'remove_text');
-            if (cachedResult) {
-              return jsonResponse({
-                data: { resultImageUrl: cachedResult, cached: true },
-                status: 'success',
-                message: 'Cached result returned (image was auto-deleted after previous processing)',
-                code: 200,
-              });
-            }
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Image not found or does not belong to profile', 404, debugEnabled ? { imageId: effectiveImageId, profileId: body.profile_id, path } : undefined, request, env);
-          }
+// POST /admin/promo-redemptions/:id/reverse - Take the credits of a redemption back
+const handleReversePromoRedemption = async ({ request, env, DB, params }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as { reason?: string };
+    const redemption = await reversePromoRedemption(DB, params.id, body.reason || null);
+    if (!redemption) return errorResponse('Redemption not found or already reversed', 404, undefined, request, env);
 
-          const selfieR2Key = reconstructR2Key((selfieResult as any).id, (selfieResult as any).ext, 'selfie');
-          selfieUrl = getR2PublicUrl(env, selfieR2Key, requestUrl.origin);
-        } else {
-          selfieUrl = effectiveImageUrl!;
-          if (!validateImageUrl(selfieUrl, env)) {
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Invalid image URL', 400, debugEnabled ? { path } : undefined, request, env);
-          }
-        }
+    const ip = request.headers.get('cf-connecting-ip') || null;
+    await auditLog(DB, redemption.profile_id, 'PROMO_REVERSE', { code: redemption.code, redemption_id: redemption.id, credits: redemption.credits, reason: redemption.reversal_reason }, ip);
+    return jsonResponse({ data: formatPromoRedemption(redemption), status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/admin/promo-redemptions/:id/reverse', error, request, env);
+    return errorResponse('Failed to reverse promo redemption', 500, undefined, request, env);
+  }
+};
 
-        // Credit deduction (after validation, before processing)
-        creditResult = await deductCredits(DB, body.profile_id, 'remove_text', env, request);
-        if (!creditResult.success) {
-          return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
-        }
+// ---- Referrals ----
 
-        const removeTextResult = await callWaveSpeedGeminiImageEdit([selfieUrl], IMAGE_PROCESSING_PROMPTS.REMOVE_TEXT, env);
+// Record a referral for a new profile; returns what the client is told about it
+const applyReferralCode = async (DB: D1Database, profileId: string, code: string, ip: string | null) => {
+  try {
+    const outcome = await redeemReferralCode(DB, profileId, code, ip);
+    if (outcome.kind !== 'recorded') return { status: outcome.kind };
+    const { referral } = outcome;
+    await auditLog(DB, profileId, 'REFERRAL_REDEEM', { referral_id: referral.id, code: referral.code, inviter_profile_id: referral.inviter_profile_id, status: referral.status, reject_reason: referral.reject_reason }, ip);
+    // Rejected referrals look pending to the client so abuse checks are not probed
+    return { status: 'pending', code: referral.code };
+  } catch (error) {
+    console.error('[Referral] Redeem failed:', error instanceof Error ? error.message : String(error));
+    return { status: 'error' };
+  }
+};
 
-        if (!removeTextResult.Success || !removeTextResult.ResultImageUrl) {
-          if (body?.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'remove_text', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
-          }
-          const failureCode = removeTextResult.StatusCode || 500;
-          const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-          const debugEnabled = isDebugEnabled(env);
-          const flatDebug = debugEnabled ? buildFlatDebug(removeTextResult) : undefined;
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: failureCode,
-            ...(flatDebug ? { debug: flatDebug } : {}),
-          }, httpStatus);
-        }
+// GET /api/referrals - Referral code and stats of a profile
+const handleGetReferrals = async ({ request, env, DB, requestUrl }: RouteContext): Promise<Response> => {
+  const profileId = requestUrl.searchParams.get('profile_id');
+  if (!profileId) return errorResponse('profile_id is required', 400, undefined, request, env);
+  try {
+    const code = await getOrCreateReferralCode(DB, profileId);
+    if (!code) return errorResponse('Profile not found', 404, undefined, request, env);
+    const rewards = getReferralRewards(env);
+    const stats = await getReferralStats(DB, profileId);
+    return jsonResponse({
+      data: { profile_id: profileId, referral_code: code, inviter_credits: rewards.inviter, invitee_credits: rewards.invitee, ...stats },
+      status: 'success', code: 200
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/api/referrals', error, request, env, { profileId });
+    return errorResponse('Failed to fetch referrals', 500, undefined, request, env);
+  }
+};
 
-        let resultUrl = removeTextResult.ResultImageUrl;
-        if (removeTextResult.ResultImageUrl?.startsWith('r2://')) {
-          const r2Key = removeTextResult.ResultImageUrl.replace('r2://', '');
-          resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-        }
+// POST /api/referrals/redeem - Redeem a referral code after profile creation (new profiles only)
+const handleRedeemReferral = async ({ request, env, DB }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as ReferralRedeemRequest;
+    const profile = await DB.prepare('SELECT created_at FROM profiles WHERE id = ?').bind(body.profile_id).first() as { created_at: number } | null;
+    if (!profile) return errorResponse('Profile not found', 404, undefined, request, env);
+    if (profile.created_at < Math.floor(Date.now() / 1000) - REFERRAL_CONFIG.REDEEM_WINDOW_SECONDS) {
+      return errorResponse('Referral codes can only be redeemed by new profiles', 400, undefined, request, env);
+    }
+    const purchased = await DB.prepare(
+      'SELECT (SELECT COUNT(*) FROM payments WHERE profile_id = ?1 AND status = \'COMPLETED\') + (SELECT COUNT(*) FROM subscriptions WHERE profile_id = ?1) AS count'
+    ).bind(body.profile_id).first() as { count: number } | null;
+    if (purchased?.count) return errorResponse('Referral codes must be redeemed before the first purchase', 400, undefined, request, env);
+
+    const referral = await applyReferralCode(DB, body.profile_id, body.referral_code, request.headers.get('cf-connecting-ip') || null);
+    switch (referral.status) {
+      case 'invalid_code': return errorResponse('Invalid referral code', 404, undefined, request, env);
+      case 'own_code': return errorResponse('Cannot redeem your own referral code', 400, undefined, request, env);
+      case 'already_referred': return errorResponse('Referral code already redeemed', 409, undefined, request, env);
+      case 'error': return errorResponse('Failed to redeem referral code', 500, undefined, request, env);
+    }
+    return jsonResponse({ data: referral, status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/api/referrals/redeem', error, request, env);
+    return errorResponse('Failed to redeem referral code', 500, undefined, request, env);
+  }
+};
 
-        const savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'remove-text', request);
+// ---- Admin ----
+// /admin/* routes authenticate with ADMIN_API_KEY (auth.admin); every action, reads included, is written to audit_log
 
-        if (hasSelfieId && effectiveImageId) {
-          ctx.waitUntil(cacheResultInKV(env, effectiveImageId, null, 'remove_text', resultUrl));
-        }
+const getAdminListLimit = (requestUrl: URL): number => {
+  const parsedLimit = parseInt(requestUrl.searchParams.get('limit') || '', 10);
+  return !isNaN(parsedLimit) && parsedLimit > 0 && parsedLimit <= ADMIN_CONFIG.LIST_LIMIT ? parsedLimit : ADMIN_CONFIG.LIST_LIMIT;
+};
 
-        if (hasSelfieId && selfieResult) {
-          const selfieId = (selfieResult as any).id;
-          const selfieExt = (selfieResult as any).ext;
-          ctx.waitUntil(deleteSelfieAfterProcessing(selfieId, selfieExt, env, DB, R2_BUCKET, requestUrl.origin));
-        }
+// GET /admin/profiles - Search profiles by device_id, user_id, email and/or phone (exact match)
+const handleAdminSearchProfiles = async ({ request, env, DB, requestUrl }: RouteContext): Promise<Response> => {
+  try {
+    const filters: Record<string, string | null> = {};
+    for (const field of ADMIN_CONFIG.SEARCH_FIELDS) filters[field] = requestUrl.searchParams.get(field);
+    const profiles = await searchProfiles(DB, filters, getAdminListLimit(requestUrl));
+    if (!profiles) return errorResponse('One of device_id, user_id, email or phone is required', 400, undefined, request, env);
+
+    const ip = request.headers.get('cf-connecting-ip') || null;
+    const searched = Object.fromEntries(Object.entries(filters).filter(([, value]) => value));
+    await auditLog(DB, ADMIN_CONFIG.AUDIT_PROFILE_ID, 'ADMIN_PROFILE_SEARCH', { ...searched, count: profiles.length }, ip);
+    return jsonResponse({ data: profiles.map(formatAdminProfile), status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/admin/profiles', error, request, env);
+    return errorResponse('Failed to search profiles', 500, undefined, request, env);
+  }
+};
 
-        const debugEnabled = isDebugEnabled(env);
-        const flatDebug = debugEnabled ? buildFlatDebug(removeTextResult) : undefined;
-        return jsonResponse({
-          data: {
-            id: savedResultId !== null ? String(savedResultId) : null,
-            resultImageUrl: resultUrl,
-          },
-          status: 'success',
-          message: removeTextResult.Message || 'Text removal completed',
-          code: 200,
-          ...(debugEnabled ? { debug: flatDebug } : {}),
-        });
-      } catch (error) {
-        if (body?.profile_id && creditResult?.cost > 0) {
-          await refundCredits(DB, body.profile_id, 'remove_text', creditResult.fromSub, creditResult.fromConsumable, 'Processing error', request);
-        }
-        logCriticalError('/remove-text', error, request, env, {
-          body: {
-            image_id: body?.image_id || body?.selfie_id,
-            image_url: body?.image_url || body?.selfie_image_url,
-            profile_id: body?.profile_id,
-          }
-        });
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
-      }
-    }
+// GET /admin/profiles/:id - Profile with balances, held credits, ban status and current subscription
+const handleAdminGetProfile = async ({ request, env, DB, params }: RouteContext): Promise<Response> => {
+  try {
+    const profile = await DB.prepare('SELECT * FROM profiles WHERE id = ?').bind(params.id).first() as Record<string, any> | null;
+    if (!profile) return errorResponse('Profile not found', 404, undefined, request, env);
+    const subscription = await DB.prepare(
+      'SELECT * FROM subscriptions WHERE profile_id = ? AND status NOT IN (\'EXPIRED\') ORDER BY created_at DESC LIMIT 1'
+    ).bind(params.id).first() as Subscription | null;
+    const held = await getHeldCredits(DB, params.id);
+
+    await auditLog(DB, params.id, 'ADMIN_PROFILE_VIEW', { view: 'profile' }, request.headers.get('cf-connecting-ip') || null);
+    return jsonResponse({
+      data: {
+        ...formatAdminProfile(profile),
+        sub_point_held: held.sub,
+        consumable_point_held: held.consumable,
+        subscription: subscription ? formatAdminSubscription(subscription) : null,
+      },
+      status: 'success',
+      code: 200,
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/admin/profiles/:id', error, request, env);
+    return errorResponse('Failed to fetch profile', 500, undefined, request, env);
+  }
+};
 
-    // Handle hair-style endpoint - apply hair style preset to selfie using WaveSpeed Gemini 2.5 Flash Image Edit
-    if (path === '/hair-style' && request.method === 'POST') {
-      let body: { preset_image_id?: string; selfie_id?: string; selfie_image_url?: string; image_id?: string; image_url?: string; profile_id?: string; aspect_ratio?: string } | undefined;
-      let creditResult: any = null;
-      try {
-        body = await request.json() as { preset_image_id?: string; selfie_id?: string; selfie_image_url?: string; image_id?: string; image_url?: string; profile_id?: string; aspect_ratio?: string };
+// GET /admin/profiles/:id/payments - Payments of a profile (newest first)
+const handleAdminListPayments = async ({ request, env, DB, params, requestUrl }: RouteContext): Promise<Response> => {
+  try {
+    const profile = await DB.prepare('SELECT id FROM profiles WHERE id = ?').bind(params.id).first();
+    if (!profile) return errorResponse('Profile not found', 404, undefined, request, env);
+    const result = await DB.prepare(
+      `SELECT * FROM payments WHERE profile_id = ? ORDER BY created_at DESC LIMIT ${getAdminListLimit(requestUrl)}`
+    ).bind(params.id).all();
+
+    await auditLog(DB, params.id, 'ADMIN_PROFILE_VIEW', { view: 'payments' }, request.headers.get('cf-connecting-ip') || null);
+    return jsonResponse({ data: ((result.results || []) as unknown as Payment[]).map(formatAdminPayment), status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/admin/profiles/:id/payments', error, request, env);
+    return errorResponse('Failed to list payments', 500, undefined, request, env);
+  }
+};
 
-        // Accept image_id/image_url as aliases for selfie_id/selfie_image_url
-        if (body!.image_id && !body!.selfie_id) body!.selfie_id = body!.image_id;
-        if (body!.image_url && !body!.selfie_image_url) body!.selfie_image_url = body!.image_url;
+// GET /admin/profiles/:id/subscriptions - Subscriptions of a profile, expired ones included (newest first)
+const handleAdminListSubscriptions = async ({ request, env, DB, params, requestUrl }: RouteContext): Promise<Response> => {
+  try {
+    const profile = await DB.prepare('SELECT id FROM profiles WHERE id = ?').bind(params.id).first();
+    if (!profile) return errorResponse('Profile not found', 404, undefined, request, env);
+    const result = await DB.prepare(
+      `SELECT * FROM subscriptions WHERE profile_id = ? ORDER BY created_at DESC LIMIT ${getAdminListLimit(requestUrl)}`
+    ).bind(params.id).all();
+
+    await auditLog(DB, params.id, 'ADMIN_PROFILE_VIEW', { view: 'subscriptions' }, request.headers.get('cf-connecting-ip') || null);
+    return jsonResponse({ data: ((result.results || []) as unknown as Subscription[]).map(formatAdminSubscription), status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/admin/profiles/:id/subscriptions', error, request, env);
+    return errorResponse('Failed to list subscriptions', 500, undefined, request, env);
+  }
+};
 
-        if (!body!.preset_image_id || body!.preset_image_id.trim() === '') {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: preset_image_id', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+// GET /admin/profiles/:id/audit-log - Audit log of a profile (newest first; page with before=<id>)
+const handleAdminListAuditLog = async ({ request, env, DB, params, requestUrl }: RouteContext): Promise<Response> => {
+  try {
+    const profile = await DB.prepare('SELECT id FROM profiles WHERE id = ?').bind(params.id).first();
+    if (!profile) return errorResponse('Profile not found', 404, undefined, request, env);
+    const limit = getAdminListLimit(requestUrl);
+    const action = requestUrl.searchParams.get('action');
+    const before = parseInt(requestUrl.searchParams.get('before') || '', 10);
+
+    const conditions = ['profile_id = ?'];
+    const bindings: (string | number)[] = [params.id];
+    if (action) { conditions.push('action = ?'); bindings.push(action); }
+    if (!isNaN(before) && before > 0) { conditions.push('id < ?'); bindings.push(before); }
+    const result = await DB.prepare(
+      `SELECT * FROM audit_log WHERE ${conditions.join(' AND ')} ORDER BY id DESC LIMIT ${limit}`
+    ).bind(...bindings).all();
+    const entries = ((result.results || []) as unknown as AuditLogEntry[]).map(formatAuditLogEntry);
+
+    await auditLog(DB, params.id, 'ADMIN_PROFILE_VIEW', { view: 'audit_log' }, request.headers.get('cf-connecting-ip') || null);
+    return jsonResponse({
+      data: { entries, next_before: entries.length === limit ? entries[entries.length - 1].id : null },
+      status: 'success',
+      code: 200,
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/admin/profiles/:id/audit-log', error, request, env);
+    return errorResponse('Failed to list audit log', 500, undefined, request, env);
+  }
+};
 
-        const hasSelfieId = body!.selfie_id && body!.selfie_id.trim() !== '';
-        const hasSelfieUrl = body!.selfie_image_url && body!.selfie_image_url.trim() !== '';
+// POST /admin/profiles/:id/ban and /admin/profiles/:id/unban - A banned profile cannot spend credits
+const handleAdminSetBanned = (banned: boolean) => async ({ request, env, DB, params }: RouteContext): Promise<Response> => {
+  const path = `/admin/profiles/:id/${banned ? 'ban' : 'unban'}`;
+  try {
+    const body = await request.json() as AdminActionRequest;
+    const outcome = await setProfileBanned(DB, params.id, banned);
+    if (outcome === 'not_found') return errorResponse('Profile not found', 404, undefined, request, env);
 
-        if (!hasSelfieId && !hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: selfie_id or selfie_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    await auditLog(DB, params.id, banned ? 'ADMIN_BAN' : 'ADMIN_UNBAN', { reason: body.reason || undefined, changed: outcome === 'updated' }, request.headers.get('cf-connecting-ip') || null);
+    return jsonResponse({ data: { profile_id: params.id, is_banned: banned, changed: outcome === 'updated' }, status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError(path, error, request, env);
+    return errorResponse(`Failed to ${banned ? 'ban' : 'unban'} profile`, 500, undefined, request, env);
+  }
+};
 
-        if (hasSelfieId && hasSelfieUrl) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Cannot provide both selfie_id and selfie_image_url', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+// POST /admin/profiles/:id/credits - Add or take credits (an 'adjustment' ledger entry) with a reason
+const handleAdminAdjustCredits = async ({ request, env, DB, params }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as AdminCreditAdjustRequest;
+    const reason = body.reason.trim();
+    if (!reason) return errorResponse('reason is required', 400, undefined, request, env);
+    if (body.amount === 0) return errorResponse('amount must not be 0', 400, undefined, request, env);
+    const pool = body.pool || 'consumable';
+
+    const profile = await DB.prepare('SELECT id FROM profiles WHERE id = ?').bind(params.id).first();
+    if (!profile) return errorResponse('Profile not found', 404, undefined, request, env);
+    if (pool === 'sub') {
+      // Sub points without a subscription are zeroed on the next credit check
+      const sub = await DB.prepare(
+        'SELECT id FROM subscriptions WHERE profile_id = ? AND status IN (\'ACTIVE\', \'GRACE\') LIMIT 1'
+      ).bind(params.id).first();
+      if (!sub) return errorResponse('Sub points can only be adjusted while the profile has an active subscription', 409, undefined, request, env);
+    }
 
-        if (!body.profile_id) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Missing required field: profile_id', 400, debugEnabled ? { path } : undefined, request, env);
-        }
+    const change = await applyCreditChange(DB, {
+      profileId: params.id, type: 'adjustment', [pool]: body.amount, note: `Admin: ${reason}`,
+    });
+    if (!change.applied) return errorResponse('Adjustment would make the balance negative', 409, undefined, request, env);
+
+    const balance = await DB.prepare('SELECT sub_point_remaining, consumable_point_remaining FROM profiles WHERE id = ?').bind(params.id).first() as { sub_point_remaining: number; consumable_point_remaining: number };
+    await auditLog(DB, params.id, 'ADMIN_CREDIT_ADJUST', { pool, amount: body.amount, reason, ledger_entry_id: change.entryId, ...balance }, request.headers.get('cf-connecting-ip') || null);
+    return jsonResponse({
+      data: { profile_id: params.id, pool, amount: body.amount, ledger_entry_id: change.entryId, ...balance },
+      status: 'success',
+      code: 200,
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/admin/profiles/:id/credits', error, request, env);
+    return errorResponse('Failed to adjust credits', 500, undefined, request, env);
+  }
+};
 
-        // Normalize preset_image_id
-        const normalized = normalizePresetId(body.preset_image_id);
-        if (normalized) {
-          body.preset_image_id = normalized;
-        }
+// POST /admin/subscriptions/:id/expire - Expire a subscription now and take its sub points
+const handleAdminExpireSubscription = async ({ request, env, DB, params }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as AdminActionRequest;
+    const subscription = await forceExpireSubscription(DB, params.id, body.reason ? `Admin: ${body.reason}` : 'Expired by admin');
+    if (!subscription) {
+      const existing = await DB.prepare('SELECT id FROM subscriptions WHERE id = ?').bind(params.id).first();
+      return existing
+        ? errorResponse('Subscription already expired', 409, undefined, request, env)
+        : errorResponse('Subscription not found', 404, undefined, request, env);
+    }
 
-        // Parallel DB queries: profile + preset + optional selfie
-        const queries: Promise<any>[] = [
-          DB.prepare('SELECT id FROM profiles WHERE id = ?').bind(body.profile_id).first(),
-          DB.prepare('SELECT id, ext FROM presets WHERE id = ?').bind(body.preset_image_id).first(),
-        ];
-        if (hasSelfieId) {
-          queries.push(
-            DB.prepare(`
-              SELECT s.id, s.ext, p.id as profile_exists
-              FROM selfies s
-              INNER JOIN profiles p ON s.profile_id = p.id
-              WHERE s.id = ? AND p.id = ?
-            `).bind(body.selfie_id, body.profile_id).first()
-          );
-        }
-        const [profileCheck, presetResult, selfieResult] = await Promise.all(queries);
+    await auditLog(DB, subscription.profile_id, 'ADMIN_SUBSCRIPTION_EXPIRE', { subscription_id: subscription.id, sku: subscription.sku, platform: subscription.platform, reason: body.reason || undefined }, request.headers.get('cf-connecting-ip') || null);
+    await notifySubscriptionChange(DB, env, subscription.profile_id, 'EXPIRED', { status: 'EXPIRED' });
+    return jsonResponse({ data: formatAdminSubscription(subscription), status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/admin/subscriptions/:id/expire', error, request, env);
+    return errorResponse('Failed to expire subscription', 500, undefined, request, env);
+  }
+};
 
-        if (!profileCheck) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Profile not found', 404, debugEnabled ? { profileId: body.profile_id, path } : undefined, request, env);
-        }
+// ---- Preset catalog ----
 
-        if (!presetResult) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Preset not found', 404, debugEnabled ? { presetId: body.preset_image_id, path } : undefined, request, env);
-        }
+// GET /preset-categories - Active categories with their sub-categories, titles in ?locale= (or Accept-Language)
+const handleListPresetCategories = async ({ request, env, DB, requestUrl }: RouteContext): Promise<Response> => {
+  try {
+    const categories = await listPresetCategories(DB, true);
+    return jsonResponse({
+      data: { categories: formatPresetCategoryTree(categories, resolveCatalogLocale(request, requestUrl)) },
+      status: 'success',
+      code: 200,
+    }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/preset-categories', error, request, env);
+    return errorResponse('Failed to list preset categories', 500, undefined, request, env);
+  }
+};
 
-        // Resolve selfie URL
-        let selfieUrl: string = '';
-        if (hasSelfieId) {
-          if (!selfieResult) {
-            const cachedResult = await getCachedResultFromKV(env, body.selfie_id!, body.preset_image_id, 'hair_style');
-            if (cachedResult) {
-              return jsonResponse({
-                data: { resultImageUrl: cachedResult, cached: true },
-                status: 'success',
-                message: 'Cached result returned (selfie was auto-deleted after previous processing)',
-                code: 200,
-              });
-            }
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Selfie not found or does not belong to profile', 404, debugEnabled ? { selfieId: body.selfie_id, profileId: body.profile_id, path } : undefined, request, env);
-          }
-          const selfieR2Key = reconstructR2Key((selfieResult as any).id, (selfieResult as any).ext, 'selfie');
-          selfieUrl = getR2PublicUrl(env, selfieR2Key, requestUrl.origin);
-        } else {
-          selfieUrl = body.selfie_image_url!;
-          if (!validateImageUrl(selfieUrl, env)) {
-            const debugEnabled = isDebugEnabled(env);
-            return errorResponse('Invalid image URL', 400, debugEnabled ? { path } : undefined, request, env);
-          }
-        }
+// GET /admin/preset-categories - Every category, inactive ones included, with all titles
+const handleAdminListPresetCategories = async ({ request, env, DB }: RouteContext): Promise<Response> => {
+  try {
+    const categories = await listPresetCategories(DB, false);
+    return jsonResponse({ data: { categories: formatPresetCategoryTree(categories, null) }, status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/admin/preset-categories', error, request, env);
+    return errorResponse('Failed to list preset categories', 500, undefined, request, env);
+  }
+};
 
-        // Get prompt from preset R2 metadata
-        const presetR2Key = reconstructR2Key((presetResult as any).id, (presetResult as any).ext, 'preset');
-        const r2Object = await R2_BUCKET.head(presetR2Key);
-        const promptJsonStr = r2Object?.customMetadata?.prompt_json;
-        if (!promptJsonStr?.trim()) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Preset has no prompt_json metadata', 400, debugEnabled ? { presetId: body.preset_image_id, path } : undefined, request, env);
-        }
+// PUT /admin/preset-categories/:id - Create or edit a category (parent_id makes it a sub-category)
+const handleAdminSavePresetCategory = async ({ request, env, DB, params }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as PresetCategoryRequest;
+    const outcome = await upsertPresetCategory(DB, params.id, body);
+    if (outcome.kind === 'invalid') return errorResponse(outcome.message, 400, undefined, request, env);
 
-        let prompt: string;
-        try {
-          const parsed = JSON.parse(promptJsonStr);
-          prompt = parsed.prompt;
-          if (!prompt || typeof prompt !== 'string' || prompt.trim() === '') {
-            throw new Error('prompt field missing or empty');
-          }
-        } catch (e) {
-          const debugEnabled = isDebugEnabled(env);
-          return errorResponse('Invalid prompt_json in preset metadata', 400, debugEnabled ? { presetId: body.preset_image_id, error: e instanceof Error ? e.message : String(e), path } : undefined, request, env);
-        }
+    await auditLog(DB, ADMIN_CONFIG.AUDIT_PROFILE_ID, 'ADMIN_PRESET_CATEGORY_SAVE', { category_id: outcome.category.id, created: outcome.created, ...body }, request.headers.get('cf-connecting-ip') || null);
+    const status = outcome.created ? 201 : 200;
+    return jsonResponse({ data: formatPresetCategory(outcome.category, null), status: 'success', code: status }, status, request, env);
+  } catch (error) {
+    logCriticalError('/admin/preset-categories/:id', error, request, env);
+    return errorResponse('Failed to save preset category', 500, undefined, request, env);
+  }
+};
 
-        // Resolve aspect ratio
-        const aspectRatio = await resolveAspectRatio(body.aspect_ratio || 'original', selfieUrl, env, { allowOriginal: true });
-        const size = aspectRatio === 'custom' ? undefined : undefined;
+// GET /presets/trending - Presets used by the most profiles over ?window= (rolled up every 10 minutes)
+const handleTrendingPresets = async ({ request, env, DB, R2_BUCKET, requestUrl }: RouteContext): Promise<Response> => {
+  try {
+    const window = requestUrl.searchParams.get('window') || PRESET_ANALYTICS_CONFIG.DEFAULT_WINDOW;
+    const fromDay = getUsageWindowStart(window);
+    if (!fromDay) {
+      return errorResponse(`window must be one of: ${Object.keys(PRESET_ANALYTICS_CONFIG.WINDOWS).join(', ')}`, 400, undefined, request, env);
+    }
+    let limit = PRESET_ANALYTICS_CONFIG.TRENDING_LIMIT;
+    const parsedLimit = parseInt(requestUrl.searchParams.get('limit') || '', 10);
+    if (!isNaN(parsedLimit) && parsedLimit > 0 && parsedLimit <= PRESET_ANALYTICS_CONFIG.MAX_TRENDING_LIMIT) {
+      limit = parsedLimit;
+    }
+    const category = requestUrl.searchParams.get('category')?.trim().toLowerCase() || null;
+
+    const rows = await getTrendingPresets(DB, fromDay, category, limit);
+    const locale = resolveCatalogLocale(request, requestUrl);
+    const [tagsByPreset, activeSubscriber] = await Promise.all([
+      getPresetTags(DB, rows.map((row) => row.id)),
+      hasActiveSubscription(DB, requestUrl.searchParams.get('profile_id')),
+    ]);
+    const presets = await Promise.all(rows.map(async (row, index) => ({
+      ...await formatPresetListItem(row, env, R2_BUCKET, requestUrl, tagsByPreset.get(row.id) || [], locale, activeSubscriber),
+      rank: index + 1,
+      uses: row.succeeded,
+      profiles: row.profiles,
+    })));
+    return jsonResponse({ data: { window, presets }, status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/presets/trending', error, request, env);
+    return errorResponse('Failed to load trending presets', 500, undefined, request, env);
+  }
+};
 
-        // Credit deduction (after validation, before processing)
-        creditResult = await deductCredits(DB, body.profile_id, 'hair_style', env, request);
-        if (!creditResult.success) {
-          return jsonResponse({ data: null, status: 'error', message: 'Credit check failed', code: 402, reason: creditResult.reason }, 402, request, env);
-        }
+// GET /admin/presets/usage - Usage, failure rate and safety-block rate per preset over ?window=
+const handleAdminPresetUsage = async ({ request, env, DB, requestUrl }: RouteContext): Promise<Response> => {
+  try {
+    const window = requestUrl.searchParams.get('window') || PRESET_ANALYTICS_CONFIG.DEFAULT_WINDOW;
+    const fromDay = getUsageWindowStart(window);
+    if (!fromDay) {
+      return errorResponse(`window must be one of: ${Object.keys(PRESET_ANALYTICS_CONFIG.WINDOWS).join(', ')}`, 400, undefined, request, env);
+    }
+    const sort = (requestUrl.searchParams.get('sort') || 'uses') as PresetUsageReportSort;
+    if (!['uses', 'failure_rate', 'safety_block_rate'].includes(sort)) {
+      return errorResponse('sort must be uses, failure_rate or safety_block_rate', 400, undefined, request, env);
+    }
+    let limit = PRESET_ANALYTICS_CONFIG.REPORT_LIMIT;
+    const parsedLimit = parseInt(requestUrl.searchParams.get('limit') || '', 10);
+    if (!isNaN(parsedLimit) && parsedLimit > 0 && parsedLimit <= PRESET_ANALYTICS_CONFIG.REPORT_LIMIT) {
+      limit = parsedLimit;
+    }
+    const category = requestUrl.searchParams.get('category')?.trim().toLowerCase() || null;
+
+    const rows = await getPresetUsageReport(DB, fromDay, category, sort, limit);
+    const presets = rows.map((row) => ({
+      preset_id: row.preset_id,
+      category: row.category_id ?? null,
+      sub_category: row.sub_category_id ?? null,
+      exists: row.is_active !== null,
+      is_active: row.is_active === 1,
+      ...formatPresetUsage(row),
+    }));
+    return jsonResponse({ data: { window, from: fromDay, presets }, status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/admin/presets/usage', error, request, env);
+    return errorResponse('Failed to load preset usage', 500, undefined, request, env);
+  }
+};
 
-        const hairResult = await callWaveSpeedGeminiImageEdit([selfieUrl], prompt, env, aspectRatio, size);
+const formatAdminPreset = (preset: PresetCatalogEntry, tags: string[]) => ({
+  id: preset.id,
+  ext: preset.ext,
+  ...formatPresetCatalog(preset, tags, null),
+  created_at: new Date(preset.created_at * 1000).toISOString(),
+});
 
-        if (!hairResult.Success || !hairResult.ResultImageUrl) {
-          if (body?.profile_id && creditResult?.cost > 0) {
-            await refundCredits(DB, body.profile_id, 'hair_style', creditResult.fromSub, creditResult.fromConsumable, 'Processing failed', request);
-          }
-          const failureCode = hairResult.StatusCode || 500;
-          const httpStatus = (failureCode >= 1000) ? 422 : (failureCode >= 200 && failureCode < 600 ? failureCode : 500);
-          const debugEnabled = isDebugEnabled(env);
-          const flatDebug = debugEnabled ? buildFlatDebug(hairResult) : undefined;
-          return jsonResponse({
-            data: null,
-            status: 'error',
-            message: '',
-            code: failureCode,
-            ...(flatDebug ? { debug: flatDebug } : {}),
-          }, httpStatus);
-        }
+// GET /admin/presets/:id - Catalog entry of a preset, inactive ones included
+const handleAdminGetPreset = async ({ request, env, DB, params }: RouteContext): Promise<Response> => {
+  try {
+    const preset = await DB.prepare('SELECT * FROM presets WHERE id = ?').bind(params.id).first() as PresetCatalogEntry | null;
+    if (!preset) return errorResponse('Preset not found', 404, undefined, request, env);
+    const tags = await getPresetTags(DB, [preset.id]);
+    return jsonResponse({ data: formatAdminPreset(preset, tags.get(preset.id) || []), status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/admin/presets/:id', error, request, env);
+    return errorResponse('Failed to fetch preset', 500, undefined, request, env);
+  }
+};
 
-        let resultUrl = hairResult.ResultImageUrl;
-        if (hairResult.ResultImageUrl?.startsWith('r2://')) {
-          const r2Key = hairResult.ResultImageUrl.replace('r2://', '');
-          resultUrl = getR2PublicUrl(env, r2Key, requestUrl.origin);
-        }
+// PUT /admin/presets/:id - Edit a preset's category, gender, tags, display order, flags and titles
+const handleAdminUpdatePreset = async ({ request, env, DB, params }: RouteContext): Promise<Response> => {
+  try {
+    const body = await request.json() as PresetCatalogUpdateRequest;
+    const outcome = await updatePresetCatalog(DB, params.id, body);
+    if (outcome.kind === 'not_found') return errorResponse('Preset not found', 404, undefined, request, env);
+    if (outcome.kind === 'invalid') return errorResponse(outcome.message, 400, undefined, request, env);
+
+    await auditLog(DB, ADMIN_CONFIG.AUDIT_PROFILE_ID, 'ADMIN_PRESET_UPDATE', { preset_id: params.id, ...body }, request.headers.get('cf-connecting-ip') || null);
+    const tags = await getPresetTags(DB, [params.id]);
+    return jsonResponse({ data: formatAdminPreset(outcome.preset, tags.get(params.id) || []), status: 'success', code: 200 }, 200, request, env);
+  } catch (error) {
+    logCriticalError('/admin/presets/:id', error, request, env);
+    return errorResponse('Failed to update preset', 500, undefined, request, env);
+  }
+};
 
-        const savedResultId = await saveResultToDatabase(DB, resultUrl, body.profile_id, env, R2_BUCKET, 'hair-style', request);
+// ============================================================
+// Route table: every endpoint with its auth, credit action and body limits
+// ============================================================
+const ROUTES: RouteDefinition[] = [
+  // Uploads
+  { method: 'POST', path: '/upload-url', handler: handleUploadUrl, bodySchema: UPLOAD_URL_SCHEMA, maxBodyBytes: LARGE_UPLOAD_MAX_BODY_BYTES, summary: 'Upload presets, selfies or masks (multipart files or image URLs)' },
+  { method: 'POST', path: '/upload-multipart/create', handler: handleMultipartCreate, bodySchema: MULTIPART_CREATE_SCHEMA, summary: 'Start an R2 multipart upload' },
+  { method: 'PUT', path: '/upload-multipart/part', handler: handleMultipartPart, summary: 'Upload one multipart part (raw body)', query: MULTIPART_PART_QUERY },
+  { method: 'POST', path: '/upload-multipart/complete', handler: handleMultipartComplete, bodySchema: MULTIPART_COMPLETE_SCHEMA, summary: 'Complete an R2 multipart upload' },
+  { method: 'POST', path: '/upload-multipart/abort', handler: handleMultipartAbort, bodySchema: MULTIPART_ABORT_SCHEMA, summary: 'Abort an R2 multipart upload' },
+  { method: 'PUT', path: '/r2-upload/*key', handler: handleR2Upload, maxBodyBytes: LARGE_UPLOAD_MAX_BODY_BYTES, summary: 'Upload a raw file to R2 under key', query: R2_UPLOAD_QUERY },
+  { method: 'POST', path: '/process-thumbnail-file', handler: handleProcessThumbnailFile, maxBodyBytes: null, summary: 'Upload preset thumbnails (multipart)' },
+  { method: 'POST', path: '/process-thumbnail-zip', handler: handleProcessThumbnailZip, maxBodyBytes: null, summary: 'Upload preset thumbnails from a zip (multipart)' },
+
+  // Profiles
+  { method: 'POST', path: '/profiles', handler: handleCreateProfile, auth: { apiKey: true }, bodySchema: PROFILE_CREATE_SCHEMA, summary: 'Create a profile', response: 'Profile' },
+  { method: 'GET', path: '/profiles', handler: handleListProfiles, summary: 'List profiles', query: LIST_PAGE_QUERY },
+  { method: 'GET', path: '/profiles/:id', handler: handleGetProfile, auth: { apiKey: true }, summary: 'Get a profile', response: 'Profile' },
+  { method: 'PUT', path: '/profiles/:id', handler: handleUpdateProfile, auth: { profileToken: 'param' }, bodySchema: PROFILE_UPDATE_SCHEMA, summary: 'Update a profile', response: 'Profile' },
+  { method: 'DELETE', path: '/profiles/:id', handler: handleDeleteProfile, auth: { apiKey: true }, summary: 'Delete a profile' },
+  { method: 'GET', path: '/profiles/:id/webhook', handler: handleGetProfileWebhook, auth: { apiKey: true, profileToken: 'param' }, summary: 'Webhook settings, signing secret and recent deliveries', response: 'WebhookSettings' },
+  { method: 'PUT', path: '/profiles/:id/webhook', handler: handleUpdateProfileWebhook, auth: { apiKey: true, profileToken: 'param' }, bodySchema: WEBHOOK_SETTINGS_SCHEMA, summary: 'Set or remove the result webhook of a profile', response: 'WebhookSettings' },
+
+  // Devices & push
+  { method: 'POST', path: '/api/device/register', handler: handleDeviceRegister, bodySchema: DEVICE_REGISTER_SCHEMA, summary: 'Register an FCM device token' },
+  { method: 'POST', path: '/api/push/silent', handler: handleSilentPush, auth: { apiKey: true }, bodySchema: SILENT_PUSH_SCHEMA, summary: 'Send a silent push to all devices of a profile' },
+  { method: 'DELETE', path: '/api/device/unregister', handler: handleDeviceUnregister, bodySchema: DEVICE_UNREGISTER_SCHEMA, summary: 'Unregister an FCM device token' },
+
+  // Presets, selfies, thumbnails, results
+  { method: 'GET', path: '/presets', handler: handleListPresets, auth: { profileToken: 'query' }, summary: 'List presets (locked: premium preset the profile cannot use)', query: LIST_PRESETS_QUERY },
+  { method: 'GET', path: '/preset-categories', handler: handleListPresetCategories, summary: 'Active preset categories and sub-categories' },
+  { method: 'GET', path: '/presets/trending', handler: handleTrendingPresets, auth: { profileToken: 'query' }, summary: 'Most used presets over a window', query: TRENDING_PRESETS_QUERY },
+  { method: 'GET', path: '/presets/:id', handler: handleGetPreset, summary: 'Get a preset' },
+  { method: 'DELETE', path: '/presets/:id', handler: handleDeletePreset, summary: 'Delete a preset' },
+  { method: 'GET', path: '/selfies', handler: handleListSelfies, summary: 'List selfies of a profile', query: LIST_SELFIES_QUERY },
+  { method: 'DELETE', path: '/selfies/:id', handler: handleDeleteSelfie, summary: 'Delete a selfie' },
+  { method: 'GET', path: '/thumbnails', handler: handleListThumbnails, summary: 'List preset thumbnails', query: LIST_PAGE_QUERY },
+  { method: 'GET', path: '/thumbnails/:id/preset', handler: handleGetThumbnailPreset, summary: 'Get the preset of a thumbnail' },
+  { method: 'GET', path: '/results', handler: handleListResults, summary: 'List results', query: LIST_RESULTS_QUERY },
+  { method: 'DELETE', path: '/results/*id', handler: handleDeleteResult, summary: 'Delete a result' },
+
+  // AI operations (profile token is checked by holdCredits -> reason 4010)
+  { method: 'POST', path: '/faceswap', handler: handleFaceswap, auth: { apiKey: true }, creditAction: 'faceswap', asyncJob: true, idempotent: true, bodySchema: FACESWAP_SCHEMA, summary: 'Swap selfie faces into a preset', response: 'AiResult' },
+  { method: 'POST', path: '/faceswap/batch', handler: handleFaceswapBatch, auth: { apiKey: true }, creditAction: 'faceswap', asyncJob: true, idempotent: true, bodySchema: FACESWAP_BATCH_SCHEMA, summary: 'Swap selfie faces into several presets (charged per preset, failed items refunded)', response: 'FaceSwapBatch' },
+  { method: 'GET', path: '/faceswap/batch/:id', handler: handleGetFaceswapBatch, auth: { apiKey: true }, summary: 'Poll a face swap batch', response: 'FaceSwapBatch' },
+  { method: 'POST', path: '/background', handler: handleBackground, auth: { apiKey: true }, creditAction: 'background', asyncJob: true, idempotent: true, bodySchema: BACKGROUND_SCHEMA, summary: 'Place a selfie on a preset or generated background', response: 'AiResult' },
+  { method: 'POST', path: '/upscaler4k', handler: handleUpscaler4k, auth: { apiKey: true }, creditAction: 'upscaler4k', asyncJob: true, idempotent: true, bodySchema: UPSCALER4K_SCHEMA, summary: 'Upscale an image to 4K', response: 'AiResult' },
+  { method: 'POST', path: '/enhance', handler: handleEnhance, auth: { apiKey: true }, creditAction: 'enhance', asyncJob: true, idempotent: true, bodySchema: IMAGE_EDIT_SCHEMA, summary: 'Enhance image quality', response: 'AiResult' },
+  { method: 'POST', path: '/beauty', handler: handleBeauty, auth: { apiKey: true }, creditAction: 'beauty', asyncJob: true, idempotent: true, bodySchema: IMAGE_EDIT_SCHEMA, summary: 'Beautify a portrait', response: 'AiResult' },
+  { method: 'POST', path: '/filter', handler: handleFilter, auth: { apiKey: true }, creditAction: 'filter', asyncJob: true, idempotent: true, bodySchema: PRESET_EDIT_SCHEMA, summary: 'Apply a preset art style', response: 'AiResult' },
+  { method: 'POST', path: '/restore', handler: handleRestore, auth: { apiKey: true }, creditAction: 'restore', asyncJob: true, idempotent: true, bodySchema: IMAGE_EDIT_SCHEMA, summary: 'Restore an old or damaged photo', response: 'AiResult' },
+  { method: 'POST', path: '/aging', handler: handleAging, auth: { apiKey: true }, creditAction: 'aging', asyncJob: true, idempotent: true, bodySchema: PRESET_EDIT_SCHEMA, summary: 'Age a face using a preset', response: 'AiResult' },
+  { method: 'POST', path: '/remove-object', handler: handleRemoveObject, auth: { apiKey: true }, creditAction: 'remove_object', asyncJob: true, idempotent: true, bodySchema: REMOVE_OBJECT_SCHEMA, summary: 'Remove the masked object', response: 'AiResult' },
+  { method: 'POST', path: '/expression', handler: handleExpression, auth: { apiKey: true }, creditAction: 'expression', asyncJob: true, idempotent: true, bodySchema: EXPRESSION_SCHEMA, summary: 'Change the facial expression', response: 'AiResult' },
+  { method: 'POST', path: '/expand', handler: handleExpand, auth: { apiKey: true }, creditAction: 'expand', asyncJob: true, idempotent: true, bodySchema: IMAGE_EDIT_SCHEMA, summary: 'Outpaint the image', response: 'AiResult' },
+  { method: 'POST', path: '/editor', handler: handleEditor, auth: { apiKey: true }, creditAction: 'editor', asyncJob: true, idempotent: true, bodySchema: EDITOR_SCHEMA, summary: 'Edit an image from a custom prompt', response: 'AiResult' },
+  { method: 'POST', path: '/replace-object', handler: handleReplaceObject, auth: { apiKey: true }, creditAction: 'replace_object', asyncJob: true, idempotent: true, bodySchema: REPLACE_OBJECT_SCHEMA, summary: 'Replace an object from a custom prompt', response: 'AiResult' },
+  { method: 'POST', path: '/remove-text', handler: handleRemoveText, auth: { apiKey: true }, creditAction: 'remove_text', asyncJob: true, idempotent: true, bodySchema: IMAGE_EDIT_SCHEMA, summary: 'Remove text from an image', response: 'AiResult' },
+  { method: 'POST', path: '/hair-style', handler: handleHairStyle, auth: { apiKey: true }, creditAction: 'hair_style', asyncJob: true, idempotent: true, bodySchema: HAIR_STYLE_SCHEMA, summary: 'Apply a preset hair style', response: 'AiResult' },
+
+  // Config, API docs & async jobs
+  { method: 'GET', path: '/openapi.json', handler: handleOpenApi, summary: 'This OpenAPI document' },
+  { method: 'GET', path: '/config', handler: handleConfig, summary: 'Public configuration' },
+  { method: 'GET', path: '/jobs', handler: handleListJobs, auth: { apiKey: true, profileToken: 'query' }, summary: 'List async jobs of a profile', query: LIST_JOBS_QUERY },
+  { method: 'GET', path: '/jobs/:id', handler: handleGetJob, auth: { apiKey: true }, summary: 'Poll an async job', response: 'Job' },
+
+  // Payments & credits
+  { method: 'GET', path: '/api/products', handler: handleListProducts, auth: { apiKey: true }, summary: 'List active products' },
+  { method: 'GET', path: '/api/user/balance', handler: handleGetBalance, auth: { apiKey: true, profileToken: 'query' }, summary: 'Credit balance and subscription status', query: PROFILE_QUERY, response: 'BalanceResponse' },
+  { method: 'GET', path: '/api/user/ledger', handler: handleGetCreditLedger, auth: { apiKey: true, profileToken: 'query' }, summary: 'Credit ledger entries and balance reconciliation', query: CREDIT_LEDGER_QUERY, response: 'CreditLedger' },
+  { method: 'GET', path: '/api/credit-costs', handler: handleGetCreditCosts, summary: 'Credit cost per action' },
+  { method: 'POST', path: '/api/deposit', handler: handleDeposit, auth: { apiKey: true, profileToken: 'body' }, idempotent: true, bodySchema: DEPOSIT_SCHEMA, summary: 'Verify a Google Play consumable purchase and grant credits' },
+  { method: 'GET', path: '/api/deposit/status/:order_id', handler: handleDepositStatus, auth: { apiKey: true }, summary: 'Deposit status by order id' },
+  { method: 'POST', path: '/api/subscription/verify', handler: handleSubscriptionVerify, auth: { apiKey: true, profileToken: 'body' }, idempotent: true, bodySchema: SUBSCRIPTION_VERIFY_SCHEMA, summary: 'Verify a Google Play subscription' },
+  { method: 'GET', path: '/api/subscription/status', handler: handleSubscriptionStatus, auth: { apiKey: true, profileToken: 'query' }, summary: 'Subscription status of a profile', query: PROFILE_QUERY },
+  { method: 'POST', path: '/webhooks/google', handler: handleGoogleWebhook, summary: 'Google Play real-time developer notifications (Pub/Sub push)' },
+  { method: 'POST', path: '/api/deposit/apple', handler: handleAppleDeposit, auth: { apiKey: true, profileToken: 'body' }, idempotent: true, bodySchema: APP_STORE_PURCHASE_SCHEMA, summary: 'Verify an App Store consumable transaction and grant credits' },
+  { method: 'POST', path: '/api/subscription/verify/apple', handler: handleAppleSubscriptionVerify, auth: { apiKey: true, profileToken: 'body' }, idempotent: true, bodySchema: APP_STORE_PURCHASE_SCHEMA, summary: 'Verify an App Store auto-renewable subscription' },
+  { method: 'POST', path: '/webhooks/apple', handler: handleAppleWebhook, summary: 'App Store Server Notifications v2 (signed payload)' },
+  { method: 'POST', path: '/api/deposit/stripe/checkout', handler: handleStripeCheckout, auth: { apiKey: true, profileToken: 'body' }, idempotent: true, bodySchema: STRIPE_CHECKOUT_SCHEMA, summary: 'Create a Stripe Checkout session for a credit pack (web)' },
+  { method: 'POST', path: '/webhooks/stripe', handler: handleStripeWebhook, summary: 'Stripe events for Checkout sessions and refunds (Stripe-Signature)' },
+  { method: 'GET', path: '/api/referrals', handler: handleGetReferrals, auth: { apiKey: true, profileToken: 'query' }, summary: 'Referral code and stats of a profile', query: PROFILE_QUERY },
+  { method: 'POST', path: '/api/referrals/redeem', handler: handleRedeemReferral, auth: { apiKey: true, profileToken: 'body' }, idempotent: true, bodySchema: REFERRAL_REDEEM_SCHEMA, summary: 'Redeem a referral code (new profiles, before their first purchase)' },
+  { method: 'POST', path: '/api/promo/redeem', handler: handleRedeemPromo, auth: { apiKey: true, profileToken: 'body' }, idempotent: true, bodySchema: PROMO_REDEEM_SCHEMA, summary: 'Redeem a promo code for consumable credits' },
+  { method: 'POST', path: '/admin/promo-codes', handler: handleCreatePromoCode, auth: { admin: true }, bodySchema: PROMO_CODE_CREATE_SCHEMA, summary: 'Create a promo code' },
+  { method: 'GET', path: '/admin/promo-codes', handler: handleListPromoCodes, auth: { admin: true }, summary: 'List promo codes', query: LIST_PROMO_CODES_QUERY },
+  { method: 'GET', path: '/admin/promo-codes/:code/redemptions', handler: handleListPromoRedemptions, auth: { admin: true }, summary: 'Redemptions of a promo code' },
+  { method: 'POST', path: '/admin/promo-redemptions/:id/reverse', handler: handleReversePromoRedemption, auth: { admin: true }, bodySchema: PROMO_REVERSE_SCHEMA, summary: 'Reverse a promo redemption and take its credits back' },
+  { method: 'GET', path: '/admin/profiles', handler: handleAdminSearchProfiles, auth: { admin: true }, summary: 'Search profiles by device_id, user_id, email or phone', query: ADMIN_PROFILE_SEARCH_QUERY },
+  { method: 'GET', path: '/admin/profiles/:id', handler: handleAdminGetProfile, auth: { admin: true }, summary: 'Profile with balances, ban status and current subscription' },
+  { method: 'GET', path: '/admin/profiles/:id/payments', handler: handleAdminListPayments, auth: { admin: true }, summary: 'Payments of a profile', query: ADMIN_LIST_QUERY },
+  { method: 'GET', path: '/admin/profiles/:id/subscriptions', handler: handleAdminListSubscriptions, auth: { admin: true }, summary: 'Subscriptions of a profile', query: ADMIN_LIST_QUERY },
+  { method: 'GET', path: '/admin/profiles/:id/audit-log', handler: handleAdminListAuditLog, auth: { admin: true }, summary: 'Audit log of a profile', query: ADMIN_AUDIT_LOG_QUERY },
+  { method: 'POST', path: '/admin/profiles/:id/ban', handler: handleAdminSetBanned(true), auth: { admin: true }, bodySchema: ADMIN_ACTION_SCHEMA, summary: 'Ban a profile (it can no longer spend credits)' },
+  { method: 'POST', path: '/admin/profiles/:id/unban', handler: handleAdminSetBanned(false), auth: { admin: true }, bodySchema: ADMIN_ACTION_SCHEMA, summary: 'Unban a profile' },
+  { method: 'POST', path: '/admin/profiles/:id/credits', handler: handleAdminAdjustCredits, auth: { admin: true }, bodySchema: ADMIN_CREDIT_ADJUST_SCHEMA, summary: 'Add or take credits with a reason' },
+  { method: 'POST', path: '/admin/subscriptions/:id/expire', handler: handleAdminExpireSubscription, auth: { admin: true }, bodySchema: ADMIN_ACTION_SCHEMA, summary: 'Expire a subscription now' },
+  { method: 'GET', path: '/admin/preset-categories', handler: handleAdminListPresetCategories, auth: { admin: true }, summary: 'Every preset category, inactive ones included' },
+  { method: 'PUT', path: '/admin/preset-categories/:id', handler: handleAdminSavePresetCategory, auth: { admin: true }, bodySchema: PRESET_CATEGORY_SCHEMA, summary: 'Create or edit a preset category' },
+  { method: 'GET', path: '/admin/presets/usage', handler: handleAdminPresetUsage, auth: { admin: true }, summary: 'Usage, failure rate and safety-block rate per preset', query: ADMIN_PRESET_USAGE_QUERY },
+  { method: 'GET', path: '/admin/presets/:id', handler: handleAdminGetPreset, auth: { admin: true }, summary: 'Catalog entry of a preset' },
+  { method: 'PUT', path: '/admin/presets/:id', handler: handleAdminUpdatePreset, auth: { admin: true }, bodySchema: PRESET_CATALOG_UPDATE_SCHEMA, summary: 'Edit the catalog entry of a preset (category, gender, tags, order, flags, titles)' },
+];
 
-        if (hasSelfieId && body.selfie_id) {
-          ctx.waitUntil(cacheResultInKV(env, body.selfie_id, body.preset_image_id, 'hair_style', resultUrl));
-        }
+const COMPILED_ROUTES = compileRoutes(ROUTES);
 
-        if (hasSelfieId && selfieResult) {
-          const selfieId = (selfieResult as any).id;
-          const selfieExt = (selfieResult as any).ext;
-          ctx.waitUntil(deleteSelfieAfterProcessing(selfieId, selfieExt, env, DB, R2_BUCKET, requestUrl.origin));
-        }
+const worker = {
+  async fetch(request: Request<unknown, IncomingRequestCfProperties>, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const DB = getD1Database(env);
+    const R2_BUCKET = getR2Bucket(env);
+    const requestUrl = new URL(request.url);
+    const path = requestUrl.pathname;
+    const corsHeaders = getCorsHeaders(request, env);
 
-        const debugEnabled = isDebugEnabled(env);
-        const flatDebug = debugEnabled ? buildFlatDebug(hairResult) : undefined;
-        return jsonResponse({
-          data: {
-            id: savedResultId !== null ? String(savedResultId) : null,
-            resultImageUrl: resultUrl,
-          },
-          status: 'success',
-          message: hairResult.Message || 'Hair style applied successfully',
-          code: 200,
-          ...(debugEnabled ? { debug: flatDebug } : {}),
-        });
-      } catch (error) {
-        if (body?.profile_id && creditResult?.cost > 0) {
-          await refundCredits(DB, body.profile_id, 'hair_style', creditResult.fromSub, creditResult.fromConsumable, 'Processing error', request);
-        }
-        logCriticalError('/hair-style', error, request, env, {
-          body: {
-            preset_image_id: body?.preset_image_id,
-            selfie_id: body?.selfie_id,
-            profile_id: body?.profile_id,
-          }
+    if (request.method === 'OPTIONS') {
+      if (path.startsWith('/upload-proxy/')) {
+        return new Response(null, { 
+          status: 204, 
+          headers: { 
+            ...corsHeaders, 
+            'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+            'Access-Control-Max-Age': '86400' 
+          } 
         });
-        const debugEnabled = isDebugEnabled(env);
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        return errorResponse('', 500, debugEnabled ? { error: errorMsg, path, ...(error instanceof Error && error.stack ? { stack: error.stack.substring(0, 1000) } : {}) } : undefined, request, env);
       }
+      return new Response(null, { status: 204, headers: { ...corsHeaders, 'Access-Control-Max-Age': '86400' } });
     }
 
-    // Handle config endpoint - returns public configuration
-    if (path === '/config' && request.method === 'GET') {
-      const backendDomain = env.BACKEND_DOMAIN;
-      const r2Domain = env.R2_DOMAIN;
+    // Internal job requests were already rate limited when the job was created
+    if (!internalJobRequests.has(request) && !(await checkRateLimit(env, request, path))) {
       const debugEnabled = isDebugEnabled(env);
-      const promptCacheKV = getPromptCacheKV(env);
-      const kvCacheAvailable = !!promptCacheKV;
+      return jsonResponse({
+        data: null,
+        status: 'error',
+        message: 'Rate limit exceeded',
+        code: 429,
+        ...(debugEnabled ? { debug: { source: 'backend_rate_limiter', errorSource: 'backend', path, method: request.method } } : {})
+      }, 429, request, env);
+    }
 
-      let kvCacheTest = null;
-      let kvCacheDetails = null;
-      if (kvCacheAvailable && promptCacheKV) {
-        try {
-          const testKey = `__test__${Date.now()}`;
-          const testValue = JSON.stringify({ test: true, timestamp: Date.now() });
-
-          await promptCacheKV.put(testKey, testValue, { expirationTtl: 60 });
-
-          const readBack = await promptCacheKV.get(testKey, 'json');
-          if (readBack && (readBack as any).test) {
-            await promptCacheKV.delete(testKey);
-            kvCacheTest = 'working';
-            kvCacheDetails = {
-              write: 'success',
-              read: 'success',
-              delete: 'success'
-            };
-          } else {
-            kvCacheTest = 'write_success_read_failed';
-            kvCacheDetails = {
-              write: 'success',
-              read: 'failed',
-              readBack: readBack
-            };
-          }
-        } catch (error) {
-          kvCacheTest = `error: ${error instanceof Error ? error.message : String(error)}`;
-          kvCacheDetails = {
-            error: error instanceof Error ? error.message : String(error),
-            stack: error instanceof Error ? error.stack : undefined
-          };
-        }
-      } else {
-        kvCacheDetails = {
-          reason: 'Prompt cache KV not bound',
-          bindingName: env.PROMPT_CACHE_KV_BINDING_NAME || 'not set',
-          envKeys: Object.keys(env).filter(k => k.includes('KV') || k.includes('CACHE') || k.includes('PROMPT'))
-        };
-      }
+    const match = matchRoute(COMPILED_ROUTES, request.method, path);
+    if (match.kind === 'not_found') {
+      const debugEnabled = isDebugEnabled(env);
+      return errorResponse('Not found', 404, debugEnabled ? { path, method: request.method } : undefined, request, env);
+    }
+    if (match.kind === 'method_not_allowed') {
+      const debugEnabled = isDebugEnabled(env);
+      const response = errorResponse('Method not allowed', 405, debugEnabled ? { path, method: request.method, allowed: match.allowed } : undefined, request, env);
+      response.headers.set('Allow', [...match.allowed, 'OPTIONS'].join(', '));
+      return response;
+    }
+    const { route, params } = match;
 
+    if ((route.auth?.apiKey && !checkApiKey(env, request)) || (route.auth?.admin && !checkAdminKey(env, request))) {
+      const debugEnabled = isDebugEnabled(env);
       return jsonResponse({
-        data: {
-          backendDomain: backendDomain || null,
-          r2Domain: r2Domain || null,
-          kvCache: {
-            available: kvCacheAvailable,
-            test: kvCacheTest,
-            details: kvCacheDetails
-          }
-        },
-        status: 'success',
-        message: 'Configuration retrieved successfully',
-        code: 200,
-        ...(debugEnabled ? { debug: { path, backendDomain: !!backendDomain, r2Domain: !!r2Domain, kvCacheAvailable, envKeys: Object.keys(env) } } : {})
-      }, 200, request, env);
+        data: null,
+        status: 'error',
+        message: 'Unauthorized',
+        code: 401,
+        ...(debugEnabled ? { debug: { path, method: request.method } } : {})
+      }, 401, request, env);
     }
 
-    // ============================================================
-    // Payment & Credit System Endpoints
-    // ============================================================
-
-    // GET /api/products - List active SKUs
-    if (path === '/api/products' && request.method === 'GET') {
-      try {
-        const products = await DB.prepare('SELECT sku, type, credits, points_per_cycle, name, description, price_micros, currency FROM products WHERE is_active = 1 ORDER BY type, price_micros').all();
-        return jsonResponse({ data: products.results, status: 'success', code: 200 }, 200, request, env);
-      } catch (error) {
-        logCriticalError('/api/products', error, request, env);
-        return errorResponse('Failed to fetch products', 500, undefined, request, env);
+    // Body size limit (null = no limit, up to Cloudflare's 100MB max)
+    if ((request.method === 'POST' || request.method === 'PUT') && route.maxBodyBytes !== null) {
+      const maxSize = route.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+      const sizeCheck = checkRequestSize(request, maxSize);
+      if (!sizeCheck.valid) {
+        const debugEnabled = isDebugEnabled(env);
+        return errorResponse(sizeCheck.error || 'Request too large', 413, debugEnabled ? { path, method: request.method, maxSize } : undefined, request, env);
       }
     }
 
-    // GET /api/user/balance - Get user dual credits + subscription status
-    if (path === '/api/user/balance' && request.method === 'GET') {
-      const profileId = requestUrl.searchParams.get('profile_id');
-      if (!profileId) return errorResponse('profile_id is required', 400, undefined, request, env);
+    // Parse the JSON body once for route-level checks (multipart uploads are left to the handler)
+    const isMultipart = (request.headers.get('content-type') || '').toLowerCase().includes('multipart/form-data');
+    const needsBody = !isMultipart && (!!route.bodySchema || route.auth?.profileToken === 'body' || !!route.asyncJob);
+    let body = needsBody ? await request.clone().json().catch(() => undefined) as Record<string, any> | undefined : undefined;
+
+    if (route.auth?.profileToken) {
+      const source = route.auth.profileToken;
+      const profileId = source === 'query'
+        ? requestUrl.searchParams.get('profile_id')
+        : source === 'param'
+          ? params.id || null
+          : (typeof body?.profile_id === 'string' ? body.profile_id : null);
       if (!(await checkProfileToken(env, request, profileId))) {
         return errorResponse('Invalid profile token', 401, undefined, request, env);
       }
-      try {
-        const row = await DB.prepare('SELECT sub_point_remaining, consumable_point_remaining, total_credits_purchased, total_credits_spent FROM profiles WHERE id = ?').bind(profileId).first() as any;
-        if (!row) return errorResponse('Profile not found', 404, undefined, request, env);
-        const sub = await DB.prepare(
-          'SELECT status FROM subscriptions WHERE profile_id = ? AND status NOT IN (\'EXPIRED\') ORDER BY created_at DESC LIMIT 1'
-        ).bind(profileId).first() as any;
-        const data: BalanceResponse = {
-          sub_point_remaining: row.sub_point_remaining,
-          consumable_point_remaining: row.consumable_point_remaining,
-          total_available: row.sub_point_remaining + row.consumable_point_remaining,
-          subscription_status: sub ? sub.status : 'NONE',
-          total_credits_purchased: row.total_credits_purchased,
-          total_credits_spent: row.total_credits_spent,
-        };
-        return jsonResponse({ data, status: 'success', code: 200 }, 200, request, env);
-      } catch (error) {
-        logCriticalError('/api/user/balance', error, request, env);
-        return errorResponse('Failed to fetch balance', 500, undefined, request, env);
+    }
+
+    // Handlers read the coerced/normalized body from a rebuilt request (built from the original so request.cf is kept)
+    let handlerRequest = request;
+    if (route.bodySchema && !isMultipart) {
+      const validation = validateBody(route.bodySchema, body);
+      if (!validation.valid) {
+        return validationErrorResponse(validation.errors, request, env);
       }
+      body = validation.value;
+      const headers = new Headers(request.headers);
+      headers.delete('content-length');
+      handlerRequest = new Request<unknown, IncomingRequestCfProperties>(request, { headers, body: JSON.stringify(body) });
     }
 
-    // GET /api/credit-costs - Get credit cost table for all actions
-    if (path === '/api/credit-costs' && request.method === 'GET') {
-      const actions = Object.keys(DEFAULT_CREDIT_COSTS);
-      const country = request.headers.get('CF-IPCountry') || '';
-      const costs: Record<string, { base: number; cost: number }> = {};
-      for (const action of actions) {
-        costs[action] = {
-          base: getCreditCost(action, 'subscriber', env),
-          cost: getCreditCost(action, 'subscriber', env, country),
-        };
+    // Idempotency-Key: replay the stored response of a completed request instead of running (and charging) it again.
+    // Only for requests whose profile token is valid, so a key cannot be used to read another profile's response.
+    const idempotencyKey = route.idempotent && !internalJobRequests.has(request) ? request.headers.get(IDEMPOTENCY_CONFIG.HEADER)?.trim() || null : null;
+    const idempotencyProfileId = typeof body?.profile_id === 'string' ? body.profile_id : null;
+    let idempotencyClaimed = false;
+    if (idempotencyKey && idempotencyProfileId && await checkProfileToken(env, request, idempotencyProfileId)) {
+      if (idempotencyKey.length > IDEMPOTENCY_CONFIG.MAX_KEY_LENGTH) {
+        const debugEnabled = isDebugEnabled(env);
+        return errorResponse(`${IDEMPOTENCY_CONFIG.HEADER} must be at most ${IDEMPOTENCY_CONFIG.MAX_KEY_LENGTH} characters`, 400, debugEnabled ? { path } : undefined, request, env);
+      }
+      const requestHash = await hashIdempotentRequest(request.method, path, body);
+      // A failed claim (e.g. unknown profile) runs the request without idempotency; the handler reports the error
+      const claim = await claimIdempotencyKey(DB, idempotencyProfileId, idempotencyKey, requestHash).catch((error) => {
+        console.error(`[Idempotency] Failed to claim key for ${path}:`, error instanceof Error ? error.message : String(error));
+        return null;
+      });
+      if (claim?.kind === 'replay') {
+        return new Response(claim.body, {
+          status: claim.status,
+          headers: { 'Content-Type': 'application/json', ...getCorsHeaders(request, env), 'Idempotent-Replayed': 'true' },
+        });
       }
-      return jsonResponse({ data: costs, country: country || 'unknown', status: 'success', code: 200 }, 200, request, env);
+      if (claim?.kind === 'mismatch') {
+        return jsonResponse({ data: null, status: 'error', message: `${IDEMPOTENCY_CONFIG.HEADER} was already used with a different request`, code: 422 }, 422, request, env);
+      }
+      if (claim?.kind === 'in_progress') {
+        return jsonResponse({ data: null, status: 'error', message: `A request with this ${IDEMPOTENCY_CONFIG.HEADER} is still in progress`, code: 409 }, 409, request, env);
+      }
+      idempotencyClaimed = claim?.kind === 'claimed';
     }
+    // Store the final response for replays (or release the key when the outcome should not be replayed)
+    const respond = async (response: Response): Promise<Response> => {
+      if (idempotencyClaimed && idempotencyKey && idempotencyProfileId) {
+        await completeIdempotencyKey(DB, idempotencyProfileId, idempotencyKey, response.clone()).catch((error) => {
+          console.error(`[Idempotency] Failed to store response for ${path}:`, error instanceof Error ? error.message : String(error));
+        });
+      }
+      return response;
+    };
 
-    // POST /api/deposit - Verify Google Play purchase, grant credits
-    if (path === '/api/deposit' && request.method === 'POST') {
+    // Async mode for AI endpoints: store the request as a job and return job_id immediately
+    if (route.asyncJob && route.creditAction && body?.async === true && !internalJobRequests.has(request)) {
+      const profileId = typeof body.profile_id === 'string' ? body.profile_id : '';
       try {
-        const body = await request.json() as DepositRequest;
-        if (!body.profile_id || !body.sku || !body.purchase_token || !body.order_id) {
-          return errorResponse('profile_id, sku, purchase_token, and order_id are required', 400, undefined, request, env);
-        }
-        if (!(await checkProfileToken(env, request, body.profile_id))) {
-          return errorResponse('Invalid profile token', 401, undefined, request, env);
-        }
-
-        // Idempotency check
-        const existing = await DB.prepare('SELECT id, status FROM payments WHERE order_id = ?').bind(body.order_id).first() as any;
-        if (existing) {
-          if (existing.status === 'COMPLETED') {
-            return jsonResponse({ data: { payment_id: existing.id, status: 'COMPLETED', message: 'Already processed' }, status: 'success', code: 200 }, 200, request, env);
-          }
+        if (!profileId) {
+          const debugEnabled = isDebugEnabled(env);
+          return respond(errorResponse('Missing required field: profile_id', 400, debugEnabled ? { path } : undefined, request, env));
         }
-
-        // Validate product
-        const product = await DB.prepare('SELECT * FROM products WHERE sku = ? AND type = \'consumable\' AND is_active = 1').bind(body.sku).first() as any;
-        if (!product) return errorResponse('Invalid or inactive product SKU', 400, undefined, request, env);
-
-        // Create pending payment
-        const paymentId = nanoid();
-        await DB.prepare(
-          'INSERT INTO payments (id, profile_id, sku, order_id, purchase_token, status, credits_granted, amount_micros, currency) VALUES (?, ?, ?, ?, ?, \'PENDING\', ?, ?, ?)'
-        ).bind(paymentId, body.profile_id, body.sku, body.order_id, body.purchase_token, product.credits, product.price_micros, product.currency).run();
-
-        // Verify with Google Play
-        const verification = await verifyGooglePlayPurchase(env, body.sku, body.purchase_token);
-        if (!verification.valid) {
-          await DB.prepare('UPDATE payments SET status = \'FAILED\', raw_response = ?, updated_at = unixepoch() WHERE id = ?')
-            .bind(JSON.stringify(verification), paymentId).run();
-          return errorResponse(`Purchase verification failed: ${verification.error || 'Invalid purchase'}`, 400, undefined, request, env);
+        const profileCheck = await DB.prepare('SELECT id FROM profiles WHERE id = ?').bind(profileId).first();
+        if (!profileCheck) {
+          const debugEnabled = isDebugEnabled(env);
+          return respond(errorResponse('Profile not found', 404, debugEnabled ? { profileId, path } : undefined, request, env));
         }
-
-        // Acknowledge purchase
-        if (!verification.acknowledged) {
-          await acknowledgeGooglePlayPurchase(env, body.sku, body.purchase_token);
+        if (!(await checkProfileToken(env, request, profileId))) {
+          return respond(errorResponse('Invalid profile token', 401, undefined, request, env));
         }
 
-        // Grant credits to consumable pool
-        await DB.prepare(
-          'UPDATE profiles SET consumable_point_remaining = consumable_point_remaining + ?, total_credits_purchased = total_credits_purchased + ?, updated_at = ? WHERE id = ?'
-        ).bind(product.credits, product.credits, Math.floor(Date.now() / 1000).toString(), body.profile_id).run();
-
-        // Mark payment completed
-        await DB.prepare('UPDATE payments SET status = \'COMPLETED\', raw_response = ?, updated_at = unixepoch() WHERE id = ?')
-          .bind(JSON.stringify(verification.raw), paymentId).run();
+        const jobId = await createJob(DB, request, profileId, route.creditAction, path, body);
+        await enqueueJob(env, ctx, jobId, requestUrl.origin);
 
-        const ip = request.headers.get('cf-connecting-ip') || null;
-        await auditLog(DB, body.profile_id, 'DEPOSIT', { sku: body.sku, credits: product.credits, order_id: body.order_id }, ip);
-
-        return jsonResponse({ data: { payment_id: paymentId, credits_granted: product.credits, status: 'COMPLETED' }, status: 'success', code: 200 }, 200, request, env);
+        return respond(jsonResponse({
+          data: { job_id: jobId, status: 'queued', action: route.creditAction },
+          status: 'success',
+          message: 'Job queued',
+          code: 202,
+        }, 202, request, env));
       } catch (error) {
-        logCriticalError('/api/deposit', error, request, env);
-        return errorResponse('Deposit failed', 500, undefined, request, env);
+        logCriticalError(`${path} (async)`, error, request, env, { body: { profile_id: profileId } });
+        const debugEnabled = isDebugEnabled(env);
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        return respond(errorResponse('', 500, debugEnabled ? { error: errorMsg, path } : undefined, request, env));
       }
     }
 
-    // GET /api/deposit/status/:order_id - Check deposit status
-    if (path.startsWith('/api/deposit/status/') && request.method === 'GET') {
-      const orderId = path.slice('/api/deposit/status/'.length);
-      if (!orderId) return errorResponse('order_id is required', 400, undefined, request, env);
+    const jobId = internalJobRequests.get(request);
+    const response = await route.handler({ request: handlerRequest, env, ctx, DB, R2_BUCKET, requestUrl, path, params, jobId });
+
+    // Report the outcome to the request's callback_url or the profile's webhook (never for requests failing profile auth)
+    const webhookProfileId = typeof body?.profile_id === 'string' ? body.profile_id : null;
+    if (route.creditAction && webhookProfileId && await checkProfileToken(env, request, webhookProfileId)) {
+      const webhookInput = {
+        profileId: webhookProfileId,
+        action: route.creditAction,
+        callbackUrl: typeof body?.callback_url === 'string' ? body.callback_url : null,
+        jobId,
+        response: response.clone(),
+      };
+      ctx.waitUntil(sendResultWebhook(DB, env, webhookInput).catch((error) => {
+        console.error(`[Webhooks] ${path} webhook failed:`, error instanceof Error ? error.message : String(error));
+      }));
+    }
+    return respond(response);
+  },
+
+  // Scheduled handler: Clean up results older than 30 days (daily cron), redeliver webhooks and roll preset usage up (WEBHOOK_RETRY cron)
+  async scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
+    const DB = getD1Database(env);
+    const R2_BUCKET = getR2Bucket(env);
+
+    if (event.cron === SCHEDULED_CRONS.WEBHOOK_RETRY) {
       try {
-        const payment = await DB.prepare('SELECT id, profile_id, sku, order_id, status, credits_granted, created_at, updated_at FROM payments WHERE order_id = ?').bind(orderId).first();
-        if (!payment) return errorResponse('Payment not found', 404, undefined, request, env);
-        return jsonResponse({ data: payment, status: 'success', code: 200 }, 200, request, env);
+        const delivered = await retryWebhookDeliveries(DB, env);
+        console.log(`[Scheduled] Webhook retry completed (${delivered} delivered)`);
       } catch (error) {
-        logCriticalError('/api/deposit/status', error, request, env);
-        return errorResponse('Failed to fetch deposit status', 500, undefined, request, env);
+        console.error('[Scheduled] Webhook retry failed:', error instanceof Error ? error.message : String(error));
       }
-    }
-
-    // POST /api/subscription/verify - Verify & activate subscription
-    if (path === '/api/subscription/verify' && request.method === 'POST') {
+      // Preset usage per day (trending, admin report), kept current through today; drops events past retention
       try {
-        const body = await request.json() as SubscriptionVerifyRequest;
-        if (!body.profile_id || !body.sku || !body.purchase_token) {
-          return errorResponse('profile_id, sku, and purchase_token are required', 400, undefined, request, env);
-        }
-        if (!(await checkProfileToken(env, request, body.profile_id))) {
-          return errorResponse('Invalid profile token', 401, undefined, request, env);
-        }
-
-        // Validate product is subscription
-        const product = await DB.prepare('SELECT * FROM products WHERE sku = ? AND type = \'subscription\' AND is_active = 1').bind(body.sku).first() as any;
-        if (!product) return errorResponse('Invalid or inactive subscription SKU', 400, undefined, request, env);
-
-        // Check existing subscription with this token
-        const existingSub = await DB.prepare('SELECT id, status FROM subscriptions WHERE purchase_token = ?').bind(body.purchase_token).first() as any;
-        if (existingSub && existingSub.status === 'ACTIVE') {
-          return jsonResponse({ data: { subscription_id: existingSub.id, status: 'ACTIVE', message: 'Already active' }, status: 'success', code: 200 }, 200, request, env);
-        }
-
-        // Verify with Google Play
-        const verification = await verifyGooglePlaySubscription(env, body.sku, body.purchase_token);
-        if (!verification.valid) {
-          return errorResponse(`Subscription verification failed: ${verification.error || 'Invalid subscription'}`, 400, undefined, request, env);
-        }
-
-        // Acknowledge subscription purchase (required by Google Play)
-        if (!verification.acknowledged) {
-          await acknowledgeGooglePlaySubscription(env, body.sku, body.purchase_token);
-        }
-
-        const now = Math.floor(Date.now() / 1000);
-        const expiresAt = verification.expiryTimeMillis
-          ? Math.floor(new Date(verification.expiryTimeMillis).getTime() / 1000)
-          : now + CYCLE_DURATION_SECONDS;
-
-        const subId = nanoid();
-        const pointsPerCycle = product.points_per_cycle;
-
-        if (existingSub) {
-          // Reactivate
-          await DB.prepare(
-            'UPDATE subscriptions SET status = \'ACTIVE\', points_per_cycle = ?, auto_renewing = ?, expires_at = ?, last_reset_at = ?, cycle_count_used = 1, cancelled_at = NULL, updated_at = unixepoch() WHERE id = ?'
-          ).bind(pointsPerCycle, verification.autoRenewing ? 1 : 0, expiresAt, now, existingSub.id).run();
-        } else {
-          await DB.prepare(
-            'INSERT INTO subscriptions (id, profile_id, sku, purchase_token, points_per_cycle, status, auto_renewing, expires_at, last_reset_at, cycle_count_used) VALUES (?, ?, ?, ?, ?, \'ACTIVE\', ?, ?, ?, 1)'
-          ).bind(subId, body.profile_id, body.sku, body.purchase_token, pointsPerCycle, verification.autoRenewing ? 1 : 0, expiresAt, now).run();
-        }
-
-        // Set sub points to points_per_cycle (first cycle)
-        await DB.prepare(
-          'UPDATE profiles SET sub_point_remaining = ?, updated_at = ? WHERE id = ?'
-        ).bind(pointsPerCycle, now.toString(), body.profile_id).run();
-
-        const ip = request.headers.get('cf-connecting-ip') || null;
-        await auditLog(DB, body.profile_id, 'SUBSCRIPTION_ACTIVATE', { sku: body.sku, points_per_cycle: pointsPerCycle, expires_at: expiresAt }, ip);
-
-        // FCM silent push to all devices (sync subscription state)
-        try {
-          const tokens = await DB.prepare('SELECT token, platform FROM device_tokens WHERE profile_id = ?').bind(body.profile_id).all();
-          for (const tokenRow of (tokens.results || [])) {
-            await sendFcmSilentPush(env, (tokenRow as any).token, (tokenRow as any).platform as 'android' | 'ios' | 'web', {
-              type: 'subscription_update', event: 'ACTIVATED', status: 'ACTIVE',
-            });
-          }
-        } catch (e) { console.error('[Sub Verify FCM]', e instanceof Error ? e.message : String(e)); }
-
-        return jsonResponse({
-          data: { subscription_id: existingSub?.id || subId, points_per_cycle: pointsPerCycle, expires_at: expiresAt, status: 'ACTIVE' },
-          status: 'success', code: 200
-        }, 200, request, env);
+        const rolledUp = await rollupPresetUsage(DB);
+        console.log(`[Scheduled] Preset usage rollup wrote ${rolledUp} daily rows`);
       } catch (error) {
-        logCriticalError('/api/subscription/verify', error, request, env);
-        return errorResponse('Subscription verification failed', 500, undefined, request, env);
+        console.error('[Scheduled] Preset usage rollup failed:', error instanceof Error ? error.message : String(error));
       }
+      return;
     }
 
-    // GET /api/subscription/status - Current subscription
-    if (path === '/api/subscription/status' && request.method === 'GET') {
-      const profileId = requestUrl.searchParams.get('profile_id');
-      if (!profileId) return errorResponse('profile_id is required', 400, undefined, request, env);
-      if (!(await checkProfileToken(env, request, profileId))) {
-        return errorResponse('Invalid profile token', 401, undefined, request, env);
-      }
+    if (event.cron === SCHEDULED_CRONS.VOIDED_PURCHASES_SYNC) {
       try {
-        const sub = await DB.prepare(
-          'SELECT id, sku, status, auto_renewing, started_at, expires_at, last_reset_at, cycle_count_used, points_per_cycle, cancelled_at FROM subscriptions WHERE profile_id = ? AND status NOT IN (\'EXPIRED\') ORDER BY created_at DESC LIMIT 1'
-        ).bind(profileId).first();
-        return jsonResponse({ data: sub || null, status: 'success', code: 200 }, 200, request, env);
+        const sync = await syncVoidedPurchases(DB, env, (payment, details) => refundDeposit(DB, env, payment, details));
+        if (sync.error) console.error('[Scheduled] Voided purchases sync stopped:', sync.error);
+        console.log(`[Scheduled] Voided purchases sync completed (${sync.fetched} fetched)`, sync.applied);
       } catch (error) {
-        logCriticalError('/api/subscription/status', error, request, env);
-        return errorResponse('Failed to fetch subscription', 500, undefined, request, env);
+        console.error('[Scheduled] Voided purchases sync failed:', error instanceof Error ? error.message : String(error));
       }
+      return;
     }
 
-    // POST /webhooks/google - Google Play RTDN (Pub/Sub push)
-    if (path === '/webhooks/google' && request.method === 'POST') {
+    if (event.cron === SCHEDULED_CRONS.CREDIT_HOLD_SWEEP) {
       try {
-        // Authenticate webhook with shared secret
-        const authHeader = request.headers.get('Authorization') || '';
-        const webhookSecret = env.GOOGLE_WEBHOOK_SECRET;
-        if (webhookSecret && !authHeader.includes(webhookSecret)) {
-          return errorResponse('Unauthorized webhook', 401, undefined, request, env);
-        }
-
-        const rawBody = await request.json() as any;
-        // Pub/Sub wraps data in message.data (base64)
-        const messageData = rawBody.message?.data;
-        if (!messageData) {
-          return jsonResponse({ status: 'success', message: 'No data' }, 200, request, env);
-        }
-
-        const decoded = JSON.parse(atob(messageData));
-        console.log('[Webhook Google] RTDN:', JSON.stringify(decoded));
-
-        const subscriptionNotification = decoded.subscriptionNotification;
-        const oneTimeProductNotification = decoded.oneTimeProductNotification;
-
-        // Helper: send FCM silent push to all user devices after subscription state change
-        const notifySubscriptionChange = async (profileId: string, event: string, data: Record<string, string> = {}) => {
-          try {
-            const tokens = await DB.prepare('SELECT token, platform FROM device_tokens WHERE profile_id = ?').bind(profileId).all();
-            for (const tokenRow of (tokens.results || [])) {
-              await sendFcmSilentPush(env, (tokenRow as any).token, (tokenRow as any).platform as 'android' | 'ios' | 'web', {
-                type: 'subscription_update', event, ...data,
-              });
-            }
-          } catch (e) {
-            console.error('[Webhook FCM] Failed:', e instanceof Error ? e.message : String(e));
-          }
-        };
-
-        // Helper: fetch source-of-truth from Google Play subscriptionsv2.get()
-        const fetchGoogleSubState = async (subSku: string, token: string) => {
-          try {
-            return await verifyGooglePlaySubscription(env, subSku, token);
-          } catch (e) {
-            console.error('[Webhook] Failed to verify with Google:', e instanceof Error ? e.message : String(e));
-            return null;
-          }
-        };
-
-        if (subscriptionNotification) {
-          const { notificationType, purchaseToken, subscriptionId } = subscriptionNotification;
-          const now = Math.floor(Date.now() / 1000);
-
-          // (4) SUBSCRIPTION_PURCHASED — backup activation from RTDN (in case client /verify call failed)
-          if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_PURCHASED) {
-            const existingSub = await DB.prepare('SELECT id, status FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
-            if (!existingSub) {
-              // Client didn't verify yet — activate from RTDN
-              const googleState = await fetchGoogleSubState(subscriptionId, purchaseToken);
-              if (googleState?.valid) {
-                const product = await DB.prepare('SELECT * FROM products WHERE sku = ? AND type = \'subscription\' AND is_active = 1').bind(subscriptionId).first() as any;
-                if (product) {
-                  // Find profile via decoded notification's package — we need to check payments or use obfuscated account ID
-                  // For RTDN PURCHASED, we cannot determine profile_id from notification alone
-                  // This is a backup: log it, the client /verify call is the primary path
-                  console.log('[Webhook] SUBSCRIPTION_PURCHASED received but no existing sub found. Client must call /api/subscription/verify.', { subscriptionId, purchaseToken: purchaseToken.slice(0, 20) });
-                  await auditLog(DB, 'SYSTEM', 'SUBSCRIPTION_PURCHASED_RTDN', { subscription_id: subscriptionId, note: 'No matching sub - awaiting client verify' }, null);
-                }
-              }
-            } else {
-              // Sub exists, verify and update expiry from Google
-              const googleState = await fetchGoogleSubState(subscriptionId, purchaseToken);
-              if (googleState?.valid && googleState.expiryTimeMillis) {
-                const expiresAt = Math.floor(new Date(googleState.expiryTimeMillis).getTime() / 1000);
-                await DB.prepare('UPDATE subscriptions SET expires_at = ?, updated_at = unixepoch() WHERE purchase_token = ?').bind(expiresAt, purchaseToken).run();
-              }
-              if (googleState?.valid && !googleState.acknowledged) {
-                await acknowledgeGooglePlaySubscription(env, subscriptionId, purchaseToken);
-              }
-            }
-          }
-
-          // (2) SUBSCRIPTION_RENEWED → status=ACTIVE, reset sub=points_per_cycle, cycle+1
-          if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_RENEWED) {
-            const sub = await DB.prepare('SELECT s.profile_id, s.points_per_cycle, s.cycle_count_used, s.sku FROM subscriptions s WHERE s.purchase_token = ?').bind(purchaseToken).first() as any;
-            if (sub) {
-              // Verify with Google to get accurate expiry
-              const googleState = await fetchGoogleSubState(sub.sku, purchaseToken);
-              const newExpiry = googleState?.expiryTimeMillis
-                ? Math.floor(new Date(googleState.expiryTimeMillis).getTime() / 1000)
-                : now + CYCLE_DURATION_SECONDS;
-
-              await DB.prepare(
-                'UPDATE subscriptions SET status = \'ACTIVE\', auto_renewing = 1, expires_at = ?, last_reset_at = ?, cycle_count_used = ?, updated_at = unixepoch() WHERE purchase_token = ?'
-              ).bind(newExpiry, now, sub.cycle_count_used + 1, purchaseToken).run();
-              await DB.prepare('UPDATE profiles SET sub_point_remaining = ?, updated_at = ? WHERE id = ?')
-                .bind(sub.points_per_cycle, now.toString(), sub.profile_id).run();
-              await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_RENEWED', { points_per_cycle: sub.points_per_cycle, cycle: sub.cycle_count_used + 1 }, null);
-              await notifySubscriptionChange(sub.profile_id, 'RENEWED', { status: 'ACTIVE' });
-            }
-          }
-
-          // (6) IN_GRACE_PERIOD → status=GRACE, reset sub=points_per_cycle, cycle+1 (user retains access)
-          if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_IN_GRACE_PERIOD) {
-            const sub = await DB.prepare('SELECT s.profile_id, s.points_per_cycle, s.cycle_count_used, s.sku FROM subscriptions s WHERE s.purchase_token = ?').bind(purchaseToken).first() as any;
-            if (sub) {
-              const googleState = await fetchGoogleSubState(sub.sku, purchaseToken);
-              const graceExpiry = googleState?.expiryTimeMillis
-                ? Math.floor(new Date(googleState.expiryTimeMillis).getTime() / 1000)
-                : sub.expires_at;
-
-              await DB.prepare(
-                'UPDATE subscriptions SET status = \'GRACE\', expires_at = ?, last_reset_at = ?, cycle_count_used = ?, updated_at = unixepoch() WHERE purchase_token = ?'
-              ).bind(graceExpiry, now, sub.cycle_count_used + 1, purchaseToken).run();
-              await DB.prepare('UPDATE profiles SET sub_point_remaining = ?, updated_at = ? WHERE id = ?')
-                .bind(sub.points_per_cycle, now.toString(), sub.profile_id).run();
-              await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_GRACE', { points_per_cycle: sub.points_per_cycle, cycle: sub.cycle_count_used + 1 }, null);
-              await notifySubscriptionChange(sub.profile_id, 'IN_GRACE_PERIOD', { status: 'GRACE' });
-            }
-          }
-
-          // (5) ON_HOLD → after grace ends, payment still failed. User LOSES access immediately.
-          if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_ON_HOLD) {
-            const sub = await DB.prepare('SELECT profile_id FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
-            if (sub) {
-              await DB.prepare('UPDATE subscriptions SET status = \'ON_HOLD\', updated_at = unixepoch() WHERE purchase_token = ?').bind(purchaseToken).run();
-              await DB.prepare('UPDATE profiles SET sub_point_remaining = 0, updated_at = ? WHERE id = ?')
-                .bind(now.toString(), sub.profile_id).run();
-              await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_ON_HOLD', { notification_type: notificationType, subscription_id: subscriptionId }, null);
-              await notifySubscriptionChange(sub.profile_id, 'ON_HOLD', { status: 'ON_HOLD' });
-            }
-          }
-
-          // (1) RECOVERED → from account hold OR grace. status=ACTIVE, restore sub points, NO new cycle.
-          if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_RECOVERED) {
-            const sub = await DB.prepare('SELECT profile_id, points_per_cycle, sku FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
-            if (sub) {
-              const googleState = await fetchGoogleSubState(sub.sku, purchaseToken);
-              const newExpiry = googleState?.expiryTimeMillis
-                ? Math.floor(new Date(googleState.expiryTimeMillis).getTime() / 1000)
-                : now + CYCLE_DURATION_SECONDS;
-
-              await DB.prepare(
-                'UPDATE subscriptions SET status = \'ACTIVE\', auto_renewing = 1, expires_at = ?, updated_at = unixepoch() WHERE purchase_token = ?'
-              ).bind(newExpiry, purchaseToken).run();
-              // Restore sub points if they were zeroed during ON_HOLD
-              const profile = await DB.prepare('SELECT sub_point_remaining FROM profiles WHERE id = ?').bind(sub.profile_id).first() as any;
-              if (profile && profile.sub_point_remaining === 0) {
-                await DB.prepare('UPDATE profiles SET sub_point_remaining = ?, updated_at = ? WHERE id = ?')
-                  .bind(sub.points_per_cycle, now.toString(), sub.profile_id).run();
-              }
-              await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_RECOVERED', { subscription_id: subscriptionId }, null);
-              await notifySubscriptionChange(sub.profile_id, 'RECOVERED', { status: 'ACTIVE' });
-            }
-          }
-
-          // (3) CANCELED → mark CANCELLED, user retains access until expires_at
-          if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_CANCELED) {
-            const sub = await DB.prepare('SELECT profile_id FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
-            await DB.prepare('UPDATE subscriptions SET status = \'CANCELLED\', auto_renewing = 0, cancelled_at = unixepoch(), updated_at = unixepoch() WHERE purchase_token = ?').bind(purchaseToken).run();
-            if (sub) {
-              await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_CANCELED', { subscription_id: subscriptionId }, null);
-              await notifySubscriptionChange(sub.profile_id, 'CANCELED', { status: 'CANCELLED' });
-            }
-          }
-
-          // (7) RESTARTED → user un-canceled before expiry, restore to ACTIVE
-          if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_RESTARTED) {
-            const sub = await DB.prepare('SELECT profile_id, sku FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
-            if (sub) {
-              const googleState = await fetchGoogleSubState(sub.sku, purchaseToken);
-              const newExpiry = googleState?.expiryTimeMillis
-                ? Math.floor(new Date(googleState.expiryTimeMillis).getTime() / 1000)
-                : sub.expires_at;
-
-              await DB.prepare(
-                'UPDATE subscriptions SET status = \'ACTIVE\', auto_renewing = 1, cancelled_at = NULL, expires_at = ?, updated_at = unixepoch() WHERE purchase_token = ?'
-              ).bind(newExpiry, purchaseToken).run();
-              await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_RESTARTED', { subscription_id: subscriptionId }, null);
-              await notifySubscriptionChange(sub.profile_id, 'RESTARTED', { status: 'ACTIVE' });
-            }
-          }
-
-          // (13) EXPIRED or (12) REVOKED → mark EXPIRED, zero sub points
-          if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_REVOKED ||
-              notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_EXPIRED) {
-            const sub = await DB.prepare('SELECT profile_id FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
-            if (sub) {
-              await DB.prepare('UPDATE subscriptions SET status = \'EXPIRED\', updated_at = unixepoch() WHERE purchase_token = ?').bind(purchaseToken).run();
-              await DB.prepare('UPDATE profiles SET sub_point_remaining = 0, updated_at = ? WHERE id = ?')
-                .bind(now.toString(), sub.profile_id).run();
-              await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_EXPIRED', { notification_type: notificationType, subscription_id: subscriptionId }, null);
-              await notifySubscriptionChange(sub.profile_id, 'EXPIRED', { status: 'EXPIRED' });
-            }
-          }
-
-          // (10) PAUSED → user-initiated pause, revoke access
-          if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_PAUSED) {
-            const sub = await DB.prepare('SELECT profile_id FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
-            await DB.prepare('UPDATE subscriptions SET status = \'PAUSED\', updated_at = unixepoch() WHERE purchase_token = ?').bind(purchaseToken).run();
-            if (sub) {
-              await DB.prepare('UPDATE profiles SET sub_point_remaining = 0, updated_at = ? WHERE id = ?')
-                .bind(now.toString(), sub.profile_id).run();
-              await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_PAUSED', { subscription_id: subscriptionId }, null);
-              await notifySubscriptionChange(sub.profile_id, 'PAUSED', { status: 'PAUSED' });
-            }
-          }
-
-          // (9) DEFERRED → developer extended entitlement, update expiry
-          if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_DEFERRED) {
-            const sub = await DB.prepare('SELECT profile_id, sku FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
-            if (sub) {
-              const googleState = await fetchGoogleSubState(sub.sku, purchaseToken);
-              if (googleState?.expiryTimeMillis) {
-                const newExpiry = Math.floor(new Date(googleState.expiryTimeMillis).getTime() / 1000);
-                await DB.prepare('UPDATE subscriptions SET expires_at = ?, updated_at = unixepoch() WHERE purchase_token = ?').bind(newExpiry, purchaseToken).run();
-              }
-              await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_DEFERRED', { subscription_id: subscriptionId }, null);
-            }
-          }
-
-          // (11) PAUSE_SCHEDULE_CHANGED → pause scheduled, user still has access until pause takes effect
-          if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_PAUSE_SCHEDULE_CHANGED) {
-            const sub = await DB.prepare('SELECT profile_id FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
-            if (sub) {
-              await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_PAUSE_SCHEDULED', { subscription_id: subscriptionId }, null);
-              await notifySubscriptionChange(sub.profile_id, 'PAUSE_SCHEDULED', { status: 'ACTIVE' });
-            }
-          }
-
-          // (18) CANCELLATION_SCHEDULED → installment plan cancellation scheduled
-          if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.SUBSCRIPTION_CANCELLATION_SCHEDULED) {
-            const sub = await DB.prepare('SELECT profile_id FROM subscriptions WHERE purchase_token = ?').bind(purchaseToken).first() as any;
-            if (sub) {
-              await auditLog(DB, sub.profile_id, 'SUBSCRIPTION_CANCELLATION_SCHEDULED', { subscription_id: subscriptionId }, null);
-              await notifySubscriptionChange(sub.profile_id, 'CANCELLATION_SCHEDULED', { status: 'ACTIVE' });
-            }
-          }
-
-          // Log unhandled types for monitoring (8-deprecated, 17, 19, 20, 22)
-          const handledTypes = [1, 2, 3, 4, 5, 6, 7, 9, 10, 11, 13, 12, 18];
-          if (!handledTypes.includes(notificationType)) {
-            console.log(`[Webhook] Unhandled subscription notification type: ${notificationType}`, { subscriptionId, purchaseToken: purchaseToken.slice(0, 20) });
-            await auditLog(DB, 'SYSTEM', 'RTDN_UNHANDLED', { notification_type: notificationType, subscription_id: subscriptionId }, null);
-          }
-        }
-
-        if (oneTimeProductNotification) {
-          const { notificationType, purchaseToken, sku } = oneTimeProductNotification;
-          // Handle refund/cancellation of one-time purchase
-          if (notificationType === GOOGLE_PLAY_CONFIG.NOTIFICATION_TYPES.ONE_TIME_PRODUCT_CANCELED) {
-            const payment = await DB.prepare('SELECT id, profile_id, credits_granted FROM payments WHERE purchase_token = ? AND status = \'COMPLETED\'').bind(purchaseToken).first() as any;
-            if (payment) {
-              await DB.prepare('UPDATE payments SET status = \'REFUNDED\', updated_at = unixepoch() WHERE id = ?').bind(payment.id).run();
-              // Deduct refunded credits from consumable (clamp to 0)
-              await DB.prepare('UPDATE profiles SET consumable_point_remaining = MAX(0, consumable_point_remaining - ?), updated_at = ? WHERE id = ?')
-                .bind(payment.credits_granted, Math.floor(Date.now() / 1000).toString(), payment.profile_id).run();
-              await auditLog(DB, payment.profile_id, 'REFUND', { payment_id: payment.id, credits_deducted: payment.credits_granted, sku }, null);
-              await notifySubscriptionChange(payment.profile_id, 'REFUND', { credits_deducted: String(payment.credits_granted) });
-            }
-          }
-        }
-
-        return jsonResponse({ status: 'success' }, 200, request, env);
+        // Batches settle their own hold first so the items that did succeed are captured, not released
+        const expiredBatches = await DB.prepare(
+          'SELECT b.id FROM faceswap_batches b JOIN credit_holds h ON h.batch_id = b.id WHERE b.status = \'running\' AND h.status = \'held\' AND h.expires_at <= ?'
+        ).bind(Math.floor(Date.now() / 1000)).all<{ id: string }>();
+        for (const batch of (expiredBatches.results || [])) {
+          await settleFaceSwapBatch(DB, batch.id, null);
+        }
+        const released = await releaseExpiredCreditHolds(DB);
+        if (released > 0) console.log(`[Scheduled] Released ${released} expired credit holds`);
       } catch (error) {
-        console.error('[Webhook Google] Error:', error instanceof Error ? error.message : String(error));
-        return jsonResponse({ status: 'success' }, 200, request, env); // Always 200 to avoid Pub/Sub retries
+        console.error('[Scheduled] Credit hold sweep failed:', error instanceof Error ? error.message : String(error));
       }
+      return;
     }
 
-    // 404 for unmatched routes
-    const debugEnabled = isDebugEnabled(env);
-    return errorResponse('Not found', 404, debugEnabled ? { path, method: request.method } : undefined, request, env);
-  },
-
-  // Scheduled handler: Clean up results older than 30 days
-  async scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
     console.log('[Scheduled] Starting 30-day result cleanup...');
-    const DB = getD1Database(env);
-    const R2_BUCKET = getR2Bucket(env);
 
     try {
       // Calculate 30 days ago timestamp
@@ -9291,45 +9397,45 @@ export default {
 
       if (!oldResults.results || oldResults.results.length === 0) {
         console.log('[Scheduled] No results older than 30 days found');
-        return;
-      }
+      } else {
 
-      console.log(`[Scheduled] Found ${oldResults.results.length} results to clean up`);
+        console.log(`[Scheduled] Found ${oldResults.results.length} results to clean up`);
 
-      const urlsToPurge: string[] = [];
-      const idsToDelete: string[] = [];
+        const urlsToPurge: string[] = [];
+        const idsToDelete: string[] = [];
 
-      for (const result of oldResults.results) {
-        const r2Key = reconstructR2Key((result as any).id, (result as any).ext, 'results');
-        const publicUrl = getR2PublicUrl(env, r2Key, `https://${env.BACKEND_DOMAIN || 'api.shotpix.app'}`);
+        for (const result of oldResults.results) {
+          const r2Key = reconstructR2Key((result as any).id, (result as any).ext, 'results');
+          const publicUrl = getR2PublicUrl(env, r2Key, `https://${env.BACKEND_DOMAIN || 'api.shotpix.app'}`);
 
-        // Delete from R2
-        try {
-          await R2_BUCKET.delete(r2Key);
-          console.log(`[Scheduled] Deleted R2 object: ${r2Key}`);
-        } catch (r2Error) {
-          console.error(`[Scheduled] Failed to delete R2 object ${r2Key}:`, r2Error instanceof Error ? r2Error.message : String(r2Error));
-        }
+          // Delete from R2
+          try {
+            await R2_BUCKET.delete(r2Key);
+            console.log(`[Scheduled] Deleted R2 object: ${r2Key}`);
+          } catch (r2Error) {
+            console.error(`[Scheduled] Failed to delete R2 object ${r2Key}:`, r2Error instanceof Error ? r2Error.message : String(r2Error));
+          }
 
-        urlsToPurge.push(publicUrl);
-        idsToDelete.push((result as any).id);
-      }
+          urlsToPurge.push(publicUrl);
+          idsToDelete.push((result as any).id);
+        }
 
-      // Purge CDN cache in batch
-      if (urlsToPurge.length > 0) {
-        try {
-          await purgeCdnCache(urlsToPurge, env);
-          console.log(`[Scheduled] Purged CDN cache for ${urlsToPurge.length} URLs`);
-        } catch (cdnError) {
-          console.error('[Scheduled] Failed to purge CDN cache:', cdnError instanceof Error ? cdnError.message : String(cdnError));
+        // Purge CDN cache in batch
+        if (urlsToPurge.length > 0) {
+          try {
+            await purgeCdnCache(urlsToPurge, env);
+            console.log(`[Scheduled] Purged CDN cache for ${urlsToPurge.length} URLs`);
+          } catch (cdnError) {
+            console.error('[Scheduled] Failed to purge CDN cache:', cdnError instanceof Error ? cdnError.message : String(cdnError));
+          }
         }
-      }
 
-      // Delete from database in batch
-      if (idsToDelete.length > 0) {
-        const placeholders = idsToDelete.map(() => '?').join(',');
-        await DB.prepare(`DELETE FROM results WHERE id IN (${placeholders})`).bind(...idsToDelete).run();
-        console.log(`[Scheduled] Deleted ${idsToDelete.length} results from database`);
+        // Delete from database in batch
+        if (idsToDelete.length > 0) {
+          const placeholders = idsToDelete.map(() => '?').join(',');
+          await DB.prepare(`DELETE FROM results WHERE id IN (${placeholders})`).bind(...idsToDelete).run();
+          console.log(`[Scheduled] Deleted ${idsToDelete.length} results from database`);
+        }
       }
 
       console.log('[Scheduled] 30-day result cleanup completed');
@@ -9347,7 +9453,7 @@ export default {
       ).bind(now).all();
       for (const sub of (expiredSubs.results || [])) {
         await DB.prepare('UPDATE subscriptions SET status = \'EXPIRED\', updated_at = ? WHERE id = ?').bind(now, (sub as any).id).run();
-        await DB.prepare('UPDATE profiles SET sub_point_remaining = 0, updated_at = ? WHERE id = ?').bind(now.toString(), (sub as any).profile_id).run();
+        await applyCreditChange(DB, { profileId: (sub as any).profile_id, type: 'expiry', setSub: 0, subscription_id: (sub as any).id, note: 'Expired' });
         console.log(`[Scheduled] Expired subscription ${(sub as any).id} for profile ${(sub as any).profile_id}`);
       }
 
@@ -9357,14 +9463,15 @@ export default {
       ).bind(now).all();
       for (const sub of (cancelledExpired.results || [])) {
         await DB.prepare('UPDATE subscriptions SET status = \'EXPIRED\', updated_at = ? WHERE id = ?').bind(now, (sub as any).id).run();
-        await DB.prepare('UPDATE profiles SET sub_point_remaining = 0, updated_at = ? WHERE id = ?').bind(now.toString(), (sub as any).profile_id).run();
+        await applyCreditChange(DB, { profileId: (sub as any).profile_id, type: 'expiry', setSub: 0, subscription_id: (sub as any).id, note: 'Expired' });
         console.log(`[Scheduled] Expired cancelled subscription ${(sub as any).id}`);
       }
 
-      // 3. Mark stale PENDING payments (>1 hour old) as FAILED
+      // 3. Mark stale PENDING payments (>1 hour old) as FAILED. Web (Stripe) payments are left to their webhooks:
+      // delayed payment methods complete hours later, and checkout.session.expired / async_payment_failed close them.
       const oneHourAgo = now - 3600;
       await DB.prepare(
-        'UPDATE payments SET status = \'FAILED\', updated_at = ? WHERE status = \'PENDING\' AND created_at < ?'
+        'UPDATE payments SET status = \'FAILED\', updated_at = ? WHERE status = \'PENDING\' AND platform != \'web\' AND created_at < ?'
       ).bind(now, oneHourAgo).run();
 
       // 4. Clean old audit_log entries (>90 days)
@@ -9375,5 +9482,66 @@ export default {
     } catch (error) {
       console.error('[Scheduled] Payment cleanup failed:', error instanceof Error ? error.message : String(error));
     }
+
+    // ---- Async job cleanup ----
+    try {
+      const now = Math.floor(Date.now() / 1000);
+
+      // 1. Fail jobs stuck in queued/running (worker evicted or queue message lost)
+      await DB.prepare(
+        'UPDATE jobs SET status = \'failed\', error_code = 504, error_message = \'Job timed out\', completed_at = ? WHERE status IN (\'queued\', \'running\') AND created_at < ?'
+      ).bind(now, now - JOB_CONFIG.STALE_AFTER_SECONDS).run();
+
+      // 2. Delete finished jobs past retention
+      await DB.prepare(
+        'DELETE FROM jobs WHERE status IN (\'succeeded\', \'failed\') AND created_at < ?'
+      ).bind(now - JOB_CONFIG.RETENTION_DAYS * 86400).run();
+
+      // 3. Settle batches stuck in running (refunds their unfinished items), then drop old ones
+      const staleBatches = await DB.prepare(
+        'SELECT id FROM faceswap_batches WHERE status = \'running\' AND created_at < ?'
+      ).bind(now - JOB_CONFIG.STALE_AFTER_SECONDS).all<{ id: string }>();
+      for (const batch of (staleBatches.results || [])) {
+        await settleFaceSwapBatch(DB, batch.id, null);
+        console.log(`[Scheduled] Settled stale face swap batch ${batch.id}`);
+      }
+      await DB.prepare(
+        'DELETE FROM faceswap_batch_items WHERE batch_id IN (SELECT id FROM faceswap_batches WHERE status = \'completed\' AND created_at < ?)'
+      ).bind(now - JOB_CONFIG.RETENTION_DAYS * 86400).run();
+      await DB.prepare(
+        'DELETE FROM faceswap_batches WHERE status = \'completed\' AND created_at < ?'
+      ).bind(now - JOB_CONFIG.RETENTION_DAYS * 86400).run();
+
+      // 4. Delete finished webhook deliveries past retention
+      await DB.prepare(
+        'DELETE FROM webhook_deliveries WHERE status IN (\'delivered\', \'failed\') AND created_at < ?'
+      ).bind(now - WEBHOOK_CONFIG.RETENTION_DAYS * 86400).run();
+
+      // 5. Delete expired idempotency keys
+      await DB.prepare('DELETE FROM idempotency_keys WHERE expires_at < ?').bind(now).run();
+
+      // 6. Delete free allowance usage of past days
+      await DB.prepare('DELETE FROM free_allowance_usage WHERE usage_day < ?')
+        .bind(new Date((now - FREE_ALLOWANCE_CONFIG.RETENTION_DAYS * 86400) * 1000).toISOString().slice(0, 10)).run();
+
+      console.log('[Scheduled] Job cleanup completed');
+    } catch (error) {
+      console.error('[Scheduled] Job cleanup failed:', error instanceof Error ? error.message : String(error));
+    }
+  },
+
+  // Queue consumer for async jobs (JOBS_QUEUE binding)
+  async queue(batch: MessageBatch<JobQueueMessage>, env: Env, ctx: ExecutionContext): Promise<void> {
+    for (const message of batch.messages) {
+      try {
+        await runJob(env, ctx, message.body.job_id, message.body.origin);
+        message.ack();
+      } catch (error) {
+        console.error(`[Jobs] Queue message for job ${message.body.job_id} failed:`, error instanceof Error ? error.message : String(error));
+        message.retry();
+      }
+    }
   },
 };
+
+export default worker;
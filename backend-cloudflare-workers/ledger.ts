@@ -0,0 +1,199 @@
+// backend-cloudflare-workers/ledger.ts
+// Credit ledger: every balance change goes through applyCreditChange (or a hold), which writes the profile counters
+// and an immutable credit_ledger entry in one D1 batch. The counters are a cache of the ledger (see reconcileCreditLedger).
+import { customAlphabet } from 'nanoid';
+import type { CreditHold, CreditLedgerEntry, CreditLedgerEntryType, CreditLedgerLinks } from './types';
+import { CREDIT_HOLD_CONFIG } from './config';
+
+const nanoid = customAlphabet('ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789_', 21);
+
+export interface CreditChange extends CreditLedgerLinks {
+  profileId: string;
+  type: CreditLedgerEntryType;
+  sub?: number;               // Signed change to sub_point_remaining
+  consumable?: number;        // Signed change to consumable_point_remaining
+  setSub?: number;            // Absolute value instead of a change (subscription resets and expiry)
+  setConsumable?: number;
+  floorAtZero?: boolean;      // Clamp a pool at 0 instead of rejecting a change that would make it negative
+  spent?: number;             // Change to total_credits_spent
+  purchased?: number;         // Change to total_credits_purchased
+  action?: string | null;
+  note?: string | null;
+}
+
+export interface CreditChangeResult {
+  applied: boolean;           // false when the profile is missing or a pool would go negative
+  entryId: number | null;     // null when nothing changed (e.g. zeroing an empty pool)
+}
+
+// Statements of one batch share a numbered parameter list; each is bound with the prefix it references (?1..?N)
+const bindNumbered = (db: D1Database, sql: string, bindings: unknown[]): D1PreparedStatement => {
+  const highest = Math.max(0, ...[...sql.matchAll(/\?(\d+)/g)].map((match) => Number(match[1])));
+  return db.prepare(sql).bind(...bindings.slice(0, highest));
+};
+
+// ?1 type, ?2/?3 sub set/delta, ?4/?5 consumable set/delta, ?6 action, ?7 note, ?8-?12 links, ?13 now, ?14 profile, ?15 spent, ?16 purchased
+const creditChangeBindings = (change: CreditChange): unknown[] => [
+  change.type,
+  change.setSub ?? null, change.sub ?? 0,
+  change.setConsumable ?? null, change.consumable ?? 0,
+  change.action ?? null, change.note ?? null,
+  change.payment_id ?? null, change.subscription_id ?? null, change.result_id ?? null, change.batch_id ?? null, change.related_entry_id ?? null,
+  Math.floor(Date.now() / 1000), change.profileId, change.spent ?? 0, change.purchased ?? 0,
+];
+
+// New balances and the guard (over a profiles row) a change applies under; `condition` is an extra SQL guard
+const creditChangeExpressions = (change: CreditChange, condition = '1 = 1') => {
+  const clamp = (expr: string) => change.floorAtZero ? `MAX(0, ${expr})` : expr;
+  const newSub = clamp('COALESCE(?2, sub_point_remaining + ?3)');
+  const newConsumable = clamp('COALESCE(?4, consumable_point_remaining + ?5)');
+  return { newSub, newConsumable, guard: `${newSub} >= 0 AND ${newConsumable} >= 0 AND ${condition}` };
+};
+
+// Ledger entry + profile update. The entry is computed from the balances before the update, which runs right
+// after it in the same transaction (statements placed between them see the same balances).
+const creditChangeStatements = (db: D1Database, change: CreditChange, bindings: unknown[], condition?: string): D1PreparedStatement[] => {
+  const { newSub, newConsumable, guard } = creditChangeExpressions(change, condition);
+  return [
+    bindNumbered(db,
+      `INSERT INTO credit_ledger (profile_id, entry_type, sub_delta, consumable_delta, sub_balance_after, consumable_balance_after, action, note, payment_id, subscription_id, result_id, batch_id, related_entry_id, created_at)
+       SELECT id, ?1, ${newSub} - sub_point_remaining, ${newConsumable} - consumable_point_remaining, ${newSub}, ${newConsumable}, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13
+       FROM profiles WHERE id = ?14 AND ${guard} AND (${newSub} <> sub_point_remaining OR ${newConsumable} <> consumable_point_remaining)`,
+      bindings),
+    bindNumbered(db,
+      `UPDATE profiles SET sub_point_remaining = ${newSub}, consumable_point_remaining = ${newConsumable},
+       total_credits_spent = total_credits_spent + ?15, total_credits_purchased = total_credits_purchased + ?16, updated_at = ?13
+       WHERE id = ?14 AND ${guard}`,
+      bindings),
+  ];
+};
+
+const toChangeResult = (entry: D1Result, update: D1Result): CreditChangeResult => ({
+  applied: !!update.meta?.changes,
+  entryId: entry.meta?.changes ? Number(entry.meta.last_row_id) : null,
+});
+
+export const applyCreditChange = async (db: D1Database, change: CreditChange): Promise<CreditChangeResult> => {
+  const [entry, update] = await db.batch(creditChangeStatements(db, change, creditChangeBindings(change)));
+  return toChangeResult(entry, update);
+};
+
+// ---- Holds ----
+// A hold takes the points for one request out of the balance (a 'deduct' entry) before the provider call and is
+// settled exactly once: captured when the result is saved, released (a 'refund' entry) when the request fails,
+// or released by releaseExpiredCreditHolds when neither happened before expires_at.
+
+export const openCreditHold = async (
+  db: D1Database, change: CreditChange, expiresAt: number
+): Promise<CreditChangeResult & { holdId: string | null }> => {
+  const holdId = nanoid();
+  // ?17 hold id, ?18 expires_at
+  const bindings = [...creditChangeBindings(change), holdId, expiresAt];
+  const [entryStatement, updateStatement] = creditChangeStatements(db, change, bindings);
+  const { guard } = creditChangeExpressions(change);
+  // Between the entry and the update: same guard over the same balances, and the entry is the profile's latest
+  const [entry, hold, update] = await db.batch([
+    entryStatement,
+    bindNumbered(db,
+      `INSERT INTO credit_holds (id, profile_id, action, sub_amount, consumable_amount, ledger_entry_id, batch_id, expires_at, created_at)
+       SELECT ?17, id, ?6, -?3, -?5, (SELECT MAX(id) FROM credit_ledger WHERE profile_id = ?14), ?11, ?18, ?13
+       FROM profiles WHERE id = ?14 AND ${guard}`,
+      bindings),
+    updateStatement,
+  ]);
+  return { ...toChangeResult(entry, update), holdId: hold.meta?.changes ? holdId : null };
+};
+
+export interface CreditHoldSettlement {
+  release: 'all' | 'none' | { sub: number; consumable: number };  // Points returned; the rest is captured
+  resultId?: string | null;                                         // Linked to the hold's 'deduct' entry
+  note?: string | null;
+}
+
+// Returns false when the hold does not exist or was already settled (e.g. released by the sweep)
+export const settleCreditHold = async (db: D1Database, holdId: string | null | undefined, settlement: CreditHoldSettlement): Promise<boolean> => {
+  if (!holdId) return false;
+  const hold = await db.prepare('SELECT * FROM credit_holds WHERE id = ?').bind(holdId).first() as CreditHold | null;
+  if (!hold || hold.status !== 'held') return false;
+
+  const { release } = settlement;
+  const releaseSub = release === 'all' ? hold.sub_amount : release === 'none' ? 0 : Math.min(release.sub, hold.sub_amount);
+  const releaseConsumable = release === 'all' ? hold.consumable_amount : release === 'none' ? 0 : Math.min(release.consumable, hold.consumable_amount);
+  const change: CreditChange = {
+    profileId: hold.profile_id, type: 'refund', sub: releaseSub, consumable: releaseConsumable, spent: -(releaseSub + releaseConsumable),
+    action: hold.action, note: settlement.note, batch_id: hold.batch_id, related_entry_id: hold.ledger_entry_id,
+  };
+  const status = releaseSub === hold.sub_amount && releaseConsumable === hold.consumable_amount ? 'released' : 'captured';
+  // ?17 hold id, ?18 new status, ?19 result id
+  const bindings = [...creditChangeBindings(change), holdId, status, settlement.resultId ?? null];
+  const isHeld = 'EXISTS (SELECT 1 FROM credit_holds WHERE id = ?17 AND status = \'held\')';
+
+  // Every statement checks the hold is still held; the last one settles it, so a concurrent settle applies nothing
+  const results = await db.batch([
+    ...creditChangeStatements(db, change, bindings, isHeld),
+    bindNumbered(db, `UPDATE credit_ledger SET result_id = ?19 WHERE ?19 IS NOT NULL AND id = ?12 AND result_id IS NULL AND ${isHeld}`, bindings),
+    bindNumbered(db,
+      `UPDATE credit_holds SET status = ?18, released_sub = ?3, released_consumable = ?5, result_id = ?19, settled_at = ?13
+       WHERE id = ?17 AND status = 'held'`,
+      bindings),
+  ]);
+  return !!results[3].meta?.changes;
+};
+
+export const captureCreditHold = (db: D1Database, holdId: string | null | undefined, resultId: string | null): Promise<boolean> =>
+  settleCreditHold(db, holdId, { release: 'none', resultId });
+
+// Cron: release holds whose request never settled them. Returns how many were released.
+export const releaseExpiredCreditHolds = async (db: D1Database): Promise<number> => {
+  const expired = await db.prepare(
+    'SELECT id FROM credit_holds WHERE status = \'held\' AND expires_at <= ? ORDER BY expires_at LIMIT ?'
+  ).bind(Math.floor(Date.now() / 1000), CREDIT_HOLD_CONFIG.SWEEP_BATCH_SIZE).all<{ id: string }>();
+  let released = 0;
+  for (const hold of expired.results || []) {
+    if (await settleCreditHold(db, hold.id, { release: 'all', note: 'Hold expired' })) released++;
+  }
+  return released;
+};
+
+// Points currently held per pool (shown next to the balance)
+export const getHeldCredits = async (db: D1Database, profileId: string): Promise<{ sub: number; consumable: number }> => {
+  const held = await db.prepare(
+    'SELECT COALESCE(SUM(sub_amount), 0) AS sub, COALESCE(SUM(consumable_amount), 0) AS consumable FROM credit_holds WHERE profile_id = ? AND status = \'held\''
+  ).bind(profileId).first() as { sub: number; consumable: number } | null;
+  return { sub: held?.sub || 0, consumable: held?.consumable || 0 };
+};
+
+// Compare the profile counters with the sum of the profile's ledger entries
+export const reconcileCreditLedger = async (db: D1Database, profileId: string) => {
+  const [profile, totals] = await Promise.all([
+    db.prepare('SELECT sub_point_remaining, consumable_point_remaining FROM profiles WHERE id = ?').bind(profileId).first() as Promise<{ sub_point_remaining: number; consumable_point_remaining: number } | null>,
+    db.prepare(
+      'SELECT COALESCE(SUM(sub_delta), 0) AS sub, COALESCE(SUM(consumable_delta), 0) AS consumable FROM credit_ledger WHERE profile_id = ?'
+    ).bind(profileId).first() as Promise<{ sub: number; consumable: number } | null>,
+  ]);
+  if (!profile) return null;
+  const ledgerSub = totals?.sub || 0;
+  const ledgerConsumable = totals?.consumable || 0;
+  return {
+    balance: { sub_point_remaining: profile.sub_point_remaining, consumable_point_remaining: profile.consumable_point_remaining },
+    ledger_balance: { sub_point_remaining: ledgerSub, consumable_point_remaining: ledgerConsumable },
+    reconciled: ledgerSub === profile.sub_point_remaining && ledgerConsumable === profile.consumable_point_remaining,
+  };
+};
+
+export const formatCreditLedgerEntry = (entry: CreditLedgerEntry) => ({
+  id: entry.id,
+  type: entry.entry_type,
+  sub_delta: entry.sub_delta,
+  consumable_delta: entry.consumable_delta,
+  sub_balance_after: entry.sub_balance_after,
+  consumable_balance_after: entry.consumable_balance_after,
+  action: entry.action,
+  note: entry.note,
+  payment_id: entry.payment_id,
+  subscription_id: entry.subscription_id,
+  result_id: entry.result_id,
+  batch_id: entry.batch_id,
+  related_entry_id: entry.related_entry_id,
+  created_at: new Date(entry.created_at * 1000).toISOString(),
+});
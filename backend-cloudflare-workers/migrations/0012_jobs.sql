@@ -0,0 +1,27 @@
+-- Migration 0012: Async AI jobs
+-- AI endpoints accept "async": true and return a job_id immediately.
+-- The job runs in the background and its final state is polled via GET /jobs/:id
+
+-- ============================================================
+-- 1. jobs: one row per async AI request
+-- ============================================================
+CREATE TABLE IF NOT EXISTS jobs (
+  id TEXT PRIMARY KEY,
+  profile_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  path TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK(status IN ('queued', 'running', 'succeeded', 'failed')),
+  request_body TEXT NOT NULL,
+  result_id TEXT,
+  result_url TEXT,
+  error_code INTEGER,
+  error_message TEXT,
+  response_json TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  started_at INTEGER,
+  completed_at INTEGER,
+  FOREIGN KEY (profile_id) REFERENCES profiles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_profile_created ON jobs(profile_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_jobs_status_created ON jobs(status, created_at);
@@ -0,0 +1,8 @@
+-- Migration 0013: Record which image provider produced each result
+-- Providers fail over to each other (e.g. FACESWAP: wavespeed -> vertex), so the provider actually used
+-- is stored per result for quality and cost analysis. NULL for results created before this migration.
+-- Safe to fail if column exists (SQLite doesn't support IF NOT EXISTS for ALTER COLUMN)
+
+ALTER TABLE results ADD COLUMN provider TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_results_provider_created ON results(provider, created_at);
@@ -0,0 +1,42 @@
+-- Migration 0014: Batch face swap
+-- POST /faceswap/batch swaps one selfie set into many presets. Credits for the whole batch are reserved
+-- in one deduction; items that fail are refunded when the batch completes. Progress is polled via
+-- GET /faceswap/batch/:id (batch id = job id when the batch runs as an async job)
+
+-- ============================================================
+-- 1. faceswap_batches: one row per batch request
+-- ============================================================
+CREATE TABLE IF NOT EXISTS faceswap_batches (
+  id TEXT PRIMARY KEY,
+  profile_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK(status IN ('running', 'completed')),
+  item_count INTEGER NOT NULL,
+  succeeded_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  credits_charged INTEGER NOT NULL DEFAULT 0,
+  credits_from_sub INTEGER NOT NULL DEFAULT 0,
+  credits_from_consumable INTEGER NOT NULL DEFAULT 0,
+  credits_refunded INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  completed_at INTEGER,
+  FOREIGN KEY (profile_id) REFERENCES profiles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_faceswap_batches_status_created ON faceswap_batches(status, created_at);
+
+-- ============================================================
+-- 2. faceswap_batch_items: one row per preset in a batch
+-- ============================================================
+CREATE TABLE IF NOT EXISTS faceswap_batch_items (
+  batch_id TEXT NOT NULL,
+  item_index INTEGER NOT NULL,
+  preset_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'succeeded', 'failed')),
+  result_id TEXT,
+  result_url TEXT,
+  provider TEXT,
+  error_code INTEGER,
+  completed_at INTEGER,
+  PRIMARY KEY (batch_id, item_index),
+  FOREIGN KEY (batch_id) REFERENCES faceswap_batches(id) ON DELETE CASCADE
+);
@@ -0,0 +1,32 @@
+-- Migration 0015: Result webhooks
+-- AI endpoints POST a signed result.completed / result.failed event to callback_url (per request, or the
+-- profile's endpoint set via PUT /profiles/:id/webhook). Every delivery is logged; failed attempts are
+-- retried by the WEBHOOK_RETRY cron with backoff (WEBHOOK_CONFIG) until delivered or out of attempts.
+-- Safe to fail if column exists (SQLite doesn't support IF NOT EXISTS for ALTER COLUMN)
+
+-- ============================================================
+-- 1. Per-profile webhook endpoint
+-- ============================================================
+ALTER TABLE profiles ADD COLUMN callback_url TEXT;
+
+-- ============================================================
+-- 2. webhook_deliveries: one row per event sent to a callback URL
+-- ============================================================
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  profile_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  event TEXT NOT NULL,
+  payload TEXT NOT NULL, -- Exact JSON body that was signed (resent unchanged on retry)
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_status_code INTEGER,
+  last_error TEXT,
+  next_attempt_at INTEGER,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  delivered_at INTEGER,
+  FOREIGN KEY (profile_id) REFERENCES profiles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status_next ON webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_profile_created ON webhook_deliveries(profile_id, created_at);
@@ -0,0 +1,20 @@
+-- Migration 0016: Idempotency keys
+-- Clients send an Idempotency-Key header on AI and payment requests. The first request claims the key and
+-- its final response is stored; retries with the same key and body replay that response without charging
+-- credits or calling providers again. The same key with a different body is rejected with 422.
+-- Keys are scoped to the profile and expire after IDEMPOTENCY_CONFIG.TTL_SECONDS (deleted by scheduled())
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  profile_id TEXT NOT NULL,
+  idempotency_key TEXT NOT NULL,
+  request_hash TEXT NOT NULL, -- SHA-256 of method, path and validated body
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK(status IN ('in_progress', 'completed')),
+  response_status INTEGER,
+  response_body TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  expires_at INTEGER NOT NULL,
+  PRIMARY KEY (profile_id, idempotency_key),
+  FOREIGN KEY (profile_id) REFERENCES profiles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at);
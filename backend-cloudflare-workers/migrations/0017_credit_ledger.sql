@@ -0,0 +1,55 @@
+-- Migration 0017: Credit ledger
+-- Every change to sub_point_remaining / consumable_point_remaining is written as an immutable ledger entry in the
+-- same D1 batch as the profile update (ledger.ts applyCreditChange). Each entry stores the signed change per pool
+-- and the balances after it, so the profile counters always equal the sum of the profile's entries.
+-- Unlike audit_log, entries are never purged. The only permitted update is linking a deduction to the result it
+-- paid for (result_id, set once after the result is saved).
+
+-- ============================================================
+-- 1. credit_ledger
+-- ============================================================
+CREATE TABLE IF NOT EXISTS credit_ledger (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  profile_id TEXT NOT NULL,
+  entry_type TEXT NOT NULL CHECK(entry_type IN ('opening_balance', 'grant', 'deduct', 'refund', 'subscription_reset', 'expiry', 'adjustment')),
+  sub_delta INTEGER NOT NULL DEFAULT 0,
+  consumable_delta INTEGER NOT NULL DEFAULT 0,
+  sub_balance_after INTEGER NOT NULL,
+  consumable_balance_after INTEGER NOT NULL,
+  action TEXT,            -- Credit action for deduct/refund (faceswap, filter, ...)
+  note TEXT,
+  payment_id TEXT,
+  subscription_id TEXT,
+  result_id TEXT,
+  batch_id TEXT,
+  related_entry_id INTEGER, -- Refund -> the deduction it returns
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (profile_id) REFERENCES profiles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_profile_id ON credit_ledger(profile_id, id);
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_payment_id ON credit_ledger(payment_id);
+
+-- ============================================================
+-- 2. Immutability
+-- ============================================================
+CREATE TRIGGER IF NOT EXISTS credit_ledger_immutable
+BEFORE UPDATE OF id, profile_id, entry_type, sub_delta, consumable_delta, sub_balance_after, consumable_balance_after, action, note, payment_id, subscription_id, batch_id, related_entry_id, created_at ON credit_ledger
+BEGIN
+  SELECT RAISE(ABORT, 'credit_ledger entries are immutable');
+END;
+
+CREATE TRIGGER IF NOT EXISTS credit_ledger_result_link_once
+BEFORE UPDATE OF result_id ON credit_ledger
+WHEN OLD.result_id IS NOT NULL
+BEGIN
+  SELECT RAISE(ABORT, 'credit_ledger result_id is already set');
+END;
+
+-- ============================================================
+-- 3. Opening balances: existing counters become the first entry of each profile
+-- ============================================================
+INSERT INTO credit_ledger (profile_id, entry_type, sub_delta, consumable_delta, sub_balance_after, consumable_balance_after, note)
+SELECT id, 'opening_balance', sub_point_remaining, consumable_point_remaining, sub_point_remaining, consumable_point_remaining, 'Balance when the ledger was introduced'
+FROM profiles
+WHERE sub_point_remaining <> 0 OR consumable_point_remaining <> 0;
@@ -0,0 +1,30 @@
+-- Migration 0018: Credit holds
+-- AI endpoints hold credits before the provider call instead of deducting and refunding afterwards. Opening a
+-- hold writes the 'deduct' ledger entry, the profile update and the credit_holds row in one D1 batch; the hold is
+-- then captured when the result is saved or released (a 'refund' entry) when the request fails. Holds still
+-- held after expires_at (the worker died mid-request) are released by the CREDIT_HOLD_SWEEP cron.
+
+-- ============================================================
+-- 1. credit_holds
+-- ============================================================
+CREATE TABLE IF NOT EXISTS credit_holds (
+  id TEXT PRIMARY KEY,
+  profile_id TEXT NOT NULL,
+  action TEXT,
+  sub_amount INTEGER NOT NULL DEFAULT 0,
+  consumable_amount INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'held' CHECK(status IN ('held', 'captured', 'released')),
+  released_sub INTEGER NOT NULL DEFAULT 0,        -- Returned to the balance on settle (partial for batches)
+  released_consumable INTEGER NOT NULL DEFAULT 0,
+  ledger_entry_id INTEGER,                        -- The hold's 'deduct' entry in credit_ledger
+  batch_id TEXT,
+  result_id TEXT,
+  expires_at INTEGER NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  settled_at INTEGER,
+  FOREIGN KEY (profile_id) REFERENCES profiles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_holds_status_expires ON credit_holds(status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_credit_holds_profile_status ON credit_holds(profile_id, status);
+CREATE INDEX IF NOT EXISTS idx_credit_holds_batch_id ON credit_holds(batch_id);
@@ -0,0 +1,9 @@
+-- Migration 0019: Apple App Store purchases
+-- iOS purchases use the existing tables: payments.platform = 'ios' with order_id / purchase_token set to the
+-- App Store transactionId, and subscriptions keyed by the originalTransactionId in purchase_token.
+-- Safe to fail if column exists (SQLite doesn't support IF NOT EXISTS for ALTER COLUMN)
+
+-- ============================================================
+-- 1. Store a subscription was bought in
+-- ============================================================
+ALTER TABLE subscriptions ADD COLUMN platform TEXT NOT NULL DEFAULT 'android';
@@ -0,0 +1,44 @@
+-- Migration 0020: Promo codes
+-- Admins create codes worth a number of consumable credits; profiles redeem them with POST /api/promo/redeem.
+-- A redemption is written in the same D1 batch that counts it against max_redemptions and the per-profile limit,
+-- then granted through the credit ledger ('grant' entry). Reversing a redemption takes the credits back with an
+-- 'adjustment' entry pointing at the grant; reversed redemptions still count toward both limits.
+
+-- ============================================================
+-- 1. promo_codes
+-- ============================================================
+CREATE TABLE IF NOT EXISTS promo_codes (
+  code TEXT PRIMARY KEY,                         -- Stored uppercase
+  credits INTEGER NOT NULL CHECK(credits > 0),
+  max_redemptions INTEGER,                       -- NULL = unlimited
+  per_profile_limit INTEGER NOT NULL DEFAULT 1,
+  redemption_count INTEGER NOT NULL DEFAULT 0,
+  countries TEXT,                                -- JSON array of country codes and/or COUNTRY_TIER_MAP tier names; NULL = everywhere
+  starts_at INTEGER,
+  expires_at INTEGER,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  note TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+-- ============================================================
+-- 2. promo_redemptions
+-- ============================================================
+CREATE TABLE IF NOT EXISTS promo_redemptions (
+  id TEXT PRIMARY KEY,
+  code TEXT NOT NULL,
+  profile_id TEXT NOT NULL,
+  credits INTEGER NOT NULL,
+  country TEXT,
+  status TEXT NOT NULL DEFAULT 'granted' CHECK(status IN ('granted', 'reversed')),
+  ledger_entry_id INTEGER,                       -- The 'grant' entry in credit_ledger
+  reversed_at INTEGER,
+  reversal_reason TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (code) REFERENCES promo_codes(code),
+  FOREIGN KEY (profile_id) REFERENCES profiles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_code_profile ON promo_redemptions(code, profile_id);
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_profile_id ON promo_redemptions(profile_id);
@@ -0,0 +1,38 @@
+-- Migration 0021: Referral program
+-- Every profile gets a referral code (created on first GET /api/referrals). A new profile redeems one at
+-- POST /profiles (or shortly after with POST /api/referrals/redeem), which records a pending referral unless an
+-- anti-abuse check rejects it. The invitee's first paid deposit or subscription verification rewards both profiles
+-- with consumable credits, once.
+-- Safe to fail if column exists (SQLite doesn't support IF NOT EXISTS for ALTER COLUMN)
+
+-- ============================================================
+-- 1. profiles: referral code and the IP the profile was created from
+-- ============================================================
+ALTER TABLE profiles ADD COLUMN referral_code TEXT;
+ALTER TABLE profiles ADD COLUMN signup_ip TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_referral_code ON profiles(referral_code);
+
+-- ============================================================
+-- 2. referrals: one row per invitee
+-- ============================================================
+CREATE TABLE IF NOT EXISTS referrals (
+  id TEXT PRIMARY KEY,
+  inviter_profile_id TEXT NOT NULL,
+  invitee_profile_id TEXT NOT NULL,
+  code TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'rewarded', 'rejected')),
+  reject_reason TEXT,                            -- same_device, same_ip, device_reused, banned, inviter_limit
+  invitee_device_id TEXT,
+  invitee_ip TEXT,
+  inviter_credits INTEGER NOT NULL DEFAULT 0,    -- Set when rewarded
+  invitee_credits INTEGER NOT NULL DEFAULT 0,
+  payment_id TEXT,                               -- The qualifying purchase
+  subscription_id TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  rewarded_at INTEGER
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referrals_invitee ON referrals(invitee_profile_id);
+CREATE INDEX IF NOT EXISTS idx_referrals_inviter ON referrals(inviter_profile_id, status);
+CREATE INDEX IF NOT EXISTS idx_referrals_invitee_device ON referrals(invitee_device_id);
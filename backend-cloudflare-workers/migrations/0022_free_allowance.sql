@@ -0,0 +1,21 @@
+-- Migration 0022: Free daily allowance
+-- Profiles without a subscription get a few free runs per day of cheap actions (FREE_ALLOWANCE_CONFIG).
+-- One row per profile, action and day; the daily limit applies to a profile and to every profile on the
+-- same device together, so reinstalling the app (a new profile on the device) does not reset it.
+
+-- ============================================================
+-- 1. free_allowance_usage
+-- ============================================================
+CREATE TABLE IF NOT EXISTS free_allowance_usage (
+  profile_id TEXT NOT NULL,
+  device_id TEXT,
+  action TEXT NOT NULL,
+  usage_day TEXT NOT NULL,                       -- YYYY-MM-DD in UTC or the request's local time zone
+  used INTEGER NOT NULL DEFAULT 0,
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  PRIMARY KEY (profile_id, action, usage_day),
+  FOREIGN KEY (profile_id) REFERENCES profiles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_free_allowance_device ON free_allowance_usage(device_id, action, usage_day);
+CREATE INDEX IF NOT EXISTS idx_free_allowance_day ON free_allowance_usage(usage_day);
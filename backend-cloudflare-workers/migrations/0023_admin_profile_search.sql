@@ -0,0 +1,9 @@
+-- Migration 0023: Admin profile search
+-- GET /admin/profiles looks profiles up by device_id, user_id, email or phone; device_id and user_id are
+-- already indexed. Email is matched case-insensitively.
+
+-- ============================================================
+-- 1. profiles search indexes
+-- ============================================================
+CREATE INDEX IF NOT EXISTS idx_profiles_email ON profiles(email COLLATE NOCASE);
+CREATE INDEX IF NOT EXISTS idx_profiles_phone ON profiles(phone);
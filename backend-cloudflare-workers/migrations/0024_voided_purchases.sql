@@ -0,0 +1,31 @@
+-- Migration 0024: Google Play voided purchases
+-- An hourly cron reads refunds, chargebacks and revocations of one-time products from the Voided Purchases
+-- API, marks the matching payment REFUNDED and takes its credits back. Credits already spent cannot be taken
+-- back; they are added to profiles.credits_owed, which flags the profile.
+-- Safe to fail if column exists (SQLite doesn't support IF NOT EXISTS for ALTER COLUMN)
+
+-- ============================================================
+-- 1. profiles.credits_owed
+-- ============================================================
+ALTER TABLE profiles ADD COLUMN credits_owed INTEGER NOT NULL DEFAULT 0;
+
+-- ============================================================
+-- 2. voided_purchases
+-- ============================================================
+CREATE TABLE IF NOT EXISTS voided_purchases (
+  order_id TEXT PRIMARY KEY,
+  purchase_token TEXT NOT NULL,
+  payment_id TEXT,
+  profile_id TEXT,
+  status TEXT NOT NULL CHECK (status IN ('refunded', 'already_refunded', 'not_granted', 'unmatched')),
+  voided_source TEXT,
+  voided_reason TEXT,
+  credits_deducted INTEGER NOT NULL DEFAULT 0,
+  credits_unrecovered INTEGER NOT NULL DEFAULT 0,
+  voided_at INTEGER NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+-- The sync resumes from the newest voided_at
+CREATE INDEX IF NOT EXISTS idx_voided_purchases_voided_at ON voided_purchases(voided_at);
+CREATE INDEX IF NOT EXISTS idx_voided_purchases_profile_id ON voided_purchases(profile_id);
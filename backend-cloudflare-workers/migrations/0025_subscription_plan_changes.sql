@@ -0,0 +1,35 @@
+-- Migration 0025: Subscription plan changes
+-- Upgrades and downgrades between subscription SKUs keep the same subscriptions row: its sku and points_per_cycle
+-- change and the current cycle's sub points are prorated (SUBSCRIPTION_CHANGE_CONFIG). A change that comes with a
+-- new Google Play purchase token moves the row to the new token and keeps the old one in linked_purchase_token.
+-- Safe to fail if column exists (SQLite doesn't support IF NOT EXISTS for ALTER COLUMN)
+
+-- ============================================================
+-- 1. subscriptions.linked_purchase_token
+-- ============================================================
+ALTER TABLE subscriptions ADD COLUMN linked_purchase_token TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_linked_purchase_token ON subscriptions(linked_purchase_token);
+
+-- ============================================================
+-- 2. subscription_changes: plan change history
+-- ============================================================
+CREATE TABLE IF NOT EXISTS subscription_changes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  subscription_id TEXT NOT NULL,
+  profile_id TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('items_changed', 'linked_purchase', 'renewal')),
+  old_sku TEXT NOT NULL,
+  new_sku TEXT NOT NULL,
+  old_points_per_cycle INTEGER NOT NULL,
+  new_points_per_cycle INTEGER NOT NULL,
+  old_purchase_token TEXT NOT NULL,
+  new_purchase_token TEXT NOT NULL,
+  proration_mode TEXT NOT NULL,
+  sub_points_before INTEGER NOT NULL,
+  sub_points_after INTEGER NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_changes_subscription_id ON subscription_changes(subscription_id);
+CREATE INDEX IF NOT EXISTS idx_subscription_changes_profile_id ON subscription_changes(profile_id);
@@ -0,0 +1,22 @@
+-- Migration 0026: Cursor pagination of list endpoints
+-- /results, /selfies, /presets, /thumbnails and /profiles page newest first on (created_at, id) with optional
+-- profile_id and action filters. These indexes cover the filter plus the sort, so a page reads only its rows.
+
+-- ============================================================
+-- 1. results
+-- ============================================================
+CREATE INDEX IF NOT EXISTS idx_results_profile_created_id ON results(profile_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_results_profile_action_created_id ON results(profile_id, action, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_results_created_id ON results(created_at DESC, id DESC);
+
+-- ============================================================
+-- 2. selfies
+-- ============================================================
+CREATE INDEX IF NOT EXISTS idx_selfies_profile_created_id ON selfies(profile_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_selfies_profile_action_created_id ON selfies(profile_id, action, created_at DESC, id DESC);
+
+-- ============================================================
+-- 3. presets and profiles
+-- ============================================================
+CREATE INDEX IF NOT EXISTS idx_presets_created_id ON presets(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_profiles_created_id ON profiles(created_at DESC, id DESC);
@@ -0,0 +1,48 @@
+-- Migration 0027: Preset catalog
+-- Categories, sub-categories, gender, tags, display order, active/premium flags and localized titles of presets
+-- move from the R2 file name into D1, so GET /presets can filter and sort by them and admins can edit them without
+-- re-uploading files. /process-thumbnail-zip fills them from [type]_[sub_category]_[gender]_[position] names.
+-- Safe to fail if column exists (SQLite doesn't support IF NOT EXISTS for ALTER COLUMN)
+
+-- ============================================================
+-- 1. preset_categories: categories and their sub-categories (parent_id)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS preset_categories (
+  id TEXT PRIMARY KEY,
+  parent_id TEXT REFERENCES preset_categories(id),
+  titles TEXT,                           -- JSON: {"en": "Wedding", "vi": "Đám cưới"}
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_preset_categories_parent ON preset_categories(parent_id, sort_order);
+
+-- ============================================================
+-- 2. presets catalog columns
+-- ============================================================
+ALTER TABLE presets ADD COLUMN category_id TEXT;
+ALTER TABLE presets ADD COLUMN sub_category_id TEXT;
+ALTER TABLE presets ADD COLUMN gender TEXT CHECK (gender IN ('male', 'female', 'unisex'));
+ALTER TABLE presets ADD COLUMN position INTEGER;
+ALTER TABLE presets ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE presets ADD COLUMN is_active INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE presets ADD COLUMN is_premium INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE presets ADD COLUMN titles TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_presets_category_sort ON presets(category_id, sort_order, id);
+CREATE INDEX IF NOT EXISTS idx_presets_sub_category_sort ON presets(sub_category_id, sort_order, id);
+CREATE INDEX IF NOT EXISTS idx_presets_gender ON presets(gender);
+CREATE INDEX IF NOT EXISTS idx_presets_sort_id ON presets(sort_order, id);
+
+-- ============================================================
+-- 3. preset_tags
+-- ============================================================
+CREATE TABLE IF NOT EXISTS preset_tags (
+  preset_id TEXT NOT NULL,
+  tag TEXT NOT NULL,
+  PRIMARY KEY (preset_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_preset_tags_tag ON preset_tags(tag);
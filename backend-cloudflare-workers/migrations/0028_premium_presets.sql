@@ -0,0 +1,14 @@
+-- Migration 0028: Premium presets
+-- Per-preset entitlement and pricing: is_premium presets (0027) need an ACTIVE subscription, and credit_surcharge is
+-- added to the action's credit cost whenever the preset is used (/faceswap, /faceswap/batch, /background, /hair-style).
+-- Safe to fail if column exists (SQLite doesn't support IF NOT EXISTS for ALTER COLUMN)
+
+-- ============================================================
+-- 1. presets.credit_surcharge: extra credits per run
+-- ============================================================
+ALTER TABLE presets ADD COLUMN credit_surcharge INTEGER NOT NULL DEFAULT 0 CHECK (credit_surcharge >= 0);
+
+-- ============================================================
+-- 2. faceswap_batch_items.credits: what the item was charged (surcharges differ per preset)
+-- ============================================================
+ALTER TABLE faceswap_batch_items ADD COLUMN credits INTEGER;
@@ -0,0 +1,47 @@
+-- Migration 0029: Preset usage analytics
+-- Results record the preset, provider and model that produced them. Every preset run (succeeded, failed or blocked
+-- by a safety filter) is logged in preset_usage_events; scheduled() rolls the events up per day into
+-- preset_usage_daily, which GET /presets/trending and GET /admin/presets/usage read.
+-- Safe to fail if column exists (SQLite doesn't support IF NOT EXISTS for ALTER COLUMN)
+
+-- ============================================================
+-- 1. results: preset and model of each result
+-- ============================================================
+ALTER TABLE results ADD COLUMN preset_id TEXT;
+ALTER TABLE results ADD COLUMN model TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_results_preset ON results(preset_id);
+
+-- ============================================================
+-- 2. preset_usage_events: one row per preset run (kept PRESET_ANALYTICS_CONFIG.EVENT_RETENTION_DAYS)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS preset_usage_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  preset_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  profile_id TEXT,
+  provider TEXT,
+  model TEXT,
+  outcome TEXT NOT NULL CHECK (outcome IN ('succeeded', 'failed', 'safety_blocked')),
+  created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_preset_usage_events_created ON preset_usage_events(created_at);
+CREATE INDEX IF NOT EXISTS idx_preset_usage_events_profile ON preset_usage_events(profile_id);
+
+-- ============================================================
+-- 3. preset_usage_daily: per-preset totals of each UTC day
+-- ============================================================
+CREATE TABLE IF NOT EXISTS preset_usage_daily (
+  day TEXT NOT NULL,                     -- YYYY-MM-DD (UTC)
+  preset_id TEXT NOT NULL,
+  uses INTEGER NOT NULL DEFAULT 0,
+  succeeded INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  safety_blocked INTEGER NOT NULL DEFAULT 0,
+  profiles INTEGER NOT NULL DEFAULT 0,   -- Distinct profiles that used the preset that day
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  PRIMARY KEY (day, preset_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_preset_usage_daily_preset ON preset_usage_daily(preset_id, day);
@@ -0,0 +1,22 @@
+-- Migration 0030: Selfie quality analysis
+-- POST /upload-url analyzes selfies of the face actions (SELFIE_QUALITY_CONFIG): rejected selfies are never stored,
+-- accepted ones keep what was measured and the warnings returned to the app.
+-- Safe to fail if column exists (SQLite doesn't support IF NOT EXISTS for ALTER COLUMN)
+
+-- ============================================================
+-- 1. Faces: count and largest face ({"x","y","width","height"} in pixels, JSON); NULL when not analyzed
+-- ============================================================
+ALTER TABLE selfies ADD COLUMN face_count INTEGER;
+ALTER TABLE selfies ADD COLUMN face_box TEXT;
+
+-- ============================================================
+-- 2. Image: blur estimate (0 = sharp, 1 = very blurred) and decoded size
+-- ============================================================
+ALTER TABLE selfies ADD COLUMN blur REAL;
+ALTER TABLE selfies ADD COLUMN width INTEGER;
+ALTER TABLE selfies ADD COLUMN height INTEGER;
+
+-- ============================================================
+-- 3. Warnings returned on upload (JSON array of SELFIE_QUALITY_CODES)
+-- ============================================================
+ALTER TABLE selfies ADD COLUMN quality_warnings TEXT;
@@ -0,0 +1,11 @@
+-- Migration 0031: Request context of async jobs
+-- The internal job request is rebuilt from the jobs row, so the client's country (credit pricing tier),
+-- IP (audit log) and time zone (free allowance day) are stored when the job is created and forwarded on run.
+-- Safe to fail if column exists (SQLite doesn't support IF NOT EXISTS for ALTER COLUMN)
+
+-- ============================================================
+-- 1. jobs: CF-IPCountry, cf-connecting-ip and cf.timezone of the original request (NULL when absent)
+-- ============================================================
+ALTER TABLE jobs ADD COLUMN country TEXT;
+ALTER TABLE jobs ADD COLUMN ip_address TEXT;
+ALTER TABLE jobs ADD COLUMN timezone TEXT;
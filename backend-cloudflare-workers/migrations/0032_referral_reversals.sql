@@ -0,0 +1,44 @@
+-- Migration 0032: Referral reversals
+-- When the purchase that rewarded a referral is refunded, voided or charged back, both rewards are taken back
+-- (clamped at 0) and the referral becomes 'reversed'. SQLite cannot ALTER a CHECK constraint, so the table is
+-- recreated with the new status and the reversal columns.
+
+-- ============================================================
+-- 1. referrals: 'reversed' status, reversed_at and reversal_reason
+-- ============================================================
+CREATE TABLE IF NOT EXISTS referrals_new (
+  id TEXT PRIMARY KEY,
+  inviter_profile_id TEXT NOT NULL,
+  invitee_profile_id TEXT NOT NULL,
+  code TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'rewarded', 'rejected', 'reversed')),
+  reject_reason TEXT,                            -- same_device, same_ip, device_reused, banned, inviter_limit
+  invitee_device_id TEXT,
+  invitee_ip TEXT,
+  inviter_credits INTEGER NOT NULL DEFAULT 0,    -- Set when rewarded
+  invitee_credits INTEGER NOT NULL DEFAULT 0,
+  payment_id TEXT,                               -- The qualifying purchase
+  subscription_id TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  rewarded_at INTEGER,
+  reversed_at INTEGER,
+  reversal_reason TEXT                           -- refunded, voided, revoked
+);
+
+INSERT INTO referrals_new (id, inviter_profile_id, invitee_profile_id, code, status, reject_reason, invitee_device_id, invitee_ip,
+                           inviter_credits, invitee_credits, payment_id, subscription_id, created_at, rewarded_at)
+SELECT id, inviter_profile_id, invitee_profile_id, code, status, reject_reason, invitee_device_id, invitee_ip,
+       inviter_credits, invitee_credits, payment_id, subscription_id, created_at, rewarded_at
+FROM referrals;
+DROP TABLE referrals;
+ALTER TABLE referrals_new RENAME TO referrals;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referrals_invitee ON referrals(invitee_profile_id);
+CREATE INDEX IF NOT EXISTS idx_referrals_inviter ON referrals(inviter_profile_id, status);
+CREATE INDEX IF NOT EXISTS idx_referrals_invitee_device ON referrals(invitee_device_id);
+
+-- ============================================================
+-- 2. Lookup of the referral rewarded by a refunded purchase
+-- ============================================================
+CREATE INDEX IF NOT EXISTS idx_referrals_payment ON referrals(payment_id);
+CREATE INDEX IF NOT EXISTS idx_referrals_subscription ON referrals(subscription_id);
@@ -0,0 +1,403 @@
+// backend-cloudflare-workers/openapi.ts
+// OpenAPI 3.1 document generated from the route table (router.ts) and body schemas (validators.ts)
+import type { RouteDefinition } from './router';
+import type { FieldSchema, ObjectSchema } from './validators';
+import { PROFILE_RESPONSE_SCHEMA, PRODUCT_RESPONSE_SCHEMA, BALANCE_RESPONSE_SCHEMA, CREDIT_POOLS_RESPONSE_SCHEMA } from './validators';
+import { SAFETY_STATUS_CODES, VERTEX_SAFETY_STATUS_CODES, CREDIT_REASON_CODES } from './utils';
+import { IDEMPOTENCY_CONFIG, CREDIT_LEDGER_CONFIG } from './config';
+
+type JsonSchema = Record<string, any>;
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+// One `const` entry per code so clients can generate named constants
+const codeList = (codes: Record<string, number>): JsonSchema[] =>
+  Object.entries(codes).map(([title, code]) => ({ const: code, title }));
+
+// ============================================================
+// Schema conversion
+// ============================================================
+
+const fieldToJsonSchema = (field: FieldSchema): JsonSchema => {
+  let schema: JsonSchema;
+  switch (field.type) {
+    case 'scalar':
+      schema = { type: ['string', 'number'] };
+      break;
+    case 'any':
+      schema = {};
+      break;
+    case 'array':
+      schema = { type: 'array', ...(field.items ? { items: fieldToJsonSchema(field.items) } : {}) };
+      if (field.minItems !== undefined) schema.minItems = field.minItems;
+      if (field.maxItems !== undefined) schema.maxItems = field.maxItems;
+      break;
+    case 'object':
+      schema = field.fields ? fieldsToJsonSchema(field.fields) : { type: 'object' };
+      if (field.values) schema.additionalProperties = fieldToJsonSchema(field.values);
+      break;
+    default:
+      schema = { type: field.type };
+  }
+  if (field.enum) schema.enum = [...field.enum];
+  if (field.format === 'url') schema.format = 'uri';
+  if (field.format === 'https_url') Object.assign(schema, { format: 'uri', pattern: '^https://' });
+  if (field.format === 'date-time') schema.format = 'date-time';
+  if (field.description) schema.description = field.description;
+  if (field.min !== undefined) schema.minimum = field.min;
+  if (field.max !== undefined) schema.maximum = field.max;
+  return schema;
+};
+
+const fieldsToJsonSchema = (fields: Record<string, FieldSchema>): JsonSchema => {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [name, field] of Object.entries(fields)) {
+    properties[name] = fieldToJsonSchema(field);
+    if (field.required) required.push(name);
+  }
+  return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+};
+
+// Alternative groups are described in text: aliases and "empty string = not provided" do not map onto oneOf
+const objectToJsonSchema = (schema: ObjectSchema): JsonSchema => {
+  const result = fieldsToJsonSchema(schema.fields);
+  const aliasesOf = (field: string) => Object.entries(schema.aliases || {}).filter(([, target]) => target === field).map(([alias]) => alias);
+  const describeGroup = (group: string[]) => group.map((field) => {
+    const aliases = aliasesOf(field);
+    return aliases.length > 0 ? `${field} (alias: ${aliases.join(', ')})` : field;
+  }).join(', ');
+
+  for (const [alias, target] of Object.entries(schema.aliases || {})) {
+    if (result.properties[alias]) result.properties[alias].description = `Alias for ${target}`;
+  }
+
+  const rules = [
+    ...(schema.exactlyOne || []).map((group) => `Exactly one of: ${describeGroup(group)}.`),
+    ...(schema.atLeastOne || []).map((group) => `At least one of: ${describeGroup(group)}.`),
+    ...(schema.atMostOne || []).map((group) => `At most one of: ${describeGroup(group)}.`),
+  ];
+  if (rules.length > 0) result.description = rules.join(' ');
+  return result;
+};
+
+// ============================================================
+// Shared components
+// ============================================================
+
+const COMPONENT_SCHEMAS: Record<string, JsonSchema> = {
+  SuccessEnvelope: {
+    type: 'object',
+    required: ['data', 'status', 'code'],
+    properties: {
+      data: {},
+      status: { const: 'success' },
+      message: { type: 'string' },
+      code: { type: 'integer' },
+      pagination: { ...ref('ListPagination'), description: 'Paged list endpoints only' },
+    },
+  },
+  ListPagination: {
+    type: 'object',
+    properties: {
+      next_cursor: { type: ['string', 'null'], description: 'Pass as ?cursor= to fetch the next (older) page; null on the last page' },
+      limit: { type: ['integer', 'null'], description: 'null: the whole list was returned' },
+      total: { type: ['integer', 'null'], description: 'Rows matching the filters; null where counting is not cheap' },
+    },
+  },
+  ErrorEnvelope: {
+    type: 'object',
+    required: ['data', 'status', 'message', 'code'],
+    properties: {
+      data: { type: 'null' },
+      status: { const: 'error' },
+      message: { type: 'string', description: "400/500 messages are replaced by 'Bad Request'/'Internal Server Error' unless ENABLE_DEBUG_RESPONSE=true" },
+      code: { type: 'integer' },
+      debug: { type: 'object', description: 'Only present when ENABLE_DEBUG_RESPONSE=true' },
+    },
+  },
+  FieldError: {
+    type: 'object',
+    required: ['field', 'code', 'message'],
+    properties: {
+      field: { type: 'string', description: 'Body field, e.g. "selfie_id", "parts[0].etag" or "selfie_id|selfie_image_url" for a group' },
+      code: {
+        type: 'string',
+        enum: ['invalid_body', 'required', 'invalid_type', 'invalid_value', 'invalid_url', 'out_of_range', 'too_few_items', 'too_many_items', 'missing_alternative', 'mutually_exclusive'],
+      },
+      message: { type: 'string', description: 'English fallback' },
+    },
+  },
+  ValidationError: {
+    allOf: [ref('ErrorEnvelope'), { type: 'object', required: ['errors'], properties: { errors: { type: 'array', items: ref('FieldError') } } }],
+  },
+  CreditError: {
+    allOf: [ref('ErrorEnvelope'), {
+      type: 'object',
+      required: ['reason'],
+      properties: { code: { const: 402 }, reason: { oneOf: codeList(CREDIT_REASON_CODES) } },
+    }],
+  },
+  SafetyError: {
+    allOf: [ref('ErrorEnvelope'), {
+      type: 'object',
+      properties: {
+        code: {
+          description: '1001-1005: Google Vision SafeSearch (SAFETY_STATUS_CODES). 2001-2004, 3000, 3001: Vertex AI safety filters (VERTEX_SAFETY_STATUS_CODES).',
+          oneOf: [...codeList(SAFETY_STATUS_CODES), ...codeList(VERTEX_SAFETY_STATUS_CODES)],
+        },
+      },
+    }],
+  },
+  JobAccepted: {
+    type: 'object',
+    required: ['job_id', 'status', 'action'],
+    properties: { job_id: { type: 'string' }, status: { const: 'queued' }, action: { type: 'string' } },
+  },
+  Job: {
+    type: 'object',
+    properties: {
+      job_id: { type: 'string' },
+      profile_id: { type: 'string' },
+      action: { type: 'string' },
+      status: { type: 'string', enum: ['queued', 'running', 'succeeded', 'failed'] },
+      result: { oneOf: [ref('AiResult'), { type: 'null' }] },
+      error: {
+        oneOf: [{
+          type: 'object',
+          properties: { code: { type: ['integer', 'null'] }, message: { type: 'string' }, reason: { oneOf: codeList(CREDIT_REASON_CODES) } },
+        }, { type: 'null' }],
+      },
+      created_at: { type: ['string', 'null'], format: 'date-time' },
+      started_at: { type: ['string', 'null'], format: 'date-time' },
+      completed_at: { type: ['string', 'null'], format: 'date-time' },
+    },
+  },
+  AiResult: {
+    type: 'object',
+    required: ['id', 'resultImageUrl'],
+    properties: { id: { type: 'string' }, resultImageUrl: { type: 'string', format: 'uri' } },
+    additionalProperties: true,
+  },
+  FaceSwapBatch: {
+    type: 'object',
+    properties: {
+      batch_id: { type: 'string', description: 'Same as job_id when submitted with "async": true' },
+      profile_id: { type: 'string' },
+      status: { type: 'string', enum: ['queued', 'running', 'completed'] },
+      item_count: { type: 'integer' },
+      succeeded_count: { type: 'integer' },
+      failed_count: { type: 'integer' },
+      credits_charged: { type: 'integer' },
+      credits_refunded: { type: 'integer', description: 'Credits returned for failed items once the batch completes' },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            index: { type: 'integer' },
+            preset_id: { type: 'string' },
+            status: { type: 'string', enum: ['pending', 'succeeded', 'failed'] },
+            id: { type: ['string', 'null'] },
+            resultImageUrl: { type: ['string', 'null'], format: 'uri' },
+            error: { oneOf: [{ type: 'object', properties: { code: { type: ['integer', 'null'] } } }, { type: 'null' }] },
+          },
+        },
+      },
+      created_at: { type: ['string', 'null'], format: 'date-time' },
+      completed_at: { type: ['string', 'null'], format: 'date-time' },
+    },
+  },
+  WebhookSettings: {
+    type: 'object',
+    properties: {
+      profile_id: { type: 'string' },
+      callback_url: { type: ['string', 'null'], format: 'uri' },
+      secret: {
+        type: ['string', 'null'],
+        description: 'Verify X-Webhook-Signature "t=<ts>,v1=<hex>" as HMAC-SHA256(secret, "<ts>.<raw body>"); null when signing is not configured',
+      },
+      deliveries: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Also sent as X-Webhook-Id; retries reuse it' },
+            url: { type: 'string', format: 'uri' },
+            event: { type: 'string', enum: ['result.completed', 'result.failed'] },
+            status: { type: 'string', enum: ['pending', 'delivered', 'failed'] },
+            attempts: { type: 'integer' },
+            last_status_code: { type: ['integer', 'null'] },
+            last_error: { type: ['string', 'null'] },
+            next_attempt_at: { type: ['string', 'null'], format: 'date-time' },
+            created_at: { type: ['string', 'null'], format: 'date-time' },
+            delivered_at: { type: ['string', 'null'], format: 'date-time' },
+          },
+        },
+      },
+    },
+  },
+  // Data models (response schemas in validators.ts)
+  Profile: objectToJsonSchema(PROFILE_RESPONSE_SCHEMA),
+  Product: objectToJsonSchema(PRODUCT_RESPONSE_SCHEMA),
+  BalanceResponse: objectToJsonSchema(BALANCE_RESPONSE_SCHEMA),
+  CreditPools: objectToJsonSchema(CREDIT_POOLS_RESPONSE_SCHEMA),
+  CreditLedger: {
+    type: 'object',
+    properties: {
+      profile_id: { type: 'string' },
+      balance: ref('CreditPools'),
+      ledger_balance: { ...ref('CreditPools'), description: 'Sum of all ledger entries' },
+      reconciled: { type: 'boolean', description: 'Whether balance equals ledger_balance' },
+      entries: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            type: { type: 'string', enum: CREDIT_LEDGER_CONFIG.ENTRY_TYPES },
+            sub_delta: { type: 'integer' },
+            consumable_delta: { type: 'integer' },
+            sub_balance_after: { type: 'integer' },
+            consumable_balance_after: { type: 'integer' },
+            action: { type: ['string', 'null'] },
+            note: { type: ['string', 'null'] },
+            payment_id: { type: ['string', 'null'] },
+            subscription_id: { type: ['string', 'null'] },
+            result_id: { type: ['string', 'null'] },
+            batch_id: { type: ['string', 'null'] },
+            related_entry_id: { type: ['integer', 'null'], description: 'For refunds, the deduction being returned' },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+      },
+      next_before: { type: ['integer', 'null'], description: 'Pass as ?before= to fetch older entries' },
+    },
+  },
+};
+
+const SECURITY_SCHEMES: Record<string, JsonSchema> = {
+  ApiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'MOBILE_API_KEY (enforced when ENABLE_MOBILE_API_KEY_AUTH=true)' },
+  BearerApiKey: { type: 'http', scheme: 'bearer', description: 'MOBILE_API_KEY sent as a bearer token' },
+  AdminKey: { type: 'apiKey', in: 'header', name: 'X-Admin-Key', description: 'ADMIN_API_KEY (admin routes; also accepted as a bearer token)' },
+  ProfileToken: { type: 'apiKey', in: 'header', name: 'X-Profile-Token', description: 'Token bound to the profile_id of the request' },
+};
+
+const errorContent = (schema: string) => ({ 'application/json': { schema: ref(schema) } });
+
+// ============================================================
+// Operations
+// ============================================================
+
+// '/presets/:id' -> '/presets/{id}', '/r2-upload/*key' -> '/r2-upload/{key}'
+const toOpenApiPath = (path: string): { path: string; params: string[] } => {
+  const params: string[] = [];
+  const converted = path.split('/').map((segment) => {
+    if (segment.startsWith(':') || segment.startsWith('*')) {
+      params.push(segment.slice(1));
+      return `{${segment.slice(1)}}`;
+    }
+    return segment;
+  }).join('/');
+  return { path: converted, params };
+};
+
+const operationId = (route: RouteDefinition): string => {
+  const words = route.path.split('/').filter(Boolean).map((segment) => segment.replace(/^[:*]/, 'by_')).join('_');
+  return `${route.method.toLowerCase()}_${words}`.replace(/[^a-zA-Z0-9_]/g, '_');
+};
+
+const buildOperation = (route: RouteDefinition, pathParams: string[]): JsonSchema => {
+  const parameters: JsonSchema[] = [
+    ...pathParams.map((name) => ({ name, in: 'path', required: true, schema: { type: 'string' } })),
+    ...Object.entries(route.query || {}).map(([name, field]) => ({
+      name,
+      in: 'query',
+      ...(field.required ? { required: true } : {}),
+      schema: fieldToJsonSchema(field),
+    })),
+  ];
+  if (route.idempotent) {
+    parameters.push({
+      name: IDEMPOTENCY_CONFIG.HEADER,
+      in: 'header',
+      description: `Retries with the same key and body within ${IDEMPOTENCY_CONFIG.TTL_SECONDS / 3600}h replay the first response (Idempotent-Replayed: true) without running or charging again`,
+      schema: { type: 'string', maxLength: IDEMPOTENCY_CONFIG.MAX_KEY_LENGTH },
+    });
+  }
+
+  const security: Record<string, string[]>[] = [];
+  if (route.auth?.admin) {
+    security.push({ AdminKey: [] });
+  } else if (route.auth?.apiKey) {
+    security.push(route.auth.profileToken ? { ApiKey: [], ProfileToken: [] } : { ApiKey: [] });
+    security.push(route.auth.profileToken ? { BearerApiKey: [], ProfileToken: [] } : { BearerApiKey: [] });
+  } else if (route.auth?.profileToken) {
+    security.push({ ProfileToken: [] });
+  }
+
+  const successSchema = route.response
+    ? { allOf: [ref('SuccessEnvelope'), { type: 'object', properties: { data: ref(route.response) } }] }
+    : ref('SuccessEnvelope');
+
+  const responses: Record<string, JsonSchema> = {
+    '200': { description: 'Success', content: { 'application/json': { schema: successSchema } } },
+    '400': { description: route.bodySchema ? 'Invalid request body' : 'Bad request', content: errorContent(route.bodySchema ? 'ValidationError' : 'ErrorEnvelope') },
+  };
+  if (route.asyncJob) {
+    responses['202'] = {
+      description: 'Job queued ("async": true); poll GET /jobs/{id}',
+      content: { 'application/json': { schema: { allOf: [ref('SuccessEnvelope'), { type: 'object', properties: { data: ref('JobAccepted') } }] } } },
+    };
+  }
+  if (route.auth || route.creditAction) {
+    responses['401'] = { description: 'Invalid API key or profile token', content: errorContent('ErrorEnvelope') };
+  }
+  if (route.creditAction) {
+    responses['402'] = { description: 'Credit check failed (see `reason`)', content: errorContent('CreditError') };
+    responses['422'] = { description: 'Safety violation (see `code`)', content: errorContent('SafetyError') };
+  }
+  if (route.idempotent) {
+    responses['409'] = { description: 'A request with the same Idempotency-Key is still in progress', content: errorContent('ErrorEnvelope') };
+    responses['422'] = route.creditAction
+      ? { description: 'Safety violation (see `code`), or Idempotency-Key reused with a different request', content: errorContent('SafetyError') }
+      : { description: 'Idempotency-Key reused with a different request', content: errorContent('ErrorEnvelope') };
+  }
+  if (route.maxBodyBytes !== null && (route.method === 'POST' || route.method === 'PUT')) {
+    responses['413'] = { description: 'Request too large', content: errorContent('ErrorEnvelope') };
+  }
+  responses['429'] = { description: 'Rate limit exceeded', content: errorContent('ErrorEnvelope') };
+  responses['500'] = { description: 'Internal server error', content: errorContent('ErrorEnvelope') };
+
+  return {
+    operationId: operationId(route),
+    ...(route.summary ? { summary: route.summary } : {}),
+    tags: [route.path.split('/').filter(Boolean).find((segment) => segment !== 'api') || 'root'],
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(route.bodySchema ? { requestBody: { required: true, content: { 'application/json': { schema: objectToJsonSchema(route.bodySchema) } } } } : {}),
+    ...(security.length > 0 ? { security } : {}),
+    ...(route.creditAction ? { 'x-credit-action': route.creditAction } : {}),
+    responses,
+  };
+};
+
+export const buildOpenApiDocument = (routes: RouteDefinition[], serverUrl: string): JsonSchema => {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const route of routes) {
+    const { path, params } = toOpenApiPath(route.path);
+    paths[path] = paths[path] || {};
+    paths[path][route.method.toLowerCase()] = buildOperation(route, params);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'AI Face Swap API',
+      version: '1.0.0',
+      description: 'Generated from the worker route table. Every response uses the { data, status, message, code } envelope.',
+    },
+    servers: [{ url: serverUrl }],
+    paths,
+    components: { schemas: COMPONENT_SCHEMAS, securitySchemes: SECURITY_SCHEMES },
+  };
+};
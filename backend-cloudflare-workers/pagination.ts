@@ -0,0 +1,130 @@
+// backend-cloudflare-workers/pagination.ts
+// Keyset pagination of the public list endpoints: rows ordered by (created_at, id) newest first (or another integer
+// column, see ListOrder), an opaque cursor pointing after the last row of a page, and the optional created_at range
+// filter (?from=, ?to=)
+import { LIST_PAGINATION_CONFIG } from './config';
+
+export interface ListCursor {
+  key: number;                   // Value of the order column in the last row of the previous page
+  id: string;
+}
+
+export interface ListOrder {
+  column: string;                // Integer column, with id as the tie-breaker
+  direction: 'ASC' | 'DESC';
+}
+
+const NEWEST_FIRST: ListOrder = { column: 'created_at', direction: 'DESC' };
+
+export interface ListQuery {
+  limit: number | null;          // null: no limit (endpoints that returned everything before paging existed)
+  cursor: ListCursor | null;
+  from: number | null;           // created_at >= from (unix seconds)
+  to: number | null;             // created_at <= to
+}
+
+export interface ListPagination {
+  next_cursor: string | null;
+  limit: number | null;
+  total: number | null;          // Only where counting is cheap (filtered by an indexed column or a small table)
+}
+
+const toBase64Url = (text: string): string =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string): string =>
+  new TextDecoder().decode(Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (char) => char.charCodeAt(0)));
+
+export const encodeListCursor = (key: number, id: string): string => toBase64Url(JSON.stringify([key, String(id)]));
+
+export const decodeListCursor = (value: string): ListCursor | null => {
+  try {
+    const decoded = JSON.parse(fromBase64Url(value));
+    if (!Array.isArray(decoded) || decoded.length !== 2) return null;
+    const [key, id] = decoded;
+    if (!Number.isInteger(key) || typeof id !== 'string') return null;
+    return { key, id };
+  } catch {
+    return null;
+  }
+};
+
+// Unix seconds or an ISO 8601 date
+const parseListDate = (value: string): number | null => {
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  const time = Date.parse(value);
+  return isNaN(time) ? null : Math.floor(time / 1000);
+};
+
+// An invalid or out-of-range limit falls back to the default, as it always has. Returns an error message for an
+// invalid cursor or date.
+export const parseListQuery = (
+  params: URLSearchParams, defaultLimit: number | null = LIST_PAGINATION_CONFIG.DEFAULT_LIMIT
+): ListQuery | { error: string } => {
+  const rawCursor = params.get('cursor');
+  const cursor = rawCursor ? decodeListCursor(rawCursor) : null;
+  if (rawCursor && !cursor) return { error: 'Invalid cursor' };
+
+  const dates: Record<'from' | 'to', number | null> = { from: null, to: null };
+  for (const key of ['from', 'to'] as const) {
+    const raw = params.get(key)?.trim();
+    if (!raw) continue;
+    dates[key] = parseListDate(raw);
+    if (dates[key] === null) return { error: `Invalid ${key}: expected unix seconds or an ISO 8601 date` };
+  }
+
+  const parsedLimit = parseInt(params.get('limit') || '', 10);
+  const validLimit = !isNaN(parsedLimit) && parsedLimit > 0 && parsedLimit <= LIST_PAGINATION_CONFIG.MAX_LIMIT;
+  // A cursor always pages: endpoints without a default limit use the standard one from the second page on
+  const limit = validLimit ? parsedLimit : (defaultLimit ?? (rawCursor ? LIST_PAGINATION_CONFIG.DEFAULT_LIMIT : null));
+  return { limit, cursor, ...dates };
+};
+
+// WHERE clause of a page: the endpoint's own filters, the date range and the cursor. count is the same clause
+// without the cursor, for the total.
+export const buildListWhere = (
+  query: ListQuery, filters: string[], filterBindings: unknown[], order: ListOrder = NEWEST_FIRST
+): { where: string; bindings: unknown[]; count: { where: string; bindings: unknown[] } } => {
+  const conditions = [...filters];
+  const bindings = [...filterBindings];
+  if (query.from !== null) {
+    conditions.push('created_at >= ?');
+    bindings.push(query.from);
+  }
+  if (query.to !== null) {
+    conditions.push('created_at <= ?');
+    bindings.push(query.to);
+  }
+  const toWhere = (list: string[]) => (list.length > 0 ? `WHERE ${list.join(' AND ')}` : '');
+  const count = { where: toWhere(conditions), bindings: [...bindings] };
+  if (query.cursor) {
+    const after = order.direction === 'DESC' ? '<' : '>';
+    conditions.push(`(${order.column} ${after} ? OR (${order.column} = ? AND id ${after} ?))`);
+    bindings.push(query.cursor.key, query.cursor.key, query.cursor.id);
+  }
+  return { where: toWhere(conditions), bindings, count };
+};
+
+export const countListRows = async (
+  db: D1Database, table: string, count: { where: string; bindings: unknown[] }
+): Promise<number> => {
+  const row = await db.prepare(`SELECT COUNT(*) AS total FROM ${table} ${count.where}`).bind(...count.bindings).first() as { total: number } | null;
+  return row?.total || 0;
+};
+
+// ORDER BY and LIMIT of a page: one row more than the limit tells whether there is a next page
+export const listOrderAndLimit = (query: ListQuery, order: ListOrder = NEWEST_FIRST): string =>
+  `ORDER BY ${order.column} ${order.direction}, id ${order.direction}${query.limit !== null ? ` LIMIT ${query.limit + 1}` : ''}`;
+
+// Drops the extra row fetched by listOrderAndLimit and builds the pagination block of the response
+export const paginateRows = <T extends { id: string }>(
+  rows: T[], query: ListQuery, total: number | null = null, order: ListOrder = NEWEST_FIRST
+): { rows: T[]; pagination: ListPagination } => {
+  const hasMore = query.limit !== null && rows.length > query.limit;
+  const page = hasMore ? rows.slice(0, query.limit!) : rows;
+  const last = page[page.length - 1] as Record<string, any>;
+  return {
+    rows: page,
+    pagination: { next_cursor: hasMore ? encodeListCursor(last[order.column], last.id) : null, limit: query.limit, total },
+  };
+};
@@ -0,0 +1,135 @@
+// backend-cloudflare-workers/promo.ts
+// Promo codes: redemption (counted against the code's limits in one D1 batch, then granted through the ledger)
+// and reversal of a redemption
+import { customAlphabet } from 'nanoid';
+import type { Env, PromoCode, PromoRedemption } from './types';
+import { applyCreditChange } from './ledger';
+import { getCountryTierName } from './utils';
+
+const nanoid = customAlphabet('ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789_', 21);
+
+export type PromoRedeemOutcome =
+  | { kind: 'granted'; redemption: PromoRedemption }
+  | { kind: 'not_found' }                 // Unknown or deactivated code
+  | { kind: 'not_started' }
+  | { kind: 'expired' }
+  | { kind: 'country_not_allowed' }
+  | { kind: 'exhausted' }                 // max_redemptions reached
+  | { kind: 'limit_reached' }             // per_profile_limit reached
+  | { kind: 'profile_not_found' };
+
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+// countries lists country codes and/or COUNTRY_TIER_MAP tier names; a missing country never matches a restriction
+export const isPromoCountryAllowed = (promo: Pick<PromoCode, 'countries'>, country: string, env: Env): boolean => {
+  if (!promo.countries) return true;
+  let allowed: string[];
+  try {
+    allowed = (JSON.parse(promo.countries) as string[]).map((entry) => String(entry).toUpperCase());
+  } catch {
+    return false;
+  }
+  if (allowed.length === 0) return true;
+  if (!country) return false;
+  const tier = getCountryTierName(country, env);
+  return allowed.includes(country.toUpperCase()) || (!!tier && allowed.includes(tier.toUpperCase()));
+};
+
+export const redeemPromoCode = async (
+  db: D1Database, env: Env, rawCode: string, profileId: string, country: string
+): Promise<PromoRedeemOutcome> => {
+  const code = normalizePromoCode(rawCode);
+  const promo = await db.prepare('SELECT * FROM promo_codes WHERE code = ? AND is_active = 1').bind(code).first() as PromoCode | null;
+  if (!promo) return { kind: 'not_found' };
+
+  const now = Math.floor(Date.now() / 1000);
+  if (promo.starts_at && promo.starts_at > now) return { kind: 'not_started' };
+  if (promo.expires_at && promo.expires_at <= now) return { kind: 'expired' };
+  if (!isPromoCountryAllowed(promo, country, env)) return { kind: 'country_not_allowed' };
+
+  // The insert re-checks both limits and the count follows it in the same transaction, so concurrent
+  // redemptions cannot go over either limit
+  const redemptionId = nanoid();
+  const [inserted] = await db.batch([
+    db.prepare(
+      `INSERT INTO promo_redemptions (id, code, profile_id, credits, country, status, created_at)
+       SELECT ?1, code, ?2, credits, ?3, 'granted', ?4 FROM promo_codes
+       WHERE code = ?5 AND is_active = 1
+         AND (max_redemptions IS NULL OR redemption_count < max_redemptions)
+         AND (SELECT COUNT(*) FROM promo_redemptions WHERE code = ?5 AND profile_id = ?2) < per_profile_limit`
+    ).bind(redemptionId, profileId, country || null, now, code),
+    db.prepare(
+      'UPDATE promo_codes SET redemption_count = redemption_count + 1, updated_at = ?2 WHERE code = ?1 AND EXISTS (SELECT 1 FROM promo_redemptions WHERE id = ?3)'
+    ).bind(code, now, redemptionId),
+  ]);
+  if (!inserted.meta?.changes) {
+    const used = await db.prepare('SELECT COUNT(*) AS count FROM promo_redemptions WHERE code = ? AND profile_id = ?').bind(code, profileId).first() as { count: number } | null;
+    return (used?.count || 0) >= promo.per_profile_limit ? { kind: 'limit_reached' } : { kind: 'exhausted' };
+  }
+
+  const grant = await applyCreditChange(db, {
+    profileId, type: 'grant', consumable: promo.credits, note: `Promo ${code}`,
+  });
+  if (!grant.applied) {
+    // Profile is gone: give the redemption back
+    await db.batch([
+      db.prepare('DELETE FROM promo_redemptions WHERE id = ?').bind(redemptionId),
+      db.prepare('UPDATE promo_codes SET redemption_count = redemption_count - 1 WHERE code = ?').bind(code),
+    ]);
+    return { kind: 'profile_not_found' };
+  }
+  await db.prepare('UPDATE promo_redemptions SET ledger_entry_id = ? WHERE id = ?').bind(grant.entryId, redemptionId).run();
+
+  return {
+    kind: 'granted',
+    redemption: {
+      id: redemptionId, code, profile_id: profileId, credits: promo.credits, country: country || null, status: 'granted',
+      ledger_entry_id: grant.entryId, reversed_at: null, reversal_reason: null, created_at: now,
+    },
+  };
+};
+
+// Take the credits of a redemption back (clamped at 0). Returns null when it does not exist or was already reversed.
+export const reversePromoRedemption = async (
+  db: D1Database, redemptionId: string, reason: string | null
+): Promise<PromoRedemption | null> => {
+  const now = Math.floor(Date.now() / 1000);
+  const claim = await db.prepare(
+    'UPDATE promo_redemptions SET status = \'reversed\', reversed_at = ?, reversal_reason = ? WHERE id = ? AND status = \'granted\''
+  ).bind(now, reason, redemptionId).run();
+  if (!claim.meta?.changes) return null;
+
+  const redemption = await db.prepare('SELECT * FROM promo_redemptions WHERE id = ?').bind(redemptionId).first() as PromoRedemption;
+  await applyCreditChange(db, {
+    profileId: redemption.profile_id, type: 'adjustment', consumable: -redemption.credits, floorAtZero: true,
+    related_entry_id: redemption.ledger_entry_id, note: `Promo ${redemption.code} reversed${reason ? `: ${reason}` : ''}`,
+  });
+  return redemption;
+};
+
+export const formatPromoCode = (promo: PromoCode) => ({
+  code: promo.code,
+  credits: promo.credits,
+  max_redemptions: promo.max_redemptions,
+  per_profile_limit: promo.per_profile_limit,
+  redemption_count: promo.redemption_count,
+  countries: promo.countries ? JSON.parse(promo.countries) as string[] : null,
+  starts_at: promo.starts_at ? new Date(promo.starts_at * 1000).toISOString() : null,
+  expires_at: promo.expires_at ? new Date(promo.expires_at * 1000).toISOString() : null,
+  is_active: promo.is_active === 1,
+  note: promo.note,
+  created_at: new Date(promo.created_at * 1000).toISOString(),
+});
+
+export const formatPromoRedemption = (redemption: PromoRedemption) => ({
+  id: redemption.id,
+  code: redemption.code,
+  profile_id: redemption.profile_id,
+  credits: redemption.credits,
+  country: redemption.country,
+  status: redemption.status,
+  ledger_entry_id: redemption.ledger_entry_id,
+  reversed_at: redemption.reversed_at ? new Date(redemption.reversed_at * 1000).toISOString() : null,
+  reversal_reason: redemption.reversal_reason,
+  created_at: new Date(redemption.created_at * 1000).toISOString(),
+});
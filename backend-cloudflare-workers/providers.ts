@@ -0,0 +1,304 @@
+// backend-cloudflare-workers/providers.ts
+// Image providers: one entry per backend, each declaring which operation modes it can run
+import type { Env, FaceSwapResponse } from './types';
+import {
+  callNanoBanana, callNanoBananaMerge, callWaveSpeedEdit, callWaveSpeedGeminiImageEdit, callWaveSpeedSeedreamEdit,
+  callWaveSpeedBriaEraser, callUpscaler4k, callMockImageGeneration,
+} from './services';
+import { validateEnv } from './validators';
+import { PROVIDER_FAILOVER_CONFIG } from './config';
+
+// MERGE = selfie + preset scene, BACKGROUND = selfie + text-described scene (custom_prompt)
+export type ImageProviderMode = 'FACESWAP' | 'FILTER' | 'AGING' | 'RESTORE' | 'BEAUTY' | 'ENHANCE' | 'MERGE' | 'REMOVE_OBJECT' | 'EXPRESSION' | 'EXPAND' | 'REPLACE_OBJECT' | 'REMOVE_TEXT' | 'HAIR_STYLE' | 'EDITOR' | 'UPSCALE' | 'BACKGROUND';
+
+export type ImageProviderName = 'vertex' | 'wavespeed' | 'wavespeed_gemini_2_5_flash_image' | 'mock';
+
+export interface ImageProviderRequest {
+  mode: ImageProviderMode;
+  prompt?: unknown;                 // Text or prompt_json object (Vertex keeps objects, WaveSpeed flattens them)
+  imageUrls: string[];              // Input images in the order the prompt refers to them
+  aspectRatio?: string;
+  size?: string;                    // "WxH" output size
+  model?: string | number;          // Vertex model ("2.5" / "3")
+  maskUrl?: string;                 // REMOVE_OBJECT
+  skipFacialPreservation?: boolean; // Vertex: do not append the facial preservation instruction
+  endpoint?: string;                // WaveSpeed model endpoint override (e.g. Flux Klein v3)
+}
+
+export interface ImageProvider {
+  name: ImageProviderName;
+  modes: readonly ImageProviderMode[];
+  configError: (env: Env) => string | null;   // Missing credentials, null when ready
+  run: (request: ImageProviderRequest, env: Env) => Promise<FaceSwapResponse>;
+}
+
+const promptText = (prompt: unknown): string => typeof prompt === 'string' ? prompt : JSON.stringify(prompt);
+
+const vertexProvider: ImageProvider = {
+  name: 'vertex',
+  modes: ['FACESWAP', 'MERGE', 'BEAUTY', 'AGING', 'EXPRESSION'],
+  configError: (env) => validateEnv(env, 'vertex'),
+  run: (request, env) => {
+    if (request.mode === 'MERGE') {
+      return callNanoBananaMerge(request.prompt, request.imageUrls[0], request.imageUrls[1], env, request.aspectRatio, request.model);
+    }
+    // Vertex only receives the selfie(s); the preset is described by prompt_json
+    const source = request.imageUrls.length === 1 ? request.imageUrls[0] : request.imageUrls;
+    return callNanoBanana(request.prompt, request.imageUrls[0], source, env, request.aspectRatio, request.model, {
+      provider: 'vertex', size: request.size, skipFacialPreservation: request.skipFacialPreservation,
+    });
+  },
+};
+
+// Flux edit by default; dedicated WaveSpeed models for merge, object removal and upscaling
+const waveSpeedProvider: ImageProvider = {
+  name: 'wavespeed',
+  modes: ['FACESWAP', 'MERGE', 'BACKGROUND', 'BEAUTY', 'FILTER', 'ENHANCE', 'RESTORE', 'REMOVE_OBJECT', 'EXPRESSION', 'EXPAND', 'EDITOR', 'REPLACE_OBJECT', 'UPSCALE'],
+  configError: (env) => validateEnv(env, 'wavespeed'),
+  run: (request, env) => {
+    switch (request.mode) {
+      case 'MERGE':
+      case 'BACKGROUND':
+        return callWaveSpeedSeedreamEdit(request.imageUrls, promptText(request.prompt), env, request.aspectRatio, request.size);
+      case 'REMOVE_OBJECT':
+        return callWaveSpeedBriaEraser(request.imageUrls[0], request.maskUrl || '', env);
+      case 'UPSCALE':
+        return callUpscaler4k(request.imageUrls[0], env);
+      default: {
+        const prompt = request.prompt && typeof request.prompt === 'object' && (request.prompt as any).prompt
+          ? (request.prompt as any).prompt
+          : promptText(request.prompt);
+        return callWaveSpeedEdit(request.imageUrls, prompt, env, request.aspectRatio, request.size, request.endpoint);
+      }
+    }
+  },
+};
+
+const waveSpeedGeminiProvider: ImageProvider = {
+  name: 'wavespeed_gemini_2_5_flash_image',
+  modes: ['FACESWAP', 'BEAUTY', 'AGING', 'EXPRESSION', 'EDITOR', 'REMOVE_TEXT', 'HAIR_STYLE'],
+  configError: (env) => validateEnv(env, 'wavespeed'),
+  run: (request, env) => callWaveSpeedGeminiImageEdit(request.imageUrls, promptText(request.prompt), env, request.aspectRatio, request.size),
+};
+
+// Deterministic offline provider for CI and wrangler dev (no Vertex/WaveSpeed credentials needed)
+const mockProvider: ImageProvider = {
+  name: 'mock',
+  modes: ['FACESWAP', 'FILTER', 'AGING', 'RESTORE', 'BEAUTY', 'ENHANCE', 'MERGE', 'REMOVE_OBJECT', 'EXPRESSION', 'EXPAND', 'REPLACE_OBJECT', 'REMOVE_TEXT', 'HAIR_STYLE', 'EDITOR', 'UPSCALE', 'BACKGROUND'],
+  configError: () => null,
+  run: (request, env) => callMockImageGeneration(
+    JSON.stringify({ mode: request.mode, prompt: request.prompt ?? null, imageUrls: request.imageUrls, maskUrl: request.maskUrl ?? null }),
+    env, request.aspectRatio, request.size
+  ),
+};
+
+const IMAGE_PROVIDERS: Record<ImageProviderName, ImageProvider> = {
+  vertex: vertexProvider,
+  wavespeed: waveSpeedProvider,
+  wavespeed_gemini_2_5_flash_image: waveSpeedGeminiProvider,
+  mock: mockProvider,
+};
+
+// Used when neither the request nor IMAGE_PROVIDER_<MODE> picks a provider; modes not listed fall back to IMAGE_PROVIDER, then vertex
+const MODE_DEFAULT_PROVIDERS: Partial<Record<ImageProviderMode, ImageProviderName>> = {
+  FACESWAP: 'wavespeed',
+  FILTER: 'wavespeed',
+  RESTORE: 'wavespeed',
+  BEAUTY: 'wavespeed',
+  ENHANCE: 'wavespeed',
+  REMOVE_OBJECT: 'wavespeed',
+  EXPAND: 'wavespeed',
+  REPLACE_OBJECT: 'wavespeed',
+  EDITOR: 'wavespeed',
+  UPSCALE: 'wavespeed',
+  BACKGROUND: 'wavespeed',
+  AGING: 'wavespeed_gemini_2_5_flash_image',
+  EXPRESSION: 'wavespeed_gemini_2_5_flash_image',
+  REMOVE_TEXT: 'wavespeed_gemini_2_5_flash_image',
+  HAIR_STYLE: 'wavespeed_gemini_2_5_flash_image',
+};
+
+// Providers tried, in order, after the resolved provider fails with a transient error.
+// IMAGE_FAILOVER_<MODE>="vertex,wavespeed" overrides a chain, "none" disables failover for the mode.
+const MODE_FALLBACK_PROVIDERS: Partial<Record<ImageProviderMode, ImageProviderName[]>> = {
+  FACESWAP: ['wavespeed', 'vertex', 'wavespeed_gemini_2_5_flash_image'],
+  MERGE: ['vertex', 'wavespeed'],
+  BEAUTY: ['wavespeed', 'vertex', 'wavespeed_gemini_2_5_flash_image'],
+  AGING: ['wavespeed_gemini_2_5_flash_image', 'vertex'],
+  EXPRESSION: ['wavespeed_gemini_2_5_flash_image', 'vertex', 'wavespeed'],
+  EDITOR: ['wavespeed', 'wavespeed_gemini_2_5_flash_image'],
+};
+
+const isProviderName = (value: string): value is ImageProviderName => Object.prototype.hasOwnProperty.call(IMAGE_PROVIDERS, value);
+
+const trimmed = (value: unknown): string | null => value != null && String(value).trim() !== '' ? String(value).trim() : null;
+
+export const getImageProvider = (name: ImageProviderName): ImageProvider => IMAGE_PROVIDERS[name];
+
+const getDefaultProvider = (env: Env, mode: ImageProviderMode): ImageProvider => {
+  const configured = MODE_DEFAULT_PROVIDERS[mode] || trimmed(env.IMAGE_PROVIDER) || 'vertex';
+  const provider = isProviderName(configured) ? IMAGE_PROVIDERS[configured] : vertexProvider;
+  return provider.modes.includes(mode) ? provider : waveSpeedProvider;
+};
+
+// Priority: MOCK_IMAGE_PROVIDER=true > request "provider" > IMAGE_PROVIDER_<MODE> > mode default > IMAGE_PROVIDER > vertex.
+// Unknown providers and providers that cannot run the mode are skipped. A request never picks mock: it only runs
+// when the deployment configures it (MOCK_IMAGE_PROVIDER, or IMAGE_PROVIDER_* in a dev environment).
+export const resolveImageProvider = (body: { provider?: string } | undefined, env: Env, mode: ImageProviderMode): ImageProvider => {
+  if (env.MOCK_IMAGE_PROVIDER === 'true') return mockProvider;
+  const requestedByClient = trimmed(body?.provider);
+  for (const requested of [requestedByClient !== 'mock' ? requestedByClient : null, trimmed(env['IMAGE_PROVIDER_' + mode])]) {
+    if (requested && isProviderName(requested) && IMAGE_PROVIDERS[requested].modes.includes(mode)) {
+      return IMAGE_PROVIDERS[requested];
+    }
+  }
+  return getDefaultProvider(env, mode);
+};
+
+const getFallbackNames = (env: Env, mode: ImageProviderMode): string[] => {
+  const override = trimmed(env['IMAGE_FAILOVER_' + mode]);
+  if (override) {
+    return override.toLowerCase() === 'none' ? [] : override.split(',').map(name => name.trim()).filter(Boolean);
+  }
+  return MODE_FALLBACK_PROVIDERS[mode] || [];
+};
+
+// Resolved provider first, then configured fallbacks that can run the mode and have credentials
+export const resolveImageProviderChain = (body: { provider?: string } | undefined, env: Env, mode: ImageProviderMode): ImageProvider[] => {
+  const primary = resolveImageProvider(body, env, mode);
+  if (primary.name === 'mock') return [primary];
+  const chain = [primary];
+  for (const name of getFallbackNames(env, mode)) {
+    if (!isProviderName(name) || name === 'mock') continue;
+    const provider = IMAGE_PROVIDERS[name];
+    if (!chain.includes(provider) && provider.modes.includes(mode) && !provider.configError(env)) {
+      chain.push(provider);
+    }
+  }
+  return chain;
+};
+
+interface ProviderHealth {
+  windowStart: number; // ms
+  successes: number;   // Only counted while the window has failures, so healthy providers cost no KV writes
+  failures: number;
+  openUntil: number;   // ms, 0 when the circuit is closed
+}
+
+export interface ImageProviderAttempt {
+  provider: ImageProviderName;
+  statusCode?: number;
+  skipped?: 'circuit_open' | 'unsupported_request';
+}
+
+export interface ImageProviderChainResult {
+  result: FaceSwapResponse;
+  provider: ImageProvider;          // Provider that produced result (the last one tried on failure)
+  attempts: ImageProviderAttempt[];
+}
+
+const getProviderHealthKV = (env: Env): KVNamespace | null => {
+  const bindingName = env.PROVIDER_HEALTH_KV_BINDING_NAME || env.PROMPT_CACHE_KV_BINDING_NAME;
+  if (!bindingName) {
+    return null;
+  }
+  return (env as any)[bindingName] as KVNamespace || null;
+};
+
+const readProviderHealth = async (kv: KVNamespace, name: ImageProviderName): Promise<ProviderHealth | null> => {
+  try {
+    return await kv.get<ProviderHealth>(PROVIDER_FAILOVER_CONFIG.KV_PREFIX + name, 'json');
+  } catch {
+    return null;
+  }
+};
+
+const recordProviderOutcome = async (kv: KVNamespace, name: ImageProviderName, health: ProviderHealth | null, failed: boolean): Promise<void> => {
+  const now = Date.now();
+  const windowExpired = !health
+    || (health.openUntil > 0 && health.openUntil <= now)
+    || (health.openUntil === 0 && now - health.windowStart > PROVIDER_FAILOVER_CONFIG.WINDOW_SECONDS * 1000);
+  if (!failed && (windowExpired || health!.failures === 0)) return;
+
+  const next: ProviderHealth = windowExpired
+    ? { windowStart: now, successes: 0, failures: 0, openUntil: 0 }
+    : { ...health! };
+  if (failed) {
+    next.failures++;
+    const failureRate = next.failures / (next.failures + next.successes);
+    if (next.openUntil === 0 && next.failures >= PROVIDER_FAILOVER_CONFIG.MIN_FAILURES && failureRate >= PROVIDER_FAILOVER_CONFIG.FAILURE_RATE) {
+      next.openUntil = now + PROVIDER_FAILOVER_CONFIG.COOLDOWN_SECONDS * 1000;
+      console.warn(`[ProviderFailover] Circuit opened for ${name}: ${next.failures} failures, ${next.successes} successes in window`);
+    }
+  } else {
+    next.successes++;
+  }
+  try {
+    await kv.put(PROVIDER_FAILOVER_CONFIG.KV_PREFIX + name, JSON.stringify(next), {
+      expirationTtl: PROVIDER_FAILOVER_CONFIG.WINDOW_SECONDS + PROVIDER_FAILOVER_CONFIG.COOLDOWN_SECONDS,
+    });
+  } catch {
+    // Breaker state is best-effort
+  }
+};
+
+// Quota (429), timeouts (408) and server errors are worth retrying elsewhere; safety blocks and bad input are not
+const isTransientFailure = (result: FaceSwapResponse): boolean => {
+  if (result.Success && result.ResultImageUrl) return false;
+  const code = result.StatusCode || 500;
+  return code === 408 || code === 429 || (code >= 500 && code < 600);
+};
+
+// Runs the chain until a provider succeeds or fails permanently. buildRequest returns null when a
+// provider cannot serve this request (e.g. missing prompt_json), which skips it.
+export const runImageProviderChain = async (
+  chain: ImageProvider[],
+  env: Env,
+  buildRequest: (provider: ImageProvider) => ImageProviderRequest | null
+): Promise<ImageProviderChainResult> => {
+  const kv = chain.length > 1 ? getProviderHealthKV(env) : null;
+  const health = await Promise.all(chain.map(provider => kv ? readProviderHealth(kv, provider.name) : Promise.resolve(null)));
+  const now = Date.now();
+  const attempts: ImageProviderAttempt[] = [];
+
+  // Tripped providers move to the end and only run when nothing before them could be called
+  const order = chain.map((provider, i) => ({ provider, health: health[i], open: !!health[i] && health[i]!.openUntil > now }));
+  order.sort((a, b) => Number(a.open) - Number(b.open));
+  let last: { result: FaceSwapResponse; provider: ImageProvider } | null = null;
+
+  for (const { provider, health: state, open } of order) {
+    if (open && last) {
+      attempts.push({ provider: provider.name, skipped: 'circuit_open' });
+      continue;
+    }
+    const request = buildRequest(provider);
+    if (!request) {
+      attempts.push({ provider: provider.name, skipped: 'unsupported_request' });
+      continue;
+    }
+
+    let result: FaceSwapResponse;
+    try {
+      result = await provider.run(request, env);
+    } catch (error) {
+      result = { Success: false, Message: error instanceof Error ? error.message : String(error), StatusCode: 500 };
+    }
+    const failed = isTransientFailure(result);
+    attempts.push({ provider: provider.name, statusCode: result.StatusCode });
+    if (kv) {
+      await recordProviderOutcome(kv, provider.name, state, failed);
+    }
+    last = { result, provider };
+    if (!failed) break;
+    console.warn(`[ProviderFailover] ${provider.name} failed ${request.mode} with ${result.StatusCode}`);
+  }
+
+  if (!last) {
+    return {
+      result: { Success: false, Message: 'No image provider available for this request', StatusCode: 503 },
+      provider: chain[0],
+      attempts,
+    };
+  }
+  return { ...last, attempts };
+};
@@ -0,0 +1,187 @@
+// backend-cloudflare-workers/referrals.ts
+// Referral program: per-profile referral codes, redemption by new profiles (with anti-abuse checks) and the
+// one-time reward of both profiles on the invitee's first purchase (taken back if that purchase is refunded)
+import { customAlphabet } from 'nanoid';
+import type { Env, Referral, ReferralRejectReason } from './types';
+import { REFERRAL_CONFIG } from './config';
+import { applyCreditChange } from './ledger';
+
+const nanoid = customAlphabet('ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789_', 21);
+// No 0/O or 1/I: codes are typed by hand
+const referralCode = customAlphabet('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', REFERRAL_CONFIG.CODE_LENGTH);
+
+export type ReferralRedeemOutcome =
+  | { kind: 'recorded'; referral: Referral }   // pending, or rejected by an anti-abuse check (never rewarded)
+  | { kind: 'invalid_code' }
+  | { kind: 'own_code' }
+  | { kind: 'already_referred' };
+
+export const normalizeReferralCode = (code: string): string => code.trim().toUpperCase();
+
+export const getReferralRewards = (env: Env): { inviter: number; invitee: number } => ({
+  inviter: Math.max(0, parseInt(env.REFERRAL_INVITER_CREDITS || String(REFERRAL_CONFIG.INVITER_CREDITS), 10) || 0),
+  invitee: Math.max(0, parseInt(env.REFERRAL_INVITEE_CREDITS || String(REFERRAL_CONFIG.INVITEE_CREDITS), 10) || 0),
+});
+
+// The profile's code, created on first use. Returns null when the profile does not exist.
+export const getOrCreateReferralCode = async (db: D1Database, profileId: string): Promise<string | null> => {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const profile = await db.prepare('SELECT referral_code FROM profiles WHERE id = ?').bind(profileId).first() as { referral_code: string | null } | null;
+    if (!profile) return null;
+    if (profile.referral_code) return profile.referral_code;
+    // Unique index: a collision with another profile's code throws, and the next attempt draws a new code
+    await db.prepare('UPDATE profiles SET referral_code = ? WHERE id = ? AND referral_code IS NULL').bind(referralCode(), profileId).run().catch(() => null);
+  }
+  throw new Error('Could not allocate a referral code');
+};
+
+// First anti-abuse check that fails, or null when the referral may be rewarded
+const findRejectReason = async (
+  db: D1Database,
+  inviter: { id: string; device_id: string | null; signup_ip: string | null; is_banned: number },
+  invitee: { device_id: string | null; is_banned: number },
+  ip: string | null
+): Promise<ReferralRejectReason | null> => {
+  if (inviter.is_banned || invitee.is_banned) return 'banned';
+  if (invitee.device_id && invitee.device_id === inviter.device_id) return 'same_device';
+  if (ip) {
+    if (ip === inviter.signup_ip) return 'same_ip';
+    const sameIp = await db.prepare('SELECT 1 FROM referrals WHERE inviter_profile_id = ? AND invitee_ip = ? LIMIT 1').bind(inviter.id, ip).first();
+    if (sameIp) return 'same_ip';
+  }
+  if (invitee.device_id) {
+    // A device is referred once (reinstalling the app creates a new profile on the same device)
+    const reused = await db.prepare('SELECT 1 FROM referrals WHERE invitee_device_id = ? LIMIT 1').bind(invitee.device_id).first();
+    if (reused) return 'device_reused';
+  }
+  const rewarded = await db.prepare('SELECT COUNT(*) AS count FROM referrals WHERE inviter_profile_id = ? AND status = \'rewarded\'').bind(inviter.id).first() as { count: number } | null;
+  if ((rewarded?.count || 0) >= REFERRAL_CONFIG.MAX_REWARDED_PER_INVITER) return 'inviter_limit';
+  return null;
+};
+
+export const redeemReferralCode = async (
+  db: D1Database, inviteeId: string, rawCode: string, ip: string | null
+): Promise<ReferralRedeemOutcome> => {
+  const code = normalizeReferralCode(rawCode);
+  const [inviter, invitee] = await Promise.all([
+    db.prepare('SELECT id, device_id, signup_ip, is_banned FROM profiles WHERE referral_code = ?').bind(code).first() as Promise<{ id: string; device_id: string | null; signup_ip: string | null; is_banned: number } | null>,
+    db.prepare('SELECT device_id, is_banned FROM profiles WHERE id = ?').bind(inviteeId).first() as Promise<{ device_id: string | null; is_banned: number } | null>,
+  ]);
+  if (!inviter || !invitee) return { kind: 'invalid_code' };
+  if (inviter.id === inviteeId) return { kind: 'own_code' };
+
+  const rejectReason = await findRejectReason(db, inviter, invitee, ip);
+  const referral: Referral = {
+    id: nanoid(), inviter_profile_id: inviter.id, invitee_profile_id: inviteeId, code,
+    status: rejectReason ? 'rejected' : 'pending', reject_reason: rejectReason,
+    invitee_device_id: invitee.device_id, invitee_ip: ip, inviter_credits: 0, invitee_credits: 0,
+    payment_id: null, subscription_id: null, created_at: Math.floor(Date.now() / 1000), rewarded_at: null,
+    reversed_at: null, reversal_reason: null,
+  };
+  const inserted = await db.prepare(
+    `INSERT INTO referrals (id, inviter_profile_id, invitee_profile_id, code, status, reject_reason, invitee_device_id, invitee_ip, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT(invitee_profile_id) DO NOTHING`
+  ).bind(referral.id, referral.inviter_profile_id, inviteeId, code, referral.status, rejectReason, referral.invitee_device_id, ip, referral.created_at).run();
+  if (!inserted.meta?.changes) return { kind: 'already_referred' };
+  return { kind: 'recorded', referral };
+};
+
+// Called after each completed purchase; only the invitee's first one (while the referral is pending) rewards.
+// Returns the rewarded referral, or null when there was nothing to reward.
+export const rewardReferral = async (
+  db: D1Database, env: Env, inviteeId: string, source: { payment_id?: string | null; subscription_id?: string | null }
+): Promise<Referral | null> => {
+  const referral = await db.prepare('SELECT * FROM referrals WHERE invitee_profile_id = ? AND status = \'pending\'').bind(inviteeId).first() as Referral | null;
+  if (!referral) return null;
+
+  const banned = await db.prepare(
+    'SELECT COUNT(*) AS count FROM profiles WHERE id IN (?, ?) AND is_banned = 1'
+  ).bind(referral.inviter_profile_id, inviteeId).first() as { count: number } | null;
+  if (banned?.count) {
+    await db.prepare('UPDATE referrals SET status = \'rejected\', reject_reason = \'banned\' WHERE id = ? AND status = \'pending\'').bind(referral.id).run();
+    return null;
+  }
+
+  // Claim the referral first so concurrent purchases reward once
+  const rewards = getReferralRewards(env);
+  const now = Math.floor(Date.now() / 1000);
+  const claim = await db.prepare(
+    'UPDATE referrals SET status = \'rewarded\', inviter_credits = ?, invitee_credits = ?, payment_id = ?, subscription_id = ?, rewarded_at = ? WHERE id = ? AND status = \'pending\''
+  ).bind(rewards.inviter, rewards.invitee, source.payment_id ?? null, source.subscription_id ?? null, now, referral.id).run();
+  if (!claim.meta?.changes) return null;
+
+  const note = `Referral ${referral.id}`;
+  if (rewards.invitee > 0) {
+    await applyCreditChange(db, { profileId: inviteeId, type: 'grant', consumable: rewards.invitee, note, ...source });
+  }
+  if (rewards.inviter > 0) {
+    await applyCreditChange(db, { profileId: referral.inviter_profile_id, type: 'grant', consumable: rewards.inviter, note });
+  }
+  return { ...referral, status: 'rewarded', inviter_credits: rewards.inviter, invitee_credits: rewards.invitee, payment_id: source.payment_id ?? null, subscription_id: source.subscription_id ?? null, rewarded_at: now };
+};
+
+// Called when a purchase is refunded, voided or charged back: if it rewarded a referral, both rewards are taken back
+// (clamped at 0). Returns the reversed referral, or null when the purchase rewarded none or it was already reversed.
+export const reverseReferralReward = async (
+  db: D1Database, source: { payment_id?: string | null; subscription_id?: string | null }, reason: string
+): Promise<Referral | null> => {
+  const [column, value] = source.payment_id ? ['payment_id', source.payment_id] : ['subscription_id', source.subscription_id];
+  if (!value) return null;
+  const referral = await db.prepare(`SELECT * FROM referrals WHERE ${column} = ? AND status = 'rewarded'`).bind(value).first() as Referral | null;
+  if (!referral) return null;
+
+  // Claim first so a refund delivered twice (webhook and voided purchases sync) takes the rewards back once
+  const now = Math.floor(Date.now() / 1000);
+  const claim = await db.prepare(
+    'UPDATE referrals SET status = \'reversed\', reversed_at = ?, reversal_reason = ? WHERE id = ? AND status = \'rewarded\''
+  ).bind(now, reason, referral.id).run();
+  if (!claim.meta?.changes) return null;
+
+  const note = `Referral ${referral.id} reversed: ${reason}`;
+  if (referral.invitee_credits > 0) {
+    await applyCreditChange(db, {
+      profileId: referral.invitee_profile_id, type: 'adjustment', consumable: -referral.invitee_credits, floorAtZero: true, note,
+      payment_id: referral.payment_id, subscription_id: referral.subscription_id,
+    });
+  }
+  if (referral.inviter_credits > 0) {
+    await applyCreditChange(db, {
+      profileId: referral.inviter_profile_id, type: 'adjustment', consumable: -referral.inviter_credits, floorAtZero: true, note,
+    });
+  }
+  return { ...referral, status: 'reversed', reversed_at: now, reversal_reason: reason };
+};
+
+export const getReferralStats = async (db: D1Database, profileId: string) => {
+  const [totals, referredBy, recent] = await Promise.all([
+    db.prepare(
+      `SELECT COUNT(*) AS invited,
+              COALESCE(SUM(status = 'pending'), 0) AS pending,
+              COALESCE(SUM(status = 'rewarded'), 0) AS rewarded,
+              COALESCE(SUM(status = 'rejected'), 0) AS rejected,
+              COALESCE(SUM(status = 'reversed'), 0) AS reversed,
+              COALESCE(SUM(CASE WHEN status = 'rewarded' THEN inviter_credits ELSE 0 END), 0) AS credits_earned
+       FROM referrals WHERE inviter_profile_id = ?`
+    ).bind(profileId).first() as Promise<{ invited: number; pending: number; rewarded: number; rejected: number; reversed: number; credits_earned: number } | null>,
+    db.prepare('SELECT code, status, invitee_credits FROM referrals WHERE invitee_profile_id = ?').bind(profileId).first() as Promise<{ code: string; status: string; invitee_credits: number } | null>,
+    db.prepare(
+      `SELECT status, reject_reason, inviter_credits, created_at, rewarded_at FROM referrals WHERE inviter_profile_id = ? ORDER BY created_at DESC LIMIT ${REFERRAL_CONFIG.LIST_LIMIT}`
+    ).bind(profileId).all<Pick<Referral, 'status' | 'reject_reason' | 'inviter_credits' | 'created_at' | 'rewarded_at'>>(),
+  ]);
+  return {
+    invited: totals?.invited || 0,
+    pending: totals?.pending || 0,
+    rewarded: totals?.rewarded || 0,
+    rejected: totals?.rejected || 0,
+    reversed: totals?.reversed || 0,
+    credits_earned: totals?.credits_earned || 0,
+    referred_by: referredBy ? { code: referredBy.code, status: referredBy.status, credits_earned: referredBy.status === 'rewarded' ? referredBy.invitee_credits : 0 } : null,
+    referrals: (recent.results || []).map((referral) => ({
+      status: referral.status,
+      reject_reason: referral.reject_reason,
+      credits_earned: referral.status === 'rewarded' ? referral.inviter_credits : 0,
+      created_at: new Date(referral.created_at * 1000).toISOString(),
+      rewarded_at: referral.rewarded_at ? new Date(referral.rewarded_at * 1000).toISOString() : null,
+    })),
+  };
+};
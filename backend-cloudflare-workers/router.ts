@@ -0,0 +1,105 @@
+/// <reference types="@cloudflare/workers-types" />
+
+import type { Env } from './types';
+import type { FieldSchema, ObjectSchema } from './validators';
+
+export type RouteMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+// Where the profile_id bound to X-Profile-Token comes from
+export type ProfileIdSource = 'body' | 'query' | 'param';
+
+export interface RouteAuth {
+  apiKey?: boolean;                 // X-API-Key / Bearer MOBILE_API_KEY (when ENABLE_MOBILE_API_KEY_AUTH=true)
+  profileToken?: ProfileIdSource;   // X-Profile-Token must match profile_id from this source
+  admin?: boolean;                  // X-Admin-Key / Bearer ADMIN_API_KEY (always required)
+}
+
+export interface RouteContext {
+  request: Request<unknown, IncomingRequestCfProperties>;
+  env: Env;
+  ctx: ExecutionContext;
+  DB: D1Database;
+  R2_BUCKET: R2Bucket;
+  requestUrl: URL;
+  path: string;
+  params: Record<string, string>;
+  jobId?: string;                   // Set when the request is an async job being run (see jobs table)
+}
+
+export type RouteHandler = (context: RouteContext) => Promise<Response>;
+
+export interface RouteDefinition {
+  method: RouteMethod;
+  path: string;                     // e.g. '/presets/:id', '/r2-upload/*key' (* = rest of path)
+  handler: RouteHandler;
+  auth?: RouteAuth;
+  creditAction?: string;            // DEFAULT_CREDIT_COSTS key charged by deductCredits
+  asyncJob?: boolean;               // Accepts "async": true (see jobs table)
+  idempotent?: boolean;             // Honors the Idempotency-Key header (see idempotency_keys table)
+  bodySchema?: ObjectSchema;        // JSON body schema (validators.ts); handlers receive the normalized body
+  maxBodyBytes?: number | null;     // undefined = DEFAULT_MAX_BODY_BYTES, null = no limit
+  summary?: string;                 // OpenAPI operation summary
+  query?: Record<string, FieldSchema>; // Documented query parameters (handlers read searchParams themselves)
+  response?: string;                // OpenAPI component describing `data` of the success envelope
+}
+
+export const DEFAULT_MAX_BODY_BYTES = 1024 * 1024; // 1MB
+export const LARGE_UPLOAD_MAX_BODY_BYTES = 100 * 1024 * 1024; // 100MB (Cloudflare Workers request limit)
+
+export interface CompiledRoute {
+  route: RouteDefinition;
+  regex: RegExp;
+  keys: string[];
+}
+
+export type RouteMatch =
+  | { kind: 'matched'; route: RouteDefinition; params: Record<string, string> }
+  | { kind: 'method_not_allowed'; allowed: RouteMethod[] }
+  | { kind: 'not_found' };
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const compilePattern = (pattern: string): { regex: RegExp; keys: string[] } => {
+  const keys: string[] = [];
+  const source = pattern.split('/').map((segment) => {
+    if (segment.startsWith(':')) {
+      keys.push(segment.slice(1));
+      return '([^/]+)';
+    }
+    if (segment.startsWith('*')) {
+      keys.push(segment.slice(1));
+      return '(.+)';
+    }
+    return escapeRegex(segment);
+  }).join('/');
+  return { regex: new RegExp(`^${source}/?$`), keys };
+};
+
+export const compileRoutes = (routes: RouteDefinition[]): CompiledRoute[] => {
+  return routes.map((route) => ({ route, ...compilePattern(route.path) }));
+};
+
+export const matchRoute = (routes: CompiledRoute[], method: string, path: string): RouteMatch => {
+  const allowed: RouteMethod[] = [];
+  for (const compiled of routes) {
+    const match = compiled.regex.exec(path);
+    if (!match) continue;
+    if (compiled.route.method !== method) {
+      if (!allowed.includes(compiled.route.method)) allowed.push(compiled.route.method);
+      continue;
+    }
+    const params: Record<string, string> = {};
+    compiled.keys.forEach((key, i) => { params[key] = match[i + 1]; });
+    return { kind: 'matched', route: compiled.route, params };
+  }
+  return allowed.length > 0 ? { kind: 'method_not_allowed', allowed } : { kind: 'not_found' };
+};
+
+// Path params are raw (still URL-encoded); decode when the id itself may contain reserved characters
+export const decodePathParam = (value: string): string => {
+  try {
+    return decodeURIComponent(value.trim());
+  } catch {
+    return value.trim();
+  }
+};
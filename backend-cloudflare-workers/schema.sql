@@ -15,7 +15,7 @@ CREATE TABLE IF NOT EXISTS profiles (
 );
 
 -- Presets table: Store preset images with optional thumbnails
--- Metadata (type, sub_category, gender, position) is stored in R2 bucket path, not in DB
+-- Catalog metadata (category_id, sub_category_id, gender, position, sort_order, is_active, is_premium, titles) is added by migration 0027_preset_catalog.sql
 -- prompt_json is stored in R2 object metadata, not in D1
 -- thumbnail_r2 stores JSON array of all thumbnail URLs by resolution
 CREATE TABLE IF NOT EXISTS presets (
@@ -0,0 +1,139 @@
+// backend-cloudflare-workers/selfies.ts
+// Selfie quality gate of POST /upload-url: face count and box, blur and size of each selfie, and whether it is
+// rejected or accepted with warnings before any credits are spent on it
+import { PhotonImage, SamplingFilter, resize } from '@cf-wasm/photon/workerd';
+import type { Env, SelfieAnalysis, SelfieAnalyzerName, SelfieFaceBox } from './types';
+import { SELFIE_QUALITY_CONFIG } from './config';
+import { SELFIE_QUALITY_CODES } from './utils';
+import { detectFacesWithVision } from './services';
+
+export type SelfieGateOutcome =
+  | { kind: 'accepted'; analysis: SelfieAnalysis; warnings: number[] }   // warnings: SELFIE_QUALITY_CODES
+  | { kind: 'rejected'; analysis: SelfieAnalysis; code: number };
+
+export const isSelfieQualityAction = (action: string | null): boolean =>
+  SELFIE_QUALITY_CONFIG.ACTIONS.includes((action || 'faceswap').trim().toLowerCase());
+
+// Null when SELFIE_ANALYZER=off. The local analyzer needs no credentials (offline tests, DISABLE_VISION_API).
+export const getSelfieAnalyzer = (env: Env): SelfieAnalyzerName | null => {
+  const configured = String(env.SELFIE_ANALYZER || '').trim().toLowerCase();
+  if (configured === 'off') return null;
+  if (configured === 'local' || env.DISABLE_VISION_API === 'true' || env.MOCK_IMAGE_PROVIDER === 'true') return 'local';
+  return 'vision';
+};
+
+// Variance of the 4-neighbour Laplacian of the luma: low when there are no sharp edges
+const laplacianVariance = (pixels: Uint8Array, width: number, height: number): number => {
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+  }
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = 4 * luma[i] - luma[i - 1] - luma[i + 1] - luma[i - width] - luma[i + width];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+// Decoded size and blur; null when the image cannot be decoded or is too large to decode here
+const measurePixels = (buffer: ArrayBuffer): { width: number; height: number; blur: number } | null => {
+  if (buffer.byteLength > SELFIE_QUALITY_CONFIG.MAX_DECODE_BYTES) return null;
+  let image: PhotonImage | null = null;
+  let scaled: PhotonImage | null = null;
+  try {
+    image = PhotonImage.new_from_byteslice(new Uint8Array(buffer));
+    const width = image.get_width();
+    const height = image.get_height();
+    const scale = Math.min(1, SELFIE_QUALITY_CONFIG.ANALYSIS_LONG_SIDE / Math.max(width, height));
+    const scaledWidth = Math.max(1, Math.round(width * scale));
+    const scaledHeight = Math.max(1, Math.round(height * scale));
+    scaled = scale < 1 ? resize(image, scaledWidth, scaledHeight, SamplingFilter.Triangle) : null;
+    const variance = laplacianVariance((scaled || image).get_raw_pixels(), scaledWidth, scaledHeight);
+    const blur = Math.max(0, 1 - variance / SELFIE_QUALITY_CONFIG.SHARP_VARIANCE);
+    return { width, height, blur: Math.round(blur * 1000) / 1000 };
+  } catch {
+    return null;
+  } finally {
+    // Important: free WASM memory
+    scaled?.free();
+    image?.free();
+  }
+};
+
+// Local stand-in for face detection: SELFIE_LOCAL_FACE_COUNT faces (default 1) side by side across the middle of
+// the image, so offline tests can exercise the no-face and multiple-faces outcomes
+const localFaces = (width: number | null, height: number | null, env: Env): SelfieFaceBox[] => {
+  if (!width || !height) return [];
+  const configured = parseInt(String(env.SELFIE_LOCAL_FACE_COUNT ?? ''), 10);
+  const count = Number.isInteger(configured) && configured >= 0 ? configured : 1;
+  if (count === 0) return [];
+  const side = Math.round(Math.min(Math.min(width, height) * SELFIE_QUALITY_CONFIG.LOCAL_FACE_RATIO, width / count));
+  const gap = (width - side * count) / (count + 1);
+  return Array.from({ length: count }, (_, i) => ({
+    x: Math.round(gap + i * (side + gap)), y: Math.round((height - side) / 2), width: side, height: side,
+  }));
+};
+
+// imageUrl must be publicly readable (Vision fetches it). Never throws: what cannot be measured is left null.
+export const analyzeSelfie = async (
+  buffer: ArrayBuffer, imageUrl: string, analyzer: SelfieAnalyzerName, env: Env
+): Promise<SelfieAnalysis> => {
+  const pixels = measurePixels(buffer);
+  let faces: SelfieFaceBox[] | null;
+  if (analyzer === 'local') {
+    faces = pixels ? localFaces(pixels.width, pixels.height, env) : null;
+  } else {
+    const detection = await detectFacesWithVision(imageUrl, env);
+    if (detection.error) {
+      console.error('[SelfieQuality] Face detection failed:', detection.error);
+    }
+    faces = detection.error ? null : detection.faces;
+  }
+  return {
+    analyzer,
+    width: pixels?.width ?? null,
+    height: pixels?.height ?? null,
+    face_count: faces ? faces.length : null,
+    face_box: faces?.[0] ?? null,
+    blur: pixels?.blur ?? null,
+  };
+};
+
+// First failed check rejects (resolution, then faces, then blur); checks that only reach the warning level are
+// returned as warnings. Checks whose measurement is missing are skipped.
+export const gateSelfie = (analysis: SelfieAnalysis): SelfieGateOutcome => {
+  const warnings: number[] = [];
+  const reject = (code: number): SelfieGateOutcome => ({ kind: 'rejected', analysis, code });
+
+  if (analysis.width !== null && analysis.height !== null) {
+    const shortSide = Math.min(analysis.width, analysis.height);
+    if (shortSide < SELFIE_QUALITY_CONFIG.SHORT_SIDE_REJECT_PX) return reject(SELFIE_QUALITY_CODES.LOW_RESOLUTION);
+    if (shortSide < SELFIE_QUALITY_CONFIG.SHORT_SIDE_WARN_PX) warnings.push(SELFIE_QUALITY_CODES.LOW_RESOLUTION);
+  }
+
+  if (analysis.face_count !== null) {
+    if (analysis.face_count === 0) return reject(SELFIE_QUALITY_CODES.NO_FACE);
+    if (analysis.face_count > 1) return reject(SELFIE_QUALITY_CODES.MULTIPLE_FACES);
+    if (analysis.face_box) {
+      if (analysis.face_box.width < SELFIE_QUALITY_CONFIG.FACE_REJECT_PX) return reject(SELFIE_QUALITY_CODES.FACE_TOO_SMALL);
+      if (analysis.face_box.width < SELFIE_QUALITY_CONFIG.FACE_WARN_PX) warnings.push(SELFIE_QUALITY_CODES.FACE_TOO_SMALL);
+    }
+  }
+
+  if (analysis.blur !== null) {
+    if (analysis.blur >= SELFIE_QUALITY_CONFIG.BLUR_REJECT) return reject(SELFIE_QUALITY_CODES.BLURRY);
+    if (analysis.blur >= SELFIE_QUALITY_CONFIG.BLUR_WARN) warnings.push(SELFIE_QUALITY_CODES.BLURRY);
+  }
+
+  return { kind: 'accepted', analysis, warnings };
+};
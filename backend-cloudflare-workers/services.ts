@@ -1,12 +1,13 @@
 // backend-cloudflare-workers/services.ts
 import { customAlphabet } from 'nanoid';
 const nanoid = customAlphabet('ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789_', 21);
-import type { Env, FaceSwapResponse, SafeSearchResult, GoogleVisionResponse, FcmSendResult } from './types';
+import type { Env, FaceSwapResponse, SafeSearchResult, GoogleVisionResponse, FcmSendResult, GooglePlayVoidedPurchase, SelfieFaceBox } from './types';
 
 // Generate unique mock ID for performance testing mode to avoid database conflicts
 const generateMockId = () => `mock-${nanoid(16)}`;
 import { isUnsafe, getWorstViolation, getAccessToken, getVertexAILocation, getVertexAIEndpoint, getVertexModelId, validateImageUrl, fetchWithTimeout, getVertexSafetyViolation, VERTEX_SAFETY_STATUS_CODES, base64UrlEncode } from './utils';
-import { VERTEX_AI_CONFIG, VERTEX_AI_PROMPTS, ASPECT_RATIO_CONFIG, API_ENDPOINTS, TIMEOUT_CONFIG, DEFAULT_VALUES, CACHE_CONFIG, GOOGLE_PLAY_CONFIG, FCM_CONFIG } from './config';
+import { VERTEX_AI_CONFIG, VERTEX_AI_PROMPTS, ASPECT_RATIO_CONFIG, API_ENDPOINTS, TIMEOUT_CONFIG, DEFAULT_VALUES, CACHE_CONFIG, GOOGLE_PLAY_CONFIG, FCM_CONFIG, MOCK_PROVIDER_CONFIG, SELFIE_QUALITY_CONFIG } from './config';
+import { PhotonImage } from '@cf-wasm/photon/workerd';
 
 const SENSITIVE_KEYS = ['key', 'token', 'password', 'secret', 'api_key', 'apikey', 'authorization', 'private_key', 'privatekey', 'access_token', 'accesstoken', 'bearer', 'credential', 'credentials'];
 
@@ -1537,6 +1538,60 @@ export const checkSafeSearch = async (
   }
 };
 
+// Vision API face detection for the selfie quality gate: boxes of the faces detected with at least
+// MIN_FACE_CONFIDENCE, largest first. Returns an error instead when the call fails.
+export const detectFacesWithVision = async (
+  imageUrl: string,
+  env: Env
+): Promise<{ faces: SelfieFaceBox[]; error?: string }> => {
+  try {
+    const apiKey = env.GOOGLE_VISION_API_KEY;
+    if (!apiKey) {
+      return { faces: [], error: 'GOOGLE_VISION_API_KEY not set' };
+    }
+
+    const response = await fetchWithTimeout(`${env.GOOGLE_VISION_ENDPOINT}?key=${apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        requests: [{
+          image: { source: { imageUri: imageUrl } },
+          features: [{ type: 'FACE_DETECTION', maxResults: SELFIE_QUALITY_CONFIG.MAX_FACES }],
+        }],
+      }),
+    }, TIMEOUT_CONFIG.DEFAULT_REQUEST);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      return { faces: [], error: `API error: ${response.status} - ${errorText.substring(0, 200)}` };
+    }
+
+    const data = await response.json() as GoogleVisionResponse;
+    if (data.responses?.[0]?.error) {
+      return { faces: [], error: data.responses[0].error.message };
+    }
+
+    const faces: SelfieFaceBox[] = [];
+    for (const face of data.responses?.[0]?.faceAnnotations || []) {
+      if ((face.detectionConfidence ?? 0) < SELFIE_QUALITY_CONFIG.MIN_FACE_CONFIDENCE) continue;
+      const vertices = face.fdBoundingPoly?.vertices || [];
+      if (vertices.length === 0) continue;
+      // Vision leaves out coordinates that are 0
+      const xs = vertices.map((vertex) => vertex.x || 0);
+      const ys = vertices.map((vertex) => vertex.y || 0);
+      const x = Math.min(...xs);
+      const y = Math.min(...ys);
+      faces.push({ x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y });
+    }
+    faces.sort((a, b) => b.width * b.height - a.width * a.height);
+    return { faces };
+  } catch (error) {
+    return { faces: [], error: error instanceof Error ? error.message.substring(0, 200) : String(error).substring(0, 200) };
+  }
+};
+
 // Gemini 2.5 Flash Lite safety pre-check for filter, beauty, enhance operations
 // This check runs BEFORE the main Vertex AI image generation to ensure image is appropriate
 export const checkImageSafetyWithFlashLite = async (
@@ -2781,6 +2836,73 @@ export const callWaveSpeedGeminiImageEdit = async (
   }
 };
 
+// Mock image generation (offline testing): same request -> same image, result gets a fresh mock id
+export const callMockImageGeneration = async (
+  seed: string,
+  env: Env,
+  aspectRatio?: string,
+  size?: string
+): Promise<FaceSwapResponse> => {
+  try {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(seed)));
+    const seedHex = Array.from(digest.slice(0, 8)).map((b) => b.toString(16).padStart(2, '0')).join('');
+
+    // Explicit "WxH" size wins, then aspect ratio ("original"/unknown -> default ratio)
+    let width = MOCK_PROVIDER_CONFIG.LONG_SIDE;
+    let height = MOCK_PROVIDER_CONFIG.LONG_SIDE;
+    const sizeMatch = size?.match(/^(\d+)[x*](\d+)$/);
+    if (sizeMatch) {
+      width = parseInt(sizeMatch[1], 10);
+      height = parseInt(sizeMatch[2], 10);
+    } else {
+      const ratio = aspectRatio && ASPECT_RATIO_CONFIG.SUPPORTED.includes(aspectRatio) ? aspectRatio : ASPECT_RATIO_CONFIG.DEFAULT;
+      const [w, h] = ratio.split(':').map(Number);
+      if (w >= h) {
+        height = Math.round(MOCK_PROVIDER_CONFIG.LONG_SIDE * h / w);
+      } else {
+        width = Math.round(MOCK_PROVIDER_CONFIG.LONG_SIDE * w / h);
+      }
+    }
+
+    // Diagonal gradient between two colors taken from the digest
+    const pixels = new Uint8Array(width * height * 4);
+    const span = Math.max(width + height - 2, 1);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const t = (x + y) / span;
+        const offset = (y * width + x) * 4;
+        pixels[offset] = Math.round(digest[0] * (1 - t) + digest[3] * t);
+        pixels[offset + 1] = Math.round(digest[1] * (1 - t) + digest[4] * t);
+        pixels[offset + 2] = Math.round(digest[2] * (1 - t) + digest[5] * t);
+        pixels[offset + 3] = 255;
+      }
+    }
+    const image = new PhotonImage(pixels, width, height);
+    const bytes = image.get_bytes_jpeg(MOCK_PROVIDER_CONFIG.JPEG_QUALITY);
+    image.free(); // Important: free WASM memory
+
+    const mockId = generateMockId();
+    const resultKey = `results/${mockId}.${DEFAULT_VALUES.RESULT_EXT}`;
+    await getR2Bucket(env).put(resultKey, bytes, {
+      httpMetadata: { contentType: DEFAULT_VALUES.IMAGE_MIME_TYPE, cacheControl: CACHE_CONFIG.R2_CACHE_CONTROL },
+    });
+
+    return {
+      Success: true,
+      ResultImageUrl: `r2://${resultKey}`,
+      Message: 'Mock image generated',
+      StatusCode: 200,
+      Debug: { provider: 'mock', mockId, r2Key: resultKey, seed: seedHex, width, height },
+    };
+  } catch (error) {
+    return {
+      Success: false,
+      Message: `Mock image generation error: ${error instanceof Error ? error.message : String(error)}`,
+      StatusCode: 500,
+    };
+  }
+};
+
 // WaveSpeed Seedream v4 Edit-Sequential API (ByteDance)
 // Endpoint: https://api.wavespeed.ai/api/v3/bytedance/seedream-v4/edit-sequential
 // 4K image editing with character/object consistency
@@ -3304,7 +3426,7 @@ export const verifyGooglePlaySubscription = async (
   env: Env,
   subscriptionId: string,
   purchaseToken: string
-): Promise<{ valid: boolean; expiryTimeMillis?: string; autoRenewing?: boolean; acknowledged?: boolean; paymentState?: number; raw?: any; error?: string }> => {
+): Promise<{ valid: boolean; expiryTimeMillis?: string; autoRenewing?: boolean; acknowledged?: boolean; paymentState?: number; productId?: string; linkedPurchaseToken?: string; raw?: any; error?: string }> => {
   try {
     const accessToken = await getGooglePlayAccessToken(env);
     const packageName = env.GOOGLE_PLAY_PACKAGE_NAME;
@@ -3332,6 +3454,9 @@ export const verifyGooglePlaySubscription = async (
       expiryTimeMillis: expiryTime,
       autoRenewing: data.autoRenewEnabled ?? true,
       acknowledged: data.acknowledgementState === 'ACKNOWLEDGEMENT_STATE_ACKNOWLEDGED',
+      // Current SKU (changes on upgrade/downgrade) and, for a purchase that replaced another, the replaced token
+      productId: lineItem?.productId,
+      linkedPurchaseToken: data.linkedPurchaseToken,
       raw: data,
     };
   } catch (error) {
@@ -3372,3 +3497,51 @@ export const acknowledgeGooglePlaySubscription = async (
   }
 };
 
+export interface GooglePlayVoidedPurchasesPage {
+  success: boolean;
+  voidedPurchases: GooglePlayVoidedPurchase[];
+  nextPageToken?: string;
+  error?: string;
+}
+
+/**
+ * List voided one-time product purchases (voidedpurchases.list) voided between startTimeMillis and endTimeMillis.
+ * Pages after the first pass the previous page's nextPageToken with the same time range.
+ */
+export const listGooglePlayVoidedPurchases = async (
+  env: Env,
+  startTimeMillis: number,
+  endTimeMillis: number,
+  pageToken?: string
+): Promise<GooglePlayVoidedPurchasesPage> => {
+  try {
+    const accessToken = await getGooglePlayAccessToken(env);
+    const packageName = env.GOOGLE_PLAY_PACKAGE_NAME;
+    if (!packageName) return { success: false, voidedPurchases: [], error: 'GOOGLE_PLAY_PACKAGE_NAME not configured' };
+
+    const url = new URL(GOOGLE_PLAY_CONFIG.ENDPOINTS.VOIDED_PURCHASES(packageName));
+    url.searchParams.set('startTime', String(startTimeMillis));
+    url.searchParams.set('endTime', String(endTimeMillis));
+    url.searchParams.set('maxResults', String(GOOGLE_PLAY_CONFIG.VOIDED_PURCHASES.MAX_RESULTS));
+    url.searchParams.set('type', '0'); // One-time products only
+    if (pageToken) url.searchParams.set('token', pageToken);
+    const resp = await fetchWithTimeout(url.toString(), {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    }, GOOGLE_PLAY_CONFIG.VOIDED_PURCHASES.TIMEOUT_MS);
+
+    if (!resp.ok) {
+      const errText = await resp.text();
+      return { success: false, voidedPurchases: [], error: `Google Play API ${resp.status}: ${errText}` };
+    }
+
+    const data = await resp.json() as { voidedPurchases?: GooglePlayVoidedPurchase[]; tokenPagination?: { nextPageToken?: string } };
+    return {
+      success: true,
+      voidedPurchases: data.voidedPurchases || [],
+      nextPageToken: data.tokenPagination?.nextPageToken || undefined,
+    };
+  } catch (error) {
+    return { success: false, voidedPurchases: [], error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
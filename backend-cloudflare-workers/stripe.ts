@@ -0,0 +1,90 @@
+// backend-cloudflare-workers/stripe.ts
+// Stripe Checkout for web credit packs: session creation and webhook signature verification
+//
+// Stripe signs each webhook with Stripe-Signature = "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${raw body}`>"
+// (more than one v1 during secret rotation). verifyStripeSignature takes the clock as a parameter so recorded
+// events can be checked against the time they were sent.
+import type { Env, StripeCheckoutSession } from './types';
+import { STRIPE_CONFIG } from './config';
+import { fetchWithTimeout } from './utils';
+
+const hmacHex = async (secret: string, message: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const sig = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return [...new Uint8Array(sig)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const timingSafeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+export const verifyStripeSignature = async (
+  payload: string,
+  signatureHeader: string | null,
+  secret: string,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<{ valid: boolean; error?: string }> => {
+  if (!signatureHeader) return { valid: false, error: 'Missing Stripe-Signature header' };
+  const pairs = signatureHeader.split(',').map((part) => part.trim().split('='));
+  const timestamp = Number(pairs.find(([name]) => name === 't')?.[1]);
+  const signatures = pairs.filter(([name]) => name === 'v1').map(([, value]) => value || '');
+  if (!Number.isFinite(timestamp) || signatures.length === 0) return { valid: false, error: 'Malformed Stripe-Signature header' };
+  if (Math.abs(now - timestamp) > STRIPE_CONFIG.SIGNATURE_TOLERANCE_SECONDS) return { valid: false, error: 'Timestamp outside the tolerance window' };
+
+  const expected = await hmacHex(secret, `${timestamp}.${payload}`);
+  if (!signatures.some((signature) => timingSafeEqual(signature, expected))) return { valid: false, error: 'No matching signature' };
+  return { valid: true };
+};
+
+// products.price_micros -> Stripe unit_amount (smallest currency unit)
+export const toStripeAmount = (priceMicros: number, currency: string): number => {
+  const zeroDecimal = STRIPE_CONFIG.ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase());
+  return Math.round(priceMicros / (zeroDecimal ? 1_000_000 : 10_000));
+};
+
+/**
+ * Create a hosted Checkout session for one credit pack
+ */
+export const createStripeCheckoutSession = async (
+  env: Env,
+  input: { paymentId: string; profileId: string; sku: string; name: string; priceMicros: number; currency: string }
+): Promise<StripeCheckoutSession> => {
+  if (!env.STRIPE_SECRET_KEY || !env.STRIPE_SUCCESS_URL || !env.STRIPE_CANCEL_URL) {
+    throw new Error('Stripe not configured (STRIPE_SECRET_KEY, STRIPE_SUCCESS_URL, STRIPE_CANCEL_URL)');
+  }
+
+  const form = new URLSearchParams({
+    'mode': 'payment',
+    'client_reference_id': input.paymentId,
+    'success_url': env.STRIPE_SUCCESS_URL,
+    'cancel_url': env.STRIPE_CANCEL_URL,
+    'expires_at': String(Math.floor(Date.now() / 1000) + STRIPE_CONFIG.SESSION_TTL_SECONDS),
+    'line_items[0][quantity]': '1',
+    'line_items[0][price_data][currency]': input.currency.toLowerCase(),
+    'line_items[0][price_data][unit_amount]': String(toStripeAmount(input.priceMicros, input.currency)),
+    'line_items[0][price_data][product_data][name]': input.name,
+    'metadata[payment_id]': input.paymentId,
+    'metadata[profile_id]': input.profileId,
+    'metadata[sku]': input.sku,
+    'payment_intent_data[metadata][payment_id]': input.paymentId,
+  });
+
+  const resp = await fetchWithTimeout(`${STRIPE_CONFIG.API_BASE_URL}${STRIPE_CONFIG.ENDPOINTS.CHECKOUT_SESSIONS}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${env.STRIPE_SECRET_KEY}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Idempotency-Key': `checkout-${input.paymentId}`,
+    },
+    body: form.toString(),
+  }, STRIPE_CONFIG.TIMEOUT_MS);
+
+  if (!resp.ok) {
+    const errText = await resp.text();
+    throw new Error(`Stripe checkout ${resp.status}: ${errText.substring(0, 200)}`);
+  }
+  return resp.json() as Promise<StripeCheckoutSession>;
+};
@@ -0,0 +1,61 @@
+// backend-cloudflare-workers/test/allowance.test.ts
+// Free daily allowance: runs claimed per profile and device, given back when the request fails
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { claimFreeAllowance, releaseFreeAllowance, getAllowanceDay } from '../allowance';
+import { createTestEnv, type TestEnv } from './env';
+
+describe('free allowance', () => {
+  let testEnv: TestEnv;
+  let db: D1Database;
+  const day = '2026-10-19';
+
+  beforeAll(async () => {
+    testEnv = await createTestEnv();
+    db = testEnv.db;
+  });
+
+  afterAll(async () => {
+    await testEnv.dispose();
+  });
+
+  beforeEach(async () => {
+    await db.batch([
+      db.prepare('DELETE FROM free_allowance_usage'),
+      db.prepare('DELETE FROM profiles'),
+      db.prepare('INSERT INTO profiles (id, device_id) VALUES (?, ?)').bind('p1', 'd1'),
+      db.prepare('INSERT INTO profiles (id, device_id) VALUES (?, ?)').bind('p2', 'd1'),
+    ]);
+  });
+
+  it('gives a released run back to the profile', async () => {
+    expect(await claimFreeAllowance(db, 'p1', 'd1', 'aging', day, 1)).toBe(true);
+    expect(await claimFreeAllowance(db, 'p1', 'd1', 'aging', day, 1)).toBe(false);
+
+    expect(await releaseFreeAllowance(db, 'p1', 'aging', day)).toBe(true);
+    expect(await claimFreeAllowance(db, 'p1', 'd1', 'aging', day, 1)).toBe(true);
+  });
+
+  it('releases only runs that were claimed', async () => {
+    expect(await releaseFreeAllowance(db, 'p1', 'aging', day)).toBe(false);
+    await claimFreeAllowance(db, 'p1', 'd1', 'aging', day, 2);
+    expect(await releaseFreeAllowance(db, 'p1', 'aging', '2026-10-20')).toBe(false);
+    expect(await releaseFreeAllowance(db, 'p1', 'aging', day)).toBe(true);
+    expect(await releaseFreeAllowance(db, 'p1', 'aging', day)).toBe(false);
+  });
+
+  it('frees the device-wide limit for other profiles on the device', async () => {
+    await claimFreeAllowance(db, 'p1', 'd1', 'aging', day, 1);
+    expect(await claimFreeAllowance(db, 'p2', 'd1', 'aging', day, 1)).toBe(false);
+    await releaseFreeAllowance(db, 'p1', 'aging', day);
+    expect(await claimFreeAllowance(db, 'p2', 'd1', 'aging', day, 1)).toBe(true);
+  });
+
+  it('counts the day in the request time zone when the boundary is local', () => {
+    const now = new Date('2026-10-19T20:00:00Z');
+    // Node's Request drops cf, and cf is all getAllowanceDay reads
+    const request = { cf: { timezone: 'Asia/Ho_Chi_Minh' } } as unknown as Request<unknown, IncomingRequestCfProperties>;
+    expect(getAllowanceDay({ FREE_ALLOWANCE_DAY_BOUNDARY: 'local' }, request, now)).toBe('2026-10-20');
+    expect(getAllowanceDay({ FREE_ALLOWANCE_DAY_BOUNDARY: 'utc' }, request, now)).toBe('2026-10-19');
+    expect(getAllowanceDay({ FREE_ALLOWANCE_DAY_BOUNDARY: 'local' }, null, now)).toBe('2026-10-19');
+  });
+});
@@ -0,0 +1,57 @@
+// backend-cloudflare-workers/test/analytics.test.ts
+// Preset usage rollup: today's runs reach the trending windows on the next WEBHOOK_RETRY cron, not the next day
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import worker from '../index';
+import { getTrendingPresets, getUsageWindowStart } from '../analytics';
+import { SCHEDULED_CRONS } from '../config';
+import type { Env } from '../types';
+import { createTestContext, createTestEnv, type TestEnv } from './env';
+
+const ctx = createTestContext();
+
+describe('preset usage rollup', () => {
+  let testEnv: TestEnv;
+  let env: Env;
+  let db: D1Database;
+  const now = Math.floor(Date.now() / 1000);
+
+  beforeAll(async () => {
+    testEnv = await createTestEnv();
+    env = testEnv.env;
+    db = testEnv.db;
+  });
+
+  afterAll(async () => {
+    await testEnv.dispose();
+  });
+
+  beforeEach(async () => {
+    await db.batch([
+      db.prepare('DELETE FROM preset_usage_events'),
+      db.prepare('DELETE FROM preset_usage_daily'),
+      db.prepare('DELETE FROM presets'),
+      db.prepare("INSERT INTO presets (id, ext) VALUES ('preset_1', 'jpg'), ('preset_2', 'jpg')"),
+      ...[['preset_1', 'a', 'succeeded'], ['preset_1', 'b', 'succeeded'], ['preset_1', 'b', 'failed'], ['preset_2', 'a', 'succeeded']].map(
+        ([presetId, profileId, outcome]) => db.prepare(
+          "INSERT INTO preset_usage_events (preset_id, action, profile_id, outcome, created_at) VALUES (?, 'faceswap', ?, ?, ?)"
+        ).bind(presetId, profileId, outcome, now)
+      ),
+    ]);
+  });
+
+  const trending = (window: string) => getTrendingPresets(db, getUsageWindowStart(window)!, null, 20);
+
+  it('counts the runs of today in the 1d window after the WEBHOOK_RETRY cron', async () => {
+    expect(await trending('1d')).toEqual([]);
+
+    await worker.scheduled({ cron: SCHEDULED_CRONS.WEBHOOK_RETRY, scheduledTime: Date.now(), noRetry: () => {} } as ScheduledEvent, env, ctx);
+    await ctx.settle();
+
+    const presets = await trending('1d');
+    expect(presets.map(({ id, uses, succeeded, failed, profiles }) => ({ id, uses, succeeded, failed, profiles }))).toEqual([
+      { id: 'preset_1', uses: 3, succeeded: 2, failed: 1, profiles: 2 },
+      { id: 'preset_2', uses: 1, succeeded: 1, failed: 0, profiles: 1 },
+    ]);
+    expect((await trending('7d')).map(({ id }) => id)).toEqual(['preset_1', 'preset_2']);
+  });
+});
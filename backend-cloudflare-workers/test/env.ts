@@ -0,0 +1,63 @@
+// backend-cloudflare-workers/test/env.ts
+// Worker bindings for tests (Miniflare): DB with schema.sql and every migration (executed ones included) applied
+// in name order, and an empty R2 bucket
+/// <reference types="vite/client" />
+import { Miniflare } from 'miniflare';
+import type { Env } from '../types';
+
+const SCHEMA = import.meta.glob<string>('../schema.sql', { query: '?raw', import: 'default', eager: true });
+const MIGRATIONS = import.meta.glob<string>('../migrations/*.sql', { query: '?raw', import: 'default', eager: true });
+
+// One statement per entry; trigger bodies (BEGIN ... END;) stay in their CREATE TRIGGER statement
+const splitStatements = (sql: string): string[] => {
+  const statements: string[] = [];
+  let current = '';
+  for (const line of sql.split('\n')) {
+    const code = line.replace(/--.*$/, '').trimEnd();
+    if (!code.trim()) continue;
+    current += `${code}\n`;
+    const inTrigger = /^\s*CREATE\s+TRIGGER/i.test(current) && !/\bEND;$/i.test(code.trim());
+    if (code.endsWith(';') && !inTrigger) {
+      statements.push(current.trim());
+      current = '';
+    }
+  }
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+};
+
+export interface TestEnv {
+  env: Env;
+  db: D1Database;
+  bucket: R2Bucket;
+  dispose: () => Promise<void>;
+}
+
+export const createTestEnv = async (vars: Record<string, string> = {}): Promise<TestEnv> => {
+  const mf = new Miniflare({ modules: true, script: 'export default {}', d1Databases: ['DB'], r2Buckets: ['IMAGES'] });
+  const db = await mf.getD1Database('DB') as unknown as D1Database;
+  const bucket = await mf.getR2Bucket('IMAGES') as unknown as R2Bucket;
+  const files = [...Object.values(SCHEMA), ...Object.keys(MIGRATIONS).sort().map((name) => MIGRATIONS[name])];
+  for (const sql of files) {
+    for (const statement of splitStatements(sql)) {
+      try {
+        await db.prepare(statement).run();
+      } catch (error) {
+        // Columns already in schema.sql (migrations are "safe to fail if column exists")
+        if (!String(error).includes('duplicate column name')) throw error;
+      }
+    }
+  }
+  return { env: { ...vars, DB: db, IMAGES: bucket, R2_BUCKET_BINDING: 'IMAGES' }, db, bucket, dispose: () => mf.dispose() };
+};
+
+// Stand-in for the ExecutionContext of a request: waitUntil work is collected so tests can await it
+export const createTestContext = (): ExecutionContext & { settle: () => Promise<void> } => {
+  const pending: Promise<unknown>[] = [];
+  return {
+    waitUntil: (promise: Promise<unknown>) => { pending.push(promise); },
+    passThroughOnException: () => {},
+    props: {},
+    settle: async () => { await Promise.allSettled(pending); },
+  } as ExecutionContext & { settle: () => Promise<void> };
+};
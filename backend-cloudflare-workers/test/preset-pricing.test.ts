@@ -0,0 +1,70 @@
+// backend-cloudflare-workers/test/preset-pricing.test.ts
+// Premium presets and surcharges apply whether the preset is sent as preset_image_id or as the URL of its image
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import worker from '../index';
+import { CREDIT_REASON_CODES } from '../utils';
+import type { Env } from '../types';
+import { createTestContext, createTestEnv, type TestEnv } from './env';
+
+const ctx = createTestContext();
+const CDN = 'https://cdn.test';
+
+describe('preset pricing by preset_image_url', () => {
+  let testEnv: TestEnv;
+  let env: Env;
+  let db: D1Database;
+
+  beforeAll(async () => {
+    testEnv = await createTestEnv({ R2_DOMAIN: CDN, MOCK_IMAGE_PROVIDER: 'true', DISABLE_VISION_API: 'true' });
+    env = testEnv.env;
+    db = testEnv.db;
+    await testEnv.bucket.put('preset/premium_1.jpg', 'preset', { customMetadata: { prompt_json: JSON.stringify({ prompt: 'Age the face' }) } });
+  });
+
+  afterAll(async () => {
+    await testEnv.dispose();
+  });
+
+  beforeEach(async () => {
+    await db.batch([
+      db.prepare('DELETE FROM selfies'),
+      db.prepare('DELETE FROM presets'),
+      db.prepare('DELETE FROM profiles'),
+      db.prepare('INSERT INTO profiles (id, device_id, consumable_point_remaining) VALUES (?, ?, ?)').bind('buyer', 'device-a', 500),
+      db.prepare("INSERT INTO selfies (id, ext, profile_id, action) VALUES ('selfie_1', 'jpg', 'buyer', 'faceswap')"),
+      db.prepare("INSERT INTO presets (id, ext, is_premium, credit_surcharge) VALUES ('premium_1', 'jpg', 1, 0)"),
+    ]);
+  });
+
+  const post = async (path: string, body: Record<string, unknown>) => {
+    const response = await worker.fetch(new Request(`https://api.test${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ profile_id: 'buyer', ...body }),
+    }), env, ctx);
+    return { status: response.status, json: await response.json() as any };
+  };
+
+  const urls = {
+    original: `${CDN}/preset/premium_1.jpg`,
+    thumbnail: `${CDN}/preset_thumb/webp_2x/premium_1.webp`,
+  };
+
+  for (const [kind, url] of Object.entries(urls)) {
+    it(`keeps a premium preset for subscribers when its ${kind} URL is sent`, async () => {
+      for (const [path, body] of [
+        ['/faceswap', { selfie_ids: ['selfie_1'], preset_image_url: url }],
+        ['/background', { selfie_id: 'selfie_1', preset_image_url: url }],
+        ['/aging', { selfie_id: 'selfie_1', preset_image_url: url }],
+      ] as const) {
+        const { status, json } = await post(path, body);
+        expect({ path, status, reason: json.reason }).toEqual({ path, status: 402, reason: CREDIT_REASON_CODES.SUBSCRIBER_ONLY_PRESET });
+      }
+    });
+  }
+
+  it('rejects the URL of a preset image that is not in the catalog', async () => {
+    const { status } = await post('/background', { selfie_id: 'selfie_1', preset_image_url: `${CDN}/preset/removed_1.jpg` });
+    expect(status).toBe(404);
+  });
+});
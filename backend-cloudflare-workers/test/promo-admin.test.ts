@@ -0,0 +1,57 @@
+// backend-cloudflare-workers/test/promo-admin.test.ts
+// /admin/promo-* routes take ADMIN_API_KEY only: the mobile API key shipped in the app must not reach them
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import worker from '../index';
+import type { Env } from '../types';
+import { createTestContext, createTestEnv, type TestEnv } from './env';
+
+const MOBILE_API_KEY = 'mobile-key';
+const ADMIN_API_KEY = 'admin-key';
+
+const ctx = createTestContext();
+
+describe('promo admin routes', () => {
+  let testEnv: TestEnv;
+  let env: Env;
+
+  beforeAll(async () => {
+    testEnv = await createTestEnv({ MOBILE_API_KEY, ENABLE_MOBILE_API_KEY_AUTH: 'true', ADMIN_API_KEY });
+    env = testEnv.env;
+  });
+
+  afterAll(async () => {
+    await testEnv.dispose();
+  });
+
+  const call = (method: string, path: string, headers: Record<string, string>, body?: unknown) => worker.fetch(new Request(`https://api.test${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+  }), env, ctx);
+
+  const routes: [string, string, unknown?][] = [
+    ['GET', '/admin/promo-codes'],
+    ['POST', '/admin/promo-codes', { code: 'WELCOME10', sub_points: 0, consumable_points: 10 }],
+    ['GET', '/admin/promo-codes/WELCOME10/redemptions'],
+    ['POST', '/admin/promo-redemptions/missing/reverse', {}],
+  ];
+
+  for (const [method, path, body] of routes) {
+    it(`${method} ${path} rejects the mobile API key`, async () => {
+      expect((await call(method, path, { 'X-API-Key': MOBILE_API_KEY }, body)).status).toBe(401);
+      expect((await call(method, path, { Authorization: `Bearer ${MOBILE_API_KEY}` }, body)).status).toBe(401);
+    });
+  }
+
+  it('accepts the admin key', async () => {
+    const response = await call('GET', '/admin/promo-codes', { 'X-Admin-Key': ADMIN_API_KEY });
+    expect(response.status).toBe(200);
+    expect((await response.json() as any).status).toBe('success');
+  });
+
+  it('stays closed while ADMIN_API_KEY is unset', async () => {
+    const { ADMIN_API_KEY: _unset, ...withoutAdminKey } = env;
+    const response = await worker.fetch(new Request('https://api.test/admin/promo-codes', { headers: { 'X-Admin-Key': ADMIN_API_KEY } }), withoutAdminKey, ctx);
+    expect(response.status).toBe(401);
+  });
+});
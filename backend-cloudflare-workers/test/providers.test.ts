@@ -0,0 +1,87 @@
+// backend-cloudflare-workers/test/providers.test.ts
+// Mock image provider: when it is selected (deployment config only, never the request) and what it generates
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Miniflare } from 'miniflare';
+import { PhotonImage } from '@cf-wasm/photon/workerd';
+import { getImageProvider, resolveImageProvider, resolveImageProviderChain } from '../providers';
+import { validateBody, FACESWAP_SCHEMA } from '../validators';
+import type { Env } from '../types';
+
+describe('mock provider selection', () => {
+  it('is never picked by the request "provider"', () => {
+    expect(resolveImageProvider({ provider: 'mock' }, {}, 'FACESWAP').name).toBe('wavespeed');
+    expect(resolveImageProvider({ provider: 'mock' }, {}, 'MERGE').name).toBe('vertex');
+  });
+
+  it('is rejected by the body schema', () => {
+    const result = validateBody(FACESWAP_SCHEMA, { profile_id: 'p1', selfie_ids: ['s1'], preset_image_id: 'preset1', provider: 'mock' });
+    expect(result.valid).toBe(false);
+    if (!result.valid) expect(result.errors).toContainEqual(expect.objectContaining({ field: 'provider', code: 'invalid_value' }));
+  });
+
+  it('runs every mode when MOCK_IMAGE_PROVIDER=true, whatever the request asks for', () => {
+    const env: Env = { MOCK_IMAGE_PROVIDER: 'true' };
+    expect(resolveImageProvider({ provider: 'vertex' }, env, 'FACESWAP').name).toBe('mock');
+    expect(resolveImageProvider(undefined, env, 'UPSCALE').name).toBe('mock');
+    expect(resolveImageProviderChain(undefined, env, 'FACESWAP').map((provider) => provider.name)).toEqual(['mock']);
+  });
+
+  it('can be configured per mode with IMAGE_PROVIDER_<MODE>', () => {
+    const env: Env = { IMAGE_PROVIDER_EDITOR: 'mock' };
+    expect(resolveImageProvider(undefined, env, 'EDITOR').name).toBe('mock');
+    expect(resolveImageProvider(undefined, env, 'FACESWAP').name).toBe('wavespeed');
+  });
+
+  it('is never added as a failover', () => {
+    const env: Env = { WAVESPEED_API_KEY: 'key', IMAGE_FAILOVER_FACESWAP: 'mock,wavespeed_gemini_2_5_flash_image' };
+    const chain = resolveImageProviderChain(undefined, env, 'FACESWAP').map((provider) => provider.name);
+    expect(chain).not.toContain('mock');
+  });
+});
+
+describe('mock provider output', () => {
+  let mf: Miniflare;
+  let env: Env;
+
+  beforeAll(async () => {
+    mf = new Miniflare({ modules: true, script: 'export default {}', r2Buckets: ['IMAGES'] });
+    env = { R2_BUCKET_BINDING: 'IMAGES', IMAGES: await mf.getR2Bucket('IMAGES') };
+  });
+
+  afterAll(async () => {
+    await mf.dispose();
+  });
+
+  const readImage = async (r2Url: string): Promise<{ width: number; height: number; bytes: Uint8Array }> => {
+    const object = await env.IMAGES.get(r2Url.replace('r2://', ''));
+    const bytes = new Uint8Array(await object.arrayBuffer());
+    const image = PhotonImage.new_from_byteslice(bytes);
+    try {
+      return { width: image.get_width(), height: image.get_height(), bytes };
+    } finally {
+      image.free();
+    }
+  };
+
+  it('stores a JPEG sized by the aspect ratio, or by an explicit size', async () => {
+    const mock = getImageProvider('mock');
+    const portrait = await mock.run({ mode: 'FACESWAP', prompt: 'swap', imageUrls: ['https://example.com/a.jpg'], aspectRatio: '9:16' }, env);
+    expect(portrait.Success).toBe(true);
+    expect(await readImage(portrait.ResultImageUrl!)).toMatchObject({ width: 576, height: 1024 });
+
+    const sized = await mock.run({ mode: 'UPSCALE', imageUrls: ['https://example.com/a.jpg'], size: '320x200' }, env);
+    expect(await readImage(sized.ResultImageUrl!)).toMatchObject({ width: 320, height: 200 });
+  });
+
+  it('returns the same image for the same request under a new result key', async () => {
+    const mock = getImageProvider('mock');
+    const request = { mode: 'EDITOR' as const, prompt: 'make it blue', imageUrls: ['https://example.com/a.jpg'], size: '64x64' };
+    const first = await mock.run(request, env);
+    const second = await mock.run(request, env);
+    const other = await mock.run({ ...request, prompt: 'make it red' }, env);
+
+    expect(second.ResultImageUrl).not.toBe(first.ResultImageUrl);
+    expect((await readImage(second.ResultImageUrl!)).bytes).toEqual((await readImage(first.ResultImageUrl!)).bytes);
+    expect(other.Debug?.seed).not.toBe(first.Debug?.seed);
+  });
+});
@@ -0,0 +1,77 @@
+// backend-cloudflare-workers/test/referrals.test.ts
+// Referral rewards: granted once on the invitee's first purchase, taken back when that purchase is refunded
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { redeemReferralCode, getOrCreateReferralCode, rewardReferral, reverseReferralReward, getReferralRewards } from '../referrals';
+import { applyCreditChange } from '../ledger';
+import type { Referral } from '../types';
+import { createTestEnv, type TestEnv } from './env';
+
+describe('referral reversal', () => {
+  let testEnv: TestEnv;
+  let db: D1Database;
+
+  beforeAll(async () => {
+    testEnv = await createTestEnv();
+    db = testEnv.db;
+  });
+
+  afterAll(async () => {
+    await testEnv.dispose();
+  });
+
+  beforeEach(async () => {
+    await db.batch([
+      db.prepare('DELETE FROM referrals'),
+      db.prepare('DELETE FROM credit_ledger'),
+      db.prepare('DELETE FROM profiles'),
+      db.prepare('INSERT INTO profiles (id, device_id, signup_ip) VALUES (?, ?, ?)').bind('inviter', 'device-a', '10.0.0.1'),
+      db.prepare('INSERT INTO profiles (id, device_id) VALUES (?, ?)').bind('invitee', 'device-b'),
+    ]);
+    const code = await getOrCreateReferralCode(db, 'inviter');
+    const redeemed = await redeemReferralCode(db, 'invitee', code!, '10.0.0.2');
+    expect(redeemed).toMatchObject({ kind: 'recorded', referral: { status: 'pending' } });
+  });
+
+  const balance = async (profileId: string) => (await db.prepare('SELECT consumable_point_remaining FROM profiles WHERE id = ?').bind(profileId).first<{ consumable_point_remaining: number }>())!.consumable_point_remaining;
+  const referral = async () => (await db.prepare('SELECT * FROM referrals WHERE invitee_profile_id = ?').bind('invitee').first<Referral>())!;
+
+  it('takes both rewards back when the qualifying payment is refunded, once', async () => {
+    const rewards = getReferralRewards(testEnv.env);
+    await rewardReferral(db, testEnv.env, 'invitee', { payment_id: 'pay-1' });
+    expect(await balance('invitee')).toBe(rewards.invitee);
+    expect(await balance('inviter')).toBe(rewards.inviter);
+
+    const reversed = await reverseReferralReward(db, { payment_id: 'pay-1' }, 'refunded');
+    expect(reversed).toMatchObject({ status: 'reversed', reversal_reason: 'refunded' });
+    expect(await referral()).toMatchObject({ status: 'reversed', reversal_reason: 'refunded' });
+    expect(await balance('invitee')).toBe(0);
+    expect(await balance('inviter')).toBe(0);
+
+    // The same refund delivered again (webhook and voided purchases sync)
+    expect(await reverseReferralReward(db, { payment_id: 'pay-1' }, 'voided')).toBeNull();
+    expect(await balance('inviter')).toBe(0);
+  });
+
+  it('clamps at 0 when the credits were already spent', async () => {
+    const rewards = getReferralRewards(testEnv.env);
+    await applyCreditChange(db, { profileId: 'inviter', type: 'grant', consumable: 3 });
+    await rewardReferral(db, testEnv.env, 'invitee', { payment_id: 'pay-1' });
+    await applyCreditChange(db, { profileId: 'invitee', type: 'deduct', consumable: -rewards.invitee });
+
+    await reverseReferralReward(db, { payment_id: 'pay-1' }, 'voided');
+    expect(await balance('invitee')).toBe(0);
+    expect(await balance('inviter')).toBe(3);
+  });
+
+  it('matches subscription purchases by subscription_id', async () => {
+    await rewardReferral(db, testEnv.env, 'invitee', { subscription_id: 'sub-1' });
+    expect(await reverseReferralReward(db, { subscription_id: 'sub-2' }, 'revoked')).toBeNull();
+    expect(await reverseReferralReward(db, { subscription_id: 'sub-1' }, 'revoked')).toMatchObject({ status: 'reversed' });
+  });
+
+  it('leaves referrals another purchase rewarded alone', async () => {
+    await rewardReferral(db, testEnv.env, 'invitee', { payment_id: 'pay-1' });
+    expect(await reverseReferralReward(db, { payment_id: 'pay-2' }, 'refunded')).toBeNull();
+    expect((await referral()).status).toBe('rewarded');
+  });
+});
@@ -0,0 +1,105 @@
+// backend-cloudflare-workers/test/selfies.test.ts
+// Selfie quality gate: what the local analyzer measures and which uploads are rejected or accepted with warnings
+import { describe, expect, it } from 'vitest';
+import { PhotonImage } from '@cf-wasm/photon/workerd';
+import { analyzeSelfie, gateSelfie } from '../selfies';
+import { SELFIE_QUALITY_CONFIG } from '../config';
+import { SELFIE_QUALITY_CODES } from '../utils';
+import type { Env, SelfieAnalysis } from '../types';
+
+// PNG of a 16px checkerboard (sharp edges everywhere) or of a flat grey (no edges at all)
+const selfieBytes = (width: number, height: number, pattern: 'sharp' | 'flat'): ArrayBuffer => {
+  const pixels = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = pattern === 'flat' ? 128 : ((x >> 4) + (y >> 4)) % 2 ? 230 : 25;
+      pixels.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  const image = new PhotonImage(pixels, width, height);
+  try {
+    return image.get_bytes().slice().buffer;
+  } finally {
+    image.free();
+  }
+};
+
+const analyze = (bytes: ArrayBuffer, env: Env = {}) => analyzeSelfie(bytes, 'https://cdn.test/selfie.png', 'local', env);
+
+const measured = (overrides: Partial<SelfieAnalysis> = {}): SelfieAnalysis => ({
+  analyzer: 'vision',
+  width: 1080,
+  height: 1440,
+  face_count: 1,
+  face_box: { x: 300, y: 400, width: 480, height: 480 },
+  blur: 0.1,
+  ...overrides,
+});
+
+describe('local selfie analyzer', () => {
+  it('accepts a sharp selfie with one face', async () => {
+    const analysis = await analyze(selfieBytes(640, 800, 'sharp'));
+    expect(analysis).toMatchObject({ analyzer: 'local', width: 640, height: 800, face_count: 1 });
+    expect(analysis.face_box).toEqual({ x: 192, y: 272, width: 256, height: 256 });
+    expect(analysis.blur).toBeLessThan(SELFIE_QUALITY_CONFIG.BLUR_WARN);
+    expect(gateSelfie(analysis)).toEqual({ kind: 'accepted', analysis, warnings: [] });
+  });
+
+  it('rejects a selfie without a face when SELFIE_LOCAL_FACE_COUNT=0', async () => {
+    const analysis = await analyze(selfieBytes(640, 640, 'sharp'), { SELFIE_LOCAL_FACE_COUNT: '0' });
+    expect(analysis).toMatchObject({ face_count: 0, face_box: null });
+    expect(gateSelfie(analysis)).toMatchObject({ kind: 'rejected', code: SELFIE_QUALITY_CODES.NO_FACE });
+  });
+
+  it('rejects a selfie with several faces when SELFIE_LOCAL_FACE_COUNT=2', async () => {
+    const analysis = await analyze(selfieBytes(640, 640, 'sharp'), { SELFIE_LOCAL_FACE_COUNT: '2' });
+    expect(analysis.face_count).toBe(2);
+    expect(gateSelfie(analysis)).toMatchObject({ kind: 'rejected', code: SELFIE_QUALITY_CODES.MULTIPLE_FACES });
+  });
+
+  it('reports one face when SELFIE_LOCAL_FACE_COUNT is not a count', async () => {
+    const analysis = await analyze(selfieBytes(640, 640, 'sharp'), { SELFIE_LOCAL_FACE_COUNT: 'many' });
+    expect(analysis.face_count).toBe(1);
+  });
+
+  it('rejects a blurry selfie', async () => {
+    const analysis = await analyze(selfieBytes(640, 640, 'flat'));
+    expect(analysis.blur).toBe(1);
+    expect(gateSelfie(analysis)).toMatchObject({ kind: 'rejected', code: SELFIE_QUALITY_CODES.BLURRY });
+  });
+
+  it('rejects a low resolution selfie before looking at its faces', async () => {
+    const analysis = await analyze(selfieBytes(200, 300, 'sharp'), { SELFIE_LOCAL_FACE_COUNT: '0' });
+    expect(gateSelfie(analysis)).toMatchObject({ kind: 'rejected', code: SELFIE_QUALITY_CODES.LOW_RESOLUTION });
+  });
+
+  it('skips the pixel and face checks when the upload is not an image', async () => {
+    const analysis = await analyze(await new Blob(['not an image']).arrayBuffer());
+    expect(analysis).toMatchObject({ width: null, height: null, face_count: null, face_box: null, blur: null });
+    expect(gateSelfie(analysis)).toMatchObject({ kind: 'accepted', warnings: [] });
+  });
+});
+
+describe('selfie gate', () => {
+  it('rejects a face smaller than FACE_REJECT_PX and warns below FACE_WARN_PX', () => {
+    const small = measured({ face_box: { x: 500, y: 600, width: SELFIE_QUALITY_CONFIG.FACE_REJECT_PX - 1, height: 60 } });
+    expect(gateSelfie(small)).toMatchObject({ kind: 'rejected', code: SELFIE_QUALITY_CODES.FACE_TOO_SMALL });
+
+    const smallish = measured({ face_box: { x: 500, y: 600, width: SELFIE_QUALITY_CONFIG.FACE_WARN_PX - 1, height: 120 } });
+    expect(gateSelfie(smallish)).toMatchObject({ kind: 'accepted', warnings: [SELFIE_QUALITY_CODES.FACE_TOO_SMALL] });
+  });
+
+  it('accepts a slightly blurry, low resolution selfie with both warnings', () => {
+    const analysis = measured({ width: SELFIE_QUALITY_CONFIG.SHORT_SIDE_WARN_PX - 1, height: 700, blur: SELFIE_QUALITY_CONFIG.BLUR_WARN });
+    expect(gateSelfie(analysis)).toEqual({
+      kind: 'accepted', analysis, warnings: [SELFIE_QUALITY_CODES.LOW_RESOLUTION, SELFIE_QUALITY_CODES.BLURRY],
+    });
+  });
+
+  it('rejects on the first failed check: resolution, then faces, then blur', () => {
+    const everything = measured({ width: 100, height: 100, face_count: 0, face_box: null, blur: 1 });
+    expect(gateSelfie(everything)).toMatchObject({ code: SELFIE_QUALITY_CODES.LOW_RESOLUTION });
+    expect(gateSelfie({ ...everything, width: 1080, height: 1440 })).toMatchObject({ code: SELFIE_QUALITY_CODES.NO_FACE });
+    expect(gateSelfie({ ...everything, width: 1080, height: 1440, face_count: null })).toMatchObject({ code: SELFIE_QUALITY_CODES.BLURRY });
+  });
+});
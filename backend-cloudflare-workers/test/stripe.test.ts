@@ -0,0 +1,120 @@
+// backend-cloudflare-workers/test/stripe.test.ts
+// Stripe-Signature verification against recorded webhook deliveries (fixtures/stripe), checked at the time they were sent,
+// and web payments completed by events that arrive late
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import worker from '../index';
+import { verifyStripeSignature, toStripeAmount } from '../stripe';
+import { STRIPE_CONFIG, SCHEDULED_CRONS } from '../config';
+import { createTestContext, createTestEnv, type TestEnv } from './env';
+import checkoutSessionCompleted from './fixtures/stripe/checkout_session_completed.json';
+import chargeRefunded from './fixtures/stripe/charge_refunded.json';
+
+// Endpoint secret of the test-mode endpoint the fixtures were recorded with
+const WEBHOOK_SECRET = 'whsec_test_5Wq1d3cYbJ8kTn2hVfL0xRzA';
+
+const signedAt = (signature: string): number => Number(signature.split(',')[0].slice('t='.length));
+
+describe('verifyStripeSignature', () => {
+  for (const [name, fixture] of Object.entries({ 'checkout.session.completed': checkoutSessionCompleted, 'charge.refunded': chargeRefunded })) {
+    describe(name, () => {
+      const now = signedAt(fixture.signature);
+
+      it('accepts the recorded delivery', async () => {
+        expect(JSON.parse(fixture.payload).type).toBe(name);
+        expect(await verifyStripeSignature(fixture.payload, fixture.signature, WEBHOOK_SECRET, now)).toEqual({ valid: true });
+      });
+
+      it('accepts it up to the tolerance window after it was sent', async () => {
+        const result = await verifyStripeSignature(fixture.payload, fixture.signature, WEBHOOK_SECRET, now + STRIPE_CONFIG.SIGNATURE_TOLERANCE_SECONDS);
+        expect(result.valid).toBe(true);
+      });
+
+      it('rejects a replay after the tolerance window', async () => {
+        const result = await verifyStripeSignature(fixture.payload, fixture.signature, WEBHOOK_SECRET, now + STRIPE_CONFIG.SIGNATURE_TOLERANCE_SECONDS + 1);
+        expect(result).toEqual({ valid: false, error: 'Timestamp outside the tolerance window' });
+      });
+
+      it('rejects a modified body', async () => {
+        const tampered = fixture.payload.replace('"livemode": false', '"livemode": true');
+        expect(tampered).not.toBe(fixture.payload);
+        expect(await verifyStripeSignature(tampered, fixture.signature, WEBHOOK_SECRET, now)).toEqual({ valid: false, error: 'No matching signature' });
+      });
+
+      it('rejects another endpoint secret', async () => {
+        const result = await verifyStripeSignature(fixture.payload, fixture.signature, 'whsec_test_other', now);
+        expect(result).toEqual({ valid: false, error: 'No matching signature' });
+      });
+
+      it('accepts any matching v1 during secret rotation', async () => {
+        const [timestamp, v1] = fixture.signature.split(',');
+        const rotated = `${timestamp},v1=${'0'.repeat(64)},${v1}`;
+        expect((await verifyStripeSignature(fixture.payload, rotated, WEBHOOK_SECRET, now)).valid).toBe(true);
+      });
+    });
+  }
+
+  it('rejects a missing or malformed header', async () => {
+    const now = signedAt(checkoutSessionCompleted.signature);
+    expect(await verifyStripeSignature(checkoutSessionCompleted.payload, null, WEBHOOK_SECRET, now))
+      .toEqual({ valid: false, error: 'Missing Stripe-Signature header' });
+    expect(await verifyStripeSignature(checkoutSessionCompleted.payload, `t=${now}`, WEBHOOK_SECRET, now))
+      .toEqual({ valid: false, error: 'Malformed Stripe-Signature header' });
+  });
+});
+
+describe('late Stripe payments', () => {
+  let testEnv: TestEnv;
+  const ctx = createTestContext();
+
+  beforeAll(async () => {
+    testEnv = await createTestEnv({ STRIPE_WEBHOOK_SECRET: WEBHOOK_SECRET });
+  });
+
+  afterAll(async () => {
+    await testEnv.dispose();
+  });
+
+  // Signed now, as Stripe would deliver it
+  const deliver = async (event: Record<string, unknown>) => {
+    const payload = JSON.stringify(event);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(WEBHOOK_SECRET), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${payload}`)));
+    const v1 = Array.from(mac, (byte) => byte.toString(16).padStart(2, '0')).join('');
+    return worker.fetch(new Request('https://api.test/webhooks/stripe', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Stripe-Signature': `t=${timestamp},v1=${v1}` },
+      body: payload,
+    }), testEnv.env, ctx);
+  };
+
+  it('completes a delayed payment that succeeds after the daily cleanup', async () => {
+    const { db } = testEnv;
+    const twoHoursAgo = Math.floor(Date.now() / 1000) - 7200;
+    await db.batch([
+      db.prepare('INSERT INTO profiles (id, device_id) VALUES (?, ?)').bind('web-buyer', 'device-web'),
+      db.prepare(
+        "INSERT INTO payments (id, profile_id, sku, order_id, purchase_token, status, credits_granted, amount_micros, currency, platform, created_at) VALUES ('pay-web', 'web-buyer', 'credits_10', 'cs_test_late', 'cs_test_late', 'PENDING', 10, 22000000000, 'VND', 'web', ?)"
+      ).bind(twoHoursAgo),
+      db.prepare(
+        "INSERT INTO payments (id, profile_id, sku, order_id, purchase_token, status, credits_granted, platform, created_at) VALUES ('pay-android', 'web-buyer', 'credits_10', 'GPA.stale', 'token-stale', 'PENDING', 10, 'android', ?)"
+      ).bind(twoHoursAgo),
+    ]);
+
+    await worker.scheduled({ cron: SCHEDULED_CRONS.DAILY_CLEANUP, scheduledTime: Date.now(), noRetry: () => {} } as ScheduledEvent, testEnv.env, ctx);
+    await ctx.settle();
+    const status = async (id: string) => (await db.prepare('SELECT status FROM payments WHERE id = ?').bind(id).first<{ status: string }>())!.status;
+    expect(await status('pay-android')).toBe('FAILED');
+    expect(await status('pay-web')).toBe('PENDING');
+
+    const response = await deliver({
+      id: 'evt_test_late', object: 'event', type: STRIPE_CONFIG.EVENT_TYPES.CHECKOUT_ASYNC_PAYMENT_SUCCEEDED,
+      data: { object: { id: 'cs_test_late', object: 'checkout.session', payment_status: 'paid', payment_intent: 'pi_test_late', amount_total: toStripeAmount(22000000000, 'VND'), currency: 'vnd' } },
+    });
+    expect(response.status).toBe(200);
+    await ctx.settle();
+    expect(await status('pay-web')).toBe('COMPLETED');
+    const profile = await db.prepare('SELECT consumable_point_remaining FROM profiles WHERE id = ?').bind('web-buyer').first<{ consumable_point_remaining: number }>();
+    expect(profile!.consumable_point_remaining).toBe(10);
+  });
+});
@@ -0,0 +1,134 @@
+// backend-cloudflare-workers/test/voided.test.ts
+// Google Play voided purchases reconciliation: each voided order applied once to its payment
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { syncVoidedPurchases, type ListVoidedPurchases, type RefundVoidedPayment, type VoidedPayment } from '../voided';
+import { GOOGLE_PLAY_CONFIG } from '../config';
+import type { GooglePlayVoidedPurchase } from '../types';
+import type { GooglePlayVoidedPurchasesPage } from '../services';
+import { createTestEnv, type TestEnv } from './env';
+
+describe('voided purchases sync', () => {
+  let testEnv: TestEnv;
+  let db: D1Database;
+  const nowSeconds = Math.floor(Date.now() / 1000);
+
+  // Stand-in for refundDeposit: marks the payment REFUNDED and reports 4 of its 10 credits as already spent
+  const refunds: { payment: VoidedPayment; details: Record<string, unknown> }[] = [];
+  const refundPayment: RefundVoidedPayment = async (payment, details) => {
+    refunds.push({ payment, details });
+    const updated = await db.prepare("UPDATE payments SET status = 'REFUNDED' WHERE id = ? AND status = 'COMPLETED'").bind(payment.id).run();
+    return updated.meta.changes ? { deducted: 6, unrecovered: 4 } : null;
+  };
+
+  beforeAll(async () => {
+    testEnv = await createTestEnv();
+    db = testEnv.db;
+  });
+
+  afterAll(async () => {
+    await testEnv.dispose();
+  });
+
+  beforeEach(async () => {
+    refunds.length = 0;
+    await db.batch([
+      db.prepare('DELETE FROM voided_purchases'),
+      db.prepare('DELETE FROM payments'),
+      db.prepare('DELETE FROM audit_log'),
+      db.prepare('DELETE FROM profiles'),
+      db.prepare('INSERT INTO profiles (id, device_id) VALUES (?, ?)').bind('buyer', 'device-a'),
+      ...[['pay-1', 'GPA.1', 'token-1', 'COMPLETED'], ['pay-2', 'GPA.2', 'token-2', 'REFUNDED'], ['pay-3', 'GPA.3', 'token-3', 'PENDING']].map(
+        ([id, orderId, token, status]) => db.prepare(
+          "INSERT INTO payments (id, profile_id, sku, order_id, purchase_token, status, credits_granted) VALUES (?, 'buyer', 'credits_10', ?, ?, ?, 10)"
+        ).bind(id, orderId, token, status)
+      ),
+    ]);
+  });
+
+  const voided = (orderId: string, purchaseToken: string, secondsAgo = 60): GooglePlayVoidedPurchase => ({
+    orderId, purchaseToken, voidedTimeMillis: String((nowSeconds - secondsAgo) * 1000), voidedSource: 2, voidedReason: 7,
+  });
+
+  // Serves the pages in order and records the arguments of each call
+  const listPages = (...pages: GooglePlayVoidedPurchasesPage[]) => {
+    const calls: { startTimeMillis: number; pageToken?: string }[] = [];
+    const list: ListVoidedPurchases = async (_env, startTimeMillis, _endTimeMillis, pageToken) => {
+      calls.push({ startTimeMillis, pageToken });
+      return pages[calls.length - 1] ?? { success: true, voidedPurchases: [] };
+    };
+    return { list, calls };
+  };
+
+  const row = (orderId: string) => db.prepare('SELECT * FROM voided_purchases WHERE order_id = ?').bind(orderId).first();
+
+  it('refunds a completed payment once, however often the order is listed', async () => {
+    const page = { success: true, voidedPurchases: [voided('GPA.1', 'token-1')] };
+    const first = await syncVoidedPurchases(db, testEnv.env, refundPayment, listPages(page).list);
+    expect(first).toEqual({ fetched: 1, applied: { refunded: 1, already_refunded: 0, not_granted: 0, unmatched: 0 } });
+    expect(refunds).toHaveLength(1);
+    expect(refunds[0].payment).toMatchObject({ id: 'pay-1', profile_id: 'buyer', credits_granted: 10 });
+    expect(refunds[0].details).toEqual({ source: 'voided_purchases', order_id: 'GPA.1', voided_source: 'google', voided_reason: 'chargeback' });
+    expect(await row('GPA.1')).toMatchObject({
+      status: 'refunded', payment_id: 'pay-1', profile_id: 'buyer', credits_deducted: 6, credits_unrecovered: 4,
+      voided_source: 'google', voided_reason: 'chargeback', voided_at: nowSeconds - 60,
+    });
+
+    // The next run re-reads the overlap window and lists the same order again
+    const second = await syncVoidedPurchases(db, testEnv.env, refundPayment, listPages(page).list);
+    expect(second).toEqual({ fetched: 1, applied: { refunded: 0, already_refunded: 0, not_granted: 0, unmatched: 0 } });
+    expect(refunds).toHaveLength(1);
+  });
+
+  it('records payments refunded before, payments never granted and unknown orders', async () => {
+    const page = { success: true, voidedPurchases: [voided('GPA.2', 'token-2'), voided('GPA.3', 'token-3'), voided('GPA.9', 'token-9')] };
+    const result = await syncVoidedPurchases(db, testEnv.env, refundPayment, listPages(page).list);
+    expect(result.applied).toEqual({ refunded: 0, already_refunded: 1, not_granted: 1, unmatched: 1 });
+    expect(refunds).toHaveLength(0);
+    expect(await row('GPA.2')).toMatchObject({ status: 'already_refunded', payment_id: 'pay-2', credits_deducted: 0 });
+    expect(await row('GPA.3')).toMatchObject({ status: 'not_granted', payment_id: 'pay-3' });
+    expect(await row('GPA.9')).toMatchObject({ status: 'unmatched', payment_id: null, profile_id: null });
+    const audit = await db.prepare("SELECT details FROM audit_log WHERE action = 'VOIDED_PURCHASE_UNMATCHED'").first<{ details: string }>();
+    expect(JSON.parse(audit!.details)).toMatchObject({ order_id: 'GPA.9' });
+  });
+
+  it('matches by purchase token when the order id differs', async () => {
+    const page = { success: true, voidedPurchases: [voided('GPA.1..0', 'token-1')] };
+    const result = await syncVoidedPurchases(db, testEnv.env, refundPayment, listPages(page).list);
+    expect(result.applied.refunded).toBe(1);
+    expect(await row('GPA.1..0')).toMatchObject({ status: 'refunded', payment_id: 'pay-1' });
+  });
+
+  it('follows page tokens and resumes from the newest voided purchase seen', async () => {
+    const { list, calls } = listPages(
+      { success: true, voidedPurchases: [voided('GPA.2', 'token-2', 7200)], nextPageToken: 'page-2' },
+      { success: true, voidedPurchases: [voided('GPA.1', 'token-1', 600)] },
+    );
+    const result = await syncVoidedPurchases(db, testEnv.env, refundPayment, list);
+    expect(result.fetched).toBe(2);
+    expect(calls.map((call) => call.pageToken)).toEqual([undefined, 'page-2']);
+    // Empty table: as far back as the API allows
+    expect(calls[0].startTimeMillis).toBeLessThanOrEqual((nowSeconds - GOOGLE_PLAY_CONFIG.VOIDED_PURCHASES.MAX_LOOKBACK_SECONDS + 5) * 1000);
+    expect(calls[1].startTimeMillis).toBe(calls[0].startTimeMillis);
+
+    const next = listPages();
+    await syncVoidedPurchases(db, testEnv.env, refundPayment, next.list);
+    expect(next.calls[0].startTimeMillis).toBe((nowSeconds - 600 - GOOGLE_PLAY_CONFIG.VOIDED_PURCHASES.OVERLAP_SECONDS) * 1000);
+  });
+
+  it('reports a failed listing without applying anything', async () => {
+    const result = await syncVoidedPurchases(db, testEnv.env, refundPayment, listPages({ success: false, voidedPurchases: [], error: 'HTTP 401' }).list);
+    expect(result).toEqual({ fetched: 0, applied: { refunded: 0, already_refunded: 0, not_granted: 0, unmatched: 0 }, error: 'HTTP 401' });
+    expect(await db.prepare('SELECT COUNT(*) AS count FROM voided_purchases').first('count')).toBe(0);
+  });
+
+  it('gives the claim back when the refund fails so the next run retries it', async () => {
+    const page = { success: true, voidedPurchases: [voided('GPA.1', 'token-1')] };
+    const failing: RefundVoidedPayment = async () => { throw new Error('D1 unavailable'); };
+    await expect(syncVoidedPurchases(db, testEnv.env, failing, listPages(page).list)).rejects.toThrow('D1 unavailable');
+    expect(await row('GPA.1')).toBeNull();
+
+    const retry = await syncVoidedPurchases(db, testEnv.env, refundPayment, listPages(page).list);
+    expect(retry.applied.refunded).toBe(1);
+    expect(refunds).toHaveLength(1);
+  });
+});
@@ -5,6 +5,7 @@ export interface Env {
   RATE_LIMITER?: {
     limit(options: { key: string }): Promise<{ success: boolean }>;
   }; // Cloudflare built-in rate limiter
+  JOBS_QUEUE?: Queue<JobQueueMessage>; // Async jobs; without it jobs run in waitUntil after the 202
 }
 
 export interface FaceSwapRequest {
@@ -91,10 +92,33 @@ export interface GoogleVisionResponse {
       violence: string; // Hình ảnh này có khả năng chứa nội dung bạo lực. Nội dung bạo lực có thể bao gồm cái chết, thương tích nghiêm trọng hoặc tổn hại đến cá nhân hoặc nhóm cá nhân.
       racy: string; // Khả năng cao hình ảnh được yêu cầu chứa nội dung khiêu dâm. Nội dung khiêu dâm có thể bao gồm (nhưng không giới hạn) quần áo mỏng manh hoặc xuyên thấu, khỏa thân được che đậy một cách khéo léo, tư thế tục tĩu hoặc khiêu khích, hoặc cận cảnh các vùng nhạy cảm trên cơ thể.
     };
+    faceAnnotations?: Array<{
+      fdBoundingPoly?: { vertices?: Array<{ x?: number; y?: number }> }; // Tight box around the face skin
+      detectionConfidence?: number;
+    }>;
     error?: { message: string };
   }>;
 }
 
+// Selfie quality gate (POST /upload-url, type=selfie); stored on the selfies row by migration 0030
+export type SelfieAnalyzerName = 'vision' | 'local';
+
+export interface SelfieFaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SelfieAnalysis {
+  analyzer: SelfieAnalyzerName;
+  width: number | null;               // Null when the image could not be decoded (size and blur checks skipped)
+  height: number | null;
+  face_count: number | null;          // Null when face detection failed (face checks skipped)
+  face_box: SelfieFaceBox | null;     // Largest face, in pixels of the uploaded image
+  blur: number | null;                // 0 = sharp, 1 = very blurred
+}
+
 export interface UploadUrlRequest {
   filename: string;
   type: 'preset' | 'selfie';
@@ -141,6 +165,7 @@ export interface Profile {
   consumable_point_remaining?: number;
   total_credits_purchased?: number;
   total_credits_spent?: number;
+  callback_url?: string | null; // Webhook endpoint for AI results (PUT /profiles/:id/webhook)
   created_at: string;
   updated_at: string;
 }
@@ -149,6 +174,229 @@ export interface Profile {
 // Payment & Credit System Types
 // ============================================================
 
+// Credit ledger (credit_ledger table): one immutable entry per balance change
+export type CreditLedgerEntryType = 'opening_balance' | 'grant' | 'deduct' | 'refund' | 'subscription_reset' | 'expiry' | 'adjustment';
+
+// What an entry is about (all optional; refunds point at the deduction they return)
+export interface CreditLedgerLinks {
+  payment_id?: string | null;
+  subscription_id?: string | null;
+  result_id?: string | null;
+  batch_id?: string | null;
+  related_entry_id?: number | null;
+}
+
+export interface CreditLedgerEntry extends Required<CreditLedgerLinks> {
+  id: number;
+  profile_id: string;
+  entry_type: CreditLedgerEntryType;
+  sub_delta: number;
+  consumable_delta: number;
+  sub_balance_after: number;
+  consumable_balance_after: number;
+  action: string | null;
+  note: string | null;
+  created_at: number;
+}
+
+// Promo code (promo_codes table): consumable credits granted on redemption
+export interface PromoCode {
+  code: string;
+  credits: number;
+  max_redemptions: number | null;
+  per_profile_limit: number;
+  redemption_count: number;
+  countries: string | null;           // JSON array of country codes and/or COUNTRY_TIER_MAP tier names
+  starts_at: number | null;
+  expires_at: number | null;
+  is_active: number;
+  note: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export type PromoRedemptionStatus = 'granted' | 'reversed';
+
+export interface PromoRedemption {
+  id: string;
+  code: string;
+  profile_id: string;
+  credits: number;
+  country: string | null;
+  status: PromoRedemptionStatus;
+  ledger_entry_id: number | null;
+  reversed_at: number | null;
+  reversal_reason: string | null;
+  created_at: number;
+}
+
+// POST /api/promo/redeem
+export interface PromoRedeemRequest {
+  profile_id: string;
+  code: string;
+}
+
+// POST /admin/promo-codes
+export interface PromoCodeCreateRequest {
+  code: string;
+  credits: number;
+  max_redemptions?: number | null;
+  per_profile_limit?: number;
+  countries?: string[] | null;
+  starts_at?: string | null;          // ISO 8601
+  expires_at?: string | null;
+  note?: string | null;
+}
+
+// Audit log entry (audit_log table); details is JSON
+export interface AuditLogEntry {
+  id: number;
+  profile_id: string;
+  action: string;
+  details: string | null;
+  ip_address: string | null;
+  created_at: number;
+}
+
+// POST /admin/profiles/:id/credits
+export interface AdminCreditAdjustRequest {
+  amount: number;                     // Signed change; a change that would make the pool negative is rejected
+  pool?: 'consumable' | 'sub';        // Default consumable
+  reason: string;
+}
+
+// POST /admin/profiles/:id/ban, /admin/profiles/:id/unban and /admin/subscriptions/:id/expire
+export interface AdminActionRequest {
+  reason?: string;
+}
+
+// Preset catalog (preset_categories table; presets columns added by migration 0027)
+export type PresetGender = 'male' | 'female' | 'unisex';
+
+export interface PresetCategory {
+  id: string;
+  parent_id: string | null;           // Set on sub-categories
+  titles: string | null;              // JSON: { "<locale>": "<title>" }
+  sort_order: number;
+  is_active: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface PresetCatalogEntry {
+  id: string;
+  ext: string;
+  thumbnail_r2: string | null;
+  category_id: string | null;
+  sub_category_id: string | null;
+  gender: PresetGender | null;
+  position: number | null;
+  sort_order: number;
+  is_active: number;
+  is_premium: number;          // Only for ACTIVE subscribers
+  credit_surcharge: number;    // Added to the action's credit cost
+  titles: string | null;
+  created_at: number;
+}
+
+// Preset usage analytics (preset_usage_events / preset_usage_daily)
+export type PresetUsageOutcome = 'succeeded' | 'failed' | 'safety_blocked';
+
+export interface PresetUsageEvent {
+  preset_id: string;
+  action: string;
+  profile_id: string | null;
+  provider: string | null;
+  model: string | null;
+  outcome: PresetUsageOutcome;
+}
+
+export interface PresetUsageTotals {
+  preset_id: string;
+  uses: number;
+  succeeded: number;
+  failed: number;
+  safety_blocked: number;
+  profiles: number;            // Sum of the distinct profiles of each day
+}
+
+// What a credit hold charges on top of the action for the presets it pays for (a batch: all of them)
+export interface PresetPricing {
+  subscriberOnly: boolean;
+  surcharge: number;
+}
+
+// PUT /admin/preset-categories/:id (fields left out keep their value)
+export interface PresetCategoryRequest {
+  parent_id?: string | null;
+  titles?: Record<string, string> | null;
+  sort_order?: number;
+  is_active?: boolean;
+}
+
+// PUT /admin/presets/:id (fields left out keep their value; null clears)
+export interface PresetCatalogUpdateRequest {
+  category_id?: string | null;
+  sub_category_id?: string | null;
+  gender?: PresetGender | null;
+  position?: number | null;
+  sort_order?: number;
+  is_active?: boolean;
+  is_premium?: boolean;
+  credit_surcharge?: number | null;
+  titles?: Record<string, string> | null;
+  tags?: string[];
+}
+
+// Referral (referrals table): one per invitee; rewarded once, on the invitee's first purchase
+export type ReferralStatus = 'pending' | 'rewarded' | 'rejected' | 'reversed';
+export type ReferralRejectReason = 'same_device' | 'same_ip' | 'device_reused' | 'banned' | 'inviter_limit';
+
+export interface Referral {
+  id: string;
+  inviter_profile_id: string;
+  invitee_profile_id: string;
+  code: string;
+  status: ReferralStatus;
+  reject_reason: ReferralRejectReason | null;
+  invitee_device_id: string | null;
+  invitee_ip: string | null;
+  inviter_credits: number;
+  invitee_credits: number;
+  payment_id: string | null;
+  subscription_id: string | null;
+  created_at: number;
+  rewarded_at: number | null;
+  reversed_at: number | null;
+  reversal_reason: string | null;    // refunded, voided, revoked
+}
+
+// POST /api/referrals/redeem (POST /profiles takes referral_code directly)
+export interface ReferralRedeemRequest {
+  profile_id: string;
+  referral_code: string;
+}
+
+// Credit hold (credit_holds table): points taken out of the balance for one request until it is settled
+export type CreditHoldStatus = 'held' | 'captured' | 'released';
+
+export interface CreditHold {
+  id: string;
+  profile_id: string;
+  action: string | null;
+  sub_amount: number;
+  consumable_amount: number;
+  status: CreditHoldStatus;
+  released_sub: number;               // Returned to the balance when settled (the rest was captured)
+  released_consumable: number;
+  ledger_entry_id: number | null;     // The hold's 'deduct' entry
+  batch_id: string | null;
+  result_id: string | null;
+  expires_at: number;                 // The sweep releases holds still held after this
+  created_at: number;
+  settled_at: number | null;
+}
+
 export interface Product {
   sku: string;
   type: 'consumable' | 'subscription';
@@ -173,7 +421,8 @@ export interface Payment {
   credits_granted: number;
   amount_micros: number;
   currency: string;
-  platform: string;
+  platform: string;                   // ios: order_id and purchase_token are the App Store transactionId
+                                      // web: order_id is the Stripe Checkout session id, purchase_token its PaymentIntent once paid
   raw_response: string | null;
   created_at: number;
   updated_at: number;
@@ -186,6 +435,8 @@ export interface Subscription {
   purchase_token: string;
   points_per_cycle: number;
   status: 'ACTIVE' | 'GRACE' | 'ON_HOLD' | 'CANCELLED' | 'EXPIRED' | 'PAUSED';
+  platform: 'android' | 'ios';        // ios: purchase_token is the App Store originalTransactionId
+  linked_purchase_token: string | null; // Purchase token this subscription had before its last plan change
   auto_renewing: number;
   started_at: number;
   expires_at: number;
@@ -196,6 +447,126 @@ export interface Subscription {
   updated_at: number;
 }
 
+// Subscription plan change (subscription_changes table)
+export type SubscriptionChangeSource = 'items_changed' | 'linked_purchase' | 'renewal';
+
+export interface SubscriptionChange {
+  id: number;
+  subscription_id: string;
+  profile_id: string;
+  source: SubscriptionChangeSource;   // RTDN SUBSCRIPTION_ITEMS_CHANGED, a new purchase token replacing the old one, or a deferred change applied at renewal
+  old_sku: string;
+  new_sku: string;
+  old_points_per_cycle: number;
+  new_points_per_cycle: number;
+  old_purchase_token: string;
+  new_purchase_token: string;
+  proration_mode: string;
+  sub_points_before: number;
+  sub_points_after: number;
+  created_at: number;
+}
+
+// POST /api/deposit/apple and /api/subscription/verify/apple (StoreKit transaction id)
+export interface AppStorePurchaseRequest {
+  profile_id: string;
+  transaction_id: string;
+}
+
+// Decoded App Store JWS payloads (only the fields used here)
+export interface AppStoreTransaction {
+  transactionId: string;
+  originalTransactionId: string;
+  bundleId: string;
+  productId: string;
+  type: 'Auto-Renewable Subscription' | 'Non-Consumable' | 'Consumable' | 'Non-Renewing Subscription';
+  purchaseDate: number;               // Unix ms
+  expiresDate?: number;               // Unix ms (subscriptions)
+  revocationDate?: number;
+  price?: number;                     // Milliunits of currency
+  currency?: string;
+  environment: 'Production' | 'Sandbox';
+}
+
+export interface AppStoreRenewalInfo {
+  originalTransactionId: string;
+  autoRenewStatus: 0 | 1;
+  gracePeriodExpiresDate?: number;    // Unix ms
+  isInBillingRetryPeriod?: boolean;
+}
+
+export interface AppStoreNotification {
+  notificationType: string;
+  subtype?: string;
+  notificationUUID: string;
+  signedDate: number;
+  data?: {
+    bundleId: string;
+    environment: 'Production' | 'Sandbox';
+    signedTransactionInfo?: string;
+    signedRenewalInfo?: string;
+  };
+}
+
+// Google Play Voided Purchases API entry (only the fields used here)
+export interface GooglePlayVoidedPurchase {
+  purchaseToken: string;
+  orderId?: string;
+  purchaseTimeMillis?: string;
+  voidedTimeMillis: string;
+  voidedSource?: number;              // GOOGLE_PLAY_CONFIG.VOIDED_SOURCES index
+  voidedReason?: number;              // GOOGLE_PLAY_CONFIG.VOIDED_REASONS index
+}
+
+// Voided purchase (voided_purchases table): one per voided Google Play order, whether or not it matched a payment.
+// already_refunded: the payment was refunded before (e.g. by RTDN); not_granted: the payment never completed
+export type VoidedPurchaseStatus = 'refunded' | 'already_refunded' | 'not_granted' | 'unmatched';
+
+export interface VoidedPurchase {
+  order_id: string;                   // Falls back to the purchase token when Google sends no orderId
+  purchase_token: string;
+  payment_id: string | null;
+  profile_id: string | null;
+  status: VoidedPurchaseStatus;
+  voided_source: string | null;
+  voided_reason: string | null;
+  credits_deducted: number;
+  credits_unrecovered: number;        // Already spent; added to profiles.credits_owed
+  voided_at: number;
+  created_at: number;
+}
+
+// POST /api/deposit/stripe/checkout
+export interface StripeCheckoutRequest {
+  profile_id: string;
+  sku: string;
+}
+
+// Stripe objects as received in webhook events (only the fields used here)
+export interface StripeCheckoutSession {
+  id: string;
+  client_reference_id: string | null;   // payments.id
+  payment_status: 'paid' | 'unpaid' | 'no_payment_required';
+  payment_intent: string | null;
+  amount_total: number | null;
+  currency: string | null;
+  url?: string | null;
+  expires_at?: number;
+}
+
+export interface StripeCharge {
+  id: string;
+  payment_intent: string | null;
+  refunded: boolean;                    // true once the full amount is refunded
+}
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: { object: any };
+}
+
 export interface DepositRequest {
   profile_id: string;
   sku: string;
@@ -213,9 +584,13 @@ export interface BalanceResponse {
   sub_point_remaining: number;
   consumable_point_remaining: number;
   total_available: number;
+  sub_point_held: number;              // Held for requests in flight (not part of total_available)
+  consumable_point_held: number;
+  total_held: number;
   subscription_status: 'ACTIVE' | 'GRACE' | 'ON_HOLD' | 'CANCELLED' | 'EXPIRED' | 'PAUSED' | 'NONE';
   total_credits_purchased: number;
   total_credits_spent: number;
+  free_allowance_remaining: Record<string, number>;  // Free runs left today per action (used without a subscription)
 }
 
 // FCM Device Token for push notifications
@@ -252,3 +627,165 @@ export interface FcmSendResult {
 }
 
 
+
+// ============================================================
+// Async Job Types
+// ============================================================
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+// Row in jobs table (request_body / response_json are JSON strings)
+export interface Job {
+  id: string;
+  profile_id: string;
+  action: string;
+  path: string;
+  status: JobStatus;
+  request_body: string;
+  country: string | null;      // CF-IPCountry of the original request
+  ip_address: string | null;   // cf-connecting-ip of the original request
+  timezone: string | null;     // cf.timezone of the original request
+  result_id: string | null;
+  result_url: string | null;
+  error_code: number | null;
+  error_message: string | null;
+  response_json: string | null;
+  created_at: number;
+  started_at: number | null;
+  completed_at: number | null;
+}
+
+// Queue message sent to JOBS_QUEUE (when bound)
+export interface JobQueueMessage {
+  job_id: string;
+  origin: string;
+}
+
+// ============================================================
+// Batch Face Swap Types
+// ============================================================
+
+export interface FaceSwapBatchRequest {
+  profile_id: string;
+  preset_image_ids: string[]; // Presets to swap into, one result per preset
+  selfie_ids?: string[];
+  selfie_image_urls?: string[];
+  additional_prompt?: string;
+  aspect_ratio?: string;
+  model?: string | number;
+  provider?: 'vertex' | 'wavespeed' | 'wavespeed_gemini_2_5_flash_image';
+}
+
+export type FaceSwapBatchStatus = 'running' | 'completed';
+export type FaceSwapBatchItemStatus = 'pending' | 'succeeded' | 'failed';
+
+// Row in faceswap_batches table. Credits are reserved for every item up front; failed items are refunded when the batch completes
+export interface FaceSwapBatch {
+  id: string;
+  profile_id: string;
+  status: FaceSwapBatchStatus;
+  item_count: number;
+  succeeded_count: number;
+  failed_count: number;
+  credits_charged: number;
+  credits_from_sub: number;
+  credits_from_consumable: number;
+  credits_refunded: number;
+  created_at: number;
+  completed_at: number | null;
+}
+
+// Row in faceswap_batch_items table
+export interface FaceSwapBatchItem {
+  batch_id: string;
+  item_index: number;
+  preset_id: string;
+  status: FaceSwapBatchItemStatus;
+  credits: number | null;      // Charged for this item (null for batches started before migration 0028)
+  result_id: string | null;
+  result_url: string | null;
+  provider: string | null;
+  error_code: number | null;
+  completed_at: number | null;
+}
+
+// ============================================================
+// Webhook Types
+// ============================================================
+
+export type WebhookEvent = 'result.completed' | 'result.failed';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// JSON body POSTed to callback_url (signed, see X-Webhook-Signature)
+export interface WebhookPayload {
+  id: string;               // Delivery id, also sent as X-Webhook-Id (receivers dedupe on it)
+  event: WebhookEvent;
+  created_at: string;       // ISO timestamp
+  data: {
+    profile_id: string;
+    action: string;         // Credit action (faceswap, filter, ...)
+    status: 'success' | 'error';
+    code: number;
+    result_id: string | null;
+    result_url: string | null;
+    job_id: string | null;  // Set when the request ran as an async job
+    batch_id: string | null;
+    message: string | null;
+  };
+}
+
+// Row in webhook_deliveries table (payload is the exact JSON string that was signed)
+export interface WebhookDelivery {
+  id: string;
+  profile_id: string;
+  url: string;
+  event: WebhookEvent;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  next_attempt_at: number | null;
+  created_at: number;
+  delivered_at: number | null;
+}
+
+// ============================================================
+// Idempotency Types
+// ============================================================
+
+// Row in idempotency_keys table (response_body is the raw JSON response of the first request)
+export interface IdempotencyKeyRecord {
+  profile_id: string;
+  idempotency_key: string;
+  request_hash: string;
+  status: 'in_progress' | 'completed';
+  response_status: number | null;
+  response_body: string | null;
+  created_at: number;
+  expires_at: number;
+}
+
+// ============================================================
+// Request Validation Types
+// ============================================================
+
+// Stable codes returned in `errors[].code` of a 400 response (mobile client localizes by code)
+export type ValidationErrorCode =
+  | 'invalid_body'          // Body is not a JSON object
+  | 'required'              // Field missing, null or empty
+  | 'invalid_type'          // Wrong JSON type
+  | 'invalid_value'         // Not one of the allowed values
+  | 'invalid_url'           // Not an absolute http(s) URL
+  | 'out_of_range'          // Number outside min/max
+  | 'too_few_items'         // Array shorter than minItems
+  | 'too_many_items'        // Array longer than maxItems
+  | 'missing_alternative'   // None of a group of alternative fields was provided
+  | 'mutually_exclusive';   // More than one of a group of alternative fields was provided
+
+export interface FieldError {
+  field: string;            // Body field, e.g. "selfie_id", "parts[0].etag" or "selfie_id|selfie_image_url" for a group
+  code: ValidationErrorCode;
+  message: string;          // English fallback
+}
@@ -1,5 +1,5 @@
 // backend-cloudflare-workers/utils.ts
-import type { Env } from './types';
+import type { Env, FieldError } from './types';
 import { ASPECT_RATIO_CONFIG } from './config';
 import { PhotonImage } from '@cf-wasm/photon/workerd';
 
@@ -13,6 +13,16 @@ export const SAFETY_STATUS_CODES = {
   SPOOF: 1005, // Xác suất chế giễu. Xác suất xảy ra việc chỉnh sửa phiên bản gốc của hình ảnh để làm cho nó trông hài hước hoặc phản cảm.
 } as const;
 
+// Selfie quality gate codes (after FLAT_COLOR 1010): `code` of the 422 when /upload-url rejects a selfie, or listed
+// in `warnings` of an accepted one (SELFIE_QUALITY_CONFIG)
+export const SELFIE_QUALITY_CODES = {
+  NO_FACE: 1011,
+  MULTIPLE_FACES: 1012,
+  FACE_TOO_SMALL: 1013,
+  BLURRY: 1014,
+  LOW_RESOLUTION: 1015,
+} as const;
+
 // Vertex AI safety configuration - Using centralized config
 // Note: Status codes in utils.ts are maintained for backward compatibility
 // but should be migrated to use VERTEX_AI_CONFIG.SAFETY_STATUS_CODES
@@ -28,6 +38,20 @@ export const VERTEX_SAFETY_STATUS_CODES = {
   UNKNOWN_ERROR: 3000, // Vertex AI unknown error: Safety violation detected but specific category cannot be determined
 } as const;
 
+// Credit status codes (numeric, predefined between client & server), returned as `reason` with HTTP 402
+export const CREDIT_REASON_CODES = {
+  INVALID_TOKEN: 4010, // X-Profile-Token missing or does not match profile_id
+  PROFILE_NOT_FOUND: 4020,
+  ACCOUNT_BANNED: 4030,
+  SUBSCRIPTION_ON_HOLD: 4040, // Google Play account hold - payment method needs fixing
+  GRACE_EXPIRED: 4050, // Subscription expired after the grace period
+  NO_SUBSCRIPTION: 4060, // Action requires subscription credits but profile has no active subscription
+  INSUFFICIENT_CREDITS: 4070,
+  CONCURRENT_CONFLICT: 4080, // Balance changed during deduction (another request spent the credits), retry
+  FREE_ALLOWANCE_USED: 4090, // Free daily runs of this action are used up and the profile has no subscription
+  SUBSCRIBER_ONLY_PRESET: 4100, // Premium preset: needs an ACTIVE subscription
+} as const;
+
 // Map Vertex AI harm categories to our custom error codes
 const VERTEX_HARM_CATEGORY_MAP: Record<string, number> = {
   'HARM_CATEGORY_HATE_SPEECH': VERTEX_SAFETY_STATUS_CODES.HATE_SPEECH,
@@ -57,7 +81,7 @@ const RACY_UNSAFE_LEVELS = ['VERY_LIKELY'];
 
 const COMMON_CORS_HEADERS = {
   'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, X-Preset-Name, X-Preset-Name-Encoded, X-Enable-Vertex-Prompt, X-Enable-Gemini-Prompt, X-Enable-Vision-Scan, X-Gender, Authorization, X-API-Key',
+  'Access-Control-Allow-Headers': 'Content-Type, X-Preset-Name, X-Preset-Name-Encoded, X-Enable-Vertex-Prompt, X-Enable-Gemini-Prompt, X-Enable-Vision-Scan, X-Gender, Authorization, X-API-Key, Idempotency-Key',
   'Access-Control-Allow-Credentials': 'true',
 };
 
@@ -342,6 +366,17 @@ export const errorResponse = (message: string, status = 500, debug?: Record<stri
   return jsonResponse(responseData, status, request, env);
 };
 
+// 400 with machine-readable field errors (stable codes the mobile client can localize)
+export const validationErrorResponse = (errors: FieldError[], request?: Request, env?: any): Response => {
+  return jsonResponse({
+    data: null,
+    status: 'error',
+    message: 'Validation failed',
+    code: 400,
+    errors,
+  }, 400, request, env);
+};
+
 export const successResponse = (data: any, status = 200, request?: Request, env?: any): Response => {
   return jsonResponse({ 
     data,
@@ -1514,7 +1549,7 @@ const getPricingTiers = (env: Env): Record<string, Record<string, number>> | nul
   return _pricingTiersCache.tiers;
 };
 
-const getCountryTierName = (country: string, env: Env): string | null => {
+export const getCountryTierName = (country: string, env: Env): string | null => {
   if (!env.COUNTRY_TIER_MAP) return null;
   const raw = String(env.COUNTRY_TIER_MAP);
   if (!_countryTierMapCache || _countryTierMapCache.raw !== raw) {
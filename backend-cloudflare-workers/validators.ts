@@ -1,4 +1,6 @@
-import type { Env, FaceSwapRequest } from './types';
+import type { Env, FieldError, Profile, Product, BalanceResponse } from './types';
+import { ASPECT_RATIO_CONFIG, IMAGE_PROCESSING_PROMPTS, JOB_CONFIG, FACESWAP_BATCH_CONFIG, CREDIT_LEDGER_CONFIG, PROMO_CONFIG, ADMIN_CONFIG, LIST_PAGINATION_CONFIG, PRESET_CATALOG_CONFIG, PRESET_ANALYTICS_CONFIG } from './config';
+import { normalizePresetId } from './utils';
 
 export const validateEnv = (env: Env, mode: 'rapidapi' | 'vertex' | 'wavespeed' = 'rapidapi'): string | null => {
   if (mode !== 'vertex' && mode !== 'wavespeed') {
@@ -16,27 +18,659 @@ export const validateEnv = (env: Env, mode: 'rapidapi' | 'vertex' | 'wavespeed'
   return null;
 };
 
-export const validateRequest = (body: any): string | null => {
-  if (!body || typeof body !== 'object') {
-    return 'Invalid request body: must be a JSON object';
+// ============================================================
+// Body schemas
+// ============================================================
+// Fields not listed in a schema pass through untouched. Strings are trimmed; empty strings and null
+// count as "not provided" for required/alternative checks but are kept so handlers can clear values.
+
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'scalar' | 'any';
+
+export interface FieldSchema {
+  type: FieldType;                        // 'scalar' = string or number (e.g. model: "2.5" or 3)
+  required?: boolean;
+  enum?: readonly string[];
+  format?: 'url' | 'https_url' | 'date-time';  // https_url: outbound targets (webhooks); date-time: responses only
+  min?: number;
+  max?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: FieldSchema;                    // Element schema for arrays
+  fields?: Record<string, FieldSchema>;   // Nested schema for objects
+  normalize?: (value: any) => any;        // Runs after the type check, before enum/format
+  values?: FieldSchema;                   // Responses only: value schema of a map object
+  description?: string;                   // Listed in /openapi.json
+}
+
+export interface ObjectSchema {
+  fields: Record<string, FieldSchema>;
+  aliases?: Record<string, string>;       // alias -> field, copied when the field itself is not provided
+  exactlyOne?: string[][];
+  atLeastOne?: string[][];
+  atMostOne?: string[][];
+}
+
+export type ValidationResult =
+  | { valid: true; value: Record<string, any> }
+  | { valid: false; errors: FieldError[] };
+
+const isProvided = (value: unknown): boolean => {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim() !== '';
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+};
+
+const isAbsoluteHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
   }
-  
-  const hasPresetId = body.preset_image_id && typeof body.preset_image_id === 'string' && body.preset_image_id.trim() !== '';
-  const hasPresetUrl = body.preset_image_url && typeof body.preset_image_url === 'string' && body.preset_image_url.trim() !== '';
-  if (!hasPresetId && !hasPresetUrl) {
-    return 'Missing required field: preset_image_id or preset_image_url';
+};
+
+const coerceField = (schema: FieldSchema, value: any, field: string, errors: FieldError[]): any => {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value === 'number') return String(value);
+      if (typeof value !== 'string') break;
+      return value.trim();
+    case 'number':
+    case 'integer': {
+      const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof num !== 'number' || !Number.isFinite(num)) break;
+      if (schema.type === 'integer' && !Number.isInteger(num)) break;
+      if ((schema.min !== undefined && num < schema.min) || (schema.max !== undefined && num > schema.max)) {
+        const bound = schema.max === undefined ? `at least ${schema.min}` : schema.min === undefined ? `at most ${schema.max}` : `between ${schema.min} and ${schema.max}`;
+        errors.push({ field, code: 'out_of_range', message: `${field} must be ${bound}` });
+        return value;
+      }
+      return num;
+    }
+    case 'boolean':
+      if (value === 'true') return true;
+      if (value === 'false') return false;
+      if (typeof value !== 'boolean') break;
+      return value;
+    case 'scalar':
+      if (typeof value === 'string') return value.trim();
+      if (typeof value !== 'number') break;
+      return value;
+    case 'array': {
+      if (!Array.isArray(value)) break;
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push({ field, code: 'too_few_items', message: `${field} must contain at least ${schema.minItems} item(s)` });
+        return value;
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push({ field, code: 'too_many_items', message: `${field} must contain at most ${schema.maxItems} item(s)` });
+        return value;
+      }
+      return schema.items ? value.map((item, i) => validateField(schema.items!, item, `${field}[${i}]`, errors)) : value;
+    }
+    case 'object':
+      if (!value || typeof value !== 'object' || Array.isArray(value)) break;
+      return schema.fields ? validateFields(schema.fields, { ...value }, `${field}.`, errors) : value;
+    case 'any':
+      return value;
   }
-  if (hasPresetId && hasPresetUrl) {
-    return 'Cannot provide both preset_image_id and preset_image_url. Please provide only one.';
+  errors.push({ field, code: 'invalid_type', message: `${field} must be ${schema.type === 'integer' ? 'an integer' : `a ${schema.type === 'scalar' ? 'string or number' : schema.type}`}` });
+  return value;
+};
+
+const validateField = (schema: FieldSchema, value: any, field: string, errors: FieldError[]): any => {
+  if (!isProvided(value)) {
+    if (schema.required) {
+      errors.push({ field, code: 'required', message: `Missing required field: ${field}` });
+    }
+    return value;
   }
-  const hasSelfieIds = Array.isArray(body.selfie_ids) && body.selfie_ids.length > 0;
-  const hasSelfieUrls = Array.isArray(body.selfie_image_urls) && body.selfie_image_urls.length > 0;
-  if (!hasSelfieIds && !hasSelfieUrls) {
-    return 'Missing required field: selfie_ids or selfie_image_urls (must be a non-empty array)';
+
+  const errorCount = errors.length;
+  let result = coerceField(schema, value, field, errors);
+  if (errors.length > errorCount) return value;
+
+  if (schema.normalize) result = schema.normalize(result);
+  if (schema.enum && !schema.enum.includes(result)) {
+    errors.push({ field, code: 'invalid_value', message: `${field} must be one of: ${schema.enum.join(', ')}` });
+  } else if (schema.format === 'url' && !isAbsoluteHttpUrl(result)) {
+    errors.push({ field, code: 'invalid_url', message: `${field} must be a valid http(s) URL` });
+  } else if (schema.format === 'https_url' && !(isAbsoluteHttpUrl(result) && result.startsWith('https://'))) {
+    errors.push({ field, code: 'invalid_url', message: `${field} must be a valid https URL` });
   }
-  if (!body.profile_id || typeof body.profile_id !== 'string' || body.profile_id.trim() === '') {
-    return 'Missing required field: profile_id (must be a non-empty string)';
+  return result;
+};
+
+const validateFields = (fields: Record<string, FieldSchema>, value: Record<string, any>, prefix: string, errors: FieldError[]): Record<string, any> => {
+  for (const [name, fieldSchema] of Object.entries(fields)) {
+    if (!(name in value) && !fieldSchema.required) continue;
+    const result = validateField(fieldSchema, value[name], `${prefix}${name}`, errors);
+    if (name in value) value[name] = result;
   }
-  return null;
+  return value;
+};
+
+// Validate and normalize a parsed JSON body. Returns a copy; the input is not modified.
+export const validateBody = (schema: ObjectSchema, body: unknown): ValidationResult => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, errors: [{ field: 'body', code: 'invalid_body', message: 'Request body must be a JSON object' }] };
+  }
+
+  const value: Record<string, any> = { ...(body as Record<string, any>) };
+  const errors: FieldError[] = [];
+  validateFields(schema.fields, value, '', errors);
+
+  for (const [alias, field] of Object.entries(schema.aliases || {})) {
+    if (isProvided(value[alias]) && !isProvided(value[field])) value[field] = value[alias];
+  }
+
+  const groupError = (group: string[], code: 'missing_alternative' | 'mutually_exclusive'): FieldError => ({
+    field: group.join('|'),
+    code,
+    message: code === 'missing_alternative'
+      ? `Missing required field: ${group.join(' or ')}`
+      : `Provide only one of: ${group.join(', ')}`,
+  });
+  for (const group of schema.exactlyOne || []) {
+    const count = group.filter((name) => isProvided(value[name])).length;
+    if (count === 0) errors.push(groupError(group, 'missing_alternative'));
+    if (count > 1) errors.push(groupError(group, 'mutually_exclusive'));
+  }
+  for (const group of schema.atLeastOne || []) {
+    if (!group.some((name) => isProvided(value[name]))) errors.push(groupError(group, 'missing_alternative'));
+  }
+  for (const group of schema.atMostOne || []) {
+    if (group.filter((name) => isProvided(value[name])).length > 1) errors.push(groupError(group, 'mutually_exclusive'));
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value };
+};
+
+// ============================================================
+// Shared field definitions
+// ============================================================
+
+// Providers a request may pick; mock is only selected by MOCK_IMAGE_PROVIDER or IMAGE_PROVIDER_* (see providers.ts)
+const PROVIDERS = ['vertex', 'wavespeed', 'wavespeed_gemini_2_5_flash_image'] as const;
+
+// "original" = derive from the input image
+const ASPECT_RATIOS = [...ASPECT_RATIO_CONFIG.SUPPORTED, 'original'];
+
+export const EXPRESSION_KEYS = Object.keys(IMAGE_PROCESSING_PROMPTS.EXPRESSION).map((key) => key.toLowerCase());
+
+const stringField = (extra: Partial<FieldSchema> = {}): FieldSchema => ({ type: 'string', ...extra });
+const requiredStringField = (extra: Partial<FieldSchema> = {}): FieldSchema => stringField({ required: true, ...extra });
+const urlField = (extra: Partial<FieldSchema> = {}): FieldSchema => stringField({ format: 'url', ...extra });
+
+const callbackUrlField: FieldSchema = stringField({ format: 'https_url' });
+
+const presetIdField: FieldSchema = stringField({ normalize: (value: string) => normalizePresetId(value) || value });
+const aspectRatioField: FieldSchema = stringField({ enum: ASPECT_RATIOS, normalize: (value: string) => value.toLowerCase() });
+
+const generationFields: Record<string, FieldSchema> = {
+  profile_id: requiredStringField(),
+  aspect_ratio: aspectRatioField,
+  model: { type: 'scalar' },
+  provider: stringField({ enum: PROVIDERS }),
+  additional_prompt: stringField(),
+  async: { type: 'boolean' },
+  callback_url: callbackUrlField,   // Overrides the profile's webhook for this request
+};
+
+// Single input image (selfie_id or selfie_image_url, image_id/image_url accepted as aliases)
+const imageInputFields: Record<string, FieldSchema> = {
+  ...generationFields,
+  selfie_id: stringField(),
+  selfie_image_url: urlField(),
+  image_id: stringField(),
+  image_url: urlField(),
+};
+const imageInputRules: Pick<ObjectSchema, 'aliases' | 'exactlyOne'> = {
+  aliases: { image_id: 'selfie_id', image_url: 'selfie_image_url' },
+  exactlyOne: [['selfie_id', 'selfie_image_url']],
+};
+
+// ============================================================
+// AI operation schemas
+// ============================================================
+
+// FaceSwapRequest
+export const FACESWAP_SCHEMA: ObjectSchema = {
+  fields: {
+    ...generationFields,
+    preset_image_id: presetIdField,
+    preset_image_url: urlField(),
+    selfie_ids: { type: 'array', items: requiredStringField() },
+    selfie_image_urls: { type: 'array', items: urlField({ required: true }) },
+    action: stringField(),
+    format: stringField(),
+  },
+  exactlyOne: [['preset_image_id', 'preset_image_url']],
+  atLeastOne: [['selfie_ids', 'selfie_image_urls']],
+};
+
+// FaceSwapBatchRequest
+export const FACESWAP_BATCH_SCHEMA: ObjectSchema = {
+  fields: {
+    ...generationFields,
+    preset_image_ids: { type: 'array', required: true, maxItems: FACESWAP_BATCH_CONFIG.MAX_ITEMS, items: { ...presetIdField, required: true } },
+    selfie_ids: { type: 'array', items: requiredStringField() },
+    selfie_image_urls: { type: 'array', items: urlField({ required: true }) },
+  },
+  exactlyOne: [['selfie_ids', 'selfie_image_urls']],
+};
+
+// BackgroundRequest
+export const BACKGROUND_SCHEMA: ObjectSchema = {
+  fields: {
+    ...imageInputFields,
+    preset_image_id: presetIdField,
+    preset_image_url: urlField(),
+    custom_prompt: stringField(),
+  },
+  aliases: imageInputRules.aliases,
+  exactlyOne: [...imageInputRules.exactlyOne!, ['preset_image_id', 'preset_image_url', 'custom_prompt']],
+};
+
+// /enhance, /beauty, /restore, /expand, /remove-text
+export const IMAGE_EDIT_SCHEMA: ObjectSchema = {
+  fields: imageInputFields,
+  ...imageInputRules,
+};
+
+// /filter, /aging (prompt from preset prompt_json)
+export const PRESET_EDIT_SCHEMA: ObjectSchema = {
+  fields: { ...imageInputFields, preset_image_id: presetIdField, preset_image_url: urlField() },
+  aliases: imageInputRules.aliases,
+  exactlyOne: [...imageInputRules.exactlyOne!, ['preset_image_id', 'preset_image_url']],
+};
+
+export const HAIR_STYLE_SCHEMA: ObjectSchema = {
+  fields: { ...imageInputFields, preset_image_id: { ...presetIdField, required: true } },
+  ...imageInputRules,
+};
+
+export const REMOVE_OBJECT_SCHEMA: ObjectSchema = {
+  fields: { ...imageInputFields, mask_id: stringField(), mask_image_url: urlField() },
+  aliases: imageInputRules.aliases,
+  exactlyOne: [...imageInputRules.exactlyOne!, ['mask_id', 'mask_image_url']],
+};
+
+export const EXPRESSION_SCHEMA: ObjectSchema = {
+  fields: {
+    ...imageInputFields,
+    expression: requiredStringField({ enum: EXPRESSION_KEYS, normalize: (value: string) => value.toLowerCase().replace(/\s+/g, '_') }),
+  },
+  ...imageInputRules,
+};
+
+export const EDITOR_SCHEMA: ObjectSchema = {
+  fields: { ...imageInputFields, custom_prompt: requiredStringField(), ref_image_id: stringField(), ref_image_url: urlField() },
+  aliases: imageInputRules.aliases,
+  exactlyOne: imageInputRules.exactlyOne,
+  atMostOne: [['ref_image_id', 'ref_image_url']],
+};
+
+export const REPLACE_OBJECT_SCHEMA: ObjectSchema = {
+  fields: { ...imageInputFields, custom_prompt: requiredStringField() },
+  ...imageInputRules,
+};
+
+// image_url must be a selfie uploaded with action=4k (checked by the handler)
+export const UPSCALER4K_SCHEMA: ObjectSchema = {
+  fields: { profile_id: requiredStringField(), image_url: urlField({ required: true }), aspect_ratio: aspectRatioField, async: { type: 'boolean' }, callback_url: callbackUrlField },
+};
+
+// ============================================================
+// Upload schemas
+// ============================================================
+
+// JSON variant of /upload-url (multipart uploads are validated by the handler)
+export const UPLOAD_URL_SCHEMA: ObjectSchema = {
+  fields: {
+    image_urls: { type: 'array', items: urlField({ required: true }) },
+    image_url: urlField(),
+    type: requiredStringField({ enum: ['preset', 'selfie', 'mask'] }),
+    profile_id: requiredStringField(),
+    presetName: stringField(),
+    enableVertexPrompt: { type: 'boolean' },
+    is_filter_mode: { type: 'boolean' },
+    custom_prompt_text: stringField(),
+    action: stringField(),
+    dimensions: { type: 'any' },
+  },
+  atLeastOne: [['image_urls', 'image_url']],
+};
+
+export const MULTIPART_CREATE_SCHEMA: ObjectSchema = {
+  fields: { key: requiredStringField(), contentType: stringField() },
+};
+
+export const MULTIPART_COMPLETE_SCHEMA: ObjectSchema = {
+  fields: {
+    key: requiredStringField(),
+    uploadId: requiredStringField(),
+    parts: {
+      type: 'array',
+      required: true,
+      minItems: 1,
+      items: { type: 'object', required: true, fields: { partNumber: { type: 'integer', required: true, min: 1 }, etag: requiredStringField() } },
+    },
+  },
+};
+
+export const MULTIPART_ABORT_SCHEMA: ObjectSchema = {
+  fields: { key: requiredStringField(), uploadId: requiredStringField() },
+};
+
+// ============================================================
+// Profile, device and payment schemas
+// ============================================================
+
+const profileFields: Record<string, FieldSchema> = {
+  name: stringField(),
+  email: stringField(),
+  phone: stringField(),
+  avatar_url: urlField(),
+  preferences: { type: 'any' },   // JSON string or object
+};
+
+export const PROFILE_CREATE_SCHEMA: ObjectSchema = {
+  fields: { ...profileFields, id: stringField(), device_id: stringField(), user_id: stringField(), userID: stringField(), referral_code: stringField() },
 };
 
+// Balances are not editable here: they change through purchases, spending and POST /admin/profiles/:id/credits
+export const PROFILE_UPDATE_SCHEMA: ObjectSchema = {
+  fields: profileFields,
+};
+
+// WebhookSettingsRequest (null or "" removes the profile's webhook)
+export const WEBHOOK_SETTINGS_SCHEMA: ObjectSchema = {
+  fields: { callback_url: callbackUrlField },
+};
+
+// DeviceRegisterRequest
+export const DEVICE_REGISTER_SCHEMA: ObjectSchema = {
+  fields: {
+    profile_id: requiredStringField(),
+    platform: requiredStringField({ enum: ['android', 'ios', 'web'], normalize: (value: string) => value.toLowerCase() }),
+    token: requiredStringField(),
+    app_version: stringField(),
+  },
+};
+
+export const DEVICE_UNREGISTER_SCHEMA: ObjectSchema = {
+  fields: { token: requiredStringField() },
+};
+
+// SilentPushRequest
+export const SILENT_PUSH_SCHEMA: ObjectSchema = {
+  fields: { profile_id: requiredStringField(), data: { type: 'object', required: true }, exclude_token: stringField() },
+};
+
+// DepositRequest
+export const DEPOSIT_SCHEMA: ObjectSchema = {
+  fields: { profile_id: requiredStringField(), sku: requiredStringField(), purchase_token: requiredStringField(), order_id: requiredStringField() },
+};
+
+// SubscriptionVerifyRequest
+export const SUBSCRIPTION_VERIFY_SCHEMA: ObjectSchema = {
+  fields: { profile_id: requiredStringField(), sku: requiredStringField(), purchase_token: requiredStringField() },
+};
+
+// AppStorePurchaseRequest
+export const APP_STORE_PURCHASE_SCHEMA: ObjectSchema = {
+  fields: { profile_id: requiredStringField(), transaction_id: requiredStringField() },
+};
+
+// StripeCheckoutRequest
+export const STRIPE_CHECKOUT_SCHEMA: ObjectSchema = {
+  fields: { profile_id: requiredStringField(), sku: requiredStringField() },
+};
+
+// ReferralRedeemRequest
+export const REFERRAL_REDEEM_SCHEMA: ObjectSchema = {
+  fields: { profile_id: requiredStringField(), referral_code: requiredStringField() },
+};
+
+// PromoRedeemRequest
+export const PROMO_REDEEM_SCHEMA: ObjectSchema = {
+  fields: { profile_id: requiredStringField(), code: requiredStringField() },
+};
+
+// PromoCodeCreateRequest
+export const PROMO_CODE_CREATE_SCHEMA: ObjectSchema = {
+  fields: {
+    code: requiredStringField(),
+    credits: { type: 'integer', required: true, min: 1, max: PROMO_CONFIG.MAX_CREDITS },
+    max_redemptions: { type: 'integer', min: 1 },
+    per_profile_limit: { type: 'integer', min: 1 },
+    countries: { type: 'array', items: requiredStringField() },
+    starts_at: stringField(),
+    expires_at: stringField(),
+    note: stringField(),
+  },
+};
+
+export const PROMO_REVERSE_SCHEMA: ObjectSchema = {
+  fields: { reason: stringField() },
+};
+
+// AdminCreditAdjustRequest
+export const ADMIN_CREDIT_ADJUST_SCHEMA: ObjectSchema = {
+  fields: {
+    amount: { type: 'integer', required: true, min: -ADMIN_CONFIG.MAX_CREDIT_ADJUSTMENT, max: ADMIN_CONFIG.MAX_CREDIT_ADJUSTMENT },
+    pool: stringField({ enum: ['consumable', 'sub'] }),
+    reason: requiredStringField(),
+  },
+};
+
+// AdminActionRequest
+export const ADMIN_ACTION_SCHEMA: ObjectSchema = {
+  fields: { reason: stringField() },
+};
+
+// PresetCategoryRequest
+export const PRESET_CATEGORY_SCHEMA: ObjectSchema = {
+  fields: {
+    parent_id: stringField(),
+    titles: { type: 'object' },
+    sort_order: { type: 'integer' },
+    is_active: { type: 'boolean' },
+  },
+};
+
+// PresetCatalogUpdateRequest
+export const PRESET_CATALOG_UPDATE_SCHEMA: ObjectSchema = {
+  fields: {
+    category_id: stringField({ normalize: (value: string) => value.toLowerCase() }),
+    sub_category_id: stringField({ normalize: (value: string) => value.toLowerCase() }),
+    gender: stringField({ enum: PRESET_CATALOG_CONFIG.GENDERS }),
+    position: { type: 'integer', min: 0 },
+    sort_order: { type: 'integer' },
+    is_active: { type: 'boolean' },
+    is_premium: { type: 'boolean' },
+    credit_surcharge: { type: 'integer', min: 0, max: PRESET_CATALOG_CONFIG.MAX_CREDIT_SURCHARGE },
+    titles: { type: 'object' },
+    tags: { type: 'array', maxItems: PRESET_CATALOG_CONFIG.MAX_TAGS, items: requiredStringField() },
+  },
+};
+
+// ============================================================
+// Query parameters
+// ============================================================
+// Not validated by the router (handlers read searchParams themselves); listed for /openapi.json
+
+const listLimitField = (max: number): FieldSchema => ({ type: 'integer', min: 1, max });
+
+// Cursor pagination and created_at range of the public list endpoints (see pagination.ts)
+const LIST_PAGE_FIELDS: Record<string, FieldSchema> = {
+  cursor: stringField(),
+  from: stringField(),
+  to: stringField(),
+  limit: listLimitField(LIST_PAGINATION_CONFIG.MAX_LIMIT),
+};
+
+export const PROFILE_QUERY: Record<string, FieldSchema> = {
+  profile_id: requiredStringField(),
+};
+
+export const LIST_PRESETS_QUERY: Record<string, FieldSchema> = {
+  exclude_thumbnails: { type: 'boolean' },
+  category: stringField(),
+  sub_category: stringField(),
+  gender: stringField({ enum: PRESET_CATALOG_CONFIG.GENDERS }),
+  tag: stringField(),
+  premium: { type: 'boolean' },
+  sort: stringField({ enum: ['newest', 'order'] }),
+  locale: stringField(),
+  profile_id: stringField(),
+  ...LIST_PAGE_FIELDS,
+};
+
+export const TRENDING_PRESETS_QUERY: Record<string, FieldSchema> = {
+  window: stringField({ enum: Object.keys(PRESET_ANALYTICS_CONFIG.WINDOWS) }),
+  category: stringField(),
+  locale: stringField(),
+  profile_id: stringField(),
+  limit: listLimitField(PRESET_ANALYTICS_CONFIG.MAX_TRENDING_LIMIT),
+};
+
+export const LIST_SELFIES_QUERY: Record<string, FieldSchema> = {
+  profile_id: requiredStringField(),
+  action: stringField(),
+  ...LIST_PAGE_FIELDS,
+};
+
+export const LIST_RESULTS_QUERY: Record<string, FieldSchema> = {
+  profile_id: stringField(),
+  action: stringField(),
+  ...LIST_PAGE_FIELDS,
+};
+
+export const LIST_PAGE_QUERY: Record<string, FieldSchema> = LIST_PAGE_FIELDS;
+
+export const LIST_JOBS_QUERY: Record<string, FieldSchema> = {
+  profile_id: requiredStringField(),
+  status: stringField({ enum: ['queued', 'running', 'succeeded', 'failed'] }),
+  limit: listLimitField(JOB_CONFIG.LIST_LIMIT),
+};
+
+export const LIST_PROMO_CODES_QUERY: Record<string, FieldSchema> = {
+  active: { type: 'boolean' },
+  limit: listLimitField(PROMO_CONFIG.LIST_LIMIT),
+};
+
+export const ADMIN_PROFILE_SEARCH_QUERY: Record<string, FieldSchema> = {
+  device_id: stringField(),
+  user_id: stringField(),
+  email: stringField(),
+  phone: stringField(),
+  limit: listLimitField(ADMIN_CONFIG.LIST_LIMIT),
+};
+
+export const ADMIN_LIST_QUERY: Record<string, FieldSchema> = {
+  limit: listLimitField(ADMIN_CONFIG.LIST_LIMIT),
+};
+
+export const ADMIN_PRESET_USAGE_QUERY: Record<string, FieldSchema> = {
+  window: stringField({ enum: Object.keys(PRESET_ANALYTICS_CONFIG.WINDOWS) }),
+  category: stringField(),
+  sort: stringField({ enum: ['uses', 'failure_rate', 'safety_block_rate'] }),
+  limit: listLimitField(PRESET_ANALYTICS_CONFIG.REPORT_LIMIT),
+};
+
+export const ADMIN_AUDIT_LOG_QUERY: Record<string, FieldSchema> = {
+  action: stringField(),
+  before: { type: 'integer', min: 1 },
+  limit: listLimitField(ADMIN_CONFIG.LIST_LIMIT),
+};
+
+export const CREDIT_LEDGER_QUERY: Record<string, FieldSchema> = {
+  profile_id: requiredStringField(),
+  type: stringField({ enum: CREDIT_LEDGER_CONFIG.ENTRY_TYPES }),
+  before: { type: 'integer', min: 1 },
+  limit: listLimitField(CREDIT_LEDGER_CONFIG.LIST_LIMIT),
+};
+
+export const MULTIPART_PART_QUERY: Record<string, FieldSchema> = {
+  key: requiredStringField(),
+  uploadId: requiredStringField(),
+  partNumber: { type: 'integer', required: true, min: 1 },
+};
+
+export const R2_UPLOAD_QUERY: Record<string, FieldSchema> = {
+  contentType: stringField(),
+};
+
+// ============================================================
+// Response schemas
+// ============================================================
+// Not applied to responses; listed in /openapi.json as components. `satisfies` keeps each field list in
+// step with its interface in types.ts: a field added there and not here (or the reverse) fails the type check.
+
+const integerField: FieldSchema = { type: 'integer' };
+const dateTimeField: FieldSchema = stringField({ required: true, format: 'date-time' });
+
+// Profile, as returned by GET/POST/PUT /profiles (callback_url is served by /profiles/:id/webhook)
+export const PROFILE_RESPONSE_SCHEMA: ObjectSchema = {
+  fields: {
+    id: requiredStringField(),
+    device_id: stringField(),
+    user_id: stringField(),
+    name: stringField(),
+    email: stringField(),
+    phone: stringField(),
+    avatar_url: stringField(),
+    preferences: stringField({ description: 'JSON string' }),
+    sub_point_remaining: integerField,
+    consumable_point_remaining: integerField,
+    total_credits_purchased: integerField,
+    total_credits_spent: integerField,
+    created_at: dateTimeField,
+    updated_at: dateTimeField,
+  } satisfies Record<keyof Omit<Profile, 'callback_url'>, FieldSchema>,
+};
+
+// Product, as listed by /api/products (active products only)
+export const PRODUCT_RESPONSE_SCHEMA: ObjectSchema = {
+  fields: {
+    sku: stringField(),
+    type: stringField({ enum: ['consumable', 'subscription'] satisfies Product['type'][] }),
+    credits: integerField,
+    points_per_cycle: integerField,
+    name: stringField(),
+    description: stringField(),
+    price_micros: integerField,
+    currency: stringField(),
+  } satisfies Record<keyof Omit<Product, 'is_active' | 'created_at' | 'updated_at'>, FieldSchema>,
+};
+
+const CREDIT_POOL_FIELDS = {
+  sub_point_remaining: integerField,
+  consumable_point_remaining: integerField,
+} satisfies Record<keyof Pick<BalanceResponse, 'sub_point_remaining' | 'consumable_point_remaining'>, FieldSchema>;
+
+export const CREDIT_POOLS_RESPONSE_SCHEMA: ObjectSchema = { fields: CREDIT_POOL_FIELDS };
+
+// BalanceResponse
+export const BALANCE_RESPONSE_SCHEMA: ObjectSchema = {
+  fields: {
+    ...CREDIT_POOL_FIELDS,
+    total_available: integerField,
+    sub_point_held: { type: 'integer', description: 'Held by requests still processing; captured or returned when they finish' },
+    consumable_point_held: integerField,
+    total_held: integerField,
+    subscription_status: stringField({
+      enum: ['ACTIVE', 'GRACE', 'ON_HOLD', 'CANCELLED', 'EXPIRED', 'PAUSED', 'NONE'] satisfies BalanceResponse['subscription_status'][],
+    }),
+    total_credits_purchased: integerField,
+    total_credits_spent: integerField,
+    free_allowance_remaining: {
+      type: 'object',
+      values: integerField,
+      description: 'Free runs left today per action, usable without a subscription',
+    },
+  } satisfies Record<keyof BalanceResponse, FieldSchema>,
+};
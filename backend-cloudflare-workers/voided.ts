@@ -0,0 +1,111 @@
+// backend-cloudflare-workers/voided.ts
+// Google Play voided purchases: refunds, chargebacks and revocations of one-time products, read from the Voided
+// Purchases API by cron and applied to the matching payments (each voided order once, see voided_purchases)
+import type { Env, GooglePlayVoidedPurchase, VoidedPurchaseStatus } from './types';
+import { GOOGLE_PLAY_CONFIG } from './config';
+import { listGooglePlayVoidedPurchases } from './services';
+import { auditLog } from './utils';
+
+export interface VoidedPayment {
+  id: string;
+  profile_id: string;
+  sku: string;
+  credits_granted: number;
+  platform: string;
+}
+
+// Marks a COMPLETED payment REFUNDED and takes its credits back (refundDeposit in index.ts).
+// Returns null when the payment was no longer COMPLETED.
+export type RefundVoidedPayment = (
+  payment: VoidedPayment, details: Record<string, unknown>
+) => Promise<{ deducted: number; unrecovered: number } | null>;
+
+export type ListVoidedPurchases = typeof listGooglePlayVoidedPurchases;
+
+export interface VoidedPurchasesSyncResult {
+  fetched: number;
+  applied: Record<VoidedPurchaseStatus, number>;
+  error?: string;
+}
+
+const voidedLabel = (labels: string[], index: number | undefined): string | null =>
+  index === undefined ? null : labels[index] ?? String(index);
+
+// Returns null when the voided order was already processed (runs overlap)
+const applyVoidedPurchase = async (
+  db: D1Database, voided: GooglePlayVoidedPurchase, refundPayment: RefundVoidedPayment
+): Promise<VoidedPurchaseStatus | null> => {
+  const orderId = voided.orderId || voided.purchaseToken;
+  const source = voidedLabel(GOOGLE_PLAY_CONFIG.VOIDED_SOURCES, voided.voidedSource);
+  const reason = voidedLabel(GOOGLE_PLAY_CONFIG.VOIDED_REASONS, voided.voidedReason);
+  const voidedAt = Math.floor(Number(voided.voidedTimeMillis) / 1000);
+
+  // Claim the order first so a concurrent run does not refund it twice
+  const claim = await db.prepare(
+    `INSERT INTO voided_purchases (order_id, purchase_token, status, voided_source, voided_reason, voided_at)
+     VALUES (?, ?, 'unmatched', ?, ?, ?) ON CONFLICT(order_id) DO NOTHING`
+  ).bind(orderId, voided.purchaseToken, source, reason, voidedAt).run();
+  if (!claim.meta?.changes) return null;
+
+  try {
+    return await applyClaimedVoidedPurchase(db, voided, orderId, source, reason, refundPayment);
+  } catch (error) {
+    // Give the claim back so the next run retries the order
+    await db.prepare('DELETE FROM voided_purchases WHERE order_id = ? AND payment_id IS NULL').bind(orderId).run();
+    throw error;
+  }
+};
+
+const applyClaimedVoidedPurchase = async (
+  db: D1Database, voided: GooglePlayVoidedPurchase, orderId: string, source: string | null, reason: string | null, refundPayment: RefundVoidedPayment
+): Promise<VoidedPurchaseStatus> => {
+  const payment = await db.prepare(
+    'SELECT id, profile_id, sku, credits_granted, platform, status FROM payments WHERE purchase_token = ? OR order_id = ? ORDER BY created_at DESC LIMIT 1'
+  ).bind(voided.purchaseToken, orderId).first() as (VoidedPayment & { status: string }) | null;
+  if (!payment) {
+    await auditLog(db, 'SYSTEM', 'VOIDED_PURCHASE_UNMATCHED', { order_id: orderId, voided_source: source, voided_reason: reason }, null);
+    return 'unmatched';
+  }
+
+  let status: VoidedPurchaseStatus = payment.status === 'REFUNDED' ? 'already_refunded' : 'not_granted';
+  let refund: { deducted: number; unrecovered: number } | null = null;
+  if (payment.status === 'COMPLETED') {
+    refund = await refundPayment(payment, { source: 'voided_purchases', order_id: orderId, voided_source: source, voided_reason: reason });
+    status = refund ? 'refunded' : 'already_refunded';
+  }
+  await db.prepare(
+    'UPDATE voided_purchases SET status = ?, payment_id = ?, profile_id = ?, credits_deducted = ?, credits_unrecovered = ? WHERE order_id = ?'
+  ).bind(status, payment.id, payment.profile_id, refund?.deducted ?? 0, refund?.unrecovered ?? 0, orderId).run();
+  return status;
+};
+
+// Cron: apply purchases voided since the newest one seen (re-reading OVERLAP_SECONDS before it), at most
+// MAX_LOOKBACK_SECONDS back. Tests pass their own listVoidedPurchases instead of calling Google.
+export const syncVoidedPurchases = async (
+  db: D1Database, env: Env, refundPayment: RefundVoidedPayment, listVoidedPurchases: ListVoidedPurchases = listGooglePlayVoidedPurchases
+): Promise<VoidedPurchasesSyncResult> => {
+  const { MAX_LOOKBACK_SECONDS, OVERLAP_SECONDS, MAX_PAGES } = GOOGLE_PLAY_CONFIG.VOIDED_PURCHASES;
+  const nowMs = Date.now();
+  const oldest = Math.floor(nowMs / 1000) - MAX_LOOKBACK_SECONDS;
+  const newest = await db.prepare('SELECT MAX(voided_at) AS voided_at FROM voided_purchases').first() as { voided_at: number | null } | null;
+  const startTimeMillis = Math.max(oldest, (newest?.voided_at ?? oldest) - OVERLAP_SECONDS) * 1000;
+
+  const result: VoidedPurchasesSyncResult = { fetched: 0, applied: { refunded: 0, already_refunded: 0, not_granted: 0, unmatched: 0 } };
+  let pageToken: string | undefined;
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const response = await listVoidedPurchases(env, startTimeMillis, nowMs, pageToken);
+    if (!response.success) {
+      result.error = response.error;
+      break;
+    }
+    result.fetched += response.voidedPurchases.length;
+    for (const voided of response.voidedPurchases) {
+      const status = await applyVoidedPurchase(db, voided, refundPayment);
+      if (status) result.applied[status]++;
+    }
+    pageToken = response.nextPageToken;
+    if (!pageToken) break;
+  }
+  if (pageToken) console.warn(`[VoidedPurchases] Stopped after ${MAX_PAGES} pages; the next run continues`);
+  return result;
+};
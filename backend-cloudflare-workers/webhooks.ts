@@ -0,0 +1,180 @@
+// backend-cloudflare-workers/webhooks.ts
+// Result webhooks: AI endpoints report each finished request to callback_url (per request, else the profile's endpoint)
+//
+// Receivers verify X-Webhook-Signature = "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${raw body}`>" with the
+// profile's webhook secret (GET /profiles/:id/webhook) and dedupe on X-Webhook-Id (retries resend the same body).
+import { customAlphabet } from 'nanoid';
+import type { Env, WebhookDelivery, WebhookPayload } from './types';
+import { fetchWithTimeout, promisePoolWithConcurrency } from './utils';
+import { WEBHOOK_CONFIG } from './config';
+
+const nanoid = customAlphabet('ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789_', 21);
+
+const hmacHex = async (secret: string, message: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const sig = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return [...new Uint8Array(sig)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Per-profile secret derived like the profile token, so nothing extra is stored and rotating the root secret rotates all of them
+export const getWebhookSecret = async (env: Env, profileId: string): Promise<string | null> => {
+  const rootSecret = env.WEBHOOK_SIGNING_SECRET || env.PROFILE_TOKEN_SECRET;
+  if (!rootSecret) return null;
+  return `whsec_${await hmacHex(rootSecret, `webhook:${profileId}`)}`;
+};
+
+export const signWebhookPayload = async (secret: string, timestamp: number, body: string): Promise<string> => {
+  return `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${body}`)}`;
+};
+
+// Delay before the next attempt, or null when the delivery has used all of its attempts
+const nextRetryDelay = (attempts: number): number | null => WEBHOOK_CONFIG.RETRY_DELAYS_SECONDS[attempts - 1] ?? null;
+
+const attemptWebhookDelivery = async (DB: D1Database, env: Env, delivery: WebhookDelivery): Promise<boolean> => {
+  const secret = await getWebhookSecret(env, delivery.profile_id);
+  if (!secret) {
+    console.warn(`[Webhooks] Delivery ${delivery.id} skipped: no signing secret configured`);
+    return false;
+  }
+
+  const attempts = delivery.attempts + 1;
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  try {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const response = await fetchWithTimeout(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Signature': await signWebhookPayload(secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      redirect: 'manual',
+    }, WEBHOOK_CONFIG.TIMEOUT_MS);
+    statusCode = response.status;
+    if (!response.ok) error = `HTTP ${response.status}`;
+    await response.body?.cancel();
+  } catch (fetchError) {
+    error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (!error) {
+    await DB.prepare(
+      'UPDATE webhook_deliveries SET status = \'delivered\', attempts = ?, last_status_code = ?, last_error = NULL, next_attempt_at = NULL, delivered_at = ? WHERE id = ?'
+    ).bind(attempts, statusCode, now, delivery.id).run();
+    return true;
+  }
+
+  const delay = nextRetryDelay(attempts);
+  await DB.prepare(
+    'UPDATE webhook_deliveries SET status = ?, attempts = ?, last_status_code = ?, last_error = ?, next_attempt_at = ? WHERE id = ?'
+  ).bind(delay === null ? 'failed' : 'pending', attempts, statusCode, error.slice(0, WEBHOOK_CONFIG.MAX_ERROR_LENGTH), delay === null ? null : now + delay, delivery.id).run();
+  console.warn(`[Webhooks] Delivery ${delivery.id} attempt ${attempts} failed: ${error}`);
+  return false;
+};
+
+export interface ResultWebhookInput {
+  profileId: string;
+  action: string;
+  callbackUrl?: string | null;      // Per-request override of the profile's callback_url
+  jobId?: string | null;
+  response: Response;               // Clone of the endpoint's JSON response
+}
+
+// Build the event from the endpoint's response envelope ({ data, status, message, code })
+const buildResultPayload = (deliveryId: string, input: ResultWebhookInput, envelope: any): WebhookPayload => {
+  const success = input.response.ok && envelope?.status === 'success';
+  const data = envelope?.data || {};
+  return {
+    id: deliveryId,
+    event: success ? 'result.completed' : 'result.failed',
+    created_at: new Date().toISOString(),
+    data: {
+      profile_id: input.profileId,
+      action: input.action,
+      status: success ? 'success' : 'error',
+      code: typeof envelope?.code === 'number' ? envelope.code : input.response.status,
+      result_id: success && data.id != null ? String(data.id) : null,
+      result_url: success ? data.resultImageUrl || null : null,
+      job_id: input.jobId || null,
+      batch_id: data.batch_id || null,
+      message: success ? null : envelope?.message || null,
+    },
+  };
+};
+
+// Log the event and make the first attempt; failures are picked up by retryWebhookDeliveries
+export const sendResultWebhook = async (DB: D1Database, env: Env, input: ResultWebhookInput): Promise<void> => {
+  const profile = await DB.prepare('SELECT callback_url FROM profiles WHERE id = ?').bind(input.profileId).first() as { callback_url: string | null } | null;
+  const url = input.callbackUrl || profile?.callback_url;
+  if (!profile || !url) {
+    await input.response.body?.cancel();
+    return;
+  }
+
+  const envelope = await input.response.json().catch(() => null);
+  const id = nanoid();
+  const payload = buildResultPayload(id, input, envelope);
+  const delivery: WebhookDelivery = {
+    id,
+    profile_id: input.profileId,
+    url,
+    event: payload.event,
+    payload: JSON.stringify(payload),
+    status: 'pending',
+    attempts: 0,
+    last_status_code: null,
+    last_error: null,
+    // Lease for the first attempt: if the worker dies mid-attempt the retry cron takes over
+    next_attempt_at: Math.floor(Date.now() / 1000) + WEBHOOK_CONFIG.RETRY_DELAYS_SECONDS[0],
+    created_at: Math.floor(Date.now() / 1000),
+    delivered_at: null,
+  };
+  await DB.prepare(
+    'INSERT INTO webhook_deliveries (id, profile_id, url, event, payload, status, attempts, next_attempt_at, created_at) VALUES (?, ?, ?, ?, ?, \'pending\', 0, ?, ?)'
+  ).bind(delivery.id, delivery.profile_id, delivery.url, delivery.event, delivery.payload, delivery.next_attempt_at, delivery.created_at).run();
+
+  await attemptWebhookDelivery(DB, env, delivery);
+};
+
+// Cron: resend pending deliveries whose backoff has elapsed. Returns how many were delivered.
+export const retryWebhookDeliveries = async (DB: D1Database, env: Env): Promise<number> => {
+  const now = Math.floor(Date.now() / 1000);
+  const due = await DB.prepare(
+    'SELECT * FROM webhook_deliveries WHERE status = \'pending\' AND next_attempt_at <= ? ORDER BY next_attempt_at LIMIT ?'
+  ).bind(now, WEBHOOK_CONFIG.RETRY_BATCH_SIZE).all<WebhookDelivery>();
+
+  const retryDelivery = async (delivery: WebhookDelivery): Promise<boolean> => {
+    // Claim by moving next_attempt_at forward so an overlapping run skips this row
+    const claim = await DB.prepare(
+      'UPDATE webhook_deliveries SET next_attempt_at = ? WHERE id = ? AND status = \'pending\' AND next_attempt_at = ?'
+    ).bind(now + WEBHOOK_CONFIG.RETRY_DELAYS_SECONDS[0], delivery.id, delivery.next_attempt_at).run();
+    if (!claim.meta?.changes) return false;
+    return attemptWebhookDelivery(DB, env, delivery);
+  };
+
+  const results = await promisePoolWithConcurrency(due.results || [], (delivery) => retryDelivery(delivery).catch((error) => {
+    console.error(`[Webhooks] Retry of delivery ${delivery.id} failed:`, error instanceof Error ? error.message : String(error));
+    return false;
+  }), WEBHOOK_CONFIG.RETRY_CONCURRENCY);
+  return results.filter(Boolean).length;
+};
+
+export const formatWebhookDelivery = (delivery: WebhookDelivery) => {
+  const toIso = (ts: number | null) => ts ? new Date(ts * 1000).toISOString() : null;
+  return {
+    id: delivery.id,
+    url: delivery.url,
+    event: delivery.event,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    last_status_code: delivery.last_status_code,
+    last_error: delivery.last_error,
+    next_attempt_at: delivery.status === 'pending' ? toIso(delivery.next_attempt_at) : null,
+    created_at: toIso(delivery.created_at),
+    delivered_at: toIso(delivery.delivered_at),
+  };
+};
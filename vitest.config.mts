@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Worker modules run under Node: Photon's workerd build imports the .wasm file directly, its node build loads it itself
+export default defineConfig({
+  resolve: {
+    alias: [{ find: /^@cf-wasm\/photon\/workerd$/, replacement: '@cf-wasm/photon/node' }],
+  },
+  test: {
+    include: ['backend-cloudflare-workers/test/**/*.test.ts'],
+  },
+});